@@ -21,6 +21,12 @@ export const RATE_LIMITS = {
   CHAT_REQUESTS_PER_MINUTE: parseInt(process.env.CHAT_RATE_LIMIT || "30", 10),
   CHAT_RATE_WINDOW_SECONDS: 60,
 
+  // Failed order lookups (TRACK_ORDER) - prevents order enumeration
+  ORDER_LOOKUP_FAILURES_PER_SESSION: parseInt(process.env.ORDER_LOOKUP_FAILURES_PER_SESSION || "5", 10),
+  ORDER_LOOKUP_FAILURES_PER_IP: parseInt(process.env.ORDER_LOOKUP_FAILURES_PER_IP || "10", 10),
+  ORDER_LOOKUP_FAILURES_PER_ORDER: parseInt(process.env.ORDER_LOOKUP_FAILURES_PER_ORDER || "5", 10),
+  ORDER_LOOKUP_FAILURE_WINDOW_SECONDS: parseInt(process.env.ORDER_LOOKUP_FAILURE_WINDOW_SECONDS || "900", 10),
+
   // General API rate limit (fallback)
   DEFAULT_REQUESTS_PER_MINUTE: parseInt(process.env.DEFAULT_RATE_LIMIT || "100", 10),
   DEFAULT_RATE_WINDOW_SECONDS: 60,
@@ -33,11 +39,17 @@ export const TIMEOUTS = {
   // N8N webhook timeout
   N8N_WEBHOOK_MS: parseInt(process.env.N8N_TIMEOUT_MS || "30000", 10),
 
+  // In-process LLM provider timeout
+  LLM_REQUEST_MS: parseInt(process.env.LLM_TIMEOUT_MS || "25000", 10),
+
   // External API timeout
   EXTERNAL_API_MS: parseInt(process.env.EXTERNAL_API_TIMEOUT_MS || "10000", 10),
 
   // Database query timeout
   DATABASE_QUERY_MS: parseInt(process.env.DB_QUERY_TIMEOUT_MS || "15000", 10),
+
+  // SMTP connection / send timeout
+  MAIL_SEND_MS: parseInt(process.env.MAIL_TIMEOUT_MS || "15000", 10),
 } as const;
 
 /**
@@ -52,6 +64,286 @@ export const WIDGET = {
 
   // Cache duration for widget script (seconds)
   SCRIPT_CACHE_MAX_AGE: parseInt(process.env.WIDGET_CACHE_MAX_AGE || "60", 10),
+
+  // Keep-alive interval for streamed chat replies (milliseconds)
+  STREAM_HEARTBEAT_MS: parseInt(process.env.WIDGET_STREAM_HEARTBEAT_MS || "10000", 10),
+} as const;
+
+/**
+ * Conversation Summary Configuration
+ */
+export const CONVERSATION_SUMMARY = {
+  // Messages kept verbatim (matches the history window loaded per turn)
+  RECENT_MESSAGES: 10,
+
+  // Fold older messages into the summary once this many are waiting
+  BATCH_MESSAGES: parseInt(process.env.SUMMARY_BATCH_MESSAGES || "6", 10),
+
+  // Upper bound for the summary text sent with every request
+  MAX_SUMMARY_CHARS: parseInt(process.env.SUMMARY_MAX_CHARS || "1200", 10),
+} as const;
+
+/**
+ * Response Cache Configuration
+ */
+export const RESPONSE_CACHE = {
+  // Support answers (shipping, returns, FAQ) - matches the policy cache TTL
+  SUPPORT_TTL_SECONDS: parseInt(process.env.RESPONSE_CACHE_SUPPORT_TTL || "3600", 10),
+
+  // Product answers go stale faster (prices, inventory)
+  PRODUCT_TTL_SECONDS: parseInt(process.env.RESPONSE_CACHE_PRODUCT_TTL || "900", 10),
+
+  // Minimum cosine similarity for a semantic (embedding) hit
+  SIMILARITY_THRESHOLD: parseFloat(process.env.RESPONSE_CACHE_SIMILARITY || "0.92"),
+
+  // Entries compared per semantic lookup
+  MAX_SEMANTIC_CANDIDATES: 50,
+} as const;
+
+/**
+ * N8N Webhook Resilience Configuration
+ */
+export const N8N_RESILIENCE = {
+  // Extra attempts for failures that are safe to retry (connection resets, 429/502/503/504)
+  MAX_RETRIES: parseInt(process.env.N8N_MAX_RETRIES || "2", 10),
+
+  // Full-jitter backoff: random delay up to min(MAX, BASE * 2^attempt)
+  RETRY_BASE_DELAY_MS: parseInt(process.env.N8N_RETRY_BASE_DELAY_MS || "250", 10),
+  RETRY_MAX_DELAY_MS: parseInt(process.env.N8N_RETRY_MAX_DELAY_MS || "2000", 10),
+
+  // Consecutive failures before the circuit opens
+  FAILURE_THRESHOLD: parseInt(process.env.N8N_CIRCUIT_FAILURE_THRESHOLD || "5", 10),
+
+  // How long an open circuit skips the webhook before a probe request
+  OPEN_DURATION_SECONDS: parseInt(process.env.N8N_CIRCUIT_OPEN_SECONDS || "60", 10),
+
+  // Alert the merchant once a custom workflow has been down this long
+  ALERT_AFTER_MINUTES: parseInt(process.env.N8N_DOWN_ALERT_MINUTES || "30", 10),
+
+  // Recent calls kept for error rate and p95 latency
+  HEALTH_SAMPLE_SIZE: 50,
+} as const;
+
+/**
+ * Workflow Recorder Configuration (opt-in per shop)
+ */
+export const WORKFLOW_RECORDER = {
+  // Recordings kept per shop; the oldest are pruned first
+  MAX_RECORDINGS_PER_SHOP: parseInt(process.env.WORKFLOW_RECORDER_MAX || "200", 10),
+
+  // Recordings older than this are deleted
+  RETENTION_DAYS: parseInt(process.env.WORKFLOW_RECORDER_RETENTION_DAYS || "7", 10),
+
+  // Longest string kept per field in a stored payload
+  MAX_FIELD_CHARS: 4000,
+} as const;
+
+/**
+ * Knowledge Base Configuration (merchant FAQs and articles)
+ */
+export const KNOWLEDGE_BASE = {
+  // Entries per shop
+  MAX_ENTRIES_PER_SHOP: parseInt(process.env.KNOWLEDGE_BASE_MAX_ENTRIES || "500", 10),
+
+  // Longest FAQ answer or article body
+  MAX_ENTRY_CHARS: 20000,
+
+  // Chunk size and the text repeated between consecutive chunks
+  CHUNK_CHARS: 1000,
+  CHUNK_OVERLAP_CHARS: 150,
+
+  // Chunks added to the chat context per message
+  TOP_K: parseInt(process.env.KNOWLEDGE_BASE_TOP_K || "4", 10),
+
+  // Minimum cosine similarity for an embedded chunk to be used
+  MIN_SIMILARITY: parseFloat(process.env.KNOWLEDGE_BASE_MIN_SIMILARITY || "0.35"),
+
+  // Minimum share of the question's keywords found in a chunk (no embeddings)
+  MIN_KEYWORD_SCORE: 0.5,
+
+  // An FAQ this close to the question answers it directly when the workflow is down
+  FAQ_ANSWER_SIMILARITY: 0.6,
+} as const;
+
+/**
+ * Knowledge Sync Configuration (store pages, blog articles and metafields)
+ */
+export const KNOWLEDGE_SYNC = {
+  // Content older than this is re-synced when a merchant opens the admin
+  INTERVAL_HOURS: parseInt(process.env.KNOWLEDGE_SYNC_INTERVAL_HOURS || "6", 10),
+
+  // Synced entries per source (pages, articles, metafields)
+  MAX_ITEMS_PER_SOURCE: parseInt(process.env.KNOWLEDGE_SYNC_MAX_ITEMS || "250", 10),
+
+  // Items per Admin GraphQL page
+  PAGE_SIZE: 50,
+
+  // Metafields a merchant can select
+  MAX_METAFIELDS: 10,
+
+  // A run still marked "running" after this long is considered dead
+  STALE_RUN_MINUTES: 15,
+} as const;
+
+/**
+ * Shop Policy Configuration (policies stored per shop, refreshed from Shopify)
+ */
+export const SHOP_POLICIES = {
+  // Stored policies older than this are refreshed in the background on the next chat
+  REFRESH_HOURS: parseInt(process.env.SHOP_POLICY_REFRESH_HOURS || "24", 10),
+
+  // Longest merchant override per policy
+  MAX_OVERRIDE_CHARS: 10000,
+
+  // Admin API request timeout when fetching policies
+  FETCH_TIMEOUT_MS: 10000,
+} as const;
+
+/**
+ * Language Detection Configuration (shopper messages)
+ */
+export const LANGUAGE_DETECTION = {
+  // Below this confidence the message language is treated as unknown
+  MIN_CONFIDENCE: 0.4,
+
+  // Shorter messages get proportionally lower confidence
+  FULL_CONFIDENCE_LETTERS: 12,
+} as const;
+
+/**
+ * Intent Classifier Configuration (shared by every chat endpoint)
+ */
+export const INTENT_CLASSIFIER = {
+  // Second tier for messages the rules are unsure about: "none", "embedding" or "llm"
+  MODEL_TIER: (process.env.INTENT_CLASSIFIER_TIER || "none") as 'none' | 'embedding' | 'llm',
+
+  // Rule matches at or above this confidence skip the model tier
+  MIN_RULE_CONFIDENCE: 0.5,
+
+  // Embedding tier: lowest similarity to an intent's examples that is accepted
+  MIN_EMBEDDING_SIMILARITY: 0.5,
+
+  // Model tier timeout, after which the rule result is used
+  MODEL_TIMEOUT_MS: parseInt(process.env.INTENT_CLASSIFIER_TIMEOUT_MS || "2000", 10),
+} as const;
+
+/**
+ * Custom Intent Configuration (merchant-defined intents with canned replies)
+ */
+export const CUSTOM_INTENTS = {
+  // Custom intents per shop
+  MAX_PER_SHOP: 25,
+
+  // Trigger phrases per intent
+  MAX_PHRASES: 50,
+
+  // Longest canned reply
+  MAX_RESPONSE_CHARS: 2000,
+
+  // Quick replies and suggested actions per intent
+  MAX_QUICK_REPLIES: 4,
+  MAX_SUGGESTED_ACTIONS: 3,
+
+  // Products shown with a reply that has a product query
+  MAX_PRODUCTS: 4,
+} as const;
+
+/**
+ * Human Handoff Configuration (escalated conversations queue)
+ */
+export const HANDOFF = {
+  // Replies below this confidence offer the shopper a human
+  LOW_CONFIDENCE: 0.4,
+
+  // Most recent messages copied into the handoff transcript
+  MAX_TRANSCRIPT_MESSAGES: 100,
+
+  // Longest note a shopper can add when asking for a human
+  MAX_NOTE_CHARS: 1000,
+
+  // Handoffs listed per status on the queue page
+  QUEUE_PAGE_SIZE: 50,
+} as const;
+
+/**
+ * Live Agent Inbox Configuration (staff replying from the admin)
+ */
+export const AGENT_INBOX = {
+  // Sessions with a message in this window are listed as active
+  // (same window in which the widget keeps reusing a chat session)
+  ACTIVE_SESSION_MINUTES: 60,
+
+  // Sessions listed in the inbox
+  MAX_SESSIONS: 50,
+
+  // Most recent messages shown for the open conversation
+  MAX_MESSAGES: 100,
+
+  // Longest reply a staff member can send
+  MAX_MESSAGE_CHARS: 2000,
+
+  // How often the inbox page refreshes
+  ADMIN_POLL_MS: 5000,
+
+  // How often the widget checks for staff messages (while someone has joined / otherwise)
+  WIDGET_POLL_MS: 4000,
+  WIDGET_IDLE_POLL_MS: 15000,
+
+  // Widget polls allowed per minute for one shopper session
+  WIDGET_POLLS_PER_MINUTE: 60,
+} as const;
+
+/**
+ * Business Hours Configuration (team availability and offline messages)
+ */
+export const BUSINESS_HOURS = {
+  // Holidays a shop can list
+  MAX_HOLIDAYS: 100,
+
+  // Longest question a shopper can leave while the shop is closed
+  MAX_OFFLINE_MESSAGE_CHARS: 2000,
+
+  // Offline messages listed in the admin
+  OFFLINE_MESSAGES_PAGE_SIZE: 50,
+} as const;
+
+/**
+ * Transcript Configuration (chat transcripts emailed to shoppers and merchants)
+ */
+export const TRANSCRIPTS = {
+  // Most recent messages included in a transcript
+  MAX_MESSAGES: 200,
+
+  // Product cards rendered under one assistant message
+  MAX_PRODUCT_CARDS: 4,
+
+  // Copies a shopper can request for one conversation
+  MAX_SHOPPER_SENDS_PER_SESSION: 3,
+
+  // Shopper copies one shop can send, and one address can receive, per window
+  MAX_SHOPPER_SENDS_PER_SHOP: 200,
+  MAX_SHOPPER_SENDS_PER_RECIPIENT: 5,
+  SHOPPER_SEND_WINDOW_HOURS: 24,
+
+  // Deliveries listed on the handoff card
+  HISTORY_LIMIT: 10,
+} as const;
+
+/**
+ * Lead Capture Configuration (email opt-in form in the widget)
+ */
+export const LEAD_CAPTURE = {
+  // Product-intent messages before the form is offered (merchant default)
+  DEFAULT_AFTER_PRODUCT_MESSAGES: 3,
+
+  // Highest value a merchant can set
+  MAX_AFTER_PRODUCT_MESSAGES: 20,
+
+  // Leads listed on the admin page
+  PAGE_SIZE: 50,
+
+  // Tag added to Shopify customers created from a lead
+  CUSTOMER_TAG: 'chat-lead',
 } as const;
 
 /**
@@ -0,0 +1,245 @@
+import { BUSINESS_HOURS } from '../config/limits';
+
+/**
+ * Business Hours
+ *
+ * WidgetSettings.businessHours stores when the shop's team answers chats, e.g.
+ *   { "enabled": true, "timezone": "Europe/Paris",
+ *     "schedule": { "monday": { "closed": false, "open": "09:00", "close": "18:00" }, ... },
+ *     "holidays": ["2026-12-25"] }
+ *
+ * Times and holidays are in the shop's timezone. While the shop is closed,
+ * escalations collect an offline message instead of queueing a handoff and
+ * the widget shows an "away" status. Disabled hours mean always available.
+ */
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface DaySchedule {
+  closed: boolean;
+  // "HH:MM", 24-hour clock
+  open: string;
+  close: string;
+}
+
+export interface BusinessHoursConfig {
+  enabled: boolean;
+  timezone: string;
+  schedule: Record<Weekday, DaySchedule>;
+  // "YYYY-MM-DD" dates the shop is closed all day
+  holidays: string[];
+}
+
+export interface BusinessHoursValidation {
+  hours: BusinessHoursConfig;
+  errors: string[];
+}
+
+export type AvailabilityStatus = 'always_open' | 'open' | 'closed' | 'holiday';
+
+export interface Availability {
+  open: boolean;
+  status: AvailabilityStatus;
+  timezone: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHoursConfig = {
+  enabled: false,
+  timezone: 'UTC',
+  schedule: {
+    monday: { closed: false, open: '09:00', close: '17:00' },
+    tuesday: { closed: false, open: '09:00', close: '17:00' },
+    wednesday: { closed: false, open: '09:00', close: '17:00' },
+    thursday: { closed: false, open: '09:00', close: '17:00' },
+    friday: { closed: false, open: '09:00', close: '17:00' },
+    saturday: { closed: true, open: '09:00', close: '17:00' },
+    sunday: { closed: true, open: '09:00', close: '17:00' },
+  },
+  holidays: [],
+};
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/**
+ * Parse the stored configuration (invalid days fall back to the defaults)
+ */
+export function parseBusinessHours(raw: string | null | undefined): BusinessHoursConfig {
+  if (!raw) return DEFAULT_BUSINESS_HOURS;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return DEFAULT_BUSINESS_HOURS;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return DEFAULT_BUSINESS_HOURS;
+  }
+
+  const value = parsed as Partial<Record<keyof BusinessHoursConfig, unknown>>;
+  const storedSchedule = (value.schedule && typeof value.schedule === 'object' ? value.schedule : {}) as Record<string, unknown>;
+
+  const schedule = { ...DEFAULT_BUSINESS_HOURS.schedule };
+  for (const day of WEEKDAYS) {
+    const entry = storedSchedule[day] as Partial<DaySchedule> | undefined;
+    if (entry && typeof entry.open === 'string' && typeof entry.close === 'string' &&
+      TIME_PATTERN.test(entry.open) && TIME_PATTERN.test(entry.close)) {
+      schedule[day] = { closed: !!entry.closed, open: entry.open, close: entry.close };
+    }
+  }
+
+  return {
+    enabled: value.enabled === true,
+    timezone: isValidTimezone(value.timezone) ? value.timezone : DEFAULT_BUSINESS_HOURS.timezone,
+    schedule,
+    holidays: Array.isArray(value.holidays)
+      ? value.holidays.filter((date): date is string => typeof date === 'string' && isValidDate(date))
+      : [],
+  };
+}
+
+/**
+ * Validate business hours submitted from the admin
+ *
+ * @param input - JSON string (or already parsed object) from the form
+ */
+export function validateBusinessHours(input: unknown): BusinessHoursValidation {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      return { hours: DEFAULT_BUSINESS_HOURS, errors: ['Business hours are not valid JSON'] };
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { hours: DEFAULT_BUSINESS_HOURS, errors: ['Business hours are missing'] };
+  }
+
+  const value = raw as Partial<Record<keyof BusinessHoursConfig, unknown>>;
+  const errors: string[] = [];
+
+  const timezone = typeof value.timezone === 'string' ? value.timezone.trim() : '';
+  if (!isValidTimezone(timezone)) {
+    errors.push(`Unknown timezone "${timezone}" (use a name such as Europe/Paris or America/New_York)`);
+  }
+
+  const submittedSchedule = (value.schedule && typeof value.schedule === 'object' ? value.schedule : {}) as Record<string, unknown>;
+  const schedule = { ...DEFAULT_BUSINESS_HOURS.schedule };
+  for (const day of WEEKDAYS) {
+    const entry = (submittedSchedule[day] ?? {}) as Partial<DaySchedule>;
+    const closed = !!entry.closed;
+    const open = typeof entry.open === 'string' ? entry.open.trim() : '';
+    const close = typeof entry.close === 'string' ? entry.close.trim() : '';
+
+    if (!TIME_PATTERN.test(open) || !TIME_PATTERN.test(close)) {
+      errors.push(`${day}: times must use the 24-hour HH:MM format`);
+      continue;
+    }
+    if (!closed && toMinutes(close) <= toMinutes(open)) {
+      errors.push(`${day}: closing time must be after opening time`);
+      continue;
+    }
+    schedule[day] = { closed, open, close };
+  }
+
+  const submittedHolidays = Array.isArray(value.holidays) ? value.holidays : [];
+  const holidays: string[] = [];
+  for (const date of submittedHolidays) {
+    const trimmed = typeof date === 'string' ? date.trim() : '';
+    if (!trimmed) continue;
+    if (!isValidDate(trimmed)) {
+      errors.push(`Invalid holiday date "${trimmed}" (use YYYY-MM-DD)`);
+      continue;
+    }
+    if (!holidays.includes(trimmed)) holidays.push(trimmed);
+  }
+  if (holidays.length > BUSINESS_HOURS.MAX_HOLIDAYS) {
+    errors.push(`Add at most ${BUSINESS_HOURS.MAX_HOLIDAYS} holidays`);
+  }
+
+  return {
+    hours: {
+      enabled: value.enabled === true,
+      timezone: isValidTimezone(timezone) ? timezone : DEFAULT_BUSINESS_HOURS.timezone,
+      schedule,
+      holidays: holidays.sort().slice(0, BUSINESS_HOURS.MAX_HOLIDAYS),
+    },
+    errors,
+  };
+}
+
+/**
+ * Serialize validated business hours for WidgetSettings.businessHours
+ */
+export function serializeBusinessHours(hours: BusinessHoursConfig): string {
+  return JSON.stringify(hours);
+}
+
+/**
+ * Weekday, date and minutes since midnight of `now` in a timezone
+ */
+export function getLocalTime(timezone: string, now: Date): { weekday: Weekday; date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    weekday: part('weekday').toLowerCase() as Weekday,
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Whether the shop's team is available at `now`
+ */
+export function getAvailability(hours: BusinessHoursConfig, now: Date = new Date()): Availability {
+  if (!hours.enabled) {
+    return { open: true, status: 'always_open', timezone: hours.timezone };
+  }
+
+  const local = getLocalTime(hours.timezone, now);
+  if (hours.holidays.includes(local.date)) {
+    return { open: false, status: 'holiday', timezone: hours.timezone };
+  }
+
+  const day = hours.schedule[local.weekday];
+  const open = !!day && !day.closed &&
+    local.minutes >= toMinutes(day.open) && local.minutes < toMinutes(day.close);
+
+  return { open, status: open ? 'open' : 'closed', timezone: hours.timezone };
+}
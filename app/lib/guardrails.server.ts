@@ -0,0 +1,382 @@
+/**
+ * Guardrails
+ *
+ * Scores incoming shopper messages for prompt-injection attempts and checks
+ * outgoing replies for leaked secrets, links outside the shop's domains and
+ * banned content. Each shop picks what happens on a violation:
+ *
+ * - block:    replace the message/reply with a safe canned answer
+ * - rewrite:  strip the offending parts and continue
+ * - log_only: keep the text as-is
+ *
+ * Every violation is logged and recorded in GuardrailViolation, whatever the mode.
+ * Secrets are always redacted, even in log_only mode.
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from "./logger.server";
+
+const logger = createLogger({ service: 'Guardrails' });
+
+export const GUARDRAIL_MODES = ['block', 'rewrite', 'log_only'] as const;
+export type GuardrailMode = typeof GUARDRAIL_MODES[number];
+
+export type GuardrailDirection = 'input' | 'output';
+
+export type GuardrailRule =
+  | 'role_override'
+  | 'prompt_extraction'
+  | 'key_exfiltration'
+  | 'fake_role_markup'
+  | 'secret_leak'
+  | 'prompt_leak'
+  | 'external_url'
+  | 'banned_content';
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  score: number;
+  // The matched text (already truncated, never contains a full secret)
+  excerpt: string;
+}
+
+export interface InjectionScore {
+  score: number;
+  flagged: boolean;
+  violations: GuardrailViolation[];
+  // Message with the matched spans removed (used by rewrite mode)
+  sanitized: string;
+}
+
+export interface OutputCheckOptions {
+  // Values that must never appear in a reply (API keys, tokens)
+  secrets?: Array<string | null | undefined>;
+  // Domains links may point to; subdomains are allowed too
+  allowedDomains?: string[];
+  bannedTerms?: string[];
+}
+
+export interface OutputCheckResult {
+  violations: GuardrailViolation[];
+  // Reply with secrets redacted, external links removed and banned terms masked
+  rewritten: string;
+  // Reply with only secrets redacted (used by log_only mode)
+  redacted: string;
+}
+
+export interface ShopGuardrailSettings {
+  mode: GuardrailMode;
+  bannedTerms: string[];
+  allowedDomains: string[];
+}
+
+// Messages scoring at or above this are treated as injection attempts
+export const INJECTION_THRESHOLD = 0.5;
+
+const MAX_EXCERPT_LENGTH = 120;
+const MIN_SECRET_LENGTH = 8;
+
+interface InjectionPattern {
+  rule: GuardrailRule;
+  pattern: RegExp;
+  weight: number;
+}
+
+// 🌍 English first, then FR, ES, DE, IT, PT variants of the most common phrasings
+const INJECTION_PATTERNS: InjectionPattern[] = [
+  // Role override: "ignore previous instructions", "you are now DAN"
+  { rule: 'role_override', weight: 0.6, pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.!?\n]{0,40}\b(previous|prior|above|earlier|all|your|the|these)\b[^.!?\n]{0,20}\b(instructions?|rules|prompts?|guidelines|directives)\b/gi },
+  { rule: 'role_override', weight: 0.6, pattern: /(ignore[sz]?|oublie[sz]?)\s+(toutes\s+)?(les|tes|vos)\s+(instructions|consignes|règles)(\s+précédentes)?/gi },
+  { rule: 'role_override', weight: 0.6, pattern: /(ignora|olvida)\s+(todas\s+)?(las|tus)\s+(instrucciones|reglas)(\s+anteriores)?/gi },
+  { rule: 'role_override', weight: 0.6, pattern: /(ignoriere|vergiss)\s+(alle\s+)?(vorherigen|bisherigen|deine)?\s*(anweisungen|regeln)/gi },
+  { rule: 'role_override', weight: 0.6, pattern: /(ignora|dimentica)\s+(tutte\s+)?(le\s+)?(istruzioni|regole)(\s+precedenti)?/gi },
+  { rule: 'role_override', weight: 0.6, pattern: /(ignore|esqueça)\s+(todas\s+)?(as\s+)?(instruções|regras)(\s+anteriores)?/gi },
+  { rule: 'role_override', weight: 0.4, pattern: /\b(you are now|from now on,? you (are|will)|pretend (to be|you are)|act as (an? )?(unrestricted|different|new|evil)|roleplay as)\b/gi },
+  { rule: 'role_override', weight: 0.5, pattern: /\b(developer mode|jailbreak|DAN mode|do anything now|no restrictions)\b/gi },
+
+  // System prompt extraction: "show me your system prompt"
+  { rule: 'prompt_extraction', weight: 0.6, pattern: /\b(reveal|show|print|repeat|output|display|tell me|give me|what (is|are|were))\b[^.!?\n]{0,30}\b(system prompt|initial prompt|hidden prompt|your (instructions|prompt|rules|guidelines)|the (instructions|prompt) (you were|above))\b/gi },
+  { rule: 'prompt_extraction', weight: 0.4, pattern: /\b(repeat|print) (everything|all text|the text) (above|before)\b/gi },
+  { rule: 'prompt_extraction', weight: 0.6, pattern: /(prompt système|prompt del sistema|system-?prompt|prompt do sistema)/gi },
+
+  // Key exfiltration: "what is your OpenAI API key"
+  { rule: 'key_exfiltration', weight: 0.7, pattern: /\b(your|the (store|shop|app|system|bot)'?s?)\s+(openai\s+)?(api[\s_-]?keys?|secret keys?|access[\s_-]?tokens?|admin tokens?|credentials|env(ironment)? variables?)\b/gi },
+  { rule: 'key_exfiltration', weight: 0.7, pattern: /\b(print|show|reveal|give me|send me|leak|dump|what is)\b[^.!?\n]{0,30}\b(api[\s_-]?key|openai[\s_-]?key|secret key|access[\s_-]?token|env(ironment)? variables?|\.env)\b/gi },
+  { rule: 'key_exfiltration', weight: 0.7, pattern: /(clé (d'|de l')?api|clave (de )?api|api-?schlüssel|chiave api|chave (de )?api)/gi },
+
+  // Fake role markup: "system: ...", "<|im_start|>system"
+  { rule: 'fake_role_markup', weight: 0.5, pattern: /(^|\n)\s*(system|assistant|developer)\s*:/gi },
+  { rule: 'fake_role_markup', weight: 0.5, pattern: /<\|?\s*(im_start|im_end|system|endoftext)\s*\|?>|\[\/?(INST|SYS)\]|<<\/?SYS>>/gi },
+];
+
+// Well-known credential formats, redacted even when we don't know the value
+const SECRET_PATTERNS: RegExp[] = [
+  /\bsk-(proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g,
+  /\bshp(at|ss|ca|pa)_[A-Fa-f0-9]{32}\b/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+];
+
+// Distinctive lines of our own system prompt (see llm/prompt.server.ts, chat-pipeline/context.server.ts)
+const PROMPT_LEAK_MARKERS = [
+  'CRITICAL LANGUAGE INSTRUCTION',
+  'You are the AI sales assistant for the Shopify store',
+  'Only recommend products from the CATALOG',
+  'Only recommend products returned by your tools',
+  'Set requiresHumanEscalation to true',
+];
+
+// Domains every shop can link to (product images)
+const ALWAYS_ALLOWED_DOMAINS = ['cdn.shopify.com'];
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'()\]]+|\bwww\.[a-z0-9-]+(\.[a-z0-9-]+)+[^\s<>"'()\]]*/gi;
+
+export const REDACTED = '[redacted]';
+
+function excerptOf(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_EXCERPT_LENGTH ? `${clean.substring(0, MAX_EXCERPT_LENGTH)}…` : clean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Score a shopper message for prompt-injection patterns (0 = clean, 1 = certain)
+ *
+ * Weights of distinct matched patterns add up, capped at 1, so a message that
+ * both overrides the role and asks for the API key scores higher than either alone.
+ */
+export function scoreInjection(message: string): InjectionScore {
+  const violations: GuardrailViolation[] = [];
+  let sanitized = message;
+  let score = 0;
+
+  for (const { rule, pattern, weight } of INJECTION_PATTERNS) {
+    const matches = message.match(pattern);
+    if (!matches) continue;
+
+    score += weight;
+    violations.push({ rule, score: weight, excerpt: excerptOf(matches[0]) });
+    sanitized = sanitized.replace(pattern, ' ');
+  }
+
+  score = Math.min(1, Math.round(score * 100) / 100);
+  sanitized = sanitized.replace(/\s{2,}/g, ' ').replace(/^[\s.,;:!?-]+/, '').trim();
+
+  return {
+    score,
+    flagged: score >= INJECTION_THRESHOLD,
+    violations,
+    sanitized,
+  };
+}
+
+/**
+ * Whether a URL's host is one of the allowed domains (or a subdomain of one)
+ */
+export function isAllowedUrl(url: string, allowedDomains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url.startsWith('www.') ? `https://${url}` : url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  return [...allowedDomains, ...ALWAYS_ALLOWED_DOMAINS].some((domain) => {
+    const allowed = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '');
+    return !!allowed && (host === allowed || host.endsWith(`.${allowed}`));
+  });
+}
+
+/**
+ * Check an assistant reply before it is sent to the shopper
+ */
+export function checkOutput(reply: string, options: OutputCheckOptions = {}): OutputCheckResult {
+  const violations: GuardrailViolation[] = [];
+  let redacted = reply;
+
+  // 1. Secrets: known values first, then well-known credential formats
+  const secrets = (options.secrets || [])
+    .filter((secret): secret is string => typeof secret === 'string' && secret.length >= MIN_SECRET_LENGTH);
+
+  for (const secret of secrets) {
+    if (redacted.includes(secret)) {
+      violations.push({ rule: 'secret_leak', score: 1, excerpt: `${secret.substring(0, 4)}…` });
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+
+  for (const pattern of SECRET_PATTERNS) {
+    const matches = redacted.match(pattern);
+    if (!matches) continue;
+    violations.push({ rule: 'secret_leak', score: 1, excerpt: `${matches[0].substring(0, 4)}…` });
+    redacted = redacted.replace(pattern, REDACTED);
+  }
+
+  let rewritten = redacted;
+
+  // 2. Our own system prompt echoed back
+  const leakedMarker = PROMPT_LEAK_MARKERS.find((marker) => rewritten.includes(marker));
+  if (leakedMarker) {
+    violations.push({ rule: 'prompt_leak', score: 1, excerpt: excerptOf(leakedMarker) });
+    rewritten = rewritten
+      .split('\n')
+      .filter((line) => !PROMPT_LEAK_MARKERS.some((marker) => line.includes(marker)))
+      .join('\n');
+  }
+
+  // 3. Links outside the shop's domains
+  const allowedDomains = options.allowedDomains || [];
+  for (const url of reply.match(URL_PATTERN) || []) {
+    if (isAllowedUrl(url, allowedDomains)) continue;
+    violations.push({ rule: 'external_url', score: 0.6, excerpt: excerptOf(url) });
+    rewritten = rewritten.split(url).join('');
+  }
+
+  // 4. Merchant-banned terms (competitors, forbidden claims...)
+  for (const term of options.bannedTerms || []) {
+    if (!term.trim()) continue;
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(term.trim())})(?=$|[^\\p{L}\\p{N}])`, 'giu');
+    if (!pattern.test(rewritten)) continue;
+    violations.push({ rule: 'banned_content', score: 0.6, excerpt: excerptOf(term) });
+    rewritten = rewritten.replace(pattern, (_match, prefix: string, found: string) => `${prefix}${'*'.repeat(found.length)}`);
+  }
+
+  rewritten = rewritten.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+  return { violations, rewritten, redacted };
+}
+
+/**
+ * End of the text up to its last whitespace at or before `limit`
+ */
+function wordBoundaryBefore(text: string, limit: number): number {
+  for (let i = Math.min(limit, text.length) - 1; i >= 0; i--) {
+    if (/\s/.test(text[i]!)) return i + 1;
+  }
+  return 0;
+}
+
+/**
+ * Check a reply that is streamed to the shopper while it is being written
+ *
+ * Text is released only once everything received up to the last whitespace
+ * passes checkOutput, so links and secrets are checked whole. The released
+ * text also stays behind the checked text by the longest prompt marker or
+ * banned term, so a multi-word match is never shown in part. After the first
+ * violation nothing more is released; the guarded full reply follows as usual.
+ *
+ * @returns function to feed each text delta
+ */
+export function createOutputStreamGuard(
+  options: OutputCheckOptions,
+  onText: (text: string) => void
+): (delta: string) => void {
+  const holdBack = Math.max(
+    ...PROMPT_LEAK_MARKERS.map((marker) => marker.length),
+    ...(options.bannedTerms || []).map((term) => term.trim().length)
+  );
+  let received = '';
+  let released = 0;
+  let stopped = false;
+
+  return (delta: string) => {
+    if (stopped) return;
+    received += delta;
+
+    const checkedEnd = wordBoundaryBefore(received, received.length);
+    const releaseEnd = wordBoundaryBefore(received, checkedEnd - holdBack);
+    if (releaseEnd <= released) return;
+
+    if (checkOutput(received.slice(0, checkedEnd), options).violations.length > 0) {
+      stopped = true;
+      return;
+    }
+
+    onText(received.slice(released, releaseEnd));
+    released = releaseEnd;
+  };
+}
+
+/**
+ * Parse a JSON string list stored on WidgetSettings (invalid data yields [])
+ */
+function parseStringList(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function normalizeGuardrailMode(mode: unknown): GuardrailMode {
+  return GUARDRAIL_MODES.includes(mode as GuardrailMode) ? mode as GuardrailMode : 'rewrite';
+}
+
+/**
+ * Read the shop's guardrail configuration from its widget settings
+ */
+export function getGuardrailSettings(
+  settings: { guardrailMode?: string | null; guardrailBannedTerms?: string | null; guardrailAllowedDomains?: string | null } | null
+): ShopGuardrailSettings {
+  return {
+    mode: normalizeGuardrailMode(settings?.guardrailMode),
+    bannedTerms: parseStringList(settings?.guardrailBannedTerms),
+    allowedDomains: parseStringList(settings?.guardrailAllowedDomains),
+  };
+}
+
+/**
+ * Turn comma/newline separated admin input into the stored JSON list
+ */
+export function serializeStringList(input: string | null | undefined): string {
+  const items = (input || '')
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return JSON.stringify(Array.from(new Set(items)));
+}
+
+/**
+ * Log and store violations (non-blocking: a database failure never breaks the chat)
+ */
+export async function recordGuardrailViolations(
+  shop: string,
+  direction: GuardrailDirection,
+  violations: GuardrailViolation[],
+  details: { sessionId?: string; action: GuardrailMode }
+): Promise<void> {
+  if (violations.length === 0) return;
+
+  logger.warn({
+    shop,
+    direction,
+    sessionId: details.sessionId,
+    action: details.action,
+    rules: violations.map((v) => v.rule),
+  }, '🚫 Guardrail violation');
+
+  try {
+    await db.guardrailViolation.createMany({
+      data: violations.map((violation) => ({
+        shop,
+        sessionId: details.sessionId,
+        direction,
+        rule: violation.rule,
+        score: violation.score,
+        action: details.action,
+        excerpt: violation.excerpt,
+      })),
+    });
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : String(error),
+      shop,
+    }, '❌ Failed to record guardrail violations (non-blocking)');
+  }
+}
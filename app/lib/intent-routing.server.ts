@@ -0,0 +1,231 @@
+import type { ChatIntentType } from '../services/chat-pipeline/types';
+import { createLogger } from './logger.server';
+import { getPlanLimits } from './plans.config';
+
+/**
+ * Per-Intent Workflow Routing
+ *
+ * WidgetSettings.intentRouting stores a JSON map of intent → route, e.g.
+ *   { "RETURNS": { "target": "custom", "webhookUrl": "https://..." },
+ *     "HELP_FAQ": { "target": "local" } }
+ *
+ * Targets:
+ *   default - the shop's workflow (custom webhook or plan workflow)
+ *   local   - answered from the built-in templates and policies, no AI call
+ *   byok    - the BYOK workflow, using the merchant's OpenAI key
+ *   custom  - a merchant webhook used only for this intent
+ *
+ * Routing is a Professional feature: rules are only applied when the plan
+ * has PlanLimits.hasCustomWebhook, so a downgrade falls back to the default.
+ */
+
+const logger = createLogger({ service: 'IntentRouting' });
+
+export const INTENT_ROUTE_TARGETS = ['default', 'local', 'byok', 'custom'] as const;
+export type IntentRouteTarget = typeof INTENT_ROUTE_TARGETS[number];
+
+// Intents a merchant can route, in the order shown on the settings page
+export const ROUTABLE_INTENTS: ChatIntentType[] = [
+  'SHIPPING_INFO',
+  'RETURNS',
+  'TRACK_ORDER',
+  'TERMS',
+  'PRIVACY',
+  'CONTACT',
+  'HELP_FAQ',
+  'PRODUCT_SEARCH',
+  'BESTSELLERS',
+  'NEW_ARRIVALS',
+  'ON_SALE',
+  'RECOMMENDATIONS',
+  'PRICE_INQUIRY',
+  'COMPARISON',
+  'AVAILABILITY',
+  'SIZE_FIT',
+  'GREETING',
+  'THANKS',
+  'GENERAL_CHAT',
+];
+
+export interface IntentRoute {
+  target: IntentRouteTarget;
+  webhookUrl?: string;
+}
+
+export type IntentRoutingTable = Partial<Record<ChatIntentType, IntentRoute>>;
+
+// One row of the routing editor on the settings page
+export interface IntentRouteRow {
+  intent: ChatIntentType;
+  target: IntentRouteTarget;
+  webhookUrl: string;
+}
+
+export interface IntentRoutingValidation {
+  routing: IntentRoutingTable;
+  errors: string[];
+}
+
+function isRouteTarget(value: unknown): value is IntentRouteTarget {
+  return INTENT_ROUTE_TARGETS.includes(value as IntentRouteTarget);
+}
+
+function isRoutableIntent(value: string): value is ChatIntentType {
+  return ROUTABLE_INTENTS.includes(value as ChatIntentType);
+}
+
+function isHttpsUrl(url: unknown): url is string {
+  if (typeof url !== 'string' || !url.startsWith('https://')) return false;
+  try {
+    return new URL(url).hostname !== '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the stored routing table (unknown intents, unknown targets,
+ * "default" entries and custom routes without a URL are dropped)
+ */
+export function parseIntentRouting(raw: string | null | undefined): IntentRoutingTable {
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+
+  const routing: IntentRoutingTable = {};
+  for (const [intent, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!isRoutableIntent(intent) || !value || typeof value !== 'object') continue;
+
+    const { target, webhookUrl } = value as { target?: unknown; webhookUrl?: unknown };
+    if (!isRouteTarget(target) || target === 'default') continue;
+
+    if (target === 'custom') {
+      if (isHttpsUrl(webhookUrl)) {
+        routing[intent] = { target, webhookUrl };
+      }
+      continue;
+    }
+
+    routing[intent] = { target };
+  }
+
+  return routing;
+}
+
+/**
+ * Validate a routing table submitted from the settings page against the plan
+ *
+ * @param input - JSON string (or already parsed object) from the form
+ * @param options.hasOpenAIKey - Whether the shop has an OpenAI key for BYOK routes
+ */
+export function validateIntentRouting(
+  input: unknown,
+  plan: string,
+  options: { hasOpenAIKey?: boolean } = {}
+): IntentRoutingValidation {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    if (input.trim() === '' || input === 'undefined' || input === 'null') {
+      return { routing: {}, errors: [] };
+    }
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      return { routing: {}, errors: ['Intent routing is not valid JSON'] };
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { routing: {}, errors: [] };
+  }
+
+  const routing: IntentRoutingTable = {};
+  const errors: string[] = [];
+
+  for (const [intent, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!isRoutableIntent(intent)) {
+      errors.push(`Unknown intent: ${intent}`);
+      continue;
+    }
+
+    const { target, webhookUrl } = (value ?? {}) as { target?: unknown; webhookUrl?: unknown };
+    if (!isRouteTarget(target)) {
+      errors.push(`${intent}: unknown route "${String(target)}"`);
+      continue;
+    }
+
+    if (target === 'default') continue;
+
+    if (target === 'custom') {
+      const url = typeof webhookUrl === 'string' ? webhookUrl.trim() : '';
+      if (!isHttpsUrl(url)) {
+        errors.push(`${intent}: a custom route needs a valid https:// webhook URL`);
+        continue;
+      }
+      routing[intent] = { target, webhookUrl: url };
+      continue;
+    }
+
+    if (target === 'byok' && !options.hasOpenAIKey) {
+      errors.push(`${intent}: the BYOK route needs an OpenAI API key`);
+      continue;
+    }
+
+    routing[intent] = { target };
+  }
+
+  if (Object.keys(routing).length > 0 && !getPlanLimits(plan).hasCustomWebhook) {
+    return {
+      routing: {},
+      errors: [...errors, 'Per-intent routing is available on the Professional plan'],
+    };
+  }
+
+  return { routing, errors };
+}
+
+/**
+ * Serialize a validated routing table for WidgetSettings.intentRouting
+ */
+export function serializeIntentRouting(routing: IntentRoutingTable): string {
+  return JSON.stringify(routing);
+}
+
+/**
+ * Editor rows for every routable intent (unrouted intents show "default")
+ */
+export function toIntentRouteRows(routing: IntentRoutingTable): IntentRouteRow[] {
+  return ROUTABLE_INTENTS.map((intent) => ({
+    intent,
+    target: routing[intent]?.target ?? 'default',
+    webhookUrl: routing[intent]?.webhookUrl ?? '',
+  }));
+}
+
+/**
+ * Route configured for an intent, or null when the shop default applies
+ */
+export function resolveIntentRoute(
+  settings: { intentRouting?: string | null } | null,
+  intent: ChatIntentType,
+  plan: string
+): IntentRoute | null {
+  const route = parseIntentRouting(settings?.intentRouting)[intent];
+  if (!route) return null;
+
+  if (!getPlanLimits(plan).hasCustomWebhook) {
+    logger.warn({ intent, target: route.target, plan }, '⚠️ Intent route ignored - plan has no custom workflows');
+    return null;
+  }
+
+  return route;
+}
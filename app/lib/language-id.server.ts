@@ -0,0 +1,244 @@
+/**
+ * Language Identification
+ *
+ * Offline language detection for shopper messages, covering every locale the
+ * widget supports (SupportedLocale):
+ *
+ * - ja / zh are recognized by script: any kana means Japanese, Han characters
+ *   without kana mean Chinese
+ * - Latin-script languages are scored with a naive Bayes model over character
+ *   1-3 grams, trained at startup on the short reference texts below
+ *
+ * Confidence is the model posterior, scaled down for very short messages
+ * ("ok", "merci") where a guess is unreliable. Callers treat results below
+ * LANGUAGE_DETECTION.MIN_CONFIDENCE as unknown.
+ */
+
+import type { SupportedLocale } from "../i18n/resources";
+import { LANGUAGE_DETECTION } from "../config/limits";
+
+export const SUPPORTED_LANGUAGES: SupportedLocale[] = ["en", "es", "fr", "de", "ja", "it", "pt", "zh"];
+
+type LatinLanguage = Exclude<SupportedLocale, "ja" | "zh">;
+
+export interface LanguageDetection {
+  language: SupportedLocale;
+  // 0-1; 0 when nothing could be detected and the fallback was returned
+  confidence: number;
+  method: "script" | "ngram" | "fallback";
+}
+
+const LANGUAGE_NAMES: Record<SupportedLocale, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  ja: "Japanese",
+  it: "Italian",
+  pt: "Portuguese",
+  zh: "Chinese",
+};
+
+// Reference texts: everyday and shopping language, including the questions
+// shoppers ask most (products, prices, shipping, returns, orders, help)
+const TRAINING_TEXTS: Record<LatinLanguage, string> = {
+  en: `Hello, I am looking for a gift for my wife. Can you show me your best selling products?
+    What is your return policy and how long does shipping take? I would like to know if this
+    item is still available in a smaller size. Where is my order? I placed it last week and
+    have not received any tracking number yet. Thank you very much for your help, that would
+    be great. Do you have anything cheaper than this one? I need new shoes for running and
+    something warm for the winter. How much does delivery cost to the United Kingdom? Could
+    you recommend a nice dress for a wedding? The colour should be blue or green. Which one
+    is better for sensitive skin? Please tell me when the new collection arrives. I want to
+    talk to someone about a problem with my payment. Is there a discount code for first orders?
+    Everything looks good, thanks, have a nice day.`,
+  fr: `Bonjour, je cherche un cadeau pour ma femme. Pouvez-vous me montrer vos produits les plus
+    vendus ? Quelle est votre politique de retour et combien de temps prend la livraison ?
+    J'aimerais savoir si cet article est encore disponible dans une taille plus petite. Où est
+    ma commande ? Je l'ai passée la semaine dernière et je n'ai pas encore reçu de numéro de
+    suivi. Merci beaucoup pour votre aide, ce serait parfait. Avez-vous quelque chose de moins
+    cher que celui-ci ? J'ai besoin de nouvelles chaussures pour courir et de quelque chose de
+    chaud pour l'hiver. Combien coûtent les frais de port vers la Belgique ? Pourriez-vous me
+    conseiller une jolie robe pour un mariage ? La couleur doit être bleue ou verte. Lequel est
+    le mieux pour les peaux sensibles ? Dites-moi quand la nouvelle collection arrive. Je
+    voudrais parler à quelqu'un d'un problème avec mon paiement. Y a-t-il un code de réduction
+    pour une première commande ? Tout me convient, merci, bonne journée.`,
+  es: `Hola, estoy buscando un regalo para mi esposa. ¿Puedes mostrarme tus productos más
+    vendidos? ¿Cuál es su política de devoluciones y cuánto tarda el envío? Me gustaría saber
+    si este artículo todavía está disponible en una talla más pequeña. ¿Dónde está mi pedido?
+    Lo hice la semana pasada y todavía no he recibido ningún número de seguimiento. Muchas
+    gracias por tu ayuda, sería genial. ¿Tienen algo más barato que este? Necesito zapatos
+    nuevos para correr y algo abrigado para el invierno. ¿Cuánto cuesta el envío a México?
+    ¿Podrías recomendarme un vestido bonito para una boda? El color debe ser azul o verde.
+    ¿Cuál es mejor para la piel sensible? Por favor, avísame cuando llegue la nueva colección.
+    Quiero hablar con alguien sobre un problema con mi pago. ¿Hay un código de descuento para
+    el primer pedido? Todo está bien, gracias, que tengas un buen día.`,
+  de: `Hallo, ich suche ein Geschenk für meine Frau. Können Sie mir Ihre meistverkauften Produkte
+    zeigen? Wie lauten Ihre Rückgabebedingungen und wie lange dauert der Versand? Ich möchte
+    wissen, ob dieser Artikel noch in einer kleineren Größe verfügbar ist. Wo ist meine
+    Bestellung? Ich habe sie letzte Woche aufgegeben und noch keine Sendungsnummer erhalten.
+    Vielen Dank für Ihre Hilfe, das wäre super. Haben Sie etwas Günstigeres als dieses? Ich
+    brauche neue Schuhe zum Laufen und etwas Warmes für den Winter. Wie viel kostet die
+    Lieferung nach Österreich? Könnten Sie mir ein schönes Kleid für eine Hochzeit empfehlen?
+    Die Farbe sollte blau oder grün sein. Welches ist besser für empfindliche Haut? Bitte sagen
+    Sie mir, wann die neue Kollektion kommt. Ich möchte mit jemandem über ein Problem mit meiner
+    Zahlung sprechen. Gibt es einen Rabattcode für die erste Bestellung? Alles gut, danke, einen
+    schönen Tag noch.`,
+  it: `Ciao, sto cercando un regalo per mia moglie. Puoi mostrarmi i vostri prodotti più venduti?
+    Qual è la vostra politica di reso e quanto tempo richiede la spedizione? Vorrei sapere se
+    questo articolo è ancora disponibile in una taglia più piccola. Dov'è il mio ordine? L'ho
+    effettuato la settimana scorsa e non ho ancora ricevuto nessun numero di tracciamento.
+    Grazie mille per il tuo aiuto, sarebbe perfetto. Avete qualcosa di più economico di questo?
+    Ho bisogno di scarpe nuove per correre e di qualcosa di caldo per l'inverno. Quanto costa la
+    consegna in Svizzera? Potresti consigliarmi un bel vestito per un matrimonio? Il colore
+    dovrebbe essere blu o verde. Quale è migliore per la pelle sensibile? Per favore dimmi
+    quando arriva la nuova collezione. Voglio parlare con qualcuno di un problema con il mio
+    pagamento. C'è un codice sconto per il primo ordine? Va tutto bene, grazie, buona giornata.`,
+  pt: `Olá, estou procurando um presente para minha esposa. Você pode me mostrar os produtos mais
+    vendidos? Qual é a política de devolução e quanto tempo demora o envio? Gostaria de saber se
+    este item ainda está disponível num tamanho menor. Onde está o meu pedido? Fiz na semana
+    passada e ainda não recebi nenhum código de rastreamento. Muito obrigado pela sua ajuda,
+    seria ótimo. Vocês têm algo mais barato do que este? Preciso de sapatos novos para correr e
+    de alguma coisa quente para o inverno. Quanto custa a entrega para Portugal? Você poderia me
+    recomendar um vestido bonito para um casamento? A cor deve ser azul ou verde. Qual é melhor
+    para pele sensível? Por favor, me avise quando a nova coleção chegar. Quero falar com alguém
+    sobre um problema com o meu pagamento. Existe um código de desconto para a primeira compra?
+    Está tudo certo, obrigado, tenha um bom dia.`,
+};
+
+const MAX_NGRAM = 3;
+const SMOOTHING = 0.5;
+
+interface LanguageModel {
+  language: LatinLanguage;
+  counts: Map<string, number>;
+  totals: number[];
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}]+/gu, " ").trim();
+}
+
+/**
+ * Character 1-3 grams of each word, with word boundaries marked by spaces
+ */
+function extractNgrams(text: string): string[] {
+  const ngrams: string[] = [];
+  for (const word of normalizeText(text).split(" ")) {
+    if (!word) continue;
+    const padded = ` ${word} `;
+    for (let size = 1; size <= MAX_NGRAM; size++) {
+      for (let i = 0; i + size <= padded.length; i++) {
+        const gram = padded.substring(i, i + size);
+        if (gram !== " ") ngrams.push(gram);
+      }
+    }
+  }
+  return ngrams;
+}
+
+function trainModels(): { models: LanguageModel[]; vocabulary: number[] } {
+  const vocabularies = Array.from({ length: MAX_NGRAM + 1 }, () => new Set<string>());
+
+  const models = (Object.keys(TRAINING_TEXTS) as LatinLanguage[]).map((language) => {
+    const counts = new Map<string, number>();
+    const totals = new Array<number>(MAX_NGRAM + 1).fill(0);
+    for (const gram of extractNgrams(TRAINING_TEXTS[language])) {
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+      totals[gram.length] = (totals[gram.length] || 0) + 1;
+      vocabularies[gram.length]!.add(gram);
+    }
+    return { language, counts, totals };
+  });
+
+  return { models, vocabulary: vocabularies.map((set) => set.size) };
+}
+
+const { models: MODELS, vocabulary: VOCABULARY } = trainModels();
+
+function logLikelihood(model: LanguageModel, ngrams: string[]): number {
+  let score = 0;
+  for (const gram of ngrams) {
+    const total = model.totals[gram.length] || 0;
+    const vocabulary = VOCABULARY[gram.length] || 1;
+    score += Math.log(((model.counts.get(gram) || 0) + SMOOTHING) / (total + SMOOTHING * vocabulary));
+  }
+  return score;
+}
+
+function detectByScript(text: string): LanguageDetection | null {
+  const kana = (text.match(/[\u3040-\u30ff]/g) || []).length;
+  const han = (text.match(/[\u3400-\u4dbf\u4e00-\u9fff]/g) || []).length;
+  const cjk = kana + han;
+  if (cjk === 0) return null;
+
+  // One CJK character carries about as much as a short Latin word
+  const latin = (text.match(/[a-z\u00c0-\u024f]/gi) || []).length;
+  const share = cjk / (cjk + latin / 4);
+  if (share < 0.5) return null;
+
+  return {
+    language: kana > 0 ? "ja" : "zh",
+    confidence: Math.min(1, 0.6 + 0.1 * cjk) * share,
+    method: "script",
+  };
+}
+
+/**
+ * Identify the language of a message
+ *
+ * @param options.fallback - Returned with confidence 0 when nothing is recognized (default "en")
+ */
+export function identifyLanguage(
+  text: string,
+  options: { fallback?: SupportedLocale } = {}
+): LanguageDetection {
+  const fallback: LanguageDetection = { language: options.fallback || "en", confidence: 0, method: "fallback" };
+
+  const byScript = detectByScript(text);
+  if (byScript) return byScript;
+
+  const ngrams = extractNgrams(text);
+  if (ngrams.length === 0) return fallback;
+
+  const scores = MODELS.map((model) => ({ language: model.language, score: logLikelihood(model, ngrams) }));
+  const best = Math.max(...scores.map(({ score }) => score));
+  const weights = scores.map(({ language, score }) => ({ language, weight: Math.exp(score - best) }));
+  const sum = weights.reduce((total, { weight }) => total + weight, 0);
+  const top = weights.reduce((a, b) => (b.weight > a.weight ? b : a));
+
+  const letters = normalizeText(text).replace(/ /g, "").length;
+  const lengthFactor = Math.min(1, letters / LANGUAGE_DETECTION.FULL_CONFIDENCE_LETTERS);
+
+  return {
+    language: top.language,
+    confidence: (top.weight / sum) * lengthFactor,
+    method: "ngram",
+  };
+}
+
+/**
+ * Language of a message, or the fallback when the detection is not confident enough
+ */
+export function detectMessageLanguage(text: string, fallback: SupportedLocale = "en"): SupportedLocale {
+  const detection = identifyLanguage(text, { fallback });
+  return detection.confidence >= LANGUAGE_DETECTION.MIN_CONFIDENCE ? detection.language : fallback;
+}
+
+/**
+ * Supported language of a browser/storefront locale ("fr-FR" -> "fr", "zh-Hant-TW" -> "zh")
+ *
+ * @returns null for missing or unsupported locales
+ */
+export function normalizeLocale(locale: string | null | undefined): SupportedLocale | null {
+  if (!locale) return null;
+  const languageCode = locale.toLowerCase().split(/[-_]/)[0] as SupportedLocale;
+  return SUPPORTED_LANGUAGES.includes(languageCode) ? languageCode : null;
+}
+
+/**
+ * English name of a language code, for instructions sent to the AI
+ */
+export function getLanguageName(languageCode: string): string {
+  return LANGUAGE_NAMES[languageCode as SupportedLocale] || "English";
+}
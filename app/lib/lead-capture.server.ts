@@ -0,0 +1,97 @@
+import { LEAD_CAPTURE } from '../config/limits';
+
+/**
+ * Lead Capture
+ *
+ * WidgetSettings.leadCapture stores when the widget asks shoppers for their
+ * email, e.g.
+ *   { "enabled": true, "afterProductMessages": 3 }
+ *
+ * The form is offered once per conversation, either because the assistant
+ * asked for it (requestLeadCapture in its reply) or by the rule: after
+ * afterProductMessages messages with product intent. 0 leaves it to the
+ * assistant. Marketing consent is a separate, unticked checkbox.
+ */
+
+export const LEAD_TRIGGERS = ['assistant', 'rule'] as const;
+export type LeadTrigger = typeof LEAD_TRIGGERS[number];
+
+export type LeadSyncStatus = 'pending' | 'synced' | 'failed';
+
+export interface LeadCaptureConfig {
+  enabled: boolean;
+  afterProductMessages: number;
+}
+
+// Kept on ChatSession.context between messages
+export interface LeadCaptureSessionState {
+  productMessages: number;
+  offeredAt?: string;
+}
+
+export const DEFAULT_LEAD_CAPTURE: LeadCaptureConfig = {
+  enabled: false,
+  afterProductMessages: LEAD_CAPTURE.DEFAULT_AFTER_PRODUCT_MESSAGES,
+};
+
+function clampThreshold(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    return DEFAULT_LEAD_CAPTURE.afterProductMessages;
+  }
+  return Math.min(Math.max(Math.round(number), 0), LEAD_CAPTURE.MAX_AFTER_PRODUCT_MESSAGES);
+}
+
+/**
+ * Parse the stored (or submitted) configuration, falling back to the defaults
+ */
+export function parseLeadCaptureConfig(raw: unknown): LeadCaptureConfig {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return DEFAULT_LEAD_CAPTURE;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return DEFAULT_LEAD_CAPTURE;
+  }
+
+  const value = parsed as Partial<Record<keyof LeadCaptureConfig, unknown>>;
+  return {
+    enabled: value.enabled === true,
+    afterProductMessages: clampThreshold(value.afterProductMessages),
+  };
+}
+
+export function serializeLeadCaptureConfig(config: LeadCaptureConfig): string {
+  return JSON.stringify({
+    enabled: config.enabled,
+    afterProductMessages: clampThreshold(config.afterProductMessages),
+  });
+}
+
+/**
+ * Whether this reply should carry the lead form, and why
+ *
+ * @returns null when capture is off, the session was already offered the form
+ *   or neither the assistant nor the rule asks for it
+ */
+export function shouldOfferLeadCapture(
+  config: LeadCaptureConfig,
+  state: LeadCaptureSessionState,
+  assistantRequested: boolean
+): LeadTrigger | null {
+  if (!config.enabled || state.offeredAt) {
+    return null;
+  }
+  if (assistantRequested) {
+    return 'assistant';
+  }
+  if (config.afterProductMessages > 0 && state.productMessages >= config.afterProductMessages) {
+    return 'rule';
+  }
+  return null;
+}
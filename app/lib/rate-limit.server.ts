@@ -280,6 +280,36 @@ export function checkRateLimit(
   };
 }
 
+/**
+ * Read the rate limit state for an identifier without counting a request
+ *
+ * Pair with `checkRateLimit` to limit only some outcomes (e.g. failed
+ * order lookups): peek before the operation, count after a failure.
+ */
+export function peekRateLimit(
+  identifier: string,
+  config: RateLimitConfig,
+  namespace: string = 'default'
+): {
+  isLimited: boolean;
+  remaining: number;
+  retryAfter: number;
+} {
+  const entry = rateLimitStore.get(`${namespace}:${identifier}`);
+  const now = Date.now();
+
+  if (!entry || entry.resetAt < now) {
+    return { isLimited: false, remaining: config.maxRequests, retryAfter: 0 };
+  }
+
+  const isLimited = entry.count >= config.maxRequests;
+  return {
+    isLimited,
+    remaining: Math.max(0, config.maxRequests - entry.count),
+    retryAfter: isLimited ? Math.ceil((entry.resetAt - now) / 1000) : 0,
+  };
+}
+
 /**
  * Apply rate limit to a request
  *
@@ -0,0 +1,176 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Lets the widget chat endpoint stream its reply instead of holding the
+ * connection open silently until the response is complete.
+ *
+ * Frame sequence for a chat reply:
+ * - `start`           sent immediately so the widget knows the stream is live
+ * - `token`           message text as the in-process model writes it, in order
+ * - `recommendations` product cards for the reply
+ * - `quickReplies`    suggested follow-up prompts
+ * - `chatSessionId`   session identifiers used for ratings
+ * - `done`            the complete JSON payload (same shape as the non-streaming response)
+ * - `error`           sent instead of the content frames when the request failed
+ *
+ * Replies that are not generated in-process (N8N workflows, cached answers,
+ * templates and fallbacks) send no `token` frames; their text arrives whole
+ * in `done`. Streamed text has passed the output guardrails; the message in
+ * `done` is still the final one (e.g. a rewrite mode may have changed it).
+ *
+ * Clients that cannot consume a stream keep getting the single JSON response.
+ */
+
+import { WIDGET } from '../config/limits';
+import { createLogger } from './logger.server';
+
+const logger = createLogger({ service: 'SSE' });
+
+export type SSEEventName =
+  | 'start'
+  | 'token'
+  | 'recommendations'
+  | 'quickReplies'
+  | 'chatSessionId'
+  | 'done'
+  | 'error';
+
+export type SSESend = (event: SSEEventName, data: unknown) => void;
+
+// ============================================================================
+// Request Detection
+// ============================================================================
+
+/**
+ * Whether the caller asked for a streamed reply.
+ * Triggered by `Accept: text/event-stream` or `?stream=1` on the request URL.
+ */
+export function wantsEventStream(request: Request): boolean {
+  const accept = request.headers.get('accept') || '';
+  if (accept.includes('text/event-stream')) {
+    return true;
+  }
+
+  const streamParam = new URL(request.url).searchParams.get('stream');
+  return streamParam === '1' || streamParam === 'true';
+}
+
+// ============================================================================
+// Frame Encoding
+// ============================================================================
+
+/**
+ * Encode a single SSE frame. Data is always JSON so multi-line text
+ * never breaks the `data:` line framing.
+ */
+export function encodeSSEFrame(event: SSEEventName, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// ============================================================================
+// Stream Factory
+// ============================================================================
+
+/**
+ * Create a streaming `text/event-stream` Response.
+ *
+ * The handler receives a `send` function and the stream is closed once the
+ * handler settles. A comment heartbeat keeps proxies from timing out the
+ * connection while the upstream workflow is still working.
+ */
+export function createEventStreamResponse(
+  handler: (send: SSESend) => Promise<void>,
+  headers: HeadersInit = {}
+): Response {
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client disconnected - stop writing
+          closed = true;
+        }
+      };
+
+      const send: SSESend = (event, data) => write(encodeSSEFrame(event, data));
+
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), WIDGET.STREAM_HEARTBEAT_MS);
+
+      try {
+        await handler(send);
+      } catch (error) {
+        logger.error({
+          error: error instanceof Error ? error.message : String(error),
+        }, '❌ Event stream handler failed');
+        send('error', {
+          error: 'Internal server error',
+          message: "Sorry, I'm having trouble processing your request right now. Please try again later.",
+          success: false,
+        });
+      } finally {
+        if (heartbeat) clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+    },
+  });
+
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set('Content-Type', 'text/event-stream; charset=utf-8');
+  responseHeaders.set('Cache-Control', 'no-cache, no-transform');
+  responseHeaders.set('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx / Vercel) so frames reach the shopper immediately
+  responseHeaders.set('X-Accel-Buffering', 'no');
+
+  return new Response(stream, { status: 200, headers: responseHeaders });
+}
+
+// ============================================================================
+// Chat Reply Streaming
+// ============================================================================
+
+/**
+ * Stream a chat reply produced by the regular JSON handler.
+ *
+ * `produce` receives an `onToken` callback for the text the model writes
+ * and returns the same Response the non-streaming path would return; its
+ * payload is then emitted as the structured frames. Error responses
+ * (limits, validation, 5xx) become a single `error` frame carrying the
+ * original payload and status.
+ */
+export function streamChatResponse(
+  produce: (onToken: (text: string) => void) => Promise<Response>,
+  headers: HeadersInit = {}
+): Response {
+  return createEventStreamResponse(async (send) => {
+    send('start', { timestamp: new Date().toISOString() });
+
+    const response = await produce((text) => send('token', { text }));
+    const payload = await response.json();
+
+    if (!response.ok || payload?.success === false) {
+      send('error', { ...payload, status: response.status });
+      return;
+    }
+
+    send('recommendations', { recommendations: payload.recommendations || [] });
+    send('quickReplies', { quickReplies: payload.quickReplies || [] });
+    send('chatSessionId', {
+      chatSessionId: payload.chatSessionId,
+      sessionId: payload.sessionId,
+    });
+    send('done', payload);
+  }, headers);
+}
@@ -0,0 +1,236 @@
+import type { SupportedLocale } from '../i18n/resources';
+
+/**
+ * Chat Transcripts
+ *
+ * Renders a ChatSession as an email (HTML and plain text): every message with
+ * its sender and time, and product cards for the products the assistant
+ * showed (ChatMessage.productsShown). Shopper copies use the widget language;
+ * transcripts forwarded to the merchant are in English.
+ */
+
+export interface TranscriptProductCard {
+  id: string;
+  title: string;
+  url: string;
+  image?: string | null;
+  price?: string | null;
+}
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  timestamp: string;
+  // Staff member who wrote an "agent" message
+  agentName?: string | null;
+  products: TranscriptProductCard[];
+}
+
+export interface Transcript {
+  shop: string;
+  chatSessionId: string;
+  startedAt: string;
+  messages: TranscriptMessage[];
+}
+
+export interface RenderedTranscript {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface TranscriptRenderOptions {
+  language?: SupportedLocale;
+  // Replaces the subject line (e.g. for escalations forwarded to the merchant)
+  subject?: string;
+  // Extra paragraph above the conversation
+  note?: string;
+}
+
+interface TranscriptLabels {
+  subject: string;
+  intro: string;
+  you: string;
+  assistant: string;
+  team: string;
+  viewProduct: string;
+}
+
+const LABELS: Record<SupportedLocale, TranscriptLabels> = {
+  en: {
+    subject: 'Your conversation with {shop}',
+    intro: 'Here is a copy of your chat with {shop}.',
+    you: 'You',
+    assistant: 'Assistant',
+    team: 'Team',
+    viewProduct: 'View product',
+  },
+  es: {
+    subject: 'Tu conversación con {shop}',
+    intro: 'Aquí tienes una copia de tu chat con {shop}.',
+    you: 'Tú',
+    assistant: 'Asistente',
+    team: 'Equipo',
+    viewProduct: 'Ver producto',
+  },
+  fr: {
+    subject: 'Votre conversation avec {shop}',
+    intro: 'Voici une copie de votre conversation avec {shop}.',
+    you: 'Vous',
+    assistant: 'Assistant',
+    team: 'Équipe',
+    viewProduct: 'Voir le produit',
+  },
+  de: {
+    subject: 'Ihr Gespräch mit {shop}',
+    intro: 'Hier ist eine Kopie Ihres Chats mit {shop}.',
+    you: 'Sie',
+    assistant: 'Assistent',
+    team: 'Team',
+    viewProduct: 'Produkt ansehen',
+  },
+  ja: {
+    subject: '{shop} とのチャット履歴',
+    intro: '{shop} とのチャットの控えです。',
+    you: 'あなた',
+    assistant: 'アシスタント',
+    team: 'スタッフ',
+    viewProduct: '商品を見る',
+  },
+  it: {
+    subject: 'La tua conversazione con {shop}',
+    intro: 'Ecco una copia della tua chat con {shop}.',
+    you: 'Tu',
+    assistant: 'Assistente',
+    team: 'Team',
+    viewProduct: 'Vedi prodotto',
+  },
+  pt: {
+    subject: 'Sua conversa com {shop}',
+    intro: 'Aqui está uma cópia do seu chat com {shop}.',
+    you: 'Você',
+    assistant: 'Assistente',
+    team: 'Equipe',
+    viewProduct: 'Ver produto',
+  },
+  zh: {
+    subject: '您与 {shop} 的对话',
+    intro: '这是您与 {shop} 的聊天记录副本。',
+    you: '您',
+    assistant: '助手',
+    team: '客服',
+    viewProduct: '查看商品',
+  },
+};
+
+/**
+ * Shop name shown in emails ("my-store.myshopify.com" -> "my-store")
+ */
+export function getShopDisplayName(shop: string): string {
+  return shop.replace(/\.myshopify\.com$/i, '');
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function senderLabel(message: TranscriptMessage, labels: TranscriptLabels): string {
+  if (message.role === 'user') return labels.you;
+  if (message.role === 'agent') return message.agentName || labels.team;
+  return labels.assistant;
+}
+
+function formatTime(timestamp: string, language: SupportedLocale): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+// Only http(s) links and images make it into the email
+function safeUrl(url: string | null | undefined): string | null {
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function renderProductCardHtml(product: TranscriptProductCard, labels: TranscriptLabels): string {
+  const url = safeUrl(product.url);
+  const image = safeUrl(product.image);
+  return [
+    '<td style="width:150px;padding:6px;vertical-align:top;">',
+    '<div style="border:1px solid #e5e7eb;border-radius:8px;padding:8px;font-size:13px;">',
+    image
+      ? `<img src="${escapeHtml(image)}" alt="${escapeHtml(product.title)}" width="134" style="display:block;width:134px;height:auto;border-radius:6px;margin-bottom:6px;" />`
+      : '',
+    `<div style="font-weight:600;color:#111827;">${escapeHtml(product.title)}</div>`,
+    product.price ? `<div style="color:#374151;margin-top:2px;">${escapeHtml(product.price)}</div>` : '',
+    url ? `<a href="${escapeHtml(url)}" style="display:inline-block;margin-top:6px;color:#2563eb;">${escapeHtml(labels.viewProduct)}</a>` : '',
+    '</div>',
+    '</td>',
+  ].join('');
+}
+
+function renderMessageHtml(message: TranscriptMessage, labels: TranscriptLabels, language: SupportedLocale): string {
+  const isShopper = message.role === 'user';
+  const content = escapeHtml(message.content).replace(/\r?\n/g, '<br />');
+  const cards = message.products.length > 0
+    ? `<table role="presentation" cellpadding="0" cellspacing="0" style="margin-top:8px;"><tr>${message.products.map((product) => renderProductCardHtml(product, labels)).join('')}</tr></table>`
+    : '';
+
+  return [
+    `<div style="margin:0 0 16px 0;padding:12px 14px;border-radius:10px;background:${isShopper ? '#eef2ff' : '#f9fafb'};">`,
+    `<div style="font-size:12px;color:#6b7280;margin-bottom:4px;"><strong style="color:#111827;">${escapeHtml(senderLabel(message, labels))}</strong> · ${escapeHtml(formatTime(message.timestamp, language))}</div>`,
+    `<div style="font-size:14px;line-height:1.5;color:#111827;">${content}</div>`,
+    cards,
+    '</div>',
+  ].join('');
+}
+
+function renderMessageText(message: TranscriptMessage, labels: TranscriptLabels, language: SupportedLocale): string {
+  const lines = [`[${formatTime(message.timestamp, language)}] ${senderLabel(message, labels)}:`, message.content];
+  for (const product of message.products) {
+    lines.push(`  - ${product.title}${product.price ? ` (${product.price})` : ''}: ${product.url}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a transcript as an email subject, HTML body and plain-text body
+ */
+export function renderTranscript(transcript: Transcript, options: TranscriptRenderOptions = {}): RenderedTranscript {
+  const language = options.language ?? 'en';
+  const labels = LABELS[language];
+  const shopName = getShopDisplayName(transcript.shop);
+  const subject = options.subject ?? labels.subject.replace('{shop}', shopName);
+  const intro = labels.intro.replace('{shop}', shopName);
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${language}"><head><meta charset="utf-8" /><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#ffffff;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Roboto,Helvetica,Arial,sans-serif;">',
+    '<div style="max-width:640px;margin:0 auto;">',
+    `<h1 style="font-size:18px;color:#111827;margin:0 0 8px 0;">${escapeHtml(subject)}</h1>`,
+    `<p style="font-size:14px;color:#374151;margin:0 0 16px 0;">${escapeHtml(intro)}</p>`,
+    options.note
+      ? `<p style="font-size:14px;color:#374151;margin:0 0 16px 0;padding:10px 12px;background:#fffbeb;border-radius:8px;">${escapeHtml(options.note).replace(/\r?\n/g, '<br />')}</p>`
+      : '',
+    transcript.messages.map((message) => renderMessageHtml(message, labels, language)).join(''),
+    '</div>',
+    '</body></html>',
+  ].join('\n');
+
+  const text = [
+    subject,
+    '',
+    intro,
+    ...(options.note ? ['', options.note] : []),
+    '',
+    transcript.messages.map((message) => renderMessageText(message, labels, language)).join('\n\n'),
+    '',
+  ].join('\n');
+
+  return { subject, html, text };
+}
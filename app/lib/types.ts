@@ -6,6 +6,20 @@
  */
 
 import type { PlanCodeType } from './plans.config';
+import type { WebhookHealthSummary } from '../services/webhook-health.service.server';
+import type { IntentRouteRow } from './intent-routing.server';
+import type { JsonDiffEntry, WorkflowRecordingSummary } from '../services/workflow-recorder.service.server';
+import type { N8NResponseWarning } from '../services/n8n-response.server';
+import type { KnowledgeEntryType } from '../services/knowledge-base.service.server';
+import type { KnowledgeSyncSummary } from '../services/knowledge-sync.service.server';
+import type { ShopPolicyType } from '../services/shop-policy.service.server';
+import type { CustomIntentPriority } from '../services/intent-classifier.service.server';
+import type { SuggestedAction } from '../services/n8n.service.server';
+import type { HandoffReason, HandoffStatus, HandoffTranscriptMessage } from '../services/handoff.service.server';
+import type { TranscriptTrigger } from '../services/transcript.service.server';
+import type { ActiveAgent, InboxMessage } from '../services/agent-inbox.service.server';
+import type { Availability, BusinessHoursConfig } from './business-hours.server';
+import type { LeadCaptureConfig, LeadSyncStatus, LeadTrigger } from './lead-capture.server';
 
 /**
  * Widget Settings stored in database
@@ -28,6 +42,13 @@ export interface WidgetSettings {
   apiKeyStatus?: string | null;
   webhookUrl?: string | null;
   workflowType?: 'DEFAULT' | 'CUSTOM';
+  guardrailMode?: string;
+  /** Comma-separated in the admin UI, stored as a JSON list */
+  guardrailBannedTerms?: string;
+  guardrailAllowedDomains?: string;
+  webhookSigningSecret?: string | null;
+  /** JSON map of intent -> { target, webhookUrl? } */
+  intentRouting?: string;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 }
@@ -141,11 +162,18 @@ export interface ChatResponse {
   confidence: number;
   sentiment: string;
   requiresHumanEscalation: boolean;
+  /** Why a human is offered (explicit_request, negative_sentiment, low_confidence) */
+  escalationReason?: string;
+  /** Open handoff request of the session */
+  handoff?: { id: string; status: string };
+  /** Team availability (sent with escalations; closed means offline message form) */
+  availability?: Availability;
   timestamp: string;
   sessionId: string;
   analytics: {
     intentDetected: string;
     subIntent?: string;
+    intentConfidence?: number;
     sentiment: string;
     confidence: number;
     productsShown: number;
@@ -185,6 +213,228 @@ export interface SettingsLoaderData {
   conversationUsage: ConversationUsage | null;
   planLimits: ReturnType<typeof import('./plans.config').getPlanLimits>;
   activePlan: string | null;
+  webhookHealth?: WebhookHealthSummary | null;
+  webhookSigningSecret?: string | null;
+  /** Per-intent routing editor rows (plans with custom webhooks only) */
+  intentRoutes?: IntentRouteRow[] | null;
+}
+
+/**
+ * Loader Data for app.workflow-recorder.tsx
+ */
+export interface WorkflowRecorderLoaderData {
+  /** Recording is opt-in per shop */
+  enabled: boolean;
+  /** Plan has custom webhooks (recorder and replay are Professional features) */
+  available: boolean;
+  recordings: WorkflowRecordingSummary[];
+  selected: (WorkflowRecordingSummary & {
+    request: unknown;
+    response: unknown;
+    warnings: N8NResponseWarning[];
+    /** Masked URL the recording's intent is routed to today */
+    currentWebhook: string | null;
+  }) | null;
+  /** Selected recording compared with its replay (or original) */
+  comparison: {
+    against: WorkflowRecordingSummary;
+    requestDiff: JsonDiffEntry[];
+    responseDiff: JsonDiffEntry[];
+  } | null;
+}
+
+/**
+ * Knowledge base entry as listed in app.knowledge-base.tsx
+ */
+export interface KnowledgeEntrySummary {
+  id: string;
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  source: string;
+  /** Synced from Shopify (edited in Shopify, not here) */
+  synced: boolean;
+  url: string | null;
+  enabled: boolean;
+  chunkCount: number;
+  indexedAt: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Loader Data for app.knowledge-base.tsx
+ */
+export interface KnowledgeBaseLoaderData {
+  entries: KnowledgeEntrySummary[];
+  /** Chunks are embedded (OPENAI_API_KEY set); keyword matching otherwise */
+  embeddingsEnabled: boolean;
+  maxEntries: number;
+  maxEntryChars: number;
+  sync: KnowledgeSyncSummary;
+  maxMetafields: number;
+}
+
+/**
+ * Stored shop policy (app.policies.tsx)
+ */
+export interface ShopPolicySummary {
+  type: ShopPolicyType;
+  title: string | null;
+  /** Text fetched from Shopify (null when the store has not published it) */
+  body: string | null;
+  overrideBody: string | null;
+  url: string | null;
+  contentHash: string | null;
+  fetchedAt: string | null;
+}
+
+/**
+ * Loader Data for app.policies.tsx
+ */
+export interface PoliciesLoaderData {
+  policies: ShopPolicySummary[];
+  maxOverrideChars: number;
+  /** Set when the policies could not be fetched from Shopify */
+  fetchError: string | null;
+}
+
+/**
+ * Merchant-defined intent (app.custom-intents.tsx)
+ */
+export interface CustomIntentSummary {
+  id: string;
+  /** Analytics key, fixed when the intent is created */
+  key: string;
+  name: string;
+  phrases: string[];
+  responseText: string;
+  quickReplies: string[];
+  suggestedActions: SuggestedAction[];
+  productQuery: string | null;
+  priority: CustomIntentPriority;
+  enabled: boolean;
+  updatedAt: string;
+}
+
+/**
+ * Loader Data for app.custom-intents.tsx
+ */
+export interface CustomIntentsLoaderData {
+  intents: CustomIntentSummary[];
+  maxIntents: number;
+  maxPhrases: number;
+  maxResponseChars: number;
+  maxQuickReplies: number;
+  maxSuggestedActions: number;
+}
+
+/**
+ * Escalated conversation in the handoff queue (app.handoffs.tsx)
+ */
+export interface HandoffSummary {
+  id: string;
+  chatSessionId: string;
+  status: HandoffStatus;
+  reason: HandoffReason;
+  note: string | null;
+  transcript: HandoffTranscriptMessage[];
+  assignedTo: string | null;
+  assignedAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  deliveries: TranscriptDeliverySummary[];
+}
+
+/**
+ * Transcript email sent (or attempted) for a chat session
+ */
+export interface TranscriptDeliverySummary {
+  id: string;
+  recipient: string;
+  trigger: TranscriptTrigger;
+  status: 'sent' | 'failed';
+  createdAt: string;
+}
+
+/**
+ * Loader Data for app.handoffs.tsx
+ */
+export interface HandoffsLoaderData {
+  status: HandoffStatus;
+  handoffs: HandoffSummary[];
+  counts: Record<HandoffStatus, number>;
+  transcriptEmail: string | null;
+  // Whether a mail transport is configured (forwarding needs one)
+  mailEnabled: boolean;
+}
+
+/**
+ * Active conversation in the live inbox (app.inbox.tsx)
+ */
+export interface InboxSessionSummary {
+  id: string;
+  lastMessageAt: string;
+  messageCount: number;
+  lastMessage: { role: string; content: string } | null;
+  agent: ActiveAgent | null;
+  handoff: { id: string; status: HandoffStatus; reason: HandoffReason } | null;
+}
+
+/**
+ * Loader Data for app.inbox.tsx
+ */
+export interface InboxLoaderData {
+  sessions: InboxSessionSummary[];
+  selectedSessionId: string | null;
+  messages: InboxMessage[];
+  pollIntervalMs: number;
+  maxMessageChars: number;
+}
+
+/**
+ * Message left outside business hours (app.business-hours.tsx)
+ */
+export interface OfflineMessageSummary {
+  id: string;
+  chatSessionId: string;
+  name: string | null;
+  email: string;
+  question: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Loader Data for app.business-hours.tsx
+ */
+export interface BusinessHoursLoaderData {
+  hours: BusinessHoursConfig;
+  availability: Availability;
+  messages: OfflineMessageSummary[];
+  unreadCount: number;
+}
+
+/**
+ * Email left in the widget's lead form (app.leads.tsx)
+ */
+export interface LeadSummary {
+  id: string;
+  email: string;
+  firstName: string | null;
+  marketingConsent: boolean;
+  trigger: LeadTrigger;
+  syncStatus: LeadSyncStatus;
+  syncError: string | null;
+  shopifyCustomerId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Loader Data for app.leads.tsx
+ */
+export interface LeadsLoaderData {
+  config: LeadCaptureConfig;
+  leads: LeadSummary[];
 }
 
 /**
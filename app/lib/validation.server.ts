@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { BUSINESS_HOURS } from '../config/limits';
+import { LEAD_TRIGGERS } from './lead-capture.server';
 
 /**
  * Input Validation Schemas
@@ -100,6 +102,11 @@ export const chatContextSchema = z.object({
   page: z.string().max(2048).nullish(),
   productId: z.string().max(100).nullish(), // Widget sends null when no product
   conversationHistory: z.array(z.any()).nullish(),
+  // Submitted by the widget's order lookup form (TRACK_ORDER)
+  orderLookup: z.object({
+    orderNumber: z.string().trim().min(1).max(40),
+    contact: z.string().trim().min(1).max(254),
+  }).nullish(),
 }).passthrough().optional();
 
 /**
@@ -139,6 +146,53 @@ export const chatRequestSchema = z.object({
   'Either userMessage or message is required'
 );
 
+/**
+ * Offline message left from the widget outside business hours
+ */
+export const offlineMessageSchema = z.object({
+  shop: shopDomainSchema,
+  chatSessionId: z.string().min(1, 'Chat session is required').max(200, 'Chat session ID too long'),
+  name: z.string().trim().max(100, 'Name too long').optional(),
+  email: z.string().trim().email('Enter a valid email address').max(254, 'Email too long'),
+  question: z.string().trim()
+    .min(1, 'Question cannot be empty')
+    .max(BUSINESS_HOURS.MAX_OFFLINE_MESSAGE_CHARS, 'Question too long'),
+});
+
+/**
+ * Shopper asking for an email copy of the conversation
+ */
+export const transcriptRequestSchema = z.object({
+  shop: shopDomainSchema,
+  chatSessionId: z.string().min(1, 'Chat session is required').max(200, 'Chat session ID too long'),
+  email: z.string().trim().email('Enter a valid email address').max(254, 'Email too long'),
+  language: z.string().max(20).optional(),
+});
+
+/**
+ * Address escalated conversations are forwarded to (empty turns forwarding off)
+ */
+export const transcriptForwardingSchema = z.object({
+  transcriptEmail: z.string().trim().email('Enter a valid email address').max(254, 'Email too long')
+    .or(z.literal('')),
+});
+
+/**
+ * Email left in the widget's lead form
+ *
+ * consentText is the checkbox wording the shopper saw, stored as proof of
+ * consent; marketingConsent must be an explicit boolean.
+ */
+export const leadCaptureSchema = z.object({
+  shop: shopDomainSchema,
+  chatSessionId: z.string().min(1, 'Chat session is required').max(200, 'Chat session ID too long'),
+  email: z.string().trim().email('Enter a valid email address').max(254, 'Email too long'),
+  firstName: z.string().trim().max(100, 'Name too long').optional(),
+  marketingConsent: z.boolean(),
+  consentText: z.string().trim().max(500, 'Consent text too long').optional(),
+  trigger: z.enum(LEAD_TRIGGERS),
+});
+
 // ============================================================================
 // Widget Settings Schemas
 // ============================================================================
@@ -277,3 +331,6 @@ export type CustomerDataRequest = z.infer<typeof customerDataRequestSchema>;
 export type CustomerRedact = z.infer<typeof customerRedactSchema>;
 export type ShopRedact = z.infer<typeof shopRedactSchema>;
 export type ProductRecommendation = z.infer<typeof productRecommendationSchema>;
+export type OfflineMessageInput = z.infer<typeof offlineMessageSchema>;
+export type TranscriptRequestInput = z.infer<typeof transcriptRequestSchema>;
+export type LeadCaptureInput = z.infer<typeof leadCaptureSchema>;
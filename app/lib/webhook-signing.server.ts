@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { prisma as db } from '../db.server';
+import { createLogger } from './logger.server';
+import { decryptApiKey, encryptApiKey } from './encryption.server';
+
+/**
+ * Outgoing Webhook Signing
+ *
+ * Every request sent to an N8N workflow carries:
+ *   X-Shopibot-Timestamp: unix time in seconds
+ *   X-Shopibot-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ *
+ * The HMAC key is a per-shop secret (stored encrypted in WidgetSettings and
+ * shown on the settings page), so a merchant's workflow can check that the
+ * call comes from this app and reject replays outside the tolerance window.
+ */
+
+const logger = createLogger({ service: 'WebhookSigning' });
+
+export const SIGNATURE_HEADER = 'X-Shopibot-Signature';
+export const TIMESTAMP_HEADER = 'X-Shopibot-Timestamp';
+
+// Maximum age of a signed request accepted by verifyWebhookRequestSignature
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generate a new signing secret
+ */
+export function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Signature headers for a raw JSON body
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, body)}`,
+  };
+}
+
+/**
+ * Reference verification, as a receiving workflow would do it
+ *
+ * @returns True if the signature matches and the timestamp is recent
+ */
+export function verifyWebhookRequestSignature(
+  secret: string,
+  body: string,
+  signature: string | null,
+  timestamp: string | null,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const ts = Number(timestamp);
+  if (!signature || !Number.isInteger(ts) || Math.abs(now - ts) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(`sha256=${computeSignature(secret, ts, body)}`);
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Get the shop's signing secret, creating one on first use
+ *
+ * @param storedSecret - Encrypted secret from WidgetSettings, if already loaded
+ * @returns Plaintext secret, or null when it cannot be read or stored
+ *          (requests are then sent unsigned)
+ */
+export async function getWebhookSigningSecret(
+  shop: string,
+  storedSecret?: string | null
+): Promise<string | null> {
+  try {
+    if (storedSecret) {
+      return decryptApiKey(storedSecret);
+    }
+
+    const settings = await db.widgetSettings.findUnique({
+      where: { shop },
+      select: { webhookSigningSecret: true }
+    });
+
+    if (settings?.webhookSigningSecret) {
+      return decryptApiKey(settings.webhookSigningSecret);
+    }
+
+    if (!settings) {
+      return null;
+    }
+
+    return await createWebhookSigningSecret(shop);
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Webhook signing secret unavailable - sending unsigned request');
+    return null;
+  }
+}
+
+/**
+ * Store a first signing secret unless a concurrent request already did
+ *
+ * Only writes while the column is still empty, then re-reads it so every
+ * racing request signs with the secret that was actually stored.
+ */
+async function createWebhookSigningSecret(shop: string): Promise<string | null> {
+  const { count } = await db.widgetSettings.updateMany({
+    where: { shop, webhookSigningSecret: null },
+    data: { webhookSigningSecret: encryptApiKey(generateSigningSecret()) }
+  });
+
+  if (count > 0) {
+    logger.info({ shop }, '🔄 Webhook signing secret created');
+  }
+
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop },
+    select: { webhookSigningSecret: true }
+  });
+
+  return settings?.webhookSigningSecret ? decryptApiKey(settings.webhookSigningSecret) : null;
+}
+
+/**
+ * Replace the shop's signing secret
+ *
+ * @returns The new plaintext secret
+ */
+export async function rotateWebhookSigningSecret(shop: string): Promise<string> {
+  const secret = generateSigningSecret();
+
+  await db.widgetSettings.update({
+    where: { shop },
+    data: { webhookSigningSecret: encryptApiKey(secret) }
+  });
+
+  logger.info({ shop }, '🔄 Webhook signing secret rotated');
+  return secret;
+}
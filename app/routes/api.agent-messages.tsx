@@ -0,0 +1,85 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { AGENT_INBOX, RATE_LIMITS } from "../config/limits";
+import { getAgentUpdates } from "../services/agent-inbox.service.server";
+import { logError } from "../lib/logger.server";
+
+/**
+ * API endpoint polled by the widget for staff replies
+ *
+ * Returns the staff member who took the conversation over (if any) and the
+ * messages they sent after `after`. `pollAfterMs` tells the widget when to
+ * ask again: quickly while someone has joined, slowly otherwise.
+ *
+ * Expected GET query:
+ *   shop: string;
+ *   sessionId: string; // the widget's session id
+ *   after?: string;    // ISO timestamp of the last staff message shown
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  const url = new URL(request.url);
+  const shop = url.searchParams.get("shop");
+  const sessionId = url.searchParams.get("sessionId");
+
+  if (!shop || !sessionId) {
+    return json(
+      { error: "Missing required fields: shop and sessionId" },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: AGENT_INBOX.WIDGET_POLLS_PER_MINUTE,
+      message: "Too many requests. Please try again later.",
+    },
+    {
+      customKey: `${shop}:${sessionId}`,
+      namespace: "agent-messages",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const afterParam = url.searchParams.get("after");
+    const after = afterParam ? new Date(afterParam) : null;
+    const updates = await getAgentUpdates(
+      shop,
+      sessionId,
+      after && !isNaN(after.getTime()) ? after : null
+    );
+
+    return json(
+      {
+        ...updates,
+        pollAfterMs: updates.agent ? AGENT_INBOX.WIDGET_POLL_MS : AGENT_INBOX.WIDGET_IDLE_POLL_MS,
+      },
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (error: any) {
+    logError(error, "Error loading agent messages", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to load messages", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
@@ -0,0 +1,63 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+import { getShopAvailability } from "../services/business-hours.service.server";
+import { logError } from "../lib/logger.server";
+
+/**
+ * API endpoint for the widget's Online / Away status
+ *
+ * Expected GET query:
+ *   shop: string;
+ *
+ * Returns { availability: { open, status, timezone } } where status is
+ * always_open (no business hours set), open, closed or holiday.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  // Per shopper (IP): every storefront page view asks once
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: RATE_LIMITS.WIDGET_REQUESTS_PER_MINUTE,
+      message: "Too many requests. Please try again later.",
+    },
+    {
+      namespace: "availability",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const shop = new URL(request.url).searchParams.get("shop");
+  if (!shop) {
+    return json({ error: "Missing required field: shop" }, { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    const availability = await getShopAvailability(shop);
+    return json({ availability }, { status: 200, headers: corsHeaders });
+  } catch (error: any) {
+    logError(error, "Error loading shop availability", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to load availability", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
@@ -32,7 +32,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "Thank you for your feedback!",
     ratingAriaLabel: "Rate {{stars}} star",
     // 👋 Welcome popup
-    welcomeMessage: "👋 I'm here to help"
+    welcomeMessage: "👋 I'm here to help",
+    // 📦 Order tracking form
+    orderNumberLabel: "Order number",
+    orderContactLabel: "Email or phone on the order",
+    orderLookupSubmit: "Find my order",
+    orderTrackingLabel: "Tracking",
+    // ✉️ Contact card
+    contactCardTitle: "Contact us",
+    contactEmail: "Email us",
+    contactCall: "Call us",
+    handoffQueued: "Thanks! Your conversation has been passed to our team. Someone will get back to you as soon as possible.",
+    handoffFailed: "We couldn't reach our team right now. You can still contact us from our contact page.",
+    agentJoined: "{name} from our team joined the chat",
+    agentLeft: "Our team member left the chat. The assistant is back to help.",
+    agentStatus: "Chatting with {name}",
+    agentFallbackName: "A team member",
+    away: "Away",
+    offlineFormIntro: "Our team is away right now. Leave your question and we'll reply by email.",
+    offlineName: "Your name",
+    offlineEmail: "Email",
+    offlineQuestion: "Your question",
+    offlineSubmit: "Send message",
+    offlineSent: "Thanks! We've got your message and will reply by email when we're back.",
+    offlineFailed: "Sorry, we couldn't send your message. Please try again.",
+    emailTranscript: "Email this chat",
+    transcriptIntro: "Get a copy of this conversation, including the products we showed you.",
+    transcriptSubmit: "Send copy",
+    transcriptSent: "Done! A copy of this chat is on its way to {email}.",
+    transcriptFailed: "Sorry, we couldn't email this chat. Please try again later.",
+    transcriptUnverified: "We can only send a copy to the email you shared with us in this chat.",
+    transcriptEmpty: "Send a message first, then you can email yourself the conversation.",
+    leadIntro: "Want to hear about new arrivals and offers? Leave your email.",
+    leadFirstName: "First name (optional)",
+    leadConsent: "Yes, send me news and offers by email. I can unsubscribe at any time.",
+    leadSubmit: "Keep me posted",
+    leadDismiss: "No thanks",
+    leadThanks: "Thanks! We've saved your email.",
+    leadFailed: "Sorry, we couldn't save your email. Please try again."
   },
   es: {
     online: "En línea",
@@ -63,7 +100,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "¡Gracias por tu comentario!",
     ratingAriaLabel: "Calificar {{stars}} estrella",
     // 👋 Welcome popup
-    welcomeMessage: "👋 Estoy aquí para ayudarte"
+    welcomeMessage: "👋 Estoy aquí para ayudarte",
+    // 📦 Order tracking form
+    orderNumberLabel: "Número de pedido",
+    orderContactLabel: "Correo o teléfono del pedido",
+    orderLookupSubmit: "Buscar mi pedido",
+    orderTrackingLabel: "Seguimiento",
+    // ✉️ Contact card
+    contactCardTitle: "Contáctanos",
+    contactEmail: "Escríbenos",
+    contactCall: "Llámanos",
+    handoffQueued: "¡Gracias! Tu conversación se ha enviado a nuestro equipo. Alguien te responderá lo antes posible.",
+    handoffFailed: "No hemos podido contactar con el equipo ahora. Puedes escribirnos desde nuestra página de contacto.",
+    agentJoined: "{name} de nuestro equipo se unió al chat",
+    agentLeft: "Nuestro compañero salió del chat. El asistente vuelve a ayudarte.",
+    agentStatus: "Chateando con {name}",
+    agentFallbackName: "Un miembro del equipo",
+    away: "Ausente",
+    offlineFormIntro: "Nuestro equipo no está disponible ahora. Deja tu pregunta y te responderemos por correo.",
+    offlineName: "Tu nombre",
+    offlineEmail: "Correo electrónico",
+    offlineQuestion: "Tu pregunta",
+    offlineSubmit: "Enviar mensaje",
+    offlineSent: "¡Gracias! Hemos recibido tu mensaje y te responderemos por correo cuando volvamos.",
+    offlineFailed: "Lo sentimos, no pudimos enviar tu mensaje. Inténtalo de nuevo.",
+    emailTranscript: "Enviar este chat por correo",
+    transcriptIntro: "Recibe una copia de esta conversación, con los productos que te mostramos.",
+    transcriptSubmit: "Enviar copia",
+    transcriptSent: "¡Listo! Una copia de este chat va de camino a {email}.",
+    transcriptFailed: "Lo sentimos, no pudimos enviar este chat. Inténtalo más tarde.",
+    transcriptUnverified: "Solo podemos enviar una copia al correo que nos dejaste en este chat.",
+    transcriptEmpty: "Envía primero un mensaje y después podrás recibir la conversación por correo.",
+    leadIntro: "¿Quieres enterarte de novedades y ofertas? Déjanos tu correo.",
+    leadFirstName: "Nombre (opcional)",
+    leadConsent: "Sí, quiero recibir novedades y ofertas por correo. Puedo darme de baja en cualquier momento.",
+    leadSubmit: "Mantenerme informado",
+    leadDismiss: "No, gracias",
+    leadThanks: "¡Gracias! Hemos guardado tu correo.",
+    leadFailed: "Lo sentimos, no pudimos guardar tu correo. Inténtalo de nuevo."
   },
   fr: {
     online: "En ligne",
@@ -94,7 +168,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "Merci pour votre retour !",
     ratingAriaLabel: "Noter {{stars}} étoile",
     // 👋 Welcome popup
-    welcomeMessage: "👋 Je suis là pour vous aider"
+    welcomeMessage: "👋 Je suis là pour vous aider",
+    // 📦 Order tracking form
+    orderNumberLabel: "Numéro de commande",
+    orderContactLabel: "E-mail ou téléphone de la commande",
+    orderLookupSubmit: "Trouver ma commande",
+    orderTrackingLabel: "Suivi",
+    // ✉️ Contact card
+    contactCardTitle: "Nous contacter",
+    contactEmail: "Nous écrire",
+    contactCall: "Nous appeler",
+    handoffQueued: "Merci ! Votre conversation a été transmise à notre équipe. Quelqu'un vous répondra dès que possible.",
+    handoffFailed: "Impossible de joindre l'équipe pour le moment. Vous pouvez toujours nous écrire depuis notre page de contact.",
+    agentJoined: "{name} de notre équipe a rejoint la conversation",
+    agentLeft: "Notre conseiller a quitté la conversation. L'assistant reprend la main.",
+    agentStatus: "En conversation avec {name}",
+    agentFallbackName: "Un membre de l'équipe",
+    away: "Absent",
+    offlineFormIntro: "Notre équipe est absente pour le moment. Laissez votre question et nous vous répondrons par e-mail.",
+    offlineName: "Votre nom",
+    offlineEmail: "E-mail",
+    offlineQuestion: "Votre question",
+    offlineSubmit: "Envoyer le message",
+    offlineSent: "Merci ! Nous avons bien reçu votre message et vous répondrons par e-mail à notre retour.",
+    offlineFailed: "Désolé, nous n'avons pas pu envoyer votre message. Veuillez réessayer.",
+    emailTranscript: "Recevoir ce chat par e-mail",
+    transcriptIntro: "Recevez une copie de cette conversation, avec les produits que nous vous avons montrés.",
+    transcriptSubmit: "Envoyer la copie",
+    transcriptSent: "C'est fait ! Une copie de ce chat est en route vers {email}.",
+    transcriptFailed: "Désolé, nous n'avons pas pu envoyer ce chat. Veuillez réessayer plus tard.",
+    transcriptUnverified: "Nous ne pouvons envoyer une copie qu'à l'e-mail que vous nous avez laissé dans ce chat.",
+    transcriptEmpty: "Envoyez d'abord un message, vous pourrez ensuite recevoir la conversation par e-mail.",
+    leadIntro: "Envie d'être informé des nouveautés et des offres ? Laissez votre e-mail.",
+    leadFirstName: "Prénom (facultatif)",
+    leadConsent: "Oui, envoyez-moi des nouveautés et des offres par e-mail. Je peux me désabonner à tout moment.",
+    leadSubmit: "Me tenir informé",
+    leadDismiss: "Non merci",
+    leadThanks: "Merci ! Nous avons enregistré votre e-mail.",
+    leadFailed: "Désolé, nous n'avons pas pu enregistrer votre e-mail. Veuillez réessayer."
   },
   de: {
     online: "Online",
@@ -125,7 +236,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "Vielen Dank für Ihr Feedback!",
     ratingAriaLabel: "{{stars}} Stern bewerten",
     // 👋 Welcome popup
-    welcomeMessage: "👋 Ich bin hier, um Ihnen zu helfen"
+    welcomeMessage: "👋 Ich bin hier, um Ihnen zu helfen",
+    // 📦 Order tracking form
+    orderNumberLabel: "Bestellnummer",
+    orderContactLabel: "E-Mail oder Telefon der Bestellung",
+    orderLookupSubmit: "Bestellung finden",
+    orderTrackingLabel: "Sendungsverfolgung",
+    // ✉️ Contact card
+    contactCardTitle: "Kontakt",
+    contactEmail: "E-Mail senden",
+    contactCall: "Anrufen",
+    handoffQueued: "Danke! Ihre Unterhaltung wurde an unser Team weitergeleitet. Wir melden uns so schnell wie möglich.",
+    handoffFailed: "Unser Team ist gerade nicht erreichbar. Sie können uns weiterhin über unsere Kontaktseite schreiben.",
+    agentJoined: "{name} aus unserem Team ist dem Chat beigetreten",
+    agentLeft: "Unser Teammitglied hat den Chat verlassen. Der Assistent hilft Ihnen wieder weiter.",
+    agentStatus: "Im Chat mit {name}",
+    agentFallbackName: "Ein Teammitglied",
+    away: "Abwesend",
+    offlineFormIntro: "Unser Team ist gerade nicht erreichbar. Hinterlassen Sie Ihre Frage und wir antworten per E-Mail.",
+    offlineName: "Ihr Name",
+    offlineEmail: "E-Mail",
+    offlineQuestion: "Ihre Frage",
+    offlineSubmit: "Nachricht senden",
+    offlineSent: "Danke! Wir haben Ihre Nachricht erhalten und antworten per E-Mail, sobald wir zurück sind.",
+    offlineFailed: "Leider konnte Ihre Nachricht nicht gesendet werden. Bitte versuchen Sie es erneut.",
+    emailTranscript: "Chat per E-Mail senden",
+    transcriptIntro: "Erhalten Sie eine Kopie dieses Gesprächs, inklusive der gezeigten Produkte.",
+    transcriptSubmit: "Kopie senden",
+    transcriptSent: "Fertig! Eine Kopie dieses Chats ist unterwegs an {email}.",
+    transcriptFailed: "Leider konnten wir diesen Chat nicht senden. Bitte versuchen Sie es später erneut.",
+    transcriptUnverified: "Wir können eine Kopie nur an die E-Mail-Adresse senden, die Sie uns in diesem Chat hinterlassen haben.",
+    transcriptEmpty: "Senden Sie zuerst eine Nachricht, dann können Sie sich das Gespräch per E-Mail schicken.",
+    leadIntro: "Möchten Sie über Neuheiten und Angebote informiert werden? Hinterlassen Sie Ihre E-Mail-Adresse.",
+    leadFirstName: "Vorname (optional)",
+    leadConsent: "Ja, schicken Sie mir Neuigkeiten und Angebote per E-Mail. Ich kann mich jederzeit abmelden.",
+    leadSubmit: "Auf dem Laufenden bleiben",
+    leadDismiss: "Nein danke",
+    leadThanks: "Danke! Wir haben Ihre E-Mail-Adresse gespeichert.",
+    leadFailed: "Leider konnten wir Ihre E-Mail-Adresse nicht speichern. Bitte versuchen Sie es erneut."
   },
   ja: {
     online: "オンライン",
@@ -156,7 +304,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "フィードバックありがとうございます！",
     ratingAriaLabel: "{{stars}}つ星を評価",
     // 👋 Welcome popup
-    welcomeMessage: "👋 お手伝いさせていただきます"
+    welcomeMessage: "👋 お手伝いさせていただきます",
+    // 📦 Order tracking form
+    orderNumberLabel: "注文番号",
+    orderContactLabel: "注文時のメールアドレスまたは電話番号",
+    orderLookupSubmit: "注文を検索",
+    orderTrackingLabel: "追跡",
+    // ✉️ Contact card
+    contactCardTitle: "お問い合わせ",
+    contactEmail: "メールする",
+    contactCall: "電話する",
+    handoffQueued: "ありがとうございます。会話をスタッフに引き継ぎました。できるだけ早くご連絡いたします。",
+    handoffFailed: "現在スタッフに連絡できません。お問い合わせページからご連絡ください。",
+    agentJoined: "スタッフの{name}がチャットに参加しました",
+    agentLeft: "スタッフがチャットを退出しました。引き続きアシスタントがお手伝いします。",
+    agentStatus: "{name}と会話中",
+    agentFallbackName: "スタッフ",
+    away: "不在",
+    offlineFormIntro: "ただいまスタッフは不在です。ご質問を残していただければ、メールでご返信します。",
+    offlineName: "お名前",
+    offlineEmail: "メールアドレス",
+    offlineQuestion: "ご質問",
+    offlineSubmit: "メッセージを送信",
+    offlineSent: "ありがとうございます！メッセージを受け付けました。営業再開後にメールでご返信します。",
+    offlineFailed: "申し訳ありません。メッセージを送信できませんでした。もう一度お試しください。",
+    emailTranscript: "このチャットをメールで送る",
+    transcriptIntro: "ご案内した商品を含む、この会話の控えをお送りします。",
+    transcriptSubmit: "控えを送信",
+    transcriptSent: "完了しました！このチャットの控えを {email} に送信しました。",
+    transcriptFailed: "申し訳ありません。チャットを送信できませんでした。後でもう一度お試しください。",
+    transcriptUnverified: "控えは、このチャットでご登録いただいたメールアドレスにのみお送りできます。",
+    transcriptEmpty: "まずメッセージを送信してください。その後、会話をメールで受け取れます。",
+    leadIntro: "新着商品やお得な情報を受け取りませんか？メールアドレスをご入力ください。",
+    leadFirstName: "名（任意）",
+    leadConsent: "はい、ニュースやお得な情報をメールで受け取ります。いつでも配信停止できます。",
+    leadSubmit: "最新情報を受け取る",
+    leadDismiss: "結構です",
+    leadThanks: "ありがとうございます！メールアドレスを保存しました。",
+    leadFailed: "申し訳ありません。メールアドレスを保存できませんでした。もう一度お試しください。"
   },
   it: {
     online: "Online",
@@ -187,7 +372,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "Grazie per il tuo feedback!",
     ratingAriaLabel: "Valuta {{stars}} stella",
     // 👋 Welcome popup
-    welcomeMessage: "👋 Sono qui per aiutarti"
+    welcomeMessage: "👋 Sono qui per aiutarti",
+    // 📦 Order tracking form
+    orderNumberLabel: "Numero d'ordine",
+    orderContactLabel: "Email o telefono dell'ordine",
+    orderLookupSubmit: "Trova il mio ordine",
+    orderTrackingLabel: "Tracciamento",
+    // ✉️ Contact card
+    contactCardTitle: "Contattaci",
+    contactEmail: "Scrivici",
+    contactCall: "Chiamaci",
+    handoffQueued: "Grazie! La tua conversazione è stata inoltrata al nostro team. Ti risponderemo il prima possibile.",
+    handoffFailed: "Non riusciamo a contattare il team in questo momento. Puoi comunque scriverci dalla pagina contatti.",
+    agentJoined: "{name} del nostro team si è unito alla chat",
+    agentLeft: "Il nostro collega ha lasciato la chat. L'assistente è di nuovo a tua disposizione.",
+    agentStatus: "In chat con {name}",
+    agentFallbackName: "Un membro del team",
+    away: "Assente",
+    offlineFormIntro: "Il nostro team al momento non è disponibile. Lascia la tua domanda e ti risponderemo via email.",
+    offlineName: "Il tuo nome",
+    offlineEmail: "Email",
+    offlineQuestion: "La tua domanda",
+    offlineSubmit: "Invia messaggio",
+    offlineSent: "Grazie! Abbiamo ricevuto il tuo messaggio e ti risponderemo via email al nostro rientro.",
+    offlineFailed: "Spiacenti, non è stato possibile inviare il messaggio. Riprova.",
+    emailTranscript: "Invia questa chat via email",
+    transcriptIntro: "Ricevi una copia di questa conversazione, con i prodotti che ti abbiamo mostrato.",
+    transcriptSubmit: "Invia copia",
+    transcriptSent: "Fatto! Una copia di questa chat sta arrivando a {email}.",
+    transcriptFailed: "Spiacenti, non è stato possibile inviare questa chat. Riprova più tardi.",
+    transcriptUnverified: "Possiamo inviare una copia solo all'email che ci hai lasciato in questa chat.",
+    transcriptEmpty: "Invia prima un messaggio, poi potrai ricevere la conversazione via email.",
+    leadIntro: "Vuoi ricevere novità e offerte? Lascia la tua email.",
+    leadFirstName: "Nome (facoltativo)",
+    leadConsent: "Sì, inviatemi novità e offerte via email. Posso annullare l'iscrizione in qualsiasi momento.",
+    leadSubmit: "Tienimi aggiornato",
+    leadDismiss: "No, grazie",
+    leadThanks: "Grazie! Abbiamo salvato la tua email.",
+    leadFailed: "Spiacenti, non è stato possibile salvare la tua email. Riprova."
   },
   pt: {
     online: "Online",
@@ -218,7 +440,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "Obrigado pelo seu feedback!",
     ratingAriaLabel: "Avaliar {{stars}} estrela",
     // 👋 Welcome popup
-    welcomeMessage: "👋 Estou aqui para ajudar"
+    welcomeMessage: "👋 Estou aqui para ajudar",
+    // 📦 Order tracking form
+    orderNumberLabel: "Número do pedido",
+    orderContactLabel: "E-mail ou telefone do pedido",
+    orderLookupSubmit: "Encontrar meu pedido",
+    orderTrackingLabel: "Rastreamento",
+    // ✉️ Contact card
+    contactCardTitle: "Fale conosco",
+    contactEmail: "Envie um e-mail",
+    contactCall: "Ligue para nós",
+    handoffQueued: "Obrigado! Sua conversa foi encaminhada para nossa equipe. Alguém responderá o mais rápido possível.",
+    handoffFailed: "Não conseguimos falar com a equipe agora. Você ainda pode nos escrever pela página de contato.",
+    agentJoined: "{name} da nossa equipe entrou no chat",
+    agentLeft: "Nosso atendente saiu do chat. O assistente volta a ajudar você.",
+    agentStatus: "Conversando com {name}",
+    agentFallbackName: "Um membro da equipe",
+    away: "Ausente",
+    offlineFormIntro: "Nossa equipe não está disponível agora. Deixe sua pergunta e responderemos por e-mail.",
+    offlineName: "Seu nome",
+    offlineEmail: "E-mail",
+    offlineQuestion: "Sua pergunta",
+    offlineSubmit: "Enviar mensagem",
+    offlineSent: "Obrigado! Recebemos sua mensagem e responderemos por e-mail quando voltarmos.",
+    offlineFailed: "Desculpe, não foi possível enviar sua mensagem. Tente novamente.",
+    emailTranscript: "Enviar este chat por e-mail",
+    transcriptIntro: "Receba uma cópia desta conversa, com os produtos que mostramos.",
+    transcriptSubmit: "Enviar cópia",
+    transcriptSent: "Pronto! Uma cópia deste chat está a caminho de {email}.",
+    transcriptFailed: "Desculpe, não foi possível enviar este chat. Tente novamente mais tarde.",
+    transcriptUnverified: "Só podemos enviar uma cópia para o e-mail que nos deixou neste chat.",
+    transcriptEmpty: "Envie uma mensagem primeiro e depois poderá receber a conversa por e-mail.",
+    leadIntro: "Quer saber das novidades e ofertas? Deixe seu e-mail.",
+    leadFirstName: "Nome (opcional)",
+    leadConsent: "Sim, quero receber novidades e ofertas por e-mail. Posso cancelar a inscrição a qualquer momento.",
+    leadSubmit: "Quero receber novidades",
+    leadDismiss: "Não, obrigado",
+    leadThanks: "Obrigado! Salvamos seu e-mail.",
+    leadFailed: "Desculpe, não foi possível salvar seu e-mail. Tente novamente."
   },
   zh: {
     online: "在线",
@@ -249,7 +508,44 @@ const translations: Record<string, any> = {
     ratingThankYou: "感谢您的反馈！",
     ratingAriaLabel: "评价{{stars}}星",
     // 👋 Welcome popup
-    welcomeMessage: "👋 我在这里帮助您"
+    welcomeMessage: "👋 我在这里帮助您",
+    // 📦 Order tracking form
+    orderNumberLabel: "订单号",
+    orderContactLabel: "下单时使用的邮箱或电话",
+    orderLookupSubmit: "查找我的订单",
+    orderTrackingLabel: "物流跟踪",
+    // ✉️ Contact card
+    contactCardTitle: "联系我们",
+    contactEmail: "发送邮件",
+    contactCall: "拨打电话",
+    handoffQueued: "谢谢！您的对话已转交给我们的团队，我们会尽快回复您。",
+    handoffFailed: "暂时无法联系到团队。您仍可通过联系页面与我们联系。",
+    agentJoined: "我们团队的 {name} 已加入聊天",
+    agentLeft: "团队成员已离开聊天，助手将继续为您服务。",
+    agentStatus: "正在与 {name} 聊天",
+    agentFallbackName: "团队成员",
+    away: "离开",
+    offlineFormIntro: "我们的团队目前不在线。请留下您的问题，我们会通过电子邮件回复您。",
+    offlineName: "您的姓名",
+    offlineEmail: "电子邮件",
+    offlineQuestion: "您的问题",
+    offlineSubmit: "发送消息",
+    offlineSent: "谢谢！我们已收到您的留言，回来后会通过电子邮件回复您。",
+    offlineFailed: "抱歉，消息发送失败，请重试。",
+    emailTranscript: "通过邮件发送此聊天",
+    transcriptIntro: "获取本次对话的副本，包括我们为您推荐的商品。",
+    transcriptSubmit: "发送副本",
+    transcriptSent: "完成！本次聊天的副本正在发送至 {email}。",
+    transcriptFailed: "抱歉，无法发送此聊天记录，请稍后再试。",
+    transcriptUnverified: "我们只能将副本发送到您在本次聊天中留下的邮箱。",
+    transcriptEmpty: "请先发送一条消息，然后即可通过邮件获取对话记录。",
+    leadIntro: "想了解新品和优惠吗？请留下您的邮箱。",
+    leadFirstName: "名字（选填）",
+    leadConsent: "是的，通过邮件向我发送新闻和优惠。我可以随时退订。",
+    leadSubmit: "通知我",
+    leadDismiss: "不用了",
+    leadThanks: "谢谢！我们已保存您的邮箱。",
+    leadFailed: "抱歉，无法保存您的邮箱，请重试。"
   }
 };
 
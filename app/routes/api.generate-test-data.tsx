@@ -46,8 +46,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         topIntents: JSON.stringify({
           PRODUCT_SEARCH: Math.floor(totalMessages * 0.4),
           GENERAL_CHAT: Math.floor(totalMessages * 0.3),
-          SUPPORT: Math.floor(totalMessages * 0.2),
-          OTHER: Math.floor(totalMessages * 0.1),
+          RETURNS: Math.floor(totalMessages * 0.1),
+          SHIPPING_INFO: Math.floor(totalMessages * 0.1),
+          PRICE_INQUIRY: Math.floor(totalMessages * 0.1),
         }),
         topProducts: JSON.stringify({}), // Empty for now
         sentimentBreakdown: JSON.stringify({
@@ -126,25 +127,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       {
         role: 'user',
         content: 'Show me your bestsellers',
-        intent: 'PRODUCT_SEARCH',
+        intent: 'BESTSELLERS',
         sentiment: 'neutral',
       },
       {
         role: 'assistant',
         content: 'Here are our top-selling products!',
-        intent: 'PRODUCT_SEARCH',
+        intent: 'BESTSELLERS',
         sentiment: 'positive',
       },
       {
         role: 'user',
         content: 'What is your return policy?',
-        intent: 'SUPPORT',
+        intent: 'RETURNS',
         sentiment: 'neutral',
       },
       {
         role: 'assistant',
         content: 'We offer 30-day returns on all items.',
-        intent: 'SUPPORT',
+        intent: 'RETURNS',
         sentiment: 'neutral',
       },
     ];
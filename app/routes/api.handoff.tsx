@@ -0,0 +1,129 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+import { createHandoffRequest, isHandoffReason } from "../services/handoff.service.server";
+import { getShopAvailability } from "../services/business-hours.service.server";
+import { forwardEscalationTranscript } from "../services/transcript.service.server";
+import { logError, createLogger } from "../lib/logger.server";
+
+const logger = createLogger({ service: 'Handoff' });
+
+/**
+ * API endpoint to hand a conversation over to the shop's staff
+ *
+ * Called by the widget when the shopper accepts the "Talk to Support" offer.
+ * The chat session is added to the shop's handoff queue with the reason the
+ * assistant gave and a copy of the transcript. Outside business hours nothing
+ * is queued: the response says `offline: true` and the widget shows the
+ * offline message form (see /api/offline-message) instead. New requests are
+ * emailed to the shop's transcript forwarding address when one is set.
+ *
+ * Expected POST body:
+ * {
+ *   shop: string;
+ *   chatSessionId: string;
+ *   reason?: string; // explicit_request (default), negative_sentiment, low_confidence
+ *   note?: string; // Optional message for the team
+ * }
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: RATE_LIMITS.WIDGET_REQUESTS_PER_MINUTE,
+      message: "Too many handoff requests. Please try again later.",
+    },
+    {
+      useShop: true,
+      namespace: "handoff",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  try {
+    const body = await request.json();
+    const { shop, chatSessionId, reason, note } = body;
+
+    if (!shop || !chatSessionId || typeof chatSessionId !== "string") {
+      logger.warn({ shop, chatSessionId }, "Missing required fields");
+      return json(
+        { error: "Missing required fields: shop and chatSessionId" },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const availability = await getShopAvailability(shop);
+    if (!availability.open) {
+      return json(
+        { success: false, offline: true, availability },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    const handoffReason = isHandoffReason(reason) ? reason : "explicit_request";
+    const result = await createHandoffRequest(
+      shop,
+      chatSessionId,
+      handoffReason,
+      typeof note === "string" ? note : null
+    );
+
+    if (!result) {
+      return json({ error: "Chat session not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    if (result.created) {
+      try {
+        await forwardEscalationTranscript(shop, chatSessionId, handoffReason);
+      } catch (error) {
+        logger.warn({
+          error: error instanceof Error ? error.message : String(error),
+          shop
+        }, "⚠️ Failed to forward escalated transcript (non-blocking)");
+      }
+    }
+
+    return json(
+      {
+        success: true,
+        created: result.created,
+        handoff: { id: result.handoff.id, status: result.handoff.status }
+      },
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (error: any) {
+    logError(error, "Error creating handoff request", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to contact support", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
+
+// Handle OPTIONS request for CORS preflight
+export const loader = async ({ request }: { request: Request }) => {
+  if (request.method === "OPTIONS") {
+    const corsHeaders = getSecureCorsHeaders(request);
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  return json({ error: "Method not allowed. Use POST to request a human." }, { status: 405 });
+};
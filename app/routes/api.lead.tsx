@@ -0,0 +1,92 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+import { leadCaptureSchema, validateData, validationErrorResponse } from "../lib/validation.server";
+import { captureLead } from "../services/lead.service.server";
+import { logError } from "../lib/logger.server";
+
+/**
+ * API endpoint for the widget's lead form
+ *
+ * The form is offered when a chat reply has messageType "lead_capture". The
+ * lead is stored with the shopper's profile and synced to a Shopify customer;
+ * marketing consent is only recorded when the shopper ticked the checkbox.
+ * A failed Shopify sync still returns success (the merchant can retry it).
+ *
+ * Expected POST body:
+ * {
+ *   shop: string;
+ *   chatSessionId: string;
+ *   email: string;
+ *   firstName?: string;
+ *   marketingConsent: boolean;
+ *   consentText?: string;  // checkbox wording shown to the shopper
+ *   trigger: "assistant" | "rule";
+ * }
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: RATE_LIMITS.WIDGET_REQUESTS_PER_MINUTE,
+      message: "Too many requests. Please try again later.",
+    },
+    {
+      useShop: true,
+      namespace: "lead",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  try {
+    const body = await request.json();
+    const validation = validateData(leadCaptureSchema, body);
+
+    if (!validation.success) {
+      const errorResponse = validationErrorResponse(validation.errors);
+      return json(errorResponse, { status: errorResponse.status, headers: corsHeaders });
+    }
+
+    const lead = await captureLead(validation.data);
+
+    if (!lead) {
+      return json({ error: "Chat session not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    return json({ success: true, id: lead.id }, { status: 200, headers: corsHeaders });
+  } catch (error: any) {
+    logError(error, "Error saving lead", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to save your email", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
+
+// Handle OPTIONS request for CORS preflight
+export const loader = async ({ request }: { request: Request }) => {
+  if (request.method === "OPTIONS") {
+    const corsHeaders = getSecureCorsHeaders(request);
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  return json({ error: "Method not allowed. Use POST to leave your email." }, { status: 405 });
+};
@@ -0,0 +1,89 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+import { offlineMessageSchema, validateData, validationErrorResponse } from "../lib/validation.server";
+import { createOfflineMessage } from "../services/business-hours.service.server";
+import { logError } from "../lib/logger.server";
+
+/**
+ * API endpoint for messages left while the shop is outside business hours
+ *
+ * Called by the widget's offline form, shown instead of the handoff when
+ * nobody is available. The message is stored with the chat session and
+ * listed on the Business hours page of the admin.
+ *
+ * Expected POST body:
+ * {
+ *   shop: string;
+ *   chatSessionId: string;
+ *   name?: string;
+ *   email: string;
+ *   question: string;
+ * }
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: RATE_LIMITS.WIDGET_REQUESTS_PER_MINUTE,
+      message: "Too many messages. Please try again later.",
+    },
+    {
+      useShop: true,
+      namespace: "offline-message",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  try {
+    const body = await request.json();
+    const validation = validateData(offlineMessageSchema, body);
+
+    if (!validation.success) {
+      const errorResponse = validationErrorResponse(validation.errors);
+      return json(errorResponse, { status: errorResponse.status, headers: corsHeaders });
+    }
+
+    const message = await createOfflineMessage(validation.data);
+
+    if (!message) {
+      return json({ error: "Chat session not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    return json({ success: true, id: message.id }, { status: 200, headers: corsHeaders });
+  } catch (error: any) {
+    logError(error, "Error saving offline message", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to save message", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
+
+// Handle OPTIONS request for CORS preflight
+export const loader = async ({ request }: { request: Request }) => {
+  if (request.method === "OPTIONS") {
+    const corsHeaders = getSecureCorsHeaders(request);
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  return json({ error: "Method not allowed. Use POST to leave a message." }, { status: 405 });
+};
@@ -0,0 +1,105 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders } from "../lib/cors.server";
+import { rateLimit } from "../lib/rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+import { transcriptRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
+import { sendTranscript, type TranscriptSendStatus } from "../services/transcript.service.server";
+import { logError } from "../lib/logger.server";
+
+const STATUS_CODES: Record<TranscriptSendStatus, number> = {
+  sent: 200,
+  failed: 502,
+  not_found: 404,
+  unverified_recipient: 403,
+  limit_reached: 429,
+  disabled: 503,
+};
+
+/**
+ * API endpoint for shoppers asking for an email copy of the conversation
+ *
+ * Called by the widget's "Email this chat" form. The transcript (messages
+ * and product cards) is sent in the widget language and the delivery is
+ * recorded on the chat session. The endpoint is public, so the copy only goes
+ * to the email the shopper left through lead capture (403 otherwise), and
+ * sends are capped per session, per shop and per recipient (TRANSCRIPTS).
+ *
+ * Expected POST body:
+ * {
+ *   shop: string;
+ *   chatSessionId: string;
+ *   email: string;
+ *   language?: string;
+ * }
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  // Per shopper (IP): each request sends an email
+  const rateLimitResponse = rateLimit(
+    request,
+    {
+      windowMs: RATE_LIMITS.WIDGET_RATE_WINDOW_SECONDS * 1000,
+      maxRequests: RATE_LIMITS.WIDGET_REQUESTS_PER_MINUTE,
+      message: "Too many requests. Please try again later.",
+    },
+    {
+      namespace: "transcript",
+    }
+  );
+
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  try {
+    const body = await request.json();
+    const validation = validateData(transcriptRequestSchema, body);
+
+    if (!validation.success) {
+      const errorResponse = validationErrorResponse(validation.errors);
+      return json(errorResponse, { status: errorResponse.status, headers: corsHeaders });
+    }
+
+    const { shop, chatSessionId, email, language } = validation.data;
+    const result = await sendTranscript({
+      shop,
+      chatSessionId,
+      to: email,
+      trigger: "shopper_request",
+      language,
+    });
+
+    return json(
+      { success: result.status === "sent", status: result.status },
+      { status: STATUS_CODES[result.status], headers: corsHeaders }
+    );
+  } catch (error: any) {
+    logError(error, "Error sending chat transcript", {
+      url: request.url,
+    });
+
+    return json(
+      { error: "Failed to send transcript", details: error.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
+
+// Handle OPTIONS request for CORS preflight
+export const loader = async ({ request }: { request: Request }) => {
+  if (request.method === "OPTIONS") {
+    const corsHeaders = getSecureCorsHeaders(request);
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  return json({ error: "Method not allowed. Use POST to email a transcript." }, { status: 405 });
+};
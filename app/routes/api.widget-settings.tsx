@@ -1,17 +1,16 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { unauthenticated } from "../shopify.server";
 import { prisma as db } from "../db.server";
 import { getSecureCorsHeaders, createCorsPreflightResponse, isOriginAllowed } from "../lib/cors.server";
-import { rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
+import { getRequestIdentifier, rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
 import { chatRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
 import { getAPISecurityHeaders, mergeSecurityHeaders } from "../lib/security-headers.server";
 import { logError, createLogger } from "../lib/logger.server";
-import { personalizationService } from "../services/personalization.service";
-import { checkConversationLimit, getConversationUsage } from "../lib/conversation-usage.server";
+import { chatPipeline } from "../services/chat-pipeline/index.server";
+import { getConversationUsage } from "../lib/conversation-usage.server";
 import { normalizePlanCode, PlanCode } from "../lib/plans.config";
 import type { WidgetSettings } from "../lib/types";
-import { fetchShopPolicies, toShopPoliciesFormat, type ShopPolicies } from "../services/policy-cache.service.server";
+import { wantsEventStream, streamChatResponse } from "../lib/sse.server";
 
 // Default settings (same as in settings page)
 const DEFAULT_SETTINGS: Partial<WidgetSettings> = {
@@ -25,186 +24,6 @@ const DEFAULT_SETTINGS: Partial<WidgetSettings> = {
   plan: PlanCode.STARTER, // ✅ Use standardized plan code
 };
 
-// ✅ COMPREHENSIVE Intent detection system for Quick Action Buttons
-type Intent =
-  // Product Discovery Intents
-  | { type: "BESTSELLERS" }
-  | { type: "NEW_ARRIVALS" }
-  | { type: "ON_SALE" }
-  | { type: "RECOMMENDATIONS" }
-  // Customer Support Intents (NO PRODUCTS)
-  | { type: "SHIPPING_INFO" }
-  | { type: "RETURNS" }
-  | { type: "TRACK_ORDER" }
-  | { type: "HELP_FAQ" }
-  // Fallback Intents
-  | { type: "PRODUCT_SEARCH"; query: string }
-  | { type: "GENERAL_CHAT" };
-
-function detectIntent(message: string): Intent {
-  const lower = message.toLowerCase().trim();
-
-  // ========================================
-  // CUSTOMER SUPPORT INTENTS (NO PRODUCTS)
-  // ========================================
-
-  // Shipping Info: "Tell me about shipping and delivery"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(shipping|delivery|livraison|expédition|délai.*livraison|frais.*port|envío|entrega|enviar|versand|lieferung|spedizione|consegna|envio|entrega|配送|配达|发货|物流|配送について|配達)/i.test(lower)) {
-    return { type: "SHIPPING_INFO" };
-  }
-
-  // Returns: "What is your return policy?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(return|refund|exchange|retour|remboursement|échange|politique.*retour|devoluciones?|reembolso|cambio|rücksendung|erstattung|umtausch|resi|rimborso|cambio|devolução|reembolso|troca|退货|退款|换货|返品|返金|返品ポリシー)/i.test(lower)) {
-    return { type: "RETURNS" };
-  }
-
-  // Track Order: "How can I track my order?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(track|tracking|where.*is.*my.*order|order.*status|suivre.*commande|suivi.*colis|rastrear|seguimiento|pedido|verfolgen|sendungsverfolgung|bestellung|traccia.*ordine|stato.*ordine|rastrear|acompanhar|pedido|追踪|订单状态|查询|追跡|注文.*追跡|注文状況)/i.test(lower)) {
-    return { type: "TRACK_ORDER" };
-  }
-
-  // Help/FAQ: "I need help with something" or "How can I talk to someone"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(help|faq|question|support|assistance|aide|besoin.*aide|customer.*service|service.*client|talk.*to.*someone|speak.*to.*someone|contact.*you|reach.*you|parler.*avec|parler.*quelqu'un|contacter|joindre|comment.*vous.*contacter|ayuda|asistencia|soporte|servicio.*cliente|preguntas?|hilfe|unterstützung|kundendienst|fragen?|aiuto|supporto|assistenza|servizio.*clienti|domande?|ajuda|suporte|atendimento|perguntas?|帮助|支持|客服|联系|咨询|ヘルプ|サポート|助け|お問い合わせ)/i.test(lower)) {
-    return { type: "HELP_FAQ" };
-  }
-
-  // ========================================
-  // PRODUCT DISCOVERY INTENTS
-  // ========================================
-
-  // Best Sellers: "What are your best-selling products?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(best[-\s]?selling|best[-\s]?seller|top[-\s]?seller|most[-\s]?popular|popular.*product|meilleur.*vente|plus.*vendus|más.*vendido|populares?|producto.*popular|bestseller|beliebte.*produkte?|più.*venduti|popolari|mais.*vendidos|畅销|热门|人気|ベストセラー|人気商品)/i.test(lower)) {
-    return { type: "BESTSELLERS" };
-  }
-
-  // New Arrivals: "Show me new arrivals"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(new[-\s]?arrival|latest|recent|just[-\s]?added|nouveauté|nouveau.*produit|dernier.*ajout|novedades?|nuevo.*producto|neuheiten?|neue.*produkte?|novità|nuovi.*prodotti|novidades?|novo.*produto|新品|新上市|新着|新商品|新製品)/i.test(lower)) {
-    return { type: "NEW_ARRIVALS" };
-  }
-
-  // On Sale: "What products are on sale?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(on[-\s]?sale|discount|promo|deal|solde|réduction|promotion|rabais|oferta|descuento|rebaja|angebot|rabatt|reduziert|offerta|sconto|promoção|desconto|促销|打折|优惠|特价|セール|割引|特売)/i.test(lower)) {
-    return { type: "ON_SALE" };
-  }
-
-  // Recommendations: "Show me recommendations for me"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(recommendation|recommend.*for.*me|suggest.*for.*me|for[-\s]?you|personnalisé|recommandation|recomendaciones?|recomendado|sugerencias?|empfehlungen?|empfohlen|vorschläge|raccomandazioni?|consigliato|suggerimenti|recomendações?|recomendado|sugestões|推荐|建议|おすすめ|推奨|お勧め)/i.test(lower)) {
-    return { type: "RECOMMENDATIONS" };
-  }
-
-  // ========================================
-  // FALLBACK: Generic Product Search
-  // ========================================
-
-  // T-shirts
-  if (/(t[-\s]?shirt)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "t-shirt" };
-  }
-
-  // Shoes
-  if (/(shoe|chaussure|sneaker|boot|basket)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "shoe" };
-  }
-
-  // General product queries
-  if (/(show|see|display|browse|view|product|item|all.*product|categor|montre|affiche|voir|parcour|vêtement|produit|collection)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "product" };
-  }
-
-  return { type: "GENERAL_CHAT" };
-}
-
-// ✅ ADDED: Sentiment analysis helper
-function analyzeSentiment(message: string): string {
-  const lower = message.toLowerCase();
-
-  // Positive indicators
-  if (/(love|great|amazing|excellent|perfect|awesome|thank|thanks|happy|good)/i.test(lower)) {
-    return "positive";
-  }
-
-  // Negative indicators
-  if (/(hate|bad|terrible|awful|disappointed|angry|problem|issue|wrong)/i.test(lower)) {
-    return "negative";
-  }
-
-  return "neutral";
-}
-
-// ✅ ADDED: Locale to language code mapper
-// Maps browser locale codes (e.g., 'fr-FR', 'en-US') to language codes ('fr', 'en')
-function getLanguageFromLocale(locale: string | undefined): string | null {
-  if (!locale) return null;
-
-  const normalizedLocale = locale.toLowerCase();
-
-  // Extract language code from locale (e.g., 'fr-FR' -> 'fr', 'en-US' -> 'en')
-  const languageCode = normalizedLocale.split('-')[0];
-
-  // Validate against supported languages
-  const supportedLanguages = ['fr', 'es', 'de', 'pt', 'it', 'en'];
-  if (languageCode && supportedLanguages.includes(languageCode)) {
-    return languageCode;
-  }
-
-  return null;
-}
-
-// ✅ ADDED: Language code to full name mapper
-// Used for generating clear language instructions for the AI
-function getLanguageName(languageCode: string): string {
-  const languageMap: Record<string, string> = {
-    'fr': 'French',
-    'es': 'Spanish',
-    'de': 'German',
-    'pt': 'Portuguese',
-    'it': 'Italian',
-    'en': 'English'
-  };
-  return languageMap[languageCode] || 'English';
-}
-
-// ✅ ADDED: Language detection helper (used as fallback when locale is not available)
-function detectLanguage(message: string): string {
-  const lower = message.toLowerCase();
-
-  // French detection - expanded with more common words including very short messages
-  if (/(bonjour|salut|merci|montre|produit|cherche|voudrais|pourrais|nouveauté|meilleures?|vente|jaimerais|j'aimerais|parler|quelqu'un|quelqun|comment|faire|avec|pour|suis|être|avoir|puis|peux|peut|dois|doit|besoin|aide|aidez|s'il vous plaît|svp|oui|non|vous|avez|des|chaussures|chaussure|je|veux|voir|bien|super|parfait|d'accord|ok|quoi|quel|quelle|tous|toutes|aussi)/i.test(lower)) {
-    return 'fr';
-  }
-
-  // Spanish detection
-  if (/(hola|gracias|producto|busco|quiero|puedo|nuevo|hablar|cómo|hacer|ayuda|necesito)/i.test(lower)) {
-    return 'es';
-  }
-
-  // German detection
-  if (/(hallo|danke|produkt|suche|möchte|kann|sprechen|wie|machen|hilfe|brauche)/i.test(lower)) {
-    return 'de';
-  }
-
-  // Portuguese detection
-  if (/(olá|obrigado|produto|procuro|gostaria|posso|falar|como|fazer|ajuda|preciso)/i.test(lower)) {
-    return 'pt';
-  }
-
-  // Italian detection
-  if (/(ciao|grazie|prodotto|cerco|vorrei|posso|parlare|come|fare|aiuto|bisogno)/i.test(lower)) {
-    return 'it';
-  }
-
-  // Default to English
-  return 'en';
-}
-
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   // ✅ SECURITY FIX: Apply rate limiting
   // Generous limit for widget settings retrieval: 300 requests per minute
@@ -278,7 +97,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     return json(
       {
-        settings,
+        settings: { ...settings, webhookSigningSecret: undefined },
         conversationUsage // ✅ Now widget can show usage warnings
       },
       {
@@ -333,6 +152,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return rateLimitResponse;
   }
 
+  // Streaming mode: open the event stream right away and emit the reply as frames
+  if (wantsEventStream(request)) {
+    return streamChatResponse(
+      (onToken) => handleChatMessage(request, routeLogger, onToken),
+      mergeSecurityHeaders(
+        getSecureCorsHeaders(request),
+        getAPISecurityHeaders()
+      )
+    );
+  }
+
+  return handleChatMessage(request, routeLogger);
+};
+
+// Process a chat message and build the JSON reply (shared by the JSON and streaming modes)
+async function handleChatMessage(
+  request: Request,
+  routeLogger: ReturnType<typeof createLogger>,
+  onToken?: (text: string) => void
+): Promise<Response> {
   const startTime = Date.now();
 
   try {
@@ -400,1166 +239,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     routeLogger.debug({ messageLength: finalMessage.length }, 'Processing chat message');
 
-    // ========================================
-    // CONVERSATION LIMIT ENFORCEMENT
-    // ========================================
-    // ✅ IMPROVED: Use centralized conversation limit checking with proper timezone handling
-    try {
-      // Get shop settings to determine plan
-      const shopSettings = await db.widgetSettings.findUnique({
-        where: { shop: shopDomain },
-        select: { plan: true }
-      });
-
-      const currentPlan = shopSettings?.plan || PlanCode.STARTER;
-      const normalizedPlan = normalizePlanCode(currentPlan);
-
-      // Use shared utility for limit checking
-      const limitCheck = await checkConversationLimit(shopDomain, normalizedPlan);
-
-      routeLogger.info({
-        shop: shopDomain,
-        plan: normalizedPlan,
-        conversationCount: limitCheck.count,
-        limit: limitCheck.limit,
-        percentUsed: limitCheck.limit === Infinity ? 0 : Math.round((limitCheck.count / limitCheck.limit) * 100)
-      }, '📊 Conversation usage check');
-
-      // Check if limit exceeded
-      if (limitCheck.exceeded) {
-        routeLogger.warn({
-          shop: shopDomain,
-          plan: normalizedPlan,
-          conversationCount: limitCheck.count,
-          limit: limitCheck.limit
-        }, '🚫 Conversation limit exceeded');
-
-        return json({
-          error: "conversation_limit_exceeded",
-          message: `You've reached your monthly limit of ${limitCheck.limit.toLocaleString()} conversations. Upgrade to Professional Plan for unlimited conversations!`,
-          messageType: "limit_exceeded",
-          conversationsUsed: limitCheck.count,
-          conversationLimit: limitCheck.limit,
-          currentPlan: normalizedPlan,
-          upgradeUrl: "/app/billing",
-          upgradeAvailable: true,
-          recommendations: [],
-          quickReplies: ["Upgrade to Professional", "View billing"],
-          success: false
-        }, {
-          status: 429, // 429 Too Many Requests
-          headers: mergeSecurityHeaders(
-            getSecureCorsHeaders(request),
-            getAPISecurityHeaders()
-          )
-        });
-      }
-
-      // Warn if approaching limit (90% or more)
-      if (limitCheck.limit !== Infinity && limitCheck.count >= limitCheck.limit * 0.9) {
-        routeLogger.warn({
-          shop: shopDomain,
-          plan: normalizedPlan,
-          conversationCount: limitCheck.count,
-          limit: limitCheck.limit,
-          percentUsed: Math.round((limitCheck.count / limitCheck.limit) * 100)
-        }, '⚠️ Conversation limit warning (90%+)');
-      } else if (limitCheck.limit === Infinity) {
-        routeLogger.debug({
-          shop: shopDomain,
-          plan: normalizedPlan
-        }, '✅ Unlimited conversations plan - no limit check');
-      }
-    } catch (limitCheckError) {
-      // Log error but don't block the conversation - graceful degradation
-      routeLogger.error({
-        error: limitCheckError instanceof Error ? limitCheckError.message : String(limitCheckError),
-        shop: shopDomain
-      }, '❌ Failed to check conversation limit (non-blocking)');
-      // Continue processing the message
-    }
-
-    // ✅ IMPROVED: Detect intent, sentiment, and language
-    const intent = detectIntent(finalMessage);
-    const sentiment = analyzeSentiment(finalMessage);
-
-    // 🌍 LANGUAGE DETECTION FIX: Prioritize interface locale over message content
-    // This ensures quick buttons respond in the correct language
-    //
-    // FLOW:
-    // 1. Frontend sends context.locale from navigator.language (e.g., 'fr-FR', 'es-ES')
-    // 2. We extract language code from locale (e.g., 'fr', 'es')
-    // 3. If locale is invalid/missing, we fallback to detecting from message content
-    // 4. Language is passed to N8N in both context.locale and context.languageInstruction
-    // 5. N8N workflow uses context.locale to determine response language
-    const localeLanguage = getLanguageFromLocale(context.locale as string | undefined);
-    const messageLanguage = detectLanguage(finalMessage);
-    const detectedLanguage = localeLanguage || messageLanguage; // Use locale first, fallback to message detection
-
-    routeLogger.debug({
-      contextLocale: context.locale,
-      localeLanguage: localeLanguage,
-      messageLanguage: messageLanguage,
-      finalLanguage: detectedLanguage
-    }, '🌍 Language detection result');
-
-    routeLogger.debug({
-      intent: intent.type,
-      sentiment,
-      language: detectedLanguage
-    }, 'Intent, sentiment, and language detected');
-
-    // ========================================
-    // EARLY POLICY FETCH (for ALL intents)
-    // ========================================
-    // CRITICAL: Fetch policies EARLY so they're available for:
-    // 1. Normal N8N operation (passed to AI)
-    // 2. Fallback processing (when N8N fails/times out)
-    // This uses the REST API because GraphQL doesn't expose shop policies
-    let shopPolicies: ShopPolicies | null = null;
-
-    try {
-      // Get session with access token for REST API call
-      const { session } = await unauthenticated.admin(shopDomain);
-
-      if (session?.accessToken) {
-        const cachedPolicies = await fetchShopPolicies(shopDomain, session.accessToken);
-        shopPolicies = toShopPoliciesFormat(cachedPolicies);
-
-        routeLogger.info({
-          shop: shopDomain,
-          hasReturns: !!shopPolicies?.returns,
-          hasShipping: !!shopPolicies?.shipping,
-          hasPrivacy: !!shopPolicies?.privacy
-        }, '✅ Fetched shop policies early for all intents');
-      } else {
-        routeLogger.warn({ shop: shopDomain }, '⚠️ No access token available for policy fetch');
-      }
-    } catch (policyError) {
-      // Non-blocking - continue without policies, fallback will use defaults
-      routeLogger.warn({
-        shop: shopDomain,
-        error: policyError instanceof Error ? policyError.message : String(policyError)
-      }, '⚠️ Early policy fetch failed (non-blocking)');
-    }
-
-    // ========================================
-    // HANDLE SUPPORT INTENTS (NO PRODUCTS)
-    // ========================================
-
-    // Support intents return text-only responses and DON'T need products
-    const isSupportIntent = ["SHIPPING_INFO", "RETURNS", "TRACK_ORDER", "HELP_FAQ"].includes(intent.type);
-
-    // ✅ IMPROVED: Fetch more products (50 instead of 20) - ONLY for product intents
-    let products: any[] = [];
-    let productsFetchFailed = false;
-    let sessionError = false;
-
-    // Declare variables outside try block for error logging
-    const variables: { first: number; query?: string; sortKey?: string; reverse?: boolean } = { first: 50 };
-
-    // ✅ CRITICAL FIX: Always fetch products for ALL intents (including GENERAL_CHAT)
-    // This ensures AI has actual shop context and doesn't make up fake products
-    const productIntents = ["BESTSELLERS", "NEW_ARRIVALS", "ON_SALE", "RECOMMENDATIONS", "PRODUCT_SEARCH"];
-    const isProductIntent = productIntents.includes(intent.type);
-
-    // ✅ BYOK FIX: Always fetch products to send to N8N, even for GENERAL_CHAT
-    // This prevents AI from inventing generic products like "Electronics, Smartphones"
-    // 🆘 CRITICAL: Do NOT fetch for support intents - they don't need inventory
-    const shouldFetchProducts = isProductIntent || intent.type === "GENERAL_CHAT";
-
-    if (shouldFetchProducts && !isSupportIntent) {
-      try {
-        // Use unauthenticated admin (uses offline token, works in production)
-        const { admin: shopAdmin } = await unauthenticated.admin(shopDomain);
-
-        // ✅ CRITICAL FIX: Build GraphQL query based on SPECIFIC intent
-        let graphqlQuery = `
-          #graphql
-          query getProducts($first: Int!, $query: String) {
-            products(first: $first, query: $query) {
-              edges {
-                node {
-                  id
-                  title
-                  handle
-                  description
-                  totalInventory
-                  tags
-                  featuredImage { url }
-                  variants(first: 1) {
-                    edges {
-                      node {
-                        price
-                        compareAtPrice
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        `;
-
-        // Build query based on intent type
-        if (intent.type === "BESTSELLERS") {
-          // Best Sellers: Use GraphQL sortKey
-          graphqlQuery = `
-            #graphql
-            query getBestsellers($first: Int!) {
-              products(first: $first, sortKey: CREATED_AT, reverse: true) {
-                edges {
-                  node {
-                    id
-                    title
-                    handle
-                    description
-                    totalInventory
-                    tags
-                    featuredImage { url }
-                    variants(first: 1) {
-                      edges {
-                        node {
-                          price
-                          compareAtPrice
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          `;
-          delete variables.query;
-        } else if (intent.type === "PRODUCT_SEARCH") {
-          // Generic product search
-          if (intent.query === "t-shirt") {
-            variables.query = "product_type:t-shirt";
-          } else if (intent.query === "shoe") {
-            variables.query = "product_type:shoe";
-          } else {
-            variables.query = "status:active";
-          }
-        } else {
-          // Default: active products
-          variables.query = "status:active";
-        }
-
-        routeLogger.info({
-          intentType: intent.type,
-          graphqlQuery: variables.query || 'sortKey-based query',
-          message: finalMessage
-        }, '🔍 Query being sent to GraphQL');
-
-        // ✅ PERFORMANCE FIX: Add 15-second timeout to prevent hanging GraphQL requests
-        const graphqlPromise = shopAdmin.graphql(graphqlQuery, { variables });
-        const timeoutPromise = new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('GraphQL query timeout')), 15000)
-        );
-
-        let response;
-        try {
-          response = await Promise.race([graphqlPromise, timeoutPromise]) as any;
-        } catch (timeoutError: any) {
-          if (timeoutError.message === 'GraphQL query timeout') {
-            routeLogger.error({ shop: shopDomain }, 'GraphQL query timed out after 15 seconds');
-            productsFetchFailed = true;
-            products = [];
-            // Continue with empty products rather than failing
-          } else {
-            throw timeoutError; // Re-throw other errors
-          }
-        }
-
-        if (response) {
-          const responseData = (await response.json()) as any;
-
-          // ✅ CHECK FOR GRAPHQL ERRORS
-          if (responseData.errors) {
-            console.error('❌ STEP 7: GraphQL returned errors:', responseData.errors);
-            routeLogger.error({
-              graphqlErrors: responseData.errors,
-              query: variables.query
-            }, '❌ GraphQL query returned errors');
-            productsFetchFailed = true;
-            products = [];
-          } else {
-            products = responseData?.data?.products?.edges?.map((edge: any) => ({
-              id: edge.node.id,
-              title: edge.node.title,
-              handle: edge.node.handle,
-              description: edge.node.description || '',
-              image: edge.node.featuredImage?.url,
-              price: edge.node.variants.edges[0]?.node.price || '0.00',
-              compareAtPrice: edge.node.variants.edges[0]?.node.compareAtPrice || null,
-              inventory: edge.node.totalInventory || 0,
-              tags: edge.node.tags || [],
-              rating: null, // Add if you have review apps
-              reviewCount: 0 // Add if you have review apps
-            })) || [];
-
-            routeLogger.info({ count: products.length, shop: shopDomain, intent: intent.type }, '✅ Fetched products');
-          }
-        }
-      } catch (error) {
-        const errorMessage = (error as Error).message;
-        console.error('❌ EXCEPTION in product fetch:', {
-          error: errorMessage,
-          stack: (error as Error).stack
-        });
-
-        // ✅ CRITICAL FIX: Detect session errors
-        if (errorMessage.includes('Could not find a session') ||
-            errorMessage.includes('session') ||
-            errorMessage.includes('offline access token')) {
-          sessionError = true;
-          routeLogger.error({
-            error: errorMessage,
-            shop: shopDomain
-          }, '❌ SESSION ERROR: Shop needs to reinstall app or session expired');
-        } else {
-          routeLogger.error({
-            error: errorMessage,
-            stack: (error as Error).stack,
-            query: variables.query
-          }, '❌ Failed to fetch products - exception thrown');
-        }
-
-        productsFetchFailed = true;
-        products = [];
-      }
-    } else {
-      routeLogger.info({ intent: intent.type }, 'Skipping product fetch for support intent');
-    }
-
-    // Enhanced context for better AI responses
-    // NOTE: decryptedOpenAIKey will be added later after we fetch settings
-    const languageName = getLanguageName(detectedLanguage);
-    const enhancedContext = {
-      ...context,
-      customerId: context.customerId || undefined,
-      customerEmail: (context.customerEmail as string) || undefined,
-      previousMessages: context.previousMessages || undefined,
-      sentiment: sentiment,
-      intent: intent.type,
-      shopDomain: shopDomain,
-      locale: detectedLanguage, // ✅ ADDED: Pass detected language to AI
-      languageInstruction: `🌍 CRITICAL LANGUAGE INSTRUCTION: You MUST respond ONLY in ${languageName}. User's interface language: ${detectedLanguage}. NEVER respond in English unless the locale is 'en'. This is a strict requirement.`, // ✅ IMPROVED: More explicit language instruction
-      timestamp: new Date().toISOString(),
+    const result = await chatPipeline.run({
+      shop: shopDomain,
+      message: finalMessage,
+      context,
+      source: 'widget',
       userAgent: request.headers.get('user-agent') || undefined,
       referer: request.headers.get('referer') || undefined,
-      // ✅ NEW: Pass shop policies for dynamic fallback responses
-      shopPolicies: shopPolicies || undefined,
-    };
-
-    // ✅ CRITICAL FIX: Fetch conversation history to prevent repeated greetings
-    // This must happen BEFORE calling N8N so AI knows it's not the first message
-    let conversationHistory: Array<{ role: string; content: string }> = [];
-    let isFirstMessage = true;
-
-    try {
-      // Get session ID from context
-      const sessionId = context.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Try to find existing user profile and chat session
-      const userProfile = await db.userProfile.findUnique({
-        where: {
-          shop_sessionId: {
-            shop: shopDomain,
-            sessionId: sessionId
-          }
-        }
-      });
-
-      if (userProfile) {
-        // Find active chat session (from last 24 hours)
-        const chatSession = await db.chatSession.findFirst({
-          where: {
-            shop: shopDomain,
-            userProfileId: userProfile.id,
-            lastMessageAt: {
-              gte: new Date(Date.now() - 24 * 60 * 60 * 1000)
-            }
-          },
-          orderBy: {
-            lastMessageAt: 'desc'
-          },
-          include: {
-            messages: {
-              orderBy: {
-                timestamp: 'asc'
-              },
-              take: 10 // Last 10 messages
-            }
-          }
-        });
-
-        if (chatSession && chatSession.messages.length > 0) {
-          isFirstMessage = false;
-
-          // Convert messages to conversation history format
-          conversationHistory = chatSession.messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          }));
-
-          routeLogger.debug({
-            sessionId,
-            messageCount: conversationHistory.length,
-            isFirstMessage
-          }, '✅ Loaded conversation history');
-        }
-      }
-
-      // Add conversation history to enhanced context
-      if (conversationHistory.length > 0) {
-        (enhancedContext as any).previousMessages = conversationHistory.map(m => m.content);
-        (enhancedContext as any).conversationHistory = conversationHistory;
-        (enhancedContext as any).isFirstMessage = false;
-      } else {
-        (enhancedContext as any).isFirstMessage = true;
-      }
-
-    } catch (error) {
-      routeLogger.warn({ error: (error as Error).message }, 'Failed to load conversation history (non-blocking)');
-      // Continue without history - better to respond than fail
-    }
-
-    // ========================================
-    // GET WEBHOOK URL (for all intents)
-    // ========================================
-
-    // Get webhook URL from widget settings
-    let settings = null;
-    let decryptedOpenAIKey: string | null = null;
-    try {
-      settings = await db.widgetSettings.findUnique({
-        where: { shop: shopDomain },
-      });
-
-      // ✅ CRITICAL: Decrypt OpenAI API key if it exists (for BYOK plan)
-      if ((settings as any)?.openaiApiKey && (settings as any)?.plan === 'BYOK') {
-        try {
-          const { decryptApiKey } = await import("../lib/encryption.server");
-          decryptedOpenAIKey = decryptApiKey((settings as any).openaiApiKey);
-          routeLogger.info({ shop: shopDomain }, '🔑 Decrypted OpenAI API key for BYOK plan');
-        } catch (error) {
-          routeLogger.error({
-            error: error instanceof Error ? error.message : String(error),
-            shop: shopDomain
-          }, '❌ Failed to decrypt OpenAI API key for BYOK plan');
-        }
-      }
-
-      routeLogger.debug({
-        shop: shopDomain,
-        workflowType: (settings as any)?.workflowType || 'DEFAULT',
-        plan: (settings as any)?.plan || 'BASIC',
-        hasCustomWebhook: !!(settings as any)?.webhookUrl,
-        hasOpenAIKey: !!decryptedOpenAIKey
-      }, 'Retrieved widget settings');
-    } catch (error) {
-      routeLogger.debug('Could not fetch settings from database');
-      settings = null;
-    }
-
-    // ✅ IMPROVED: Determine workflow type and webhook URL based on PLAN
-    const workflowType = (settings as any)?.workflowType || 'DEFAULT';
-    const plan = (settings as any)?.plan || 'BASIC';
-    let webhookUrl: string | undefined;
-    let workflowDescription: string;
-
-    // First check if custom workflow is selected (overrides plan-based routing)
-    if (workflowType === 'CUSTOM') {
-      // CUSTOM WORKFLOW: Use merchant's custom N8N webhook
-      const customWebhookUrl = (settings as any)?.webhookUrl;
-      const isValidCustomUrl = customWebhookUrl &&
-                              typeof customWebhookUrl === 'string' &&
-                              customWebhookUrl.trim() !== '' &&
-                              customWebhookUrl !== 'https://' &&
-                              customWebhookUrl !== 'null' &&
-                              customWebhookUrl !== 'undefined' &&
-                              customWebhookUrl.startsWith('https://') &&
-                              customWebhookUrl.length > 8;
-
-      if (isValidCustomUrl) {
-        webhookUrl = customWebhookUrl;
-        workflowDescription = 'CUSTOM N8N Workflow (merchant webhook)';
-      } else {
-        // Invalid custom URL - fallback to plan-based routing
-        if (plan === 'BYOK') {
-          webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
-          workflowDescription = 'BYOK Workflow (fallback from invalid custom URL)';
-        } else {
-          webhookUrl = process.env.N8N_WEBHOOK_URL;
-          workflowDescription = 'DEFAULT Workflow (invalid custom URL, using fallback)';
-        }
-        routeLogger.warn({
-          shop: shopDomain,
-          customUrl: customWebhookUrl,
-          plan
-        }, '⚠️ Custom workflow selected but URL invalid - falling back to plan-based routing');
-      }
-    } else {
-      // DEFAULT WORKFLOW: Use plan-based webhook routing
-      if (plan === 'BYOK') {
-        // BYOK Plan: Use BYOK-specific webhook (with customer's own OpenAI API key)
-        webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'BYOK Plan Workflow (customer API key)';
-        routeLogger.info({
-          shop: shopDomain,
-          plan,
-          hasByokWebhook: !!process.env.N8N_WEBHOOK_BYOK
-        }, '🔑 Using BYOK plan webhook');
-      } else if (plan === 'Starter') {
-        // BASIC Plan ($25/month): Use default webhook
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'Starter Plan Workflow ($25/month)';
-      } else if (plan === 'Pro') {
-        // UNLIMITED Plan ($79/month): Use default webhook (or could be a separate one)
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'Pro Plan Workflow ($79/month)';
-      } else {
-        // Fallback for unknown plans
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'DEFAULT Workflow (unknown plan)';
-        routeLogger.warn({
-          shop: shopDomain,
-          plan
-        }, '⚠️ Unknown plan, using default webhook');
-      }
-    }
-
-    routeLogger.info({
-      workflow: workflowDescription,
-      workflowType,
-      plan,
-      shop: shopDomain,
-      intent: intent.type,
-      hasWebhook: !!webhookUrl
-    }, '🔄 Using workflow');
-
-    // ✅ CRITICAL: Add OpenAI API key and plan to enhanced context
-    // This must be done AFTER fetching settings and BEFORE calling N8N
-    if (decryptedOpenAIKey) {
-      (enhancedContext as any).openaiApiKey = decryptedOpenAIKey;
-      routeLogger.debug({ shop: shopDomain }, '🔑 Added OpenAI API key to context for N8N');
-    }
-    (enhancedContext as any).plan = plan;
-
-    // ========================================
-    // SUPPORT INTENT HANDLERS (NO PRODUCTS)
-    // ========================================
-
-    let n8nResponse;
-    let recommendations = [];
-
-
-    // ✅ AI-POWERED: Send support intents to N8N for shop-specific AI responses
-    // Now using early-fetched policies (via REST API, not GraphQL)
-    if (isSupportIntent) {
-      routeLogger.info({
-        intent: intent.type,
-        hasPolicies: !!shopPolicies,
-        hasReturns: !!shopPolicies?.returns,
-        hasShipping: !!shopPolicies?.shipping
-      }, '✅ Sending support query to N8N with pre-fetched shop policies');
-
-      try {
-        const { N8NService } = await import("../services/n8n.service.server");
-        const { getDefaultPolicyMessage } = await import("../services/policy-cache.service.server");
-        const customN8NService = new N8NService(webhookUrl);
-
-        // Get language for fallback messages
-        const lang = enhancedContext.locale?.toLowerCase().split('-')[0] || 'en';
-
-        // Send to N8N with intent context so AI knows it's a support query
-        // 🆘 CRITICAL FIX: Support questions don't need products - they need store policies
-        // Questions like "return policy" have NOTHING to do with inventory
-        n8nResponse = await customN8NService.processUserMessage({
-          userMessage: finalMessage,
-          products: [], // NO PRODUCTS - support questions don't need inventory
-          context: {
-            ...enhancedContext,
-            supportCategory: intent.type, // SHIPPING_INFO, RETURNS, TRACK_ORDER, or HELP_FAQ
-            // ✅ Pass REAL shop policies from early REST API fetch (or defaults if not available)
-            storePolicies: {
-              shopName: shopPolicies?.shopName || shopDomain,
-              returns: shopPolicies?.returns || getDefaultPolicyMessage('returns', lang),
-              shipping: shopPolicies?.shipping || getDefaultPolicyMessage('shipping', lang),
-              privacy: shopPolicies?.privacy || null
-            }
-          }
-        });
-
-        // Ensure no products are returned for support queries (user shouldn't see product cards)
-        recommendations = [];
-
-        routeLogger.info({
-          intent: intent.type,
-          hasRealPolicies: !!shopPolicies,
-          aiResponseLength: n8nResponse?.message?.length || 0
-        }, '✅ Support intent handled by AI with real shop policies');
-
-      } catch (error) {
-        routeLogger.error({ error: String(error), intent: intent.type }, '❌ N8N support handler error - using dynamic fallback');
-
-        // Import fallback message generator
-        const { getDefaultPolicyMessage } = await import("../services/policy-cache.service.server");
-        const lang = enhancedContext.locale?.toLowerCase().split('-')[0] || 'en';
-
-        // Generate dynamic fallback message based on intent and available policies
-        let fallbackMessage: string;
-
-        if (intent.type === 'SHIPPING_INFO') {
-          fallbackMessage = shopPolicies?.shipping
-            ? `Here's our shipping policy:\n\n${shopPolicies.shipping.substring(0, 500)}${shopPolicies.shipping.length > 500 ? '...' : ''}`
-            : getDefaultPolicyMessage('shipping', lang);
-        } else if (intent.type === 'RETURNS') {
-          fallbackMessage = shopPolicies?.returns
-            ? `Here's our return policy:\n\n${shopPolicies.returns.substring(0, 500)}${shopPolicies.returns.length > 500 ? '...' : ''}`
-            : getDefaultPolicyMessage('returns', lang);
-        } else {
-          // Generic support fallback
-          const genericMessages: Record<string, string> = {
-            en: "I'm here to help! Please ask me your question and I'll do my best to assist you.",
-            fr: "Je suis là pour vous aider ! Posez-moi votre question et je ferai de mon mieux pour vous assister.",
-            es: "¡Estoy aquí para ayudar! Por favor, hágame su pregunta y haré mi mejor esfuerzo para asistirle.",
-            de: "Ich bin hier, um zu helfen! Bitte stellen Sie mir Ihre Frage und ich werde mein Bestes tun, um Ihnen zu helfen.",
-            pt: "Estou aqui para ajudar! Por favor, faça sua pergunta e farei o meu melhor para ajudá-lo.",
-            it: "Sono qui per aiutarti! Per favore, fammi la tua domanda e farò del mio meglio per assisterti."
-          };
-          const defaultMessage = "I'm here to help! Please ask me your question and I'll do my best to assist you.";
-          fallbackMessage = genericMessages[lang] ?? defaultMessage;
-        }
-
-        n8nResponse = {
-          message: fallbackMessage,
-          recommendations: [],
-          quickReplies: lang === 'fr'
-            ? ["Info livraison", "Politique de retour", "Suivre commande", "Parcourir produits"]
-            : ["Shipping info", "Return policy", "Track order", "Browse products"],
-          confidence: 0.6, // Higher confidence when using real policies
-          messageType: "support"
-        };
-      }
-    }
-    // ========================================
-    // PRODUCT INTENT HANDLERS
-    // ========================================
-    else {
-      // ✅ Handle shop session/authentication failure for ALL product intents
-      if (productsFetchFailed && isProductIntent) {
-        // Shop session not available - provide helpful message
-        const lang = enhancedContext.locale?.toLowerCase().split('-')[0] || 'en';
-
-        // Different messages for session errors vs other errors
-        let errorMessage: string;
-        let quickReplies: string[];
-
-        if (sessionError) {
-          // ✅ SESSION ERROR: Specific message about app reinstallation
-          const sessionErrorMessages: Record<string, string> = {
-            fr: "⚠️ La connexion avec votre boutique a expiré. L'administrateur doit réinstaller l'application pour que je puisse accéder aux produits. En attendant, je peux répondre à vos questions générales sur la boutique.",
-            en: "⚠️ The connection to the shop has expired. The shop administrator needs to reinstall the app so I can access the product catalog. In the meantime, I can help answer general questions about the store.",
-            es: "⚠️ La conexión con la tienda ha caducado. El administrador de la tienda necesita reinstalar la aplicación para que pueda acceder al catálogo de productos. Mientras tanto, puedo ayudar a responder preguntas generales sobre la tienda.",
-            de: "⚠️ Die Verbindung zum Shop ist abgelaufen. Der Shop-Administrator muss die App neu installieren, damit ich auf den Produktkatalog zugreifen kann. In der Zwischenzeit kann ich allgemeine Fragen zum Shop beantworten.",
-            pt: "⚠️ A conexão com a loja expirou. O administrador da loja precisa reinstalar o aplicativo para que eu possa acessar o catálogo de produtos. Enquanto isso, posso ajudar a responder perguntas gerais sobre a loja.",
-            it: "⚠️ La connessione al negozio è scaduta. L'amministratore del negozio deve reinstallare l'app in modo che io possa accedere al catalogo prodotti. Nel frattempo, posso aiutare a rispondere a domande generali sul negozio."
-          };
-          errorMessage = sessionErrorMessages[lang] ?? sessionErrorMessages['en']!;
-          quickReplies = lang === 'fr'
-            ? ["Aide générale", "Informations boutique"]
-            : ["General help", "Store information"];
-
-          routeLogger.error({ shop: shopDomain }, '❌ SESSION ERROR: Shop needs to reinstall app');
-        } else {
-          // ✅ GENERAL ERROR: Other product fetch errors
-          const generalErrorMessages: Record<string, string> = {
-            fr: "Je ne peux pas accéder aux produits actuellement. Un problème temporaire est survenu. Veuillez réessayer dans quelques instants.",
-            en: "I'm unable to access the product catalog right now due to a temporary issue. Please try again in a few moments.",
-            es: "No puedo acceder al catálogo de productos en este momento debido a un problema temporal. Inténtelo de nuevo en unos momentos.",
-            de: "Ich kann derzeit aufgrund eines vorübergehenden Problems nicht auf den Produktkatalog zugreifen. Bitte versuchen Sie es in ein paar Augenblicken erneut.",
-            pt: "Não consigo acessar o catálogo de produtos no momento devido a um problema temporário. Tente novamente em alguns instantes.",
-            it: "Non riesco ad accedere al catalogo prodotti in questo momento a causa di un problema temporaneo. Riprova tra qualche istante."
-          };
-          errorMessage = generalErrorMessages[lang] ?? generalErrorMessages['en']!;
-          quickReplies = lang === 'fr'
-            ? ["Réessayer", "Aide"]
-            : ["Try again", "Help"];
-
-          routeLogger.error({ shop: shopDomain }, '❌ Product fetch failed');
-        }
-
-        n8nResponse = {
-          message: errorMessage,
-          recommendations: [],
-          confidence: 0.3,
-          messageType: "error",
-          quickReplies: quickReplies
-        };
-      }
-      // ✅ IMPROVED: Handle ALL product intents with appropriate messages
-      else if (isProductIntent && products.length > 0) {
-        // Direct product recommendation with intent-specific messages
-        let responseText: string = "";
-        let quickReplies: string[] = [];
-
-        if (intent.type === "BESTSELLERS") {
-          responseText = "🏆 Our Best Sellers - These are our customers' favorites!";
-          quickReplies = ["Show new arrivals", "What's on sale?", "Recommendations for me"];
-        } else if (intent.type === "NEW_ARRIVALS") {
-          responseText = "✨ New Arrivals - Check out our latest products!";
-          quickReplies = ["Show bestsellers", "What's on sale?", "Browse all products"];
-        } else if (intent.type === "ON_SALE") {
-          responseText = "🔥 On Sale - Great deals you don't want to miss!";
-          quickReplies = ["Show bestsellers", "New arrivals", "Browse all products"];
-        } else if (intent.type === "RECOMMENDATIONS") {
-          responseText = "💎 Recommended For You - Handpicked just for you!";
-          quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
-        } else if (intent.type === "PRODUCT_SEARCH") {
-          const messages: Record<string, string> = {
-            "t-shirt": "👕 Here are our available t-shirts:",
-            "shoe": "👟 Here are our shoes:",
-            "product": "📦 Here are some products you might like:"
-          };
-          const query = (intent as any).query || "product";
-          responseText = messages[query] ?? messages["product"]!;
-          quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
-        } else {
-          responseText = "📦 Here are some products you might like:";
-          quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
-        }
-
-        // Limit to 8 products for display
-        recommendations = products.slice(0, 8);
-
-        // 🐛 DEBUG: Log first product to check image field
-        if (recommendations.length > 0) {
-          routeLogger.info({
-            productSample: {
-              title: recommendations[0].title,
-              image: recommendations[0].image,
-              hasImage: !!recommendations[0].image
-            }
-          }, '🐛 DEBUG: First recommendation product data');
-        }
-
-        // Try N8N first, but have fallback ready
-        try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
-            userMessage: finalMessage,
-            products,
-            context: enhancedContext
-          });
-
-          // ✅ TRUST THE AI: Use N8N's response and recommendations as-is
-          // The AI knows best what to recommend based on the user's query
-          if (n8nResponse.recommendations && n8nResponse.recommendations.length > 0) {
-            recommendations = n8nResponse.recommendations;
-            routeLogger.info({ count: recommendations.length }, 'Using N8N recommendations');
-          } else if (products.length > 0) {
-            // Only use fallback products if N8N didn't provide any but products are available
-            recommendations = recommendations;
-            routeLogger.info({ count: recommendations.length }, 'Using fallback recommendations');
-          }
-        } catch (error) {
-          routeLogger.warn({ error: (error as Error).message }, 'N8N failed, using fallback');
-          // Use fallback response
-          n8nResponse = {
-            message: responseText,
-            recommendations: recommendations,
-            quickReplies: quickReplies,
-            confidence: 0.8,
-            messageType: "product_recommendation"
-          };
-        }
-      }
-      // ✅ NEW: Handle product intent when NO products found
-      else if (isProductIntent && products.length === 0) {
-        // Get language for localized message
-        const lang: string = (enhancedContext.locale?.toLowerCase().split('-')[0] || 'en');
-
-        // Try N8N to generate a helpful response even without products
-        try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
-            userMessage: finalMessage,
-            products: [], // Empty array - let AI know no products found
-            context: {
-              ...enhancedContext,
-              noProductsFound: true,
-              intentType: "product_search_no_results"
-            } as any
-          });
-
-          recommendations = [];
-          routeLogger.info({ intent: intent.type }, 'N8N handled product search with no results');
-        } catch (error) {
-          // Fallback messages by language
-          const noProductMessages: Record<string, string> = {
-            fr: "Je suis désolé, nous n'avons pas de produits correspondant à votre recherche pour le moment. Puis-je vous aider à trouver autre chose ?",
-            en: "I'm sorry, we don't have any products matching your search at the moment. Can I help you find something else?",
-            es: "Lo siento, no tenemos productos que coincidan con tu búsqueda en este momento. ¿Puedo ayudarte a encontrar algo más?",
-            de: "Es tut mir leid, wir haben derzeit keine Produkte, die Ihrer Suche entsprechen. Kann ich Ihnen helfen, etwas anderes zu finden?",
-            pt: "Desculpe, não temos produtos que correspondam à sua pesquisa no momento. Posso ajudá-lo a encontrar outra coisa?",
-            it: "Mi dispiace, al momento non abbiamo prodotti corrispondenti alla tua ricerca. Posso aiutarti a trovare qualcos'altro?"
-          };
-
-          const quickRepliesLang: Record<string, string[]> = {
-            fr: ["Voir les meilleures ventes", "Nouveautés", "Tous les produits"],
-            en: ["View bestsellers", "New arrivals", "All products"],
-            es: ["Ver más vendidos", "Novedades", "Todos los productos"],
-            de: ["Bestseller ansehen", "Neuankömmlinge", "Alle Produkte"],
-            pt: ["Ver mais vendidos", "Novidades", "Todos os produtos"],
-            it: ["Visualizza i più venduti", "Nuovi arrivi", "Tutti i prodotti"]
-          };
-
-          n8nResponse = {
-            message: noProductMessages[lang] || noProductMessages['en'],
-            recommendations: [],
-            quickReplies: quickRepliesLang[lang] || quickRepliesLang['en'],
-            confidence: 0.6,
-            messageType: "no_products_found"
-          };
-          recommendations = [];
-        }
-      } else {
-        // General chat - use N8N
-        try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
-            userMessage: finalMessage,
-            products: products, // ✅ BYOK FIX: Always send products so AI knows actual inventory
-            context: enhancedContext
-          });
-
-          // ✅ TRUST THE AI: Use N8N's response as-is
-          // The AI knows best how to respond to general chat queries
-          recommendations = n8nResponse.recommendations || [];
-          routeLogger.info({
-            hasRecommendations: recommendations.length > 0,
-            count: recommendations.length
-          }, 'Using N8N response for general chat');
-        } catch (error) {
-          routeLogger.error({ error: (error as Error).message }, 'N8N service failed');
-
-          // Fallback: Simple helpful message without forcing products
-          n8nResponse = {
-            message: "I'm here to help! You can ask me about products, pricing, shipping, or any questions about our store.",
-            recommendations: [],
-            confidence: 0.5,
-            messageType: "general"
-          };
-          recommendations = [];
-        }
-      }
-    }
-
-    const responseTime = Date.now() - startTime;
-
-    // 🐛 DEBUG: Log final recommendations being sent
-    if (recommendations.length > 0) {
-      routeLogger.info({
-        recommendationsSample: recommendations.slice(0, 2).map(r => ({
-          title: r.title,
-          image: r.image,
-          hasImage: !!r.image
-        }))
-      }, '🐛 DEBUG: Final recommendations being sent');
-    }
-
-    routeLogger.info({
-      hasRecommendations: recommendations.length > 0,
-      recommendationCount: recommendations.length,
-      confidence: n8nResponse.confidence,
-      responseTime
-    }, 'Sending response');
-
-    // ========================================
-    // DATABASE PERSISTENCE FOR ANALYTICS
-    // ========================================
-    // Save chat data to database for dashboard analytics
-    // IMPORTANT: This is non-blocking - errors won't break the chatbot
-
-    // Declare variables outside try block so they're accessible in return statement
-    let chatSession: any = undefined;
-
-    try {
-      const sessionId = context.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      routeLogger.info({
-        shop: shopDomain,
-        sessionId,
-        hasContext: !!context,
-        contextKeys: Object.keys(context || {})
-      }, '🔍 DEBUG: Starting database persistence');
-
-      // Step 1: Get or create UserProfile
-      routeLogger.debug({ shop: shopDomain, sessionId }, '🔍 DEBUG: Step 1 - Looking for UserProfile');
-
-      let userProfile = await db.userProfile.findUnique({
-        where: {
-          shop_sessionId: {
-            shop: shopDomain,
-            sessionId: sessionId
-          }
-        }
-      });
-
-      if (!userProfile) {
-        routeLogger.debug({ shop: shopDomain, sessionId }, '🔍 DEBUG: Step 1 - UserProfile not found, creating new one');
-
-        userProfile = await db.userProfile.create({
-          data: {
-            shop: shopDomain,
-            sessionId: sessionId,
-            customerId: context.customerId as string | null || null,
-            preferences: JSON.stringify({}),
-            browsingHistory: JSON.stringify([]),
-            purchaseHistory: JSON.stringify([]),
-            interactions: JSON.stringify([])
-          }
-        });
-        routeLogger.info({
-          sessionId,
-          userProfileId: userProfile.id,
-          shop: shopDomain
-        }, '✅ DEBUG: Step 1 - Created new UserProfile');
-      } else {
-        routeLogger.debug({
-          sessionId,
-          userProfileId: userProfile.id
-        }, '✅ DEBUG: Step 1 - Found existing UserProfile');
-      }
-
-      // Step 2: Get or create ChatSession
-      routeLogger.debug({
-        shop: shopDomain,
-        userProfileId: userProfile.id
-      }, '🔍 DEBUG: Step 2 - Looking for active ChatSession');
-
-      // FIX: Don't reuse sessions that have already been rated (to enable accurate rating counts)
-      chatSession = await db.chatSession.findFirst({
-        where: {
-          shop: shopDomain,
-          userProfileId: userProfile.id,
-          rating: null, // ✅ Only reuse sessions that haven't been rated yet
-          // Find sessions from the last 24 hours (consider them active)
-          lastMessageAt: {
-            gte: new Date(Date.now() - 24 * 60 * 60 * 1000)
-          }
-        },
-        orderBy: {
-          lastMessageAt: 'desc'
-        }
-      });
-
-      // FIX: Track if this is a new session for analytics
-      let isNewSession = false;
-
-      if (!chatSession) {
-        routeLogger.debug({
-          shop: shopDomain,
-          userProfileId: userProfile.id
-        }, '🔍 DEBUG: Step 2 - ChatSession not found, creating new one');
-
-        chatSession = await db.chatSession.create({
-          data: {
-            shop: shopDomain,
-            userProfileId: userProfile.id,
-            context: JSON.stringify({
-              intent: intent.type,
-              sentiment: sentiment,
-              language: detectedLanguage
-            }),
-            lastMessageAt: new Date()
-          }
-        });
-        isNewSession = true; // FIX: Track new session creation
-        routeLogger.info({
-          sessionId,
-          chatSessionId: chatSession.id,
-          userProfileId: userProfile.id
-        }, '✅ DEBUG: Step 2 - Created new ChatSession');
-      } else {
-        routeLogger.debug({
-          chatSessionId: chatSession.id
-        }, '✅ DEBUG: Step 2 - Found existing ChatSession, updating');
-
-        // Update existing session
-        chatSession = await db.chatSession.update({
-          where: { id: chatSession.id },
-          data: {
-            lastMessageAt: new Date(),
-            context: JSON.stringify({
-              intent: intent.type,
-              sentiment: sentiment,
-              language: detectedLanguage
-            })
-          }
-        });
-
-        routeLogger.debug({
-          chatSessionId: chatSession.id
-        }, '✅ DEBUG: Step 2 - Updated existing ChatSession');
-      }
-
-      // Step 3: Save user message
-      routeLogger.debug({
-        chatSessionId: chatSession.id,
-        messageLength: finalMessage.length,
-        intent: intent.type
-      }, '🔍 DEBUG: Step 3 - Saving user message');
-
-      const userMessage = await db.chatMessage.create({
-        data: {
-          sessionId: chatSession.id,
-          role: 'user',
-          content: finalMessage,
-          intent: intent.type,
-          sentiment: sentiment,
-          confidence: null,
-          productsShown: JSON.stringify([]),
-          metadata: JSON.stringify({
-            language: detectedLanguage,
-            timestamp: new Date().toISOString()
-          })
-        }
-      });
-
-      routeLogger.info({
-        chatSessionId: chatSession.id,
-        userMessageId: userMessage.id
-      }, '✅ DEBUG: Step 3 - Saved user message');
-
-      // Step 4: Save assistant message
-      routeLogger.debug({
-        chatSessionId: chatSession.id,
-        responseLength: (n8nResponse.message || "").length,
-        recommendationCount: recommendations.length
-      }, '🔍 DEBUG: Step 4 - Saving assistant message');
-
-      const assistantMessage = await db.chatMessage.create({
-        data: {
-          sessionId: chatSession.id,
-          role: 'assistant',
-          content: n8nResponse.message || "",
-          intent: intent.type,
-          sentiment: 'neutral', // Assistant messages are neutral
-          confidence: n8nResponse.confidence || 0.7,
-          productsShown: JSON.stringify(recommendations.map((p: any) => p.id)),
-          productClicked: null, // Will be updated when user clicks
-          metadata: JSON.stringify({
-            messageType: n8nResponse.messageType || 'general',
-            responseTime: responseTime,
-            hasRecommendations: recommendations.length > 0,
-            recommendationCount: recommendations.length,
-            timestamp: new Date().toISOString()
-          })
-        }
-      });
-
-      routeLogger.info({
-        chatSessionId: chatSession.id,
-        assistantMessageId: assistantMessage.id
-      }, '✅ DEBUG: Step 4 - Saved assistant message');
-
-      routeLogger.info({
-        sessionId,
-        chatSessionId: chatSession.id,
-        userProfileId: userProfile.id
-      }, '✅ Saved chat data to database');
-
-      // FIX: Update ChatAnalytics aggregated data for dashboard
-      await personalizationService.updateAnalytics(shopDomain, {
-        intent: intent.type,
-        sentiment: sentiment,
-        responseTime: responseTime,
-        confidence: n8nResponse.confidence || 0.7,
-        workflowType: 'default', // Widget always uses default workflow
-        isNewSession: isNewSession,
-      });
-
-      routeLogger.debug({
-        isNewSession,
-        intent: intent.type,
-        sentiment: sentiment,
-      }, '✅ Updated ChatAnalytics for dashboard');
-
-    } catch (dbError) {
-      // Log error but don't break the chatbot
-      routeLogger.error({
-        error: dbError instanceof Error ? dbError.message : String(dbError),
-        stack: dbError instanceof Error ? dbError.stack : undefined,
-        errorName: dbError instanceof Error ? dbError.name : 'Unknown',
-        shop: shopDomain,
-        sessionId: context.sessionId,
-        hasN8nResponse: !!n8nResponse,
-        intent: intent.type,
-        sentiment: sentiment
-      }, '❌ CRITICAL: Failed to save chat data to database (non-blocking)');
-
-      // Additional context logging
-      routeLogger.error({
-        dbErrorDetails: {
-          message: dbError instanceof Error ? dbError.message : String(dbError),
-          name: dbError instanceof Error ? dbError.name : 'Unknown',
-          cause: (dbError as any)?.cause || 'No cause specified',
-          code: (dbError as any)?.code || 'No error code'
-        }
-      }, '❌ CRITICAL: Database error details');
-
-      // Continue - chatbot still works even if analytics fails
-    }
-
-    // ✅ IMPROVED: Enhanced response with all fields
-    return json({
-      // Main response (backward compatible)
-      response: n8nResponse.message,
-      message: n8nResponse.message,
-
-      // Rich response fields
-      messageType: n8nResponse.messageType || (intent.type === "PRODUCT_SEARCH" ? "product_recommendation" : "general"),
-      recommendations: recommendations,
-      quickReplies: n8nResponse.quickReplies || [],
-      suggestedActions: n8nResponse.suggestedActions || [],
-
-      // Metadata
-      confidence: n8nResponse.confidence || 0.7,
-      sentiment: sentiment,
-      requiresHumanEscalation: n8nResponse.requiresHumanEscalation || false,
-
-      // Session info
-      timestamp: new Date().toISOString(),
-      sessionId: context.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      chatSessionId: chatSession?.id || context.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, // ✅ FIX: Always return chatSessionId with fallback to prevent popup issues
-
-      // Analytics
-      analytics: {
-        intentDetected: intent.type,
-        subIntent: intent.type === "PRODUCT_SEARCH" ? (intent as any).query : undefined,
-        sentiment: sentiment,
-        confidence: n8nResponse.confidence || 0.7,
-        productsShown: recommendations.length,
-        responseTime: responseTime,
-        isSupportIntent: isSupportIntent,
-        isProductIntent: !isSupportIntent,
-      },
-
-      // Legacy metadata (for backward compatibility)
-      metadata: {
-        intent: intent.type,
-        sentiment: sentiment,
-        responseTime: responseTime,
-      },
+      clientIp: getRequestIdentifier(request),
+      onToken,
+    });
 
-      success: true,
-    }, {
+    return json(result.body, {
+      status: result.status,
       headers: mergeSecurityHeaders(
         getSecureCorsHeaders(request),
         getAPISecurityHeaders()
@@ -1589,4 +281,4 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       )
     });
   }
-};
\ No newline at end of file
+}
\ No newline at end of file
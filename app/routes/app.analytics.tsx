@@ -29,6 +29,7 @@ import {
 import { authenticate } from "../shopify.server";
 import { requireBilling } from "../lib/billing.server";
 import { analyticsService, AnalyticsService } from "../services/analytics.service";
+import { listCustomIntents } from "../services/custom-intent.service.server";
 import { useTranslation } from "react-i18next";
 
 export const handle = {
@@ -65,17 +66,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       });
 
     // Fetch all analytics data
-    const [overview, intents, sentiments, workflowUsage, topProducts, topQuestions, trends, engagement, activeUsers] =
+    const [overview, intents, sentiments, workflowUsage, recommendationAccuracy, responseCache, leads, topProducts, topQuestions, trends, engagement, activeUsers, customIntents] =
       await Promise.all([
         analyticsService.getOverview(session.shop, period),
         analyticsService.getIntentDistribution(session.shop, period),
         analyticsService.getSentimentBreakdown(session.shop, period),
         analyticsService.getWorkflowUsage(session.shop, period),
+        analyticsService.getRecommendationAccuracy(session.shop, period),
+        analyticsService.getResponseCacheStats(session.shop, period),
+        analyticsService.getLeadStats(session.shop, period),
         analyticsService.getTopProducts(session.shop, period, 10),
         analyticsService.getTopQuestions(session.shop, period, 10),
         analyticsService.getDailyTrends(session.shop, period),
         analyticsService.getUserEngagement(session.shop, period),
         analyticsService.getActiveUsers(session.shop, period),
+        listCustomIntents(session.shop),
       ]);
 
     // Log the results for debugging
@@ -97,11 +102,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       intents,
       sentiments,
       workflowUsage,
+      recommendationAccuracy,
+      responseCache,
+      leads,
       topProducts,
       topQuestions,
       trends,
       engagement,
       activeUsers,
+      // Labels for the merchant's own intents ("CUSTOM:<key>" rows)
+      customIntentNames: Object.fromEntries(customIntents.map((intent) => [intent.key, intent.name])) as Record<string, string>,
       periodPreset,
       period: {
         startDate: period.startDate.toISOString(),
@@ -130,6 +140,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       intents: [],
       sentiments: [],
       workflowUsage: [],
+      recommendationAccuracy: null,
+      responseCache: null,
+      leads: null,
       topProducts: [],
       topQuestions: [],
       trends: [],
@@ -140,6 +153,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         avgSessionDuration: 0,
       },
       activeUsers: 0,
+      customIntentNames: {} as Record<string, string>,
       periodPreset: "week",
       period: {
         startDate: new Date().toISOString(),
@@ -187,11 +201,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   return json({ success: true });
 };
 
+// Intents share their labels with the intent routing editor on the settings page
+function intentLabelKey(intent: string): string {
+  return `settings.intent${intent.split("_").map((part) => part.charAt(0) + part.slice(1).toLowerCase()).join("")}`;
+}
+
 export default function AnalyticsPage() {
   const data = useLoaderData<typeof loader>();
   const submit = useSubmit();
   const navigation = useNavigation();
   const { t } = useTranslation();
+  const intentLabel = (intent?: string | null) => {
+    if (intent?.startsWith("CUSTOM:")) {
+      const key = intent.slice("CUSTOM:".length);
+      return data.customIntentNames[key] ?? key.replace(/_/g, " ");
+    }
+    return intent ? t(intentLabelKey(intent), { defaultValue: intent.replace(/_/g, " ") }) : "Unknown";
+  };
   const revalidator = useRevalidator();
 
   const [selectedPeriod, setSelectedPeriod] = useState(data.periodPreset);
@@ -499,7 +525,7 @@ export default function AnalyticsPage() {
                 <BlockStack gap="200" key={index}>
                   <InlineStack align="space-between" blockAlign="center">
                     <Text variant="bodyMd" as="p" fontWeight="medium">
-                      {intent.intent?.replace(/_/g, " ") ?? "Unknown"}
+                      {intentLabel(intent.intent)}
                     </Text>
                     <InlineStack gap="300" blockAlign="center">
                       <Text variant="bodySm" as="p" tone="subdued">
@@ -548,7 +574,7 @@ export default function AnalyticsPage() {
                           </Text>
                           {item.intent && (
                             <Text variant="bodySm" as="p" tone="subdued">
-                              Intent: {item.intent.replace(/_/g, " ")}
+                              Intent: {intentLabel(item.intent)}
                             </Text>
                           )}
                         </BlockStack>
@@ -660,6 +686,156 @@ export default function AnalyticsPage() {
           </BlockStack>
         </Card>
 
+        {/* Response Cache */}
+        {data.responseCache && data.responseCache.hits + data.responseCache.misses > 0 && (
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                Response Cache
+              </Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                Repeated questions (shipping, returns, bestsellers...) answered instantly without calling the AI workflow.
+              </Text>
+
+              <InlineGrid columns={2} gap="400">
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Hit rate
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {data.responseCache.hitRate}%
+                    </Text>
+                  </BlockStack>
+                </Box>
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Answered from cache
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.responseCache.hits)}
+                    </Text>
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      of {formatNumber(data.responseCache.hits + data.responseCache.misses)} cacheable messages
+                    </Text>
+                  </BlockStack>
+                </Box>
+              </InlineGrid>
+            </BlockStack>
+          </Card>
+        )}
+
+        {/* Leads */}
+        {data.leads && data.leads.captured > 0 && (
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                Leads
+              </Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                Emails shoppers left in the chat, synced to your Shopify customers.
+              </Text>
+
+              <InlineGrid columns={3} gap="400">
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Emails captured
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.leads.captured)}
+                    </Text>
+                  </BlockStack>
+                </Box>
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Subscribed to marketing
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.leads.subscribed)}
+                    </Text>
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      {data.leads.consentRate}% gave consent
+                    </Text>
+                  </BlockStack>
+                </Box>
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Synced to Shopify
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.leads.synced)}
+                    </Text>
+                    {data.leads.failed > 0 && (
+                      <Text variant="bodySm" as="p" tone="critical">
+                        {formatNumber(data.leads.failed)} failed (retry from the Leads page)
+                      </Text>
+                    )}
+                  </BlockStack>
+                </Box>
+              </InlineGrid>
+            </BlockStack>
+          </Card>
+        )}
+
+        {/* Recommendation Accuracy */}
+        {data.recommendationAccuracy && data.recommendationAccuracy.checked > 0 && (
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                Recommendation Accuracy
+              </Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                Product cards from your workflow are checked against your catalog before they reach shoppers.
+              </Text>
+
+              <InlineGrid columns={3} gap="400">
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Real products
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {data.recommendationAccuracy.accuracyRate}%
+                    </Text>
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      {formatNumber(data.recommendationAccuracy.checked)} recommendations checked
+                    </Text>
+                  </BlockStack>
+                </Box>
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Unknown products removed
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.recommendationAccuracy.dropped)}
+                    </Text>
+                  </BlockStack>
+                </Box>
+                <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                  <BlockStack gap="300">
+                    <Text variant="headingSm" as="h3" tone="subdued">
+                      Details corrected
+                    </Text>
+                    <Text variant="heading2xl" as="h4">
+                      {formatNumber(data.recommendationAccuracy.correctedFields)}
+                    </Text>
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      {data.recommendationAccuracy.fields
+                        .map((field: { field: string; count: number }) => `${field.field}: ${field.count}`)
+                        .join(', ') || '—'}
+                    </Text>
+                  </BlockStack>
+                </Box>
+              </InlineGrid>
+            </BlockStack>
+          </Card>
+        )}
+
         {/* Top Products */}
         <Card>
           <BlockStack gap="400">
@@ -789,7 +965,7 @@ export default function AnalyticsPage() {
           )}
 
           {data.intents && data.intents.length > 0 &&
-            data.intents[0]?.intent === "OTHER" &&
+            data.intents[0]?.intent === "GENERAL_CHAT" &&
             (data.intents[0]?.percentage ?? 0) > 30 && (
               <Banner tone="warning">
                 {t("analytics.insightOtherIntent")}
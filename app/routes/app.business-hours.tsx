@@ -0,0 +1,330 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  Checkbox,
+  TextField,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { getAvailability, validateBusinessHours } from "../lib/business-hours.server";
+import type { BusinessHoursConfig, DaySchedule, Weekday } from "../lib/business-hours.server";
+import {
+  countUnreadOfflineMessages,
+  deleteOfflineMessage,
+  getShopBusinessHours,
+  listOfflineMessages,
+  markAllOfflineMessagesRead,
+  markOfflineMessageRead,
+  saveBusinessHours,
+} from "../services/business-hours.service.server";
+import type { ActionData, BusinessHoursLoaderData, OfflineMessageSummary } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+// Same order as WEEKDAYS in lib/business-hours.server (not importable in the browser bundle)
+const DAYS: Weekday[] = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const STATUS_LABEL_KEYS = {
+  always_open: "businessHours.statusAlways",
+  open: "businessHours.statusOpen",
+  closed: "businessHours.statusClosed",
+  holiday: "businessHours.statusHoliday",
+} as const;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const [hours, messages, unreadCount] = await Promise.all([
+    getShopBusinessHours(session.shop),
+    listOfflineMessages(session.shop),
+    countUnreadOfflineMessages(session.shop)
+  ]);
+
+  const loaderData: BusinessHoursLoaderData = {
+    hours,
+    availability: getAvailability(hours),
+    messages: messages.map((message) => ({
+      id: message.id,
+      chatSessionId: message.chatSessionId,
+      name: message.name,
+      email: message.email,
+      question: message.question,
+      readAt: message.readAt ? message.readAt.toISOString() : null,
+      createdAt: message.createdAt.toISOString()
+    })),
+    unreadCount
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const messageId = String(formData.get("id") || "");
+
+  try {
+    if (intent === "saveHours") {
+      const { hours, errors } = validateBusinessHours(formData.get("businessHours"));
+      if (errors.length > 0) {
+        return json<ActionData>({
+          success: false,
+          message: `Invalid business hours: ${errors.join("; ")}`
+        }, { status: 400 });
+      }
+      await saveBusinessHours(session.shop, hours);
+      return json<ActionData>({ success: true, message: "Business hours saved" });
+    }
+
+    if (intent === "markAllRead") {
+      const count = await markAllOfflineMessagesRead(session.shop);
+      return json<ActionData>({ success: true, message: `${count} messages marked as read` });
+    }
+
+    let found: boolean | null = null;
+    if (intent === "markRead" || intent === "markUnread") {
+      found = await markOfflineMessageRead(session.shop, messageId, intent === "markRead");
+    } else if (intent === "delete") {
+      found = await deleteOfflineMessage(session.shop, messageId);
+    }
+
+    if (found !== null) {
+      return json<ActionData>(
+        found ? { success: true } : { success: false, message: "Message not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+  } catch (error) {
+    logger.error(error, `Business hours action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+function OfflineMessageRow({ message }: { message: OfflineMessageSummary }) {
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack align="space-between" blockAlign="center">
+        <InlineStack gap="200" blockAlign="center">
+          {!message.readAt && <Badge tone="attention">{t("businessHours.new")}</Badge>}
+          <Text as="span" variant="bodyMd" fontWeight="semibold">
+            {message.name || t("businessHours.noName")}
+          </Text>
+          <a href={`mailto:${message.email}`}>{message.email}</a>
+        </InlineStack>
+        <Text as="span" variant="bodySm" tone="subdued">
+          {new Date(message.createdAt).toLocaleString()}
+        </Text>
+      </InlineStack>
+      <Text as="p" variant="bodyMd">
+        <span style={{ whiteSpace: "pre-line" }}>{message.question}</span>
+      </Text>
+      <InlineStack gap="200">
+        <Button
+          variant="plain"
+          onClick={() => submit({ _action: message.readAt ? "markUnread" : "markRead", id: message.id }, { method: "post" })}
+        >
+          {message.readAt ? t("businessHours.markUnread") : t("businessHours.markRead")}
+        </Button>
+        <Button
+          variant="plain"
+          tone="critical"
+          onClick={() => submit({ _action: "delete", id: message.id }, { method: "post" })}
+        >
+          {t("businessHours.delete")}
+        </Button>
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
+export default function BusinessHoursPage() {
+  const { hours, availability, messages, unreadCount } = useLoaderData<BusinessHoursLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [draft, setDraft] = useState<BusinessHoursConfig>(hours);
+  const [holidaysText, setHolidaysText] = useState(hours.holidays.join("\n"));
+
+  const saving = navigation.state === "submitting" && navigation.formData?.get("_action") === "saveHours";
+
+  const updateDay = (day: Weekday, changes: Partial<DaySchedule>) => {
+    setDraft({ ...draft, schedule: { ...draft.schedule, [day]: { ...draft.schedule[day], ...changes } } });
+  };
+
+  const saveHours = () => {
+    const holidays = holidaysText.split("\n").map((line) => line.trim()).filter(Boolean);
+    submit(
+      { _action: "saveHours", businessHours: JSON.stringify({ ...draft, holidays }) },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <Page title={t("businessHours.title")} subtitle={t("businessHours.subtitle")}>
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h2" variant="headingMd">{t("businessHours.offlineTitle")}</Text>
+                  {unreadCount > 0 && (
+                    <Badge tone="attention">{t("businessHours.unread", { count: unreadCount })}</Badge>
+                  )}
+                </InlineStack>
+                <Button
+                  onClick={() => submit({ _action: "markAllRead" }, { method: "post" })}
+                  disabled={unreadCount === 0}
+                >
+                  {t("businessHours.markAllRead")}
+                </Button>
+              </InlineStack>
+
+              {messages.length === 0 ? (
+                <Text as="p" variant="bodySm" tone="subdued">{t("businessHours.noMessages")}</Text>
+              ) : (
+                <BlockStack gap="300">
+                  {messages.map((message, index) => (
+                    <BlockStack key={message.id} gap="300">
+                      {index > 0 && <Divider />}
+                      <OfflineMessageRow message={message} />
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">{t("businessHours.hoursTitle")}</Text>
+                <Badge tone={availability.open ? "success" : "warning"}>
+                  {t(STATUS_LABEL_KEYS[availability.status])}
+                </Badge>
+              </InlineStack>
+              <Text as="p" variant="bodySm" tone="subdued">{t("businessHours.hoursDescription")}</Text>
+
+              <Checkbox
+                label={t("businessHours.enabled")}
+                helpText={t("businessHours.enabledHelp")}
+                checked={draft.enabled}
+                onChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+
+              <TextField
+                label={t("businessHours.timezone")}
+                helpText={t("businessHours.timezoneHelp")}
+                value={draft.timezone}
+                onChange={(timezone) => setDraft({ ...draft, timezone })}
+                autoComplete="off"
+                connectedRight={
+                  <Button
+                    onClick={() => setDraft({ ...draft, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+                  >
+                    {t("businessHours.useMyTimezone")}
+                  </Button>
+                }
+              />
+
+              <BlockStack gap="200">
+                {DAYS.map((day) => (
+                  <Box key={day} paddingBlock="100">
+                    <InlineStack gap="400" blockAlign="center" wrap={false}>
+                      <Box minWidth="110px">
+                        <Text as="span" variant="bodyMd" fontWeight="semibold">{t(`businessHours.${day}`)}</Text>
+                      </Box>
+                      <Checkbox
+                        label={t("businessHours.closed")}
+                        checked={draft.schedule[day].closed}
+                        onChange={(closed) => updateDay(day, { closed })}
+                      />
+                      <TextField
+                        label={t("businessHours.opens")}
+                        labelHidden
+                        type="time"
+                        value={draft.schedule[day].open}
+                        onChange={(open) => updateDay(day, { open })}
+                        disabled={draft.schedule[day].closed}
+                        autoComplete="off"
+                      />
+                      <Text as="span" variant="bodySm" tone="subdued">–</Text>
+                      <TextField
+                        label={t("businessHours.closes")}
+                        labelHidden
+                        type="time"
+                        value={draft.schedule[day].close}
+                        onChange={(close) => updateDay(day, { close })}
+                        disabled={draft.schedule[day].closed}
+                        autoComplete="off"
+                      />
+                    </InlineStack>
+                  </Box>
+                ))}
+              </BlockStack>
+
+              <TextField
+                label={t("businessHours.holidays")}
+                helpText={t("businessHours.holidaysHelp")}
+                value={holidaysText}
+                onChange={setHolidaysText}
+                multiline={3}
+                placeholder="2026-12-25"
+                autoComplete="off"
+              />
+
+              <InlineStack align="end">
+                <Button variant="primary" onClick={saveHours} loading={saving}>
+                  {t("businessHours.save")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
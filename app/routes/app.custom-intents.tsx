@@ -0,0 +1,373 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  Select,
+  TextField,
+  Checkbox,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { CUSTOM_INTENTS } from "../config/limits";
+import {
+  createCustomIntent,
+  deleteCustomIntent,
+  listCustomIntents,
+  parseLines,
+  parseSuggestedActionLines,
+  setCustomIntentEnabled,
+  toCustomIntentConfig,
+  updateCustomIntent,
+  validateCustomIntent,
+  type CustomIntentInput,
+} from "../services/custom-intent.service.server";
+import type { CustomIntentPriority } from "../services/intent-classifier.service.server";
+import type { ActionData, CustomIntentSummary, CustomIntentsLoaderData } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const rows = await listCustomIntents(session.shop);
+
+  const loaderData: CustomIntentsLoaderData = {
+    intents: rows.map((row) => ({
+      ...toCustomIntentConfig(row),
+      enabled: row.enabled,
+      updatedAt: row.updatedAt.toISOString()
+    })),
+    maxIntents: CUSTOM_INTENTS.MAX_PER_SHOP,
+    maxPhrases: CUSTOM_INTENTS.MAX_PHRASES,
+    maxResponseChars: CUSTOM_INTENTS.MAX_RESPONSE_CHARS,
+    maxQuickReplies: CUSTOM_INTENTS.MAX_QUICK_REPLIES,
+    maxSuggestedActions: CUSTOM_INTENTS.MAX_SUGGESTED_ACTIONS
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const intentId = String(formData.get("id") || "");
+
+  try {
+    if (intent === "save") {
+      const input: CustomIntentInput = {
+        name: String(formData.get("name") || ""),
+        phrases: parseLines(String(formData.get("phrases") || "")),
+        responseText: String(formData.get("responseText") || ""),
+        quickReplies: parseLines(String(formData.get("quickReplies") || "")),
+        suggestedActions: parseSuggestedActionLines(String(formData.get("suggestedActions") || "")),
+        productQuery: String(formData.get("productQuery") || ""),
+        priority: String(formData.get("priority") || "") as CustomIntentPriority,
+        enabled: formData.get("enabled") !== "false"
+      };
+
+      const errors = validateCustomIntent(input);
+      if (errors.length > 0) {
+        return json<ActionData>({ success: false, message: errors.join(". ") }, { status: 400 });
+      }
+
+      if (intentId) {
+        const updated = await updateCustomIntent(session.shop, intentId, input);
+        if (!updated) {
+          return json<ActionData>({ success: false, message: "Intent not found" }, { status: 404 });
+        }
+        return json<ActionData>({ success: true, message: "Intent updated" });
+      }
+
+      await createCustomIntent(session.shop, input);
+      return json<ActionData>({ success: true, message: "Intent added" });
+    }
+
+    if (intent === "toggle") {
+      const found = await setCustomIntentEnabled(session.shop, intentId, formData.get("enabled") === "true");
+      return json<ActionData>(
+        found ? { success: true, message: "Intent updated" } : { success: false, message: "Intent not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+
+    if (intent === "delete") {
+      const found = await deleteCustomIntent(session.shop, intentId);
+      return json<ActionData>(
+        found ? { success: true, message: "Intent deleted" } : { success: false, message: "Intent not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+  } catch (error) {
+    logger.error(error, `Custom intent action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Custom intent update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+// Multi-value fields are edited as one value per line
+interface IntentDraft {
+  id?: string;
+  key?: string;
+  name: string;
+  phrases: string;
+  responseText: string;
+  quickReplies: string;
+  suggestedActions: string;
+  productQuery: string;
+  priority: CustomIntentPriority;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: IntentDraft = {
+  name: "",
+  phrases: "",
+  responseText: "",
+  quickReplies: "",
+  suggestedActions: "",
+  productQuery: "",
+  priority: "normal",
+  enabled: true
+};
+
+const PRIORITY_BADGES = {
+  high: { tone: "attention", label: "customIntents.priorityHigh" },
+  normal: { tone: undefined, label: "customIntents.priorityNormal" },
+  low: { tone: undefined, label: "customIntents.priorityLow" },
+} as const;
+
+function toDraft(intent: CustomIntentSummary): IntentDraft {
+  return {
+    id: intent.id,
+    key: intent.key,
+    name: intent.name,
+    phrases: intent.phrases.join("\n"),
+    responseText: intent.responseText,
+    quickReplies: intent.quickReplies.join("\n"),
+    suggestedActions: intent.suggestedActions
+      .map((action) => (action.data ? `${action.label} | ${action.data}` : action.label))
+      .join("\n"),
+    productQuery: intent.productQuery || "",
+    priority: intent.priority,
+    enabled: intent.enabled
+  };
+}
+
+export default function CustomIntentsPage() {
+  const { intents, maxIntents, maxPhrases, maxResponseChars, maxQuickReplies, maxSuggestedActions } =
+    useLoaderData<CustomIntentsLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [draft, setDraft] = useState<IntentDraft | null>(null);
+
+  const saveDraft = () => {
+    if (!draft) return;
+    submit(
+      {
+        _action: "save",
+        id: draft.id || "",
+        name: draft.name,
+        phrases: draft.phrases,
+        responseText: draft.responseText,
+        quickReplies: draft.quickReplies,
+        suggestedActions: draft.suggestedActions,
+        productQuery: draft.productQuery,
+        priority: draft.priority,
+        enabled: String(draft.enabled)
+      },
+      { method: "post" }
+    );
+    setDraft(null);
+  };
+
+  return (
+    <Page
+      title={t("customIntents.title")}
+      subtitle={t("customIntents.subtitle")}
+      primaryAction={{
+        content: t("customIntents.addIntent"),
+        onAction: () => setDraft(EMPTY_DRAFT),
+        disabled: intents.length >= maxIntents
+      }}
+    >
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {draft && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text variant="headingMd" as="h2">
+                  {draft.id ? t("customIntents.editIntent") : t("customIntents.addIntent")}
+                </Text>
+                <TextField
+                  label={t("customIntents.name")}
+                  helpText={draft.key ? t("customIntents.keyHelp", { key: draft.key }) : t("customIntents.nameHelp")}
+                  value={draft.name}
+                  onChange={(value) => setDraft({ ...draft, name: value })}
+                  maxLength={80}
+                  autoComplete="off"
+                />
+                <TextField
+                  label={t("customIntents.phrases")}
+                  helpText={t("customIntents.phrasesHelp", { max: maxPhrases })}
+                  value={draft.phrases}
+                  onChange={(value) => setDraft({ ...draft, phrases: value })}
+                  multiline={5}
+                  autoComplete="off"
+                />
+                <TextField
+                  label={t("customIntents.response")}
+                  value={draft.responseText}
+                  onChange={(value) => setDraft({ ...draft, responseText: value })}
+                  multiline={4}
+                  maxLength={maxResponseChars}
+                  showCharacterCount
+                  autoComplete="off"
+                />
+                <TextField
+                  label={t("customIntents.quickReplies")}
+                  helpText={t("customIntents.quickRepliesHelp", { max: maxQuickReplies })}
+                  value={draft.quickReplies}
+                  onChange={(value) => setDraft({ ...draft, quickReplies: value })}
+                  multiline={3}
+                  autoComplete="off"
+                />
+                <TextField
+                  label={t("customIntents.actions")}
+                  helpText={t("customIntents.actionsHelp", { max: maxSuggestedActions })}
+                  value={draft.suggestedActions}
+                  onChange={(value) => setDraft({ ...draft, suggestedActions: value })}
+                  multiline={3}
+                  autoComplete="off"
+                />
+                <TextField
+                  label={t("customIntents.productQuery")}
+                  helpText={t("customIntents.productQueryHelp")}
+                  value={draft.productQuery}
+                  onChange={(value) => setDraft({ ...draft, productQuery: value })}
+                  placeholder="tag:gift"
+                  autoComplete="off"
+                />
+                <Select
+                  label={t("customIntents.priority")}
+                  helpText={t("customIntents.priorityHelp")}
+                  value={draft.priority}
+                  options={[
+                    { label: t("customIntents.priorityHigh"), value: "high" },
+                    { label: t("customIntents.priorityNormal"), value: "normal" },
+                    { label: t("customIntents.priorityLow"), value: "low" }
+                  ]}
+                  onChange={(value) => setDraft({ ...draft, priority: value as CustomIntentPriority })}
+                />
+                <Checkbox
+                  label={t("customIntents.enabled")}
+                  checked={draft.enabled}
+                  onChange={(checked) => setDraft({ ...draft, enabled: checked })}
+                />
+                <InlineStack gap="200">
+                  <Button
+                    variant="primary"
+                    disabled={!draft.name.trim() || !draft.phrases.trim() || !draft.responseText.trim()}
+                    onClick={saveDraft}
+                  >
+                    {t("common.save")}
+                  </Button>
+                  <Button onClick={() => setDraft(null)}>{t("common.cancel")}</Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">{t("customIntents.intents")}</Text>
+                <Text variant="bodySm" as="span" tone="subdued">
+                  {t("customIntents.intentCount", { count: intents.length, max: maxIntents })}
+                </Text>
+              </InlineStack>
+              {intents.length === 0 && (
+                <Text variant="bodySm" as="p" tone="subdued">{t("customIntents.empty")}</Text>
+              )}
+              {intents.map((intent) => (
+                <Box key={intent.id} padding="200" borderRadius="200" background="bg-surface-secondary">
+                  <InlineStack align="space-between" blockAlign="start" wrap={false} gap="300">
+                    <BlockStack gap="100">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Badge tone={PRIORITY_BADGES[intent.priority].tone}>
+                          {t(PRIORITY_BADGES[intent.priority].label)}
+                        </Badge>
+                        {!intent.enabled && <Badge tone="warning">{t("customIntents.disabled")}</Badge>}
+                        <Text as="span" variant="bodyMd" fontWeight="semibold">{intent.name}</Text>
+                      </InlineStack>
+                      <Text as="p" variant="bodySm" tone="subdued" truncate>
+                        {intent.phrases.join(" · ")}
+                      </Text>
+                      <Text as="p" variant="bodySm" truncate>
+                        {intent.responseText}
+                      </Text>
+                    </BlockStack>
+                    <InlineStack gap="200" wrap={false}>
+                      <Button variant="plain" onClick={() => setDraft(toDraft(intent))}>{t("common.edit")}</Button>
+                      <Button
+                        variant="plain"
+                        onClick={() => submit(
+                          { _action: "toggle", id: intent.id, enabled: String(!intent.enabled) },
+                          { method: "post" }
+                        )}
+                      >
+                        {intent.enabled ? t("customIntents.disable") : t("customIntents.enable")}
+                      </Button>
+                      <Button
+                        variant="plain"
+                        tone="critical"
+                        onClick={() => submit({ _action: "delete", id: intent.id }, { method: "post" })}
+                      >
+                        {t("common.delete")}
+                      </Button>
+                    </InlineStack>
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
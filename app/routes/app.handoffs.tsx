@@ -0,0 +1,367 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useSearchParams, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  Tabs,
+  TextField,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import {
+  HANDOFF_STATUSES,
+  assignHandoff,
+  getHandoffCounts,
+  isHandoffStatus,
+  listHandoffRequests,
+  parseHandoffTranscript,
+  reopenHandoff,
+  resolveHandoff,
+  type HandoffReason,
+} from "../services/handoff.service.server";
+import {
+  getTranscriptEmail,
+  listTranscriptDeliveries,
+  saveTranscriptEmail,
+  type TranscriptTrigger,
+} from "../services/transcript.service.server";
+import { resolveMailTransport } from "../services/mail/index.server";
+import { transcriptForwardingSchema, validateData } from "../lib/validation.server";
+import type { ActionData, HandoffSummary, HandoffsLoaderData } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const statusParam = new URL(request.url).searchParams.get("status");
+  const status = isHandoffStatus(statusParam) ? statusParam : "waiting";
+
+  const [rows, counts, transcriptEmail] = await Promise.all([
+    listHandoffRequests(session.shop, status),
+    getHandoffCounts(session.shop),
+    getTranscriptEmail(session.shop)
+  ]);
+  const deliveries = await listTranscriptDeliveries(session.shop, rows.map((row) => row.chatSessionId));
+
+  const loaderData: HandoffsLoaderData = {
+    status,
+    handoffs: rows.map((row) => ({
+      id: row.id,
+      chatSessionId: row.chatSessionId,
+      status,
+      reason: row.reason as HandoffReason,
+      note: row.note,
+      transcript: parseHandoffTranscript(row.transcript),
+      assignedTo: row.assignedTo,
+      assignedAt: row.assignedAt ? row.assignedAt.toISOString() : null,
+      resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+      createdAt: row.createdAt.toISOString(),
+      deliveries: (deliveries.get(row.chatSessionId) || []).map((delivery) => ({
+        id: delivery.id,
+        recipient: delivery.recipient,
+        trigger: delivery.trigger as TranscriptTrigger,
+        status: delivery.status === "sent" ? "sent" : "failed",
+        createdAt: delivery.createdAt.toISOString()
+      }))
+    })),
+    counts,
+    transcriptEmail,
+    mailEnabled: resolveMailTransport() !== null
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const handoffId = String(formData.get("id") || "");
+
+  try {
+    if (intent === "saveTranscriptEmail") {
+      const validation = validateData(transcriptForwardingSchema, {
+        transcriptEmail: String(formData.get("transcriptEmail") || "").trim()
+      });
+      if (!validation.success) {
+        return json<ActionData>({
+          success: false,
+          message: validation.errors.errors[0]?.message || "Invalid email address"
+        }, { status: 400 });
+      }
+      await saveTranscriptEmail(session.shop, validation.data.transcriptEmail || null);
+      return json<ActionData>({
+        success: true,
+        message: validation.data.transcriptEmail ? "Escalations will be emailed" : "Escalation emails turned off"
+      });
+    }
+
+    let found: boolean | null = null;
+    let message = "";
+
+    if (intent === "assign") {
+      found = await assignHandoff(session.shop, handoffId, String(formData.get("assignee") || ""));
+      message = "Conversation assigned";
+    } else if (intent === "resolve") {
+      found = await resolveHandoff(session.shop, handoffId);
+      message = "Conversation resolved";
+    } else if (intent === "reopen") {
+      found = await reopenHandoff(session.shop, handoffId);
+      message = "Conversation moved back to the queue";
+    }
+
+    if (found !== null) {
+      return json<ActionData>(
+        found ? { success: true, message } : { success: false, message: "Conversation not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+  } catch (error) {
+    logger.error(error, `Handoff action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Handoff update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+const REASON_BADGES = {
+  explicit_request: { tone: "info", label: "handoffs.reasonExplicit" },
+  negative_sentiment: { tone: "critical", label: "handoffs.reasonNegative" },
+  low_confidence: { tone: "warning", label: "handoffs.reasonLowConfidence" },
+} as const;
+
+const TRIGGER_LABEL_KEYS = {
+  shopper_request: "handoffs.emailedShopper",
+  escalation: "handoffs.emailedMerchant",
+} as const;
+
+const STATUS_LABEL_KEYS = {
+  waiting: "handoffs.statusWaiting",
+  assigned: "handoffs.statusAssigned",
+  resolved: "handoffs.statusResolved",
+} as const;
+
+function HandoffCard({ handoff, assignee }: { handoff: HandoffSummary; assignee: string }) {
+  const submit = useSubmit();
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+
+  const lastShopperMessage = [...handoff.transcript].reverse().find((message) => message.role === "user");
+  const reasonBadge = REASON_BADGES[handoff.reason] ?? REASON_BADGES.explicit_request;
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <InlineStack gap="200" blockAlign="center">
+            <Badge tone={reasonBadge.tone}>{t(reasonBadge.label)}</Badge>
+            {handoff.assignedTo && (
+              <Badge>{t("handoffs.assignedTo", { name: handoff.assignedTo })}</Badge>
+            )}
+          </InlineStack>
+          <Text as="span" variant="bodySm" tone="subdued">
+            {new Date(handoff.createdAt).toLocaleString()}
+          </Text>
+        </InlineStack>
+
+        {lastShopperMessage && (
+          <Text as="p" variant="bodyMd">“{lastShopperMessage.content}”</Text>
+        )}
+        {handoff.note && (
+          <Text as="p" variant="bodySm" tone="subdued">{t("handoffs.note", { note: handoff.note })}</Text>
+        )}
+
+        {expanded && (
+          <Box padding="200" borderRadius="200" background="bg-surface-secondary">
+            <div style={{ maxHeight: 320, overflowY: "auto" }}>
+              <BlockStack gap="200">
+                {handoff.transcript.map((message, index) => (
+                  <BlockStack key={index} gap="050">
+                    <Text as="span" variant="bodySm" fontWeight="semibold">
+                      {message.role === "user"
+                        ? t("handoffs.shopper")
+                        : message.role === "agent" ? t("inbox.team") : t("handoffs.assistant")}
+                      {" · "}
+                      {new Date(message.timestamp).toLocaleTimeString()}
+                    </Text>
+                    <Text as="p" variant="bodySm">
+                      <span style={{ whiteSpace: "pre-line" }}>{message.content}</span>
+                    </Text>
+                    {message.productsShown.length > 0 && (
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {t("handoffs.productsShown", { count: message.productsShown.length })}
+                      </Text>
+                    )}
+                  </BlockStack>
+                ))}
+              </BlockStack>
+            </div>
+          </Box>
+        )}
+
+        {handoff.deliveries.length > 0 && (
+          <BlockStack gap="050">
+            {handoff.deliveries.map((delivery) => (
+              <InlineStack key={delivery.id} gap="200" blockAlign="center">
+                <Badge tone={delivery.status === "sent" ? "success" : "critical"} size="small">
+                  {delivery.status === "sent" ? t("handoffs.emailSent") : t("handoffs.emailFailed")}
+                </Badge>
+                <Text as="span" variant="bodySm" tone="subdued">
+                  {t(TRIGGER_LABEL_KEYS[delivery.trigger] ?? TRIGGER_LABEL_KEYS.escalation, { email: delivery.recipient })}
+                  {" · "}
+                  {new Date(delivery.createdAt).toLocaleString()}
+                </Text>
+              </InlineStack>
+            ))}
+          </BlockStack>
+        )}
+
+        <InlineStack gap="200">
+          <Button variant="plain" onClick={() => setExpanded(!expanded)}>
+            {expanded
+              ? t("handoffs.hideTranscript")
+              : t("handoffs.showTranscript", { count: handoff.transcript.length })}
+          </Button>
+          {handoff.status !== "resolved" && (
+            <Button
+              onClick={() => submit({ _action: "assign", id: handoff.id, assignee }, { method: "post" })}
+              disabled={!assignee.trim()}
+            >
+              {handoff.status === "assigned" ? t("handoffs.reassign") : t("handoffs.assign")}
+            </Button>
+          )}
+          {handoff.status !== "resolved" ? (
+            <Button
+              variant="primary"
+              onClick={() => submit({ _action: "resolve", id: handoff.id }, { method: "post" })}
+            >
+              {t("handoffs.resolve")}
+            </Button>
+          ) : (
+            <Button onClick={() => submit({ _action: "reopen", id: handoff.id }, { method: "post" })}>
+              {t("handoffs.reopen")}
+            </Button>
+          )}
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
+
+export default function HandoffsPage() {
+  const { status, handoffs, counts, transcriptEmail, mailEnabled } = useLoaderData<HandoffsLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const [, setSearchParams] = useSearchParams();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [assignee, setAssignee] = useState("");
+  const [forwardingEmail, setForwardingEmail] = useState(transcriptEmail || "");
+
+  const tabs = HANDOFF_STATUSES.map((value) => ({
+    id: value,
+    content: `${t(STATUS_LABEL_KEYS[value])} (${counts[value]})`
+  }));
+
+  return (
+    <Page title={t("handoffs.title")} subtitle={t("handoffs.subtitle")}>
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <TextField
+              label={t("handoffs.yourName")}
+              helpText={t("handoffs.yourNameHelp")}
+              value={assignee}
+              onChange={setAssignee}
+              maxLength={80}
+              autoComplete="off"
+            />
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">{t("handoffs.forwardingTitle")}</Text>
+              {!mailEnabled && (
+                <Banner tone="warning">
+                  <p>{t("handoffs.mailDisabled")}</p>
+                </Banner>
+              )}
+              <TextField
+                label={t("handoffs.forwardingEmail")}
+                helpText={t("handoffs.forwardingHelp")}
+                type="email"
+                value={forwardingEmail}
+                onChange={setForwardingEmail}
+                maxLength={254}
+                autoComplete="email"
+                connectedRight={
+                  <Button
+                    onClick={() => submit({ _action: "saveTranscriptEmail", transcriptEmail: forwardingEmail }, { method: "post" })}
+                    disabled={forwardingEmail.trim() === (transcriptEmail || "")}
+                  >
+                    {t("handoffs.saveForwarding")}
+                  </Button>
+                }
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Tabs
+            tabs={tabs}
+            selected={HANDOFF_STATUSES.indexOf(status)}
+            onSelect={(index) => setSearchParams({ status: HANDOFF_STATUSES[index] ?? "waiting" })}
+          />
+        </Layout.Section>
+
+        {handoffs.length === 0 && (
+          <Layout.Section>
+            <Card>
+              <Text as="p" variant="bodySm" tone="subdued">{t("handoffs.empty")}</Text>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {handoffs.map((handoff) => (
+          <Layout.Section key={handoff.id}>
+            <HandoffCard handoff={handoff} assignee={assignee} />
+          </Layout.Section>
+        ))}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,333 @@
+import { useEffect, useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useRevalidator,
+  useSearchParams,
+  useSubmit,
+} from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  TextField,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { AGENT_INBOX } from "../config/limits";
+import {
+  getInboxMessages,
+  listActiveSessions,
+  releaseSession,
+  sendAgentMessage,
+  takeOverSession,
+} from "../services/agent-inbox.service.server";
+import type { ActionData, InboxLoaderData, InboxSessionSummary } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const selectedParam = new URL(request.url).searchParams.get("session");
+  const [sessions, messages] = await Promise.all([
+    listActiveSessions(session.shop),
+    selectedParam ? getInboxMessages(session.shop, selectedParam) : Promise.resolve(null)
+  ]);
+
+  const loaderData: InboxLoaderData = {
+    sessions: sessions.map((row) => ({
+      ...row,
+      lastMessageAt: row.lastMessageAt.toISOString()
+    })),
+    selectedSessionId: messages ? selectedParam : null,
+    messages: messages ?? [],
+    pollIntervalMs: AGENT_INBOX.ADMIN_POLL_MS,
+    maxMessageChars: AGENT_INBOX.MAX_MESSAGE_CHARS
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const chatSessionId = String(formData.get("id") || "");
+  const agentName = String(formData.get("agentName") || "");
+
+  try {
+    if (intent === "takeOver") {
+      const found = await takeOverSession(session.shop, chatSessionId, agentName);
+      return json<ActionData>(
+        found
+          ? { success: true, message: "You joined the conversation. AI replies are paused." }
+          : { success: false, message: "Conversation not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+
+    if (intent === "release") {
+      const found = await releaseSession(session.shop, chatSessionId);
+      return json<ActionData>(
+        found
+          ? { success: true, message: "Conversation handed back to the assistant" }
+          : { success: false, message: "Conversation not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+
+    if (intent === "send") {
+      const sent = await sendAgentMessage(
+        session.shop,
+        chatSessionId,
+        agentName,
+        String(formData.get("message") || "")
+      );
+      return json<ActionData>(
+        sent ? { success: true } : { success: false, message: "Message could not be sent" },
+        { status: sent ? 200 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error(error, `Inbox action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Inbox update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+function SessionRow({
+  session,
+  selected,
+  onSelect,
+}: {
+  session: InboxSessionSummary;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <Box
+      padding="300"
+      borderRadius="200"
+      background={selected ? "bg-surface-selected" : "bg-surface"}
+    >
+      <BlockStack gap="100">
+        <InlineStack align="space-between" blockAlign="center">
+          <InlineStack gap="100">
+            {session.agent ? (
+              <Badge tone="success">{t("inbox.agentActive", { name: session.agent.name || t("inbox.team") })}</Badge>
+            ) : (
+              <Badge>{t("inbox.aiActive")}</Badge>
+            )}
+            {session.handoff && (
+              <Badge tone={session.handoff.status === "waiting" ? "attention" : "info"}>{t("inbox.handoff")}</Badge>
+            )}
+          </InlineStack>
+          <Text as="span" variant="bodySm" tone="subdued">
+            {new Date(session.lastMessageAt).toLocaleTimeString()}
+          </Text>
+        </InlineStack>
+        {session.lastMessage && (
+          <Text as="p" variant="bodySm" truncate>
+            {session.lastMessage.content}
+          </Text>
+        )}
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="span" variant="bodySm" tone="subdued">
+            {t("inbox.messages", { count: session.messageCount })}
+          </Text>
+          <Button variant="plain" onClick={onSelect} disabled={selected}>
+            {t("inbox.open")}
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Box>
+  );
+}
+
+export default function InboxPage() {
+  const { sessions, selectedSessionId, messages, pollIntervalMs, maxMessageChars } = useLoaderData<InboxLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+  const submit = useSubmit();
+  const [, setSearchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  const [agentName, setAgentName] = useState("");
+  const [draft, setDraft] = useState("");
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const selected = sessions.find((session) => session.id === selectedSessionId) ?? null;
+  const sending = navigation.state === "submitting" && navigation.formData?.get("_action") === "send";
+
+  // Live updates: refresh the session list and the open conversation
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible" && revalidator.state === "idle" && navigation.state === "idle") {
+        revalidator.revalidate();
+      }
+    }, pollIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [revalidator, navigation.state, pollIntervalMs]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, selectedSessionId]);
+
+  const sendReply = () => {
+    if (!selectedSessionId || !draft.trim()) return;
+    submit({ _action: "send", id: selectedSessionId, agentName, message: draft }, { method: "post" });
+    setDraft("");
+  };
+
+  const authorLabel = (role: string, name: string | null) => {
+    if (role === "user") return t("inbox.shopper");
+    if (role === "agent") return name || t("inbox.team");
+    return t("inbox.assistant");
+  };
+
+  return (
+    <Page title={t("inbox.title")} subtitle={t("inbox.subtitle")}>
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="300">
+              <TextField
+                label={t("inbox.yourName")}
+                helpText={t("inbox.yourNameHelp")}
+                value={agentName}
+                onChange={setAgentName}
+                maxLength={80}
+                autoComplete="off"
+              />
+              <Text as="h2" variant="headingMd">
+                {t("inbox.sessions", { count: sessions.length })}
+              </Text>
+              {sessions.length === 0 ? (
+                <Text as="p" variant="bodySm" tone="subdued">{t("inbox.empty")}</Text>
+              ) : (
+                <BlockStack gap="200">
+                  {sessions.map((session) => (
+                    <SessionRow
+                      key={session.id}
+                      session={session}
+                      selected={session.id === selectedSessionId}
+                      onSelect={() => setSearchParams({ session: session.id })}
+                    />
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            {!selectedSessionId ? (
+              <Text as="p" variant="bodySm" tone="subdued">{t("inbox.selectSession")}</Text>
+            ) : (
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h2" variant="headingMd">
+                    {selected?.agent
+                      ? t("inbox.agentActive", { name: selected.agent.name || t("inbox.team") })
+                      : t("inbox.aiActive")}
+                  </Text>
+                  {selected?.agent ? (
+                    <Button onClick={() => submit({ _action: "release", id: selectedSessionId }, { method: "post" })}>
+                      {t("inbox.release")}
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="primary"
+                      disabled={!agentName.trim()}
+                      onClick={() => submit({ _action: "takeOver", id: selectedSessionId, agentName }, { method: "post" })}
+                    >
+                      {t("inbox.takeOver")}
+                    </Button>
+                  )}
+                </InlineStack>
+
+                <Box padding="200" borderRadius="200" background="bg-surface-secondary">
+                  <div style={{ maxHeight: 420, overflowY: "auto" }}>
+                    <BlockStack gap="200">
+                      {messages.map((message) => (
+                        <BlockStack key={message.id} gap="050">
+                          <Text as="span" variant="bodySm" fontWeight="semibold">
+                            {authorLabel(message.role, message.agentName)}
+                            {" · "}
+                            {new Date(message.timestamp).toLocaleTimeString()}
+                          </Text>
+                          <Text as="p" variant="bodySm">
+                            <span style={{ whiteSpace: "pre-line" }}>{message.content}</span>
+                          </Text>
+                        </BlockStack>
+                      ))}
+                      <div ref={messagesEndRef} />
+                    </BlockStack>
+                  </div>
+                </Box>
+
+                <TextField
+                  label={t("inbox.replyLabel")}
+                  placeholder={t("inbox.replyPlaceholder")}
+                  helpText={selected?.agent ? undefined : t("inbox.replyHelp")}
+                  value={draft}
+                  onChange={setDraft}
+                  multiline={3}
+                  maxLength={maxMessageChars}
+                  autoComplete="off"
+                />
+                <InlineStack align="end">
+                  <Button
+                    variant="primary"
+                    onClick={sendReply}
+                    loading={sending}
+                    disabled={!draft.trim() || !agentName.trim()}
+                  >
+                    {t("inbox.send")}
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
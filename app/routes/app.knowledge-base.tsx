@@ -0,0 +1,572 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useRevalidator, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  Select,
+  TextField,
+  Checkbox,
+  DropZone,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { KNOWLEDGE_BASE, KNOWLEDGE_SYNC } from "../config/limits";
+import { isEmbeddingServiceAvailable } from "../services/embedding.service";
+import {
+  createKnowledgeEntry,
+  deleteKnowledgeEntry,
+  importKnowledgeEntries,
+  isSyncedKnowledgeSource,
+  listKnowledgeEntries,
+  parseKnowledgeImport,
+  reindexKnowledgeBase,
+  setKnowledgeEntryEnabled,
+  updateKnowledgeEntry,
+  validateKnowledgeEntry,
+  type KnowledgeEntryInput,
+  type KnowledgeEntryType,
+} from "../services/knowledge-base.service.server";
+import {
+  KNOWLEDGE_SYNC_SOURCES,
+  getKnowledgeSync,
+  parseMetafieldSelector,
+  startKnowledgeSync,
+  toKnowledgeSyncSummary,
+  updateKnowledgeSyncSettings,
+  type KnowledgeSyncSource,
+} from "../services/knowledge-sync.service.server";
+import type { ActionData, KnowledgeBaseLoaderData, KnowledgeEntrySummary } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  // Incremental sync of store content when the last one is older than the interval
+  const syncStarted = await startKnowledgeSync(session.shop, admin, { reason: "admin_visit" });
+
+  const entries = await listKnowledgeEntries(session.shop);
+  const sync = toKnowledgeSyncSummary(await getKnowledgeSync(session.shop));
+
+  const loaderData: KnowledgeBaseLoaderData = {
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      type: entry.type as KnowledgeEntryType,
+      title: entry.title,
+      content: entry.content,
+      source: entry.source,
+      synced: isSyncedKnowledgeSource(entry.source),
+      url: entry.url,
+      enabled: entry.enabled,
+      chunkCount: entry._count.chunks,
+      indexedAt: entry.indexedAt ? entry.indexedAt.toISOString() : null,
+      updatedAt: entry.updatedAt.toISOString()
+    })),
+    embeddingsEnabled: isEmbeddingServiceAvailable(),
+    maxEntries: KNOWLEDGE_BASE.MAX_ENTRIES_PER_SHOP,
+    maxEntryChars: KNOWLEDGE_BASE.MAX_ENTRY_CHARS,
+    sync: syncStarted ? { ...sync, status: "running" } : sync,
+    maxMetafields: KNOWLEDGE_SYNC.MAX_METAFIELDS
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const entryId = String(formData.get("id") || "");
+
+  try {
+    if (intent === "save") {
+      const input: KnowledgeEntryInput = {
+        type: String(formData.get("type") || "") as KnowledgeEntryType,
+        title: String(formData.get("title") || ""),
+        content: String(formData.get("content") || ""),
+        enabled: formData.get("enabled") !== "false"
+      };
+
+      const errors = validateKnowledgeEntry(input);
+      if (errors.length > 0) {
+        return json<ActionData>({ success: false, message: errors.join(". ") }, { status: 400 });
+      }
+
+      if (entryId) {
+        const entry = await updateKnowledgeEntry(session.shop, entryId, input);
+        if (!entry) {
+          return json<ActionData>({ success: false, message: "Entry not found" }, { status: 404 });
+        }
+        return json<ActionData>({ success: true, message: "Entry updated" });
+      }
+
+      await createKnowledgeEntry(session.shop, input);
+      return json<ActionData>({ success: true, message: "Entry added" });
+    }
+
+    if (intent === "toggle") {
+      const found = await setKnowledgeEntryEnabled(session.shop, entryId, formData.get("enabled") === "true");
+      return json<ActionData>(
+        found ? { success: true, message: "Entry updated" } : { success: false, message: "Entry not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+
+    if (intent === "delete") {
+      const found = await deleteKnowledgeEntry(session.shop, entryId);
+      return json<ActionData>(
+        found ? { success: true, message: "Entry deleted" } : { success: false, message: "Entry not found" },
+        { status: found ? 200 : 404 }
+      );
+    }
+
+    if (intent === "import") {
+      const { entries, errors } = parseKnowledgeImport(String(formData.get("data") || ""));
+      if (entries.length === 0) {
+        return json<ActionData>({
+          success: false,
+          message: "Nothing to import",
+          details: errors.slice(0, 10).join("\n") || undefined
+        }, { status: 400 });
+      }
+
+      const imported = await importKnowledgeEntries(session.shop, entries);
+      return json<ActionData>({
+        success: true,
+        message: `Imported ${imported} entries${errors.length > 0 ? `, skipped ${errors.length}` : ""}`,
+        details: errors.slice(0, 10).join("\n") || undefined
+      });
+    }
+
+    if (intent === "syncSettings") {
+      const sources = String(formData.get("sources") || "")
+        .split(",")
+        .filter((source): source is KnowledgeSyncSource => KNOWLEDGE_SYNC_SOURCES.includes(source as KnowledgeSyncSource));
+      const metafields = String(formData.get("metafields") || "")
+        .split(/[\n,]/)
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+      const invalid = metafields.filter((value) => !parseMetafieldSelector(value));
+      if (invalid.length > 0) {
+        return json<ActionData>({
+          success: false,
+          message: 'Metafields must look like "product:namespace.key" or "shop:namespace.key"',
+          details: invalid.slice(0, 10).join("\n")
+        }, { status: 400 });
+      }
+      if (metafields.length > KNOWLEDGE_SYNC.MAX_METAFIELDS) {
+        return json<ActionData>({
+          success: false,
+          message: `Select up to ${KNOWLEDGE_SYNC.MAX_METAFIELDS} metafields`
+        }, { status: 400 });
+      }
+
+      await updateKnowledgeSyncSettings(session.shop, { sources, metafields });
+      await startKnowledgeSync(session.shop, admin, { force: true, reason: "sources_changed" });
+      return json<ActionData>({ success: true, message: "Store content settings saved, sync started" });
+    }
+
+    if (intent === "sync") {
+      // Manual runs re-read everything (incremental runs miss metafield-only edits)
+      await startKnowledgeSync(session.shop, admin, { force: true, full: true, reason: "manual" });
+      return json<ActionData>({ success: true, message: "Sync started" });
+    }
+
+    if (intent === "reindex") {
+      const count = await reindexKnowledgeBase(session.shop);
+      return json<ActionData>({ success: true, message: `Reindexed ${count} entries` });
+    }
+  } catch (error) {
+    logger.error(error, `Knowledge base action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Knowledge base update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+interface EntryDraft {
+  id?: string;
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: EntryDraft = { type: "faq", title: "", content: "", enabled: true };
+
+// Reload the page while a sync is running
+const SYNC_POLL_MS = 5000;
+
+const SYNC_STATUS_BADGES = {
+  idle: { tone: undefined, label: "knowledgeBase.syncIdle" },
+  running: { tone: "attention", label: "knowledgeBase.syncRunning" },
+  succeeded: { tone: "success", label: "knowledgeBase.syncSucceeded" },
+  failed: { tone: "critical", label: "knowledgeBase.syncFailed" },
+} as const;
+
+const SOURCE_LABEL_KEYS: Record<string, string> = {
+  shopify_page: "knowledgeBase.sourcePage",
+  shopify_article: "knowledgeBase.sourceArticle",
+  shopify_metafield: "knowledgeBase.sourceMetafield",
+};
+
+export default function KnowledgeBasePage() {
+  const { entries, embeddingsEnabled, maxEntries, maxEntryChars, sync, maxMetafields } =
+    useLoaderData<KnowledgeBaseLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const submit = useSubmit();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+  const { t } = useTranslation();
+
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [importData, setImportData] = useState("");
+  const [syncSources, setSyncSources] = useState<string[]>(sync.sources);
+  const [metafieldsText, setMetafieldsText] = useState(sync.metafields.join("\n"));
+
+  const submittingAction = navigation.state === "submitting" ? navigation.formData?.get("_action") : null;
+  const ownEntryCount = entries.filter((entry) => !entry.synced).length;
+
+  useEffect(() => {
+    if (sync.status !== "running") return;
+    const timer = setTimeout(() => revalidator.revalidate(), SYNC_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [sync, revalidator]);
+
+  const toggleSyncSource = (source: string, checked: boolean) => {
+    setSyncSources(checked ? [...syncSources, source] : syncSources.filter((value) => value !== source));
+  };
+
+  const handleDrop = useCallback((_files: File[], accepted: File[]) => {
+    const file = accepted[0];
+    if (file) {
+      file.text().then(setImportData);
+    }
+  }, []);
+
+  const editEntry = (entry: KnowledgeEntrySummary) => {
+    setDraft({ id: entry.id, type: entry.type, title: entry.title, content: entry.content, enabled: entry.enabled });
+    setShowImport(false);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    submit(
+      {
+        _action: "save",
+        id: draft.id || "",
+        type: draft.type,
+        title: draft.title,
+        content: draft.content,
+        enabled: String(draft.enabled)
+      },
+      { method: "post" }
+    );
+    setDraft(null);
+  };
+
+  const isFaq = draft?.type === "faq";
+
+  return (
+    <Page
+      title={t("knowledgeBase.title")}
+      subtitle={t("knowledgeBase.subtitle")}
+      primaryAction={{
+        content: t("knowledgeBase.addEntry"),
+        onAction: () => {
+          setDraft(EMPTY_DRAFT);
+          setShowImport(false);
+        },
+        disabled: ownEntryCount >= maxEntries
+      }}
+      secondaryActions={[
+        {
+          content: t("knowledgeBase.import"),
+          onAction: () => {
+            setShowImport(true);
+            setDraft(null);
+          }
+        },
+        {
+          content: t("knowledgeBase.reindex"),
+          loading: submittingAction === "reindex",
+          disabled: entries.length === 0,
+          onAction: () => submit({ _action: "reindex" }, { method: "post" })
+        }
+      ]}
+    >
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+              {actionData.details && <p style={{ whiteSpace: "pre-line" }}>{actionData.details}</p>}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!embeddingsEnabled && (
+          <Layout.Section>
+            <Banner tone="info">
+              <p>{t("knowledgeBase.keywordOnly")}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {draft && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text variant="headingMd" as="h2">
+                  {draft.id ? t("knowledgeBase.editEntry") : t("knowledgeBase.addEntry")}
+                </Text>
+                <Select
+                  label={t("knowledgeBase.type")}
+                  value={draft.type}
+                  options={[
+                    { label: t("knowledgeBase.typeFaq"), value: "faq" },
+                    { label: t("knowledgeBase.typeArticle"), value: "article" }
+                  ]}
+                  onChange={(value) => setDraft({ ...draft, type: value as KnowledgeEntryType })}
+                />
+                <TextField
+                  label={isFaq ? t("knowledgeBase.question") : t("knowledgeBase.articleTitle")}
+                  value={draft.title}
+                  onChange={(value) => setDraft({ ...draft, title: value })}
+                  maxLength={300}
+                  autoComplete="off"
+                />
+                <TextField
+                  label={isFaq ? t("knowledgeBase.answer") : t("knowledgeBase.content")}
+                  value={draft.content}
+                  onChange={(value) => setDraft({ ...draft, content: value })}
+                  multiline={isFaq ? 4 : 10}
+                  maxLength={maxEntryChars}
+                  showCharacterCount
+                  autoComplete="off"
+                />
+                <Checkbox
+                  label={t("knowledgeBase.enabled")}
+                  helpText={t("knowledgeBase.enabledHelp")}
+                  checked={draft.enabled}
+                  onChange={(checked) => setDraft({ ...draft, enabled: checked })}
+                />
+                <InlineStack gap="200">
+                  <Button
+                    variant="primary"
+                    disabled={!draft.title.trim() || !draft.content.trim()}
+                    onClick={saveDraft}
+                  >
+                    {t("common.save")}
+                  </Button>
+                  <Button onClick={() => setDraft(null)}>{t("common.cancel")}</Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {showImport && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text variant="headingMd" as="h2">{t("knowledgeBase.importTitle")}</Text>
+                <Text variant="bodySm" as="p" tone="subdued">{t("knowledgeBase.importDesc")}</Text>
+                <DropZone accept=".csv,.json,text/csv,application/json" allowMultiple={false} onDrop={handleDrop}>
+                  <DropZone.FileUpload actionHint={t("knowledgeBase.importHint")} />
+                </DropZone>
+                <TextField
+                  label={t("knowledgeBase.importData")}
+                  value={importData}
+                  onChange={setImportData}
+                  multiline={8}
+                  placeholder={'question,answer\n"Do you ship abroad?","Yes, to 40 countries."'}
+                  autoComplete="off"
+                />
+                <InlineStack gap="200">
+                  <Button
+                    variant="primary"
+                    disabled={!importData.trim()}
+                    loading={submittingAction === "import"}
+                    onClick={() => {
+                      submit({ _action: "import", data: importData }, { method: "post" });
+                      setImportData("");
+                      setShowImport(false);
+                    }}
+                  >
+                    {t("knowledgeBase.importButton")}
+                  </Button>
+                  <Button onClick={() => setShowImport(false)}>{t("common.cancel")}</Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">{t("knowledgeBase.storeContent")}</Text>
+                <Badge tone={SYNC_STATUS_BADGES[sync.status].tone}>{t(SYNC_STATUS_BADGES[sync.status].label)}</Badge>
+              </InlineStack>
+              <Text variant="bodySm" as="p" tone="subdued">{t("knowledgeBase.storeContentDesc")}</Text>
+              {sync.error && (
+                <Banner tone={sync.status === "failed" ? "critical" : "warning"}>
+                  <p>{sync.error}</p>
+                </Banner>
+              )}
+              <InlineStack gap="400">
+                <Checkbox
+                  label={t("knowledgeBase.syncPages")}
+                  checked={syncSources.includes("pages")}
+                  onChange={(checked) => toggleSyncSource("pages", checked)}
+                />
+                <Checkbox
+                  label={t("knowledgeBase.syncArticles")}
+                  checked={syncSources.includes("articles")}
+                  onChange={(checked) => toggleSyncSource("articles", checked)}
+                />
+                <Checkbox
+                  label={t("knowledgeBase.syncMetafields")}
+                  checked={syncSources.includes("metafields")}
+                  onChange={(checked) => toggleSyncSource("metafields", checked)}
+                />
+              </InlineStack>
+              {syncSources.includes("metafields") && (
+                <TextField
+                  label={t("knowledgeBase.metafields")}
+                  helpText={t("knowledgeBase.metafieldsHelp", { max: maxMetafields })}
+                  value={metafieldsText}
+                  onChange={setMetafieldsText}
+                  multiline={3}
+                  placeholder={"product:custom.care_guide\nshop:custom.faq"}
+                  autoComplete="off"
+                />
+              )}
+              <Text variant="bodySm" as="p" tone="subdued">
+                {t("knowledgeBase.syncCounts", {
+                  pages: sync.pageCount,
+                  articles: sync.articleCount,
+                  metafields: sync.metafieldCount
+                })}
+                {" · "}
+                {sync.finishedAt
+                  ? t("knowledgeBase.lastSynced", { time: new Date(sync.finishedAt).toLocaleString() })
+                  : t("knowledgeBase.neverSynced")}
+              </Text>
+              <InlineStack gap="200">
+                <Button
+                  loading={submittingAction === "syncSettings"}
+                  onClick={() => submit(
+                    { _action: "syncSettings", sources: syncSources.join(","), metafields: metafieldsText },
+                    { method: "post" }
+                  )}
+                >
+                  {t("knowledgeBase.saveSources")}
+                </Button>
+                <Button
+                  variant="primary"
+                  loading={submittingAction === "sync" || sync.status === "running"}
+                  disabled={sync.sources.length === 0}
+                  onClick={() => submit({ _action: "sync" }, { method: "post" })}
+                >
+                  {t("knowledgeBase.syncNow")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">{t("knowledgeBase.entries")}</Text>
+                <Text variant="bodySm" as="span" tone="subdued">
+                  {t("knowledgeBase.entryCount", { count: ownEntryCount, max: maxEntries })}
+                </Text>
+              </InlineStack>
+              {entries.length === 0 && (
+                <Text variant="bodySm" as="p" tone="subdued">{t("knowledgeBase.empty")}</Text>
+              )}
+              {entries.map((entry) => (
+                <Box key={entry.id} padding="200" borderRadius="200" background="bg-surface-secondary">
+                  <InlineStack align="space-between" blockAlign="start" wrap={false} gap="300">
+                    <BlockStack gap="100">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Badge tone={entry.type === "faq" ? "info" : undefined}>
+                          {entry.type === "faq" ? t("knowledgeBase.typeFaq") : t("knowledgeBase.typeArticle")}
+                        </Badge>
+                        {entry.synced && <Badge tone="success">{t(SOURCE_LABEL_KEYS[entry.source] ?? "")}</Badge>}
+                        {!entry.enabled && <Badge tone="warning">{t("knowledgeBase.disabled")}</Badge>}
+                        <Text as="span" variant="bodyMd" fontWeight="semibold">{entry.title}</Text>
+                      </InlineStack>
+                      <Text as="p" variant="bodySm" tone="subdued" truncate>
+                        {entry.content}
+                      </Text>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {t("knowledgeBase.chunks", { count: entry.chunkCount })} · {new Date(entry.updatedAt).toLocaleString()}
+                      </Text>
+                    </BlockStack>
+                    <InlineStack gap="200" wrap={false}>
+                      {entry.synced ? (
+                        entry.url && (
+                          <Button variant="plain" url={entry.url} target="_blank">{t("knowledgeBase.view")}</Button>
+                        )
+                      ) : (
+                        <Button variant="plain" onClick={() => editEntry(entry)}>{t("common.edit")}</Button>
+                      )}
+                      <Button
+                        variant="plain"
+                        onClick={() => submit(
+                          { _action: "toggle", id: entry.id, enabled: String(!entry.enabled) },
+                          { method: "post" }
+                        )}
+                      >
+                        {entry.enabled ? t("knowledgeBase.disable") : t("knowledgeBase.enable")}
+                      </Button>
+                      {!entry.synced && (
+                        <Button
+                          variant="plain"
+                          tone="critical"
+                          onClick={() => submit({ _action: "delete", id: entry.id }, { method: "post" })}
+                        >
+                          {t("common.delete")}
+                        </Button>
+                      )}
+                    </InlineStack>
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Button,
+  Banner,
+  Checkbox,
+  TextField,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { parseLeadCaptureConfig } from "../lib/lead-capture.server";
+import type { LeadSyncStatus, LeadTrigger } from "../lib/lead-capture.server";
+import {
+  getLeadCaptureConfig,
+  listLeads,
+  retryLeadSync,
+  saveLeadCaptureConfig,
+} from "../services/lead.service.server";
+import type { ActionData, LeadSummary, LeadsLoaderData } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+const SYNC_BADGES = {
+  synced: { tone: "success", key: "leads.synced" },
+  pending: { tone: "info", key: "leads.syncPending" },
+  failed: { tone: "critical", key: "leads.syncFailed" },
+} as const;
+
+const TRIGGER_LABEL_KEYS: Record<LeadTrigger, string> = {
+  assistant: "leads.triggerAssistant",
+  rule: "leads.triggerRule",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const [config, leads] = await Promise.all([
+    getLeadCaptureConfig(session.shop),
+    listLeads(session.shop)
+  ]);
+
+  const loaderData: LeadsLoaderData = {
+    config,
+    leads: leads.map((lead) => ({
+      id: lead.id,
+      email: lead.email,
+      firstName: lead.firstName,
+      marketingConsent: lead.marketingConsent,
+      trigger: lead.trigger as LeadTrigger,
+      syncStatus: lead.syncStatus as LeadSyncStatus,
+      syncError: lead.syncError,
+      shopifyCustomerId: lead.shopifyCustomerId,
+      createdAt: lead.createdAt.toISOString()
+    }))
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+
+  try {
+    if (intent === "saveSettings") {
+      const config = parseLeadCaptureConfig(String(formData.get("leadCapture") || ""));
+      await saveLeadCaptureConfig(session.shop, config);
+      return json<ActionData>({ success: true, message: "Lead capture settings saved" });
+    }
+
+    if (intent === "retrySync") {
+      const lead = await retryLeadSync(session.shop, String(formData.get("id") || ""));
+      if (!lead) {
+        return json<ActionData>({ success: false, message: "Lead not found" }, { status: 404 });
+      }
+      return json<ActionData>(
+        lead.syncStatus === "synced"
+          ? { success: true, message: "Lead synced to Shopify" }
+          : { success: false, message: `Sync failed: ${lead.syncError || "unknown error"}` }
+      );
+    }
+  } catch (error) {
+    logger.error(error, `Leads action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+function LeadRow({ lead }: { lead: LeadSummary }) {
+  const submit = useSubmit();
+  const { t } = useTranslation();
+  const badge = SYNC_BADGES[lead.syncStatus] ?? SYNC_BADGES.pending;
+  const customerId = lead.shopifyCustomerId?.split("/").pop();
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack align="space-between" blockAlign="center">
+        <InlineStack gap="200" blockAlign="center">
+          <Text as="span" variant="bodyMd" fontWeight="semibold">
+            {lead.firstName || t("leads.noName")}
+          </Text>
+          <a href={`mailto:${lead.email}`}>{lead.email}</a>
+        </InlineStack>
+        <Text as="span" variant="bodySm" tone="subdued">
+          {new Date(lead.createdAt).toLocaleString()}
+        </Text>
+      </InlineStack>
+      <InlineStack gap="200" blockAlign="center">
+        <Badge tone={lead.marketingConsent ? "success" : undefined}>
+          {lead.marketingConsent ? t("leads.subscribed") : t("leads.notSubscribed")}
+        </Badge>
+        <Badge tone={badge.tone}>{t(badge.key)}</Badge>
+        <Text as="span" variant="bodySm" tone="subdued">{t(TRIGGER_LABEL_KEYS[lead.trigger] ?? "leads.triggerRule")}</Text>
+      </InlineStack>
+      {lead.syncStatus === "failed" && lead.syncError && (
+        <Text as="p" variant="bodySm" tone="critical">{lead.syncError}</Text>
+      )}
+      <InlineStack gap="200">
+        {customerId && (
+          <Button variant="plain" url={`shopify://admin/customers/${customerId}`} target="_top">
+            {t("leads.viewCustomer")}
+          </Button>
+        )}
+        {lead.syncStatus !== "synced" && (
+          <Button
+            variant="plain"
+            onClick={() => submit({ _action: "retrySync", id: lead.id }, { method: "post" })}
+          >
+            {t("leads.retry")}
+          </Button>
+        )}
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
+export default function LeadsPage() {
+  const { config, leads } = useLoaderData<LeadsLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [enabled, setEnabled] = useState(config.enabled);
+  const [afterProductMessages, setAfterProductMessages] = useState(String(config.afterProductMessages));
+
+  const saving = navigation.state === "submitting" && navigation.formData?.get("_action") === "saveSettings";
+
+  const saveSettings = () => {
+    submit(
+      { _action: "saveSettings", leadCapture: JSON.stringify({ enabled, afterProductMessages: Number(afterProductMessages) }) },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <Page title={t("leads.title")} subtitle={t("leads.subtitle")}>
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">{t("leads.settingsTitle")}</Text>
+              <Text as="p" variant="bodySm" tone="subdued">{t("leads.settingsDescription")}</Text>
+
+              <Checkbox
+                label={t("leads.enabled")}
+                helpText={t("leads.enabledHelp")}
+                checked={enabled}
+                onChange={setEnabled}
+              />
+
+              <TextField
+                label={t("leads.afterProductMessages")}
+                helpText={t("leads.afterProductMessagesHelp")}
+                type="number"
+                min={0}
+                max={20}
+                value={afterProductMessages}
+                onChange={setAfterProductMessages}
+                disabled={!enabled}
+                autoComplete="off"
+              />
+
+              <Banner tone="info">
+                <p>{t("leads.consentNotice")}</p>
+              </Banner>
+
+              <InlineStack align="end">
+                <Button variant="primary" onClick={saveSettings} loading={saving}>
+                  {t("leads.save")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">{t("leads.listTitle")}</Text>
+
+              {leads.length === 0 ? (
+                <Text as="p" variant="bodySm" tone="subdued">{t("leads.noLeads")}</Text>
+              ) : (
+                <BlockStack gap="300">
+                  {leads.map((lead, index) => (
+                    <BlockStack key={lead.id} gap="300">
+                      {index > 0 && <Divider />}
+                      <LeadRow lead={lead} />
+                    </BlockStack>
+                  ))}
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json, redirect } from "@remix-run/node";
-import { useActionData, useLoaderData, useSubmit } from "@remix-run/react";
+import { useEffect } from "react";
+import { useActionData, useLoaderData, useRevalidator, useSubmit } from "@remix-run/react";
 import {
   Page,
   Layout,
@@ -19,16 +20,24 @@ import { authenticate } from "../shopify.server";
 import { useTranslation } from "react-i18next";
 import { logger } from "../lib/logger.server";
 import { PLAN_NAMES, isValidPlanName } from "../config/billing";
+import {
+  getKnowledgeSync,
+  startKnowledgeSync,
+  toKnowledgeSyncSummary,
+} from "../services/knowledge-sync.service.server";
 
 export const handle = {
   i18n: "common",
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { billing, session } = await authenticate.admin(request);
+  const { admin, billing, session } = await authenticate.admin(request);
 
   logger.debug({ shop: session.shop }, 'Loading onboarding page');
 
+  // First import of the store's pages and blog articles into the knowledge base
+  const syncStarted = await startKnowledgeSync(session.shop, admin, { reason: "onboarding" });
+
   // Check if user already has a subscription
   const { hasActivePayment, appSubscriptions } = await billing.check({
     plans: PLAN_NAMES as any,
@@ -41,9 +50,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     return redirect("/app");
   }
 
+  const knowledgeSync = toKnowledgeSyncSummary(await getKnowledgeSync(session.shop));
+
   return json({
     shop: session.shop,
     isTestMode: process.env.NODE_ENV !== "production",
+    knowledgeSync: syncStarted ? { ...knowledgeSync, status: "running" as const } : knowledgeSync,
   });
 };
 
@@ -78,11 +90,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function OnboardingPage() {
-  const { shop, isTestMode } = useLoaderData<typeof loader>();
+  const { shop, isTestMode, knowledgeSync } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const submit = useSubmit();
+  const revalidator = useRevalidator();
   const { t } = useTranslation();
 
+  // Refresh the import status until the sync finishes
+  useEffect(() => {
+    if (knowledgeSync.status !== "running") return;
+    const timer = setTimeout(() => revalidator.revalidate(), 5000);
+    return () => clearTimeout(timer);
+  }, [knowledgeSync, revalidator]);
+
   const handleSubscribe = (plan: string) => {
     const formData = new FormData();
     formData.append("plan", plan);
@@ -253,6 +273,38 @@ export default function OnboardingPage() {
           </InlineStack>
         </Layout.Section>
 
+        {/* Store Content Import */}
+        {knowledgeSync.sources.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="200">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text as="h3" variant="headingMd">
+                    Teaching the assistant about your store
+                  </Text>
+                  {knowledgeSync.status === "running" && <Badge tone="attention">Importing…</Badge>}
+                  {knowledgeSync.status === "succeeded" && <Badge tone="success">Ready</Badge>}
+                  {knowledgeSync.status === "failed" && <Badge tone="critical">Import failed</Badge>}
+                </InlineStack>
+                <Text as="p" variant="bodyMd" tone="subdued">
+                  Your pages and blog articles are imported so the assistant can answer questions about
+                  shipping, returns and anything else you have written about. You can choose the sources
+                  on the Knowledge Base page.
+                </Text>
+                <Text as="p" variant="bodySm">
+                  {knowledgeSync.pageCount} pages · {knowledgeSync.articleCount} articles
+                  {knowledgeSync.metafieldCount > 0 ? ` · ${knowledgeSync.metafieldCount} metafields` : ""}
+                </Text>
+                {knowledgeSync.error && (
+                  <Text as="p" variant="bodySm" tone="critical">
+                    {knowledgeSync.error}
+                  </Text>
+                )}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
         {/* Trust Section */}
         <Layout.Section>
           <Card>
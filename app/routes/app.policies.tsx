@@ -0,0 +1,263 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  TextField,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { SHOP_POLICIES } from "../config/limits";
+import {
+  SHOP_POLICY_TYPES,
+  isPolicyRefreshDue,
+  listShopPolicies,
+  refreshShopPolicies,
+  setShopPolicyOverride,
+  type ShopPolicyType,
+} from "../services/shop-policy.service.server";
+import type { ActionData, PoliciesLoaderData, ShopPolicySummary } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  let rows = await listShopPolicies(session.shop);
+  let fetchError: string | null = null;
+
+  if (isPolicyRefreshDue(rows)) {
+    try {
+      await refreshShopPolicies(session.shop, admin);
+      rows = await listShopPolicies(session.shop);
+    } catch (error) {
+      logger.error(error, `Failed to refresh policies for shop: ${session.shop}`);
+      fetchError = error instanceof Error ? error.message : "Failed to fetch policies";
+    }
+  }
+
+  const loaderData: PoliciesLoaderData = {
+    policies: SHOP_POLICY_TYPES.map((type) => {
+      const row = rows.find((policy) => policy.type === type);
+      return {
+        type,
+        title: row?.title ?? null,
+        body: row?.body ?? null,
+        overrideBody: row?.overrideBody ?? null,
+        url: row?.url ?? null,
+        contentHash: row?.contentHash ?? null,
+        fetchedAt: row?.fetchedAt ? row.fetchedAt.toISOString() : null
+      };
+    }),
+    maxOverrideChars: SHOP_POLICIES.MAX_OVERRIDE_CHARS,
+    fetchError
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+  const type = String(formData.get("type") || "") as ShopPolicyType;
+
+  try {
+    if (intent === "refresh") {
+      const changed = await refreshShopPolicies(session.shop, admin);
+      return json<ActionData>({
+        success: true,
+        message: changed.length > 0 ? `Policies refreshed (${changed.length} changed)` : "Policies are up to date"
+      });
+    }
+
+    if (intent === "override" || intent === "clearOverride") {
+      if (!SHOP_POLICY_TYPES.includes(type)) {
+        return json<ActionData>({ success: false, message: "Unknown policy type" }, { status: 400 });
+      }
+
+      const text = intent === "override" ? String(formData.get("text") || "") : null;
+      if (text && text.length > SHOP_POLICIES.MAX_OVERRIDE_CHARS) {
+        return json<ActionData>({
+          success: false,
+          message: `Policy text must be ${SHOP_POLICIES.MAX_OVERRIDE_CHARS} characters or fewer`
+        }, { status: 400 });
+      }
+
+      await setShopPolicyOverride(session.shop, type, text);
+      return json<ActionData>({
+        success: true,
+        message: text?.trim() ? "Policy text saved" : "The assistant now uses the Shopify policy"
+      });
+    }
+  } catch (error) {
+    logger.error(error, `Policy action failed for shop: ${session.shop}`);
+    return json<ActionData>({
+      success: false,
+      message: error instanceof Error ? error.message : "Policy update failed"
+    }, { status: 500 });
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+const POLICY_LABEL_KEYS: Record<ShopPolicyType, string> = {
+  refund: "policies.refund",
+  shipping: "policies.shipping",
+  privacy: "policies.privacy",
+  terms: "policies.terms",
+  contact: "policies.contact",
+};
+
+function PolicyCard({ policy, maxOverrideChars }: { policy: ShopPolicySummary; maxOverrideChars: number }) {
+  const submit = useSubmit();
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState(policy.overrideBody || policy.body || "");
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text variant="headingMd" as="h2">{t(POLICY_LABEL_KEYS[policy.type])}</Text>
+          <InlineStack gap="200">
+            {policy.overrideBody && <Badge tone="attention">{t("policies.overridden")}</Badge>}
+            {!policy.overrideBody && policy.body && <Badge tone="success">{t("policies.fromShopify")}</Badge>}
+            {!policy.overrideBody && !policy.body && <Badge>{t("policies.notPublished")}</Badge>}
+          </InlineStack>
+        </InlineStack>
+
+        {editing ? (
+          <>
+            <TextField
+              label={t("policies.overrideLabel")}
+              helpText={t("policies.overrideHelp")}
+              value={text}
+              onChange={setText}
+              multiline={8}
+              maxLength={maxOverrideChars}
+              showCharacterCount
+              autoComplete="off"
+            />
+            <InlineStack gap="200">
+              <Button
+                variant="primary"
+                onClick={() => {
+                  submit({ _action: "override", type: policy.type, text }, { method: "post" });
+                  setEditing(false);
+                }}
+              >
+                {t("common.save")}
+              </Button>
+              <Button onClick={() => setEditing(false)}>{t("common.cancel")}</Button>
+            </InlineStack>
+          </>
+        ) : (
+          <>
+            <Box padding="200" borderRadius="200" background="bg-surface-secondary">
+              <div style={{ maxHeight: 200, overflowY: "auto", whiteSpace: "pre-line" }}>
+                <Text as="p" variant="bodySm" tone={policy.overrideBody || policy.body ? undefined : "subdued"}>
+                  {policy.overrideBody || policy.body || t("policies.empty")}
+                </Text>
+              </div>
+            </Box>
+            <Text as="p" variant="bodySm" tone="subdued">
+              {policy.fetchedAt
+                ? t("policies.fetchedAt", { time: new Date(policy.fetchedAt).toLocaleString() })
+                : t("policies.neverFetched")}
+              {policy.contentHash ? ` · ${policy.contentHash.substring(0, 8)}` : ""}
+            </Text>
+            <InlineStack gap="200">
+              <Button onClick={() => setEditing(true)}>{t("policies.override")}</Button>
+              {policy.overrideBody && (
+                <Button
+                  variant="plain"
+                  onClick={() => {
+                    submit({ _action: "clearOverride", type: policy.type }, { method: "post" });
+                    setText(policy.body || "");
+                  }}
+                >
+                  {t("policies.useShopify")}
+                </Button>
+              )}
+              {policy.url && (
+                <Button variant="plain" url={policy.url} target="_blank">{t("policies.view")}</Button>
+              )}
+            </InlineStack>
+          </>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
+
+export default function PoliciesPage() {
+  const { policies, maxOverrideChars, fetchError } = useLoaderData<PoliciesLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const submit = useSubmit();
+  const navigation = useNavigation();
+  const { t } = useTranslation();
+
+  const refreshing = navigation.state === "submitting" && navigation.formData?.get("_action") === "refresh";
+
+  return (
+    <Page
+      title={t("policies.title")}
+      subtitle={t("policies.subtitle")}
+      primaryAction={{
+        content: t("policies.refresh"),
+        loading: refreshing,
+        onAction: () => submit({ _action: "refresh" }, { method: "post" })
+      }}
+    >
+      <Layout>
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {fetchError && (
+          <Layout.Section>
+            <Banner tone="warning">
+              <p>{t("policies.fetchError")}</p>
+              <p>{fetchError}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {policies.map((policy) => (
+          <Layout.Section key={policy.type}>
+            <PolicyCard
+              // Remount when the stored text changes so the editor starts from it
+              key={`${policy.type}:${policy.contentHash}:${policy.overrideBody ?? ""}`}
+              policy={policy}
+              maxOverrideChars={maxOverrideChars}
+            />
+          </Layout.Section>
+        ))}
+      </Layout>
+    </Page>
+  );
+}
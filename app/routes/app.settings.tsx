@@ -29,6 +29,19 @@ import { useTranslation } from "react-i18next";
 import { encryptApiKey, decryptApiKey, isValidOpenAIKey } from "../lib/encryption.server";
 import { getConversationUsage } from "../lib/conversation-usage.server";
 import { PlanCode, getPlanOptions, normalizePlanCode } from "../lib/plans.config";
+import { getGuardrailSettings, normalizeGuardrailMode, serializeStringList } from "../lib/guardrails.server";
+import {
+  parseIntentRouting,
+  serializeIntentRouting,
+  toIntentRouteRows,
+  validateIntentRouting,
+  type IntentRouteRow,
+  type IntentRouteTarget
+} from "../lib/intent-routing.server";
+import { invalidateResponseCache } from "../services/response-cache.service.server";
+import { getWebhookHealth } from "../services/webhook-health.service.server";
+import { getWebhookSigningSecret, rotateWebhookSigningSecret } from "../lib/webhook-signing.server";
+import { selectWorkflow } from "../services/chat-pipeline/generate.server";
 import type { WidgetSettings, ConversationUsage, SettingsLoaderData, ActionData } from "../lib/types";
 
 export const handle = {
@@ -84,6 +97,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }
     }
 
+    // Guardrail lists are stored as JSON and edited as comma-separated text
+    const guardrails = getGuardrailSettings(settings);
+    decryptedSettings.guardrailMode = guardrails.mode;
+    decryptedSettings.guardrailBannedTerms = guardrails.bannedTerms.join(", ");
+    decryptedSettings.guardrailAllowedDomains = guardrails.allowedDomains.join(", ");
+
     // ✅ Normalize plan code and migrate database if needed (handles legacy BASIC/UNLIMITED codes)
     const originalPlan = settings.plan;
     const normalizedPlan = normalizePlanCode(settings.plan);
@@ -174,11 +193,32 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       // Continue without usage data
     }
 
+    // Health of the webhook this shop's messages currently go to
+    const workflow = selectWorkflow(settings, normalizedPlan);
+    const webhookHealth = workflow.webhookUrl
+      ? await getWebhookHealth(session.shop, workflow.webhookUrl)
+      : null;
+
+    // Shown so merchants can verify signed requests in their own workflow
+    const webhookSigningSecret = planLimits?.hasCustomWebhook
+      ? await getWebhookSigningSecret(session.shop, settings.webhookSigningSecret)
+      : null;
+    delete decryptedSettings.webhookSigningSecret;
+
+    // Routing is edited as one row per intent and saved back as a JSON table
+    const intentRoutes = planLimits?.hasCustomWebhook
+      ? toIntentRouteRows(parseIntentRouting(settings.intentRouting))
+      : null;
+    delete decryptedSettings.intentRouting;
+
     const loaderData: SettingsLoaderData = {
       settings: decryptedSettings,
       conversationUsage,
       planLimits,
-      activePlan
+      activePlan,
+      webhookHealth,
+      webhookSigningSecret,
+      intentRoutes
     };
 
     return json(loaderData);
@@ -203,6 +243,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const formData = await request.formData();
 
+  if (formData.get("_action") === "rotateSigningSecret") {
+    try {
+      await rotateWebhookSigningSecret(session.shop);
+      return json({
+        success: true,
+        message: "Signing secret regenerated. Update it in your workflow.",
+        settings: null
+      });
+    } catch (error) {
+      logger.error(error, `Failed to rotate signing secret for shop: ${session.shop}`);
+      return json({
+        success: false,
+        message: "Failed to regenerate the signing secret",
+        settings: null
+      }, { status: 500 });
+    }
+  }
+
   const webhookUrl = formData.get("webhookUrl") as string | null;
   // Normalize webhook URL - convert empty strings and "null" string to actual null
   const normalizedWebhookUrl = (webhookUrl && webhookUrl.trim() !== "" && webhookUrl !== "null" && webhookUrl !== "undefined")
@@ -250,6 +308,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }
 
+  // Guardrail lists arrive as comma-separated text ("undefined" when the field never loaded)
+  const guardrailList = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" && value !== "undefined" && value !== "null" ? value : "";
+  };
+
   // Prepare base settings data
   const settingsData: any = {
     enabled: formData.get("enabled") === "true",
@@ -264,8 +328,25 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     webhookUrl: normalizedWebhookUrl,
     plan: plan,
     openaiApiKey: encryptedApiKey,
+    guardrailMode: normalizeGuardrailMode(formData.get("guardrailMode")),
+    guardrailBannedTerms: serializeStringList(guardrailList("guardrailBannedTerms")),
+    guardrailAllowedDomains: serializeStringList(guardrailList("guardrailAllowedDomains")),
   };
 
+  // Only sent when the routing editor is shown (plans with custom webhooks)
+  const intentRoutingInput = formData.get("intentRouting");
+  if (intentRoutingInput !== null) {
+    const intentRouting = validateIntentRouting(intentRoutingInput, plan, { hasOpenAIKey: !!encryptedApiKey });
+    if (intentRouting.errors.length > 0) {
+      return json({
+        success: false,
+        message: `Invalid intent routing: ${intentRouting.errors.join("; ")}`,
+        settings: null
+      }, { status: 400 });
+    }
+    settingsData.intentRouting = serializeIntentRouting(intentRouting.routing);
+  }
+
   // Update apiKeyLastUpdated if API key was changed
   if (encryptedApiKey) {
     settingsData.apiKeyLastUpdated = new Date();
@@ -289,6 +370,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     logger.info(`Final workflowType in database: ${settings.workflowType}`);
     logger.info(`Final webhookUrl in database: ${settings.webhookUrl || '[NULL/DEFAULT]'}`);
 
+    // Cached replies may reflect the old workflow, language or guardrails
+    await invalidateResponseCache(session.shop, { reason: "settings_updated" });
+
     return json({
       success: true,
       message: "Settings saved successfully!",
@@ -310,13 +394,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function SettingsPage() {
-  const { settings: initialSettings, conversationUsage, planLimits, activePlan } = useLoaderData<SettingsLoaderData>();
+  const { settings: initialSettings, conversationUsage, planLimits, activePlan, webhookHealth, webhookSigningSecret, intentRoutes: initialIntentRoutes } = useLoaderData<SettingsLoaderData>();
   const actionData = useActionData<ActionData>();
   const submit = useSubmit();
   const navigate = useNavigate();
   const { t } = useTranslation();
 
   const [settings, setSettings] = useState<WidgetSettings>(initialSettings);
+  const [intentRoutes, setIntentRoutes] = useState<IntentRouteRow[]>(initialIntentRoutes ?? []);
   const [isSaving, setIsSaving] = useState(false);
   const [showSuccessBanner, setShowSuccessBanner] = useState(false);
   const [isTestingKey, setIsTestingKey] = useState(false);
@@ -391,9 +476,26 @@ export default function SettingsPage() {
     // ✅ ADDED: Append workflowType
     formData.append("workflowType", workflowType);
 
+    // Only rows that override the shop workflow are stored
+    if (intentRoutes.length > 0) {
+      const routing = Object.fromEntries(
+        intentRoutes
+          .filter((row) => row.target !== "default")
+          .map((row) => [
+            row.intent,
+            row.target === "custom" ? { target: row.target, webhookUrl: row.webhookUrl.trim() } : { target: row.target }
+          ])
+      );
+      formData.append("intentRouting", JSON.stringify(routing));
+    }
+
     submit(formData, { method: "post" });
     setIsSaving(false);
-  }, [settings, submit]);
+  }, [settings, intentRoutes, submit]);
+
+  const updateIntentRoute = useCallback((intent: IntentRouteRow["intent"], changes: Partial<IntentRouteRow>) => {
+    setIntentRoutes((prev) => prev.map((row) => (row.intent === intent ? { ...row, ...changes } : row)));
+  }, []);
 
   const handleTestConnection = useCallback(async () => {
     const apiKey = settings.openaiApiKey;
@@ -482,6 +584,18 @@ export default function SettingsPage() {
           </Layout.Section>
         )}
 
+        {/* Custom workflow outage alert */}
+        {webhookHealth?.status === "down" && webhookHealth.workflowType === "custom" && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">
+                {t("settings.webhookDownAlert")}{" "}
+                {webhookHealth.downSince ? new Date(webhookHealth.downSince).toLocaleString() : ""}
+              </Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
         {showSuccessBanner && actionData?.success && (
           <Layout.Section>
             <Banner tone="success" onDismiss={() => setShowSuccessBanner(false)}>
@@ -924,6 +1038,57 @@ export default function SettingsPage() {
           </Layout.Section>
         )}
 
+        {/* Guardrails */}
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="500">
+              <BlockStack gap="200">
+                <Text variant="headingMd" as="h2">
+                  {t("settings.guardrails")}
+                </Text>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  {t("settings.guardrailsDesc")}
+                </Text>
+              </BlockStack>
+
+              <Select
+                label={t("settings.guardrailMode")}
+                value={settings.guardrailMode || "rewrite"}
+                options={[
+                  { label: t("settings.guardrailModeBlock"), value: "block" },
+                  { label: t("settings.guardrailModeRewrite"), value: "rewrite" },
+                  { label: t("settings.guardrailModeLogOnly"), value: "log_only" }
+                ]}
+                onChange={(value) =>
+                  setSettings((prev: any) => ({ ...prev, guardrailMode: value }))
+                }
+                helpText={t("settings.guardrailModeHelp")}
+              />
+
+              <TextField
+                label={t("settings.guardrailBannedTerms")}
+                value={settings.guardrailBannedTerms || ""}
+                onChange={(value) =>
+                  setSettings((prev: any) => ({ ...prev, guardrailBannedTerms: value }))
+                }
+                helpText={t("settings.guardrailBannedTermsHelp")}
+                autoComplete="off"
+              />
+
+              <TextField
+                label={t("settings.guardrailAllowedDomains")}
+                value={settings.guardrailAllowedDomains || ""}
+                onChange={(value) =>
+                  setSettings((prev: any) => ({ ...prev, guardrailAllowedDomains: value }))
+                }
+                placeholder="www.example.com"
+                helpText={t("settings.guardrailAllowedDomainsHelp")}
+                autoComplete="off"
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         {/* AI Workflow Settings - Only for Professional Plan */}
         {planLimits && planLimits.hasCustomWebhook && (
           <Layout.Section>
@@ -969,6 +1134,47 @@ export default function SettingsPage() {
                   helpText={t("settings.workflowTypeHelp")}
                 />
 
+                {webhookHealth && (
+                  <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                    <BlockStack gap="200">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Text variant="headingSm" as="h3">
+                          {t("settings.webhookHealth")}
+                        </Text>
+                        <Badge tone={
+                          webhookHealth.status === "healthy" ? "success" :
+                          webhookHealth.status === "degraded" ? "warning" :
+                          webhookHealth.status === "down" ? "critical" : undefined
+                        }>
+                          {t(`settings.webhookHealth${webhookHealth.status.charAt(0).toUpperCase()}${webhookHealth.status.slice(1)}`)}
+                        </Badge>
+                      </InlineStack>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {webhookHealth.maskedUrl}
+                      </Text>
+                      <Text variant="bodySm" as="p">
+                        <strong>{t("settings.webhookLastSuccess")}:</strong>{" "}
+                        {webhookHealth.lastSuccessAt
+                          ? new Date(webhookHealth.lastSuccessAt).toLocaleString()
+                          : t("settings.webhookNever")}
+                      </Text>
+                      <Text variant="bodySm" as="p">
+                        <strong>{t("settings.webhookErrorRate")}:</strong> {webhookHealth.errorRate}% ({webhookHealth.sampleSize})
+                      </Text>
+                      {webhookHealth.p95LatencyMs !== null && (
+                        <Text variant="bodySm" as="p">
+                          <strong>{t("settings.webhookP95Latency")}:</strong> {webhookHealth.p95LatencyMs} ms
+                        </Text>
+                      )}
+                      {webhookHealth.status !== "healthy" && webhookHealth.lastError && (
+                        <Text variant="bodySm" as="p" tone="critical">
+                          <strong>{t("settings.webhookLastError")}:</strong> {webhookHealth.lastError}
+                        </Text>
+                      )}
+                    </BlockStack>
+                  </Box>
+                )}
+
                 <TextField
                   label={t("settings.customWebhookUrl")}
                   value={settings.webhookUrl || ""}
@@ -998,6 +1204,86 @@ export default function SettingsPage() {
                   type="url"
                 />
 
+                {webhookSigningSecret && (
+                  <TextField
+                    label={t("settings.webhookSigningSecret")}
+                    value={webhookSigningSecret}
+                    readOnly
+                    monospaced
+                    autoComplete="off"
+                    helpText={t("settings.webhookSigningSecretHelp")}
+                    connectedRight={
+                      <Button onClick={() => submit({ _action: "rotateSigningSecret" }, { method: "post" })}>
+                        {t("settings.regenerateSecret")}
+                      </Button>
+                    }
+                  />
+                )}
+
+                <InlineStack>
+                  <Button variant="plain" onClick={() => navigate("/app/workflow-recorder")}>
+                    {t("settings.openWorkflowRecorder")}
+                  </Button>
+                </InlineStack>
+
+                {intentRoutes.length > 0 && (
+                  <>
+                    <Divider />
+
+                    <BlockStack gap="300">
+                      <BlockStack gap="100">
+                        <Text variant="headingSm" as="h3">
+                          {t("settings.intentRouting")}
+                        </Text>
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          {t("settings.intentRoutingDesc")}
+                        </Text>
+                      </BlockStack>
+
+                      {intentRoutes.map((row) => (
+                        <BlockStack key={row.intent} gap="200">
+                          <Select
+                            label={t(`settings.intent${row.intent.split("_").map((part) => part.charAt(0) + part.slice(1).toLowerCase()).join("")}`)}
+                            value={row.target}
+                            options={[
+                              { label: t("settings.routeDefault"), value: "default" },
+                              { label: t("settings.routeLocal"), value: "local" },
+                              { label: t("settings.routeByok"), value: "byok" },
+                              { label: t("settings.routeCustom"), value: "custom" }
+                            ]}
+                            onChange={(value) => updateIntentRoute(row.intent, { target: value as IntentRouteTarget })}
+                          />
+                          {row.target === "custom" && (
+                            <TextField
+                              label={t("settings.routeWebhookUrl")}
+                              labelHidden
+                              value={row.webhookUrl}
+                              onChange={(value) => updateIntentRoute(row.intent, { webhookUrl: value })}
+                              placeholder={t("settings.webhookPlaceholder")}
+                              autoComplete="off"
+                              type="url"
+                            />
+                          )}
+                        </BlockStack>
+                      ))}
+
+                      {settings.plan !== PlanCode.BYOK && intentRoutes.some((row) => row.target === "byok") && (
+                        <TextField
+                          label={t("settings.openaiApiKey")}
+                          value={settings.openaiApiKey || ""}
+                          onChange={(value) =>
+                            setSettings((prev: any) => ({ ...prev, openaiApiKey: value }))
+                          }
+                          type="password"
+                          placeholder={t("settings.openaiApiKeyPlaceholder")}
+                          helpText={t("settings.openaiApiKeyHelp")}
+                          autoComplete="off"
+                        />
+                      )}
+                    </BlockStack>
+                  </>
+                )}
+
                 <Divider />
 
                 <Box background="bg-surface-secondary" padding="400" borderRadius="200">
@@ -5,6 +5,7 @@ import { Page, Card, BlockStack, Text, Button, Banner, InlineStack } from "@shop
 import { authenticate } from "../shopify.server";
 import { prisma as db } from "../db.server";
 import { createLogger } from "../lib/logger.server";
+import { normalizeIntentName } from "../services/intent-classifier.service.server";
 
 const logger = createLogger({ service: 'SyncAnalytics' });
 
@@ -135,7 +136,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const intentCounts: Record<string, number> = {};
       dateMessages.forEach(m => {
         if (m.intent) {
-          intentCounts[m.intent] = (intentCounts[m.intent] || 0) + 1;
+          const intent = normalizeIntentName(m.intent) ?? m.intent;
+          intentCounts[intent] = (intentCounts[intent] || 0) + 1;
         }
       });
 
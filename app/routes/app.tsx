@@ -64,6 +64,13 @@ export default function App() {
         <NavMenu>
           <Link to="/app">{t("nav.home")}</Link>
           <Link to="/app/settings">{t("nav.settings")}</Link>
+          <Link to="/app/knowledge-base">{t("nav.knowledgeBase")}</Link>
+          <Link to="/app/policies">{t("nav.policies")}</Link>
+          <Link to="/app/custom-intents">{t("nav.customIntents")}</Link>
+          <Link to="/app/handoffs">{t("nav.handoffs")}</Link>
+          <Link to="/app/inbox">{t("nav.inbox")}</Link>
+          <Link to="/app/business-hours">{t("nav.businessHours")}</Link>
+          <Link to="/app/leads">{t("nav.leads")}</Link>
           <Link to="/app/analytics">{t("nav.analytics")}</Link>
         </NavMenu>
         <Box paddingInlineStart="400" paddingInlineEnd="400" paddingBlockStart="400">
@@ -0,0 +1,451 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigate, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Box,
+  Button,
+  Banner,
+  Select,
+  TextField,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { logger } from "../lib/logger.server";
+import { authenticate } from "../shopify.server";
+import { requireBilling, getPlanLimits } from "../lib/billing.server";
+import { normalizePlanCode } from "../lib/plans.config";
+import { prisma as db } from "../db.server";
+import { getWebhookSigningSecret } from "../lib/webhook-signing.server";
+import { maskWebhookUrl } from "../services/webhook-health.service.server";
+import { isValidCustomWebhookUrl, selectWorkflow } from "../services/chat-pipeline/generate.server";
+import type { ChatIntentType } from "../services/chat-pipeline/types";
+import type { N8NResponseWarning } from "../services/n8n-response.server";
+import {
+  diffJson,
+  getWorkflowRecording,
+  listWorkflowRecordings,
+  parseRecordedJson,
+  replayWorkflowRecording,
+  setWorkflowRecorderEnabled,
+  toRecordingSummary,
+  type JsonDiffEntry,
+} from "../services/workflow-recorder.service.server";
+import type { ActionData, WorkflowRecorderLoaderData } from "../lib/types";
+
+export const handle = {
+  i18n: "common",
+};
+
+const MAX_LISTED_RECORDINGS = 50;
+
+/**
+ * Webhook the recording's intent is routed to today (same rules as the chat pipeline)
+ */
+function getCurrentWebhookUrl(
+  settings: Parameters<typeof selectWorkflow>[0],
+  plan: string,
+  intent: string | null
+): string | null {
+  const workflow = selectWorkflow(settings, normalizePlanCode(plan), {
+    intent: (intent || undefined) as ChatIntentType | undefined
+  });
+  return workflow.engine === "n8n" && workflow.webhookUrl ? workflow.webhookUrl : null;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const url = new URL(request.url);
+  const selectedId = url.searchParams.get("id");
+  const compareId = url.searchParams.get("compare");
+
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop: session.shop }
+  });
+  const plan = normalizePlanCode(settings?.plan);
+
+  const recordings = await listWorkflowRecordings(session.shop, MAX_LISTED_RECORDINGS);
+
+  let selected: WorkflowRecorderLoaderData["selected"] = null;
+  let comparison: WorkflowRecorderLoaderData["comparison"] = null;
+
+  const selectedRecording = selectedId ? await getWorkflowRecording(session.shop, selectedId) : null;
+  if (selectedRecording) {
+    const currentWebhookUrl = getCurrentWebhookUrl(settings, plan, selectedRecording.intent);
+    const warnings = parseRecordedJson(selectedRecording.warnings);
+
+    selected = {
+      ...toRecordingSummary(selectedRecording),
+      request: parseRecordedJson(selectedRecording.request),
+      response: parseRecordedJson(selectedRecording.response),
+      warnings: Array.isArray(warnings) ? warnings as N8NResponseWarning[] : [],
+      currentWebhook: currentWebhookUrl ? maskWebhookUrl(currentWebhookUrl) : null
+    };
+
+    // Default comparison: a replay against its original, an original against its latest replay
+    const against = compareId
+      ? await getWorkflowRecording(session.shop, compareId)
+      : selectedRecording.replayOf
+        ? await getWorkflowRecording(session.shop, selectedRecording.replayOf)
+        : await db.workflowRecording.findFirst({
+            where: { shop: session.shop, replayOf: selectedRecording.id },
+            orderBy: { createdAt: "desc" }
+          });
+
+    if (against) {
+      // Diff from the older recording to the newer one
+      const [before, after] = against.createdAt <= selectedRecording.createdAt
+        ? [against, selectedRecording]
+        : [selectedRecording, against];
+
+      comparison = {
+        against: toRecordingSummary(against),
+        requestDiff: diffJson(parseRecordedJson(before.request), parseRecordedJson(after.request)),
+        responseDiff: diffJson(parseRecordedJson(before.response), parseRecordedJson(after.response))
+      };
+    }
+  }
+
+  const loaderData: WorkflowRecorderLoaderData = {
+    enabled: !!settings?.workflowRecorderEnabled,
+    available: getPlanLimits(plan).hasCustomWebhook,
+    recordings: recordings.map(toRecordingSummary),
+    selected,
+    comparison
+  };
+
+  return json(loaderData);
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const intent = formData.get("_action");
+
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop: session.shop }
+  });
+  const plan = normalizePlanCode(settings?.plan);
+
+  if (!settings || !getPlanLimits(plan).hasCustomWebhook) {
+    return json<ActionData>({
+      success: false,
+      message: "The workflow recorder is available on the Professional plan"
+    }, { status: 403 });
+  }
+
+  if (intent === "toggle") {
+    const enabled = formData.get("enabled") === "true";
+    await setWorkflowRecorderEnabled(session.shop, enabled);
+    return json<ActionData>({
+      success: true,
+      message: enabled ? "Recording started" : "Recording stopped and recordings deleted"
+    });
+  }
+
+  if (intent === "replay") {
+    const recordingId = String(formData.get("id") || "");
+    const recording = await getWorkflowRecording(session.shop, recordingId);
+    if (!recording) {
+      return json<ActionData>({ success: false, message: "Recording not found" }, { status: 404 });
+    }
+
+    const customUrl = String(formData.get("webhookUrl") || "").trim();
+    const webhookUrl = formData.get("target") === "url"
+      ? customUrl
+      : getCurrentWebhookUrl(settings, plan, recording.intent);
+
+    if (!isValidCustomWebhookUrl(webhookUrl)) {
+      return json<ActionData>({
+        success: false,
+        message: "Enter a valid https:// webhook URL to replay against"
+      }, { status: 400 });
+    }
+
+    try {
+      const replay = await replayWorkflowRecording(session.shop, recordingId, {
+        webhookUrl,
+        signingSecret: await getWebhookSigningSecret(session.shop, settings.webhookSigningSecret)
+      });
+
+      return json<ActionData>({
+        success: !!replay && !replay.error,
+        message: replay
+          ? replay.error
+            ? `Replay failed: ${replay.error}`
+            : `Replay answered with status ${replay.status} in ${replay.latencyMs} ms`
+          : "Replay could not be stored"
+      });
+    } catch (error) {
+      logger.error(error, `Workflow replay failed for shop: ${session.shop}`);
+      return json<ActionData>({
+        success: false,
+        message: error instanceof Error ? error.message : "Replay failed"
+      }, { status: 500 });
+    }
+  }
+
+  return json<ActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+};
+
+function formatJson(value: unknown): string {
+  return value === null || value === undefined ? "—" : JSON.stringify(value, null, 2);
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) return "—";
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 117)}...` : text;
+}
+
+function DiffList({ entries, emptyLabel }: { entries: JsonDiffEntry[]; emptyLabel: string }) {
+  if (entries.length === 0) {
+    return <Text as="p" variant="bodySm" tone="subdued">{emptyLabel}</Text>;
+  }
+
+  return (
+    <BlockStack gap="100">
+      {entries.map((entry) => (
+        <InlineStack key={entry.path} gap="200" blockAlign="center" wrap={false}>
+          <Badge tone={entry.kind === "added" ? "success" : entry.kind === "removed" ? "critical" : "warning"}>
+            {entry.kind}
+          </Badge>
+          <Text as="span" variant="bodySm" fontWeight="semibold">{entry.path}</Text>
+          <Text as="span" variant="bodySm" tone="subdued">
+            {formatDiffValue(entry.before)} → {formatDiffValue(entry.after)}
+          </Text>
+        </InlineStack>
+      ))}
+    </BlockStack>
+  );
+}
+
+export default function WorkflowRecorderPage() {
+  const { enabled, available, recordings, selected, comparison } = useLoaderData<WorkflowRecorderLoaderData>();
+  const actionData = useActionData<ActionData>();
+  const submit = useSubmit();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+  const { t } = useTranslation();
+
+  const [replayTarget, setReplayTarget] = useState<"current" | "url">("current");
+  const [replayUrl, setReplayUrl] = useState("");
+
+  const isSubmitting = navigation.state === "submitting";
+
+  const statusBadge = (status: number | null, error: string | null) => (
+    <Badge tone={error || !status || status >= 400 ? "critical" : "success"}>
+      {status ? String(status) : t("workflowRecorder.noStatus")}
+    </Badge>
+  );
+
+  return (
+    <Page
+      title={t("workflowRecorder.title")}
+      subtitle={t("workflowRecorder.subtitle")}
+      backAction={{ content: t("nav.settings"), url: "/app/settings" }}
+    >
+      <Layout>
+        {!available && (
+          <Layout.Section>
+            <Banner tone="info" title={t("workflowRecorder.professionalOnly")}>
+              <p>{t("workflowRecorder.professionalOnlyDesc")}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.message && (
+          <Layout.Section>
+            <Banner tone={actionData.success ? "success" : "critical"}>
+              <p>{actionData.message}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text variant="headingMd" as="h2">{t("workflowRecorder.recording")}</Text>
+                  <Badge tone={enabled ? "success" : undefined}>
+                    {enabled ? t("workflowRecorder.on") : t("workflowRecorder.off")}
+                  </Badge>
+                </InlineStack>
+                <Button
+                  disabled={!available}
+                  loading={isSubmitting && navigation.formData?.get("_action") === "toggle"}
+                  tone={enabled ? "critical" : undefined}
+                  onClick={() => submit({ _action: "toggle", enabled: String(!enabled) }, { method: "post" })}
+                >
+                  {enabled ? t("workflowRecorder.stop") : t("workflowRecorder.start")}
+                </Button>
+              </InlineStack>
+              <Text variant="bodySm" as="p" tone="subdued">
+                {t("workflowRecorder.privacyNote")}
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">{t("workflowRecorder.recordings")}</Text>
+              {recordings.length === 0 && (
+                <Text variant="bodySm" as="p" tone="subdued">{t("workflowRecorder.empty")}</Text>
+              )}
+              {recordings.map((recording) => (
+                <Box
+                  key={recording.id}
+                  padding="200"
+                  borderRadius="200"
+                  background={selected?.id === recording.id ? "bg-surface-selected" : undefined}
+                >
+                  <InlineStack align="space-between" blockAlign="center" wrap={false}>
+                    <BlockStack gap="100">
+                      <InlineStack gap="200" blockAlign="center">
+                        {statusBadge(recording.status, recording.error)}
+                        {recording.source === "replay" && <Badge tone="info">{t("workflowRecorder.replay")}</Badge>}
+                        {recording.intent && <Badge>{recording.intent}</Badge>}
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {new Date(recording.createdAt).toLocaleString()} · {recording.latencyMs} ms
+                        </Text>
+                      </InlineStack>
+                      <Text as="p" variant="bodySm" truncate>
+                        {recording.userMessage || recording.maskedUrl}
+                      </Text>
+                    </BlockStack>
+                    <Button variant="plain" onClick={() => navigate(`/app/workflow-recorder?id=${recording.id}`)}>
+                      {t("workflowRecorder.view")}
+                    </Button>
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {selected && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="400">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text variant="headingMd" as="h2">{t("workflowRecorder.details")}</Text>
+                  {statusBadge(selected.status, selected.error)}
+                </InlineStack>
+                <Text variant="bodySm" as="p">
+                  <strong>{t("workflowRecorder.webhook")}:</strong> {selected.maskedUrl}
+                </Text>
+                {selected.error && (
+                  <Text variant="bodySm" as="p" tone="critical">
+                    <strong>{t("workflowRecorder.error")}:</strong> {selected.error}
+                  </Text>
+                )}
+                {selected.warnings.length > 0 && (
+                  <BlockStack gap="100">
+                    <Text variant="headingSm" as="h3">{t("workflowRecorder.warnings")}</Text>
+                    {selected.warnings.map((warning, index) => (
+                      <Text key={`${warning.field}-${index}`} variant="bodySm" as="p" tone="caution">
+                        {warning.field}: {warning.issue}{warning.reason ? ` (${warning.reason})` : ""}
+                      </Text>
+                    ))}
+                  </BlockStack>
+                )}
+
+                <BlockStack gap="200">
+                  <Text variant="headingSm" as="h3">{t("workflowRecorder.request")}</Text>
+                  <Box background="bg-surface-secondary" padding="300" borderRadius="200" overflowX="scroll">
+                    <pre style={{ margin: 0, fontSize: 12 }}>{formatJson(selected.request)}</pre>
+                  </Box>
+                </BlockStack>
+
+                <BlockStack gap="200">
+                  <Text variant="headingSm" as="h3">{t("workflowRecorder.response")}</Text>
+                  <Box background="bg-surface-secondary" padding="300" borderRadius="200" overflowX="scroll">
+                    <pre style={{ margin: 0, fontSize: 12 }}>{formatJson(selected.response)}</pre>
+                  </Box>
+                </BlockStack>
+
+                <Divider />
+
+                <BlockStack gap="300">
+                  <Text variant="headingSm" as="h3">{t("workflowRecorder.replayTitle")}</Text>
+                  <Text variant="bodySm" as="p" tone="subdued">{t("workflowRecorder.replayDesc")}</Text>
+                  <Select
+                    label={t("workflowRecorder.replayTarget")}
+                    value={replayTarget}
+                    options={[
+                      {
+                        label: `${t("workflowRecorder.currentWebhook")}${selected.currentWebhook ? ` (${selected.currentWebhook})` : ""}`,
+                        value: "current",
+                        disabled: !selected.currentWebhook
+                      },
+                      { label: t("workflowRecorder.otherUrl"), value: "url" }
+                    ]}
+                    onChange={(value) => setReplayTarget(value as "current" | "url")}
+                  />
+                  {replayTarget === "url" && (
+                    <TextField
+                      label={t("workflowRecorder.webhookUrl")}
+                      value={replayUrl}
+                      onChange={setReplayUrl}
+                      placeholder="https://"
+                      autoComplete="off"
+                      type="url"
+                    />
+                  )}
+                  <InlineStack>
+                    <Button
+                      variant="primary"
+                      disabled={!available}
+                      loading={isSubmitting && navigation.formData?.get("_action") === "replay"}
+                      onClick={() => submit(
+                        { _action: "replay", id: selected.id, target: replayTarget, webhookUrl: replayUrl },
+                        { method: "post" }
+                      )}
+                    >
+                      {t("workflowRecorder.replayButton")}
+                    </Button>
+                  </InlineStack>
+                </BlockStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {selected && comparison && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Text variant="headingMd" as="h2">{t("workflowRecorder.diff")}</Text>
+                  <Button variant="plain" onClick={() => navigate(`/app/workflow-recorder?id=${comparison.against.id}`)}>
+                    {new Date(comparison.against.createdAt).toLocaleString()} ({comparison.against.source})
+                  </Button>
+                </InlineStack>
+                <Text variant="headingSm" as="h3">{t("workflowRecorder.response")}</Text>
+                <DiffList entries={comparison.responseDiff} emptyLabel={t("workflowRecorder.noDifferences")} />
+                <Text variant="headingSm" as="h3">{t("workflowRecorder.request")}</Text>
+                <DiffList entries={comparison.requestDiff} emptyLabel={t("workflowRecorder.noDifferences")} />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
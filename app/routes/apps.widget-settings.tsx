@@ -66,7 +66,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }
 
     return json(
-      { settings },
+      { settings: { ...settings, webhookSigningSecret: undefined } },
       {
         headers: mergeSecurityHeaders(
           getSecureCorsHeaders(request),
@@ -296,7 +296,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     // Create N8N service instance with custom webhook URL if provided
     const { N8NService } = await import("../services/n8n.service.server");
-    const customN8NService = new N8NService(webhookUrl);
+    const { getWebhookSigningSecret } = await import("../lib/webhook-signing.server");
+    const customN8NService = new N8NService(webhookUrl, undefined, {
+      signingSecret: await getWebhookSigningSecret(shopDomain, settings?.webhookSigningSecret),
+      recordCalls: !!settings?.workflowRecorderEnabled
+    });
 
     // Process message through N8N service
     const n8nResponse = await customN8NService.processUserMessage({
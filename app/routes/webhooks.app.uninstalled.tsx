@@ -38,11 +38,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         widgetSettings: 0,
         productEmbeddings: 0,
         chatMessages: 0,
+        handoffRequests: 0,
+        offlineMessages: 0,
+        transcriptDeliveries: 0,
+        leads: 0,
         chatSessions: 0,
         userProfiles: 0,
         chatAnalytics: 0,
         conversations: 0,
         byokUsage: 0,
+        guardrailViolations: 0,
+        responseCache: 0,
+        webhookHealth: 0,
+        workflowRecordings: 0,
+        knowledgeEntries: 0,
+        knowledgeSync: 0,
+        shopPolicies: 0,
+        customIntents: 0,
       };
 
       // Find all chat sessions first (needed for foreign key cleanup)
@@ -61,6 +73,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         deletionStats.chatMessages = deletedMessages.count;
       }
 
+      // Delete handoff requests (transcript copies of the sessions)
+      const deletedHandoffs = await tx.handoffRequest.deleteMany({
+        where: { shop },
+      });
+      deletionStats.handoffRequests = deletedHandoffs.count;
+
+      // Delete offline messages left outside business hours
+      const deletedOfflineMessages = await tx.offlineMessage.deleteMany({
+        where: { shop },
+      });
+      deletionStats.offlineMessages = deletedOfflineMessages.count;
+
+      // Delete transcript email history
+      const deletedDeliveries = await tx.transcriptDelivery.deleteMany({
+        where: { shop },
+      });
+      deletionStats.transcriptDeliveries = deletedDeliveries.count;
+
+      // Delete emails captured in the chat
+      const deletedLeads = await tx.lead.deleteMany({
+        where: { shop },
+      });
+      deletionStats.leads = deletedLeads.count;
+
       // Delete chat sessions
       const deletedSessions = await tx.chatSession.deleteMany({
         where: { shop },
@@ -103,6 +139,57 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
       deletionStats.byokUsage = deletedByokUsage.count;
 
+      // Delete guardrail violation records
+      const deletedViolations = await tx.guardrailViolation.deleteMany({
+        where: { shop },
+      });
+      deletionStats.guardrailViolations = deletedViolations.count;
+
+      // Delete cached responses
+      const deletedCache = await tx.responseCache.deleteMany({
+        where: { shop },
+      });
+      deletionStats.responseCache = deletedCache.count;
+
+      // Delete webhook health records
+      const deletedHealth = await tx.webhookHealth.deleteMany({
+        where: { shop },
+      });
+      deletionStats.webhookHealth = deletedHealth.count;
+
+      // Delete workflow recordings
+      const deletedRecordings = await tx.workflowRecording.deleteMany({
+        where: { shop },
+      });
+      deletionStats.workflowRecordings = deletedRecordings.count;
+
+      // Delete knowledge base chunks and entries
+      await tx.knowledgeChunk.deleteMany({
+        where: { shop },
+      });
+      const deletedKnowledge = await tx.knowledgeEntry.deleteMany({
+        where: { shop },
+      });
+      deletionStats.knowledgeEntries = deletedKnowledge.count;
+
+      // Delete store content sync state
+      const deletedSync = await tx.knowledgeSync.deleteMany({
+        where: { shop },
+      });
+      deletionStats.knowledgeSync = deletedSync.count;
+
+      // Delete stored policies and overrides
+      const deletedPolicies = await tx.shopPolicy.deleteMany({
+        where: { shop },
+      });
+      deletionStats.shopPolicies = deletedPolicies.count;
+
+      // Delete custom intents and their canned replies
+      const deletedCustomIntents = await tx.customIntent.deleteMany({
+        where: { shop },
+      });
+      deletionStats.customIntents = deletedCustomIntents.count;
+
       // Delete sessions
       const deletedSessionRecords = await tx.session.deleteMany({
         where: { shop },
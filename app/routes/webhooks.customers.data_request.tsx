@@ -66,6 +66,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       profiles: [],
       chat_sessions: [],
       chat_messages: [],
+      leads: [],
       analytics: [],
     };
 
@@ -126,6 +127,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
+    // Collect emails left in the chat (lead form)
+    const leads = await db.lead.findMany({
+      where: {
+        shop,
+        OR: [
+          ...(customerEmail ? [{ email: customerEmail.toLowerCase() }] : []),
+          ...(customerId ? [{ shopifyCustomerId: `gid://shopify/Customer/${customerId}` }] : []),
+        ],
+      },
+    });
+
+    customerData.leads = leads.map((lead) => ({
+      email: lead.email,
+      first_name: lead.firstName,
+      marketing_consent: lead.marketingConsent,
+      consent_text: lead.consentText,
+      consented_at: lead.consentedAt?.toISOString() ?? null,
+      created_at: lead.createdAt.toISOString(),
+    }));
+
     // Collect aggregated analytics data (if it contains customer-specific info)
     const analytics = await db.chatAnalytics.findMany({
       where: { shop },
@@ -145,6 +166,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       profileCount: customerData.profiles.length,
       sessionCount: customerData.chat_sessions.length,
       messageCount: customerData.chat_messages.length,
+      leadCount: customerData.leads.length,
       analyticsCount: customerData.analytics.length
     }, "Customer data collected successfully");
 
@@ -67,7 +67,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       },
     });
 
-    const profileIds = userProfiles.map((p) => p.id);
+    // Emails the customer left in the chat (their profile may be anonymous)
+    const customerLeads = await db.lead.findMany({
+      where: {
+        shop,
+        OR: [
+          ...(customerEmail ? [{ email: customerEmail.toLowerCase() }] : []),
+          ...(customerId ? [{ shopifyCustomerId: `gid://shopify/Customer/${customerId}` }] : []),
+        ],
+      },
+      select: { userProfileId: true },
+    });
+
+    const profileIds = [...new Set([
+      ...userProfiles.map((p) => p.id),
+      ...customerLeads.map((lead) => lead.userProfileId),
+    ])];
 
     webhookLogger.info({
       profileCount: profileIds.length
@@ -104,7 +119,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           });
         }
 
-        // Step 4: Delete all user profiles
+        // Step 4: Delete all user profiles (their leads are deleted with them)
         const deletedProfiles = await tx.userProfile.deleteMany({
           where: {
             id: { in: profileIds },
@@ -0,0 +1,78 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { invalidateResponseCache, PRODUCT_CACHE_INTENTS } from "../services/response-cache.service.server";
+import {
+  deleteProductKnowledge,
+  isProductMetafieldSyncEnabled,
+  startKnowledgeSync,
+} from "../services/knowledge-sync.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Products Webhook (products/create, products/update, products/delete)
+ *
+ * Cached bestseller / new arrival / sale / recommendation answers may list
+ * products that changed, so they are dropped for the shop. When product
+ * metafields are synced into the knowledge base, updated products are
+ * re-synced and deleted products lose their entries.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "products" });
+
+  try {
+    const { shop, topic, admin, payload } = await authenticate.webhook(request);
+
+    webhookLogger.info({ shop, topic }, "Webhook authenticated successfully");
+
+    try {
+      if (await isProductMetafieldSyncEnabled(shop)) {
+        if (topic === "PRODUCTS_DELETE" && payload?.id) {
+          await deleteProductKnowledge(shop, `gid://shopify/Product/${payload.id}`);
+        } else if (admin) {
+          await startKnowledgeSync(shop, admin, { force: true, sources: ["metafields"], reason: "products_webhook" });
+        }
+      }
+    } catch (error) {
+      webhookLogger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop
+      }, "⚠️ Failed to sync product metafields (non-blocking)");
+    }
+
+    const deleted = await invalidateResponseCache(shop, {
+      intents: PRODUCT_CACHE_INTENTS,
+      reason: String(topic).toLowerCase(),
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      shop,
+      invalidated: deleted
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...getWebhookSecurityHeaders()
+      }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error processing products webhook");
+
+    return new Response(JSON.stringify({
+      error: "Error processing products webhook",
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 200, // Return 200 to prevent retries
+      headers: {
+        "Content-Type": "application/json",
+        ...getWebhookSecurityHeaders()
+      }
+    });
+  }
+};
@@ -40,11 +40,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         widgetSettings: 0,
         productEmbeddings: 0,
         chatMessages: 0,
+        handoffRequests: 0,
+        offlineMessages: 0,
+        transcriptDeliveries: 0,
+        leads: 0,
         chatSessions: 0,
         userProfiles: 0,
         chatAnalytics: 0,
         conversations: 0,
         byokUsage: 0,
+        guardrailViolations: 0,
+        responseCache: 0,
+        webhookHealth: 0,
+        workflowRecordings: 0,
+        knowledgeEntries: 0,
+        knowledgeSync: 0,
+        shopPolicies: 0,
+        customIntents: 0,
       };
 
       // Step 1: Delete all chat messages for this shop
@@ -63,7 +75,27 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         deletionStats.chatMessages = deletedMessages.count;
       }
 
-      // Step 2: Delete all chat sessions
+      // Step 2: Delete all handoff requests, offline messages, transcript emails, leads and chat sessions
+      const deletedHandoffs = await tx.handoffRequest.deleteMany({
+        where: { shop },
+      });
+      deletionStats.handoffRequests = deletedHandoffs.count;
+
+      const deletedOfflineMessages = await tx.offlineMessage.deleteMany({
+        where: { shop },
+      });
+      deletionStats.offlineMessages = deletedOfflineMessages.count;
+
+      const deletedDeliveries = await tx.transcriptDelivery.deleteMany({
+        where: { shop },
+      });
+      deletionStats.transcriptDeliveries = deletedDeliveries.count;
+
+      const deletedLeads = await tx.lead.deleteMany({
+        where: { shop },
+      });
+      deletionStats.leads = deletedLeads.count;
+
       const deletedSessions = await tx.chatSession.deleteMany({
         where: { shop },
       });
@@ -105,6 +137,57 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
       deletionStats.byokUsage = deletedByokUsage.count;
 
+      // Delete guardrail violation records
+      const deletedViolations = await tx.guardrailViolation.deleteMany({
+        where: { shop },
+      });
+      deletionStats.guardrailViolations = deletedViolations.count;
+
+      // Delete cached responses
+      const deletedCache = await tx.responseCache.deleteMany({
+        where: { shop },
+      });
+      deletionStats.responseCache = deletedCache.count;
+
+      // Delete webhook health records
+      const deletedHealth = await tx.webhookHealth.deleteMany({
+        where: { shop },
+      });
+      deletionStats.webhookHealth = deletedHealth.count;
+
+      // Delete workflow recordings
+      const deletedRecordings = await tx.workflowRecording.deleteMany({
+        where: { shop },
+      });
+      deletionStats.workflowRecordings = deletedRecordings.count;
+
+      // Delete knowledge base chunks and entries
+      await tx.knowledgeChunk.deleteMany({
+        where: { shop },
+      });
+      const deletedKnowledge = await tx.knowledgeEntry.deleteMany({
+        where: { shop },
+      });
+      deletionStats.knowledgeEntries = deletedKnowledge.count;
+
+      // Delete store content sync state
+      const deletedSync = await tx.knowledgeSync.deleteMany({
+        where: { shop },
+      });
+      deletionStats.knowledgeSync = deletedSync.count;
+
+      // Delete stored policies and overrides
+      const deletedPolicies = await tx.shopPolicy.deleteMany({
+        where: { shop },
+      });
+      deletionStats.shopPolicies = deletedPolicies.count;
+
+      // Delete custom intents and their canned replies
+      const deletedCustomIntents = await tx.customIntent.deleteMany({
+        where: { shop },
+      });
+      deletionStats.customIntents = deletedCustomIntents.count;
+
       // Step 9: Delete all sessions
       // Note: This might already be done by webhooks.app.uninstalled, but we do it again to be sure
       const deletedSessionRecords = await tx.session.deleteMany({
@@ -0,0 +1,66 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { refreshShopPolicies } from "../services/shop-policy.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Shop Update Webhook (shop/update)
+ *
+ * Store details changed: re-fetch the shop's policies so every instance
+ * answers from the new text. Unchanged policies keep their hash and cached
+ * support answers stay valid.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "shop/update" });
+
+  try {
+    const { shop, topic, admin } = await authenticate.webhook(request);
+
+    webhookLogger.info({ shop, topic }, "Webhook authenticated successfully");
+
+    if (!admin) {
+      webhookLogger.warn({ shop }, "Policy refresh skipped - no session");
+      return new Response(JSON.stringify({ success: true, shop, refreshed: false }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...getWebhookSecurityHeaders()
+        }
+      });
+    }
+
+    const changed = await refreshShopPolicies(shop, admin);
+
+    return new Response(JSON.stringify({
+      success: true,
+      shop,
+      refreshed: true,
+      changed
+    }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...getWebhookSecurityHeaders()
+      }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error processing shop update webhook");
+
+    return new Response(JSON.stringify({
+      error: "Error processing shop update webhook",
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 200, // Return 200 to prevent retries
+      headers: {
+        "Content-Type": "application/json",
+        ...getWebhookSecurityHeaders()
+      }
+    });
+  }
+};
@@ -0,0 +1,274 @@
+/**
+ * Agent Inbox Service
+ *
+ * Lets staff reply to shoppers from the Live inbox page while they are still
+ * on the storefront. Taking over a session records the staff member on the
+ * ChatSession (agentName/agentJoinedAt); while it is set the chat pipeline
+ * saves the shopper's messages without an AI reply (see the agentTakeover
+ * stage). Staff replies are stored as ChatMessage rows with role "agent" and
+ * picked up by the widget through /api/agent-messages.
+ */
+
+import type { ChatMessage } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { AGENT_INBOX } from '../config/limits';
+import { OPEN_HANDOFF_STATUSES, type HandoffReason, type HandoffStatus } from './handoff.service.server';
+
+const logger = createLogger({ service: 'AgentInboxService' });
+
+export const AGENT_ROLE = 'agent';
+
+export interface ActiveAgent {
+  name: string;
+  joinedAt: string;
+}
+
+export interface InboxSessionRow {
+  id: string;
+  lastMessageAt: Date;
+  messageCount: number;
+  lastMessage: { role: string; content: string } | null;
+  agent: ActiveAgent | null;
+  handoff: { id: string; status: HandoffStatus; reason: HandoffReason } | null;
+}
+
+export interface InboxMessage {
+  id: string;
+  role: string;
+  content: string;
+  agentName: string | null;
+  timestamp: string;
+}
+
+/**
+ * Staff messages the widget has not shown yet
+ */
+export interface AgentUpdates {
+  chatSessionId: string | null;
+  agent: ActiveAgent | null;
+  messages: InboxMessage[];
+}
+
+function activeSince(): Date {
+  return new Date(Date.now() - AGENT_INBOX.ACTIVE_SESSION_MINUTES * 60 * 1000);
+}
+
+function toActiveAgent(session: { agentName: string | null; agentJoinedAt: Date | null }): ActiveAgent | null {
+  if (!session.agentJoinedAt) {
+    return null;
+  }
+  return { name: session.agentName || '', joinedAt: session.agentJoinedAt.toISOString() };
+}
+
+function toInboxMessage(message: Pick<ChatMessage, 'id' | 'role' | 'content' | 'metadata' | 'timestamp'>): InboxMessage {
+  let agentName: string | null = null;
+  if (message.role === AGENT_ROLE) {
+    try {
+      agentName = JSON.parse(message.metadata || '{}').agentName ?? null;
+    } catch {
+      // Keep the message without a name
+    }
+  }
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    agentName,
+    timestamp: message.timestamp.toISOString()
+  };
+}
+
+/**
+ * The chat session the widget is currently writing to
+ *
+ * Mirrors the reuse rule of personalizationService.getOrCreateChatSession:
+ * the shopper's latest unrated session with a message in the active window.
+ */
+export async function getWidgetChatSession(shop: string, widgetSessionId: string) {
+  return db.chatSession.findFirst({
+    where: {
+      shop,
+      rating: null,
+      lastMessageAt: { gt: activeSince() },
+      userProfile: { sessionId: widgetSessionId }
+    },
+    orderBy: { lastMessageAt: 'desc' },
+    select: { id: true, userProfileId: true, agentName: true, agentJoinedAt: true }
+  });
+}
+
+/**
+ * Poll used by the widget: who joined the conversation and their new messages
+ */
+export async function getAgentUpdates(shop: string, widgetSessionId: string, after: Date | null): Promise<AgentUpdates> {
+  const session = await getWidgetChatSession(shop, widgetSessionId);
+  if (!session) {
+    return { chatSessionId: null, agent: null, messages: [] };
+  }
+
+  const messages = await db.chatMessage.findMany({
+    where: {
+      sessionId: session.id,
+      role: AGENT_ROLE,
+      ...(after ? { timestamp: { gt: after } } : {})
+    },
+    orderBy: { timestamp: 'asc' },
+    take: AGENT_INBOX.MAX_MESSAGES
+  });
+
+  return {
+    chatSessionId: session.id,
+    agent: toActiveAgent(session),
+    messages: messages.map(toInboxMessage)
+  };
+}
+
+/**
+ * Sessions with recent messages, plus any session a staff member still holds
+ */
+export async function listActiveSessions(shop: string): Promise<InboxSessionRow[]> {
+  const sessions = await db.chatSession.findMany({
+    where: {
+      shop,
+      OR: [
+        { lastMessageAt: { gt: activeSince() } },
+        { agentJoinedAt: { not: null } }
+      ]
+    },
+    orderBy: { lastMessageAt: 'desc' },
+    take: AGENT_INBOX.MAX_SESSIONS,
+    include: {
+      messages: {
+        orderBy: { timestamp: 'desc' },
+        take: 1,
+        select: { role: true, content: true }
+      },
+      handoffs: {
+        where: { status: { in: OPEN_HANDOFF_STATUSES } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { id: true, status: true, reason: true }
+      },
+      _count: { select: { messages: true } }
+    }
+  });
+
+  return sessions.map((session) => {
+    const handoff = session.handoffs[0];
+    return {
+      id: session.id,
+      lastMessageAt: session.lastMessageAt,
+      messageCount: session._count.messages,
+      lastMessage: session.messages[0] ?? null,
+      agent: toActiveAgent(session),
+      handoff: handoff
+        ? { id: handoff.id, status: handoff.status as HandoffStatus, reason: handoff.reason as HandoffReason }
+        : null
+    };
+  });
+}
+
+/**
+ * Latest messages of one of the shop's sessions, oldest first
+ *
+ * @returns null when the session does not belong to the shop
+ */
+export async function getInboxMessages(shop: string, chatSessionId: string): Promise<InboxMessage[] | null> {
+  const session = await db.chatSession.findFirst({ where: { id: chatSessionId, shop }, select: { id: true } });
+  if (!session) {
+    return null;
+  }
+
+  const messages = await db.chatMessage.findMany({
+    where: { sessionId: chatSessionId },
+    orderBy: { timestamp: 'desc' },
+    take: AGENT_INBOX.MAX_MESSAGES
+  });
+
+  return messages.reverse().map(toInboxMessage);
+}
+
+/**
+ * Pause AI replies and put a staff member in the conversation
+ * (the session's open handoff request is assigned to them)
+ */
+export async function takeOverSession(shop: string, chatSessionId: string, agentName: string): Promise<boolean> {
+  const name = agentName.trim();
+  const now = new Date();
+
+  const result = await db.chatSession.updateMany({
+    where: { id: chatSessionId, shop },
+    data: { agentName: name || null, agentJoinedAt: now }
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  await db.handoffRequest.updateMany({
+    where: { shop, chatSessionId, status: { in: OPEN_HANDOFF_STATUSES } },
+    data: { status: 'assigned', assignedTo: name || null, assignedAt: now }
+  });
+
+  logger.info({ shop, chatSessionId }, '🧑‍💼 Staff took over the conversation');
+  return true;
+}
+
+/**
+ * Hand the conversation back to the assistant
+ */
+export async function releaseSession(shop: string, chatSessionId: string): Promise<boolean> {
+  const result = await db.chatSession.updateMany({
+    where: { id: chatSessionId, shop },
+    data: { agentName: null, agentJoinedAt: null }
+  });
+  if (result.count > 0) {
+    logger.info({ shop, chatSessionId }, '🤖 Conversation handed back to the assistant');
+  }
+  return result.count > 0;
+}
+
+/**
+ * Send a staff reply to the shopper (takes the session over if nobody holds it)
+ *
+ * @returns null when the session does not belong to the shop or the message is empty
+ */
+export async function sendAgentMessage(
+  shop: string,
+  chatSessionId: string,
+  agentName: string,
+  content: string
+): Promise<InboxMessage | null> {
+  const text = content.trim().substring(0, AGENT_INBOX.MAX_MESSAGE_CHARS);
+  if (!text) {
+    return null;
+  }
+
+  const session = await db.chatSession.findFirst({
+    where: { id: chatSessionId, shop },
+    select: { id: true, agentJoinedAt: true }
+  });
+  if (!session) {
+    return null;
+  }
+
+  if (!session.agentJoinedAt) {
+    await takeOverSession(shop, chatSessionId, agentName);
+  }
+
+  const message = await db.chatMessage.create({
+    data: {
+      sessionId: chatSessionId,
+      role: AGENT_ROLE,
+      content: text,
+      metadata: JSON.stringify({ agentName: agentName.trim() || null })
+    }
+  });
+
+  await db.chatSession.update({
+    where: { id: chatSessionId },
+    data: { lastMessageAt: message.timestamp }
+  });
+
+  return toInboxMessage(message);
+}
@@ -1,5 +1,6 @@
 import { prisma as db } from "../db.server";
 import { logError, createLogger } from '../lib/logger.server';
+import { normalizeIntentName } from './intent-classifier.service.server';
 
 export interface AnalyticsOverview {
   totalSessions: number;
@@ -60,6 +61,28 @@ export interface DailyTrend {
   avgConfidence: number;
 }
 
+export interface RecommendationAccuracy {
+  checked: number;
+  dropped: number;
+  correctedFields: number;
+  accuracyRate: number; // % of checked recommendations that were real products
+  fields: { field: string; count: number }[];
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number; // % of cacheable messages answered from the cache
+}
+
+export interface LeadStats {
+  captured: number;
+  subscribed: number; // gave email marketing consent
+  synced: number;
+  failed: number;
+  consentRate: number; // % of captured leads that subscribed
+}
+
 export interface AnalyticsPeriod {
   startDate: Date;
   endDate: Date;
@@ -380,7 +403,9 @@ export class AnalyticsService {
         try {
           // FIX: Add fallback for empty/null values
           const intents = JSON.parse(record.topIntents || '{}');
-          Object.entries(intents).forEach(([intent, count]) => {
+          Object.entries(intents).forEach(([name, count]) => {
+            // Older rows may use the legacy names (SHIPPING, SUPPORT, OTHER)
+            const intent = normalizeIntentName(name) ?? name;
             intentCounts[intent] = (intentCounts[intent] || 0) + (count as number);
             totalIntents += count as number;
           });
@@ -498,6 +523,126 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get how often workflow recommendations had to be dropped or corrected
+   */
+  async getRecommendationAccuracy(shop: string, period: AnalyticsPeriod): Promise<RecommendationAccuracy> {
+    const result: RecommendationAccuracy = { checked: 0, dropped: 0, correctedFields: 0, accuracyRate: 100, fields: [] };
+
+    try {
+      const data = await db.chatAnalytics.findMany({
+        where: {
+          shop,
+          date: {
+            gte: period.startDate,
+            lte: period.endDate,
+          },
+        },
+      });
+
+      const fieldCounts: Record<string, number> = {};
+
+      data.forEach((record: any) => {
+        try {
+          const accuracy = JSON.parse(record.recommendationAccuracy || '{}');
+          result.checked += accuracy.checked || 0;
+          result.dropped += accuracy.dropped || 0;
+          result.correctedFields += accuracy.correctedFields || 0;
+          Object.entries(accuracy.fields || {}).forEach(([field, count]) => {
+            fieldCounts[field] = (fieldCounts[field] || 0) + (count as number);
+          });
+        } catch {
+          // Skip malformed rows
+        }
+      });
+
+      result.accuracyRate = result.checked > 0
+        ? Math.round(((result.checked - result.dropped) / result.checked) * 100 * 10) / 10
+        : 100;
+      result.fields = Object.entries(fieldCounts)
+        .map(([field, count]) => ({ field, count }))
+        .sort((a, b) => b.count - a.count);
+
+      return result;
+    } catch (error: any) {
+      logError(error, 'Error getting recommendation accuracy');
+      return result;
+    }
+  }
+
+  /**
+   * Get response cache hit rate for cacheable messages
+   */
+  async getResponseCacheStats(shop: string, period: AnalyticsPeriod): Promise<ResponseCacheStats> {
+    const stats: ResponseCacheStats = { hits: 0, misses: 0, hitRate: 0 };
+
+    try {
+      const data = await db.chatAnalytics.findMany({
+        where: {
+          shop,
+          date: {
+            gte: period.startDate,
+            lte: period.endDate,
+          },
+        },
+      });
+
+      data.forEach((record: any) => {
+        try {
+          const cache = JSON.parse(record.responseCache || '{}');
+          stats.hits += cache.hit || 0;
+          stats.misses += cache.miss || 0;
+        } catch {
+          // Skip malformed rows
+        }
+      });
+
+      const total = stats.hits + stats.misses;
+      stats.hitRate = total > 0 ? Math.round((stats.hits / total) * 100 * 10) / 10 : 0;
+
+      return stats;
+    } catch (error: any) {
+      logError(error, 'Error getting response cache stats');
+      return stats;
+    }
+  }
+
+  /**
+   * Get emails captured in the chat and how many subscribed or synced to Shopify
+   */
+  async getLeadStats(shop: string, period: AnalyticsPeriod): Promise<LeadStats> {
+    const stats: LeadStats = { captured: 0, subscribed: 0, synced: 0, failed: 0, consentRate: 0 };
+
+    try {
+      const where = {
+        shop,
+        createdAt: {
+          gte: period.startDate,
+          lte: period.endDate,
+        },
+      };
+
+      const [captured, subscribed, byStatus] = await Promise.all([
+        db.lead.count({ where }),
+        db.lead.count({ where: { ...where, marketingConsent: true } }),
+        db.lead.groupBy({ by: ['syncStatus'], where, _count: { _all: true } }),
+      ]);
+
+      stats.captured = captured;
+      stats.subscribed = subscribed;
+      byStatus.forEach((row) => {
+        if (row.syncStatus === 'synced') stats.synced = row._count._all;
+        if (row.syncStatus === 'failed') stats.failed = row._count._all;
+      });
+      stats.consentRate = captured > 0 ? Math.round((subscribed / captured) * 100 * 10) / 10 : 0;
+
+      return stats;
+    } catch (error: any) {
+      logError(error, 'Error getting lead stats');
+      return stats;
+    }
+  }
+
   /**
    * Get top clicked products
    */
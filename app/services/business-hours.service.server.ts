@@ -0,0 +1,107 @@
+/**
+ * Business Hours Service
+ *
+ * Team availability per shop and the offline messages shoppers leave while
+ * the shop is closed. Hours live on WidgetSettings.businessHours (see
+ * lib/business-hours.server); outside them the widget swaps the "Talk to
+ * Support" handoff for a name / email / question form, stored here with the
+ * chat session and listed in the admin with an unread count.
+ */
+
+import type { OfflineMessage } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { BUSINESS_HOURS } from '../config/limits';
+import {
+  getAvailability,
+  parseBusinessHours,
+  serializeBusinessHours,
+  type Availability,
+  type BusinessHoursConfig,
+} from '../lib/business-hours.server';
+import type { OfflineMessageInput } from '../lib/validation.server';
+
+const logger = createLogger({ service: 'BusinessHoursService' });
+
+export async function getShopBusinessHours(shop: string): Promise<BusinessHoursConfig> {
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop },
+    select: { businessHours: true }
+  });
+  return parseBusinessHours(settings?.businessHours);
+}
+
+export async function getShopAvailability(shop: string, now: Date = new Date()): Promise<Availability> {
+  return getAvailability(await getShopBusinessHours(shop), now);
+}
+
+export async function saveBusinessHours(shop: string, hours: BusinessHoursConfig): Promise<void> {
+  const businessHours = serializeBusinessHours(hours);
+  await db.widgetSettings.upsert({
+    where: { shop },
+    update: { businessHours },
+    create: { shop, businessHours }
+  });
+  logger.info({ shop, enabled: hours.enabled, timezone: hours.timezone }, '🕘 Business hours saved');
+}
+
+/**
+ * Store a message left from the widget outside business hours
+ *
+ * @returns null when the session does not belong to the shop
+ */
+export async function createOfflineMessage(input: OfflineMessageInput): Promise<OfflineMessage | null> {
+  const session = await db.chatSession.findFirst({
+    where: { id: input.chatSessionId, shop: input.shop },
+    select: { id: true }
+  });
+  if (!session) {
+    return null;
+  }
+
+  const message = await db.offlineMessage.create({
+    data: {
+      shop: input.shop,
+      chatSessionId: input.chatSessionId,
+      name: input.name || null,
+      email: input.email,
+      question: input.question
+    }
+  });
+
+  logger.info({ shop: input.shop, chatSessionId: input.chatSessionId }, '📨 Offline message captured');
+  return message;
+}
+
+export async function listOfflineMessages(shop: string): Promise<OfflineMessage[]> {
+  return db.offlineMessage.findMany({
+    where: { shop },
+    orderBy: { createdAt: 'desc' },
+    take: BUSINESS_HOURS.OFFLINE_MESSAGES_PAGE_SIZE
+  });
+}
+
+export async function countUnreadOfflineMessages(shop: string): Promise<number> {
+  return db.offlineMessage.count({ where: { shop, readAt: null } });
+}
+
+export async function markOfflineMessageRead(shop: string, id: string, read = true): Promise<boolean> {
+  const result = await db.offlineMessage.updateMany({
+    where: { id, shop },
+    data: { readAt: read ? new Date() : null }
+  });
+  return result.count > 0;
+}
+
+export async function markAllOfflineMessagesRead(shop: string): Promise<number> {
+  const result = await db.offlineMessage.updateMany({
+    where: { shop, readAt: null },
+    data: { readAt: new Date() }
+  });
+  return result.count;
+}
+
+export async function deleteOfflineMessage(shop: string, id: string): Promise<boolean> {
+  const result = await db.offlineMessage.deleteMany({ where: { id, shop } });
+  return result.count > 0;
+}
@@ -0,0 +1,76 @@
+/**
+ * Chat Pipeline - Agent Takeover Stage
+ *
+ * When a staff member has taken the conversation over from the Live inbox,
+ * the shopper's message is saved for them and the pipeline stops without an
+ * AI reply. Staff replies reach the widget through /api/agent-messages.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { personalizationService } from '../personalization.service';
+import { getIntentAnalyticsName } from '../intent-classifier.service.server';
+import { getWidgetChatSession } from '../agent-inbox.service.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'agentTakeover' });
+
+/**
+ * Agent takeover stage
+ */
+export async function agentTakeoverStage(state: ChatPipelineState): Promise<void> {
+  // Blocked messages still get the guardrail reply
+  if (state.response) {
+    return;
+  }
+
+  const { shop, message, source } = state.input;
+
+  let session: Awaited<ReturnType<typeof getWidgetChatSession>> = null;
+  try {
+    session = await getWidgetChatSession(shop, state.sessionId);
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Failed to check for a staff takeover (non-blocking)');
+    return;
+  }
+
+  if (!session?.agentJoinedAt) {
+    return;
+  }
+
+  state.chatSessionId = session.id;
+  state.userProfileId = session.userProfileId;
+  state.agent = { name: session.agentName || '', joinedAt: session.agentJoinedAt.toISOString() };
+
+  await personalizationService.saveChatMessage(session.id, 'user', message, {
+    intent: getIntentAnalyticsName(state.intent),
+    sentiment: state.sentiment,
+    metadata: {
+      language: state.language,
+      source,
+      agentName: state.agent.name || undefined,
+      timestamp: new Date().toISOString()
+    }
+  });
+
+  logger.info({ shop, chatSessionId: session.id }, '🧑‍💼 Message forwarded to staff (AI paused)');
+
+  state.halt = {
+    status: 200,
+    body: {
+      response: '',
+      message: '',
+      messageType: 'agent_mode',
+      agent: state.agent,
+      recommendations: [],
+      quickReplies: [],
+      suggestedActions: [],
+      timestamp: new Date().toISOString(),
+      sessionId: state.sessionId,
+      chatSessionId: session.id,
+      success: true
+    }
+  };
+}
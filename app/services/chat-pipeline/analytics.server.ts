@@ -0,0 +1,42 @@
+/**
+ * Chat Pipeline - Analytics Stage
+ *
+ * Updates the aggregated ChatAnalytics row used by the dashboard.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { personalizationService } from '../personalization.service';
+import { getIntentAnalyticsName } from '../intent-classifier.service.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'analytics' });
+
+/**
+ * Analytics stage
+ */
+export async function analyticsStage(state: ChatPipelineState): Promise<void> {
+  try {
+    await personalizationService.updateAnalytics(state.input.shop, {
+      intent: getIntentAnalyticsName(state.intent),
+      sentiment: state.sentiment,
+      responseTime: state.responseTime,
+      confidence: state.response?.confidence || 0.7,
+      workflowType: state.workflow?.workflowType || 'default',
+      isNewSession: state.isNewSession,
+      cacheStatus: state.cache?.status,
+      // Set by the verify stage whenever the reply carried product cards
+      recommendationCheck: state.recommendationCorrections
+        ? {
+            checked: state.recommendations.length +
+              state.recommendationCorrections.filter((c) => c.action === 'dropped').length,
+            corrections: state.recommendationCorrections
+          }
+        : undefined,
+    });
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : String(error),
+      shop: state.input.shop
+    }, '❌ Failed to update analytics (non-blocking)');
+  }
+}
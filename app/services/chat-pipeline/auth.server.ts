@@ -0,0 +1,203 @@
+/**
+ * Chat Pipeline - Auth / Limits Stage
+ *
+ * Resolves the shop's offline Admin API client, verifies an active app
+ * subscription and enforces the plan's monthly conversation limit.
+ * Both storefront chat endpoints go through the same checks.
+ */
+
+import { unauthenticated } from '../../shopify.server';
+import { prisma as db } from '../../db.server';
+import { createLogger } from '../../lib/logger.server';
+import { checkConversationLimit } from '../../lib/conversation-usage.server';
+import { getAllBillingNames, normalizePlanCode } from '../../lib/plans.config';
+import type { ChatPipelineState, PipelineAdminClient } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'authorize' });
+
+// Subscription lookups are cached per shop to avoid an Admin API call per message
+const SUBSCRIPTION_CACHE_TTL_MS = 5 * 60 * 1000;
+const subscriptionCache = new Map<string, { active: boolean; expiresAt: number }>();
+
+/**
+ * Check whether the shop has an active app subscription using the offline
+ * Admin API client (storefront requests never carry an admin session).
+ *
+ * DEVELOPMENT: Set SKIP_BILLING_CHECK=true to bypass billing in development
+ */
+export async function hasActiveSubscription(
+  shop: string,
+  admin: PipelineAdminClient
+): Promise<boolean> {
+  if (process.env.SKIP_BILLING_CHECK === "true") {
+    return true;
+  }
+
+  const cached = subscriptionCache.get(shop);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.active;
+  }
+
+  const response = await admin.graphql(`
+    #graphql
+    query activeSubscriptions {
+      currentAppInstallation {
+        activeSubscriptions {
+          name
+          status
+        }
+      }
+    }
+  `);
+  const data = (await response.json()) as any;
+  const subscriptions: Array<{ name: string; status: string }> =
+    data?.data?.currentAppInstallation?.activeSubscriptions || [];
+
+  const billingNames = getAllBillingNames() as string[];
+  const active = subscriptions.some(
+    (sub) => sub.status === 'ACTIVE' && billingNames.includes(sub.name)
+  );
+
+  subscriptionCache.set(shop, { active, expiresAt: Date.now() + SUBSCRIPTION_CACHE_TTL_MS });
+  return active;
+}
+
+/**
+ * Clear the cached subscription status (e.g. after a plan change)
+ */
+export function clearSubscriptionCache(shop?: string): void {
+  if (shop) {
+    subscriptionCache.delete(shop);
+  } else {
+    subscriptionCache.clear();
+  }
+}
+
+/**
+ * Auth / limits stage
+ */
+export async function authorizeStage(state: ChatPipelineState): Promise<void> {
+  const { shop } = state.input;
+
+  // Step 1: Offline session (app must be installed)
+  try {
+    const { admin, session } = await unauthenticated.admin(shop);
+    state.admin = admin as unknown as PipelineAdminClient;
+    state.accessToken = session?.accessToken;
+  } catch (error) {
+    logger.warn({
+      shop,
+      error: error instanceof Error ? error.message : String(error)
+    }, '⚠️ No offline session for shop');
+    state.halt = {
+      status: 401,
+      body: {
+        error: "Authentication required",
+        message: "Please install and configure the app in your Shopify admin to use the AI assistant.",
+        success: false
+      }
+    };
+    return;
+  }
+
+  // Step 2: Active subscription
+  // ✅ CRITICAL SECURITY FIX: Verify active billing subscription before processing
+  try {
+    const active = await hasActiveSubscription(shop, state.admin!);
+    if (!active) {
+      logger.warn({ shop }, '🚫 No active subscription');
+      state.halt = {
+        status: 402, // Payment Required
+        body: {
+          error: "Active subscription required",
+          message: "Please subscribe to a plan to use the AI assistant. Visit the app admin to select a plan.",
+          success: false
+        }
+      };
+      return;
+    }
+  } catch (billingError) {
+    // If billing check fails, we should deny access to be safe
+    logger.error({
+      shop,
+      error: billingError instanceof Error ? billingError.message : String(billingError)
+    }, '❌ Billing verification failed');
+    state.halt = {
+      status: 503, // Service Unavailable
+      body: {
+        error: "Unable to verify subscription",
+        message: "We're having trouble verifying your subscription. Please try again later.",
+        success: false
+      }
+    };
+    return;
+  }
+
+  // Step 3: Settings + conversation limit
+  try {
+    state.settings = await db.widgetSettings.findUnique({
+      where: { shop },
+    });
+  } catch (error) {
+    logger.debug({ shop }, 'Could not fetch settings from database');
+    state.settings = null;
+  }
+
+  state.plan = normalizePlanCode(state.settings?.plan);
+
+  try {
+    const limitCheck = await checkConversationLimit(shop, state.plan);
+
+    logger.info({
+      shop,
+      plan: state.plan,
+      conversationCount: limitCheck.count,
+      limit: limitCheck.limit,
+      percentUsed: limitCheck.limit === Infinity ? 0 : Math.round((limitCheck.count / limitCheck.limit) * 100)
+    }, '📊 Conversation usage check');
+
+    if (limitCheck.exceeded) {
+      logger.warn({
+        shop,
+        plan: state.plan,
+        conversationCount: limitCheck.count,
+        limit: limitCheck.limit
+      }, '🚫 Conversation limit exceeded');
+
+      state.halt = {
+        status: 429, // 429 Too Many Requests
+        body: {
+          error: "conversation_limit_exceeded",
+          message: `You've reached your monthly limit of ${limitCheck.limit.toLocaleString()} conversations. Upgrade to Professional Plan for unlimited conversations!`,
+          messageType: "limit_exceeded",
+          conversationsUsed: limitCheck.count,
+          conversationLimit: limitCheck.limit,
+          currentPlan: state.plan,
+          upgradeUrl: "/app/billing",
+          upgradeAvailable: true,
+          recommendations: [],
+          quickReplies: ["Upgrade to Professional", "View billing"],
+          success: false
+        }
+      };
+      return;
+    }
+
+    // Warn if approaching limit (90% or more)
+    if (limitCheck.limit !== Infinity && limitCheck.count >= limitCheck.limit * 0.9) {
+      logger.warn({
+        shop,
+        plan: state.plan,
+        conversationCount: limitCheck.count,
+        limit: limitCheck.limit,
+        percentUsed: Math.round((limitCheck.count / limitCheck.limit) * 100)
+      }, '⚠️ Conversation limit warning (90%+)');
+    }
+  } catch (limitCheckError) {
+    // Log error but don't block the conversation - graceful degradation
+    logger.error({
+      error: limitCheckError instanceof Error ? limitCheckError.message : String(limitCheckError),
+      shop
+    }, '❌ Failed to check conversation limit (non-blocking)');
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Chat Pipeline - Classify Stage
+ *
+ * Detects intent (through the shared intent classifier, with the shop's
+ * custom intents), sentiment and response language for the incoming message.
+ * Intent drives product retrieval and which generation branch is used.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { identifyLanguage, normalizeLocale } from '../../lib/language-id.server';
+import { LANGUAGE_DETECTION } from '../../config/limits';
+import {
+  DISCOVERY_INTENT_TYPES,
+  PRODUCT_QUESTION_INTENT_TYPES,
+  SUPPORT_INTENT_TYPES,
+  classifyIntent,
+  classifyIntentByRules,
+  getIntentAnalyticsName,
+} from '../intent-classifier.service.server';
+import { getShopCustomIntents, type CustomIntentConfig } from '../custom-intent.service.server';
+import type { ChatIntent, ChatIntentType, ChatPipelineState, ChatSentiment } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'classify' });
+
+// Support intents return text-only responses and DON'T need products
+export const SUPPORT_INTENTS: ChatIntentType[] = SUPPORT_INTENT_TYPES;
+
+// Product discovery and product questions fetch catalog products
+export const PRODUCT_INTENTS: ChatIntentType[] = [...DISCOVERY_INTENT_TYPES, ...PRODUCT_QUESTION_INTENT_TYPES];
+
+/**
+ * Rule-only intent detection (see the shared intent classifier)
+ */
+export function detectIntent(message: string): ChatIntent {
+  return classifyIntentByRules(message).intent;
+}
+
+// ✅ ADDED: Sentiment analysis helper
+export function analyzeSentiment(message: string): ChatSentiment {
+  const lower = message.toLowerCase();
+
+  // Positive indicators
+  if (/(love|great|amazing|excellent|perfect|awesome|thank|thanks|happy|good)/i.test(lower)) {
+    return "positive";
+  }
+
+  // Negative indicators
+  if (/(hate|bad|terrible|awful|disappointed|angry|problem|issue|wrong)/i.test(lower)) {
+    return "negative";
+  }
+
+  return "neutral";
+}
+
+/**
+ * Classify stage: intent, sentiment and language
+ */
+export async function classifyStage(state: ChatPipelineState): Promise<void> {
+  const { shop, message, context } = state.input;
+
+  let customIntents: CustomIntentConfig[] = [];
+  try {
+    customIntents = await getShopCustomIntents(shop);
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Failed to load custom intents (non-blocking)');
+  }
+
+  const classification = await classifyIntent(message, { customIntents });
+  state.intent = classification.intent;
+  state.intentConfidence = classification.confidence;
+  state.sentiment = analyzeSentiment(message);
+
+  const intent = state.intent;
+  state.customIntent = intent.type === 'CUSTOM'
+    ? customIntents.find((custom) => custom.key === intent.key)
+    : undefined;
+  state.isSupportIntent = SUPPORT_INTENTS.includes(state.intent.type);
+  // Custom intents only fetch products when the merchant set a product query
+  state.isProductIntent = state.customIntent
+    ? !!state.customIntent.productQuery
+    : PRODUCT_INTENTS.includes(state.intent.type);
+
+  // 🌍 LANGUAGE DETECTION FIX: Prioritize interface locale over message content
+  // This ensures quick buttons respond in the correct language
+  const localeLanguage = normalizeLocale(context.locale as string | undefined);
+  const messageLanguage = identifyLanguage(message);
+  state.language = localeLanguage ||
+    (messageLanguage.confidence >= LANGUAGE_DETECTION.MIN_CONFIDENCE ? messageLanguage.language : 'en');
+
+  logger.debug({
+    intent: getIntentAnalyticsName(state.intent),
+    intentConfidence: classification.confidence,
+    intentTier: classification.tier,
+    sentiment: state.sentiment,
+    contextLocale: context.locale,
+    localeLanguage,
+    messageLanguage: messageLanguage.language,
+    messageLanguageConfidence: messageLanguage.confidence,
+    language: state.language
+  }, 'Intent, sentiment, and language detected');
+}
@@ -0,0 +1,206 @@
+/**
+ * Chat Pipeline - Build Context Stage
+ *
+ * Loads shop policies, the shopper's profile and conversation history, and
+ * assembles the context object sent to the N8N workflow.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { PlanCode } from '../../lib/plans.config';
+import { resolveIntentRoute } from '../../lib/intent-routing.server';
+import { getLanguageName } from '../../lib/language-id.server';
+import { getAvailability, parseBusinessHours } from '../../lib/business-hours.server';
+import { parseLeadCaptureConfig } from '../../lib/lead-capture.server';
+import { personalizationService } from '../personalization.service';
+import { extractContactCard, getShopPolicies } from '../shop-policy.service.server';
+import { AGENT_ROLE } from '../agent-inbox.service.server';
+import { getStoredSummary } from './summary.server';
+import { getLeadCaptureState } from './lead-capture.server';
+import type { ChatPipelineState, ConversationTurn } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'buildContext' });
+
+const CURRENT_PAGES = ['product', 'cart', 'checkout', 'collection', 'home', 'other'] as const;
+
+/**
+ * Convert stored messages (newest first) into chronological conversation turns
+ * (staff replies from the Live inbox count as the shop's side of the conversation)
+ */
+export function toConversationHistory(
+  messages: Array<{ role: string; content: string }> | undefined
+): ConversationTurn[] {
+  if (!messages || messages.length === 0) return [];
+  return [...messages].reverse().map((msg) => ({
+    role: msg.role === AGENT_ROLE ? 'assistant' : msg.role,
+    content: msg.content
+  }));
+}
+
+/**
+ * Parse the JSON stored in ChatSession.context (tolerates empty/invalid values)
+ */
+export function parseSessionContext(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== 'string' || !raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Explicit language instruction so every workflow answers in the shopper's language
+ */
+export function buildLanguageInstruction(language: string): string {
+  const languageName = getLanguageName(language);
+  return `🌍 CRITICAL LANGUAGE INSTRUCTION: You MUST respond ONLY in ${languageName}. User's interface language: ${language}. NEVER respond in English unless the locale is 'en'. This is a strict requirement.`;
+}
+
+/**
+ * Build context stage
+ */
+export async function buildContextStage(state: ChatPipelineState): Promise<void> {
+  const { shop, context } = state.input;
+
+  // ========================================
+  // EARLY POLICY FETCH (for ALL intents)
+  // ========================================
+  // Policies are needed both by the AI and by fallback processing.
+  // They are read from the database; stale copies are refreshed in the background
+  try {
+    state.policies = await getShopPolicies(shop, state.admin);
+  } catch (policyError) {
+    // Non-blocking - continue without policies, fallback will use defaults
+    logger.warn({
+      shop,
+      error: policyError instanceof Error ? policyError.message : String(policyError)
+    }, '⚠️ Policy load failed (non-blocking)');
+  }
+
+  // Contact questions get the published email/phone as buttons, whoever writes the reply
+  if (state.intent.type === 'CONTACT') {
+    state.contactCard = extractContactCard(state.policies) ?? undefined;
+  }
+
+  // ========================================
+  // PROFILE, SESSION & HISTORY
+  // ========================================
+  // ✅ CRITICAL FIX: Load conversation history BEFORE calling N8N so the AI
+  // knows it's not the first message (prevents repeated greetings)
+  let userPreferences = {};
+  let recentProducts: string[] = [];
+
+  try {
+    const userProfile = await personalizationService.getOrCreateUserProfile(
+      shop,
+      state.sessionId,
+      (context.customerId as string) || undefined
+    );
+    const chatSession = await personalizationService.getOrCreateChatSession(shop, userProfile.id);
+
+    state.userProfileId = userProfile.id;
+    state.chatSessionId = chatSession.id;
+    state.isNewSession = !chatSession.messages || chatSession.messages.length === 0;
+    state.history = toConversationHistory(chatSession.messages);
+    state.sessionContext = parseSessionContext(chatSession.context);
+
+    const personalizationContext = await personalizationService.getPersonalizationContext(
+      shop,
+      state.sessionId,
+      (context.customerId as string) || undefined
+    );
+    userPreferences = personalizationContext.preferences;
+    recentProducts = personalizationContext.recentProducts;
+
+    logger.debug({
+      chatSessionId: state.chatSessionId,
+      messageCount: state.history.length,
+      isNewSession: state.isNewSession
+    }, '✅ Loaded conversation history');
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error)
+    }, 'Failed to load conversation history (non-blocking)');
+    // Continue without history - better to respond than fail
+  }
+
+  // ========================================
+  // BYOK KEY
+  // ========================================
+  let openaiApiKey: string | undefined;
+  const usesOwnKey = state.plan === PlanCode.BYOK ||
+    resolveIntentRoute(state.settings, state.intent.type, state.plan)?.target === 'byok';
+  if (state.settings?.openaiApiKey && usesOwnKey) {
+    try {
+      const { decryptApiKey } = await import('../../lib/encryption.server');
+      openaiApiKey = decryptApiKey(state.settings.openaiApiKey);
+      logger.info({ shop }, '🔑 Decrypted OpenAI API key for BYOK plan');
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : String(error),
+        shop
+      }, '❌ Failed to decrypt OpenAI API key for BYOK plan');
+    }
+  }
+
+  const currentPage = CURRENT_PAGES.includes(context.currentPage as any)
+    ? (context.currentPage as typeof CURRENT_PAGES[number])
+    : 'other';
+
+  // Older messages that no longer fit in the history window
+  const summary = getStoredSummary(state.sessionContext);
+
+  // Whether the team is around, so replies don't promise a human outside business hours
+  state.availability = getAvailability(parseBusinessHours(state.settings?.businessHours));
+
+  // The reply may ask for the shopper's email once per conversation
+  const leadCaptureAvailable = parseLeadCaptureConfig(state.settings?.leadCapture).enabled &&
+    !getLeadCaptureState(state.sessionContext).offeredAt;
+
+  state.n8nContext = {
+    ...context,
+
+    // Shop context
+    shopDomain: shop,
+    locale: state.language, // ✅ Detected language (interface locale first)
+    currency: (context.currency as string) || 'USD',
+    plan: state.plan,
+    teamAvailable: state.availability.open,
+    leadCaptureAvailable,
+
+    // Customer context
+    sessionId: state.sessionId,
+    customerId: (context.customerId as string) || undefined,
+    customerEmail: (context.customerEmail as string) || undefined,
+
+    // Page context
+    pageUrl: (context.pageUrl as string) || state.input.referer || '',
+    currentPage,
+    currentProductId: (context.currentProductId as string) || (context.productId as string) || undefined,
+    cartId: (context.cartId as string) || undefined,
+
+    // Conversation context
+    previousMessages: state.history.map((m) => m.content),
+    conversationHistory: state.history,
+    messageCount: state.history.length + 1, // +1 for the current message
+    isFirstMessage: state.history.length === 0,
+    userPreferences,
+    recentProducts,
+    sentiment: state.sentiment,
+    intent: state.intent.type,
+    ...(summary ? { conversationSummary: summary.text, conversationFacts: summary.facts } : {}),
+
+    languageInstruction: buildLanguageInstruction(state.language),
+
+    // ✅ Shop policies for dynamic fallback responses
+    shopPolicies: state.policies || undefined,
+
+    // Legacy/metadata fields
+    timestamp: new Date().toISOString(),
+    userAgent: state.input.userAgent,
+    referer: state.input.referer,
+
+    ...(openaiApiKey ? { openaiApiKey } : {}),
+  };
+}
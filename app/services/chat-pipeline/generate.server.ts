@@ -0,0 +1,565 @@
+/**
+ * Chat Pipeline - Generate Stage
+ *
+ * Picks the workflow for the shop and intent (per-intent route, custom
+ * webhook, BYOK or default) and produces the assistant reply. Each intent
+ * family has a localized fallback so the shopper always gets an answer when
+ * N8N is unavailable; a closely matching merchant FAQ is used first.
+ * Merchant-defined custom intents are answered with their canned reply.
+ */
+
+import type { WidgetSettings as WidgetSettingsRecord } from '@prisma/client';
+import { createLogger } from '../../lib/logger.server';
+import { PlanCode, type PlanCodeType } from '../../lib/plans.config';
+import { N8NService, type N8NRequest, type N8NWebhookResponse } from '../n8n.service.server';
+import { LLMChatService, resolveLLMProvider } from '../llm/index.server';
+import { getDefaultPolicyMessage, getPolicyAnswer } from '../shop-policy.service.server';
+import { getWebhookSigningSecret } from '../../lib/webhook-signing.server';
+import { resolveIntentRoute } from '../../lib/intent-routing.server';
+import { CUSTOM_INTENTS, KNOWLEDGE_BASE } from '../../config/limits';
+import { createAssistantTools } from './tools.server';
+import { createGuardedTokenStream } from './guardrails.server';
+import type { ChatIntentType, ChatPipelineState, WorkflowSelection } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'generate' });
+
+// Maximum product cards shown for templated product replies
+const MAX_FALLBACK_RECOMMENDATIONS = 8;
+
+// N8N workflows and the in-process LLM share the same request/response contract
+interface ChatResponder {
+  processUserMessage(request: N8NRequest): Promise<N8NWebhookResponse>;
+}
+
+/**
+ * Validate a merchant-provided custom webhook URL
+ */
+export function isValidCustomWebhookUrl(url: unknown): url is string {
+  return typeof url === 'string' &&
+    url.trim() !== '' &&
+    url !== 'https://' &&
+    url !== 'null' &&
+    url !== 'undefined' &&
+    url.startsWith('https://') &&
+    url.length > 8;
+}
+
+/**
+ * Determine workflow and webhook URL for a shop
+ *
+ * A per-intent route (see intent-routing.server) wins when one is set for
+ * the message's intent. Otherwise a valid CUSTOM workflow URL wins, then
+ * routing is plan based (BYOK shops use the BYOK workflow with their own
+ * OpenAI key). The in-process LLM provider is used instead of N8N when one
+ * is available and either LLM_PROVIDER is set or the plan has no webhook.
+ */
+export function selectWorkflow(
+  settings: (Pick<WidgetSettingsRecord, 'workflowType' | 'webhookUrl'> & { intentRouting?: string | null }) | null,
+  plan: PlanCodeType,
+  options: { llmAvailable?: boolean; intent?: ChatIntentType } = {}
+): WorkflowSelection {
+  const route = options.intent ? resolveIntentRoute(settings, options.intent, plan) : null;
+
+  if (route?.target === 'local') {
+    return {
+      workflowType: 'default',
+      engine: 'local',
+      route: 'local',
+      description: `Local answer (${options.intent} routed locally)`
+    };
+  }
+
+  if (route?.target === 'custom' && route.webhookUrl) {
+    return {
+      webhookUrl: route.webhookUrl,
+      workflowType: 'custom',
+      engine: 'n8n',
+      route: 'custom',
+      description: `CUSTOM N8N Workflow for ${options.intent}`
+    };
+  }
+
+  if (!route && settings?.workflowType === 'CUSTOM') {
+    if (isValidCustomWebhookUrl(settings.webhookUrl)) {
+      return {
+        webhookUrl: settings.webhookUrl,
+        workflowType: 'custom',
+        engine: 'n8n',
+        description: 'CUSTOM N8N Workflow (merchant webhook)'
+      };
+    }
+
+    logger.warn({
+      customUrl: settings.webhookUrl,
+      plan
+    }, '⚠️ Custom workflow selected but URL invalid - falling back to plan-based routing');
+  }
+
+  const isByok = plan === PlanCode.BYOK || route?.target === 'byok';
+  const planWebhookUrl = isByok
+    ? process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL
+    : process.env.N8N_WEBHOOK_URL;
+
+  // BYOK keys can be used directly when there is no dedicated BYOK workflow
+  const hasPlanWorkflow = isByok ? !!process.env.N8N_WEBHOOK_BYOK : !!planWebhookUrl;
+  const preferLLM = !!process.env.LLM_PROVIDER || !hasPlanWorkflow;
+  const routeFields = route ? { route: route.target } : {};
+
+  if (options.llmAvailable && preferLLM) {
+    return {
+      workflowType: 'default',
+      engine: 'llm',
+      ...routeFields,
+      description: isByok
+        ? 'BYOK Plan (customer API key, in-process LLM)'
+        : `${plan} Plan (in-process LLM)`
+    };
+  }
+
+  return {
+    webhookUrl: planWebhookUrl,
+    workflowType: 'default',
+    engine: 'n8n',
+    ...routeFields,
+    description: isByok
+      ? 'BYOK Plan Workflow (customer API key)'
+      : `${plan} Plan Workflow`
+  };
+}
+
+// ============================================================================
+// Localized fallbacks
+// ============================================================================
+
+/**
+ * The merchant's own FAQ answer when one closely matches the question
+ */
+function getKnowledgeAnswer(state: ChatPipelineState): N8NWebhookResponse | null {
+  const top = state.knowledge[0];
+  if (!top || top.type !== 'faq' || top.score < KNOWLEDGE_BASE.FAQ_ANSWER_SIMILARITY) {
+    return null;
+  }
+
+  const answer = top.content.substring(top.content.indexOf('\nA: ') + 4).trim();
+  return {
+    message: answer,
+    recommendations: [],
+    confidence: 0.7,
+    messageType: state.isSupportIntent ? "support" : "general",
+    sourceIds: [top.id]
+  };
+}
+
+const SUPPORT_QUICK_REPLIES: Record<string, string[]> = {
+  en: ["Shipping info", "Return policy", "Track order", "Browse products"],
+  fr: ["Info livraison", "Politique de retour", "Suivre commande", "Parcourir produits"],
+  es: ["Información de envío", "Política de devoluciones", "Seguir pedido", "Ver productos"],
+  de: ["Versandinfos", "Rückgaberichtlinie", "Bestellung verfolgen", "Produkte ansehen"],
+  pt: ["Informações de envio", "Política de devolução", "Rastrear pedido", "Ver produtos"],
+  it: ["Info spedizione", "Politica di reso", "Traccia ordine", "Sfoglia prodotti"],
+  ja: ["配送について", "返品ポリシー", "注文を追跡", "商品を見る"],
+  zh: ["配送信息", "退货政策", "追踪订单", "浏览商品"]
+};
+
+function getSupportFallback(state: ChatPipelineState, lang: string): N8NWebhookResponse {
+  const knowledgeAnswer = getKnowledgeAnswer(state);
+  if (knowledgeAnswer && state.intent.type !== 'TRACK_ORDER') {
+    return knowledgeAnswer;
+  }
+
+  const policies = state.policies;
+  let fallbackMessage: string;
+
+  if (state.intent.type === 'SHIPPING_INFO') {
+    fallbackMessage = policies?.shipping
+      ? `Here's our shipping policy:\n\n${policies.shipping.substring(0, 500)}${policies.shipping.length > 500 ? '...' : ''}`
+      : getDefaultPolicyMessage('shipping', lang);
+  } else if (state.intent.type === 'RETURNS') {
+    fallbackMessage = policies?.returns
+      ? `Here's our return policy:\n\n${policies.returns.substring(0, 500)}${policies.returns.length > 500 ? '...' : ''}`
+      : getDefaultPolicyMessage('returns', lang);
+  } else if (state.intent.type === 'TERMS') {
+    fallbackMessage = getPolicyAnswer('terms', policies, lang, 500);
+  } else if (state.intent.type === 'PRIVACY') {
+    fallbackMessage = getPolicyAnswer('privacy', policies, lang, 500);
+  } else if (state.intent.type === 'CONTACT') {
+    fallbackMessage = getPolicyAnswer('contact', policies, lang, 500);
+  } else {
+    // Generic support fallback
+    const genericMessages: Record<string, string> = {
+      en: "I'm here to help! Please ask me your question and I'll do my best to assist you.",
+      fr: "Je suis là pour vous aider ! Posez-moi votre question et je ferai de mon mieux pour vous assister.",
+      es: "¡Estoy aquí para ayudar! Por favor, hágame su pregunta y haré mi mejor esfuerzo para asistirle.",
+      de: "Ich bin hier, um zu helfen! Bitte stellen Sie mir Ihre Frage und ich werde mein Bestes tun, um Ihnen zu helfen.",
+      pt: "Estou aqui para ajudar! Por favor, faça sua pergunta e farei o meu melhor para ajudá-lo.",
+      it: "Sono qui per aiutarti! Per favore, fammi la tua domanda e farò del mio meglio per assisterti.",
+      ja: "お手伝いします！ご質問をどうぞ。できる限りお答えします。",
+      zh: "我很乐意为您提供帮助！请告诉我您的问题，我会尽力为您解答。"
+    };
+    fallbackMessage = genericMessages[lang] ?? genericMessages['en']!;
+  }
+
+  return {
+    message: fallbackMessage,
+    recommendations: [],
+    quickReplies: SUPPORT_QUICK_REPLIES[lang] ?? SUPPORT_QUICK_REPLIES['en']!,
+    confidence: 0.6,
+    messageType: state.contactCard ? "contact_card" : "support"
+  };
+}
+
+function getProductFetchErrorResponse(state: ChatPipelineState, lang: string): N8NWebhookResponse {
+  if (state.sessionError) {
+    // ✅ SESSION ERROR: Specific message about app reinstallation
+    const sessionErrorMessages: Record<string, string> = {
+      fr: "⚠️ La connexion avec votre boutique a expiré. L'administrateur doit réinstaller l'application pour que je puisse accéder aux produits. En attendant, je peux répondre à vos questions générales sur la boutique.",
+      en: "⚠️ The connection to the shop has expired. The shop administrator needs to reinstall the app so I can access the product catalog. In the meantime, I can help answer general questions about the store.",
+      es: "⚠️ La conexión con la tienda ha caducado. El administrador de la tienda necesita reinstalar la aplicación para que pueda acceder al catálogo de productos. Mientras tanto, puedo ayudar a responder preguntas generales sobre la tienda.",
+      de: "⚠️ Die Verbindung zum Shop ist abgelaufen. Der Shop-Administrator muss die App neu installieren, damit ich auf den Produktkatalog zugreifen kann. In der Zwischenzeit kann ich allgemeine Fragen zum Shop beantworten.",
+      pt: "⚠️ A conexão com a loja expirou. O administrador da loja precisa reinstalar o aplicativo para que eu possa acessar o catálogo de produtos. Enquanto isso, posso ajudar a responder perguntas gerais sobre a loja.",
+      it: "⚠️ La connessione al negozio è scaduta. L'amministratore del negozio deve reinstallare l'app in modo che io possa accedere al catalogo prodotti. Nel frattempo, posso aiutare a rispondere a domande generali sul negozio.",
+      ja: "⚠️ ストアとの接続が期限切れになりました。商品カタログにアクセスするには、ストア管理者がアプリを再インストールする必要があります。それまでの間、ストアに関する一般的なご質問にお答えできます。",
+      zh: "⚠️ 与店铺的连接已过期。店铺管理员需要重新安装应用，我才能访问商品目录。在此期间，我可以解答有关店铺的一般问题。"
+    };
+
+    return {
+      message: sessionErrorMessages[lang] ?? sessionErrorMessages['en']!,
+      recommendations: [],
+      confidence: 0.3,
+      messageType: "error",
+      quickReplies: lang === 'fr'
+        ? ["Aide générale", "Informations boutique"]
+        : ["General help", "Store information"]
+    };
+  }
+
+  // ✅ GENERAL ERROR: Other product fetch errors
+  const generalErrorMessages: Record<string, string> = {
+    fr: "Je ne peux pas accéder aux produits actuellement. Un problème temporaire est survenu. Veuillez réessayer dans quelques instants.",
+    en: "I'm unable to access the product catalog right now due to a temporary issue. Please try again in a few moments.",
+    es: "No puedo acceder al catálogo de productos en este momento debido a un problema temporal. Inténtelo de nuevo en unos momentos.",
+    de: "Ich kann derzeit aufgrund eines vorübergehenden Problems nicht auf den Produktkatalog zugreifen. Bitte versuchen Sie es in ein paar Augenblicken erneut.",
+    pt: "Não consigo acessar o catálogo de produtos no momento devido a um problema temporário. Tente novamente em alguns instantes.",
+    it: "Non riesco ad accedere al catalogo prodotti in questo momento a causa di un problema temporaneo. Riprova tra qualche istante.",
+    ja: "一時的な問題により、現在商品カタログにアクセスできません。しばらくしてからもう一度お試しください。",
+    zh: "由于临时问题，我现在无法访问商品目录。请稍后再试。"
+  };
+
+  return {
+    message: generalErrorMessages[lang] ?? generalErrorMessages['en']!,
+    recommendations: [],
+    confidence: 0.3,
+    messageType: "error",
+    quickReplies: lang === 'fr' ? ["Réessayer", "Aide"] : ["Try again", "Help"]
+  };
+}
+
+/**
+ * Intent-specific templated reply used when N8N fails for product intents
+ */
+export function getProductTemplateResponse(state: ChatPipelineState): N8NWebhookResponse {
+  let responseText: string;
+  let quickReplies: string[];
+
+  if (state.intent.type === "BESTSELLERS") {
+    responseText = "🏆 Our Best Sellers - These are our customers' favorites!";
+    quickReplies = ["Show new arrivals", "What's on sale?", "Recommendations for me"];
+  } else if (state.intent.type === "NEW_ARRIVALS") {
+    responseText = "✨ New Arrivals - Check out our latest products!";
+    quickReplies = ["Show bestsellers", "What's on sale?", "Browse all products"];
+  } else if (state.intent.type === "ON_SALE") {
+    responseText = "🔥 On Sale - Great deals you don't want to miss!";
+    quickReplies = ["Show bestsellers", "New arrivals", "Browse all products"];
+  } else if (state.intent.type === "RECOMMENDATIONS") {
+    responseText = "💎 Recommended For You - Handpicked just for you!";
+    quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
+  } else if (state.intent.type === "PRODUCT_SEARCH") {
+    const messages: Record<string, string> = {
+      "t-shirt": "👕 Here are our available t-shirts:",
+      "shoe": "👟 Here are our shoes:",
+      "product": "📦 Here are some products you might like:"
+    };
+    responseText = messages[state.intent.query] ?? messages["product"]!;
+    quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
+  } else {
+    responseText = "📦 Here are some products you might like:";
+    quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
+  }
+
+  return {
+    message: responseText,
+    recommendations: state.products.slice(0, MAX_FALLBACK_RECOMMENDATIONS) as any[],
+    quickReplies,
+    confidence: 0.8,
+    messageType: "product_recommendation"
+  };
+}
+
+function getNoProductsFallback(lang: string): N8NWebhookResponse {
+  const noProductMessages: Record<string, string> = {
+    fr: "Je suis désolé, nous n'avons pas de produits correspondant à votre recherche pour le moment. Puis-je vous aider à trouver autre chose ?",
+    en: "I'm sorry, we don't have any products matching your search at the moment. Can I help you find something else?",
+    es: "Lo siento, no tenemos productos que coincidan con tu búsqueda en este momento. ¿Puedo ayudarte a encontrar algo más?",
+    de: "Es tut mir leid, wir haben derzeit keine Produkte, die Ihrer Suche entsprechen. Kann ich Ihnen helfen, etwas anderes zu finden?",
+    pt: "Desculpe, não temos produtos que correspondam à sua pesquisa no momento. Posso ajudá-lo a encontrar outra coisa?",
+    it: "Mi dispiace, al momento non abbiamo prodotti corrispondenti alla tua ricerca. Posso aiutarti a trovare qualcos'altro?",
+    ja: "申し訳ありませんが、現在ご希望に合う商品はございません。ほかの商品をお探ししましょうか？",
+    zh: "抱歉，目前没有符合您搜索条件的商品。需要我帮您找找其他商品吗？"
+  };
+
+  const quickRepliesLang: Record<string, string[]> = {
+    fr: ["Voir les meilleures ventes", "Nouveautés", "Tous les produits"],
+    en: ["View bestsellers", "New arrivals", "All products"],
+    es: ["Ver más vendidos", "Novedades", "Todos los productos"],
+    de: ["Bestseller ansehen", "Neuankömmlinge", "Alle Produkte"],
+    pt: ["Ver mais vendidos", "Novidades", "Todos os produtos"],
+    it: ["Visualizza i più venduti", "Nuovi arrivi", "Tutti i prodotti"],
+    ja: ["人気商品を見る", "新着商品", "すべての商品"],
+    zh: ["查看畅销商品", "新品上市", "所有商品"]
+  };
+
+  return {
+    message: noProductMessages[lang] ?? noProductMessages['en']!,
+    recommendations: [],
+    quickReplies: quickRepliesLang[lang] ?? quickRepliesLang['en']!,
+    confidence: 0.6,
+    messageType: "no_products_found"
+  };
+}
+
+function getGeneralFallback(state: ChatPipelineState): N8NWebhookResponse {
+  const knowledgeAnswer = getKnowledgeAnswer(state);
+  if (knowledgeAnswer) {
+    return knowledgeAnswer;
+  }
+
+  return {
+    message: "I'm here to help! You can ask me about products, pricing, shipping, or any questions about our store.",
+    recommendations: [],
+    confidence: 0.5,
+    messageType: "general"
+  };
+}
+
+/**
+ * Canned reply of a merchant-defined intent (with products from its query)
+ */
+export function getCustomIntentResponse(state: ChatPipelineState): N8NWebhookResponse | null {
+  const custom = state.customIntent;
+  if (!custom) {
+    return null;
+  }
+
+  const recommendations = state.products.slice(0, CUSTOM_INTENTS.MAX_PRODUCTS) as any[];
+  return {
+    message: custom.responseText,
+    recommendations,
+    quickReplies: custom.quickReplies,
+    suggestedActions: custom.suggestedActions,
+    confidence: state.intentConfidence,
+    messageType: recommendations.length > 0 ? "product_recommendation" : "general"
+  };
+}
+
+/**
+ * Reply for an intent routed to "local" - the same templates used as fallbacks
+ */
+export function getLocalResponse(state: ChatPipelineState, lang: string): N8NWebhookResponse {
+  if (state.isSupportIntent) {
+    return getSupportFallback(state, lang);
+  }
+
+  if (state.isProductIntent) {
+    if (state.productsFetchFailed) {
+      return getProductFetchErrorResponse(state, lang);
+    }
+    return state.products.length > 0 ? getProductTemplateResponse(state) : getNoProductsFallback(lang);
+  }
+
+  return getGeneralFallback(state);
+}
+
+// ============================================================================
+// Stage
+// ============================================================================
+
+/**
+ * Generate stage
+ */
+export async function generateStage(state: ChatPipelineState): Promise<void> {
+  const { shop, message } = state.input;
+  const lang = state.language;
+
+  // An earlier stage (e.g. order tracking) already answered
+  if (state.response) {
+    return;
+  }
+
+  // Merchant-defined intent: canned reply, no workflow call
+  const customResponse = getCustomIntentResponse(state);
+  if (customResponse) {
+    state.response = customResponse;
+    state.recommendations = customResponse.recommendations || [];
+    logger.info({ shop, intent: state.customIntent?.key }, '✅ Answered with custom intent reply');
+    return;
+  }
+
+  const usesOwnKey = state.plan === PlanCode.BYOK ||
+    resolveIntentRoute(state.settings, state.intent.type, state.plan)?.target === 'byok';
+  const llmProvider = resolveLLMProvider({
+    byokKey: usesOwnKey ? state.n8nContext.openaiApiKey : undefined
+  });
+  state.workflow = selectWorkflow(state.settings, state.plan, {
+    llmAvailable: !!llmProvider,
+    intent: state.intent.type
+  });
+
+  logger.info({
+    workflow: state.workflow.description,
+    workflowType: state.workflow.workflowType,
+    engine: state.workflow.engine,
+    llmProvider: state.workflow.engine === 'llm' ? llmProvider?.name : undefined,
+    plan: state.plan,
+    shop,
+    intent: state.intent.type,
+    route: state.workflow.route,
+    hasWebhook: !!state.workflow.webhookUrl
+  }, '🔄 Using workflow');
+
+  // Intent routed to "local": answer from templates and policies without an AI call
+  if (state.workflow.engine === 'local') {
+    state.response = getLocalResponse(state, lang);
+    state.recommendations = state.isSupportIntent ? [] : state.response.recommendations || [];
+    return;
+  }
+
+  // In-process models look up catalog, policy and cart data through tools
+  const responder: ChatResponder = state.workflow.engine === 'llm' && llmProvider
+    ? new LLMChatService(llmProvider, {
+        tools: state.admin
+          ? createAssistantTools({ admin: state.admin, shopDomain: shop, policies: state.policies, language: lang })
+          : [],
+        // Streamed text is checked against the output guardrails before it is sent
+        onText: state.input.onToken && createGuardedTokenStream(state, state.input.onToken)
+      })
+    : new N8NService(state.workflow.webhookUrl, undefined, {
+        signingSecret: await getWebhookSigningSecret(shop, state.settings?.webhookSigningSecret),
+        recordCalls: !!state.settings?.workflowRecorderEnabled
+      });
+
+  // N8NService answers outages with its local fallback instead of throwing
+  const respond = async (request: N8NRequest): Promise<N8NWebhookResponse> => {
+    const response = await responder.processUserMessage(request);
+    if (response.fallback) {
+      state.usedFallback = true;
+    }
+    return response;
+  };
+
+  // ========================================
+  // SUPPORT INTENTS (NO PRODUCTS)
+  // ========================================
+  if (state.isSupportIntent) {
+    try {
+      // 🆘 CRITICAL FIX: Support questions don't need products - they need store policies
+      state.response = await respond({
+        userMessage: message,
+        products: [],
+        context: {
+          ...state.n8nContext,
+          supportCategory: state.intent.type, // SHIPPING_INFO, RETURNS, TRACK_ORDER, TERMS, PRIVACY, CONTACT or HELP_FAQ
+          storePolicies: {
+            shopName: state.policies?.shopName || shop,
+            returns: state.policies?.returns || getDefaultPolicyMessage('returns', lang),
+            shipping: state.policies?.shipping || getDefaultPolicyMessage('shipping', lang),
+            privacy: state.policies?.privacy || null,
+            termsOfService: state.policies?.termsOfService || null,
+            contact: state.policies?.contact || null
+          }
+        }
+      });
+
+      if (state.contactCard) {
+        state.response = { ...state.response, messageType: "contact_card" };
+      }
+    } catch (error) {
+      logger.error({ error: String(error), intent: state.intent.type }, '❌ N8N support handler error - using dynamic fallback');
+      state.response = getSupportFallback(state, lang);
+      state.usedFallback = true;
+    }
+
+    // Support answers never show product cards
+    state.recommendations = [];
+    return;
+  }
+
+  // ========================================
+  // PRODUCT INTENTS
+  // ========================================
+  if (state.isProductIntent && state.productsFetchFailed) {
+    state.response = getProductFetchErrorResponse(state, lang);
+    state.recommendations = [];
+    state.usedFallback = true;
+    return;
+  }
+
+  if (state.isProductIntent && state.products.length > 0) {
+    const template = getProductTemplateResponse(state);
+
+    try {
+      state.response = await respond({
+        userMessage: message,
+        products: state.products,
+        context: state.n8nContext
+      });
+
+      // ✅ TRUST THE AI: Use N8N's recommendations when it provides any
+      state.recommendations = state.response.recommendations?.length
+        ? state.response.recommendations
+        : template.recommendations || [];
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'N8N failed, using fallback');
+      state.response = template;
+      state.recommendations = template.recommendations || [];
+      state.usedFallback = true;
+    }
+    return;
+  }
+
+  if (state.isProductIntent) {
+    // Product intent with NO products found - let the AI explain
+    try {
+      state.response = await respond({
+        userMessage: message,
+        products: [],
+        context: {
+          ...state.n8nContext,
+          noProductsFound: true,
+          intentType: "product_search_no_results"
+        }
+      });
+    } catch (error) {
+      state.response = getNoProductsFallback(lang);
+      state.usedFallback = true;
+    }
+    state.recommendations = [];
+    return;
+  }
+
+  // ========================================
+  // GENERAL CHAT
+  // ========================================
+  try {
+    state.response = await respond({
+      userMessage: message,
+      products: state.products, // ✅ BYOK FIX: Always send products so AI knows actual inventory
+      context: state.n8nContext
+    });
+    state.recommendations = state.response.recommendations || [];
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, 'N8N service failed');
+    state.response = getGeneralFallback(state);
+    state.recommendations = [];
+    state.usedFallback = true;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Chat Pipeline - Guardrail Stages
+ *
+ * guardInput runs after classify and scores the shopper message for
+ * prompt injection; guardOutput runs after generate and checks the reply
+ * for leaked secrets, external links and banned content. What happens on
+ * a violation follows the shop's guardrail mode (see lib/guardrails.server.ts).
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import {
+  checkOutput,
+  createOutputStreamGuard,
+  getGuardrailSettings,
+  recordGuardrailViolations,
+  scoreInjection,
+  type OutputCheckOptions,
+  type ShopGuardrailSettings,
+} from '../../lib/guardrails.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'guardrails' });
+
+// Server-side credentials that must never reach a shopper
+const SECRET_ENV_VARS = [
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'LLM_API_KEY',
+  'SHOPIFY_API_SECRET',
+  'INTERNAL_API_KEY',
+  'ENCRYPTION_KEY',
+  'N8N_API_KEY',
+];
+
+const INPUT_BLOCKED_MESSAGES: Record<string, string> = {
+  en: "I can only help with questions about our products, orders and store policies. What are you looking for today?",
+  fr: "Je peux uniquement vous aider avec nos produits, vos commandes et les politiques de la boutique. Que recherchez-vous aujourd'hui ?",
+  es: "Solo puedo ayudarte con nuestros productos, pedidos y políticas de la tienda. ¿Qué estás buscando hoy?",
+  de: "Ich kann nur bei Fragen zu unseren Produkten, Bestellungen und Shop-Richtlinien helfen. Wonach suchen Sie heute?",
+  pt: "Só posso ajudar com perguntas sobre nossos produtos, pedidos e políticas da loja. O que você está procurando hoje?",
+  it: "Posso aiutarti solo con domande sui nostri prodotti, ordini e politiche del negozio. Cosa stai cercando oggi?",
+  ja: "商品、ご注文、ストアのポリシーに関するご質問のみお手伝いできます。本日は何をお探しですか？",
+  zh: "我只能解答有关我们的商品、订单和店铺政策的问题。今天您想找些什么？"
+};
+
+const OUTPUT_BLOCKED_MESSAGES: Record<string, string> = {
+  en: "Sorry, I can't share that. Is there anything else I can help you with?",
+  fr: "Désolé, je ne peux pas partager cela. Puis-je vous aider avec autre chose ?",
+  es: "Lo siento, no puedo compartir eso. ¿Puedo ayudarte con algo más?",
+  de: "Entschuldigung, das kann ich nicht teilen. Kann ich Ihnen bei etwas anderem helfen?",
+  pt: "Desculpe, não posso compartilhar isso. Posso ajudar com mais alguma coisa?",
+  it: "Mi dispiace, non posso condividerlo. Posso aiutarti con qualcos'altro?",
+  ja: "申し訳ありませんが、その内容はお伝えできません。ほかにお手伝いできることはありますか？",
+  zh: "抱歉，我无法提供该信息。还有什么可以帮您的吗？"
+};
+
+/**
+ * Domains the assistant may link to: the shop, the storefront the widget runs on,
+ * and any domains the merchant allowed
+ */
+export function getShopDomains(state: ChatPipelineState, extraDomains: string[] = []): string[] {
+  const domains = [state.input.shop, ...extraDomains];
+
+  if (state.input.referer) {
+    try {
+      domains.push(new URL(state.input.referer).hostname);
+    } catch {
+      // Ignore malformed referer headers
+    }
+  }
+
+  return domains.filter(Boolean);
+}
+
+function getOutputCheckOptions(state: ChatPipelineState, guardrails: ShopGuardrailSettings): OutputCheckOptions {
+  return {
+    secrets: [
+      state.n8nContext.openaiApiKey,
+      state.accessToken,
+      ...SECRET_ENV_VARS.map((name) => process.env[name])
+    ],
+    allowedDomains: getShopDomains(state, guardrails.allowedDomains),
+    bannedTerms: guardrails.bannedTerms
+  };
+}
+
+/**
+ * Wrap a streaming callback so reply text only reaches the shopper once it
+ * passes the same checks as guardOutput (see createOutputStreamGuard)
+ */
+export function createGuardedTokenStream(
+  state: ChatPipelineState,
+  onToken: (text: string) => void
+): (text: string) => void {
+  const guardrails = state.guardrails ?? getGuardrailSettings(state.settings);
+  return createOutputStreamGuard(getOutputCheckOptions(state, guardrails), onToken);
+}
+
+/**
+ * Guard input stage
+ */
+export async function guardInputStage(state: ChatPipelineState): Promise<void> {
+  const { shop, message } = state.input;
+  const guardrails = getGuardrailSettings(state.settings);
+  state.guardrails = guardrails;
+
+  const result = scoreInjection(message);
+  state.injectionScore = result.score;
+
+  if (!result.flagged) {
+    return;
+  }
+
+  state.guardrailViolations = [...(state.guardrailViolations || []), ...result.violations];
+  await recordGuardrailViolations(shop, 'input', result.violations, {
+    sessionId: state.sessionId,
+    action: guardrails.mode
+  });
+
+  if (guardrails.mode === 'block' || (guardrails.mode === 'rewrite' && !result.sanitized)) {
+    logger.info({ shop, score: result.score }, '🚫 Blocked shopper message');
+    state.response = {
+      message: INPUT_BLOCKED_MESSAGES[state.language] ?? INPUT_BLOCKED_MESSAGES['en']!,
+      recommendations: [],
+      confidence: 1,
+      messageType: 'guardrail'
+    };
+    state.recommendations = [];
+    return;
+  }
+
+  if (guardrails.mode === 'rewrite') {
+    logger.info({ shop, score: result.score }, '📝 Removed injection attempt from shopper message');
+    state.input = { ...state.input, message: result.sanitized };
+  }
+}
+
+/**
+ * Guard output stage
+ */
+export async function guardOutputStage(state: ChatPipelineState): Promise<void> {
+  const { shop } = state.input;
+  const response = state.response;
+
+  if (!response?.message) {
+    return;
+  }
+
+  const guardrails = state.guardrails ?? getGuardrailSettings(state.settings);
+  const result = checkOutput(response.message, getOutputCheckOptions(state, guardrails));
+
+  if (result.violations.length === 0) {
+    return;
+  }
+
+  state.guardrailViolations = [...(state.guardrailViolations || []), ...result.violations];
+  await recordGuardrailViolations(shop, 'output', result.violations, {
+    sessionId: state.sessionId,
+    action: guardrails.mode
+  });
+
+  const blockedMessage = OUTPUT_BLOCKED_MESSAGES[state.language] ?? OUTPUT_BLOCKED_MESSAGES['en']!;
+
+  if (guardrails.mode === 'block') {
+    state.response = {
+      ...response,
+      message: blockedMessage,
+      recommendations: [],
+      messageType: 'guardrail'
+    };
+    state.recommendations = [];
+  } else {
+    state.response = {
+      ...response,
+      // Nothing left after rewriting (e.g. the reply was only an external link)
+      message: (guardrails.mode === 'rewrite' ? result.rewritten : result.redacted) || blockedMessage
+    };
+  }
+
+  logger.info({
+    shop,
+    mode: guardrails.mode,
+    rules: result.violations.map((v) => v.rule)
+  }, '📝 Applied output guardrails');
+}
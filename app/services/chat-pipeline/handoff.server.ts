@@ -0,0 +1,54 @@
+/**
+ * Chat Pipeline - Escalate Stage
+ *
+ * Runs after guardOutput and decides whether the reply should offer the
+ * shopper a human (explicit request, negative sentiment on a support
+ * question, low confidence). The reason is returned to the widget, which
+ * queues the session through /api/handoff when the shopper accepts.
+ * Sessions that are already in the queue are not offered a human again.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { detectEscalationReason, getOpenHandoff } from '../handoff.service.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'escalate' });
+
+/**
+ * Escalate stage
+ */
+export async function escalateStage(state: ChatPipelineState): Promise<void> {
+  const response = state.response;
+  if (!response || response.messageType === 'guardrail') {
+    return;
+  }
+
+  const reason = detectEscalationReason({
+    message: state.input.message,
+    sentiment: state.sentiment,
+    confidence: response.confidence ?? 0.7,
+    isSupportIntent: state.isSupportIntent,
+    flagged: !!response.requiresHumanEscalation
+  });
+  if (!reason) {
+    return;
+  }
+
+  if (state.chatSessionId) {
+    try {
+      const open = await getOpenHandoff(state.input.shop, state.chatSessionId);
+      if (open) {
+        state.handoff = { id: open.id, status: open.status };
+        return;
+      }
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop: state.input.shop
+      }, '⚠️ Failed to check the handoff queue (non-blocking)');
+    }
+  }
+
+  state.escalationReason = reason;
+  logger.info({ shop: state.input.shop, reason, intent: state.intent.type }, '🙋 Offering a human');
+}
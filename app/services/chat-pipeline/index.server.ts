@@ -0,0 +1,227 @@
+/**
+ * Chat Pipeline
+ *
+ * Single implementation of the storefront chat flow shared by
+ * `/api/widget-settings` and `/apps/sales-assistant-api`.
+ *
+ * Stages run in order over a shared state object:
+ * 1. authorize        - offline session, subscription, conversation limits
+ * 2. classify         - intent, sentiment, language
+ * 3. guardInput       - prompt-injection scoring (block / rewrite / log)
+ * 4. agentTakeover    - staff took the conversation over: save the message, no AI reply
+ * 5. cacheLookup      - cached reply for repeated questions
+ * 6. retrieveProducts - catalog products for product/general intents
+ * 7. buildContext     - policies, profile, history, N8N context
+ * 8. retrieveKnowledge - merchant FAQ/article chunks (support and general chat)
+ * 9. trackOrder       - verified order status lookup (TRACK_ORDER)
+ * 10. generate        - workflow selection + reply (with localized fallbacks)
+ * 11. verifyRecommendations - match product cards to the real catalog
+ * 12. guardOutput     - secret, link and banned-content checks on the reply
+ * 13. escalate        - offer a human (explicit request, unhappy shopper, low confidence)
+ * 14. leadCapture     - email opt-in form (assistant request or product-message rule)
+ * 15. citeKnowledge   - knowledge base entries the reply is based on
+ * 16. cacheStore      - keep clean workflow replies for the next shopper
+ * 17. persist         - chat messages, session context, preferences
+ * 18. summarize       - rolling summary of older messages
+ * 19. analytics       - dashboard aggregates
+ *
+ * A stage may set `state.halt` to stop the pipeline with a ready response.
+ * Once `state.response` is set (e.g. a blocked message), later stages that
+ * produce replies skip their work.
+ */
+
+import { PlanCode } from '../../lib/plans.config';
+import { createLogger } from '../../lib/logger.server';
+import { authorizeStage } from './auth.server';
+import { classifyStage } from './classify.server';
+import { guardInputStage, guardOutputStage } from './guardrails.server';
+import { agentTakeoverStage } from './agent.server';
+import { escalateStage } from './handoff.server';
+import { leadCaptureStage } from './lead-capture.server';
+import { cacheLookupStage, cacheStoreStage } from './response-cache.server';
+import { retrieveProductsStage } from './products.server';
+import { buildContextStage } from './context.server';
+import { citeKnowledgeStage, retrieveKnowledgeStage } from './knowledge.server';
+import { trackOrderStage } from './order-tracking.server';
+import { generateStage } from './generate.server';
+import { verifyRecommendationsStage } from './verify-recommendations.server';
+import { persistStage } from './persist.server';
+import { summarizeStage } from './summary.server';
+import { analyticsStage } from './analytics.server';
+import { getIntentAnalyticsName } from '../intent-classifier.service.server';
+import type {
+  ChatPipelineInput,
+  ChatPipelineResult,
+  ChatPipelineState,
+  NamedChatPipelineStage,
+} from './types';
+
+export type * from './types';
+
+export const DEFAULT_CHAT_STAGES: NamedChatPipelineStage[] = [
+  { name: 'authorize', run: authorizeStage },
+  { name: 'classify', run: classifyStage },
+  { name: 'guardInput', run: guardInputStage },
+  { name: 'agentTakeover', run: agentTakeoverStage },
+  { name: 'cacheLookup', run: cacheLookupStage },
+  { name: 'retrieveProducts', run: retrieveProductsStage },
+  { name: 'buildContext', run: buildContextStage },
+  { name: 'retrieveKnowledge', run: retrieveKnowledgeStage },
+  { name: 'trackOrder', run: trackOrderStage },
+  { name: 'generate', run: generateStage },
+  { name: 'verifyRecommendations', run: verifyRecommendationsStage },
+  { name: 'guardOutput', run: guardOutputStage },
+  { name: 'escalate', run: escalateStage },
+  { name: 'leadCapture', run: leadCaptureStage },
+  { name: 'citeKnowledge', run: citeKnowledgeStage },
+  { name: 'cacheStore', run: cacheStoreStage },
+  { name: 'persist', run: persistStage },
+  { name: 'summarize', run: summarizeStage },
+  { name: 'analytics', run: analyticsStage },
+];
+
+/**
+ * Create the initial pipeline state for an incoming message
+ */
+export function createPipelineState(input: ChatPipelineInput): ChatPipelineState {
+  return {
+    input,
+    startTime: Date.now(),
+    sessionId: (input.context.sessionId as string) || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    settings: null,
+    plan: PlanCode.STARTER,
+    intent: { type: 'GENERAL_CHAT' },
+    intentConfidence: 0,
+    sentiment: 'neutral',
+    language: 'en',
+    isSupportIntent: false,
+    isProductIntent: false,
+    products: [],
+    productsFetchFailed: false,
+    sessionError: false,
+    policies: null,
+    isNewSession: false,
+    history: [],
+    sessionContext: {},
+    n8nContext: {},
+    knowledge: [],
+    recommendations: [],
+    responseTime: 0,
+  };
+}
+
+/**
+ * Build the JSON body returned to the storefront
+ */
+export function buildChatResponseBody(state: ChatPipelineState): Record<string, unknown> {
+  const response = state.response!;
+  const confidence = response.confidence || 0.7;
+  const sentiment = response.sentiment || state.sentiment;
+
+  return {
+    // Main response (backward compatible)
+    response: response.message,
+    message: response.message,
+
+    // Rich response fields
+    messageType: response.messageType || (state.intent.type === "PRODUCT_SEARCH" ? "product_recommendation" : "general"),
+    recommendations: state.recommendations,
+    quickReplies: response.quickReplies || [],
+    ...(state.orderStatus ? { orderStatus: state.orderStatus } : {}),
+    ...(state.contactCard && response.messageType === "contact_card" ? { contactCard: state.contactCard } : {}),
+    ...(response.sources?.length ? { sources: response.sources } : {}),
+    suggestedActions: response.suggestedActions || [],
+
+    // Metadata
+    confidence,
+    sentiment,
+    requiresHumanEscalation: !!state.escalationReason,
+    ...(state.escalationReason ? { escalationReason: state.escalationReason } : {}),
+    ...(state.escalationReason && state.availability ? { availability: state.availability } : {}),
+    ...(state.handoff ? { handoff: state.handoff } : {}),
+    ...(state.leadCapture ? { leadCapture: state.leadCapture } : {}),
+
+    // Session info
+    timestamp: new Date().toISOString(),
+    sessionId: state.sessionId,
+    chatSessionId: state.chatSessionId || state.sessionId, // ✅ FIX: Always return chatSessionId to prevent popup issues
+
+    // Analytics
+    analytics: {
+      intentDetected: getIntentAnalyticsName(state.intent),
+      subIntent: state.intent.type === "PRODUCT_SEARCH" ? state.intent.query : undefined,
+      intentConfidence: state.intentConfidence,
+      sentiment,
+      confidence,
+      productsShown: state.recommendations.length,
+      responseTime: state.responseTime,
+      isSupportIntent: state.isSupportIntent,
+      isProductIntent: !state.isSupportIntent,
+    },
+
+    // Legacy metadata (for backward compatibility)
+    metadata: {
+      intent: getIntentAnalyticsName(state.intent),
+      sentiment: state.sentiment,
+      responseTime: state.responseTime,
+    },
+
+    success: true,
+  };
+}
+
+export class ChatPipeline {
+  private logger = createLogger({ service: 'ChatPipeline' });
+  private stages: NamedChatPipelineStage[];
+
+  constructor(stages: NamedChatPipelineStage[] = DEFAULT_CHAT_STAGES) {
+    this.stages = stages;
+  }
+
+  /**
+   * Run every stage for one incoming message
+   */
+  async run(input: ChatPipelineInput): Promise<ChatPipelineResult> {
+    const state = createPipelineState(input);
+
+    for (const stage of this.stages) {
+      const stageStart = Date.now();
+      await stage.run(state);
+
+      if (stage.name === 'generate') {
+        state.responseTime = Date.now() - state.startTime;
+      }
+
+      this.logger.debug({
+        stage: stage.name,
+        durationMs: Date.now() - stageStart,
+        shop: input.shop
+      }, 'Chat pipeline stage complete');
+
+      if (state.halt) {
+        this.logger.info({
+          stage: stage.name,
+          status: state.halt.status,
+          shop: input.shop
+        }, 'Chat pipeline halted');
+        return state.halt;
+      }
+    }
+
+    if (!state.response) {
+      throw new Error('Chat pipeline finished without a response');
+    }
+
+    this.logger.info({
+      shop: input.shop,
+      source: input.source,
+      intent: getIntentAnalyticsName(state.intent),
+      recommendationCount: state.recommendations.length,
+      responseTime: state.responseTime
+    }, 'Sending response');
+
+    return { status: 200, body: buildChatResponseBody(state) };
+  }
+}
+
+export const chatPipeline = new ChatPipeline();
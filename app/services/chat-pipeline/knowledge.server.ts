@@ -0,0 +1,66 @@
+/**
+ * Chat Pipeline - Knowledge Base Stages
+ *
+ * retrieveKnowledge runs after buildContext: for support intents, product
+ * questions and general chat it adds the merchant's most relevant
+ * FAQ/article chunks to the workflow context. citeKnowledge runs after
+ * guardOutput and attaches the entries the reply was based on, so they are
+ * cached with the reply.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { resolveKnowledgeSources, retrieveKnowledge } from '../knowledge-base.service.server';
+import { DISCOVERY_INTENT_TYPES } from '../intent-classifier.service.server';
+import type { ChatIntentType, ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'knowledge' });
+
+const CATALOG_INTENTS: ChatIntentType[] = DISCOVERY_INTENT_TYPES;
+
+/**
+ * Retrieve knowledge stage
+ */
+export async function retrieveKnowledgeStage(state: ChatPipelineState): Promise<void> {
+  // Already answered (cache hit, verified order status...), browsing the catalog
+  // or answered with a merchant's canned reply
+  if (state.response || state.customIntent || (!state.isSupportIntent && CATALOG_INTENTS.includes(state.intent.type))) {
+    return;
+  }
+
+  try {
+    state.knowledge = await retrieveKnowledge(state.input.shop, state.input.message);
+  } catch (error) {
+    // Non-blocking - answer without the knowledge base
+    logger.warn({
+      shop: state.input.shop,
+      error: error instanceof Error ? error.message : String(error)
+    }, '⚠️ Knowledge base retrieval failed (non-blocking)');
+    return;
+  }
+
+  if (state.knowledge.length > 0) {
+    state.n8nContext.knowledgeBase = state.knowledge.map(({ id, type, title, content, url }) => ({
+      id,
+      type,
+      title,
+      content,
+      ...(url ? { url } : {}),
+    }));
+  }
+}
+
+/**
+ * Cite knowledge stage
+ */
+export async function citeKnowledgeStage(state: ChatPipelineState): Promise<void> {
+  const response = state.response;
+  if (!response || state.knowledge.length === 0 || response.messageType === 'guardrail') {
+    return;
+  }
+
+  const sources = resolveKnowledgeSources(state.knowledge, response);
+  if (sources.length > 0) {
+    response.sources = sources;
+    logger.debug({ sources: sources.map((source) => source.id) }, '📚 Answer cites knowledge base entries');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Chat Pipeline - Lead Capture Stage
+ *
+ * Runs after escalate and attaches the email form to the reply (messageType
+ * "lead_capture") when the assistant asked for it or the shop's rule is met
+ * (see lib/lead-capture.server). Product-intent messages are counted on the
+ * session context; the form is offered at most once per conversation and
+ * never to shoppers who already left their email.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import {
+  parseLeadCaptureConfig,
+  shouldOfferLeadCapture,
+  type LeadCaptureSessionState,
+} from '../../lib/lead-capture.server';
+import { hasLead } from '../lead.service.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'leadCapture' });
+
+// Replies the form can be attached to (others carry their own card or form)
+const OFFERABLE_MESSAGE_TYPES = ['general', 'product_recommendation', 'no_products_found'];
+
+export function getLeadCaptureState(sessionContext: Record<string, unknown>): LeadCaptureSessionState {
+  const stored = sessionContext.leadCapture as Partial<LeadCaptureSessionState> | undefined;
+  return {
+    productMessages: typeof stored?.productMessages === 'number' ? stored.productMessages : 0,
+    ...(typeof stored?.offeredAt === 'string' ? { offeredAt: stored.offeredAt } : {}),
+  };
+}
+
+/**
+ * Lead capture stage
+ */
+export async function leadCaptureStage(state: ChatPipelineState): Promise<void> {
+  const response = state.response;
+  if (!response || !state.chatSessionId) {
+    return;
+  }
+
+  const config = parseLeadCaptureConfig(state.settings?.leadCapture);
+  if (!config.enabled) {
+    return;
+  }
+
+  const stored = getLeadCaptureState(state.sessionContext);
+  if (stored.offeredAt) {
+    return;
+  }
+
+  const leadState: LeadCaptureSessionState = {
+    productMessages: stored.productMessages + (state.isProductIntent ? 1 : 0),
+  };
+  state.sessionContext.leadCapture = leadState;
+
+  // Not on replies that offer a human, failed, or already show a form
+  if (state.escalationReason || state.usedFallback ||
+    (response.messageType && !OFFERABLE_MESSAGE_TYPES.includes(response.messageType))) {
+    return;
+  }
+
+  const trigger = shouldOfferLeadCapture(config, leadState, !!response.requestLeadCapture);
+  if (!trigger) {
+    return;
+  }
+
+  const offered = { ...leadState, offeredAt: new Date().toISOString() };
+  if (state.userProfileId) {
+    try {
+      if (await hasLead(state.input.shop, state.userProfileId)) {
+        state.sessionContext.leadCapture = offered;
+        return;
+      }
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop: state.input.shop
+      }, '⚠️ Failed to check existing leads (non-blocking)');
+      return;
+    }
+  }
+
+  state.sessionContext.leadCapture = offered;
+  response.messageType = 'lead_capture';
+  state.leadCapture = { trigger };
+  logger.info({ shop: state.input.shop, trigger, productMessages: leadState.productMessages }, '📇 Offering lead capture');
+}
@@ -0,0 +1,494 @@
+/**
+ * Chat Pipeline - Track Order Stage
+ *
+ * Real order lookups for the TRACK_ORDER intent:
+ * 1. Ask for the order number plus the email or phone used on the order
+ *    (the widget renders a small form for `order_lookup_request`)
+ * 2. Verify both against the Admin API - an order is only shown when the
+ *    contact matches, and "not found" and "wrong contact" look identical
+ * 3. Return fulfillment status, carriers, tracking numbers and ETA as an
+ *    `order_status` message the widget renders as a timeline
+ *
+ * Failed lookups are rate-limited per session, per client IP and per order
+ * number so order numbers cannot be enumerated.
+ *
+ * Note: without the read_all_orders scope Shopify only returns orders from
+ * the last 60 days.
+ */
+
+import { RATE_LIMITS } from '../../config/limits';
+import { createLogger } from '../../lib/logger.server';
+import { checkRateLimit, peekRateLimit } from '../../lib/rate-limit.server';
+import { queryAdmin } from './products.server';
+import type {
+  ChatPipelineState,
+  OrderShipment,
+  OrderStatusSummary,
+  OrderTimelineStep,
+  OrderTimelineStepKey,
+  PipelineAdminClient,
+} from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'trackOrder' });
+
+const ORDER_LOOKUP_QUERY = `
+  #graphql
+  query chatOrderLookup($query: String!) {
+    orders(first: 5, query: $query) {
+      edges {
+        node {
+          id
+          name
+          email
+          phone
+          createdAt
+          cancelledAt
+          displayFulfillmentStatus
+          displayFinancialStatus
+          customer { email phone }
+          shippingAddress { phone }
+          billingAddress { phone }
+          fulfillments(first: 10) {
+            status
+            displayStatus
+            createdAt
+            inTransitAt
+            deliveredAt
+            estimatedDeliveryAt
+            trackingInfo(first: 10) { company number url }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const EMAIL_PATTERN = /[^\s@<>()"',;]+@[^\s@<>()"',;]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{5,}\d/g;
+const ORDER_HASH_PATTERN = /#\s?([A-Z0-9-]*\d[A-Z0-9-]*)/i;
+const ORDER_KEYWORD_PATTERN = /\b(?:order|commande|pedido|bestellung|auftrag|encomenda|ordine)\b[^\dA-Z#]{0,20}#?\s?([A-Z]{0,5}\d[A-Z0-9-]{2,})/i;
+// Reply to our question: a bare number is the order number
+const BARE_ORDER_PATTERN = /(?:^|\s)#?(\d{3,8})(?=[\s,;]|$)/;
+const MIN_PHONE_DIGITS = 7;
+const PHONE_MATCH_DIGITS = 8;
+
+type OrderMessageKey = 'ask' | 'notFound' | 'rateLimited' | 'unavailable' | 'summary' | 'carrier' | 'tracking' | 'eta';
+
+const ORDER_MESSAGES: Record<string, Record<OrderMessageKey, string>> = {
+  en: {
+    ask: "I can check that for you! Please share your order number (e.g. #1001) and the email address or phone number used on the order.",
+    notFound: "I couldn't find an order matching those details. Please check the order number and the email or phone number used at checkout.",
+    rateLimited: "Too many unsuccessful lookups. For your security, please try again later or contact the store directly.",
+    unavailable: "I can't look up orders right now. Please try again in a few minutes or contact the store directly.",
+    summary: "Here's the latest on order {order}: {status}",
+    carrier: "Carrier",
+    tracking: "Tracking",
+    eta: "Estimated delivery"
+  },
+  fr: {
+    ask: "Je peux vérifier cela pour vous ! Indiquez votre numéro de commande (ex. #1001) et l'adresse e-mail ou le numéro de téléphone utilisé pour la commande.",
+    notFound: "Je n'ai trouvé aucune commande correspondant à ces informations. Vérifiez le numéro de commande et l'e-mail ou le téléphone utilisé lors de l'achat.",
+    rateLimited: "Trop de tentatives infructueuses. Pour votre sécurité, réessayez plus tard ou contactez directement la boutique.",
+    unavailable: "Je ne peux pas consulter les commandes pour le moment. Réessayez dans quelques minutes ou contactez directement la boutique.",
+    summary: "Voici le dernier statut de la commande {order} : {status}",
+    carrier: "Transporteur",
+    tracking: "Suivi",
+    eta: "Livraison estimée"
+  },
+  es: {
+    ask: "¡Puedo comprobarlo! Indícame tu número de pedido (p. ej. #1001) y el correo electrónico o teléfono usado en el pedido.",
+    notFound: "No encontré ningún pedido con esos datos. Revisa el número de pedido y el correo o teléfono usado al comprar.",
+    rateLimited: "Demasiados intentos fallidos. Por tu seguridad, inténtalo más tarde o contacta directamente con la tienda.",
+    unavailable: "No puedo consultar pedidos en este momento. Inténtalo en unos minutos o contacta directamente con la tienda.",
+    summary: "Este es el estado más reciente del pedido {order}: {status}",
+    carrier: "Transportista",
+    tracking: "Seguimiento",
+    eta: "Entrega estimada"
+  },
+  de: {
+    ask: "Das kann ich gerne prüfen! Bitte nennen Sie Ihre Bestellnummer (z. B. #1001) und die E-Mail-Adresse oder Telefonnummer der Bestellung.",
+    notFound: "Ich konnte keine Bestellung mit diesen Angaben finden. Bitte prüfen Sie die Bestellnummer und die beim Kauf verwendete E-Mail oder Telefonnummer.",
+    rateLimited: "Zu viele erfolglose Versuche. Zu Ihrer Sicherheit versuchen Sie es bitte später erneut oder kontaktieren Sie den Shop direkt.",
+    unavailable: "Ich kann Bestellungen gerade nicht abrufen. Bitte versuchen Sie es in einigen Minuten erneut oder kontaktieren Sie den Shop direkt.",
+    summary: "Aktueller Stand der Bestellung {order}: {status}",
+    carrier: "Versanddienst",
+    tracking: "Sendungsverfolgung",
+    eta: "Voraussichtliche Lieferung"
+  },
+  pt: {
+    ask: "Posso verificar isso para você! Informe o número do pedido (ex. #1001) e o e-mail ou telefone usado no pedido.",
+    notFound: "Não encontrei nenhum pedido com esses dados. Verifique o número do pedido e o e-mail ou telefone usado na compra.",
+    rateLimited: "Muitas tentativas sem sucesso. Por segurança, tente novamente mais tarde ou entre em contato diretamente com a loja.",
+    unavailable: "Não consigo consultar pedidos agora. Tente novamente em alguns minutos ou entre em contato diretamente com a loja.",
+    summary: "Esta é a situação mais recente do pedido {order}: {status}",
+    carrier: "Transportadora",
+    tracking: "Rastreamento",
+    eta: "Entrega estimada"
+  },
+  it: {
+    ask: "Posso verificarlo per te! Indica il numero d'ordine (es. #1001) e l'email o il telefono usato per l'ordine.",
+    notFound: "Non ho trovato ordini corrispondenti a questi dati. Controlla il numero d'ordine e l'email o il telefono usato al momento dell'acquisto.",
+    rateLimited: "Troppi tentativi non riusciti. Per sicurezza, riprova più tardi o contatta direttamente il negozio.",
+    unavailable: "Al momento non riesco a consultare gli ordini. Riprova tra qualche minuto o contatta direttamente il negozio.",
+    summary: "Ecco lo stato più recente dell'ordine {order}: {status}",
+    carrier: "Corriere",
+    tracking: "Tracciamento",
+    eta: "Consegna prevista"
+  },
+  ja: {
+    ask: "確認いたします！ご注文番号（例: #1001）と、ご注文時のメールアドレスまたは電話番号を教えてください。",
+    notFound: "入力された情報に一致するご注文が見つかりませんでした。ご注文番号と、購入時のメールアドレスまたは電話番号をご確認ください。",
+    rateLimited: "照会の失敗が続いています。セキュリティのため、時間をおいて再度お試しいただくか、ストアに直接お問い合わせください。",
+    unavailable: "現在ご注文を照会できません。数分後に再度お試しいただくか、ストアに直接お問い合わせください。",
+    summary: "ご注文 {order} の最新状況: {status}",
+    carrier: "配送業者",
+    tracking: "追跡番号",
+    eta: "お届け予定"
+  },
+  zh: {
+    ask: "我可以帮您查询！请提供您的订单号（例如 #1001）以及下单时使用的邮箱或电话号码。",
+    notFound: "未找到与这些信息匹配的订单。请检查订单号以及结账时使用的邮箱或电话号码。",
+    rateLimited: "查询失败次数过多。为了您的安全，请稍后再试或直接联系店铺。",
+    unavailable: "目前无法查询订单。请几分钟后再试或直接联系店铺。",
+    summary: "订单 {order} 的最新状态：{status}",
+    carrier: "承运商",
+    tracking: "物流单号",
+    eta: "预计送达"
+  }
+};
+
+const TIMELINE_LABELS: Record<string, Record<OrderTimelineStepKey, string>> = {
+  en: { ordered: "Order placed", shipped: "Shipped", in_transit: "In transit", out_for_delivery: "Out for delivery", delivered: "Delivered", cancelled: "Cancelled" },
+  fr: { ordered: "Commande passée", shipped: "Expédiée", in_transit: "En transit", out_for_delivery: "En cours de livraison", delivered: "Livrée", cancelled: "Annulée" },
+  es: { ordered: "Pedido realizado", shipped: "Enviado", in_transit: "En tránsito", out_for_delivery: "En reparto", delivered: "Entregado", cancelled: "Cancelado" },
+  de: { ordered: "Bestellt", shipped: "Versendet", in_transit: "Unterwegs", out_for_delivery: "In Zustellung", delivered: "Zugestellt", cancelled: "Storniert" },
+  pt: { ordered: "Pedido realizado", shipped: "Enviado", in_transit: "Em trânsito", out_for_delivery: "Saiu para entrega", delivered: "Entregue", cancelled: "Cancelado" },
+  it: { ordered: "Ordine effettuato", shipped: "Spedito", in_transit: "In transito", out_for_delivery: "In consegna", delivered: "Consegnato", cancelled: "Annullato" },
+  ja: { ordered: "注文済み", shipped: "発送済み", in_transit: "輸送中", out_for_delivery: "配達中", delivered: "配達完了", cancelled: "キャンセル済み" },
+  zh: { ordered: "已下单", shipped: "已发货", in_transit: "运输中", out_for_delivery: "派送中", delivered: "已送达", cancelled: "已取消" }
+};
+
+const QUICK_REPLIES: Record<string, string[]> = {
+  en: ["Shipping info", "Return policy", "Browse products"],
+  fr: ["Info livraison", "Politique de retour", "Parcourir produits"],
+  es: ["Información de envío", "Política de devoluciones", "Ver productos"],
+  de: ["Versandinfos", "Rückgaberichtlinie", "Produkte ansehen"],
+  pt: ["Informações de envio", "Política de devolução", "Ver produtos"],
+  it: ["Info spedizione", "Politica di reso", "Sfoglia prodotti"],
+  ja: ["配送について", "返品ポリシー", "商品を見る"],
+  zh: ["配送信息", "退货政策", "浏览商品"]
+};
+
+function getMessages(lang: string): Record<OrderMessageKey, string> {
+  return ORDER_MESSAGES[lang] ?? ORDER_MESSAGES['en']!;
+}
+
+// ============================================================================
+// Parsing & verification
+// ============================================================================
+
+export interface OrderLookupDetails {
+  orderNumber?: string;
+  contact?: string;
+  // Submitted through the widget form rather than typed
+  fromForm: boolean;
+}
+
+/**
+ * Normalize an order number ("#1001", " 1001 ") for search and comparison
+ */
+export function normalizeOrderNumber(raw: string): string | null {
+  const value = raw.trim().replace(/^#/, '').replace(/\s+/g, '').toUpperCase();
+  return /^[A-Z0-9-]{1,30}$/.test(value) ? value : null;
+}
+
+/**
+ * Extract the order number and contact (email or phone) from the message,
+ * or from the widget's order lookup form (`context.orderLookup`)
+ *
+ * @param options.pending - We asked for details last turn, so a bare number counts as the order number
+ */
+export function extractOrderLookup(
+  message: string,
+  context: Record<string, any>,
+  options: { pending?: boolean } = {}
+): OrderLookupDetails {
+  const form = context.orderLookup;
+  if (form?.orderNumber && form?.contact) {
+    return { orderNumber: String(form.orderNumber), contact: String(form.contact), fromForm: true };
+  }
+
+  let rest = message;
+
+  const email = rest.match(EMAIL_PATTERN)?.[0];
+  if (email) rest = rest.replace(email, ' ');
+
+  const keywordMatch = rest.match(ORDER_HASH_PATTERN) || rest.match(ORDER_KEYWORD_PATTERN);
+  let orderNumber = keywordMatch?.[1];
+  if (keywordMatch) rest = rest.replace(keywordMatch[0], ' ');
+
+  if (!orderNumber && options.pending) {
+    const bare = rest.match(BARE_ORDER_PATTERN);
+    if (bare) {
+      orderNumber = bare[1];
+      rest = rest.replace(bare[0], ' ');
+    }
+  }
+
+  const phone = (rest.match(PHONE_PATTERN) || [])
+    .find((candidate) => candidate.replace(/\D/g, '').length >= MIN_PHONE_DIGITS);
+
+  return {
+    orderNumber,
+    contact: email || phone?.trim(),
+    fromForm: false
+  };
+}
+
+function digitsOnly(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\D/g, '') : '';
+}
+
+/**
+ * Check the shopper-provided email or phone against the order
+ * (phones compare on their last digits so country-code formats match)
+ */
+export function contactMatchesOrder(order: any, contact: string): boolean {
+  const value = contact.trim().toLowerCase();
+
+  if (value.includes('@')) {
+    return [order.email, order.customer?.email]
+      .some((email) => typeof email === 'string' && email.trim().toLowerCase() === value);
+  }
+
+  const digits = digitsOnly(value);
+  if (digits.length < MIN_PHONE_DIGITS) return false;
+  const suffix = digits.slice(-PHONE_MATCH_DIGITS);
+
+  return [order.phone, order.customer?.phone, order.shippingAddress?.phone, order.billingAddress?.phone]
+    .map(digitsOnly)
+    .some((phone) => phone.length >= MIN_PHONE_DIGITS && phone.slice(-PHONE_MATCH_DIGITS) === suffix);
+}
+
+/**
+ * Find the order by number and verify the contact
+ *
+ * @returns The order node, or null when not found or the contact does not match
+ */
+export async function lookupOrder(
+  admin: PipelineAdminClient,
+  orderNumber: string,
+  contact: string
+): Promise<any | null> {
+  const data = await queryAdmin(admin, ORDER_LOOKUP_QUERY, {
+    query: `name:${orderNumber} OR name:#${orderNumber}`
+  });
+
+  const orders = (data?.orders?.edges || []).map((edge: any) => edge.node);
+  const order = orders.find((node: any) => normalizeOrderNumber(String(node.name || '')) === orderNumber);
+
+  return order && contactMatchesOrder(order, contact) ? order : null;
+}
+
+// ============================================================================
+// Status summary
+// ============================================================================
+
+/**
+ * Build the widget timeline from the order and its fulfillments
+ */
+export function buildOrderTimeline(order: any, lang: string): OrderTimelineStep[] {
+  const labels = TIMELINE_LABELS[lang] ?? TIMELINE_LABELS['en']!;
+  const step = (key: OrderTimelineStepKey, date: string | null | undefined, done: boolean): OrderTimelineStep => ({
+    key,
+    label: labels[key],
+    date: date || null,
+    done
+  });
+
+  const ordered = step('ordered', order.createdAt, true);
+  if (order.cancelledAt) {
+    return [ordered, step('cancelled', order.cancelledAt, true)];
+  }
+
+  const fulfillments: any[] = (order.fulfillments || []).filter((f: any) => f.status !== 'CANCELLED');
+  const first = [...fulfillments].sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))[0];
+  const delivered = fulfillments.length > 0 &&
+    order.displayFulfillmentStatus === 'FULFILLED' &&
+    fulfillments.every((f) => f.displayStatus === 'DELIVERED' || f.deliveredAt);
+  const outForDelivery = delivered || fulfillments.some((f) => f.displayStatus === 'OUT_FOR_DELIVERY');
+  const inTransitAt = fulfillments.map((f) => f.inTransitAt).filter(Boolean).sort()[0];
+  const inTransit = outForDelivery || !!inTransitAt || fulfillments.some((f) => f.displayStatus === 'IN_TRANSIT');
+  const deliveredAt = fulfillments.map((f) => f.deliveredAt).filter(Boolean).sort().pop();
+
+  return [
+    ordered,
+    step('shipped', first?.createdAt, !!first),
+    step('in_transit', inTransitAt, inTransit),
+    step('out_for_delivery', null, outForDelivery),
+    step('delivered', delivered ? deliveredAt : null, delivered)
+  ];
+}
+
+/**
+ * Map a verified order to the structured status sent to the widget
+ */
+export function summarizeOrder(order: any, lang: string): OrderStatusSummary {
+  const shipments: OrderShipment[] = (order.fulfillments || [])
+    .filter((f: any) => f.status !== 'CANCELLED')
+    .map((f: any) => ({
+      status: f.displayStatus || f.status,
+      carrier: f.trackingInfo?.find((t: any) => t.company)?.company || null,
+      trackingNumbers: (f.trackingInfo || []).map((t: any) => t.number).filter(Boolean),
+      trackingUrls: (f.trackingInfo || []).map((t: any) => t.url).filter(Boolean),
+      estimatedDeliveryAt: f.estimatedDeliveryAt || null,
+      deliveredAt: f.deliveredAt || null
+    }));
+
+  return {
+    orderName: order.name,
+    placedAt: order.createdAt,
+    fulfillmentStatus: order.displayFulfillmentStatus,
+    financialStatus: order.displayFinancialStatus || null,
+    cancelled: !!order.cancelledAt,
+    shipments,
+    timeline: buildOrderTimeline(order, lang)
+  };
+}
+
+/**
+ * Plain-text version of the status (chat history, N8N, non-timeline clients)
+ */
+export function formatOrderStatusMessage(summary: OrderStatusSummary, lang: string): string {
+  const messages = getMessages(lang);
+  const current = [...summary.timeline].reverse().find((s) => s.done) ?? summary.timeline[0]!;
+  const lines = [
+    messages.summary.replace('{order}', summary.orderName).replace('{status}', current.label)
+  ];
+
+  for (const shipment of summary.shipments) {
+    const parts: string[] = [];
+    if (shipment.carrier) parts.push(`${messages.carrier}: ${shipment.carrier}`);
+    if (shipment.trackingNumbers.length) parts.push(`${messages.tracking}: ${shipment.trackingNumbers.join(', ')}`);
+    if (shipment.estimatedDeliveryAt && !shipment.deliveredAt) {
+      parts.push(`${messages.eta}: ${shipment.estimatedDeliveryAt.substring(0, 10)}`);
+    }
+    if (parts.length) lines.push(`• ${parts.join(' · ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Rate limiting (failed lookups only)
+// ============================================================================
+
+function failureLimits(state: ChatPipelineState, orderNumber: string) {
+  const config = (maxRequests: number) => ({
+    windowMs: RATE_LIMITS.ORDER_LOOKUP_FAILURE_WINDOW_SECONDS * 1000,
+    maxRequests
+  });
+  const { shop, clientIp } = state.input;
+
+  return [
+    { namespace: 'order-lookup:session', identifier: `${shop}:${state.sessionId}`, config: config(RATE_LIMITS.ORDER_LOOKUP_FAILURES_PER_SESSION) },
+    { namespace: 'order-lookup:order', identifier: `${shop}:${orderNumber}`, config: config(RATE_LIMITS.ORDER_LOOKUP_FAILURES_PER_ORDER) },
+    ...(clientIp
+      ? [{ namespace: 'order-lookup:ip', identifier: `${shop}:${clientIp}`, config: config(RATE_LIMITS.ORDER_LOOKUP_FAILURES_PER_IP) }]
+      : [])
+  ];
+}
+
+// ============================================================================
+// Stage
+// ============================================================================
+
+function respond(state: ChatPipelineState, message: string, messageType: string, pending: boolean, confidence = 0.9): void {
+  state.response = {
+    message,
+    messageType,
+    recommendations: [],
+    quickReplies: messageType === 'order_lookup_request' ? [] : QUICK_REPLIES[state.language] ?? QUICK_REPLIES['en']!,
+    confidence
+  };
+  state.recommendations = [];
+  state.sessionContext.orderLookup = { pending };
+}
+
+/**
+ * Track order stage
+ */
+export async function trackOrderStage(state: ChatPipelineState): Promise<void> {
+  if (state.response) {
+    return;
+  }
+
+  const { shop, message, context } = state.input;
+  const lang = state.language;
+  const messages = getMessages(lang);
+  const pending = (state.sessionContext.orderLookup as { pending?: boolean } | undefined)?.pending === true;
+
+  const details = extractOrderLookup(message, context, { pending });
+  const hasDetails = !!details.orderNumber && !!details.contact;
+  const continuesLookup = details.fromForm || (pending && (hasDetails || !!details.orderNumber || !!details.contact));
+
+  if (state.intent.type !== 'TRACK_ORDER' && !continuesLookup) {
+    if (pending) {
+      // Shopper moved on - stop waiting for order details
+      state.sessionContext.orderLookup = { pending: false };
+    }
+    return;
+  }
+
+  state.intent = { type: 'TRACK_ORDER' };
+  state.isSupportIntent = true;
+  state.isProductIntent = false;
+
+  const orderNumber = details.orderNumber ? normalizeOrderNumber(details.orderNumber) : null;
+  if (!orderNumber || !details.contact) {
+    respond(state, messages.ask, 'order_lookup_request', true);
+    return;
+  }
+
+  if (!state.admin) {
+    respond(state, messages.unavailable, 'error', true, 0.3);
+    return;
+  }
+
+  const limits = failureLimits(state, orderNumber);
+  const blocked = limits.find((limit) => peekRateLimit(limit.identifier, limit.config, limit.namespace).isLimited);
+  if (blocked) {
+    logger.warn({ shop, sessionId: state.sessionId, limit: blocked.namespace }, '🚫 Order lookup blocked - too many failed attempts');
+    respond(state, messages.rateLimited, 'error', false, 0.5);
+    return;
+  }
+
+  let order: any | null;
+  try {
+    order = await lookupOrder(state.admin, orderNumber, details.contact);
+  } catch (error) {
+    logger.error({
+      shop,
+      error: error instanceof Error ? error.message : String(error)
+    }, '❌ Order lookup failed');
+    respond(state, messages.unavailable, 'error', true, 0.3);
+    return;
+  }
+
+  if (!order) {
+    limits.forEach((limit) => checkRateLimit(limit.identifier, limit.config, limit.namespace));
+    logger.info({ shop, sessionId: state.sessionId }, '⚠️ Order lookup did not match');
+    respond(state, messages.notFound, 'order_lookup_request', true, 0.6);
+    return;
+  }
+
+  state.orderStatus = summarizeOrder(order, lang);
+  respond(state, formatOrderStatusMessage(state.orderStatus, lang), 'order_status', false);
+
+  logger.info({
+    shop,
+    orderName: order.name,
+    fulfillmentStatus: order.displayFulfillmentStatus,
+    shipments: state.orderStatus.shipments.length
+  }, '✅ Order status returned');
+}
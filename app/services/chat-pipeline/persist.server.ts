@@ -0,0 +1,123 @@
+/**
+ * Chat Pipeline - Persist Stage
+ *
+ * Saves the user and assistant messages, updates the session context and
+ * learns shopper preferences. Non-blocking: a database failure never breaks
+ * the chat reply.
+ */
+
+import { prisma as db } from '../../db.server';
+import { createLogger } from '../../lib/logger.server';
+import { personalizationService } from '../personalization.service';
+import { getIntentAnalyticsName } from '../intent-classifier.service.server';
+import { parseSessionContext } from './context.server';
+import { getStoredSummary } from './summary.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'persist' });
+
+/**
+ * Persist stage
+ */
+export async function persistStage(state: ChatPipelineState): Promise<void> {
+  const { shop, message, source } = state.input;
+
+  if (!state.chatSessionId || !state.response) {
+    logger.warn({ shop, hasSession: !!state.chatSessionId }, '⚠️ Skipping persistence - no chat session');
+    return;
+  }
+
+  try {
+    await personalizationService.saveChatMessage(state.chatSessionId, 'user', message, {
+      intent: getIntentAnalyticsName(state.intent),
+      sentiment: state.sentiment,
+      metadata: {
+        language: state.language,
+        source,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    const productIds = state.recommendations.map((p: any) => p.id);
+
+    await personalizationService.saveChatMessage(state.chatSessionId, 'assistant', state.response.message || '', {
+      intent: getIntentAnalyticsName(state.intent),
+      sentiment: 'neutral', // Assistant messages are neutral
+      confidence: state.response.confidence || 0.7,
+      productsShown: productIds,
+      metadata: {
+        messageType: state.response.messageType || 'general',
+        responseTime: state.responseTime,
+        workflowType: state.workflow?.workflowType,
+        engine: state.workflow?.engine,
+        cacheHit: state.cache?.status === 'hit' || undefined,
+        recommendationCount: productIds.length,
+        productTitles: state.recommendations.map((p: any) => p.title).filter(Boolean),
+        // Why products were recommended: tool calls and what they returned
+        toolCalls: state.response.toolCalls,
+        // Recommendations dropped or fixed against the real catalog
+        recommendationCorrections: state.recommendationCorrections?.length
+          ? state.recommendationCorrections
+          : undefined,
+        // Knowledge base entries cited by the answer
+        knowledgeSources: state.response.sources?.map((source) => source.id),
+        source,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    // Merge into the stored context: a summary a concurrent request folded
+    // meanwhile is newer than the copy loaded at the start of this turn
+    const stored = await db.chatSession.findUnique({
+      where: { id: state.chatSessionId },
+      select: { context: true }
+    });
+    const storedContext = parseSessionContext(stored?.context);
+    const storedSummary = getStoredSummary(storedContext);
+    const loadedSummary = getStoredSummary(state.sessionContext);
+
+    state.sessionContext = {
+      ...storedContext,
+      ...state.sessionContext,
+      ...(storedSummary && storedSummary.coveredMessages > (loadedSummary?.coveredMessages ?? 0)
+        ? { conversationSummary: storedSummary }
+        : {}),
+      intent: getIntentAnalyticsName(state.intent),
+      sentiment: state.sentiment,
+      language: state.language
+    };
+
+    await db.chatSession.update({
+      where: { id: state.chatSessionId },
+      data: {
+        context: JSON.stringify(state.sessionContext)
+      }
+    });
+
+    if (state.userProfileId) {
+      await personalizationService.trackInteraction(state.userProfileId, {
+        type: 'message',
+        message,
+        timestamp: Date.now(),
+      });
+
+      // Learn from this interaction
+      if (productIds.length > 0) {
+        await personalizationService.learnPreferences(state.userProfileId, message, productIds);
+      }
+    }
+
+    logger.debug({
+      chatSessionId: state.chatSessionId,
+      userProfileId: state.userProfileId
+    }, '✅ Saved chat data to database');
+  } catch (dbError) {
+    // Log error but don't break the chatbot
+    logger.error({
+      error: dbError instanceof Error ? dbError.message : String(dbError),
+      shop,
+      chatSessionId: state.chatSessionId,
+      intent: getIntentAnalyticsName(state.intent)
+    }, '❌ Failed to save chat data to database (non-blocking)');
+  }
+}
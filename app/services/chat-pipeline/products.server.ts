@@ -0,0 +1,210 @@
+/**
+ * Chat Pipeline - Retrieve Products Stage
+ *
+ * Fetches catalog products for product and general-chat intents so the AI
+ * works from the shop's real inventory. Support intents skip this stage.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { CONVERSATION_INTENT_TYPES } from '../intent-classifier.service.server';
+import type { ChatIntent, ChatIntentType, ChatPipelineState, PipelineAdminClient, PipelineProduct } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'retrieveProducts' });
+
+const GENERAL_CHAT_INTENTS: ChatIntentType[] = CONVERSATION_INTENT_TYPES;
+
+// ✅ PERFORMANCE FIX: Timeout to prevent hanging GraphQL requests
+const PRODUCT_QUERY_TIMEOUT_MS = 15000;
+
+// ✅ IMPROVED: Fetch more products (50 instead of 20)
+const PRODUCT_FETCH_LIMIT = 50;
+
+export const PRODUCT_FIELDS = `
+  id
+  title
+  handle
+  description
+  totalInventory
+  tags
+  featuredImage { url }
+  variants(first: 1) {
+    edges {
+      node {
+        price
+        compareAtPrice
+      }
+    }
+  }
+`;
+
+const PRODUCTS_QUERY = `
+  #graphql
+  query getProducts($first: Int!, $query: String) {
+    products(first: $first, query: $query) {
+      edges {
+        node {
+          ${PRODUCT_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+const BESTSELLERS_QUERY = `
+  #graphql
+  query getBestsellers($first: Int!) {
+    products(first: $first, sortKey: CREATED_AT, reverse: true) {
+      edges {
+        node {
+          ${PRODUCT_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Build the GraphQL query and variables for a given intent
+ * (custom intents pass the merchant's product search query)
+ */
+export function buildProductQuery(intent: ChatIntent, customQuery?: string | null): {
+  query: string;
+  variables: { first: number; query?: string };
+} {
+  if (intent.type === "BESTSELLERS") {
+    return { query: BESTSELLERS_QUERY, variables: { first: PRODUCT_FETCH_LIMIT } };
+  }
+
+  let searchQuery = "status:active";
+  if (intent.type === "CUSTOM" && customQuery) {
+    searchQuery = `status:active ${customQuery}`;
+  } else if (intent.type === "PRODUCT_SEARCH") {
+    if (intent.query === "t-shirt") {
+      searchQuery = "product_type:t-shirt";
+    } else if (intent.query === "shoe") {
+      searchQuery = "product_type:shoe";
+    }
+  }
+
+  return { query: PRODUCTS_QUERY, variables: { first: PRODUCT_FETCH_LIMIT, query: searchQuery } };
+}
+
+/**
+ * Map a GraphQL product node to the pipeline product shape
+ */
+export function mapProductNode(node: any): PipelineProduct {
+  return {
+    id: node.id,
+    title: node.title,
+    handle: node.handle,
+    description: node.description || '',
+    image: node.featuredImage?.url,
+    price: node.variants?.edges?.[0]?.node.price || '0.00',
+    compareAtPrice: node.variants?.edges?.[0]?.node.compareAtPrice || null,
+    inventory: node.totalInventory || 0,
+    tags: node.tags || [],
+    rating: null, // Add if you have review apps
+    reviewCount: 0 // Add if you have review apps
+  };
+}
+
+/**
+ * Run an Admin GraphQL query with a timeout
+ *
+ * @throws When the query times out or returns GraphQL errors
+ */
+export async function queryAdmin(
+  admin: PipelineAdminClient,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<any> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('GraphQL query timeout')), PRODUCT_QUERY_TIMEOUT_MS);
+  });
+
+  try {
+    const response = await Promise.race([admin.graphql(query, { variables }), timeoutPromise]);
+    const responseData = (await response.json()) as any;
+
+    // ✅ CHECK FOR GRAPHQL ERRORS
+    if (responseData.errors) {
+      logger.error({
+        graphqlErrors: responseData.errors,
+        variables
+      }, '❌ GraphQL query returned errors');
+      throw new Error('GraphQL query returned errors');
+    }
+
+    return responseData?.data;
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch products from the Admin API with a timeout
+ */
+export async function fetchProductsForIntent(
+  admin: PipelineAdminClient,
+  intent: ChatIntent,
+  customQuery?: string | null
+): Promise<PipelineProduct[]> {
+  const { query, variables } = buildProductQuery(intent, customQuery);
+
+  logger.info({
+    intentType: intent.type,
+    graphqlQuery: variables.query || 'sortKey-based query'
+  }, '🔍 Query being sent to GraphQL');
+
+  const data = await queryAdmin(admin, query, variables);
+  return data?.products?.edges?.map((edge: any) => mapProductNode(edge.node)) || [];
+}
+
+/**
+ * Retrieve products stage
+ */
+export async function retrieveProductsStage(state: ChatPipelineState): Promise<void> {
+  const { shop } = state.input;
+
+  // Message was already answered (e.g. blocked by guardrails)
+  if (state.response) {
+    return;
+  }
+
+  // ✅ BYOK FIX: Always fetch products for product intents AND general chat (greetings, thanks...)
+  // This prevents AI from inventing generic products like "Electronics, Smartphones"
+  // 🆘 CRITICAL: Do NOT fetch for support intents - they don't need inventory
+  const shouldFetchProducts = state.isProductIntent || GENERAL_CHAT_INTENTS.includes(state.intent.type);
+
+  if (!shouldFetchProducts || state.isSupportIntent) {
+    logger.info({ intent: state.intent.type }, 'Skipping product fetch for support intent');
+    return;
+  }
+
+  if (!state.admin) {
+    state.productsFetchFailed = true;
+    state.sessionError = true;
+    return;
+  }
+
+  try {
+    state.products = await fetchProductsForIntent(state.admin, state.intent, state.customIntent?.productQuery);
+    logger.info({ count: state.products.length, shop, intent: state.intent.type }, '✅ Fetched products');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // ✅ CRITICAL FIX: Detect session errors
+    if (errorMessage.includes('Could not find a session') ||
+        errorMessage.includes('session') ||
+        errorMessage.includes('offline access token')) {
+      state.sessionError = true;
+      logger.error({ error: errorMessage, shop }, '❌ SESSION ERROR: Shop needs to reinstall app or session expired');
+    } else {
+      logger.error({ error: errorMessage, shop }, '❌ Failed to fetch products');
+    }
+
+    state.productsFetchFailed = true;
+    state.products = [];
+  }
+}
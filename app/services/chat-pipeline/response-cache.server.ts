@@ -0,0 +1,119 @@
+/**
+ * Chat Pipeline - Response Cache Stages
+ *
+ * cacheLookup runs after guardInput: a hit answers the message before the
+ * product query and the workflow call (cached product cards are still
+ * re-checked by verifyRecommendations). cacheStore runs after guardOutput
+ * and only keeps clean workflow replies.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import {
+  getCacheScope,
+  isResponseCacheEnabled,
+  lookupCachedResponse,
+  storeCachedResponse,
+  type ResponseCacheRequest,
+} from '../response-cache.service.server';
+import type { ChatPipelineState } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'responseCache' });
+
+// Replies that describe a failure or a one-off situation
+const NON_CACHEABLE_MESSAGE_TYPES = ['error', 'fallback_mode', 'guardrail', 'lead_capture', 'no_products_found'];
+
+export function toCacheRequest(state: ChatPipelineState): ResponseCacheRequest {
+  const { shop, message, context } = state.input;
+
+  return {
+    shop,
+    message,
+    language: state.language,
+    intent: state.intent.type,
+    shopperId: (context.customerId as string) || state.sessionId,
+    pageProductId: (context.productId as string) || undefined
+  };
+}
+
+/**
+ * Cache lookup stage
+ */
+export async function cacheLookupStage(state: ChatPipelineState): Promise<void> {
+  if (state.response || !isResponseCacheEnabled()) {
+    return;
+  }
+
+  const request = toCacheRequest(state);
+  const scope = getCacheScope(request);
+  if (!scope) {
+    return;
+  }
+
+  state.cache = { scope, status: 'miss' };
+
+  try {
+    const result = await lookupCachedResponse(request, scope);
+    state.cache.embedding = result.embedding;
+
+    if (!result.entry) {
+      return;
+    }
+
+    state.cache.status = 'hit';
+    state.cache.match = result.match;
+    state.response = { ...result.entry.response, recommendations: result.entry.recommendations };
+    state.recommendations = result.entry.recommendations;
+
+    logger.info({
+      shop: request.shop,
+      intent: request.intent,
+      match: result.match,
+      personalized: scope !== 'shared'
+    }, '✅ Response cache hit');
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop: request.shop
+    }, '⚠️ Response cache lookup failed - continuing without cache');
+  }
+}
+
+/**
+ * Cache store stage
+ */
+export async function cacheStoreStage(state: ChatPipelineState): Promise<void> {
+  const response = state.response;
+
+  if (
+    !state.cache ||
+    state.cache.status === 'hit' ||
+    !response ||
+    !state.workflow ||
+    state.usedFallback ||
+    state.guardrailViolations?.length ||
+    response.requiresHumanEscalation ||
+    response.requestLeadCapture ||
+    NON_CACHEABLE_MESSAGE_TYPES.includes(response.messageType || '')
+  ) {
+    return;
+  }
+
+  try {
+    await storeCachedResponse(toCacheRequest(state), state.cache.scope, {
+      response: {
+        message: response.message,
+        messageType: response.messageType,
+        quickReplies: response.quickReplies,
+        suggestedActions: response.suggestedActions,
+        confidence: response.confidence,
+        recommendations: []
+      },
+      recommendations: state.recommendations
+    }, { embedding: state.cache.embedding });
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop: state.input.shop
+    }, '⚠️ Failed to store response in cache (non-blocking)');
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Chat Pipeline - Summarize Stage
+ *
+ * Keeps a rolling summary of long conversations on ChatSession.context.
+ * Only the most recent messages are sent verbatim (see
+ * CONVERSATION_SUMMARY.RECENT_MESSAGES); once enough older messages pile up
+ * they are folded into the summary in one batch, so earlier details
+ * (budget, sizes, the product being discussed) survive.
+ *
+ * With an in-process LLM (platform provider or BYOK key) the summary text is
+ * rewritten by the model; otherwise, or when the model fails, a deterministic
+ * extractive summary is built from the same facts.
+ *
+ * Most turns only count the session's messages; the model is called once per
+ * BATCH_MESSAGES messages.
+ */
+
+import { CONVERSATION_SUMMARY } from '../../config/limits';
+import { prisma as db } from '../../db.server';
+import { createLogger } from '../../lib/logger.server';
+import { PlanCode } from '../../lib/plans.config';
+import { resolveLLMProvider, type LLMProvider } from '../llm/index.server';
+import type { ChatPipelineState, ConversationFacts, ConversationSummary } from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'summarize' });
+
+const MAX_FACT_VALUES = 6;
+const MAX_QUOTED_MESSAGES = 3;
+const MAX_QUOTE_CHARS = 100;
+// Upper bound on messages folded per run (keeps the LLM prompt small)
+const MAX_FOLD_MESSAGES = 40;
+
+export interface SummaryMessage {
+  role: string;
+  content: string;
+  intent?: string | null;
+  metadata?: string | null;
+  timestamp?: Date | string;
+}
+
+// ============================================================================
+// Fact extraction (deterministic)
+// ============================================================================
+
+const BUDGET_PATTERN = /(?:under|below|less than|max(?:imum)?|budget(?: of| is)?|up to|moins de|sous|max\.?|menos de|hasta|unter|bis zu|höchstens|até|no máximo|meno di|fino a)\s*:?\s*((?:[$€£]\s?)?\d+(?:[.,]\d{1,2})?(?:\s?(?:[$€£]|eur|euros?|usd|dollars?|gbp))?)/i;
+const SIZE_KEYWORD_PATTERN = /\b(?:size|taille|talla|größe|grösse|tamanho|taglia)\s*:?\s*([A-Z]{1,4}|\d{1,2}(?:[.,]5)?)\b/gi;
+const SIZE_LABEL_PATTERN = /\b(XXS|XS|XL|XXL|XXXL)\b/g;
+const ORDER_NUMBER_PATTERN = /#\s?(\d{3,10})\b/g;
+
+// Common color words in the widget's main languages
+const COLOR_WORDS = [
+  'black', 'white', 'red', 'blue', 'green', 'yellow', 'pink', 'purple', 'orange', 'brown', 'grey', 'gray', 'beige', 'navy', 'gold', 'silver',
+  'noir', 'blanc', 'rouge', 'bleu', 'vert', 'jaune', 'rose', 'violet', 'marron', 'gris',
+  'negro', 'blanco', 'rojo', 'azul', 'verde', 'amarillo', 'rosa', 'morado', 'naranja', 'marrón',
+  'schwarz', 'weiß', 'weiss', 'rot', 'blau', 'grün', 'gelb', 'lila', 'braun', 'grau',
+  'preto', 'branco', 'vermelho', 'amarelo', 'roxo', 'laranja',
+  'nero', 'bianco', 'rosso', 'giallo', 'viola', 'arancione', 'marrone', 'grigio'
+];
+const COLOR_PATTERN = new RegExp(`(?<![\\p{L}])(${COLOR_WORDS.join('|')})(?![\\p{L}])`, 'giu');
+
+function addUnique(list: string[] | undefined, values: string[]): string[] | undefined {
+  const merged = [...(list || [])];
+  for (const value of values) {
+    const normalized = value.trim();
+    if (normalized && !merged.some((v) => v.toLowerCase() === normalized.toLowerCase())) {
+      merged.push(normalized);
+    }
+  }
+  // Keep the most recent values
+  return merged.length > 0 ? merged.slice(-MAX_FACT_VALUES) : undefined;
+}
+
+function parseJsonObject(raw: string | null | undefined): Record<string, any> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Extract facts from messages and merge them into the previous facts
+ * (later values win for budget; lists keep their most recent entries)
+ */
+export function extractConversationFacts(messages: SummaryMessage[], previous: ConversationFacts = {}): ConversationFacts {
+  const facts: ConversationFacts = { ...previous };
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      const budget = message.content.match(BUDGET_PATTERN)?.[1];
+      if (budget) facts.budget = budget.trim();
+
+      const sizes = [
+        ...Array.from(message.content.matchAll(SIZE_KEYWORD_PATTERN), (m) => m[1]!.toUpperCase()),
+        ...Array.from(message.content.matchAll(SIZE_LABEL_PATTERN), (m) => m[1]!),
+      ];
+      facts.sizes = addUnique(facts.sizes, sizes);
+
+      const colors = Array.from(message.content.matchAll(COLOR_PATTERN), (m) => m[1]!.toLowerCase());
+      facts.colors = addUnique(facts.colors, colors);
+
+      const orderNumbers = Array.from(message.content.matchAll(ORDER_NUMBER_PATTERN), (m) => `#${m[1]}`);
+      facts.orderNumbers = addUnique(facts.orderNumbers, orderNumbers);
+
+      if (message.intent && message.intent !== 'GENERAL_CHAT') {
+        facts.topics = addUnique(facts.topics, [message.intent]);
+      }
+    } else if (message.role === 'assistant') {
+      const titles = parseJsonObject(message.metadata).productTitles;
+      if (Array.isArray(titles)) {
+        facts.products = addUnique(facts.products, titles.filter((t): t is string => typeof t === 'string'));
+      }
+    }
+  }
+
+  // Drop empty lists so the stored JSON stays small
+  for (const key of Object.keys(facts) as Array<keyof ConversationFacts>) {
+    if (facts[key] === undefined) delete facts[key];
+  }
+  return facts;
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength)}...` : singleLine;
+}
+
+/**
+ * Deterministic summary text (no AI key required)
+ */
+export function buildExtractiveSummary(
+  facts: ConversationFacts,
+  messages: SummaryMessage[],
+  previousText?: string
+): string {
+  const lines: string[] = [];
+  if (facts.budget) lines.push(`Budget: ${facts.budget}`);
+  if (facts.sizes?.length) lines.push(`Sizes: ${facts.sizes.join(', ')}`);
+  if (facts.colors?.length) lines.push(`Colors: ${facts.colors.join(', ')}`);
+  if (facts.products?.length) lines.push(`Products discussed: ${facts.products.join(', ')}`);
+  if (facts.orderNumbers?.length) lines.push(`Order numbers: ${facts.orderNumbers.join(', ')}`);
+  if (facts.topics?.length) lines.push(`Topics: ${facts.topics.join(', ')}`);
+
+  // Keep the shopper's own words for the latest older messages
+  const previousQuotes = previousText?.match(/^Earlier shopper messages: (.*)$/m)?.[1]?.split(' | ') || [];
+  const quotes = [
+    ...previousQuotes,
+    ...messages.filter((m) => m.role === 'user').map((m) => `"${truncate(m.content, MAX_QUOTE_CHARS)}"`),
+  ].slice(-MAX_QUOTED_MESSAGES);
+  if (quotes.length) lines.push(`Earlier shopper messages: ${quotes.join(' | ')}`);
+
+  return lines.join('\n').substring(0, CONVERSATION_SUMMARY.MAX_SUMMARY_CHARS);
+}
+
+// ============================================================================
+// LLM summary
+// ============================================================================
+
+/**
+ * Rewrite the running summary with the model
+ */
+export async function summarizeWithLLM(
+  provider: LLMProvider,
+  previous: ConversationSummary | null,
+  messages: SummaryMessage[],
+  facts: ConversationFacts
+): Promise<string> {
+  const transcript = messages
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => `${m.role === 'user' ? 'Shopper' : 'Assistant'}: ${truncate(m.content, 400)}`)
+    .join('\n');
+
+  const completion = await provider.complete([
+    {
+      role: 'system',
+      content:
+        'You maintain a running summary of a conversation between a shopper and a store assistant. ' +
+        'Update the summary with the new messages. Keep what the assistant needs later: shopper goals, ' +
+        'budget, sizes, colors, products discussed (exact titles), order numbers and unresolved questions. ' +
+        'Write in English, at most 120 words, plain text, no greeting.',
+    },
+    {
+      role: 'user',
+      content:
+        `PREVIOUS SUMMARY:\n${previous?.text || '(none)'}\n\n` +
+        `KNOWN FACTS: ${JSON.stringify(facts)}\n\n` +
+        `NEW MESSAGES:\n${transcript}`,
+    },
+  ], { temperature: 0.2, maxTokens: 300 });
+
+  const text = completion.text.trim();
+  if (!text) throw new Error('Empty summary');
+  return text.substring(0, CONVERSATION_SUMMARY.MAX_SUMMARY_CHARS);
+}
+
+/**
+ * Fold older messages into the summary
+ */
+export async function updateConversationSummary(
+  previous: ConversationSummary | null,
+  messages: SummaryMessage[],
+  provider: LLMProvider | null
+): Promise<ConversationSummary> {
+  const facts = extractConversationFacts(messages, previous?.facts);
+  const last = messages[messages.length - 1];
+
+  let text: string;
+  let method: ConversationSummary['method'] = 'extractive';
+  if (provider) {
+    try {
+      text = await summarizeWithLLM(provider, previous, messages, facts);
+      method = 'llm';
+    } catch (error) {
+      logger.warn({
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error)
+      }, '⚠️ LLM summary failed - using extractive summary');
+      text = buildExtractiveSummary(facts, messages, previous?.method === 'extractive' ? previous.text : undefined);
+    }
+  } else {
+    text = buildExtractiveSummary(facts, messages, previous?.method === 'extractive' ? previous.text : undefined);
+  }
+
+  return {
+    text,
+    facts,
+    coveredMessages: (previous?.coveredMessages || 0) + messages.length,
+    coveredUntil: last?.timestamp ? new Date(last.timestamp).toISOString() : previous?.coveredUntil || null,
+    method,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the stored summary from the session context
+ */
+export function getStoredSummary(sessionContext: Record<string, unknown>): ConversationSummary | null {
+  const summary = sessionContext.conversationSummary as ConversationSummary | undefined;
+  return summary && typeof summary.text === 'string' && typeof summary.coveredMessages === 'number'
+    ? summary
+    : null;
+}
+
+// ============================================================================
+// Stage
+// ============================================================================
+
+/**
+ * Fold the messages beyond the recent window into the stored summary
+ *
+ * Only `conversationSummary` is written back, onto the context as stored now,
+ * so fields a concurrent request saved meanwhile are kept.
+ */
+export async function refreshConversationSummary(state: ChatPipelineState): Promise<void> {
+  const chatSessionId = state.chatSessionId;
+  if (!chatSessionId) return;
+
+  try {
+    const previous = getStoredSummary(state.sessionContext);
+    const total = await db.chatMessage.count({ where: { sessionId: chatSessionId } });
+    const pending = total - (previous?.coveredMessages || 0) - CONVERSATION_SUMMARY.RECENT_MESSAGES;
+
+    if (pending < CONVERSATION_SUMMARY.BATCH_MESSAGES) {
+      return;
+    }
+
+    const messages: SummaryMessage[] = await db.chatMessage.findMany({
+      where: {
+        sessionId: chatSessionId,
+        ...(previous?.coveredUntil ? { timestamp: { gt: new Date(previous.coveredUntil) } } : {})
+      },
+      orderBy: { timestamp: 'asc' },
+      take: Math.min(pending, MAX_FOLD_MESSAGES),
+      select: { role: true, content: true, intent: true, metadata: true, timestamp: true }
+    });
+
+    if (messages.length === 0) return;
+
+    const provider = resolveLLMProvider({
+      byokKey: state.plan === PlanCode.BYOK ? state.n8nContext.openaiApiKey : undefined
+    });
+    const summary = await updateConversationSummary(previous, messages, provider);
+
+    const session = await db.chatSession.findUnique({
+      where: { id: chatSessionId },
+      select: { context: true }
+    });
+    if (!session) return;
+
+    await db.chatSession.update({
+      where: { id: chatSessionId },
+      data: { context: JSON.stringify({ ...parseJsonObject(session.context), conversationSummary: summary }) }
+    });
+    state.sessionContext.conversationSummary = summary;
+
+    logger.info({
+      chatSessionId,
+      folded: messages.length,
+      coveredMessages: summary.coveredMessages,
+      method: summary.method
+    }, '📝 Conversation summary updated');
+  } catch (error) {
+    // Non-blocking - the next turn retries
+    logger.error({
+      error: error instanceof Error ? error.message : String(error),
+      chatSessionId
+    }, '❌ Failed to update conversation summary (non-blocking)');
+  }
+}
+
+/**
+ * Summarize stage (runs after persist so this turn's messages are counted)
+ */
+export async function summarizeStage(state: ChatPipelineState): Promise<void> {
+  await refreshConversationSummary(state);
+}
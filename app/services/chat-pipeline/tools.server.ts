@@ -0,0 +1,484 @@
+/**
+ * Chat Pipeline - Assistant Tools
+ *
+ * Typed tools the in-process LLM can call instead of receiving the whole
+ * catalog up front. Every tool runs against the shop's Admin GraphQL client
+ * (from `unauthenticated.admin`) or data already loaded by the pipeline.
+ *
+ * - search_products(query, filters)
+ * - get_product(handle)
+ * - get_policy(type)
+ * - check_inventory(variantId)
+ * - build_cart_link(items)
+ */
+
+import type { ShopPolicies } from '../shop-policy.service.server';
+import type { LLMTool } from '../llm/types';
+import { mapProductNode, PRODUCT_FIELDS, queryAdmin } from './products.server';
+import type { PipelineAdminClient } from './types';
+
+const MAX_SEARCH_RESULTS = 10;
+const DEFAULT_SEARCH_RESULTS = 6;
+// Fetch extra rows so client-side price/sale filters still fill the page
+const SEARCH_FETCH_LIMIT = 25;
+const MAX_CART_ITEMS = 10;
+const MAX_CART_QUANTITY = 99;
+const MAX_VARIANTS = 20;
+
+const SEARCH_PRODUCTS_QUERY = `
+  #graphql
+  query assistantSearchProducts($first: Int!, $query: String, $sortKey: ProductSortKeys, $reverse: Boolean) {
+    products(first: $first, query: $query, sortKey: $sortKey, reverse: $reverse) {
+      edges {
+        node {
+          ${PRODUCT_FIELDS}
+          productType
+          vendor
+        }
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_QUERY = `
+  #graphql
+  query assistantGetProduct($handle: String!) {
+    productByIdentifier(identifier: { handle: $handle }) {
+      ${PRODUCT_FIELDS}
+      productType
+      vendor
+      options { name values }
+      allVariants: variants(first: ${MAX_VARIANTS}) {
+        edges {
+          node {
+            id
+            title
+            price
+            compareAtPrice
+            availableForSale
+            inventoryQuantity
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CHECK_INVENTORY_QUERY = `
+  #graphql
+  query assistantCheckInventory($id: ID!) {
+    productVariant(id: $id) {
+      id
+      title
+      sku
+      availableForSale
+      inventoryQuantity
+      inventoryPolicy
+      product { id title handle }
+    }
+  }
+`;
+
+const CART_VARIANTS_QUERY = `
+  #graphql
+  query assistantCartVariants($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        title
+        availableForSale
+        product { title }
+      }
+    }
+  }
+`;
+
+export type PolicyType = 'shipping' | 'returns' | 'privacy' | 'terms' | 'contact';
+
+const POLICY_TYPES: PolicyType[] = ['shipping', 'returns', 'privacy', 'terms', 'contact'];
+
+export interface AssistantToolContext {
+  admin: PipelineAdminClient;
+  shopDomain: string;
+  policies?: ShopPolicies | null;
+  language?: string;
+}
+
+const CART_LINK_LABELS: Record<string, string> = {
+  en: 'View cart',
+  fr: 'Voir le panier',
+  es: 'Ver carrito',
+  de: 'Warenkorb ansehen',
+  pt: 'Ver carrinho',
+  it: 'Vedi carrello',
+  ja: 'カートを見る',
+  zh: '查看购物车',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Strip characters with meaning in Shopify search syntax
+function sanitizeSearchTerm(value: string): string {
+  return value.replace(/[^\p{L}\p{N}\s'-]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '')}"`;
+}
+
+/**
+ * Normalize a numeric or GID variant id to a ProductVariant GID
+ */
+export function toVariantGid(value: unknown): string | null {
+  const raw = typeof value === 'number' ? String(value) : asString(value);
+  if (!raw) return null;
+  if (/^\d+$/.test(raw)) return `gid://shopify/ProductVariant/${raw}`;
+  return /^gid:\/\/shopify\/ProductVariant\/\d+$/.test(raw) ? raw : null;
+}
+
+function numericId(gid: string): string {
+  return gid.split('/').pop() || gid;
+}
+
+function summarizeProduct(product: ReturnType<typeof mapProductNode>, shopDomain: string) {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    price: product.price,
+    compareAtPrice: product.compareAtPrice,
+    inventory: product.inventory,
+    tags: product.tags.slice(0, 5),
+    url: `https://${shopDomain}/products/${product.handle}`,
+    description: product.description.substring(0, 200),
+  };
+}
+
+/**
+ * Build the Shopify search string for search_products
+ */
+export function buildSearchQuery(args: Record<string, unknown>): string {
+  const parts = ['status:active'];
+
+  const text = asString(args.query);
+  if (text) {
+    const term = sanitizeSearchTerm(text);
+    if (term) parts.push(`(${term})`);
+  }
+
+  const productType = asString(args.productType);
+  if (productType) parts.push(`product_type:${quoteFilterValue(productType)}`);
+
+  const vendor = asString(args.vendor);
+  if (vendor) parts.push(`vendor:${quoteFilterValue(vendor)}`);
+
+  const tag = asString(args.tag);
+  if (tag) parts.push(`tag:${quoteFilterValue(tag)}`);
+
+  if (args.inStockOnly === true) parts.push('inventory_total:>0');
+
+  return parts.join(' AND ');
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+function searchProductsTool(ctx: AssistantToolContext): LLMTool {
+  return {
+    definition: {
+      name: 'search_products',
+      description:
+        'Search the store catalog. Use this before recommending products. ' +
+        'Returns products with id, title, price, compareAtPrice and inventory.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords describing what the shopper wants' },
+          productType: { type: 'string' },
+          vendor: { type: 'string' },
+          tag: { type: 'string' },
+          minPrice: { type: 'number' },
+          maxPrice: { type: 'number' },
+          onSaleOnly: { type: 'boolean', description: 'Only products with a compare-at price above the price' },
+          inStockOnly: { type: 'boolean' },
+          sort: { type: 'string', enum: ['relevance', 'newest', 'price_low', 'price_high'] },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_RESULTS },
+        },
+      },
+    },
+    async execute(args) {
+      const searchQuery = buildSearchQuery(args);
+      const sort = asString(args.sort) || 'relevance';
+      const hasText = !!asString(args.query);
+
+      const data = await queryAdmin(ctx.admin, SEARCH_PRODUCTS_QUERY, {
+        first: SEARCH_FETCH_LIMIT,
+        query: searchQuery,
+        // RELEVANCE is only valid with a text query
+        sortKey: sort === 'newest' ? 'CREATED_AT' : hasText ? 'RELEVANCE' : 'TITLE',
+        reverse: sort === 'newest',
+      });
+
+      const minPrice = asNumber(args.minPrice);
+      const maxPrice = asNumber(args.maxPrice);
+      const limit = Math.min(Math.max(Math.round(asNumber(args.limit) ?? DEFAULT_SEARCH_RESULTS), 1), MAX_SEARCH_RESULTS);
+
+      let products = (data?.products?.edges || []).map((edge: any) => mapProductNode(edge.node));
+      products = products.filter((product: ReturnType<typeof mapProductNode>) => {
+        const price = parseFloat(product.price);
+        if (minPrice !== undefined && price < minPrice) return false;
+        if (maxPrice !== undefined && price > maxPrice) return false;
+        if (args.onSaleOnly === true) {
+          return !!product.compareAtPrice && parseFloat(product.compareAtPrice) > price;
+        }
+        return true;
+      });
+
+      if (sort === 'price_low' || sort === 'price_high') {
+        const direction = sort === 'price_low' ? 1 : -1;
+        products.sort((a: any, b: any) => (parseFloat(a.price) - parseFloat(b.price)) * direction);
+      }
+
+      products = products.slice(0, limit);
+
+      return {
+        result: {
+          query: searchQuery,
+          count: products.length,
+          products: products.map((product: ReturnType<typeof mapProductNode>) => summarizeProduct(product, ctx.shopDomain)),
+        },
+        products,
+      };
+    },
+  };
+}
+
+function getProductTool(ctx: AssistantToolContext): LLMTool {
+  return {
+    definition: {
+      name: 'get_product',
+      description: 'Get full details for one product by its handle, including options and variants with stock.',
+      parameters: {
+        type: 'object',
+        properties: {
+          handle: { type: 'string', description: 'Product handle, e.g. "blue-mug"' },
+        },
+        required: ['handle'],
+      },
+    },
+    async execute(args) {
+      const handle = asString(args.handle);
+      if (!handle) {
+        return { result: { error: 'handle is required' } };
+      }
+
+      const data = await queryAdmin(ctx.admin, GET_PRODUCT_QUERY, { handle });
+      const node = data?.productByIdentifier;
+      if (!node) {
+        return { result: { found: false, handle } };
+      }
+
+      const product = mapProductNode(node);
+      return {
+        result: {
+          found: true,
+          product: {
+            ...summarizeProduct(product, ctx.shopDomain),
+            description: product.description.substring(0, 1000),
+            productType: node.productType || null,
+            vendor: node.vendor || null,
+            options: node.options || [],
+            variants: (node.allVariants?.edges || []).map((edge: any) => ({
+              variantId: numericId(edge.node.id),
+              title: edge.node.title,
+              price: edge.node.price,
+              compareAtPrice: edge.node.compareAtPrice,
+              available: edge.node.availableForSale,
+              inventory: edge.node.inventoryQuantity,
+            })),
+          },
+        },
+        products: [product],
+      };
+    },
+  };
+}
+
+function getPolicyTool(ctx: AssistantToolContext): LLMTool {
+  return {
+    definition: {
+      name: 'get_policy',
+      description: 'Get the store policy text for shipping, returns, privacy, terms or contact details.',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: POLICY_TYPES },
+        },
+        required: ['type'],
+      },
+    },
+    async execute(args) {
+      const type = asString(args.type) as PolicyType | undefined;
+      if (!type || !POLICY_TYPES.includes(type)) {
+        return { result: { error: `type must be one of: ${POLICY_TYPES.join(', ')}` } };
+      }
+
+      const policies = ctx.policies;
+      const text = {
+        shipping: policies?.shipping,
+        returns: policies?.returns,
+        privacy: policies?.privacy,
+        terms: policies?.termsOfService,
+        contact: policies?.contact ?? policies?.contactEmail,
+      }[type];
+
+      return {
+        result: text
+          ? { type, available: true, text }
+          : { type, available: false, note: 'The store has not published this policy.' },
+      };
+    },
+  };
+}
+
+function checkInventoryTool(ctx: AssistantToolContext): LLMTool {
+  return {
+    definition: {
+      name: 'check_inventory',
+      description: 'Check live stock for a product variant (use a variantId from get_product).',
+      parameters: {
+        type: 'object',
+        properties: {
+          variantId: { type: 'string' },
+        },
+        required: ['variantId'],
+      },
+    },
+    async execute(args) {
+      const id = toVariantGid(args.variantId);
+      if (!id) {
+        return { result: { error: 'variantId must be a numeric id or ProductVariant GID' } };
+      }
+
+      const data = await queryAdmin(ctx.admin, CHECK_INVENTORY_QUERY, { id });
+      const variant = data?.productVariant;
+      if (!variant) {
+        return { result: { found: false, variantId: numericId(id) } };
+      }
+
+      return {
+        result: {
+          found: true,
+          variantId: numericId(variant.id),
+          title: variant.title,
+          sku: variant.sku || null,
+          productTitle: variant.product?.title,
+          productHandle: variant.product?.handle,
+          available: variant.availableForSale,
+          quantity: variant.inventoryQuantity,
+          // CONTINUE = the store keeps selling when out of stock
+          backorderAllowed: variant.inventoryPolicy === 'CONTINUE',
+        },
+      };
+    },
+  };
+}
+
+function buildCartLinkTool(ctx: AssistantToolContext): LLMTool {
+  return {
+    definition: {
+      name: 'build_cart_link',
+      description:
+        'Create a cart link that adds the given variants to the shopper\'s cart. ' +
+        'Only use variant ids returned by get_product.',
+      parameters: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            maxItems: MAX_CART_ITEMS,
+            items: {
+              type: 'object',
+              properties: {
+                variantId: { type: 'string' },
+                quantity: { type: 'integer', minimum: 1, maximum: MAX_CART_QUANTITY },
+              },
+              required: ['variantId'],
+            },
+          },
+        },
+        required: ['items'],
+      },
+    },
+    async execute(args) {
+      const requested = (Array.isArray(args.items) ? args.items : [])
+        .slice(0, MAX_CART_ITEMS)
+        .map((item: any) => ({
+          id: toVariantGid(item?.variantId),
+          quantity: Math.min(Math.max(Math.round(asNumber(item?.quantity) ?? 1), 1), MAX_CART_QUANTITY),
+        }))
+        .filter((item): item is { id: string; quantity: number } => !!item.id);
+
+      if (requested.length === 0) {
+        return { result: { error: 'items must contain at least one valid variantId' } };
+      }
+
+      // Only link variants that exist in this shop and can be sold
+      const data = await queryAdmin(ctx.admin, CART_VARIANTS_QUERY, { ids: requested.map((item) => item.id) });
+      const known = new Map<string, any>(
+        (data?.nodes || []).filter(Boolean).map((node: any) => [node.id, node])
+      );
+
+      const items = requested.filter((item) => known.get(item.id)?.availableForSale);
+      const skipped = requested
+        .filter((item) => !items.includes(item))
+        .map((item) => ({ variantId: numericId(item.id), reason: known.has(item.id) ? 'unavailable' : 'not_found' }));
+
+      if (items.length === 0) {
+        return { result: { url: null, skipped } };
+      }
+
+      // Cart permalink; the widget opens the relative path so custom domains keep the session
+      const cartPath = `/cart/${items.map((item) => `${numericId(item.id)}:${item.quantity}`).join(',')}`;
+      const url = `https://${ctx.shopDomain}${cartPath}`;
+
+      return {
+        result: {
+          url,
+          items: items.map((item) => ({
+            variantId: numericId(item.id),
+            quantity: item.quantity,
+            title: `${known.get(item.id)?.product?.title || ''} - ${known.get(item.id)?.title || ''}`,
+          })),
+          skipped,
+        },
+        suggestedActions: [{ label: CART_LINK_LABELS[ctx.language || 'en'] ?? CART_LINK_LABELS['en']!, action: 'cart_link', data: cartPath }],
+      };
+    },
+  };
+}
+
+/**
+ * Create the assistant tool set for a shop
+ */
+export function createAssistantTools(ctx: AssistantToolContext): LLMTool[] {
+  return [
+    searchProductsTool(ctx),
+    getProductTool(ctx),
+    getPolicyTool(ctx),
+    checkInventoryTool(ctx),
+    buildCartLinkTool(ctx),
+  ];
+}
@@ -0,0 +1,281 @@
+import type { WidgetSettings as WidgetSettingsRecord } from '@prisma/client';
+import type { N8NRequest, N8NWebhookResponse } from '../n8n.service.server';
+import type { ContactCard, ShopPolicies } from '../shop-policy.service.server';
+import type { PlanCodeType } from '../../lib/plans.config';
+import type { GuardrailViolation, ShopGuardrailSettings } from '../../lib/guardrails.server';
+import type { IntentRouteTarget } from '../../lib/intent-routing.server';
+import type { KnowledgeSnippet } from '../knowledge-base.service.server';
+import type { ClassifiedIntent, ClassifiedIntentType } from '../intent-classifier.service.server';
+import type { CustomIntentConfig } from '../custom-intent.service.server';
+import type { HandoffReason } from '../handoff.service.server';
+import type { ActiveAgent } from '../agent-inbox.service.server';
+import type { Availability } from '../../lib/business-hours.server';
+import type { LeadTrigger } from '../../lib/lead-capture.server';
+
+/**
+ * Chat Pipeline Types
+ *
+ * Shared state passed through the named stages of the storefront chat
+ * pipeline (see ./index.server.ts).
+ */
+
+// Which storefront endpoint received the message
+export type ChatSource = 'widget' | 'app_proxy';
+
+// Intents come from the shared classifier taxonomy (support, product discovery,
+// product questions and conversation) or are merchant-defined ('CUSTOM')
+export type ChatIntent = ClassifiedIntent;
+
+export type ChatIntentType = ClassifiedIntentType;
+
+export type ChatSentiment = 'positive' | 'neutral' | 'negative';
+
+export interface PipelineProduct {
+  id: string;
+  title: string;
+  handle: string;
+  description: string;
+  image?: string;
+  price: string;
+  compareAtPrice: string | null;
+  inventory: number;
+  tags: string[];
+  rating: number | null;
+  reviewCount: number;
+}
+
+export interface ConversationTurn {
+  role: string;
+  content: string;
+}
+
+/**
+ * Facts extracted from earlier messages (kept even when the text is rewritten)
+ */
+export interface ConversationFacts {
+  budget?: string;
+  sizes?: string[];
+  colors?: string[];
+  products?: string[];
+  topics?: string[];
+  orderNumbers?: string[];
+}
+
+/**
+ * Rolling summary of the messages that fell out of the recent history window,
+ * stored on ChatSession.context as `conversationSummary`
+ */
+export interface ConversationSummary {
+  text: string;
+  facts: ConversationFacts;
+  // How many of the oldest session messages are folded into the summary
+  coveredMessages: number;
+  coveredUntil: string | null;
+  method: 'llm' | 'extractive';
+  updatedAt: string;
+}
+
+export interface WorkflowSelection {
+  webhookUrl?: string;
+  workflowType: 'default' | 'custom';
+  // Where the reply is generated: an N8N workflow, the in-process LLM provider,
+  // or the built-in templates (intent routed to "local", no AI call)
+  engine: 'n8n' | 'llm' | 'local';
+  // Per-intent route that picked this workflow (absent for the shop default)
+  route?: IntentRouteTarget;
+  description: string;
+}
+
+export type OrderTimelineStepKey =
+  | 'ordered'
+  | 'shipped'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'cancelled';
+
+export interface OrderTimelineStep {
+  key: OrderTimelineStepKey;
+  label: string;
+  date: string | null;
+  done: boolean;
+}
+
+export interface OrderShipment {
+  status: string;
+  carrier: string | null;
+  trackingNumbers: string[];
+  trackingUrls: string[];
+  estimatedDeliveryAt: string | null;
+  deliveredAt: string | null;
+}
+
+/**
+ * Verified order status returned to the widget (messageType "order_status")
+ */
+export interface OrderStatusSummary {
+  orderName: string;
+  placedAt: string;
+  fulfillmentStatus: string;
+  financialStatus: string | null;
+  cancelled: boolean;
+  shipments: OrderShipment[];
+  timeline: OrderTimelineStep[];
+}
+
+export type RecommendationCorrectionField =
+  | 'product'
+  | 'id'
+  | 'title'
+  | 'handle'
+  | 'price'
+  | 'originalPrice'
+  | 'url'
+  | 'image'
+  | 'isAvailable'
+  | 'inventory';
+
+/**
+ * One change made to a workflow recommendation by the verify stage
+ * ('product' + 'dropped' means the product does not exist or is not active)
+ */
+export interface RecommendationCorrection {
+  productId: string;
+  title?: string;
+  field: RecommendationCorrectionField;
+  action: 'dropped' | 'corrected';
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Response cache bookkeeping for one message
+ */
+export interface ResponseCacheState {
+  scope: string;
+  status: 'hit' | 'miss';
+  match?: 'exact' | 'semantic';
+  embedding?: number[];
+}
+
+// Minimal Admin API client surface used by the pipeline
+export interface PipelineAdminClient {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+}
+
+/**
+ * Raw input handed to the pipeline by a route after request validation
+ */
+export interface ChatPipelineInput {
+  shop: string;
+  message: string;
+  context: Record<string, any>;
+  source: ChatSource;
+  userAgent?: string;
+  referer?: string;
+  // Client identifier (ip:...) used for abuse limits such as failed order lookups
+  clientIp?: string;
+  // Streaming callers: receives the reply text as an in-process model writes it
+  onToken?: (text: string) => void;
+}
+
+/**
+ * A stage can stop the pipeline early with a ready-made response
+ * (e.g. billing required, conversation limit exceeded)
+ */
+export interface ChatPipelineHalt {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Mutable state threaded through every stage
+ */
+export interface ChatPipelineState {
+  input: ChatPipelineInput;
+  startTime: number;
+  sessionId: string;
+
+  // auth / limits
+  admin?: PipelineAdminClient;
+  accessToken?: string;
+  settings: WidgetSettingsRecord | null;
+  plan: PlanCodeType;
+  halt?: ChatPipelineHalt;
+
+  // classify
+  intent: ChatIntent;
+  // Classifier confidence for the intent (0 when no rule matched)
+  intentConfidence: number;
+  sentiment: ChatSentiment;
+  language: string;
+  isSupportIntent: boolean;
+  isProductIntent: boolean;
+  // Merchant-defined intent that matched (answered with its canned reply)
+  customIntent?: CustomIntentConfig;
+
+  // guard input / guard output
+  guardrails?: ShopGuardrailSettings;
+  injectionScore?: number;
+  guardrailViolations?: GuardrailViolation[];
+
+  // agent takeover: staff member answering instead of the assistant
+  agent?: ActiveAgent;
+
+  // response cache (only set for cacheable messages)
+  cache?: ResponseCacheState;
+
+  // retrieve products
+  products: PipelineProduct[];
+  productsFetchFailed: boolean;
+  sessionError: boolean;
+
+  // build context
+  policies: ShopPolicies | null;
+  // Published email/phone for the CONTACT intent
+  contactCard?: ContactCard;
+  userProfileId?: string;
+  chatSessionId?: string;
+  isNewSession: boolean;
+  history: ConversationTurn[];
+  // Parsed ChatSession.context, merged back by the persist stage
+  sessionContext: Record<string, unknown>;
+  n8nContext: NonNullable<N8NRequest['context']> & Record<string, unknown>;
+  // Business hours: outside them escalations collect an offline message
+  availability?: Availability;
+  workflow?: WorkflowSelection;
+
+  // retrieve knowledge (support intents and general chat)
+  knowledge: KnowledgeSnippet[];
+
+  // track order
+  orderStatus?: OrderStatusSummary;
+
+  // generate (skipped when an earlier stage already set a response),
+  // then checked by verify recommendations and guard output
+  response?: N8NWebhookResponse;
+  recommendations: any[];
+  // A canned fallback was used because the workflow failed
+  usedFallback?: boolean;
+  recommendationCorrections?: RecommendationCorrection[];
+
+  // escalate: why the reply offers a human, or the session's open handoff request
+  escalationReason?: HandoffReason;
+  handoff?: { id: string; status: string };
+
+  // lead capture: the reply carries the email form, and why
+  leadCapture?: { trigger: LeadTrigger };
+  responseTime: number;
+}
+
+export interface ChatPipelineResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export type ChatPipelineStage = (state: ChatPipelineState) => Promise<void>;
+
+export interface NamedChatPipelineStage {
+  name: string;
+  run: ChatPipelineStage;
+}
@@ -0,0 +1,254 @@
+/**
+ * Chat Pipeline - Verify Recommendations Stage
+ *
+ * Workflow replies are not trusted to describe the catalog: every
+ * recommendation is matched to a product fetched for this message (or looked
+ * up through the Admin API). Unknown products are dropped; title, handle,
+ * price, url, image and stock come from Shopify. Each correction is recorded
+ * on the assistant message and counted in the daily analytics.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { toRecommendation } from '../llm/prompt.server';
+import { mapProductNode, PRODUCT_FIELDS, queryAdmin } from './products.server';
+import type {
+  ChatPipelineState,
+  PipelineAdminClient,
+  PipelineProduct,
+  RecommendationCorrection,
+  RecommendationCorrectionField,
+} from './types';
+
+const logger = createLogger({ service: 'ChatPipeline', stage: 'verifyRecommendations' });
+
+// Upper bound on products looked up through the Admin API per reply
+const MAX_LOOKUPS = 10;
+
+const VERIFY_PRODUCTS_QUERY = `
+  #graphql
+  query verifyProducts($ids: [ID!]!, $first: Int!, $handles: String!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        status
+        ${PRODUCT_FIELDS}
+      }
+    }
+    products(first: $first, query: $handles) {
+      edges {
+        node {
+          status
+          ${PRODUCT_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+export interface VerifyRecommendationsResult {
+  recommendations: any[];
+  corrections: RecommendationCorrection[];
+}
+
+function numericId(id: string): string {
+  return id.split('/').pop() || id;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Product gid for an id a workflow may send as a gid or a bare number
+ */
+export function toProductGid(value: unknown): string | null {
+  const raw = asString(value);
+  if (!raw) return null;
+  if (/^\d+$/.test(raw)) return `gid://shopify/Product/${raw}`;
+  return /^gid:\/\/shopify\/Product\/\d+$/.test(raw) ? raw : null;
+}
+
+/**
+ * Index products by gid, numeric id and handle
+ */
+function indexCatalog(products: PipelineProduct[]): Map<string, PipelineProduct> {
+  const index = new Map<string, PipelineProduct>();
+  for (const product of products) {
+    index.set(`id:${product.id}`, product);
+    index.set(`id:${numericId(product.id)}`, product);
+    if (product.handle) index.set(`handle:${product.handle.toLowerCase()}`, product);
+  }
+  return index;
+}
+
+function findProduct(index: Map<string, PipelineProduct>, rec: any): PipelineProduct | undefined {
+  const id = asString(rec?.id);
+  const handle = asString(rec?.handle);
+
+  return (id ? index.get(`id:${id}`) ?? index.get(`id:${numericId(id)}`) : undefined)
+    ?? (handle ? index.get(`handle:${handle.toLowerCase()}`) : undefined);
+}
+
+function samePrice(a: unknown, b: unknown): boolean {
+  const left = parseFloat(String(a ?? '').replace(/[^\d.,-]/g, '').replace(',', '.'));
+  const right = parseFloat(String(b ?? ''));
+  return !Number.isNaN(left) && !Number.isNaN(right) && Math.abs(left - right) < 0.005;
+}
+
+function sameUrlPath(url: unknown, handle: string): boolean {
+  const raw = asString(url);
+  if (!raw) return true;
+  try {
+    return new URL(raw, 'https://placeholder.invalid').pathname.replace(/\/$/, '') === `/products/${handle}`;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Match recommendations to authoritative products and rebuild each card
+ * from Shopify data. Fields the workflow left out are filled silently;
+ * only values it got wrong count as corrections.
+ */
+export function verifyRecommendations(
+  recommendations: unknown[],
+  catalog: PipelineProduct[],
+  shopDomain: string
+): VerifyRecommendationsResult {
+  const index = indexCatalog(catalog);
+  const verified: any[] = [];
+  const corrections: RecommendationCorrection[] = [];
+  const seen = new Set<string>();
+
+  for (const rec of recommendations as any[]) {
+    const product = findProduct(index, rec);
+
+    if (!product) {
+      corrections.push({
+        productId: asString(rec?.id) || asString(rec?.handle) || 'unknown',
+        title: asString(rec?.title),
+        field: 'product',
+        action: 'dropped'
+      });
+      continue;
+    }
+
+    if (seen.has(product.id)) continue;
+    seen.add(product.id);
+
+    const card = toRecommendation(product, shopDomain);
+    const corrected = (field: RecommendationCorrectionField, from: unknown, to: unknown) => {
+      corrections.push({ productId: product.id, title: product.title, field, action: 'corrected', from, to });
+    };
+
+    if (asString(rec.id) && asString(rec.id) !== product.id && asString(rec.id) !== numericId(product.id)) {
+      corrected('id', rec.id, product.id);
+    }
+    if (asString(rec.handle) && rec.handle !== product.handle) corrected('handle', rec.handle, product.handle);
+    if (asString(rec.title) && rec.title !== product.title) corrected('title', rec.title, product.title);
+    if (rec.price !== undefined && !samePrice(rec.price, card.price)) corrected('price', rec.price, card.price);
+    if (rec.originalPrice !== undefined && !samePrice(rec.originalPrice, card.originalPrice)) {
+      corrected('originalPrice', rec.originalPrice, card.originalPrice ?? null);
+    }
+    if (!sameUrlPath(rec.url, product.handle)) corrected('url', rec.url, card.url);
+    if (asString(rec.image) && card.image && rec.image !== card.image) corrected('image', rec.image, card.image);
+    if (typeof rec.isAvailable === 'boolean' && rec.isAvailable !== card.isAvailable) {
+      corrected('isAvailable', rec.isAvailable, card.isAvailable);
+    }
+    if (typeof rec.inventory === 'number' && rec.inventory !== card.inventory) corrected('inventory', rec.inventory, card.inventory);
+
+    verified.push({
+      ...rec,
+      ...card,
+      // Presentation fields stay with the workflow; facts come from Shopify
+      description: asString(rec.description) ?? card.description,
+      priceFormatted: samePrice(rec.priceFormatted, card.price) ? rec.priceFormatted : undefined,
+      isLowStock: card.inventory !== undefined ? card.inventory > 0 && card.inventory <= 5 : rec.isLowStock,
+      urgencyMessage: card.isAvailable === false ? undefined : rec.urgencyMessage
+    });
+  }
+
+  return { recommendations: verified, corrections };
+}
+
+/**
+ * Look up recommended products that were not part of the fetched catalog
+ * (e.g. found by a tool call or by the workflow itself). Only active products count.
+ */
+export async function lookupRecommendedProducts(
+  admin: PipelineAdminClient,
+  recommendations: any[]
+): Promise<PipelineProduct[]> {
+  const ids = Array.from(new Set(
+    recommendations.map((rec) => toProductGid(rec?.id)).filter((id): id is string => !!id)
+  )).slice(0, MAX_LOOKUPS);
+  const handles = Array.from(new Set(
+    recommendations
+      .map((rec) => asString(rec?.handle))
+      .filter((handle): handle is string => !!handle && /^[a-z0-9][a-z0-9-]*$/i.test(handle))
+  )).slice(0, MAX_LOOKUPS);
+
+  if (ids.length === 0 && handles.length === 0) {
+    return [];
+  }
+
+  const data = await queryAdmin(admin, VERIFY_PRODUCTS_QUERY, {
+    ids,
+    first: Math.max(handles.length, 1),
+    // An empty handle list must not match the whole catalog
+    handles: handles.length > 0 ? handles.map((handle) => `handle:${handle}`).join(' OR ') : 'handle:__none__'
+  });
+
+  const nodes = [
+    ...(data?.nodes || []),
+    ...(handles.length > 0 ? (data?.products?.edges || []).map((edge: any) => edge.node) : [])
+  ];
+
+  return nodes
+    .filter((node: any) => node?.id && node.status === 'ACTIVE')
+    .map(mapProductNode);
+}
+
+/**
+ * Verify recommendations stage
+ */
+export async function verifyRecommendationsStage(state: ChatPipelineState): Promise<void> {
+  const { shop } = state.input;
+
+  if (!state.response || state.recommendations.length === 0) {
+    return;
+  }
+
+  let catalog = state.products;
+  const index = indexCatalog(catalog);
+  const unmatched = state.recommendations.filter((rec) => !findProduct(index, rec));
+
+  if (unmatched.length > 0 && state.admin) {
+    try {
+      catalog = [...catalog, ...await lookupRecommendedProducts(state.admin, unmatched)];
+    } catch (error) {
+      // Unverifiable products are dropped rather than shown with invented data
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop,
+        unmatched: unmatched.length
+      }, '⚠️ Product lookup failed - dropping unverified recommendations');
+    }
+  }
+
+  const result = verifyRecommendations(state.recommendations, catalog, shop);
+
+  state.recommendations = result.recommendations;
+  state.response = { ...state.response, recommendations: result.recommendations };
+  state.recommendationCorrections = result.corrections;
+
+  if (result.corrections.length > 0) {
+    logger.info({
+      shop,
+      workflowType: state.workflow?.workflowType,
+      engine: state.workflow?.engine,
+      dropped: result.corrections.filter((c) => c.action === 'dropped').length,
+      fields: Array.from(new Set(result.corrections.filter((c) => c.action === 'corrected').map((c) => c.field)))
+    }, '📝 Corrected workflow recommendations');
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Custom Intent Service
+ *
+ * Merchant-defined intents ("wholesale inquiry", "gift wrapping", "custom
+ * engraving"...) with trigger phrases, a canned reply (text, quick replies,
+ * suggested actions, optional product query) and a priority relative to the
+ * built-in intents.
+ *
+ * The chat pipeline loads a shop's enabled intents (kept in memory for a
+ * minute) and passes them to the intent classifier. Each intent is counted
+ * as its own "CUSTOM:<key>" row in intent analytics.
+ */
+
+import type { CustomIntent } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { CUSTOM_INTENTS } from '../config/limits';
+import {
+  CUSTOM_INTENT_PRIORITIES,
+  type CustomIntentDefinition,
+  type CustomIntentPriority,
+} from './intent-classifier.service.server';
+import type { SuggestedAction } from './n8n.service.server';
+
+const logger = createLogger({ service: 'CustomIntents' });
+
+export interface CustomIntentInput {
+  name: string;
+  phrases: string[];
+  responseText: string;
+  quickReplies: string[];
+  suggestedActions: SuggestedAction[];
+  productQuery?: string | null;
+  priority: CustomIntentPriority;
+  enabled?: boolean;
+}
+
+/**
+ * A stored intent with its reply, as used by the chat pipeline
+ */
+export interface CustomIntentConfig extends CustomIntentDefinition {
+  id: string;
+  responseText: string;
+  quickReplies: string[];
+  suggestedActions: SuggestedAction[];
+  productQuery: string | null;
+}
+
+// Enabled intents per shop, reloaded after a write or when older than the TTL
+const intentCache = new Map<string, { intents: CustomIntentConfig[]; loadedAt: number }>();
+const INTENT_CACHE_TTL_MS = 60 * 1000;
+
+function parseJsonArray<T>(value: string | null | undefined): T[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Analytics key for a name: "Gift wrapping" → "GIFT_WRAPPING"
+ */
+export function toCustomIntentKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '')
+    .substring(0, 40);
+}
+
+/**
+ * One trimmed value per non-empty line
+ */
+export function parseLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Suggested actions entered as "Label | link" lines (the link is optional)
+ */
+export function parseSuggestedActionLines(text: string): SuggestedAction[] {
+  return parseLines(text).map((line) => {
+    const [label = '', link] = line.split('|').map((part) => part.trim());
+    return link ? { label, action: 'custom', data: link } : { label, action: 'custom' };
+  });
+}
+
+function isAllowedLink(link: string): boolean {
+  if (link.startsWith('/') && !link.startsWith('//')) return true;
+  try {
+    return new URL(link).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an intent before it is saved
+ */
+export function validateCustomIntent(input: Partial<CustomIntentInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.name?.trim()) {
+    errors.push('Name is required');
+  } else if (input.name.length > 80) {
+    errors.push('Name must be 80 characters or fewer');
+  } else if (!toCustomIntentKey(input.name)) {
+    errors.push('Name must contain letters or numbers');
+  }
+  if (!input.phrases?.length) {
+    errors.push('Add at least one trigger phrase');
+  } else if (input.phrases.length > CUSTOM_INTENTS.MAX_PHRASES) {
+    errors.push(`Use up to ${CUSTOM_INTENTS.MAX_PHRASES} trigger phrases`);
+  }
+  if (!input.responseText?.trim()) {
+    errors.push('Response is required');
+  } else if (input.responseText.length > CUSTOM_INTENTS.MAX_RESPONSE_CHARS) {
+    errors.push(`Response must be ${CUSTOM_INTENTS.MAX_RESPONSE_CHARS} characters or fewer`);
+  }
+  if ((input.quickReplies?.length ?? 0) > CUSTOM_INTENTS.MAX_QUICK_REPLIES) {
+    errors.push(`Use up to ${CUSTOM_INTENTS.MAX_QUICK_REPLIES} quick replies`);
+  }
+  if ((input.suggestedActions?.length ?? 0) > CUSTOM_INTENTS.MAX_SUGGESTED_ACTIONS) {
+    errors.push(`Use up to ${CUSTOM_INTENTS.MAX_SUGGESTED_ACTIONS} suggested actions`);
+  }
+  if (input.suggestedActions?.some((action) => !action.label || (action.data && !isAllowedLink(action.data)))) {
+    errors.push('Action links must start with https:// or / (a page of your store)');
+  }
+  if (!input.priority || !CUSTOM_INTENT_PRIORITIES.includes(input.priority)) {
+    errors.push('Priority must be "high", "normal" or "low"');
+  }
+
+  return errors;
+}
+
+export function toCustomIntentConfig(row: CustomIntent): CustomIntentConfig {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    phrases: parseJsonArray<string>(row.phrases),
+    priority: CUSTOM_INTENT_PRIORITIES.includes(row.priority as CustomIntentPriority)
+      ? row.priority as CustomIntentPriority
+      : 'normal',
+    responseText: row.responseText,
+    quickReplies: parseJsonArray<string>(row.quickReplies),
+    suggestedActions: parseJsonArray<SuggestedAction>(row.suggestedActions),
+    productQuery: row.productQuery,
+  };
+}
+
+function toRowData(input: CustomIntentInput) {
+  return {
+    name: input.name.trim(),
+    phrases: JSON.stringify(input.phrases),
+    responseText: input.responseText.trim(),
+    quickReplies: JSON.stringify(input.quickReplies),
+    suggestedActions: JSON.stringify(input.suggestedActions),
+    productQuery: input.productQuery?.trim() || null,
+    priority: input.priority,
+  };
+}
+
+export function clearCustomIntentCache(shop: string): void {
+  intentCache.delete(shop);
+}
+
+export async function listCustomIntents(shop: string): Promise<CustomIntent[]> {
+  return db.customIntent.findMany({ where: { shop }, orderBy: { createdAt: 'asc' } });
+}
+
+/**
+ * Enabled intents of a shop, for the classifier
+ */
+export async function getShopCustomIntents(shop: string): Promise<CustomIntentConfig[]> {
+  const cached = intentCache.get(shop);
+  if (cached && Date.now() - cached.loadedAt < INTENT_CACHE_TTL_MS) {
+    return cached.intents;
+  }
+
+  const rows = await db.customIntent.findMany({ where: { shop, enabled: true }, orderBy: { createdAt: 'asc' } });
+  const intents = rows.map(toCustomIntentConfig);
+  intentCache.set(shop, { intents, loadedAt: Date.now() });
+  return intents;
+}
+
+export async function createCustomIntent(shop: string, input: CustomIntentInput): Promise<CustomIntent> {
+  const count = await db.customIntent.count({ where: { shop } });
+  if (count >= CUSTOM_INTENTS.MAX_PER_SHOP) {
+    throw new Error(`Custom intents are limited to ${CUSTOM_INTENTS.MAX_PER_SHOP} per shop`);
+  }
+
+  const key = toCustomIntentKey(input.name);
+  const existing = await db.customIntent.findUnique({ where: { shop_key: { shop, key } } });
+  if (existing) {
+    throw new Error(`A custom intent named "${existing.name}" already exists`);
+  }
+
+  const intent = await db.customIntent.create({
+    data: { shop, key, enabled: input.enabled ?? true, ...toRowData(input) }
+  });
+
+  clearCustomIntentCache(shop);
+  logger.info({ shop, key }, '✅ Custom intent created');
+  return intent;
+}
+
+/**
+ * Update an intent (the key stays the same so its analytics rows continue)
+ */
+export async function updateCustomIntent(
+  shop: string,
+  id: string,
+  input: CustomIntentInput
+): Promise<CustomIntent | null> {
+  const existing = await db.customIntent.findFirst({ where: { id, shop } });
+  if (!existing) return null;
+
+  const intent = await db.customIntent.update({
+    where: { id },
+    data: { enabled: input.enabled ?? existing.enabled, ...toRowData(input) }
+  });
+
+  clearCustomIntentCache(shop);
+  return intent;
+}
+
+export async function setCustomIntentEnabled(shop: string, id: string, enabled: boolean): Promise<boolean> {
+  const result = await db.customIntent.updateMany({ where: { id, shop }, data: { enabled } });
+  clearCustomIntentCache(shop);
+  return result.count > 0;
+}
+
+export async function deleteCustomIntent(shop: string, id: string): Promise<boolean> {
+  const result = await db.customIntent.deleteMany({ where: { id, shop } });
+  clearCustomIntentCache(shop);
+  return result.count > 0;
+}
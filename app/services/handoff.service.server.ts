@@ -0,0 +1,236 @@
+/**
+ * Handoff Service
+ *
+ * Queue of conversations escalated to a human. The chat pipeline offers a
+ * human when the shopper asks for one, is unhappy with a support answer or
+ * the reply is low-confidence (see detectEscalationReason). When the shopper
+ * accepts ("Talk to Support" in the widget) the session is queued with the
+ * reason and a snapshot of the transcript.
+ *
+ * Merchants work the queue from the Handoff queue page:
+ * waiting → assigned → resolved (resolved requests can be reopened).
+ * A session has at most one open (waiting or assigned) request.
+ */
+
+import type { HandoffRequest } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { HANDOFF } from '../config/limits';
+
+const logger = createLogger({ service: 'HandoffService' });
+
+export const HANDOFF_STATUSES = ['waiting', 'assigned', 'resolved'] as const;
+export type HandoffStatus = typeof HANDOFF_STATUSES[number];
+
+export const HANDOFF_REASONS = ['explicit_request', 'negative_sentiment', 'low_confidence'] as const;
+export type HandoffReason = typeof HANDOFF_REASONS[number];
+
+export const OPEN_HANDOFF_STATUSES: HandoffStatus[] = ['waiting', 'assigned'];
+
+export interface HandoffTranscriptMessage {
+  role: string;
+  content: string;
+  timestamp: string;
+  productsShown: string[];
+}
+
+/**
+ * What the pipeline knows about a reply when deciding to offer a human
+ */
+export interface EscalationSignals {
+  message: string;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  confidence: number;
+  isSupportIntent: boolean;
+  // The workflow or model set requiresHumanEscalation
+  flagged: boolean;
+}
+
+// "Can I talk to a human?" in the widget languages. Only request phrasings
+// count: bare words such as "agent" or "Mensch" also appear in product
+// questions ("cleaning agent") and exclamations ("Mensch, ist das teuer").
+const HUMAN_REQUEST_PATTERNS: RegExp[] = [
+  // EN
+  /\b(talk|speak|chat) (to|with) (a |an |the |your |one of your )?(human|real person|person|agent|representative|rep|someone|somebody|staff|support team|customer service)\b/i,
+  /\b(live|human) (agent|chat|person|support|representative)\b/i,
+  /\breal (person|human)\b/i,
+  /\b(need|want|get me|connect me (to|with)|transfer me to) (a |an )?(human|agent|representative|real person)\b/i,
+  // FR
+  /parler (à|a|avec) (quelqu'un|une personne|une vraie personne|un humain|un conseiller|une conseillère|un agent)/i,
+  /\b(vraie personne|conseiller humain|agent humain)\b/i,
+  // ES
+  /hablar con (alguien|una persona|un humano|un agente|un asesor)/i,
+  /\b(persona real|agente humano|agente en vivo)\b/i,
+  // DE
+  /mit (einem|einer) (echten )?(menschen|mitarbeiter|mitarbeiterin|person|berater|beraterin) (sprechen|reden|chatten)/i,
+  /\b(echte[nm]? (person|menschen))\b/i,
+  // IT
+  /parlare con (qualcuno|una persona|un operatore|un umano|un agente)/i,
+  /\b(persona reale|operatore umano)\b/i,
+  // PT
+  /falar com (alguém|uma pessoa|um atendente|um humano|um agente)/i,
+  /\b(pessoa real|atendente humano)\b/i,
+  // JA
+  /(担当者|オペレーター|人間|スタッフ)と話(したい|せますか|せる|させて)|(担当者|オペレーター|人間|スタッフ)に(繋|つな)/,
+  // ZH
+  /人工客服|转人工|真人客服|(找|联系)真人/,
+];
+
+export function isHumanRequest(message: string): boolean {
+  return HUMAN_REQUEST_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Why this reply should offer a human, or null when the assistant can carry on
+ *
+ * An explicit request always wins. Negative sentiment counts on support
+ * questions (or when the workflow flagged the reply). Anything else flagged
+ * by the workflow, or below HANDOFF.LOW_CONFIDENCE, is "low_confidence".
+ */
+export function detectEscalationReason(signals: EscalationSignals): HandoffReason | null {
+  if (isHumanRequest(signals.message)) {
+    return 'explicit_request';
+  }
+  if (signals.sentiment === 'negative' && (signals.isSupportIntent || signals.flagged)) {
+    return 'negative_sentiment';
+  }
+  if (signals.flagged || signals.confidence < HANDOFF.LOW_CONFIDENCE) {
+    return 'low_confidence';
+  }
+  return null;
+}
+
+export function isHandoffReason(value: unknown): value is HandoffReason {
+  return typeof value === 'string' && HANDOFF_REASONS.includes(value as HandoffReason);
+}
+
+export function isHandoffStatus(value: unknown): value is HandoffStatus {
+  return typeof value === 'string' && HANDOFF_STATUSES.includes(value as HandoffStatus);
+}
+
+export function parseHandoffTranscript(value: string): HandoffTranscriptMessage[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The latest messages of a session, oldest first
+ */
+export async function buildHandoffTranscript(chatSessionId: string): Promise<HandoffTranscriptMessage[]> {
+  const messages = await db.chatMessage.findMany({
+    where: { sessionId: chatSessionId },
+    orderBy: { timestamp: 'desc' },
+    take: HANDOFF.MAX_TRANSCRIPT_MESSAGES,
+    select: { role: true, content: true, timestamp: true, productsShown: true }
+  });
+
+  return messages.reverse().map((message) => {
+    let productsShown: string[] = [];
+    try {
+      const parsed = JSON.parse(message.productsShown || '[]');
+      productsShown = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // Keep the message without product cards
+    }
+    return {
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      productsShown
+    };
+  });
+}
+
+/**
+ * Waiting or assigned request of a session
+ */
+export async function getOpenHandoff(shop: string, chatSessionId: string): Promise<HandoffRequest | null> {
+  return db.handoffRequest.findFirst({
+    where: { shop, chatSessionId, status: { in: OPEN_HANDOFF_STATUSES } },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+/**
+ * Queue a session for a human (returns the open request when there already is one)
+ *
+ * @returns null when the session does not belong to the shop
+ */
+export async function createHandoffRequest(
+  shop: string,
+  chatSessionId: string,
+  reason: HandoffReason,
+  note?: string | null
+): Promise<{ handoff: HandoffRequest; created: boolean } | null> {
+  const session = await db.chatSession.findFirst({ where: { id: chatSessionId, shop }, select: { id: true } });
+  if (!session) {
+    return null;
+  }
+
+  const existing = await getOpenHandoff(shop, chatSessionId);
+  if (existing) {
+    return { handoff: existing, created: false };
+  }
+
+  const transcript = await buildHandoffTranscript(chatSessionId);
+  const handoff = await db.handoffRequest.create({
+    data: {
+      shop,
+      chatSessionId,
+      reason,
+      note: note?.trim().substring(0, HANDOFF.MAX_NOTE_CHARS) || null,
+      transcript: JSON.stringify(transcript)
+    }
+  });
+
+  logger.info({ shop, chatSessionId, reason, messages: transcript.length }, '🙋 Conversation queued for a human');
+  return { handoff, created: true };
+}
+
+export async function listHandoffRequests(shop: string, status: HandoffStatus): Promise<HandoffRequest[]> {
+  return db.handoffRequest.findMany({
+    where: { shop, status },
+    // Oldest waiting shopper first; most recently resolved first
+    orderBy: { createdAt: status === 'resolved' ? 'desc' : 'asc' },
+    take: HANDOFF.QUEUE_PAGE_SIZE
+  });
+}
+
+export async function getHandoffCounts(shop: string): Promise<Record<HandoffStatus, number>> {
+  const rows = await db.handoffRequest.groupBy({
+    by: ['status'],
+    where: { shop },
+    _count: { _all: true }
+  });
+  const countOf = (status: HandoffStatus) => rows.find((row) => row.status === status)?._count._all ?? 0;
+
+  return { waiting: countOf('waiting'), assigned: countOf('assigned'), resolved: countOf('resolved') };
+}
+
+export async function assignHandoff(shop: string, id: string, assignee: string): Promise<boolean> {
+  const result = await db.handoffRequest.updateMany({
+    where: { id, shop, status: { in: OPEN_HANDOFF_STATUSES } },
+    data: { status: 'assigned', assignedTo: assignee.trim() || null, assignedAt: new Date() }
+  });
+  return result.count > 0;
+}
+
+export async function resolveHandoff(shop: string, id: string): Promise<boolean> {
+  const result = await db.handoffRequest.updateMany({
+    where: { id, shop, status: { in: OPEN_HANDOFF_STATUSES } },
+    data: { status: 'resolved', resolvedAt: new Date() }
+  });
+  return result.count > 0;
+}
+
+export async function reopenHandoff(shop: string, id: string): Promise<boolean> {
+  const result = await db.handoffRequest.updateMany({
+    where: { id, shop, status: 'resolved' },
+    data: { status: 'waiting', assignedTo: null, assignedAt: null, resolvedAt: null }
+  });
+  return result.count > 0;
+}
@@ -0,0 +1,494 @@
+/**
+ * Intent Classifier
+ *
+ * One intent taxonomy for every chat endpoint. The storefront pipeline, the
+ * N8N/local fallback and analytics all classify through this module, so the
+ * intent distribution means the same thing whichever path served the chat.
+ *
+ * Tiers:
+ *   rules     - multilingual patterns (EN, FR, ES, DE, IT, PT, JA, ZH), each
+ *               weighted by how specific it is; always runs
+ *   embedding - similarity to each intent's example phrases (OpenAI embeddings)
+ *   llm       - a short classification prompt to the configured LLM provider
+ *
+ * The model tier (INTENT_CLASSIFIER.MODEL_TIER) only runs when the rules are
+ * unsure, and falls back to the rule result on errors and timeouts.
+ *
+ * Merchants can add their own intents (trigger phrases + priority); they are
+ * matched per shop alongside the built-in rules and reported as
+ * "CUSTOM:<key>" in analytics.
+ */
+
+import { createLogger } from '../lib/logger.server';
+import { INTENT_CLASSIFIER } from '../config/limits';
+import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
+import { resolveLLMProvider, type LLMProvider } from './llm/index.server';
+import { extractJsonObject } from './llm/prompt.server';
+
+const logger = createLogger({ service: 'IntentClassifier' });
+
+export const INTENT_TYPES = [
+  // Customer support (answered from policies, no products)
+  'SHIPPING_INFO',
+  'RETURNS',
+  'TRACK_ORDER',
+  'TERMS',
+  'PRIVACY',
+  'CONTACT',
+  'HELP_FAQ',
+  // Product discovery
+  'BESTSELLERS',
+  'NEW_ARRIVALS',
+  'ON_SALE',
+  'RECOMMENDATIONS',
+  'PRODUCT_SEARCH',
+  // Questions about products
+  'PRICE_INQUIRY',
+  'COMPARISON',
+  'AVAILABILITY',
+  'SIZE_FIT',
+  // Conversation
+  'GREETING',
+  'THANKS',
+  'GENERAL_CHAT',
+] as const;
+
+export type IntentType = typeof INTENT_TYPES[number];
+
+export type ClassifiedIntent =
+  | { type: Exclude<IntentType, 'PRODUCT_SEARCH'> }
+  | { type: 'PRODUCT_SEARCH'; query: string }
+  // Merchant-defined intent (see custom-intent.service.server.ts)
+  | { type: 'CUSTOM'; key: string; name: string };
+
+export type ClassifiedIntentType = ClassifiedIntent['type'];
+
+export const SUPPORT_INTENT_TYPES: IntentType[] = ['SHIPPING_INFO', 'RETURNS', 'TRACK_ORDER', 'TERMS', 'PRIVACY', 'CONTACT', 'HELP_FAQ'];
+export const DISCOVERY_INTENT_TYPES: IntentType[] = ['BESTSELLERS', 'NEW_ARRIVALS', 'ON_SALE', 'RECOMMENDATIONS', 'PRODUCT_SEARCH'];
+export const PRODUCT_QUESTION_INTENT_TYPES: IntentType[] = ['PRICE_INQUIRY', 'COMPARISON', 'AVAILABILITY', 'SIZE_FIT'];
+export const CONVERSATION_INTENT_TYPES: IntentType[] = ['GREETING', 'THANKS', 'GENERAL_CHAT'];
+
+// Names written by the old personalization classifier and older analytics rows
+const LEGACY_INTENT_NAMES: Record<string, IntentType> = {
+  SHIPPING: 'SHIPPING_INFO',
+  SUPPORT: 'HELP_FAQ',
+  OTHER: 'GENERAL_CHAT',
+};
+
+export type IntentTier = 'rules' | 'embedding' | 'llm';
+
+export const CUSTOM_INTENT_PRIORITIES = ['high', 'normal', 'low'] as const;
+export type CustomIntentPriority = typeof CUSTOM_INTENT_PRIORITIES[number];
+
+/**
+ * What the classifier needs from a merchant-defined intent
+ */
+export interface CustomIntentDefinition {
+  key: string;
+  name: string;
+  // Trigger phrases, in any language
+  phrases: string[];
+  // high: wins over built-in intents; normal: wins when at least as confident; low: only when nothing else matched
+  priority: CustomIntentPriority;
+}
+
+export interface IntentClassification {
+  intent: ClassifiedIntent;
+  // Confidence of the chosen intent (0 when nothing matched)
+  confidence: number;
+  // Confidence of every intent that matched, by analytics name
+  scores: Record<string, number>;
+  tier: IntentTier;
+}
+
+export interface ClassifyIntentOptions {
+  // The shop's enabled custom intents
+  customIntents?: CustomIntentDefinition[];
+  // Defaults to INTENT_CLASSIFIER.MODEL_TIER
+  modelTier?: 'none' | 'embedding' | 'llm';
+  // Defaults to the provider configured in the environment
+  llmProvider?: LLMProvider | null;
+}
+
+interface IntentRule {
+  intent: IntentType;
+  // How sure a match makes us: specific phrases score higher than generic words
+  weight: number;
+  pattern: RegExp;
+  // Search hint for PRODUCT_SEARCH matches
+  query?: string;
+}
+
+// 🌍 Every rule covers EN, FR, ES, DE, IT, PT, JA, ZH unless noted
+const INTENT_RULES: IntentRule[] = [
+  // Shipping Info: "Tell me about shipping and delivery"
+  { intent: 'SHIPPING_INFO', weight: 0.9, pattern: /(shipping|delivery|livraison|expédition|délai.*livraison|frais.*port|envío|entrega|enviar|versand|lieferung|spedizione|consegna|envio|entrega|配送|配达|发货|物流|配送について|配達)/ },
+  // Returns: "What is your return policy?"
+  { intent: 'RETURNS', weight: 0.9, pattern: /(return|refund|exchange|retour|remboursement|échange|politique.*retour|devoluciones?|reembolso|cambio|rücksendung|erstattung|umtausch|resi|rimborso|cambio|devolução|reembolso|troca|退货|退款|换货|返品|返金|返品ポリシー)/ },
+  // Track Order: "How can I track my order?"
+  { intent: 'TRACK_ORDER', weight: 0.9, pattern: /(track|tracking|where.*is.*my.*order|order.*status|suivre.*commande|suivi.*colis|rastrear|seguimiento|pedido|verfolgen|sendungsverfolgung|bestellung|traccia.*ordine|stato.*ordine|rastrear|acompanhar|pedido|追踪|订单状态|查询|追跡|注文.*追跡|注文状況)/ },
+  // Terms: "What are your terms of service?"
+  { intent: 'TERMS', weight: 0.9, pattern: /(terms.*(service|use|sale)|terms.*conditions|conditions.*(générales|d'utilisation|de vente)|\bcgv\b|\bcgu\b|términos|condiciones.*(generales|de uso|del servicio)|\bagb\b|geschäftsbedingungen|nutzungsbedingungen|termini.*(servizio|condizioni)|condizioni.*(generali|d'uso|di vendita)|termos.*(serviço|uso)|condições.*gerais|規約|服务条款|使用条款|条款)/ },
+  // Privacy: "How do you use my personal data?"
+  { intent: 'PRIVACY', weight: 0.9, pattern: /(privacy|personal.*data|my.*data|gdpr|confidentialité|données.*personnelles|mes.*données|rgpd|privacidad|datos.*personales|mis.*datos|datenschutz|persönliche.*daten|meine.*daten|dsgvo|riservatezza|dati.*personali|miei.*dati|privacidade|dados.*pessoais|meus.*dados|lgpd|プライバシー|個人情報|隐私|个人信息|个人数据)/ },
+  // Contact: "How can I contact you?" or "What is your phone number?"
+  { intent: 'CONTACT', weight: 0.9, pattern: /(contact|reach.*you|get.*in.*touch|e-?mail.*address|your.*e-?mail|phone.*number|call.*you|contacter|joindre|coordonnées|numéro.*téléphone|adresse.*e-?mail|votre.*e-?mail|contactar|contacto|teléfono|correo|kontakt|telefonnummer|e-?mail-adresse|contattar|contatti|recapit|numero.*telefono|contato|contatar|telefone|联系|电话|邮箱|お問い合わせ|問い合わせ|連絡先|電話番号|メールアドレス)/ },
+  // Help/FAQ: "I need help with something" - generic words, so any specific intent wins
+  { intent: 'HELP_FAQ', weight: 0.6, pattern: /(help|faq|question|support|assistance|aide|besoin.*aide|customer.*service|service.*client|talk.*to.*someone|speak.*to.*someone|parler.*avec|parler.*quelqu'un|ayuda|asistencia|soporte|servicio.*cliente|preguntas?|hilfe|unterstützung|kundendienst|fragen?|aiuto|supporto|assistenza|servizio.*clienti|domande?|ajuda|suporte|atendimento|perguntas?|帮助|支持|客服|咨询|ヘルプ|サポート|助け)/ },
+
+  // Best Sellers: "What are your best-selling products?"
+  { intent: 'BESTSELLERS', weight: 0.85, pattern: /(best[-\s]?selling|best[-\s]?seller|top[-\s]?seller|most[-\s]?popular|popular.*product|meilleur.*vente|plus.*vendus|más.*vendido|populares?|producto.*popular|bestseller|beliebte.*produkte?|più.*venduti|popolari|mais.*vendidos|畅销|热门|人気|ベストセラー|人気商品)/ },
+  // New Arrivals: "Show me new arrivals"
+  { intent: 'NEW_ARRIVALS', weight: 0.85, pattern: /(new[-\s]?arrival|latest|recent|just[-\s]?added|nouveauté|nouveau.*produit|dernier.*ajout|novedades?|nuevo.*producto|neuheiten?|neue.*produkte?|novità|nuovi.*prodotti|novidades?|novo.*produto|新品|新上市|新着|新商品|新製品)/ },
+  // On Sale: "What products are on sale?"
+  { intent: 'ON_SALE', weight: 0.85, pattern: /(on[-\s]?sale|discount|promo|deal|solde|réduction|promotion|rabais|oferta|descuento|rebaja|angebot|rabatt|reduziert|offert[ae]|sconto|promoção|desconto|促销|打折|优惠|特价|セール|割引|特売)/ },
+  // Recommendations: "Show me recommendations for me"
+  { intent: 'RECOMMENDATIONS', weight: 0.85, pattern: /(recommendation|recommend.*for.*me|suggest.*for.*me|for[-\s]?you|personnalisé|recommandation|recomendaciones?|recomendado|sugerencias?|empfehlungen?|empfohlen|vorschläge|raccomandazioni?|consigliato|suggerimenti|recomendações?|recomendado|sugestões|推荐|建议|おすすめ|推奨|お勧め)/ },
+
+  // Size/Fit: "What size should I take?"
+  { intent: 'SIZE_FIT', weight: 0.8, pattern: /(\bsizes?\b|sizing|\bfits?\b|measurements?|dimensions?|how (big|small|long|wide)|\btailles?\b|pointure|mensurations|\btallas?\b|medidas?|größe|grösse|passform|\bmaße|\btaglia|misur|vestibilit|tamanhos?|サイズ|寸法|尺码|尺寸|大小)/ },
+  // Price: "How much is the leather bag?"
+  { intent: 'PRICE_INQUIRY', weight: 0.75, pattern: /(how much|\bprices?\b|pricing|\bcosts?\b|expensive|\bcheap|budget|afford|\bprix\b|combien|co[uû]te|\bcher\b|precio|cu[aá]nto (cuesta|vale)|\bcuesta\b|\bcaro\b|\bbarat[oa]\b|\bpreis|kostet|wie ?viel|teuer|günstig|prezz[oi]|quanto costa|economic|preço|quanto custa|\bcusta\b|値段|価格|いくら|价格|多少钱|价钱)/ },
+  // Comparison: "Which one is better?"
+  { intent: 'COMPARISON', weight: 0.75, pattern: /(compar|difference|\bvs\.?(\s|$)|versus|which (one|is better)|better than|différence|lequel|laquelle|meilleur que|diferencia|cu[aá]l es mejor|mejor que|vergleich|unterschied|welche[rs]? (ist )?besser|besser als|confront|differenza|quale [eè] meglio|meglio di|diferença|qual [eé] melhor|melhor que|比較|違い|どちらが|比较|区别|哪个好|哪个更)/ },
+  // Availability: "Is this in stock?"
+  { intent: 'AVAILABILITY', weight: 0.75, pattern: /(in stock|out of stock|sold out|\bavailab|back in stock|en stock|disponib|rupture|épuisé|agotad|auf lager|verfügbar|ausverkauft|lieferbar|esaurit|em estoque|dispon[ií]vel|esgotad|在庫|売り切れ|品切れ|有货|有貨|库存|缺货|现货)/ },
+
+  // Product search: specific product types first, then browsing words
+  { intent: 'PRODUCT_SEARCH', weight: 0.7, query: 't-shirt', pattern: /(t[-\s]?shirt)/ },
+  { intent: 'PRODUCT_SEARCH', weight: 0.7, query: 'shoe', pattern: /(shoe|chaussure|sneaker|boot|basket)/ },
+  { intent: 'PRODUCT_SEARCH', weight: 0.6, query: 'product', pattern: /(show|see|display|browse|view|product|item|all.*product|categor|montre|affiche|voir|parcour|vêtement|produit|collection)/ },
+  { intent: 'PRODUCT_SEARCH', weight: 0.6, query: 'product', pattern: /(looking for|search|\bfind\b|cherche|busco|buscando|muéstrame|enséñame|\bsuche|zeig|cerco|mostra|procuro|mostre|探して|見せて|找|看看)/ },
+
+  // Thanks: "Thank you!"
+  { intent: 'THANKS', weight: 0.6, pattern: /(thank|\bthx\b|appreciate|\bmerci\b|gracias|danke|grazie|obrigad|ありがとう|感谢|谢谢|多谢)/ },
+  // Greeting: only at the start of the message, so any question after it wins
+  { intent: 'GREETING', weight: 0.55, pattern: /^(hi|hello|hey|hiya|good (morning|afternoon|evening)|bonjour|bonsoir|salut|coucou|hola|buen[oa]s (días|tardes|noches)|hallo|guten (tag|morgen|abend)|moin|servus|ciao|buongiorno|buonasera|salve|olá|oi|bom dia|boa (tarde|noite))(?![a-z])/ },
+  { intent: 'GREETING', weight: 0.55, pattern: /^(こんにちは|こんばんは|おはよう|你好|您好|嗨|哈喽)/ },
+];
+
+// Extra confidence for each additional rule of the same intent that matched
+const REPEAT_MATCH_BONUS = 0.05;
+const MAX_RULE_CONFIDENCE = 0.95;
+
+// Example messages per intent: embedded for the embedding tier
+const INTENT_EXAMPLES: Record<IntentType, string[]> = {
+  SHIPPING_INFO: ['How long does delivery take?', 'Quels sont les frais de livraison ?', '¿Hacen envíos internacionales?'],
+  RETURNS: ['Can I send this back?', 'Je voudrais être remboursé', 'Wie kann ich etwas zurückgeben?'],
+  TRACK_ORDER: ['Where is my package?', 'Mon colis n\'est pas arrivé', 'Wo ist mein Paket?'],
+  TERMS: ['What are your terms of sale?', 'Conditions générales de vente', 'Allgemeine Geschäftsbedingungen'],
+  PRIVACY: ['What do you do with my data?', 'Comment utilisez-vous mes données ?', 'Delete my personal information'],
+  CONTACT: ['How do I reach customer service by phone?', 'Quelle est votre adresse email ?', 'Can I talk to the store owner?'],
+  HELP_FAQ: ['I have a question', 'Can you help me?', 'J\'ai besoin d\'aide'],
+  BESTSELLERS: ['What do most customers buy?', 'Vos produits les plus populaires', 'What is trending right now?'],
+  NEW_ARRIVALS: ['What is new in the store?', 'Quoi de neuf cette semaine ?', 'Latest collection'],
+  ON_SALE: ['Anything cheaper on sale?', 'Avez-vous des promotions ?', 'Do you have a coupon code?'],
+  RECOMMENDATIONS: ['What would you suggest for me?', 'Un cadeau pour ma mère ?', 'Gift ideas for a friend'],
+  PRODUCT_SEARCH: ['I want a red dress', 'Je cherche un sac en cuir', 'Do you sell hiking backpacks?'],
+  PRICE_INQUIRY: ['How much is it?', 'C\'est combien ?', 'What does this cost?'],
+  COMPARISON: ['Which of these two is better?', 'What is the difference between them?', 'Lequel me conseillez-vous entre les deux ?'],
+  AVAILABILITY: ['Is this in stock?', 'Will it be restocked?', 'Est-ce disponible ?'],
+  SIZE_FIT: ['Does it run small?', 'Which size should I order?', 'Quelle taille prendre ?'],
+  GREETING: ['Hello there', 'Bonjour', 'Good evening'],
+  THANKS: ['Thanks a lot', 'Merci beaucoup', 'That was helpful, thank you'],
+  GENERAL_CHAT: ['Who are you?', 'Tell me a joke', 'Are you a robot?'],
+};
+
+// Shown to the LLM tier, one line per intent
+const INTENT_DESCRIPTIONS: Record<IntentType, string> = {
+  SHIPPING_INFO: 'delivery times, costs and destinations',
+  RETURNS: 'returns, refunds and exchanges',
+  TRACK_ORDER: 'status or location of an existing order',
+  TERMS: 'terms of service or conditions of sale',
+  PRIVACY: 'privacy policy or personal data',
+  CONTACT: 'how to contact the store (email, phone, address)',
+  HELP_FAQ: 'a general request for help or a question about the store',
+  BESTSELLERS: 'best-selling or popular products',
+  NEW_ARRIVALS: 'new or recently added products',
+  ON_SALE: 'discounts, promotions and products on sale',
+  RECOMMENDATIONS: 'personal product suggestions',
+  PRODUCT_SEARCH: 'looking for a specific product or browsing the catalog',
+  PRICE_INQUIRY: 'the price of a product or a budget',
+  COMPARISON: 'comparing two or more products',
+  AVAILABILITY: 'stock or availability of a product',
+  SIZE_FIT: 'sizes, fit or dimensions',
+  GREETING: 'a greeting that starts the conversation',
+  THANKS: 'thanking the assistant',
+  GENERAL_CHAT: 'anything else',
+};
+
+export function isIntentType(value: unknown): value is IntentType {
+  return typeof value === 'string' && (INTENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a stored or model-provided intent name to the shared taxonomy
+ *
+ * @returns null for names outside the taxonomy (e.g. IMAGE_ANALYSIS)
+ */
+export function normalizeIntentName(name: string | null | undefined): IntentType | null {
+  if (!name) return null;
+  const upper = name.trim().toUpperCase();
+  if (isIntentType(upper)) return upper;
+  return LEGACY_INTENT_NAMES[upper] ?? null;
+}
+
+function toClassifiedIntent(type: IntentType, query = 'product'): ClassifiedIntent {
+  return type === 'PRODUCT_SEARCH' ? { type, query } : { type };
+}
+
+/**
+ * Name stored on ChatMessage.intent and in ChatAnalytics.topIntents
+ * (custom intents get their own "CUSTOM:<key>" row)
+ */
+export function getIntentAnalyticsName(intent: ClassifiedIntent): string {
+  return intent.type === 'CUSTOM' ? `CUSTOM:${intent.key}` : intent.type;
+}
+
+// Custom phrase found word for word / all of its words found in any order
+const CUSTOM_PHRASE_CONFIDENCE = 0.9;
+const CUSTOM_WORDS_CONFIDENCE = 0.8;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+const PRIORITY_ORDER: Record<CustomIntentPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Lowercase, without accents and punctuation, single-spaced
+ */
+function normalizeForMatching(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * How well a message matches one custom intent's phrases (0 when it does not)
+ */
+export function scoreCustomIntent(message: string, definition: CustomIntentDefinition): number {
+  const text = ` ${normalizeForMatching(message)} `;
+  const words = new Set(text.trim().split(' '));
+  let best = 0;
+
+  for (const phrase of definition.phrases) {
+    const normalized = normalizeForMatching(phrase);
+    if (!normalized) continue;
+
+    // Scripts written without spaces (JA, ZH) are matched as substrings
+    const phraseFound = CJK_PATTERN.test(normalized) ? text.includes(normalized) : text.includes(` ${normalized} `);
+    if (phraseFound) {
+      return CUSTOM_PHRASE_CONFIDENCE;
+    }
+
+    const phraseWords = normalized.split(' ');
+    if (phraseWords.length > 1 && phraseWords.every((word) => words.has(word))) {
+      best = CUSTOM_WORDS_CONFIDENCE;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply the shop's custom intents on top of the built-in result
+ */
+function applyCustomIntents(
+  message: string,
+  result: IntentClassification,
+  customIntents: CustomIntentDefinition[]
+): IntentClassification {
+  const matches = customIntents
+    .map((definition) => ({ definition, confidence: scoreCustomIntent(message, definition) }))
+    .filter(({ confidence }) => confidence > 0)
+    .sort((a, b) =>
+      PRIORITY_ORDER[a.definition.priority] - PRIORITY_ORDER[b.definition.priority] || b.confidence - a.confidence
+    );
+
+  const scores = { ...result.scores };
+  for (const { definition, confidence } of matches) {
+    scores[`CUSTOM:${definition.key}`] = confidence;
+  }
+
+  const winner = matches.find(({ definition, confidence }) =>
+    definition.priority === 'high' ||
+    (definition.priority === 'normal' && confidence >= result.confidence) ||
+    (definition.priority === 'low' && result.confidence === 0)
+  );
+
+  if (!winner) {
+    return { ...result, scores };
+  }
+
+  return {
+    intent: { type: 'CUSTOM', key: winner.definition.key, name: winner.definition.name },
+    confidence: winner.confidence,
+    scores,
+    tier: 'rules',
+  };
+}
+
+/**
+ * Rule tier: score every intent, then keep the best (ties go to the earlier
+ * intent in INTENT_TYPES, so support questions win over product words)
+ */
+export function classifyIntentByRules(
+  message: string,
+  customIntents: CustomIntentDefinition[] = []
+): IntentClassification {
+  const lower = message.toLowerCase().trim();
+  const scores: Record<string, number> = {};
+  let query: string | undefined;
+  let queryWeight = 0;
+
+  for (const rule of INTENT_RULES) {
+    if (!rule.pattern.test(lower)) continue;
+
+    const current = scores[rule.intent];
+    scores[rule.intent] = current === undefined
+      ? rule.weight
+      : Math.min(MAX_RULE_CONFIDENCE, Math.max(current, rule.weight) + REPEAT_MATCH_BONUS);
+
+    if (rule.query && rule.weight > queryWeight) {
+      query = rule.query;
+      queryWeight = rule.weight;
+    }
+  }
+
+  let best: IntentType = 'GENERAL_CHAT';
+  let confidence = 0;
+  for (const type of INTENT_TYPES) {
+    const score = scores[type];
+    if (score !== undefined && score > confidence) {
+      best = type;
+      confidence = score;
+    }
+  }
+
+  const result: IntentClassification = { intent: toClassifiedIntent(best, query), confidence, scores, tier: 'rules' };
+  return customIntents.length > 0 ? applyCustomIntents(message, result, customIntents) : result;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Intent classification timeout')), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+// Intent example vectors, embedded once per process
+let intentVectors: Promise<Array<[IntentType, number[]]>> | null = null;
+
+function getIntentVectors(): Promise<Array<[IntentType, number[]]>> {
+  if (!intentVectors) {
+    const embeddingService = getEmbeddingService();
+    intentVectors = Promise.all(
+      INTENT_TYPES.map(async (type): Promise<[IntentType, number[]]> => [
+        type,
+        await embeddingService.generateEmbedding(INTENT_EXAMPLES[type].join('\n')),
+      ])
+    ).catch((error) => {
+      // Retry on the next message instead of caching the failure
+      intentVectors = null;
+      throw error;
+    });
+  }
+  return intentVectors;
+}
+
+async function classifyByEmbedding(message: string): Promise<{ type: IntentType; confidence: number } | null> {
+  if (!isEmbeddingServiceAvailable()) return null;
+
+  const embeddingService = getEmbeddingService();
+  const [vectors, messageVector] = await Promise.all([
+    getIntentVectors(),
+    embeddingService.generateEmbedding(message),
+  ]);
+
+  let best: { type: IntentType; confidence: number } | null = null;
+  for (const [type, vector] of vectors) {
+    const similarity = embeddingService.cosineSimilarity(messageVector, vector);
+    if (!best || similarity > best.confidence) {
+      best = { type, confidence: similarity };
+    }
+  }
+
+  return best && best.confidence >= INTENT_CLASSIFIER.MIN_EMBEDDING_SIMILARITY ? best : null;
+}
+
+async function classifyByLLM(
+  message: string,
+  provider: LLMProvider
+): Promise<{ type: IntentType; confidence: number } | null> {
+  const categories = INTENT_TYPES.map((type) => `- ${type}: ${INTENT_DESCRIPTIONS[type]}`).join('\n');
+  const completion = await provider.complete([
+    {
+      role: 'system',
+      content: `Classify the shopper's message (any language) into one of these intents:\n${categories}\n\n` +
+        'Respond with JSON only: {"intent": "<INTENT>", "confidence": <0 to 1>}',
+    },
+    { role: 'user', content: message },
+  ], { temperature: 0, maxTokens: 40, json: true });
+
+  const parsed = extractJsonObject(completion.text);
+  const type = normalizeIntentName(parsed?.intent);
+  if (!type) return null;
+
+  const confidence = Number(parsed?.confidence);
+  return { type, confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5 };
+}
+
+/**
+ * Classify a shopper message into the shared intent taxonomy
+ */
+export async function classifyIntent(
+  message: string,
+  options: ClassifyIntentOptions = {}
+): Promise<IntentClassification> {
+  const result = classifyIntentByRules(message, options.customIntents);
+  const modelTier = options.modelTier ?? INTENT_CLASSIFIER.MODEL_TIER;
+
+  if (modelTier === 'none' || result.confidence >= INTENT_CLASSIFIER.MIN_RULE_CONFIDENCE) {
+    return result;
+  }
+
+  try {
+    let match: { type: IntentType; confidence: number } | null = null;
+
+    if (modelTier === 'embedding') {
+      match = await withTimeout(classifyByEmbedding(message), INTENT_CLASSIFIER.MODEL_TIMEOUT_MS);
+    } else {
+      const provider = options.llmProvider === undefined ? resolveLLMProvider() : options.llmProvider;
+      match = provider
+        ? await withTimeout(classifyByLLM(message, provider), INTENT_CLASSIFIER.MODEL_TIMEOUT_MS)
+        : null;
+    }
+
+    if (!match || match.confidence <= result.confidence) {
+      return result;
+    }
+
+    logger.debug({ intent: match.type, confidence: match.confidence, tier: modelTier }, 'Intent classified by model tier');
+    return {
+      intent: toClassifiedIntent(match.type),
+      confidence: match.confidence,
+      scores: { ...result.scores, [match.type]: Math.max(result.scores[match.type] ?? 0, match.confidence) },
+      tier: modelTier,
+    };
+  } catch (error) {
+    // Non-blocking - the rule result is always usable
+    logger.warn({
+      tier: modelTier,
+      error: error instanceof Error ? error.message : String(error)
+    }, '⚠️ Intent model tier failed (non-blocking)');
+    return result;
+  }
+}
@@ -0,0 +1,702 @@
+/**
+ * Knowledge Base Service
+ *
+ * Merchant-written FAQ entries and articles the assistant can answer from.
+ * Each entry is split into overlapping chunks that are embedded with the
+ * EmbeddingService (when OPENAI_API_KEY is set). For each support or general
+ * chat message the most relevant chunks are retrieved into the chat context,
+ * and the reply cites the entries it was based on.
+ *
+ * Without embeddings, chunks are matched on the question's keywords instead.
+ *
+ * Besides manual and imported entries, the knowledge base holds store
+ * content synced from Shopify (see knowledge-sync.service.server.ts); those
+ * entries are keyed by their Shopify id and only the sync changes their text.
+ */
+
+import type { KnowledgeEntry } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { KNOWLEDGE_BASE } from '../config/limits';
+import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
+import { invalidateResponseCache, SUPPORT_CACHE_INTENTS } from './response-cache.service.server';
+
+const logger = createLogger({ service: 'KnowledgeBase' });
+
+export const KNOWLEDGE_ENTRY_TYPES = ['faq', 'article'] as const;
+export type KnowledgeEntryType = typeof KNOWLEDGE_ENTRY_TYPES[number];
+
+export const SYNCED_KNOWLEDGE_SOURCES = ['shopify_page', 'shopify_article', 'shopify_metafield'] as const;
+export type SyncedKnowledgeSource = typeof SYNCED_KNOWLEDGE_SOURCES[number];
+
+export function isSyncedKnowledgeSource(source: string): source is SyncedKnowledgeSource {
+  return (SYNCED_KNOWLEDGE_SOURCES as readonly string[]).includes(source);
+}
+
+export interface KnowledgeEntryInput {
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  enabled?: boolean;
+}
+
+/**
+ * Store content synced from Shopify
+ */
+export interface SyncedKnowledgeEntryInput {
+  source: SyncedKnowledgeSource;
+  externalId: string;
+  title: string;
+  content: string;
+  url?: string | null;
+  externalUpdatedAt: Date;
+}
+
+/**
+ * A retrieved chunk, as sent to the workflow in `context.knowledgeBase`
+ */
+export interface KnowledgeSnippet {
+  // Id of the entry the chunk belongs to (workflows cite it in `sourceIds`)
+  id: string;
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  score: number;
+  // Storefront page of synced content
+  url?: string;
+}
+
+/**
+ * Entry cited by an answer (returned to the widget as `sources`)
+ */
+export interface KnowledgeSource {
+  id: string;
+  type: KnowledgeEntryType;
+  title: string;
+  url?: string;
+}
+
+export interface KnowledgeImportResult {
+  entries: KnowledgeEntryInput[];
+  errors: string[];
+}
+
+interface CachedChunk {
+  entryId: string;
+  type: KnowledgeEntryType;
+  title: string;
+  content: string;
+  url: string | null;
+  embedding: number[] | null;
+}
+
+// Chunks per shop, reloaded after a write or when older than the TTL
+const chunkCache = new Map<string, { chunks: CachedChunk[]; loadedAt: number }>();
+const CHUNK_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Chunks of one entry used for a single message
+const MAX_CHUNKS_PER_ENTRY = 2;
+
+// Words ignored when matching keywords
+const STOPWORDS = new Set([
+  'what', 'when', 'where', 'which', 'who', 'how', 'does', 'have', 'with', 'this', 'that', 'from',
+  'your', 'you', 'the', 'and', 'for', 'are', 'can', 'any', 'will', 'about', 'there',
+  'est', 'les', 'des', 'une', 'pour', 'vous', 'avec', 'que', 'qui', 'quel', 'quelle',
+  'los', 'las', 'una', 'para', 'con', 'der', 'die', 'das', 'und', 'ist', 'ein', 'eine',
+]);
+
+/**
+ * Lowercased keywords without accents (scripts without spaces yield long
+ * single tokens, so keyword matching only helps for space-separated languages)
+ */
+export function extractKeywords(text: string): string[] {
+  const words = text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word));
+  return [...new Set(words)];
+}
+
+/**
+ * Share of the query's keywords found in the text (0-1)
+ */
+export function keywordScore(query: string, text: string): number {
+  const keywords = extractKeywords(query);
+  if (keywords.length === 0) return 0;
+
+  const textWords = new Set(extractKeywords(text));
+  const matched = keywords.filter((word) => textWords.has(word)).length;
+  return matched / keywords.length;
+}
+
+/**
+ * Split text into chunks of about `size` characters on paragraph and sentence
+ * boundaries, repeating the last `overlap` characters at the start of the next chunk
+ */
+export function chunkText(
+  text: string,
+  size: number = KNOWLEDGE_BASE.CHUNK_CHARS,
+  overlap: number = KNOWLEDGE_BASE.CHUNK_OVERLAP_CHARS
+): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').trim();
+  if (!normalized) return [];
+  if (normalized.length <= size) return [normalized];
+
+  // Paragraphs, then sentences, then hard splits for very long sentences
+  const pieces = normalized
+    .split(/\n{2,}/)
+    .flatMap((paragraph) => paragraph.match(/[^.!?。！？\n]+[.!?。！？]*\s*|\n/g) || [paragraph])
+    .flatMap((sentence) => {
+      // Leave room for the overlap carried into the next chunk
+      if (sentence.length <= size - overlap) return [sentence];
+      const parts: string[] = [];
+      for (let i = 0; i < sentence.length; i += size - overlap) {
+        parts.push(sentence.substring(i, i + size - overlap));
+      }
+      return parts;
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > size) {
+      chunks.push(current.trim());
+      const tail = current.substring(Math.max(0, current.length - overlap));
+      // Start the overlap at a word boundary
+      current = tail.includes(' ') ? tail.substring(tail.indexOf(' ') + 1) : tail;
+    }
+    current += piece;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks stored for an entry; every chunk carries the question or title so
+ * it can be matched and cited on its own
+ */
+export function buildEntryChunks(entry: Pick<KnowledgeEntry, 'type' | 'title' | 'content'>): string[] {
+  const size = KNOWLEDGE_BASE.CHUNK_CHARS - entry.title.length - 4;
+  return chunkText(entry.content, Math.max(size, 200)).map((chunk) =>
+    entry.type === 'faq' ? `Q: ${entry.title}\nA: ${chunk}` : `${entry.title}\n${chunk}`
+  );
+}
+
+/**
+ * Validate an entry before it is saved
+ */
+export function validateKnowledgeEntry(input: Partial<KnowledgeEntryInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.type || !KNOWLEDGE_ENTRY_TYPES.includes(input.type)) {
+    errors.push('Type must be "faq" or "article"');
+  }
+  if (!input.title?.trim()) {
+    errors.push(input.type === 'faq' ? 'Question is required' : 'Title is required');
+  } else if (input.title.length > 300) {
+    errors.push('Title must be 300 characters or fewer');
+  }
+  if (!input.content?.trim()) {
+    errors.push(input.type === 'faq' ? 'Answer is required' : 'Content is required');
+  } else if (input.content.length > KNOWLEDGE_BASE.MAX_ENTRY_CHARS) {
+    errors.push(`Content must be ${KNOWLEDGE_BASE.MAX_ENTRY_CHARS} characters or fewer`);
+  }
+
+  return errors;
+}
+
+/**
+ * Split CSV text into rows (quoted fields may contain commas, newlines and doubled quotes)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Parse an import file: a JSON array of `{question, answer}` / `{title, content, type}`
+ * objects, or a CSV with a `question,answer` (or `title,content[,type]`) header
+ */
+export function parseKnowledgeImport(text: string): KnowledgeImportResult {
+  const entries: KnowledgeEntryInput[] = [];
+  const errors: string[] = [];
+  const trimmed = text.trim();
+
+  const addEntry = (raw: Record<string, unknown>, label: string) => {
+    const question = raw.question ?? raw.title;
+    const answer = raw.answer ?? raw.content;
+    const type = raw.type ?? (raw.question !== undefined ? 'faq' : 'article');
+    const input = {
+      type: String(type).trim().toLowerCase() as KnowledgeEntryType,
+      title: typeof question === 'string' ? question.trim() : '',
+      content: typeof answer === 'string' ? answer.trim() : '',
+    };
+
+    const entryErrors = validateKnowledgeEntry(input);
+    if (entryErrors.length > 0) {
+      errors.push(`${label}: ${entryErrors.join(', ')}`);
+      return;
+    }
+    entries.push(input);
+  };
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return { entries, errors: ['Invalid JSON'] };
+    }
+
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+    items.forEach((item, index) => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        addEntry(item as Record<string, unknown>, `Item ${index + 1}`);
+      } else {
+        errors.push(`Item ${index + 1}: expected an object`);
+      }
+    });
+    return { entries, errors };
+  }
+
+  const rows = parseCsvRows(trimmed);
+  const header = (rows.shift() || []).map((cell) => cell.trim().toLowerCase());
+  if (!header.includes('question') && !header.includes('title')) {
+    return { entries, errors: ['CSV needs a "question,answer" or "title,content" header'] };
+  }
+
+  rows.forEach((cells, index) => {
+    const raw: Record<string, unknown> = {};
+    header.forEach((key, column) => {
+      if (key) raw[key] = cells[column] ?? '';
+    });
+    // Header row is line 1
+    addEntry(raw, `Line ${index + 2}`);
+  });
+
+  return { entries, errors };
+}
+
+function clearChunkCache(shop: string): void {
+  chunkCache.delete(shop);
+}
+
+/**
+ * Knowledge changed: drop the in-memory chunks and cached support answers
+ */
+export async function onKnowledgeChanged(shop: string, reason: string): Promise<void> {
+  clearChunkCache(shop);
+  await invalidateResponseCache(shop, { intents: SUPPORT_CACHE_INTENTS, reason });
+}
+
+/**
+ * Rebuild the chunks (and embeddings) of one entry
+ */
+export async function indexKnowledgeEntry(entry: KnowledgeEntry): Promise<number> {
+  const texts = buildEntryChunks(entry);
+  const embeddingService = isEmbeddingServiceAvailable() ? getEmbeddingService() : null;
+
+  const chunks = [];
+  for (const [position, content] of texts.entries()) {
+    let embedding: string | null = null;
+    if (embeddingService) {
+      try {
+        embedding = JSON.stringify(await embeddingService.generateEmbedding(content));
+      } catch (error) {
+        // Keyword matching still works for this chunk
+        logger.warn({
+          error: error instanceof Error ? error.message : String(error),
+          entryId: entry.id
+        }, '⚠️ Failed to embed knowledge chunk (non-blocking)');
+      }
+    }
+    chunks.push({ shop: entry.shop, entryId: entry.id, position, content, embedding });
+  }
+
+  await db.$transaction([
+    db.knowledgeChunk.deleteMany({ where: { entryId: entry.id } }),
+    db.knowledgeChunk.createMany({ data: chunks }),
+    db.knowledgeEntry.update({ where: { id: entry.id }, data: { indexedAt: new Date() } }),
+  ]);
+
+  logger.debug({ entryId: entry.id, chunks: chunks.length, embedded: !!embeddingService }, 'Indexed knowledge entry');
+  return chunks.length;
+}
+
+export async function listKnowledgeEntries(
+  shop: string
+): Promise<Array<KnowledgeEntry & { _count: { chunks: number } }>> {
+  return db.knowledgeEntry.findMany({
+    where: { shop },
+    orderBy: { updatedAt: 'desc' },
+    include: { _count: { select: { chunks: true } } }
+  });
+}
+
+export async function getKnowledgeEntry(shop: string, id: string): Promise<KnowledgeEntry | null> {
+  return db.knowledgeEntry.findFirst({ where: { id, shop } });
+}
+
+async function assertCapacity(shop: string, adding: number): Promise<void> {
+  // Synced store content has its own per-source limit
+  const count = await db.knowledgeEntry.count({
+    where: { shop, source: { notIn: [...SYNCED_KNOWLEDGE_SOURCES] } }
+  });
+  if (count + adding > KNOWLEDGE_BASE.MAX_ENTRIES_PER_SHOP) {
+    throw new Error(`The knowledge base is limited to ${KNOWLEDGE_BASE.MAX_ENTRIES_PER_SHOP} entries`);
+  }
+}
+
+export async function createKnowledgeEntry(
+  shop: string,
+  input: KnowledgeEntryInput,
+  source: 'manual' | 'import' = 'manual'
+): Promise<KnowledgeEntry> {
+  await assertCapacity(shop, 1);
+
+  const entry = await db.knowledgeEntry.create({
+    data: {
+      shop,
+      type: input.type,
+      title: input.title.trim(),
+      content: input.content.trim(),
+      enabled: input.enabled ?? true,
+      source,
+    }
+  });
+
+  await indexKnowledgeEntry(entry);
+  await onKnowledgeChanged(shop, 'knowledge_entry_created');
+  return entry;
+}
+
+export async function updateKnowledgeEntry(
+  shop: string,
+  id: string,
+  input: KnowledgeEntryInput
+): Promise<KnowledgeEntry | null> {
+  const existing = await getKnowledgeEntry(shop, id);
+  if (!existing) return null;
+  if (isSyncedKnowledgeSource(existing.source)) {
+    throw new Error('Store content is synced from Shopify and edited there');
+  }
+
+  const entry = await db.knowledgeEntry.update({
+    where: { id },
+    data: {
+      type: input.type,
+      title: input.title.trim(),
+      content: input.content.trim(),
+      enabled: input.enabled ?? existing.enabled,
+    }
+  });
+
+  // Only re-embed when the text changed
+  if (entry.type !== existing.type || entry.title !== existing.title || entry.content !== existing.content) {
+    await indexKnowledgeEntry(entry);
+  }
+  await onKnowledgeChanged(shop, 'knowledge_entry_updated');
+  return entry;
+}
+
+export async function setKnowledgeEntryEnabled(shop: string, id: string, enabled: boolean): Promise<boolean> {
+  const result = await db.knowledgeEntry.updateMany({ where: { id, shop }, data: { enabled } });
+  await onKnowledgeChanged(shop, 'knowledge_entry_updated');
+  return result.count > 0;
+}
+
+export async function deleteKnowledgeEntry(shop: string, id: string): Promise<boolean> {
+  // Chunks are removed by the cascade
+  const result = await db.knowledgeEntry.deleteMany({ where: { id, shop } });
+  await onKnowledgeChanged(shop, 'knowledge_entry_deleted');
+  return result.count > 0;
+}
+
+/**
+ * Create entries from an import file
+ */
+export async function importKnowledgeEntries(shop: string, entries: KnowledgeEntryInput[]): Promise<number> {
+  await assertCapacity(shop, entries.length);
+
+  let imported = 0;
+  for (const input of entries) {
+    const entry = await db.knowledgeEntry.create({
+      data: { shop, type: input.type, title: input.title, content: input.content, source: 'import' }
+    });
+    await indexKnowledgeEntry(entry);
+    imported++;
+  }
+
+  await onKnowledgeChanged(shop, 'knowledge_imported');
+  logger.info({ shop, imported }, '📚 Imported knowledge base entries');
+  return imported;
+}
+
+/**
+ * Create or update an entry synced from Shopify (re-embedded only when its
+ * text changed). The caller runs onKnowledgeChanged once the sync is done.
+ */
+export async function upsertSyncedKnowledgeEntry(
+  shop: string,
+  input: SyncedKnowledgeEntryInput,
+  options: { allowCreate?: boolean } = {}
+): Promise<'created' | 'updated' | 'unchanged' | 'skipped'> {
+  const title = input.title.trim().substring(0, 300);
+  const content = input.content.trim().substring(0, KNOWLEDGE_BASE.MAX_ENTRY_CHARS);
+
+  const existing = await db.knowledgeEntry.findUnique({
+    where: { shop_externalId: { shop, externalId: input.externalId } }
+  });
+
+  if (!existing && options.allowCreate === false) {
+    return 'skipped';
+  }
+  if (existing && existing.title === title && existing.content === content && existing.url === (input.url ?? null)) {
+    return 'unchanged';
+  }
+
+  const data = {
+    type: 'article',
+    title,
+    content,
+    source: input.source,
+    url: input.url ?? null,
+    externalUpdatedAt: input.externalUpdatedAt,
+  };
+  const entry = existing
+    ? await db.knowledgeEntry.update({ where: { id: existing.id }, data })
+    : await db.knowledgeEntry.create({ data: { shop, externalId: input.externalId, ...data } });
+
+  if (!existing || existing.title !== title || existing.content !== content) {
+    await indexKnowledgeEntry(entry);
+  }
+  return existing ? 'updated' : 'created';
+}
+
+/**
+ * Delete synced entries of a source, except the given Shopify ids
+ */
+export async function deleteSyncedKnowledgeEntries(
+  shop: string,
+  source: SyncedKnowledgeSource,
+  keepExternalIds?: string[]
+): Promise<number> {
+  const result = await db.knowledgeEntry.deleteMany({
+    where: {
+      shop,
+      source,
+      ...(keepExternalIds ? { externalId: { notIn: keepExternalIds } } : {}),
+    }
+  });
+  return result.count;
+}
+
+/**
+ * Rebuild every chunk of the shop (e.g. after embeddings became available)
+ */
+export async function reindexKnowledgeBase(shop: string): Promise<number> {
+  const entries = await listKnowledgeEntries(shop);
+  for (const entry of entries) {
+    await indexKnowledgeEntry(entry);
+  }
+
+  await onKnowledgeChanged(shop, 'knowledge_reindexed');
+  logger.info({ shop, entries: entries.length }, '📚 Reindexed knowledge base');
+  return entries.length;
+}
+
+/**
+ * Chunks of the shop's enabled entries (cached in memory)
+ */
+async function loadChunks(shop: string): Promise<CachedChunk[]> {
+  const cached = chunkCache.get(shop);
+  if (cached && Date.now() - cached.loadedAt < CHUNK_CACHE_TTL_MS) {
+    return cached.chunks;
+  }
+
+  const rows = await db.knowledgeChunk.findMany({
+    where: { shop, entry: { enabled: true } },
+    include: { entry: { select: { type: true, title: true, url: true } } },
+    orderBy: [{ entryId: 'asc' }, { position: 'asc' }]
+  });
+
+  const chunks = rows.map((row): CachedChunk => {
+    let embedding: number[] | null = null;
+    if (row.embedding) {
+      try {
+        embedding = JSON.parse(row.embedding);
+      } catch {
+        // Ignore malformed embeddings
+      }
+    }
+    return {
+      entryId: row.entryId,
+      type: row.entry.type as KnowledgeEntryType,
+      title: row.entry.title,
+      content: row.content,
+      url: row.entry.url,
+      embedding,
+    };
+  });
+
+  chunkCache.set(shop, { chunks, loadedAt: Date.now() });
+  return chunks;
+}
+
+/**
+ * Most relevant chunks for a shopper question
+ */
+export async function retrieveKnowledge(
+  shop: string,
+  query: string,
+  topK: number = KNOWLEDGE_BASE.TOP_K
+): Promise<KnowledgeSnippet[]> {
+  const chunks = await loadChunks(shop);
+  if (chunks.length === 0) return [];
+
+  let queryEmbedding: number[] | null = null;
+  const embeddingService = isEmbeddingServiceAvailable() && chunks.some((chunk) => chunk.embedding)
+    ? getEmbeddingService()
+    : null;
+  if (embeddingService) {
+    try {
+      queryEmbedding = await embeddingService.generateEmbedding(query);
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop
+      }, '⚠️ Query embedding failed - using keyword matching');
+    }
+  }
+
+  const scored: KnowledgeSnippet[] = [];
+  for (const chunk of chunks) {
+    let score: number;
+    let threshold: number;
+
+    if (queryEmbedding && chunk.embedding && chunk.embedding.length === queryEmbedding.length) {
+      score = embeddingService!.cosineSimilarity(queryEmbedding, chunk.embedding);
+      threshold = KNOWLEDGE_BASE.MIN_SIMILARITY;
+    } else {
+      score = keywordScore(query, chunk.content);
+      threshold = KNOWLEDGE_BASE.MIN_KEYWORD_SCORE;
+    }
+
+    if (score >= threshold) {
+      scored.push({
+        id: chunk.entryId,
+        type: chunk.type,
+        title: chunk.title,
+        content: chunk.content,
+        score,
+        ...(chunk.url ? { url: chunk.url } : {}),
+      });
+    }
+  }
+
+  const perEntry = new Map<string, number>();
+  const results = scored
+    .sort((a, b) => b.score - a.score)
+    .filter((snippet) => {
+      const count = perEntry.get(snippet.id) ?? 0;
+      perEntry.set(snippet.id, count + 1);
+      return count < MAX_CHUNKS_PER_ENTRY;
+    })
+    .slice(0, topK);
+
+  logger.debug({
+    shop,
+    candidates: chunks.length,
+    matched: results.length,
+    mode: queryEmbedding ? 'semantic' : 'keyword',
+    topScore: results[0]?.score
+  }, 'Retrieved knowledge base chunks');
+
+  return results;
+}
+
+/**
+ * Entries an answer was based on: the ids the workflow reported in
+ * `sourceIds`, or (for workflows that do not report them) the retrieved
+ * entries whose wording clearly appears in the answer
+ */
+export function resolveKnowledgeSources(
+  snippets: KnowledgeSnippet[],
+  answer: { message: string; sourceIds?: string[] }
+): KnowledgeSource[] {
+  const entries = new Map<string, KnowledgeSource>();
+  for (const snippet of snippets) {
+    if (!entries.has(snippet.id)) {
+      entries.set(snippet.id, {
+        id: snippet.id,
+        type: snippet.type,
+        title: snippet.title,
+        ...(snippet.url ? { url: snippet.url } : {}),
+      });
+    }
+  }
+
+  if (answer.sourceIds) {
+    return [...new Set(answer.sourceIds)]
+      .map((id) => entries.get(id))
+      .filter((source): source is KnowledgeSource => !!source);
+  }
+
+  const answerWords = new Set(extractKeywords(answer.message));
+  const used = new Set<string>();
+  for (const snippet of snippets) {
+    // Drop the question/title so a restated question does not count as use
+    const body = snippet.content.substring(snippet.content.indexOf('\n') + 1);
+    const words = extractKeywords(body);
+    const shared = words.filter((word) => answerWords.has(word)).length;
+    if (words.length > 0 && shared >= Math.min(5, Math.ceil(words.length / 2))) {
+      used.add(snippet.id);
+    }
+  }
+
+  return [...used].map((id) => entries.get(id)!);
+}
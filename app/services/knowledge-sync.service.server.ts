@@ -0,0 +1,704 @@
+/**
+ * Knowledge Sync Service
+ *
+ * Imports store content into the knowledge base through the Admin GraphQL
+ * API: published pages, published blog articles, and product or shop
+ * metafields the merchant selected (e.g. "product:custom.care_guide").
+ * HTML is converted to plain text, then chunked and embedded like any
+ * other entry.
+ *
+ * Runs are incremental: each source keeps the latest Shopify updatedAt it
+ * has seen and the next run only fetches newer content. Pages and articles
+ * that were deleted or unpublished are pruned on every run; a full run
+ * ("Sync now", or after the selection changed) re-reads everything.
+ *
+ * The KnowledgeSync row doubles as a lock shared by all app instances, so a
+ * shop never has two runs at once.
+ */
+
+import type { KnowledgeSync } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { KNOWLEDGE_SYNC } from '../config/limits';
+import {
+  deleteSyncedKnowledgeEntries,
+  onKnowledgeChanged,
+  upsertSyncedKnowledgeEntry,
+  type SyncedKnowledgeEntryInput,
+  type SyncedKnowledgeSource,
+} from './knowledge-base.service.server';
+import type { PipelineAdminClient } from './chat-pipeline/types';
+
+const logger = createLogger({ service: 'KnowledgeSync' });
+
+export const KNOWLEDGE_SYNC_SOURCES = ['pages', 'articles', 'metafields'] as const;
+export type KnowledgeSyncSource = typeof KNOWLEDGE_SYNC_SOURCES[number];
+
+export type KnowledgeSyncStatus = 'idle' | 'running' | 'succeeded' | 'failed';
+
+export interface MetafieldSelector {
+  owner: 'product' | 'shop';
+  namespace: string;
+  key: string;
+}
+
+// Sync state shown in the admin
+export interface KnowledgeSyncSummary {
+  sources: KnowledgeSyncSource[];
+  metafields: string[];
+  status: KnowledgeSyncStatus;
+  pageCount: number;
+  articleCount: number;
+  metafieldCount: number;
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface KnowledgeSyncResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+}
+
+interface SyncContext {
+  shop: string;
+  admin: PipelineAdminClient;
+  storefrontUrl: string;
+  full: boolean;
+  result: KnowledgeSyncResult;
+}
+
+const ENTRY_SOURCES: Record<KnowledgeSyncSource, SyncedKnowledgeSource> = {
+  pages: 'shopify_page',
+  articles: 'shopify_article',
+  metafields: 'shopify_metafield',
+};
+
+// Metafield types whose value is readable text
+const TEXT_METAFIELD_TYPES = new Set([
+  'single_line_text_field',
+  'multi_line_text_field',
+  'rich_text_field',
+  'list.single_line_text_field',
+]);
+
+// Products scanned for metafields in one run
+const MAX_PRODUCTS_SCANNED = 2000;
+
+// Ids per request when listing published pages/articles for pruning
+const ID_PAGE_SIZE = 250;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+/**
+ * Plain text of an HTML body: scripts and styles removed, block elements
+ * turned into line breaks and entities decoded
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|iframe|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr|section|article|blockquote|header|footer)>/gi, '\n\n')
+    .replace(/<(td|th)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10);
+        return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Text of a metafield value (empty for types that are not text)
+ */
+export function metafieldToText(type: string, value: string | null | undefined): string {
+  if (!value || !TEXT_METAFIELD_TYPES.has(type)) return '';
+
+  if (type === 'rich_text_field' || type === 'list.single_line_text_field') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return '';
+    }
+
+    if (Array.isArray(parsed)) {
+      return parsed.filter((item) => typeof item === 'string').join('\n').trim();
+    }
+
+    // Rich text is a tree of { type, value?, children? } nodes
+    const visit = (node: any): string => {
+      if (!node || typeof node !== 'object') return '';
+      if (node.type === 'text') return typeof node.value === 'string' ? node.value : '';
+
+      const children = Array.isArray(node.children) ? node.children : [];
+      switch (node.type) {
+        case 'root':
+          return children.map(visit).join('\n\n');
+        case 'list':
+          return children.map(visit).join('\n');
+        case 'list-item':
+          return `- ${children.map(visit).join('')}`;
+        default:
+          return children.map(visit).join('');
+      }
+    };
+    return visit(parsed).replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  return value.trim();
+}
+
+/**
+ * Parse "product:namespace.key" or "shop:namespace.key"
+ */
+export function parseMetafieldSelector(value: string): MetafieldSelector | null {
+  const [, owner, namespace, key] = value.trim().match(/^(product|shop):([\w-]{1,64})\.([\w-]{1,64})$/) || [];
+  if (!owner || !namespace || !key) return null;
+  return { owner: owner as MetafieldSelector['owner'], namespace, key };
+}
+
+/**
+ * "care_guide" -> "Care guide"
+ */
+function humanizeKey(key: string): string {
+  const words = key.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function parseJsonColumn<T>(raw: string, fallback: T): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function getSelectedSources(sync: KnowledgeSync): KnowledgeSyncSource[] {
+  const sources = parseJsonColumn<unknown>(sync.sources, []);
+  return Array.isArray(sources)
+    ? KNOWLEDGE_SYNC_SOURCES.filter((source) => sources.includes(source))
+    : [];
+}
+
+function getSelectedMetafields(sync: KnowledgeSync): string[] {
+  const metafields = parseJsonColumn<unknown>(sync.metafields, []);
+  return Array.isArray(metafields)
+    ? metafields.filter((value): value is string => typeof value === 'string' && !!parseMetafieldSelector(value))
+    : [];
+}
+
+export function toKnowledgeSyncSummary(sync: KnowledgeSync): KnowledgeSyncSummary {
+  return {
+    sources: getSelectedSources(sync),
+    metafields: getSelectedMetafields(sync),
+    status: sync.status as KnowledgeSyncStatus,
+    pageCount: sync.pageCount,
+    articleCount: sync.articleCount,
+    metafieldCount: sync.metafieldCount,
+    error: sync.error,
+    startedAt: sync.startedAt?.toISOString() ?? null,
+    finishedAt: sync.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Sync state of the shop (created with the default sources on first use)
+ */
+export async function getKnowledgeSync(shop: string): Promise<KnowledgeSync> {
+  return db.knowledgeSync.upsert({
+    where: { shop },
+    create: { shop },
+    update: {},
+  });
+}
+
+/**
+ * Change the synced sources and metafields
+ *
+ * Content of sources that were turned off is removed from the knowledge
+ * base; sources whose selection changed are fully re-read on the next run.
+ */
+export async function updateKnowledgeSyncSettings(
+  shop: string,
+  settings: { sources: KnowledgeSyncSource[]; metafields: string[] }
+): Promise<KnowledgeSync> {
+  const current = await getKnowledgeSync(shop);
+  const previousSources = getSelectedSources(current);
+  const previousMetafields = getSelectedMetafields(current);
+
+  const sources = KNOWLEDGE_SYNC_SOURCES.filter((source) => settings.sources.includes(source));
+  const metafields = [...new Set(settings.metafields.map((value) => value.trim()))]
+    .filter((value) => !!parseMetafieldSelector(value))
+    .slice(0, KNOWLEDGE_SYNC.MAX_METAFIELDS);
+
+  const cursors = parseJsonColumn<Record<string, string>>(current.cursors, {});
+  let removed = 0;
+
+  for (const source of KNOWLEDGE_SYNC_SOURCES) {
+    const metafieldsChanged = source === 'metafields' &&
+      (metafields.length !== previousMetafields.length || metafields.some((value) => !previousMetafields.includes(value)));
+
+    if (!sources.includes(source) || metafieldsChanged) {
+      if (previousSources.includes(source)) {
+        removed += await deleteSyncedKnowledgeEntries(shop, ENTRY_SOURCES[source]);
+      }
+      delete cursors[source];
+    }
+  }
+
+  if (removed > 0) {
+    await onKnowledgeChanged(shop, 'knowledge_sync_sources_changed');
+  }
+
+  logger.info({ shop, sources, metafields: metafields.length, removed }, '⚙️ Knowledge sync sources updated');
+
+  return db.knowledgeSync.update({
+    where: { shop },
+    data: {
+      sources: JSON.stringify(sources),
+      metafields: JSON.stringify(metafields),
+      cursors: JSON.stringify(cursors),
+      ...(sources.includes('pages') ? {} : { pageCount: 0 }),
+      ...(sources.includes('articles') ? {} : { articleCount: 0 }),
+      ...(sources.includes('metafields') && metafields.length > 0 ? {} : { metafieldCount: 0 }),
+    }
+  });
+}
+
+/**
+ * Whether the shop's content is due for a sync
+ */
+export function isKnowledgeSyncDue(sync: KnowledgeSync, now = Date.now()): boolean {
+  if (getSelectedSources(sync).length === 0) return false;
+  if (sync.status === 'running') {
+    // A run that died (e.g. the instance restarted) is taken over once stale
+    return !sync.startedAt || now - sync.startedAt.getTime() >= KNOWLEDGE_SYNC.STALE_RUN_MINUTES * 60 * 1000;
+  }
+  if (!sync.finishedAt) return true;
+  return now - sync.finishedAt.getTime() >= KNOWLEDGE_SYNC.INTERVAL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Run an Admin GraphQL query
+ *
+ * @throws When the response has GraphQL errors (e.g. the read_content scope is missing)
+ */
+async function queryShopify(
+  admin: PipelineAdminClient,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<any> {
+  const response = await admin.graphql(query, { variables });
+  const body = (await response.json()) as any;
+  if (body?.errors?.length) {
+    throw new Error(`Shopify GraphQL error: ${body.errors[0]?.message || 'unknown error'}`);
+  }
+  return body?.data;
+}
+
+/**
+ * Nodes of a paginated connection, up to `maxNodes`
+ */
+async function fetchAllNodes(
+  admin: PipelineAdminClient,
+  query: string,
+  connection: string,
+  variables: Record<string, unknown>,
+  maxNodes: number
+): Promise<any[]> {
+  const nodes: any[] = [];
+  let after: string | null = null;
+
+  do {
+    const data = await queryShopify(admin, query, { ...variables, after });
+    const page = data?.[connection];
+    nodes.push(...(page?.nodes || []));
+    after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after && nodes.length < maxNodes);
+
+  return nodes.slice(0, maxNodes);
+}
+
+/**
+ * Search filter for content updated since the cursor
+ */
+function buildSearchQuery(base: string, cursor: string | undefined, full: boolean): string {
+  return !full && cursor ? `${base} AND updated_at:>='${cursor}'` : base;
+}
+
+function latestUpdatedAt(nodes: Array<{ updatedAt?: string }>, previous: string | undefined): string | undefined {
+  return nodes.reduce<string | undefined>(
+    (latest, node) => (node.updatedAt && (!latest || node.updatedAt > latest) ? node.updatedAt : latest),
+    previous
+  );
+}
+
+/**
+ * Upsert one synced item, creating it only while the source is under its limit
+ */
+async function syncItem(
+  ctx: SyncContext,
+  state: { count: number },
+  input: SyncedKnowledgeEntryInput
+): Promise<void> {
+  if (!input.content.trim()) {
+    const deleted = await db.knowledgeEntry.deleteMany({ where: { shop: ctx.shop, externalId: input.externalId } });
+    ctx.result.deleted += deleted.count;
+    return;
+  }
+
+  const outcome = await upsertSyncedKnowledgeEntry(ctx.shop, input, {
+    allowCreate: state.count < KNOWLEDGE_SYNC.MAX_ITEMS_PER_SOURCE,
+  });
+  if (outcome === 'created') {
+    ctx.result.created++;
+    state.count++;
+  } else if (outcome === 'updated') {
+    ctx.result.updated++;
+  } else if (outcome === 'skipped') {
+    ctx.result.skipped++;
+  }
+}
+
+/**
+ * Pages or articles: upsert published content updated since the cursor and
+ * prune entries that are no longer published
+ */
+async function syncPublishedContent(
+  ctx: SyncContext,
+  source: 'pages' | 'articles',
+  cursor: string | undefined
+): Promise<string | undefined> {
+  const operation = source === 'pages' ? 'Pages' : 'Articles';
+  const fields = source === 'pages'
+    ? 'id title handle body updatedAt'
+    : 'id title handle body summary updatedAt blog { handle }';
+
+  const nodes = await fetchAllNodes(ctx.admin, `
+    #graphql
+    query knowledgeSync${operation}($first: Int!, $after: String, $query: String) {
+      ${source}(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+        nodes { ${fields} }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  `, source, {
+    first: KNOWLEDGE_SYNC.PAGE_SIZE,
+    query: buildSearchQuery('published_status:published', cursor, ctx.full),
+  }, KNOWLEDGE_SYNC.MAX_ITEMS_PER_SOURCE);
+
+  const entrySource = ENTRY_SOURCES[source];
+  const state = { count: await db.knowledgeEntry.count({ where: { shop: ctx.shop, source: entrySource } }) };
+
+  for (const node of nodes) {
+    const path = source === 'pages'
+      ? `/pages/${node.handle}`
+      : `/blogs/${node.blog?.handle}/${node.handle}`;
+    const body = htmlToText(node.body || '');
+
+    await syncItem(ctx, state, {
+      source: entrySource,
+      externalId: node.id,
+      title: node.title || humanizeKey(node.handle || ''),
+      content: body || htmlToText(node.summary || ''),
+      url: `${ctx.storefrontUrl}${path}`,
+      externalUpdatedAt: new Date(node.updatedAt),
+    });
+  }
+
+  // Every run: drop deleted and unpublished content
+  const published = await fetchAllNodes(ctx.admin, `
+    #graphql
+    query knowledgeSync${operation}Ids($first: Int!, $after: String, $query: String) {
+      ${source}(first: $first, after: $after, query: $query) {
+        nodes { id }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  `, source, { first: ID_PAGE_SIZE, query: 'published_status:published' }, Number.MAX_SAFE_INTEGER);
+  ctx.result.deleted += await deleteSyncedKnowledgeEntries(ctx.shop, entrySource, published.map((node) => node.id));
+
+  return latestUpdatedAt(nodes, cursor);
+}
+
+/**
+ * Selected product and shop metafields
+ */
+async function syncMetafields(
+  ctx: SyncContext,
+  selectors: MetafieldSelector[],
+  cursor: string | undefined
+): Promise<string | undefined> {
+  const state = { count: await db.knowledgeEntry.count({ where: { shop: ctx.shop, source: 'shopify_metafield' } }) };
+  const seen: string[] = [];
+
+  const shopKeys = selectors.filter((s) => s.owner === 'shop').map((s) => `${s.namespace}.${s.key}`);
+  if (shopKeys.length > 0) {
+    const data = await queryShopify(ctx.admin, `
+      #graphql
+      query knowledgeSyncShopMetafields($keys: [String!]) {
+        shop {
+          id
+          metafields(first: ${KNOWLEDGE_SYNC.MAX_METAFIELDS}, keys: $keys) {
+            nodes { namespace key type value updatedAt }
+          }
+        }
+      }
+    `, { keys: shopKeys });
+
+    for (const selector of selectors.filter((s) => s.owner === 'shop')) {
+      const metafield = (data?.shop?.metafields?.nodes || []).find(
+        (node: any) => node.namespace === selector.namespace && node.key === selector.key
+      );
+      const externalId = `${data?.shop?.id}#${selector.namespace}.${selector.key}`;
+      seen.push(externalId);
+
+      await syncItem(ctx, state, {
+        source: 'shopify_metafield',
+        externalId,
+        title: humanizeKey(selector.key),
+        content: metafield ? metafieldToText(metafield.type, metafield.value) : '',
+        url: ctx.storefrontUrl,
+        externalUpdatedAt: metafield?.updatedAt ? new Date(metafield.updatedAt) : new Date(),
+      });
+    }
+  }
+
+  const productSelectors = selectors.filter((s) => s.owner === 'product');
+  let latest = cursor;
+  if (productSelectors.length > 0) {
+    const products = await fetchAllNodes(ctx.admin, `
+      #graphql
+      query knowledgeSyncProductMetafields($first: Int!, $after: String, $query: String, $keys: [String!]) {
+        products(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+          nodes {
+            id
+            title
+            handle
+            updatedAt
+            metafields(first: ${KNOWLEDGE_SYNC.MAX_METAFIELDS}, keys: $keys) {
+              nodes { namespace key type value }
+            }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `, 'products', {
+      first: KNOWLEDGE_SYNC.PAGE_SIZE,
+      query: buildSearchQuery('status:active', cursor, ctx.full),
+      keys: productSelectors.map((s) => `${s.namespace}.${s.key}`),
+    }, MAX_PRODUCTS_SCANNED);
+
+    for (const product of products) {
+      for (const selector of productSelectors) {
+        const metafield = (product.metafields?.nodes || []).find(
+          (node: any) => node.namespace === selector.namespace && node.key === selector.key
+        );
+        const externalId = `${product.id}#${selector.namespace}.${selector.key}`;
+        seen.push(externalId);
+
+        await syncItem(ctx, state, {
+          source: 'shopify_metafield',
+          externalId,
+          title: `${product.title} — ${humanizeKey(selector.key)}`,
+          content: metafield ? metafieldToText(metafield.type, metafield.value) : '',
+          url: `${ctx.storefrontUrl}/products/${product.handle}`,
+          externalUpdatedAt: new Date(product.updatedAt),
+        });
+      }
+    }
+    latest = latestUpdatedAt(products, cursor);
+  }
+
+  // A full run saw every active product: drop metafields of the others
+  if (ctx.full) {
+    ctx.result.deleted += await deleteSyncedKnowledgeEntries(ctx.shop, 'shopify_metafield', seen);
+  }
+
+  return latest;
+}
+
+/**
+ * Whether product metafields of the shop are synced (products webhooks re-sync them)
+ */
+export async function isProductMetafieldSyncEnabled(shop: string): Promise<boolean> {
+  const sync = await db.knowledgeSync.findUnique({ where: { shop } });
+  return !!sync &&
+    getSelectedSources(sync).includes('metafields') &&
+    getSelectedMetafields(sync).some((value) => parseMetafieldSelector(value)?.owner === 'product');
+}
+
+/**
+ * Delete the metafield entries of a deleted product
+ */
+export async function deleteProductKnowledge(shop: string, productGid: string): Promise<number> {
+  const result = await db.knowledgeEntry.deleteMany({
+    where: { shop, source: 'shopify_metafield', externalId: { startsWith: `${productGid}#` } }
+  });
+  if (result.count > 0) {
+    await onKnowledgeChanged(shop, 'knowledge_product_deleted');
+  }
+  return result.count;
+}
+
+/**
+ * Sync the shop's selected content now
+ *
+ * Returns null when another run holds the lock. Failures are stored on the
+ * sync row (shown in the admin) and rethrown.
+ */
+export async function syncKnowledge(
+  shop: string,
+  admin: PipelineAdminClient,
+  options: { full?: boolean; sources?: KnowledgeSyncSource[] } = {}
+): Promise<KnowledgeSyncResult | null> {
+  await getKnowledgeSync(shop);
+
+  const staleBefore = new Date(Date.now() - KNOWLEDGE_SYNC.STALE_RUN_MINUTES * 60 * 1000);
+  const claimed = await db.knowledgeSync.updateMany({
+    where: { shop, OR: [{ status: { not: 'running' } }, { startedAt: { lt: staleBefore } }] },
+    data: { status: 'running', startedAt: new Date(), error: null }
+  });
+  if (claimed.count === 0) {
+    logger.debug({ shop }, 'Knowledge sync already running');
+    return null;
+  }
+
+  const sync = await getKnowledgeSync(shop);
+  const selected = getSelectedSources(sync).filter((source) => !options.sources || options.sources.includes(source));
+  const selectors = getSelectedMetafields(sync)
+    .map(parseMetafieldSelector)
+    .filter((selector): selector is MetafieldSelector => !!selector);
+  const cursors = parseJsonColumn<Record<string, string | undefined>>(sync.cursors, {});
+  const result: KnowledgeSyncResult = { created: 0, updated: 0, deleted: 0, skipped: 0 };
+  const startedAt = Date.now();
+
+  logger.info({ shop, sources: selected, full: !!options.full }, '🔄 Knowledge sync started');
+
+  try {
+    const data = await queryShopify(admin, `
+      #graphql
+      query knowledgeSyncShop {
+        shop { primaryDomain { url } }
+      }
+    `);
+    const ctx: SyncContext = {
+      shop,
+      admin,
+      storefrontUrl: (data?.shop?.primaryDomain?.url || `https://${shop}`).replace(/\/$/, ''),
+      full: !!options.full,
+      result,
+    };
+
+    for (const source of selected) {
+      if (source === 'metafields') {
+        if (selectors.length > 0) {
+          cursors.metafields = await syncMetafields(ctx, selectors, cursors.metafields);
+        }
+      } else {
+        cursors[source] = await syncPublishedContent(ctx, source, cursors[source]);
+      }
+    }
+
+    const counts = await db.knowledgeEntry.groupBy({
+      by: ['source'],
+      where: { shop, source: { in: Object.values(ENTRY_SOURCES) } },
+      _count: { _all: true }
+    });
+    const countOf = (source: SyncedKnowledgeSource) =>
+      counts.find((row) => row.source === source)?._count._all ?? 0;
+
+    await db.knowledgeSync.update({
+      where: { shop },
+      data: {
+        status: 'succeeded',
+        finishedAt: new Date(),
+        cursors: JSON.stringify(cursors),
+        pageCount: countOf('shopify_page'),
+        articleCount: countOf('shopify_article'),
+        metafieldCount: countOf('shopify_metafield'),
+        error: result.skipped > 0
+          ? `${result.skipped} items were not imported (limit of ${KNOWLEDGE_SYNC.MAX_ITEMS_PER_SOURCE} per source)`
+          : null,
+      }
+    });
+
+    if (result.created + result.updated + result.deleted > 0) {
+      await onKnowledgeChanged(shop, 'knowledge_synced');
+    }
+
+    logger.info({ shop, ...result, durationMs: Date.now() - startedAt }, '✅ Knowledge sync finished');
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ shop, error: message }, '❌ Knowledge sync failed');
+
+    await db.knowledgeSync.update({
+      where: { shop },
+      data: { status: 'failed', finishedAt: new Date(), error: message.substring(0, 500) }
+    });
+
+    // Entries synced before the failure are already saved
+    if (result.created + result.updated + result.deleted > 0) {
+      await onKnowledgeChanged(shop, 'knowledge_synced');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start a sync in the background when it is due (or when `force` is set)
+ *
+ * Used by admin pages and webhooks, which should not wait for the run.
+ */
+export async function startKnowledgeSync(
+  shop: string,
+  admin: PipelineAdminClient,
+  options: { force?: boolean; full?: boolean; sources?: KnowledgeSyncSource[]; reason: string }
+): Promise<boolean> {
+  try {
+    const sync = await getKnowledgeSync(shop);
+    if (!options.force && !isKnowledgeSyncDue(sync)) {
+      return false;
+    }
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Failed to check knowledge sync state (non-blocking)');
+    return false;
+  }
+
+  logger.debug({ shop, reason: options.reason }, 'Starting knowledge sync');
+  void syncKnowledge(shop, admin, { full: options.full, sources: options.sources }).catch(() => {
+    // Already logged and stored on the sync row
+  });
+  return true;
+}
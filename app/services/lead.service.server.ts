@@ -0,0 +1,259 @@
+/**
+ * Lead Service
+ *
+ * Emails shoppers leave in the widget's lead form (see lib/lead-capture.server).
+ * Each lead is stored once per shop and email, linked to the shopper's
+ * UserProfile and chat session, then synced to a Shopify customer:
+ * - no customer with that email: one is created, tagged as a chat lead
+ * - consent given: email marketing is set to SUBSCRIBED (single opt-in)
+ * - no consent: an existing customer's marketing state is left untouched
+ *
+ * Consent is never withdrawn from here; unsubscribing happens in Shopify.
+ */
+
+import type { Lead } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { LEAD_CAPTURE } from '../config/limits';
+import {
+  parseLeadCaptureConfig,
+  serializeLeadCaptureConfig,
+  type LeadCaptureConfig,
+} from '../lib/lead-capture.server';
+import type { LeadCaptureInput } from '../lib/validation.server';
+import { unauthenticated } from '../shopify.server';
+import { queryAdmin } from './chat-pipeline/products.server';
+import type { PipelineAdminClient } from './chat-pipeline/types';
+
+const logger = createLogger({ service: 'LeadService' });
+
+const CUSTOMER_BY_EMAIL_QUERY = `
+  #graphql
+  query leadCustomer($query: String!) {
+    customers(first: 1, query: $query) {
+      nodes {
+        id
+        emailMarketingConsent {
+          marketingState
+        }
+      }
+    }
+  }
+`;
+
+const CUSTOMER_CREATE_MUTATION = `
+  #graphql
+  mutation leadCustomerCreate($input: CustomerInput!) {
+    customerCreate(input: $input) {
+      customer {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const CUSTOMER_CONSENT_MUTATION = `
+  #graphql
+  mutation leadCustomerConsent($input: CustomerEmailMarketingConsentUpdateInput!) {
+    customerEmailMarketingConsentUpdate(input: $input) {
+      customer {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+interface UserError {
+  field?: string[] | null;
+  message: string;
+}
+
+function assertNoUserErrors(userErrors: UserError[] | undefined, operation: string): void {
+  if (userErrors && userErrors.length > 0) {
+    throw new Error(`${operation} failed: ${userErrors.map((error) => error.message).join('; ')}`);
+  }
+}
+
+function emailMarketingConsent(consentedAt: Date) {
+  return {
+    marketingState: 'SUBSCRIBED',
+    marketingOptInLevel: 'SINGLE_OPT_IN',
+    consentUpdatedAt: consentedAt.toISOString(),
+  };
+}
+
+/**
+ * Create or update the Shopify customer for a lead
+ *
+ * @returns the customer gid
+ */
+async function upsertShopifyCustomer(lead: Lead): Promise<string> {
+  const { admin } = await unauthenticated.admin(lead.shop);
+  const client = admin as unknown as PipelineAdminClient;
+  const consentedAt = lead.consentedAt ?? new Date();
+
+  const found = await queryAdmin(client, CUSTOMER_BY_EMAIL_QUERY, {
+    query: `email:"${lead.email.replace(/"/g, '')}"`
+  });
+  const existing = found?.customers?.nodes?.[0];
+
+  if (!existing) {
+    const created = await queryAdmin(client, CUSTOMER_CREATE_MUTATION, {
+      input: {
+        email: lead.email,
+        ...(lead.firstName ? { firstName: lead.firstName } : {}),
+        tags: [LEAD_CAPTURE.CUSTOMER_TAG],
+        ...(lead.marketingConsent ? { emailMarketingConsent: emailMarketingConsent(consentedAt) } : {}),
+      }
+    });
+    assertNoUserErrors(created?.customerCreate?.userErrors, 'customerCreate');
+    const customerId = created?.customerCreate?.customer?.id;
+    if (!customerId) {
+      throw new Error('customerCreate returned no customer');
+    }
+    return customerId;
+  }
+
+  if (lead.marketingConsent && existing.emailMarketingConsent?.marketingState !== 'SUBSCRIBED') {
+    const updated = await queryAdmin(client, CUSTOMER_CONSENT_MUTATION, {
+      input: {
+        customerId: existing.id,
+        emailMarketingConsent: emailMarketingConsent(consentedAt),
+      }
+    });
+    assertNoUserErrors(updated?.customerEmailMarketingConsentUpdate?.userErrors, 'customerEmailMarketingConsentUpdate');
+  }
+
+  return existing.id;
+}
+
+/**
+ * Sync a lead to Shopify, recording the outcome on the lead
+ *
+ * Failures are kept on the lead (syncStatus "failed") so the merchant can retry.
+ */
+export async function syncLeadToShopify(lead: Lead): Promise<Lead> {
+  try {
+    const shopifyCustomerId = await upsertShopifyCustomer(lead);
+
+    // Link the shopper's profile to the customer when it was anonymous
+    const numericId = shopifyCustomerId.split('/').pop();
+    if (numericId) {
+      await db.userProfile.updateMany({
+        where: { id: lead.userProfileId, shop: lead.shop, customerId: null },
+        data: { customerId: numericId }
+      });
+    }
+
+    logger.info({ shop: lead.shop, leadId: lead.id, marketingConsent: lead.marketingConsent }, '👤 Lead synced to Shopify customer');
+    return db.lead.update({
+      where: { id: lead.id },
+      data: { shopifyCustomerId, syncStatus: 'synced', syncError: null, syncedAt: new Date() }
+    });
+  } catch (error) {
+    const syncError = error instanceof Error ? error.message : String(error);
+    logger.warn({ error: syncError, shop: lead.shop, leadId: lead.id }, '⚠️ Lead sync to Shopify failed');
+    return db.lead.update({
+      where: { id: lead.id },
+      data: { syncStatus: 'failed', syncError }
+    });
+  }
+}
+
+/**
+ * Store an email left in the widget and sync it to Shopify
+ *
+ * A repeat submission for the same email updates the lead; consent given once
+ * is kept.
+ *
+ * @returns null when the session does not belong to the shop
+ */
+export async function captureLead(input: LeadCaptureInput): Promise<Lead | null> {
+  const session = await db.chatSession.findFirst({
+    where: { id: input.chatSessionId, shop: input.shop },
+    select: { id: true, userProfileId: true }
+  });
+  if (!session) {
+    return null;
+  }
+
+  const email = input.email.toLowerCase();
+  const consent = input.marketingConsent
+    ? { marketingConsent: true, consentText: input.consentText || null, consentedAt: new Date() }
+    : {};
+
+  const lead = await db.lead.upsert({
+    where: { shop_email: { shop: input.shop, email } },
+    create: {
+      shop: input.shop,
+      email,
+      firstName: input.firstName || null,
+      userProfileId: session.userProfileId,
+      chatSessionId: session.id,
+      trigger: input.trigger,
+      ...consent
+    },
+    update: {
+      ...(input.firstName ? { firstName: input.firstName } : {}),
+      userProfileId: session.userProfileId,
+      chatSessionId: session.id,
+      syncStatus: 'pending',
+      ...consent
+    }
+  });
+
+  logger.info({ shop: input.shop, chatSessionId: session.id, trigger: input.trigger, marketingConsent: input.marketingConsent }, '📇 Lead captured');
+  return syncLeadToShopify(lead);
+}
+
+/**
+ * Whether the shopper behind a profile already left their email
+ */
+export async function hasLead(shop: string, userProfileId: string): Promise<boolean> {
+  const count = await db.lead.count({ where: { shop, userProfileId } });
+  return count > 0;
+}
+
+/**
+ * Retry the Shopify sync of one of the shop's leads
+ *
+ * @returns null when the lead does not belong to the shop
+ */
+export async function retryLeadSync(shop: string, leadId: string): Promise<Lead | null> {
+  const lead = await db.lead.findFirst({ where: { id: leadId, shop } });
+  return lead ? syncLeadToShopify(lead) : null;
+}
+
+export async function listLeads(shop: string): Promise<Lead[]> {
+  return db.lead.findMany({
+    where: { shop },
+    orderBy: { createdAt: 'desc' },
+    take: LEAD_CAPTURE.PAGE_SIZE
+  });
+}
+
+export async function getLeadCaptureConfig(shop: string): Promise<LeadCaptureConfig> {
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop },
+    select: { leadCapture: true }
+  });
+  return parseLeadCaptureConfig(settings?.leadCapture);
+}
+
+export async function saveLeadCaptureConfig(shop: string, config: LeadCaptureConfig): Promise<void> {
+  const leadCapture = serializeLeadCaptureConfig(config);
+  await db.widgetSettings.upsert({
+    where: { shop },
+    update: { leadCapture },
+    create: { shop, leadCapture }
+  });
+  logger.info({ shop, enabled: config.enabled, afterProductMessages: config.afterProductMessages }, '📇 Lead capture settings saved');
+}
@@ -0,0 +1,260 @@
+import axios from 'axios';
+import { TIMEOUTS } from '../../config/limits';
+import type {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMToolCall,
+} from './types';
+
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicTurn {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Map a provider-neutral message to an Anthropic turn.
+ * Tool results are sent back as user turns with tool_result blocks. Requests
+ * without tools cannot contain tool blocks, so earlier calls become text.
+ */
+function toAnthropicTurn(message: LLMMessage, toolsOffered: boolean): AnthropicTurn {
+  if (message.role === 'tool' && !toolsOffered) {
+    return { role: 'user', content: `Tool result: ${message.content}` };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length && !toolsOffered) {
+    const calls = message.toolCalls.map((call) => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ');
+    return { role: 'assistant', content: [message.content, `Called tools: ${calls}`].filter(Boolean).join('\n\n') };
+  }
+
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content }],
+    };
+  }
+
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...message.toolCalls.map((call) => ({
+          type: 'tool_use' as const,
+          id: call.id,
+          name: call.name,
+          input: call.arguments,
+        })),
+      ],
+    };
+  }
+
+  return { role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content };
+}
+
+function toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+function parseToolInput(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Anthropic-compatible Messages API provider
+ *
+ * System messages are sent in the top-level `system` field; the remaining
+ * turns must alternate user/assistant, so consecutive turns are merged.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  readonly model: string;
+  readonly supportsTools = true;
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: { apiKey: string; model?: string; baseUrl?: string; timeoutMs?: number }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model || 'claude-3-5-haiku-latest';
+    this.baseUrl = (options.baseUrl || DEFAULT_ANTHROPIC_BASE_URL).replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? TIMEOUTS.LLM_REQUEST_MS;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const toolsOffered = !!options.tools?.length;
+    const turns: AnthropicTurn[] = [];
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+      const turn = toAnthropicTurn(message, toolsOffered);
+      const last = turns[turns.length - 1];
+      if (last && last.role === turn.role) {
+        last.content = typeof last.content === 'string' && typeof turn.content === 'string'
+          ? `${last.content}\n\n${turn.content}`
+          : [...toBlocks(last.content), ...toBlocks(turn.content)];
+      } else {
+        turns.push(turn);
+      }
+    }
+
+    // The Messages API requires the conversation to start with a user turn
+    if (turns[0]?.role === 'assistant') {
+      turns.shift();
+    }
+
+    const body = {
+      model: this.model,
+      system: system || undefined,
+      messages: turns,
+      max_tokens: options.maxTokens ?? 800,
+      temperature: options.temperature ?? 0.4,
+      tools: options.tools?.length
+        ? options.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          }))
+        : undefined,
+    };
+
+    if (options.onText) {
+      return this.completeStreaming(body, options.onText);
+    }
+
+    const response = await axios.post(`${this.baseUrl}/v1/messages`, body, {
+      headers: this.headers(),
+      timeout: this.timeoutMs,
+    });
+
+    const blocks: any[] = response.data?.content || [];
+    const text = blocks
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+    const toolCalls: LLMToolCall[] = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+    return {
+      text,
+      model: response.data?.model || this.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: {
+        promptTokens: response.data?.usage?.input_tokens,
+        completionTokens: response.data?.usage?.output_tokens,
+        totalTokens: (response.data?.usage?.input_tokens || 0) + (response.data?.usage?.output_tokens || 0),
+      },
+    };
+  }
+
+  /**
+   * Streamed Messages request: text deltas are forwarded as they arrive and
+   * tool_use inputs are assembled from their JSON fragments
+   */
+  private async completeStreaming(body: Record<string, unknown>, onText: (delta: string) => void): Promise<LLMCompletion> {
+    const response = await axios.post(`${this.baseUrl}/v1/messages`, { ...body, stream: true }, {
+      headers: this.headers(),
+      timeout: this.timeoutMs,
+      responseType: 'stream',
+    });
+
+    let text = '';
+    let model = this.model;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // tool_use blocks by content block index
+    const toolBlocks = new Map<number, { id: string; name: string; input: string }>();
+
+    const handleEvent = (event: any) => {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            text += event.delta.text;
+            onText(event.delta.text);
+          } else if (event.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index);
+            if (block) block.input += event.delta.partial_json || '';
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          throw new Error(event.error?.message || 'Anthropic stream error');
+      }
+    };
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of response.data as AsyncIterable<Uint8Array | string>) {
+      buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const data = buffer
+          .slice(0, boundary)
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('');
+        buffer = buffer.slice(boundary + 2);
+        if (data) handleEvent(JSON.parse(data));
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(toolBlocks.values(), (block) => ({
+      id: block.id,
+      name: block.name,
+      arguments: parseToolInput(block.input),
+    }));
+
+    return {
+      text,
+      model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+}
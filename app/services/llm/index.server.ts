@@ -0,0 +1,277 @@
+/**
+ * LLM Provider Layer
+ *
+ * Lets the chat pipeline generate answers in-process instead of through an
+ * N8N workflow.
+ *
+ * Configuration (environment):
+ * - LLM_PROVIDER   openai | anthropic | local (unset = N8N only)
+ * - LLM_MODEL      model name for the configured provider
+ * - LLM_BASE_URL   custom endpoint (OpenAI-compatible proxy, Ollama, ...)
+ * - LLM_API_KEY    key for the provider (falls back to OPENAI_API_KEY / ANTHROPIC_API_KEY)
+ * - LLM_LOCAL_TOOLS  true to offer assistant tools to local models
+ *
+ * BYOK shops always use their own OpenAI key through the OpenAI adapter.
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import type { N8NRequest, N8NWebhookResponse, SuggestedAction } from '../n8n.service.server';
+import { AnthropicProvider } from './anthropic.provider.server';
+import { LocalLLMProvider } from './local.provider.server';
+import { OpenAICompatibleProvider } from './openai.provider.server';
+import { buildMessages, createMessageStreamParser, parseLLMReply } from './prompt.server';
+import type {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+  LLMTool,
+  LLMToolCall,
+  LLMToolCallRecord,
+  LLMToolOutput,
+} from './types';
+
+export type * from './types';
+
+const logger = createLogger({ service: 'LLMProvider' });
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local'];
+
+// Tool-use rounds before the model must answer
+const MAX_TOOL_ROUNDS = 4;
+// Keep tool results from crowding out the conversation
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
+
+/**
+ * Create a provider from explicit configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      if (!config.apiKey) throw new Error('Anthropic provider requires an API key');
+      return new AnthropicProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+      });
+    case 'local':
+      return new LocalLLMProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+      });
+    case 'openai':
+    default:
+      if (!config.apiKey) throw new Error('OpenAI provider requires an API key');
+      return new OpenAICompatibleProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+      });
+  }
+}
+
+/**
+ * Read the platform provider configuration from the environment
+ */
+export function getLLMConfigFromEnv(): LLMProviderConfig | null {
+  const provider = process.env.LLM_PROVIDER?.toLowerCase() as LLMProviderName | undefined;
+  if (!provider || !PROVIDER_NAMES.includes(provider)) {
+    return null;
+  }
+
+  const fallbackKey = provider === 'anthropic'
+    ? process.env.ANTHROPIC_API_KEY
+    : provider === 'openai'
+      ? process.env.OPENAI_API_KEY
+      : undefined;
+
+  return {
+    provider,
+    apiKey: process.env.LLM_API_KEY || fallbackKey,
+    model: process.env.LLM_MODEL,
+    baseUrl: process.env.LLM_BASE_URL,
+  };
+}
+
+/**
+ * Resolve the provider for a chat request
+ *
+ * @param options.byokKey - Decrypted BYOK OpenAI key (takes precedence)
+ * @returns Provider, or null when no in-process model is configured
+ */
+export function resolveLLMProvider(options: { byokKey?: string } = {}): LLMProvider | null {
+  try {
+    if (options.byokKey) {
+      return createLLMProvider({
+        provider: 'openai',
+        apiKey: options.byokKey,
+        model: process.env.LLM_BYOK_MODEL || 'gpt-4o-mini',
+      });
+    }
+
+    const config = getLLMConfigFromEnv();
+    return config ? createLLMProvider(config) : null;
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error)
+    }, '⚠️ LLM provider misconfigured - disabled');
+    return null;
+  }
+}
+
+/**
+ * Chat responder backed by an in-process LLM
+ *
+ * Accepts the same request and returns the same response shape as
+ * `N8NService.processUserMessage`, so the pipeline can use either.
+ * Unlike N8NService it throws on failure so callers apply their own fallback.
+ *
+ * When tools are given (and the provider supports them) the model may call
+ * them for up to MAX_TOOL_ROUNDS rounds before answering. Products returned
+ * by tools can be recommended, and every call is returned in `toolCalls`.
+ *
+ * With `onText` the completions are streamed and the text of the reply's
+ * `message` field is passed on as the model writes it.
+ */
+export class LLMChatService {
+  private logger = createLogger({ service: 'LLMChatService' });
+  private provider: LLMProvider;
+  private tools: LLMTool[];
+  private onText?: (text: string) => void;
+
+  constructor(provider: LLMProvider, options: { tools?: LLMTool[]; onText?: (text: string) => void } = {}) {
+    this.provider = provider;
+    this.tools = provider.supportsTools ? options.tools || [] : [];
+    this.onText = options.onText;
+  }
+
+  async processUserMessage(request: N8NRequest): Promise<N8NWebhookResponse> {
+    const startTime = Date.now();
+    const useTools = this.tools.length > 0;
+    const messages = buildMessages(request, { tools: useTools });
+    const toolDefinitions = this.tools.map((tool) => tool.definition);
+
+    const toolCalls: LLMToolCallRecord[] = [];
+    const toolProducts = new Map<string, any>();
+    const toolActions: SuggestedAction[] = [];
+    let totalTokens = 0;
+
+    let completion = await this.provider.complete(messages, {
+      json: true,
+      tools: useTools ? toolDefinitions : undefined,
+      onText: this.messageStream(),
+    });
+    totalTokens += completion.usage?.totalTokens || 0;
+
+    for (let round = 1; completion.toolCalls?.length; round++) {
+      messages.push({ role: 'assistant', content: completion.text, toolCalls: completion.toolCalls });
+
+      for (const call of completion.toolCalls) {
+        const { record, output } = await this.runTool(call);
+        toolCalls.push(record);
+        output?.products?.forEach((product) => toolProducts.set(String(product.id), product));
+        toolActions.push(...(output?.suggestedActions || []));
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content: truncate(JSON.stringify(output ? output.result : { error: record.error }), MAX_TOOL_RESULT_CHARS),
+        });
+      }
+
+      // Last round: tools are withdrawn so the model has to answer in text
+      const finalRound = round >= MAX_TOOL_ROUNDS;
+      if (finalRound) {
+        messages.push({ role: 'user', content: 'Tool limit reached. Reply now with the JSON answer using what you found.' });
+      }
+
+      completion = await this.provider.complete(messages, {
+        json: true,
+        tools: finalRound ? undefined : toolDefinitions,
+        onText: this.messageStream(),
+      });
+      totalTokens += completion.usage?.totalTokens || 0;
+
+      if (finalRound) break;
+    }
+
+    if (!completion.text.trim()) {
+      throw new Error(`Empty completion from ${this.provider.name} provider`);
+    }
+
+    // Tool results extend the catalog the reply may recommend from
+    const response = parseLLMReply(completion.text, {
+      ...request,
+      products: [...(request.products || []), ...toolProducts.values()],
+    });
+    const responseTime = Date.now() - startTime;
+
+    this.logger.info({
+      provider: this.provider.name,
+      model: completion.model,
+      shopDomain: request.context?.shopDomain,
+      totalTokens,
+      toolCalls: toolCalls.map((call) => call.name),
+      recommendationCount: response.recommendations?.length || 0,
+      responseTime
+    }, '✅ LLM response generated');
+
+    return {
+      ...response,
+      suggestedActions: toolActions.length > 0 ? toolActions : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      analytics: {
+        intentDetected: request.context?.intent,
+        responseTime,
+        productsShown: response.recommendations?.length || 0,
+      },
+    };
+  }
+
+  /**
+   * Stream handler for one completion (a fresh parser per round)
+   */
+  private messageStream(): ((delta: string) => void) | undefined {
+    return this.onText ? createMessageStreamParser(this.onText) : undefined;
+  }
+
+  /**
+   * Run one tool call; failures are reported back to the model, not thrown
+   */
+  private async runTool(call: LLMToolCall): Promise<{ record: LLMToolCallRecord; output?: LLMToolOutput }> {
+    const startTime = Date.now();
+    const tool = this.tools.find((t) => t.definition.name === call.name);
+
+    if (!tool) {
+      return {
+        record: { name: call.name, arguments: call.arguments, error: 'Unknown tool', durationMs: 0 },
+      };
+    }
+
+    try {
+      const output = await tool.execute(call.arguments);
+      return {
+        output,
+        record: {
+          name: call.name,
+          arguments: call.arguments,
+          result: output.result,
+          productIds: output.products?.map((product) => String(product.id)),
+          durationMs: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ tool: call.name, error: message }, '⚠️ Tool call failed');
+      return {
+        record: { name: call.name, arguments: call.arguments, error: message, durationMs: Date.now() - startTime },
+      };
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { OpenAICompatibleProvider } from './openai.provider.server';
+import type { LLMProviderName } from './types';
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Local model provider (Ollama, LM Studio, vLLM...)
+ *
+ * Talks to a self-hosted OpenAI-compatible endpoint. JSON mode is not
+ * assumed - the prompt contract plus tolerant parsing handles the output.
+ * Streamed replies are not asked for a closing usage chunk either.
+ * Tool calling is opt-in (LLM_LOCAL_TOOLS=true) since many small models
+ * do not support it reliably.
+ */
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  readonly name: LLMProviderName = 'local';
+
+  constructor(options: { model?: string; baseUrl?: string; apiKey?: string; timeoutMs?: number } = {}) {
+    super({
+      // Most local servers ignore the key but the client requires one
+      apiKey: options.apiKey || 'local',
+      model: options.model || 'llama3.1',
+      baseUrl: options.baseUrl || DEFAULT_LOCAL_BASE_URL,
+      timeoutMs: options.timeoutMs,
+    });
+    this.supportsJsonMode = false;
+    this.supportsStreamUsage = false;
+    this.supportsTools = process.env.LLM_LOCAL_TOOLS === 'true';
+  }
+}
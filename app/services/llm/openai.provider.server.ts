@@ -0,0 +1,177 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+import { TIMEOUTS } from '../../config/limits';
+import type {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMToolCall,
+} from './types';
+
+/**
+ * Map provider-neutral messages to the chat completions format
+ */
+function toOpenAIMessages(messages: LLMMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toUsage(usage: CompletionUsage | null | undefined): LLMCompletion['usage'] {
+  return {
+    promptTokens: usage?.prompt_tokens,
+    completionTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens,
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works with api.openai.com (platform keys and BYOK keys) and any endpoint
+ * that implements the `/chat/completions` API.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  readonly model: string;
+  supportsTools = true;
+  protected client: OpenAI;
+  protected supportsJsonMode = true;
+  // Whether streamed responses can end with a usage chunk (stream_options)
+  protected supportsStreamUsage = true;
+
+  constructor(options: { apiKey: string; model?: string; baseUrl?: string; timeoutMs?: number }) {
+    this.model = options.model || 'gpt-4o-mini';
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseUrl,
+      timeout: options.timeoutMs ?? TIMEOUTS.LLM_REQUEST_MS,
+      maxRetries: 1,
+    });
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const tools = options.tools?.length && this.supportsTools ? options.tools : undefined;
+
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature ?? 0.4,
+      max_tokens: options.maxTokens ?? 800,
+      ...(options.json && this.supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(tools
+        ? {
+            tools: tools.map((tool) => ({
+              type: 'function' as const,
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+          }
+        : {}),
+    };
+
+    if (options.onText) {
+      return this.completeStreaming(params, options.onText);
+    }
+
+    const completion = await this.client.chat.completions.create(params);
+
+    const message = completion.choices[0]?.message;
+    const toolCalls: LLMToolCall[] = (message?.tool_calls || [])
+      .filter((call) => call.type === 'function')
+      .map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      }));
+
+    return {
+      text: message?.content || '',
+      model: completion.model || this.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  /**
+   * Streamed completion: text deltas are forwarded as they arrive and tool
+   * call fragments are assembled by index
+   */
+  private async completeStreaming(
+    params: ChatCompletionCreateParamsNonStreaming,
+    onText: (delta: string) => void
+  ): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      ...(this.supportsStreamUsage ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    let text = '';
+    let model = this.model;
+    let usage: CompletionUsage | null | undefined;
+    const calls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      usage = chunk.usage ?? usage;
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        onText(delta.content);
+      }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = calls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+        calls.set(fragment.index, call);
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(calls.values(), (call) => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments),
+    }));
+
+    return {
+      text,
+      model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: toUsage(usage),
+    };
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * LLM Prompt Builder
+ *
+ * Turns an `N8NRequest` (the same payload N8N workflows receive) into chat
+ * messages for an in-process model, and parses the model's JSON reply back
+ * into an `N8NWebhookResponse`.
+ */
+
+import type {
+  EnhancedProductRecommendation,
+  N8NRequest,
+  N8NWebhookResponse,
+} from '../n8n.service.server';
+import type { LLMMessage } from './types';
+
+// Keep prompts small enough for fast, cheap models
+const MAX_PROMPT_PRODUCTS = 25;
+// With tools the model looks products up itself - only seed a few
+const MAX_TOOL_MODE_PRODUCTS = 8;
+const MAX_POLICY_CHARS = 1200;
+const MAX_KNOWLEDGE_CHARS = 1200;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_RECOMMENDATIONS = 6;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
+
+function formatProductLine(product: any): string {
+  const parts = [
+    `id=${product.id}`,
+    `title="${product.title}"`,
+    `price=${product.price}`,
+  ];
+  if (product.compareAtPrice) parts.push(`compareAt=${product.compareAtPrice}`);
+  if (typeof product.inventory === 'number') parts.push(`inventory=${product.inventory}`);
+  if (product.tags?.length) parts.push(`tags=${product.tags.slice(0, 5).join('|')}`);
+  if (product.description) parts.push(`desc="${truncate(String(product.description).replace(/\s+/g, ' '), 160)}"`);
+  return `- ${parts.join(' ')}`;
+}
+
+export interface PromptOptions {
+  // Tools are offered to the model (see LLMChatService)
+  tools?: boolean;
+}
+
+/**
+ * Build the system prompt from the request context
+ */
+export function buildSystemPrompt(request: N8NRequest, options: PromptOptions = {}): string {
+  const context = request.context || {};
+  const sections: string[] = [];
+
+  sections.push(
+    `You are the AI sales assistant for the Shopify store ${context.shopDomain || 'this store'}. ` +
+    `Help shoppers find products and answer questions about the store. Be concise, friendly and accurate.`
+  );
+
+  if (context.languageInstruction) {
+    sections.push(context.languageInstruction);
+  } else if (context.locale) {
+    sections.push(`Respond in the shopper's language (${context.locale}).`);
+  }
+
+  sections.push(
+    'RULES:\n' +
+    (options.tools
+      ? '- Only recommend products returned by your tools or listed in the CATALOG, using their exact ids. Never invent products, prices or policies.\n'
+      : '- Only recommend products from the CATALOG below, using their exact ids. Never invent products, prices or policies.\n') +
+    '- If the catalog does not contain what the shopper wants, say so and suggest alternatives from the catalog.\n' +
+    '- Only state policy details that appear in STORE POLICIES or the KNOWLEDGE BASE.\n' +
+    (context.isFirstMessage === false ? '- This is an ongoing conversation: do not greet the shopper again.\n' : '') +
+    '- Set requiresHumanEscalation to true if the shopper is upset or asks for a person.' +
+    (context.leadCaptureAvailable
+      ? '\n- Set requestLeadCapture to true when the shopper would welcome news or offers by email ' +
+        '(e.g. waiting for a restock or a sale). Do not ask for their email in the message itself.'
+      : '')
+  );
+
+  if (context.supportCategory) {
+    sections.push(`The shopper is asking a support question (${context.supportCategory}). Do not recommend products.`);
+  }
+
+  if (context.noProductsFound) {
+    sections.push('No catalog products matched the shopper\'s request. Explain this politely and offer to help further.');
+  }
+
+  if (context.conversationSummary) {
+    sections.push(`EARLIER IN THIS CONVERSATION (summary):\n${truncate(context.conversationSummary, MAX_POLICY_CHARS)}`);
+  }
+
+  const policies = context.storePolicies || context.shopPolicies;
+  if (policies) {
+    const policyLines: string[] = [];
+    if (policies.shipping) policyLines.push(`Shipping: ${truncate(policies.shipping, MAX_POLICY_CHARS)}`);
+    if (policies.returns) policyLines.push(`Returns: ${truncate(policies.returns, MAX_POLICY_CHARS)}`);
+    if (policies.privacy) policyLines.push(`Privacy: ${truncate(policies.privacy, MAX_POLICY_CHARS)}`);
+    if (policies.termsOfService) policyLines.push(`Terms of service: ${truncate(policies.termsOfService, MAX_POLICY_CHARS)}`);
+    if (policies.contact) policyLines.push(`Contact: ${truncate(policies.contact, MAX_POLICY_CHARS)}`);
+    if (policyLines.length > 0) {
+      sections.push(`STORE POLICIES:\n${policyLines.join('\n')}`);
+    }
+  }
+
+  if (context.knowledgeBase?.length) {
+    const entries = context.knowledgeBase.map((snippet) =>
+      `[${snippet.id}] ${truncate(snippet.content.replace(/\s+/g, ' '), MAX_KNOWLEDGE_CHARS)}`
+    );
+    sections.push(
+      'KNOWLEDGE BASE (written by the store; prefer it over general knowledge, ' +
+      'and list the [id] of every entry you use in sourceIds):\n' + entries.join('\n')
+    );
+  }
+
+  if (options.tools) {
+    sections.push(
+      'TOOLS: Use search_products and get_product to find products, get_policy for store policies, ' +
+      'check_inventory for live stock and build_cart_link when the shopper wants to buy. ' +
+      'Call tools instead of guessing; when you have what you need, reply with the JSON answer.'
+    );
+  }
+
+  if (request.products?.length) {
+    const limit = options.tools ? MAX_TOOL_MODE_PRODUCTS : MAX_PROMPT_PRODUCTS;
+    const lines = request.products.slice(0, limit).map(formatProductLine);
+    sections.push(`CATALOG (${context.currency || 'store currency'}):\n${lines.join('\n')}`);
+  }
+
+  const preferences = context.userPreferences;
+  if (preferences && Object.keys(preferences).length > 0) {
+    sections.push(`SHOPPER PREFERENCES: ${JSON.stringify(preferences)}`);
+  }
+
+  sections.push(
+    'Reply with a single JSON object and nothing else:\n' +
+    '{"message": string, "recommendedProductIds": string[], "quickReplies": string[], ' +
+    '"sourceIds": string[], "requiresHumanEscalation": boolean, ' +
+    (context.leadCaptureAvailable ? '"requestLeadCapture": boolean, ' : '') +
+    '"confidence": number between 0 and 1}'
+  );
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Build the full message list (system prompt, recent history, current message)
+ */
+export function buildMessages(request: N8NRequest, options: PromptOptions = {}): LLMMessage[] {
+  const history = (request.context?.conversationHistory || [])
+    .slice(-MAX_HISTORY_MESSAGES)
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+  return [
+    { role: 'system', content: buildSystemPrompt(request, options) },
+    ...history,
+    { role: 'user', content: request.userMessage },
+  ];
+}
+
+/**
+ * Extract the first JSON object from model output (tolerates code fences / prose)
+ */
+export function extractJsonObject(text: string): Record<string, any> | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Follow a streamed JSON reply and pass on the text of its top-level
+ * `message` field as it arrives (escapes decoded). Everything else, and
+ * output that is not a JSON object, is ignored; the full reply is still
+ * parsed with parseLLMReply once complete.
+ *
+ * @returns function to feed each text delta from the provider
+ */
+export function createMessageStreamParser(onMessageText: (text: string) => void): (delta: string) => void {
+  let state: 'seek' | 'value' | 'message' | 'done' = 'seek';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let unicode: string | null = null;
+  let key = '';
+  // Top-level key that was just closed (reset by anything but whitespace)
+  let lastKey: string | null = null;
+
+  return (delta: string) => {
+    let text = '';
+
+    for (const char of delta) {
+      if (state === 'done') break;
+
+      if (state === 'message') {
+        if (unicode !== null) {
+          unicode += char;
+          if (unicode.length === 4) {
+            text += String.fromCharCode(parseInt(unicode, 16) || 0xfffd);
+            unicode = null;
+          }
+        } else if (escaped) {
+          escaped = false;
+          if (char === 'u') unicode = '';
+          else text += JSON_ESCAPES[char] ?? char;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          state = 'done';
+        } else {
+          text += char;
+        }
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          lastKey = depth === 1 ? key : null;
+        } else {
+          key += char;
+        }
+        continue;
+      }
+
+      if (/\s/.test(char)) continue;
+
+      if (state === 'value') {
+        // A message that is not a string is left to parseLLMReply
+        state = char === '"' ? 'message' : 'done';
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        key = '';
+      } else if (char === ':' && depth === 1 && lastKey === 'message') {
+        state = 'value';
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      }
+      lastKey = null;
+    }
+
+    if (text) onMessageText(text);
+  };
+}
+
+/**
+ * Map a catalog product to a recommendation card
+ */
+export function toRecommendation(product: any, shopDomain?: string): EnhancedProductRecommendation {
+  const price = String(product.price ?? '0.00');
+  const compareAt = product.compareAtPrice ? String(product.compareAtPrice) : undefined;
+  const discountPercent = compareAt && parseFloat(compareAt) > parseFloat(price)
+    ? Math.round((1 - parseFloat(price) / parseFloat(compareAt)) * 100)
+    : undefined;
+
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    price,
+    originalPrice: discountPercent ? compareAt : undefined,
+    discountPercent,
+    url: shopDomain && product.handle ? `https://${shopDomain}/products/${product.handle}` : undefined,
+    image: product.image,
+    description: product.description,
+    isAvailable: typeof product.inventory === 'number' ? product.inventory > 0 : undefined,
+    inventory: typeof product.inventory === 'number' ? product.inventory : undefined,
+  };
+}
+
+/**
+ * Parse the model reply into an N8N-compatible response.
+ * Recommended ids are resolved against the request catalog; unknown ids are dropped.
+ */
+export function parseLLMReply(text: string, request: N8NRequest): N8NWebhookResponse {
+  const parsed = extractJsonObject(text);
+  const shopDomain = request.context?.shopDomain;
+
+  if (!parsed || typeof parsed.message !== 'string' || !parsed.message.trim()) {
+    // Model ignored the JSON contract - use its text as the answer
+    return {
+      message: text.trim(),
+      messageType: 'general',
+      recommendations: [],
+      confidence: 0.6,
+    };
+  }
+
+  const catalog = new Map((request.products || []).map((p: any) => [String(p.id), p]));
+  const ids: string[] = Array.isArray(parsed.recommendedProductIds)
+    ? parsed.recommendedProductIds.map(String)
+    : [];
+  const recommendations = ids
+    .map((id) => catalog.get(id))
+    .filter(Boolean)
+    .slice(0, MAX_RECOMMENDATIONS)
+    .map((product) => toRecommendation(product, shopDomain));
+
+  const quickReplies: string[] = Array.isArray(parsed.quickReplies)
+    ? parsed.quickReplies.filter((r: unknown) => typeof r === 'string').slice(0, 4)
+    : [];
+
+  // Only ids of knowledge base entries that were actually provided
+  const knowledgeIds = new Set((request.context?.knowledgeBase || []).map((snippet) => snippet.id));
+  const sourceIds: string[] | undefined = Array.isArray(parsed.sourceIds)
+    ? parsed.sourceIds.map(String).filter((id: string) => knowledgeIds.has(id))
+    : undefined;
+
+  const confidence = typeof parsed.confidence === 'number'
+    ? Math.min(Math.max(parsed.confidence, 0), 1)
+    : 0.75;
+
+  return {
+    message: parsed.message.trim(),
+    messageType: recommendations.length > 0 ? 'product_recommendation' : 'general',
+    recommendations,
+    quickReplies,
+    confidence,
+    requiresHumanEscalation: parsed.requiresHumanEscalation === true,
+    requestLeadCapture: parsed.requestLeadCapture === true,
+    ...(sourceIds ? { sourceIds } : {}),
+    success: true,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * LLM Provider Types
+ *
+ * In-process model providers used when a shop has no N8N workflow
+ * (or a BYOK key that can be used directly).
+ */
+
+import type { SuggestedAction } from '../n8n.service.server';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Assistant turn that requested tool calls
+  toolCalls?: LLMToolCall[];
+  // Tool turn: the call this message answers
+  toolCallId?: string;
+}
+
+/**
+ * Tool exposed to the model (parameters are a JSON Schema object)
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Tool implementation the chat service can run on the model's behalf
+ */
+export interface LLMTool {
+  definition: LLMToolDefinition;
+  execute(args: Record<string, unknown>): Promise<LLMToolOutput>;
+}
+
+export interface LLMToolOutput {
+  // JSON-serializable result returned to the model
+  result: unknown;
+  // Catalog products surfaced by the tool (the model may recommend them by id)
+  products?: any[];
+  // Buttons to show with the final answer (e.g. a cart link)
+  suggestedActions?: SuggestedAction[];
+}
+
+/**
+ * Audit record of one tool call, stored in ChatMessage.metadata
+ */
+export interface LLMToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  productIds?: string[];
+  error?: string;
+  durationMs: number;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider to return a single JSON object (when supported)
+  json?: boolean;
+  // Tools the model may call instead of answering directly
+  tools?: LLMToolDefinition[];
+  // Streams the request: called with each piece of text as the model writes it
+  onText?: (delta: string) => void;
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  // Set when the model asked for tool calls instead of a final answer
+  toolCalls?: LLMToolCall[];
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  // Whether the model can be offered tools (native function calling)
+  readonly supportsTools: boolean;
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
@@ -0,0 +1,46 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createLogger } from '../../lib/logger.server';
+import type { MailDelivery, MailMessage, MailTransport, MailTransportName } from './types';
+
+const logger = createLogger({ service: 'MailTransport' });
+
+function fileSafe(value: string): string {
+  return value.replace(/[^a-z0-9._-]+/gi, '_').slice(0, 60);
+}
+
+/**
+ * Development stand-in: writes each email to disk as .html and .txt
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name: MailTransportName = 'file';
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    await mkdir(this.directory, { recursive: true });
+
+    const basename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${fileSafe(message.to)}`;
+    const header = `To: ${message.to}\nSubject: ${message.subject}\n${message.replyTo ? `Reply-To: ${message.replyTo}\n` : ''}\n`;
+    await writeFile(path.join(this.directory, `${basename}.html`), message.html, 'utf8');
+    await writeFile(path.join(this.directory, `${basename}.txt`), header + message.text, 'utf8');
+
+    logger.info({ to: message.to, subject: message.subject, directory: this.directory }, '📁 Email written to disk');
+    return { transport: this.name, messageId: basename };
+  }
+}
+
+/**
+ * Development stand-in: logs the plain-text email
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name: MailTransportName = 'console';
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    logger.info({ to: message.to, subject: message.subject, text: message.text }, '📧 Email (console transport)');
+    return { transport: this.name };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Mail Transport Layer
+ *
+ * Configuration (environment):
+ * - MAIL_TRANSPORT  smtp | file | console (unset = smtp when SMTP_HOST is set,
+ *                   console in development, otherwise email is disabled)
+ * - MAIL_FROM       sender address, e.g. "Store Assistant <assistant@example.com>"
+ * - SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE (default true on port 465),
+ *   SMTP_USER, SMTP_PASS
+ * - MAIL_FILE_DIR   where the file transport writes emails (default tmp/mail)
+ */
+
+import { createLogger } from '../../lib/logger.server';
+import { ConsoleMailTransport, FileMailTransport } from './file.transport.server';
+import { SmtpMailTransport } from './smtp.transport.server';
+import type { MailTransport, MailTransportConfig, MailTransportName } from './types';
+
+export type * from './types';
+
+const logger = createLogger({ service: 'MailTransport' });
+
+const TRANSPORT_NAMES: MailTransportName[] = ['smtp', 'file', 'console'];
+
+const DEFAULT_FROM = 'AI Sales Assistant <no-reply@localhost>';
+
+/**
+ * Create a transport from explicit configuration
+ */
+export function createMailTransport(config: MailTransportConfig): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp?.host) throw new Error('SMTP transport requires SMTP_HOST');
+      return new SmtpMailTransport({ from: config.from, ...config.smtp, timeoutMs: config.timeoutMs });
+    case 'file':
+      return new FileMailTransport({ directory: config.directory || 'tmp/mail' });
+    case 'console':
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+/**
+ * Read the mail configuration from the environment
+ */
+export function getMailConfigFromEnv(): MailTransportConfig | null {
+  const configured = process.env.MAIL_TRANSPORT?.toLowerCase() as MailTransportName | undefined;
+  const transport = configured && TRANSPORT_NAMES.includes(configured)
+    ? configured
+    : process.env.SMTP_HOST
+      ? 'smtp'
+      : process.env.NODE_ENV === 'development'
+        ? 'console'
+        : null;
+
+  if (!transport) {
+    return null;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+
+  return {
+    transport,
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+    smtp: process.env.SMTP_HOST
+      ? {
+          host: process.env.SMTP_HOST,
+          port,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        }
+      : undefined,
+    directory: process.env.MAIL_FILE_DIR,
+  };
+}
+
+/**
+ * Transport for outgoing email, or null when email is not configured
+ */
+export function resolveMailTransport(): MailTransport | null {
+  try {
+    const config = getMailConfigFromEnv();
+    return config ? createMailTransport(config) : null;
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error)
+    }, '⚠️ Mail transport misconfigured - email disabled');
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { TIMEOUTS } from '../../config/limits';
+import type { MailDelivery, MailMessage, MailTransport, MailTransportName } from './types';
+
+/**
+ * SMTP transport (any provider: SES, Postmark, SendGrid, Mailgun, ...)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name: MailTransportName = 'smtp';
+  private from: string;
+  private transporter: Transporter;
+
+  constructor(options: {
+    from: string;
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    timeoutMs?: number;
+  }) {
+    const timeout = options.timeoutMs ?? TIMEOUTS.MAIL_SEND_MS;
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout,
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailDelivery> {
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+
+    return { transport: this.name, messageId: info.messageId };
+  }
+}
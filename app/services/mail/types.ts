@@ -0,0 +1,42 @@
+/**
+ * Mail Transport Types
+ *
+ * Outgoing email (chat transcripts) goes through a transport chosen from the
+ * environment: SMTP in production, a file or console stand-in in development.
+ */
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface MailDelivery {
+  transport: MailTransportName;
+  // Message-ID from the SMTP server, or the file written by the file transport
+  messageId?: string;
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: MailMessage): Promise<MailDelivery>;
+}
+
+export interface MailTransportConfig {
+  transport: MailTransportName;
+  from: string;
+  smtp?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  };
+  // Directory the file transport writes to
+  directory?: string;
+  timeoutMs?: number;
+}
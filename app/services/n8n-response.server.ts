@@ -0,0 +1,261 @@
+/**
+ * N8N Response Validation
+ *
+ * Workflow output is parsed field by field against zod schemas for
+ * N8NWebhookResponse. A field that can be coerced (numbers sent as strings,
+ * confidence given as a percentage, ids sent as numbers...) is coerced; a
+ * field or list item that cannot is dropped. Every change is reported as a
+ * structured warning so merchants can fix their workflow, and nothing
+ * malformed reaches the widget. Unknown top-level fields are ignored.
+ */
+
+import { z } from 'zod';
+import type {
+  EnhancedProductRecommendation,
+  N8NWebhookResponse,
+  SuggestedAction,
+} from './n8n.service.server';
+
+// Upper bounds for lists shown in the widget
+const MAX_RECOMMENDATIONS = 12;
+const MAX_QUICK_REPLIES = 6;
+const MAX_SUGGESTED_ACTIONS = 4;
+const MAX_SOURCE_IDS = 5;
+
+export interface N8NResponseWarning {
+  field: string; // e.g. "recommendations[2].price"
+  issue: 'coerced' | 'dropped';
+  reason?: string;
+  value?: string; // short preview of the received value
+}
+
+export interface ParsedN8NResponse {
+  // null when there is no usable message
+  response: N8NWebhookResponse | null;
+  warnings: N8NResponseWarning[];
+}
+
+const text = z.string().trim().min(1);
+const numberish = z.union([z.number(), z.string().trim().min(1)]).pipe(z.coerce.number().finite());
+const stringish = z.union([z.string(), z.number()]).transform(String).pipe(text);
+const booleanish = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform((value) => value === 'true'),
+]);
+
+const recommendationShape = {
+  id: stringish,
+  title: text,
+  handle: z.string().trim().default(''),
+  price: stringish.optional().transform((value) => value ?? ''),
+  priceFormatted: text.optional(),
+  originalPrice: stringish.optional(),
+  discountPercent: numberish.optional(),
+  url: text.optional(),
+  image: text.optional(),
+  description: z.string().optional(),
+  isAvailable: booleanish.optional(),
+  isLowStock: booleanish.optional(),
+  inventory: numberish.pipe(z.number().int()).optional(),
+  relevanceScore: numberish.optional(),
+  urgencyMessage: text.optional(),
+  badge: text.optional(),
+  cta: text.optional(),
+} satisfies z.ZodRawShape;
+
+const suggestedActionShape = {
+  label: text,
+  action: z.enum(['view_product', 'add_to_cart', 'compare', 'cart_link', 'custom']),
+  data: stringish.optional(),
+} satisfies z.ZodRawShape;
+
+const analyticsShape = {
+  intentDetected: text.optional(),
+  subIntent: text.optional(),
+  responseTime: numberish.optional(),
+  productsShown: numberish.optional(),
+} satisfies z.ZodRawShape;
+
+// Some workflows send confidence as a percentage
+const confidenceSchema = numberish.transform((value) => {
+  const ratio = value > 1 && value <= 100 ? value / 100 : value;
+  return Math.min(1, Math.max(0, ratio));
+});
+
+function preview(value: unknown): string {
+  let raw: string;
+  try {
+    raw = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  } catch {
+    raw = String(value);
+  }
+  return raw.length > 60 ? `${raw.substring(0, 57)}...` : raw;
+}
+
+function reasonOf(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue ? issue.message : 'Invalid value';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse an object field by field. Invalid optional fields are dropped;
+ * an invalid required field drops the whole object (returns null).
+ */
+function parseFields<T>(
+  shape: z.ZodRawShape,
+  raw: unknown,
+  path: string,
+  warnings: N8NResponseWarning[]
+): T | null {
+  if (!isObject(raw)) {
+    warnings.push({ field: path, issue: 'dropped', reason: 'Expected an object', value: preview(raw) });
+    return null;
+  }
+
+  const result: Record<string, unknown> = {};
+
+  for (const [key, schema] of Object.entries(shape)) {
+    const value = raw[key];
+    const parsed = schema.safeParse(value);
+
+    if (parsed.success) {
+      if (parsed.data !== undefined) {
+        result[key] = parsed.data;
+      }
+      if (value !== undefined && typeof value !== 'object' && !Object.is(value, parsed.data)) {
+        warnings.push({ field: `${path}.${key}`, issue: 'coerced', value: preview(value) });
+      }
+      continue;
+    }
+
+    if (!schema.isOptional()) {
+      warnings.push({ field: path, issue: 'dropped', reason: `${key}: ${reasonOf(parsed.error)}` });
+      return null;
+    }
+
+    warnings.push({ field: `${path}.${key}`, issue: 'dropped', reason: reasonOf(parsed.error), value: preview(value) });
+  }
+
+  return result as T;
+}
+
+/**
+ * Parse a list, dropping invalid items and anything beyond `max`
+ */
+function parseList<T>(
+  raw: unknown,
+  path: string,
+  max: number,
+  parseItem: (item: unknown, itemPath: string) => T | null,
+  warnings: N8NResponseWarning[]
+): T[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(raw)) {
+    warnings.push({ field: path, issue: 'dropped', reason: 'Expected an array', value: preview(raw) });
+    return undefined;
+  }
+
+  const items = raw
+    .map((item, index) => parseItem(item, `${path}[${index}]`))
+    .filter((item): item is T => item !== null);
+
+  if (items.length > max) {
+    warnings.push({ field: path, issue: 'coerced', reason: `Truncated ${items.length} items to ${max}` });
+  }
+
+  return items.slice(0, max);
+}
+
+/**
+ * Validate raw workflow output against the N8NWebhookResponse contract
+ */
+export function parseN8NResponse(data: unknown): ParsedN8NResponse {
+  const warnings: N8NResponseWarning[] = [];
+
+  if (!isObject(data)) {
+    warnings.push({ field: 'response', issue: 'dropped', reason: 'Expected a JSON object', value: preview(data) });
+    return { response: null, warnings };
+  }
+
+  const message = text.safeParse(data.message);
+  if (!message.success) {
+    warnings.push({ field: 'message', issue: 'dropped', reason: reasonOf(message.error), value: preview(data.message) });
+    return { response: null, warnings };
+  }
+
+  const scalars = parseFields<Partial<N8NWebhookResponse>>({
+    messageType: text.max(50).optional(),
+    confidence: confidenceSchema.optional(),
+    sentiment: z.enum(['positive', 'negative', 'neutral']).optional(),
+    requiresHumanEscalation: booleanish.optional(),
+    requestLeadCapture: booleanish.optional(),
+    success: booleanish.optional(),
+  }, data, 'response', warnings) ?? {};
+
+  const response: N8NWebhookResponse = { message: message.data, ...scalars };
+
+  const recommendations = parseList<EnhancedProductRecommendation>(
+    data.recommendations,
+    'recommendations',
+    MAX_RECOMMENDATIONS,
+    (item, itemPath) => parseFields(recommendationShape, item, itemPath, warnings),
+    warnings
+  );
+  if (recommendations) response.recommendations = recommendations;
+
+  const quickReplies = parseList<string>(
+    data.quickReplies,
+    'quickReplies',
+    MAX_QUICK_REPLIES,
+    (item, itemPath) => {
+      const parsed = stringish.pipe(z.string().max(80)).safeParse(item);
+      if (parsed.success) {
+        if (typeof item !== 'string') {
+          warnings.push({ field: itemPath, issue: 'coerced', value: preview(item) });
+        }
+        return parsed.data;
+      }
+      warnings.push({ field: itemPath, issue: 'dropped', reason: reasonOf(parsed.error), value: preview(item) });
+      return null;
+    },
+    warnings
+  );
+  if (quickReplies) response.quickReplies = quickReplies;
+
+  const suggestedActions = parseList<SuggestedAction>(
+    data.suggestedActions,
+    'suggestedActions',
+    MAX_SUGGESTED_ACTIONS,
+    (item, itemPath) => parseFields(suggestedActionShape, item, itemPath, warnings),
+    warnings
+  );
+  if (suggestedActions) response.suggestedActions = suggestedActions;
+
+  const sourceIds = parseList<string>(
+    data.sourceIds,
+    'sourceIds',
+    MAX_SOURCE_IDS,
+    (item, itemPath) => {
+      const parsed = stringish.safeParse(item);
+      if (parsed.success) return parsed.data;
+      warnings.push({ field: itemPath, issue: 'dropped', reason: reasonOf(parsed.error), value: preview(item) });
+      return null;
+    },
+    warnings
+  );
+  if (sourceIds) response.sourceIds = sourceIds;
+
+  if (data.analytics !== undefined) {
+    const analytics = parseFields<N8NWebhookResponse['analytics']>(analyticsShape, data.analytics, 'analytics', warnings);
+    if (analytics) response.analytics = analytics;
+  }
+
+  return { response, warnings };
+}
@@ -2,9 +2,25 @@ import axios from 'axios';
 import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
 import { personalizationService, type UserPreferences } from './personalization.service';
 import { logger, logError, createLogger } from '../lib/logger.server';
-import { TIMEOUTS } from '../config/limits';
-import type { ShopPolicies } from './policy-cache.service.server';
-import { getDefaultPolicyMessage } from './policy-cache.service.server';
+import { detectMessageLanguage, normalizeLocale } from '../lib/language-id.server';
+import { N8N_RESILIENCE, TIMEOUTS } from '../config/limits';
+import type { ShopPolicies } from './shop-policy.service.server';
+import { getDefaultPolicyMessage, getPolicyAnswer, truncatePolicyText } from './shop-policy.service.server';
+import { normalizeIntentName } from './intent-classifier.service.server';
+import type { LLMToolCallRecord } from './llm/types';
+import type { ConversationFacts } from './chat-pipeline/types';
+import type { KnowledgeSnippet, KnowledgeSource } from './knowledge-base.service.server';
+import {
+  acquireWebhookCircuit,
+  getRetryDelayMs,
+  isRetryableError,
+  maskWebhookUrl,
+  recordWebhookFailure,
+  recordWebhookSuccess,
+} from './webhook-health.service.server';
+import { parseN8NResponse } from './n8n-response.server';
+import { signWebhookPayload } from '../lib/webhook-signing.server';
+import { recordWorkflowCall } from './workflow-recorder.service.server';
 // import db from '../db.server';
 
 // Enhanced N8N Response with rich features
@@ -17,6 +33,8 @@ export interface N8NWebhookResponse {
   confidence?: number;
   sentiment?: 'positive' | 'negative' | 'neutral';
   requiresHumanEscalation?: boolean;
+  // Ask the shopper for their email (lead form, see lib/lead-capture.server)
+  requestLeadCapture?: boolean;
   analytics?: {
     intentDetected?: string;
     subIntent?: string;
@@ -24,6 +42,14 @@ export interface N8NWebhookResponse {
     productsShown?: number;
   };
   success?: boolean;
+  // Tools called while generating the reply (in-process LLM only)
+  toolCalls?: LLMToolCallRecord[];
+  // Knowledge base entries the answer is based on (ids from context.knowledgeBase)
+  sourceIds?: string[];
+  // Cited entries, resolved by the pipeline (returned to the widget)
+  sources?: KnowledgeSource[];
+  // Answered by local fallback processing because the webhook was unavailable
+  fallback?: boolean;
 }
 
 // Enhanced Product Recommendation with rich metadata
@@ -53,7 +79,7 @@ export type ProductRecommendation = EnhancedProductRecommendation;
 // Suggested action buttons
 export interface SuggestedAction {
   label: string; // Button text
-  action: 'view_product' | 'add_to_cart' | 'compare' | 'custom';
+  action: 'view_product' | 'add_to_cart' | 'compare' | 'cart_link' | 'custom';
   data?: string; // Product ID or custom data
 }
 
@@ -87,6 +113,10 @@ export interface N8NRequest {
     sentiment?: string;
     intent?: string;
 
+    // Rolling summary of messages older than conversationHistory
+    conversationSummary?: string;
+    conversationFacts?: ConversationFacts;
+
     // Language instruction for AI
     languageInstruction?: string;
 
@@ -96,12 +126,28 @@ export interface N8NRequest {
     // Support intent category
     supportCategory?: string;
 
+    // Merchant FAQ/article excerpts relevant to the message
+    knowledgeBase?: Array<Omit<KnowledgeSnippet, 'score'>>;
+
+    // Product intent with an empty catalog result
+    noProductsFound?: boolean;
+    intentType?: string;
+
+    // The reply may ask for the shopper's email (lead capture on, not offered yet)
+    leadCaptureAvailable?: boolean;
+
+    // Plan and BYOK key (BYOK workflow calls OpenAI with the merchant's key)
+    plan?: string;
+    openaiApiKey?: string;
+
     // Store policies for N8N context (support intents)
     storePolicies?: {
       shopName?: string;
       returns?: string | null;
       shipping?: string | null;
       privacy?: string | null;
+      termsOfService?: string | null;
+      contact?: string | null;
     };
 
     // Legacy fields (for backward compatibility)
@@ -115,9 +161,15 @@ export interface N8NRequest {
 export class N8NService {
   private webhookUrl: string;
   private apiKey?: string;
+  private signingSecret?: string;
+  private recordCalls: boolean;
   private logger = createLogger({ service: 'N8NService' });
 
-  constructor(webhookUrl?: string, apiKey?: string) {
+  constructor(
+    webhookUrl?: string,
+    apiKey?: string,
+    options: { signingSecret?: string | null; recordCalls?: boolean } = {}
+  ) {
     // ✅ SECURITY FIX: Removed hardcoded webhook URL fallback
     // Prioritize: 1) passed parameter, 2) environment variable, 3) throw error if missing
     const configuredWebhookUrl = webhookUrl || process.env.N8N_WEBHOOK_URL;
@@ -131,10 +183,13 @@ export class N8NService {
     }
 
     this.apiKey = apiKey || process.env.N8N_API_KEY;
+    this.signingSecret = options.signingSecret || undefined;
+    // Shop opted in to the workflow recorder
+    this.recordCalls = !!options.recordCalls;
 
     // Log the webhook URL being used for debugging (hide sensitive parts)
     if (this.webhookUrl !== 'MISSING_N8N_WEBHOOK_URL') {
-      const maskedUrl = this.maskWebhookUrl(this.webhookUrl);
+      const maskedUrl = maskWebhookUrl(this.webhookUrl);
       this.logger.info({
         maskedUrl,
         hasApiKey: !!this.apiKey,
@@ -150,29 +205,6 @@ export class N8NService {
     }
   }
 
-  /**
-   * Mask sensitive parts of webhook URL for logging
-   */
-  private maskWebhookUrl(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split('/');
-
-      // Mask the webhook ID (last part of path)
-      if (pathParts.length > 0) {
-        const lastPart = pathParts[pathParts.length - 1];
-        if (lastPart.length > 8) {
-          pathParts[pathParts.length - 1] = lastPart.substring(0, 4) + '****' + lastPart.substring(lastPart.length - 4);
-        }
-      }
-
-      urlObj.pathname = pathParts.join('/');
-      return urlObj.toString();
-    } catch {
-      return '[INVALID URL FORMAT]';
-    }
-  }
-
   async processUserMessage(request: N8NRequest): Promise<N8NWebhookResponse> {
     try {
       // Check if webhook URL is configured
@@ -181,7 +213,20 @@ export class N8NService {
         return this.fallbackProcessing(request);
       }
 
-      const maskedUrl = this.maskWebhookUrl(this.webhookUrl);
+      const maskedUrl = maskWebhookUrl(this.webhookUrl);
+      const shopDomain = request.context?.shopDomain || '';
+
+      // Skip a webhook that keeps failing instead of waiting for its timeout
+      const circuit = await acquireWebhookCircuit(shopDomain, this.webhookUrl, maskedUrl);
+      if (!circuit.allowed) {
+        this.logger.warn({
+          maskedUrl,
+          shopDomain,
+          circuitState: circuit.state
+        }, '🚫 N8N circuit open - using fallback processing');
+        return this.fallbackProcessing(request);
+      }
+
       this.logger.info({
         maskedUrl,
         fullUrlForDebug: this.webhookUrl, // Log full URL for debugging (will be masked in production logs)
@@ -197,25 +242,83 @@ export class N8NService {
         headers['Authorization'] = `Bearer ${this.apiKey}`;
       }
 
-      const response = await axios.post(this.webhookUrl, request, {
-        headers,
-        timeout: TIMEOUTS.N8N_WEBHOOK_MS,
-      });
+      // Sign the exact bytes sent so the workflow can verify the caller
+      const body = JSON.stringify(request);
+      if (this.signingSecret) {
+        Object.assign(headers, signWebhookPayload(this.signingSecret, body));
+      }
+
+      const startedAt = Date.now();
+      let response;
+      try {
+        response = await this.postWithRetry(request, body, headers);
+      } catch (error: any) {
+        const latencyMs = Date.now() - startedAt;
+        await recordWebhookFailure(shopDomain, this.webhookUrl, maskedUrl, {
+          status: error?.response?.status,
+          code: error?.code,
+          message: error?.message || 'Unknown error',
+          latencyMs
+        });
+        if (this.recordCalls) {
+          await recordWorkflowCall({
+            shop: shopDomain,
+            maskedUrl,
+            request,
+            responseData: error?.response?.data,
+            status: error?.response?.status,
+            latencyMs,
+            error: error?.message || 'Unknown error'
+          });
+        }
+        throw error;
+      }
+      const latencyMs = Date.now() - startedAt;
 
       this.logger.debug({
         status: response.status,
         hasMessage: !!response.data?.message,
         recommendationsCount: response.data?.recommendations?.length || 0,
-        confidence: response.data?.confidence
+        confidence: response.data?.confidence,
+        latencyMs
       }, 'N8N response received');
 
-      if (!response.data?.message) {
+      // Malformed fields are coerced or dropped before anything reaches the widget
+      const parsed = parseN8NResponse(response.data);
+      if (parsed.warnings.length > 0) {
+        this.logger.warn({
+          maskedUrl,
+          shopDomain,
+          warnings: parsed.warnings
+        }, '⚠️ N8N response had malformed fields');
+      }
+
+      if (this.recordCalls) {
+        await recordWorkflowCall({
+          shop: shopDomain,
+          maskedUrl,
+          request,
+          responseData: response.data,
+          warnings: parsed.warnings,
+          status: response.status,
+          latencyMs,
+          error: parsed.response ? undefined : 'Response missing message field'
+        });
+      }
+
+      if (!parsed.response) {
         this.logger.warn({ responseKeys: Object.keys(response.data || {}) }, 'Unexpected response format - missing message field');
+        await recordWebhookFailure(shopDomain, this.webhookUrl, maskedUrl, {
+          status: response.status,
+          message: 'Response missing message field',
+          latencyMs
+        });
         // Throw error to trigger fallback processing
         throw new Error('N8N response missing required message field');
       }
 
-      return response.data;
+      await recordWebhookSuccess(shopDomain, this.webhookUrl, maskedUrl, latencyMs);
+      return parsed.response;
     } catch (error: any) {
       const errorDetails = {
         code: error?.code,
@@ -244,6 +347,36 @@ export class N8NService {
     }
   }
 
+  /**
+   * POST to the webhook, retrying failures that are safe to repeat
+   * (connection errors, 429/502/503/504) with jittered backoff
+   */
+  private async postWithRetry(request: N8NRequest, body: string, headers: Record<string, string>) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await axios.post(this.webhookUrl, request, {
+          headers,
+          timeout: TIMEOUTS.N8N_WEBHOOK_MS,
+          // Send the serialized body the signature was computed over
+          transformRequest: [() => body],
+        });
+      } catch (error: any) {
+        if (attempt >= N8N_RESILIENCE.MAX_RETRIES || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelayMs(attempt);
+        this.logger.warn({
+          attempt: attempt + 1,
+          delayMs,
+          code: error?.code,
+          status: error?.response?.status
+        }, '🔄 Retrying N8N webhook');
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
   /**
    * Enhanced fallback processing with semantic search and personalization
    */
@@ -257,8 +390,8 @@ export class N8NService {
       const lang = this.detectLanguage(userMessage, context);
       const msgs = this.getFallbackMessages(lang, policies);
 
-      // Classify intent and sentiment
-      const intent = await personalizationService.classifyIntent(userMessage);
+      // Classify intent and sentiment (the pipeline already classified with the same taxonomy)
+      const intent = normalizeIntentName(context?.intent) ?? await personalizationService.classifyIntent(userMessage);
       const sentiment = await personalizationService.analyzeSentiment(userMessage);
 
       this.logger.debug({ intent, sentiment, language: lang }, 'Analyzed message');
@@ -273,7 +406,7 @@ export class N8NService {
       // Use semantic search if available and it's a product search
       if (
         isEmbeddingServiceAvailable() &&
-        ['PRODUCT_SEARCH', 'COMPARISON', 'OTHER'].includes(intent)
+        ['PRODUCT_SEARCH', 'COMPARISON', 'GENERAL_CHAT'].includes(intent)
       ) {
         try {
           this.logger.debug('Using semantic search with embeddings');
@@ -528,14 +661,16 @@ export class N8NService {
     // Generate dynamic shipping response
     const getShippingResponse = (): string => {
       if (policies?.shipping && policies.shipping.length > 50) {
-        const preview = this.truncatePolicyText(policies.shipping, 400);
+        const preview = truncatePolicyText(policies.shipping, 400);
         const intros: Record<string, string> = {
           en: `Here's our shipping information:\n\n${preview}`,
           fr: `Voici nos informations de livraison:\n\n${preview}`,
           es: `Aquí está nuestra información de envío:\n\n${preview}`,
           de: `Hier sind unsere Versandinformationen:\n\n${preview}`,
           pt: `Aqui estão nossas informações de envio:\n\n${preview}`,
-          it: `Ecco le nostre informazioni sulla spedizione:\n\n${preview}`
+          it: `Ecco le nostre informazioni sulla spedizione:\n\n${preview}`,
+          ja: `配送について:\n\n${preview}`,
+          zh: `这是我们的配送信息:\n\n${preview}`
         };
         return intros[lang] ?? intros['en']!;
       }
@@ -545,14 +680,16 @@ export class N8NService {
     // Generate dynamic returns response
     const getReturnsResponse = (): string => {
       if (policies?.returns && policies.returns.length > 50) {
-        const preview = this.truncatePolicyText(policies.returns, 400);
+        const preview = truncatePolicyText(policies.returns, 400);
         const intros: Record<string, string> = {
           en: `Here's our return policy:\n\n${preview}\n\nWould you like me to help you with a specific return?`,
           fr: `Voici notre politique de retour:\n\n${preview}\n\nSouhaitez-vous de l'aide pour un retour spécifique ?`,
           es: `Aquí está nuestra política de devoluciones:\n\n${preview}\n\n¿Le gustaría ayuda con una devolución específica?`,
           de: `Hier ist unsere Rückgaberichtlinie:\n\n${preview}\n\nMöchten Sie Hilfe bei einer bestimmten Rückgabe?`,
           pt: `Aqui está nossa política de devolução:\n\n${preview}\n\nGostaria de ajuda com uma devolução específica?`,
-          it: `Ecco la nostra politica di reso:\n\n${preview}\n\nDesidera assistenza per un reso specifico?`
+          it: `Ecco la nostra politica di reso:\n\n${preview}\n\nDesidera assistenza per un reso specifico?`,
+          ja: `返品ポリシー:\n\n${preview}\n\n特定の返品についてお手伝いしましょうか？`,
+          zh: `这是我们的退货政策:\n\n${preview}\n\n需要我帮您处理具体的退货吗？`
         };
         return intros[lang] ?? intros['en']!;
       }
@@ -561,10 +698,14 @@ export class N8NService {
 
     const responses: Record<string, string> = {
       PRICE_INQUIRY: "I can help you find products within your budget. What price range are you looking for?",
-      SHIPPING: getShippingResponse(),
+      SHIPPING_INFO: getShippingResponse(),
+      TRACK_ORDER: getShippingResponse(),
       RETURNS: getReturnsResponse(),
+      TERMS: getPolicyAnswer('terms', policies, lang),
+      PRIVACY: getPolicyAnswer('privacy', policies, lang),
+      CONTACT: getPolicyAnswer('contact', policies, lang),
       SIZE_FIT: "I can help you find the right size. What type of product are you looking for, and what are your measurements?",
-      SUPPORT: "I'm here to help with any issues you're experiencing. Can you tell me more about what you need assistance with?",
+      HELP_FAQ: "I'm here to help with any issues you're experiencing. Can you tell me more about what you need assistance with?",
       GREETING: "Hello! I'm your AI shopping assistant. I can help you find products, answer questions about pricing and shipping, and provide personalized recommendations. What are you looking for today?",
       THANKS: "You're welcome! Is there anything else I can help you with?",
       COMPARISON: "I'd be happy to help you compare products. Which products would you like to compare?",
@@ -574,9 +715,10 @@ export class N8NService {
     return responses[intent] || "I'm here to help you find the perfect products! You can ask me about:\n• Product recommendations\n• Pricing and budget options\n• Shipping and delivery\n• Returns and exchanges\n• Product details like size, color, and materials\n\nWhat would you like to know?";
   }
 
-  private fallbackProcessing(request: N8NRequest): Promise<N8NWebhookResponse> {
+  private async fallbackProcessing(request: N8NRequest): Promise<N8NWebhookResponse> {
     // Use enhanced fallback with AI features if available
-    return this.enhancedFallbackProcessing(request);
+    const response = await this.enhancedFallbackProcessing(request);
+    return { ...response, fallback: true };
   }
 
   /**
@@ -584,37 +726,7 @@ export class N8NService {
    */
   private detectLanguage(message: string, context?: N8NRequest['context']): string {
     // Check context locale first
-    if (context?.locale) {
-      return context.locale.toLowerCase().split('-')[0] || 'en';
-    }
-
-    // French detection (using /i flag for case-insensitivity)
-    if (/(bonjour|salut|merci|montre|produit|cherche|voudrais|pourrais)/i.test(message)) {
-      return 'fr';
-    }
-
-    // Spanish detection
-    if (/(hola|gracias|producto|busco|quiero|puedo)/i.test(message)) {
-      return 'es';
-    }
-
-    // German detection
-    if (/(hallo|danke|produkt|suche|möchte|kann)/i.test(message)) {
-      return 'de';
-    }
-
-    // Portuguese detection
-    if (/(olá|obrigado|produto|procuro|gostaria|posso)/i.test(message)) {
-      return 'pt';
-    }
-
-    // Italian detection
-    if (/(ciao|grazie|prodotto|cerco|vorrei|posso)/i.test(message)) {
-      return 'it';
-    }
-
-    // Default to English
-    return 'en';
+    return normalizeLocale(context?.locale) || detectMessageLanguage(message);
   }
 
   /**
@@ -626,7 +738,7 @@ export class N8NService {
     const generateShippingInfo = (langCode: string): string => {
       if (policies?.shipping && policies.shipping.length > 50) {
         // Has real policy - show a preview
-        const preview = this.truncatePolicyText(policies.shipping, 300);
+        const preview = truncatePolicyText(policies.shipping, 300);
         const introTexts: Record<string, string> = {
           en: `Here's our shipping policy:\n\n${preview}`,
           fr: `Voici notre politique de livraison:\n\n${preview}`,
@@ -647,7 +759,7 @@ export class N8NService {
     const generateReturnInfo = (langCode: string): string => {
       if (policies?.returns && policies.returns.length > 50) {
         // Has real policy - show a preview
-        const preview = this.truncatePolicyText(policies.returns, 300);
+        const preview = truncatePolicyText(policies.returns, 300);
         const introTexts: Record<string, string> = {
           en: `Here's our return policy:\n\n${preview}`,
           fr: `Voici notre politique de retour:\n\n${preview}`,
@@ -676,6 +788,9 @@ export class N8NService {
         priceInfo: "I can help you find products within your budget. What price range are you looking for?",
         shippingInfo: generateShippingInfo('en'),
         returnInfo: generateReturnInfo('en'),
+        termsInfo: getPolicyAnswer('terms', policies, 'en', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'en', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'en', 300),
         featuredProducts: "Check out our featured products:",
         noProducts: "I don't have product information available at the moment. Please contact us for assistance.",
         helpOptions: "I can help you with:\n• Browse products\n• Search by keyword\n• View categories\n• Check prices and availability\n\nWhat would you like to explore?"
@@ -691,6 +806,9 @@ export class N8NService {
         priceInfo: "Je peux vous aider à trouver des produits dans votre budget. Quelle gamme de prix recherchez-vous ?",
         shippingInfo: generateShippingInfo('fr'),
         returnInfo: generateReturnInfo('fr'),
+        termsInfo: getPolicyAnswer('terms', policies, 'fr', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'fr', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'fr', 300),
         featuredProducts: "Découvrez nos produits en vedette :",
         noProducts: "Je n'ai pas d'informations sur les produits disponibles pour le moment. Veuillez nous contacter pour obtenir de l'aide.",
         helpOptions: "Je peux vous aider avec :\n• Parcourir les produits\n• Rechercher par mot-clé\n• Voir les catégories\n• Vérifier les prix et la disponibilité\n\nQue souhaitez-vous explorer ?"
@@ -706,6 +824,9 @@ export class N8NService {
         priceInfo: "Puedo ayudarte a encontrar productos dentro de tu presupuesto. ¿Qué rango de precio buscas?",
         shippingInfo: generateShippingInfo('es'),
         returnInfo: generateReturnInfo('es'),
+        termsInfo: getPolicyAnswer('terms', policies, 'es', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'es', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'es', 300),
         featuredProducts: "Echa un vistazo a nuestros productos destacados:",
         noProducts: "No tengo información de productos disponible en este momento. Por favor contáctenos para obtener ayuda.",
         helpOptions: "Puedo ayudarte con:\n• Explorar productos\n• Buscar por palabra clave\n• Ver categorías\n• Consultar precios y disponibilidad\n\n¿Qué te gustaría explorar?"
@@ -721,6 +842,9 @@ export class N8NService {
         priceInfo: "Ich kann Ihnen helfen, Produkte in Ihrem Budget zu finden. Welche Preisspanne suchen Sie?",
         shippingInfo: generateShippingInfo('de'),
         returnInfo: generateReturnInfo('de'),
+        termsInfo: getPolicyAnswer('terms', policies, 'de', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'de', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'de', 300),
         featuredProducts: "Schauen Sie sich unsere ausgewählten Produkte an:",
         noProducts: "Ich habe derzeit keine Produktinformationen verfügbar. Bitte kontaktieren Sie uns für Hilfe.",
         helpOptions: "Ich kann Ihnen helfen mit:\n• Produkte durchsuchen\n• Nach Stichwort suchen\n• Kategorien anzeigen\n• Preise und Verfügbarkeit prüfen\n\nWas möchten Sie erkunden?"
@@ -736,6 +860,9 @@ export class N8NService {
         priceInfo: "Posso ajudá-lo a encontrar produtos dentro do seu orçamento. Que faixa de preço você está procurando?",
         shippingInfo: generateShippingInfo('pt'),
         returnInfo: generateReturnInfo('pt'),
+        termsInfo: getPolicyAnswer('terms', policies, 'pt', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'pt', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'pt', 300),
         featuredProducts: "Confira nossos produtos em destaque:",
         noProducts: "Não tenho informações de produtos disponíveis no momento. Entre em contato conosco para obter ajuda.",
         helpOptions: "Posso ajudá-lo com:\n• Navegar produtos\n• Pesquisar por palavra-chave\n• Ver categorias\n• Verificar preços e disponibilidade\n\nO que você gostaria de explorar?"
@@ -751,6 +878,9 @@ export class N8NService {
         priceInfo: "Posso aiutarti a trovare prodotti nel tuo budget. Quale fascia di prezzo stai cercando?",
         shippingInfo: generateShippingInfo('it'),
         returnInfo: generateReturnInfo('it'),
+        termsInfo: getPolicyAnswer('terms', policies, 'it', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'it', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'it', 300),
         featuredProducts: "Dai un'occhiata ai nostri prodotti in evidenza:",
         noProducts: "Non ho informazioni sui prodotti disponibili al momento. Contattaci per assistenza.",
         helpOptions: "Posso aiutarti con:\n• Sfogliare prodotti\n• Cercare per parola chiave\n• Visualizzare categorie\n• Controllare prezzi e disponibilità\n\nCosa vorresti esplorare?"
@@ -766,6 +896,9 @@ export class N8NService {
         priceInfo: "我可以帮助您找到符合您预算的产品。您在寻找什么价格范围？",
         shippingInfo: generateShippingInfo('zh'),
         returnInfo: generateReturnInfo('zh'),
+        termsInfo: getPolicyAnswer('terms', policies, 'zh', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'zh', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'zh', 300),
         featuredProducts: "查看我们的精选产品：",
         noProducts: "目前没有产品信息可用。请联系我们获取帮助。",
         helpOptions: "我可以帮助您：\n• 浏览产品\n• 按关键词搜索\n• 查看分类\n• 检查价格和库存\n\n您想探索什么？"
@@ -781,6 +914,9 @@ export class N8NService {
         priceInfo: "ご予算内で製品を見つけるお手伝いをします。どの価格帯をお探しですか？",
         shippingInfo: generateShippingInfo('ja'),
         returnInfo: generateReturnInfo('ja'),
+        termsInfo: getPolicyAnswer('terms', policies, 'ja', 300),
+        privacyInfo: getPolicyAnswer('privacy', policies, 'ja', 300),
+        contactInfo: getPolicyAnswer('contact', policies, 'ja', 300),
         featuredProducts: "おすすめ製品をチェック：",
         noProducts: "現在、製品情報が利用できません。サポートについてはお問い合わせください。",
         helpOptions: "お手伝いできること：\n• 製品の閲覧\n• キーワード検索\n• カテゴリ表示\n• 価格と在庫確認\n\n何を探索しますか？"
@@ -790,39 +926,6 @@ export class N8NService {
     return messages[lang] || messages['en'];
   }
 
-  /**
-   * Truncate policy text to a reasonable preview length
-   * Tries to cut at sentence boundaries for better readability
-   */
-  private truncatePolicyText(text: string, maxLength: number): string {
-    // Strip HTML tags if present
-    const cleanText = text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-
-    if (cleanText.length <= maxLength) {
-      return cleanText;
-    }
-
-    // Try to cut at a sentence boundary
-    const truncated = cleanText.substring(0, maxLength);
-    const lastPeriod = truncated.lastIndexOf('.');
-    const lastExclaim = truncated.lastIndexOf('!');
-    const lastQuestion = truncated.lastIndexOf('?');
-
-    const lastSentenceEnd = Math.max(lastPeriod, lastExclaim, lastQuestion);
-
-    if (lastSentenceEnd > maxLength * 0.5) {
-      return truncated.substring(0, lastSentenceEnd + 1);
-    }
-
-    // Fall back to cutting at word boundary
-    const lastSpace = truncated.lastIndexOf(' ');
-    if (lastSpace > maxLength * 0.8) {
-      return truncated.substring(0, lastSpace) + '...';
-    }
-
-    return truncated + '...';
-  }
-
   /**
    * Get quick reply buttons based on language
    */
@@ -956,6 +1059,12 @@ export class N8NService {
         message = msgs.shippingInfo;
       } else if (lowerMessage.match(/(return|refund|retour|remboursement|devolución|reembolso|reso|rimborso|rückgabe)/i)) {
         message = msgs.returnInfo;
+      } else if (lowerMessage.match(/(terms|conditions|términos|condiciones|agb|termini|termos|利用規約|条款)/i)) {
+        message = msgs.termsInfo;
+      } else if (lowerMessage.match(/(privacy|confidentialité|privacidad|datenschutz|privacidade|プライバシー|隐私)/i)) {
+        message = msgs.privacyInfo;
+      } else if (lowerMessage.match(/(contact|phone|email|téléphone|contacto|teléfono|kontakt|telefon|contatti|telefono|contato|telefone|お問い合わせ|联系)/i)) {
+        message = msgs.contactInfo;
       } else if (lowerMessage.match(/(help|aide|ayuda|ajuda|aiuto|hilfe)/i) && !hasProducts) {
         message = msgs.helpOptions;
       }
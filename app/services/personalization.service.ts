@@ -1,6 +1,7 @@
 import { OpenAI } from 'openai';
 import { prisma as db } from "../db.server";
 import { logError, createLogger } from '../lib/logger.server';
+import { classifyIntent, normalizeIntentName, type IntentType } from './intent-classifier.service.server';
 
 export interface UserPreferences {
   favoriteColors?: string[];
@@ -308,71 +309,13 @@ If no preferences are mentioned, return empty object {}.
   }
 
   /**
-   * Classify user intent from message
+   * Classify user intent from message (shared intent classifier)
    */
-  async classifyIntent(message: string): Promise<string> {
-    try {
-      // Simple regex-based classification (fast fallback)
-      const patterns = {
-        PRODUCT_SEARCH: /(?:looking for|need|want|show me|find|search|recommend)/i,
-        PRICE_INQUIRY: /(?:how much|cost|price|expensive|cheap|budget|afford)/i,
-        COMPARISON: /(?:compare|difference|better|vs|versus|which one)/i,
-        AVAILABILITY: /(?:in stock|available|when|sold out|inventory)/i,
-        SHIPPING: /(?:shipping|delivery|ship|arrive|tracking|when will)/i,
-        RETURNS: /(?:return|refund|exchange|money back|warranty)/i,
-        SIZE_FIT: /(?:size|fit|measurements|dimensions|how big|how small)/i,
-        SUPPORT: /(?:help|problem|issue|broken|not working|support)/i,
-        GREETING: /^(?:hi|hello|hey|good morning|good afternoon|good evening)/i,
-        THANKS: /(?:thank|thanks|appreciate|grateful)/i,
-      };
-
-      for (const [intent, pattern] of Object.entries(patterns)) {
-        if (pattern.test(message)) {
-          this.logger.debug({ intent }, 'Intent classified');
-          return intent;
-        }
-      }
-
-      // If OpenAI available, use advanced classification
-      if (this.openai) {
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: `Classify the customer's intent into one of these categories:
-- PRODUCT_SEARCH: Looking for products
-- PRICE_INQUIRY: Asking about pricing
-- COMPARISON: Comparing products
-- AVAILABILITY: Checking stock/availability
-- SHIPPING: Asking about delivery
-- RETURNS: Return/refund questions
-- SIZE_FIT: Size or fit questions
-- SUPPORT: Technical support
-- GREETING: Greeting/starting conversation
-- THANKS: Expressing gratitude
-- OTHER: None of the above
-
-Respond with just the category name.`,
-            },
-            {
-              role: 'user',
-              content: message,
-            },
-          ],
-          temperature: 0,
-        });
-
-        const intent = response.choices[0]?.message?.content?.trim() || 'OTHER';
-        this.logger.debug({ intent }, 'Intent classified by AI');
-        return intent;
-      }
-
-      return 'OTHER';
-    } catch (error) {
-      logError(error, 'Error classifying intent');
-      return 'OTHER';
-    }
+  async classifyIntent(message: string): Promise<IntentType> {
+    const { intent, confidence, tier } = await classifyIntent(message);
+    this.logger.debug({ intent: intent.type, confidence, tier }, 'Intent classified');
+    // Merchant-defined intents are only passed in by the chat pipeline
+    return intent.type === 'CUSTOM' ? 'GENERAL_CHAT' : intent.type;
   }
 
   /**
@@ -432,6 +375,7 @@ Respond with just the category name.`,
       sentiment?: string;
       confidence?: number;
       productsShown?: string[];
+      metadata?: Record<string, unknown>;
     } = {}
   ): Promise<void> {
     try {
@@ -444,6 +388,7 @@ Respond with just the category name.`,
           sentiment: metadata.sentiment,
           confidence: metadata.confidence,
           productsShown: JSON.stringify(metadata.productsShown || []),
+          ...(metadata.metadata ? { metadata: JSON.stringify(metadata.metadata) } : {}),
         },
       });
 
@@ -568,6 +513,13 @@ Respond with just the category name.`,
       confidence?: number;
       workflowType?: 'default' | 'custom';
       isNewSession?: boolean; // Track if this is a new session
+      // Response cache outcome for cacheable messages
+      cacheStatus?: 'hit' | 'miss';
+      // Product cards checked against the catalog, with what had to be dropped or fixed
+      recommendationCheck?: {
+        checked: number;
+        corrections: Array<{ field: string; action: 'dropped' | 'corrected' }>;
+      };
     }
   ): Promise<void> {
     try {
@@ -638,7 +590,8 @@ Respond with just the category name.`,
       // Update top intents
       if (data.intent) {
         const intents = JSON.parse(analytics.topIntents);
-        intents[data.intent] = (intents[data.intent] || 0) + 1;
+        const intent = normalizeIntentName(data.intent) ?? data.intent;
+        intents[intent] = (intents[intent] || 0) + 1;
 
         await db.chatAnalytics.update({
           where: { id: analytics.id },
@@ -692,6 +645,36 @@ Respond with just the category name.`,
         }
       }
 
+      // Track how often workflows recommend unknown products or wrong data
+      if (data.recommendationCheck) {
+        const accuracy = JSON.parse(analytics.recommendationAccuracy || '{}');
+        const corrections = data.recommendationCheck.corrections;
+        const correctedFields = corrections.filter((c) => c.action === 'corrected');
+
+        accuracy.checked = (accuracy.checked || 0) + data.recommendationCheck.checked;
+        accuracy.dropped = (accuracy.dropped || 0) + corrections.filter((c) => c.action === 'dropped').length;
+        accuracy.correctedFields = (accuracy.correctedFields || 0) + correctedFields.length;
+        accuracy.fields = accuracy.fields || {};
+        for (const correction of correctedFields) {
+          accuracy.fields[correction.field] = (accuracy.fields[correction.field] || 0) + 1;
+        }
+
+        await db.chatAnalytics.update({
+          where: { id: analytics.id },
+          data: { recommendationAccuracy: JSON.stringify(accuracy) },
+        });
+      }
+
+      if (data.cacheStatus) {
+        const cacheStats = JSON.parse(analytics.responseCache || '{}');
+        cacheStats[data.cacheStatus] = (cacheStats[data.cacheStatus] || 0) + 1;
+
+        await db.chatAnalytics.update({
+          where: { id: analytics.id },
+          data: { responseCache: JSON.stringify(cacheStats) },
+        });
+      }
+
       this.logger.debug({
         shop,
         workflowType: data.workflowType,
@@ -0,0 +1,268 @@
+/**
+ * Response Cache Service
+ *
+ * Per-shop cache of assistant replies for questions many shoppers ask
+ * (shipping, returns, FAQ, bestsellers...). Entries are keyed on the
+ * normalized message + language + intent, and can optionally be matched by
+ * embedding similarity (RESPONSE_CACHE_SEMANTIC=true).
+ *
+ * Personalized answers (RECOMMENDATIONS) are cached per shopper and never
+ * served to anyone else. Context-dependent intents (free-form search, general
+ * chat, order tracking) are not cached at all.
+ */
+
+import { createHash } from 'crypto';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { RESPONSE_CACHE } from '../config/limits';
+import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
+import type { N8NWebhookResponse } from './n8n.service.server';
+
+const logger = createLogger({ service: 'ResponseCache' });
+
+// Same answer for every shopper of the shop
+export const SHARED_CACHE_INTENTS = ['SHIPPING_INFO', 'RETURNS', 'TERMS', 'PRIVACY', 'CONTACT', 'HELP_FAQ', 'BESTSELLERS', 'NEW_ARRIVALS', 'ON_SALE'];
+
+// Depends on who is asking - cached per shopper
+export const PERSONAL_CACHE_INTENTS = ['RECOMMENDATIONS'];
+
+export const SUPPORT_CACHE_INTENTS = ['SHIPPING_INFO', 'RETURNS', 'TERMS', 'PRIVACY', 'CONTACT', 'HELP_FAQ'];
+export const PRODUCT_CACHE_INTENTS = ['BESTSELLERS', 'NEW_ARRIVALS', 'ON_SALE', 'RECOMMENDATIONS'];
+
+export interface ResponseCacheRequest {
+  shop: string;
+  message: string;
+  language: string;
+  intent: string;
+  // Customer id or widget session id, used to scope personalized answers
+  shopperId?: string;
+  // Product page the widget is open on (answers may refer to it)
+  pageProductId?: string;
+}
+
+export interface CachedResponse {
+  response: N8NWebhookResponse;
+  recommendations: any[];
+}
+
+export interface CacheLookupResult {
+  entry: CachedResponse | null;
+  match?: 'exact' | 'semantic';
+  // Embedding computed for a semantic lookup, reused when storing the reply
+  embedding?: number[];
+}
+
+/**
+ * Whether the response cache is on (RESPONSE_CACHE_ENABLED=false turns it off)
+ */
+export function isResponseCacheEnabled(): boolean {
+  return process.env.RESPONSE_CACHE_ENABLED !== 'false';
+}
+
+/**
+ * Whether near-duplicate questions are matched by embedding similarity
+ */
+export function isSemanticCacheEnabled(): boolean {
+  return process.env.RESPONSE_CACHE_SEMANTIC === 'true' && isEmbeddingServiceAvailable();
+}
+
+/**
+ * Normalize a message so trivial differences (case, punctuation, emoji,
+ * spacing) map to the same cache entry
+ */
+export function normalizeCacheMessage(message: string): string {
+  return message
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Messages carrying personal details (emails, phone or order numbers) are never cached
+ */
+export function containsPersonalData(message: string): boolean {
+  return /[^\s@]+@[^\s@]+\.[^\s@]+/.test(message) ||
+    /#\s?\d{3,}/.test(message) ||
+    /\d[\d\s().-]{6,}\d/.test(message);
+}
+
+/**
+ * Cache scope for a request, or null when the reply must not be cached
+ */
+export function getCacheScope(request: ResponseCacheRequest): string | null {
+  if (!normalizeCacheMessage(request.message) || containsPersonalData(request.message)) {
+    return null;
+  }
+
+  if (SHARED_CACHE_INTENTS.includes(request.intent)) {
+    return 'shared';
+  }
+
+  if (PERSONAL_CACHE_INTENTS.includes(request.intent) && request.shopperId) {
+    return `shopper:${request.shopperId}`;
+  }
+
+  return null;
+}
+
+export function buildCacheKey(request: ResponseCacheRequest, scope: string): string {
+  return createHash('sha256')
+    .update([
+      normalizeCacheMessage(request.message),
+      request.language,
+      request.intent,
+      scope,
+      request.pageProductId || ''
+    ].join('|'))
+    .digest('hex');
+}
+
+function getTtlSeconds(intent: string): number {
+  return SUPPORT_CACHE_INTENTS.includes(intent)
+    ? RESPONSE_CACHE.SUPPORT_TTL_SECONDS
+    : RESPONSE_CACHE.PRODUCT_TTL_SECONDS;
+}
+
+function parseEntry(raw: string): CachedResponse | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed.response?.message === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a cached reply: exact key first, then (optionally) the most similar
+ * question with the same shop, language, intent and scope
+ */
+export async function lookupCachedResponse(
+  request: ResponseCacheRequest,
+  scope: string
+): Promise<CacheLookupResult> {
+  const now = new Date();
+  const cacheKey = buildCacheKey(request, scope);
+
+  const exact = await db.responseCache.findUnique({
+    where: { shop_cacheKey: { shop: request.shop, cacheKey } }
+  });
+
+  if (exact && exact.expiresAt > now) {
+    const entry = parseEntry(exact.response);
+    if (entry) {
+      await db.responseCache.update({ where: { id: exact.id }, data: { hits: { increment: 1 } } });
+      return { entry, match: 'exact' };
+    }
+  }
+
+  // Answers tied to a product page are only reused for that exact page
+  if (!isSemanticCacheEnabled() || request.pageProductId) {
+    return { entry: null };
+  }
+
+  const embeddingService = getEmbeddingService();
+  const embedding = await embeddingService.generateEmbedding(normalizeCacheMessage(request.message));
+
+  const candidates = await db.responseCache.findMany({
+    where: {
+      shop: request.shop,
+      language: request.language,
+      intent: request.intent,
+      scope,
+      embedding: { not: null },
+      expiresAt: { gt: now }
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: RESPONSE_CACHE.MAX_SEMANTIC_CANDIDATES
+  });
+
+  let best: { id: string; response: string; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    try {
+      const similarity = embeddingService.cosineSimilarity(embedding, JSON.parse(candidate.embedding!));
+      if (similarity >= RESPONSE_CACHE.SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { id: candidate.id, response: candidate.response, similarity };
+      }
+    } catch {
+      // Ignore malformed embeddings
+    }
+  }
+
+  const entry = best ? parseEntry(best.response) : null;
+  if (!best || !entry) {
+    return { entry: null, embedding };
+  }
+
+  await db.responseCache.update({ where: { id: best.id }, data: { hits: { increment: 1 } } });
+  logger.debug({ shop: request.shop, similarity: best.similarity }, 'Semantic cache hit');
+  return { entry, match: 'semantic', embedding };
+}
+
+/**
+ * Store a reply and prune the shop's expired entries
+ */
+export async function storeCachedResponse(
+  request: ResponseCacheRequest,
+  scope: string,
+  value: CachedResponse,
+  options: { embedding?: number[] } = {}
+): Promise<void> {
+  const now = new Date();
+  const cacheKey = buildCacheKey(request, scope);
+  const data = {
+    scope,
+    language: request.language,
+    intent: request.intent,
+    message: normalizeCacheMessage(request.message),
+    embedding: options.embedding ? JSON.stringify(options.embedding) : null,
+    response: JSON.stringify(value),
+    hits: 0,
+    expiresAt: new Date(now.getTime() + getTtlSeconds(request.intent) * 1000)
+  };
+
+  await db.responseCache.upsert({
+    where: { shop_cacheKey: { shop: request.shop, cacheKey } },
+    update: data,
+    create: { shop: request.shop, cacheKey, ...data }
+  });
+
+  await db.responseCache.deleteMany({
+    where: { shop: request.shop, expiresAt: { lt: now } }
+  });
+}
+
+/**
+ * Drop cached replies for a shop (all of them, or only some intents)
+ *
+ * Called when settings are saved, products change or policies are refreshed.
+ */
+export async function invalidateResponseCache(
+  shop: string,
+  options: { intents?: string[]; reason?: string } = {}
+): Promise<number> {
+  try {
+    const result = await db.responseCache.deleteMany({
+      where: {
+        shop,
+        ...(options.intents ? { intent: { in: options.intents } } : {})
+      }
+    });
+
+    logger.info({
+      shop,
+      intents: options.intents || 'all',
+      reason: options.reason,
+      deleted: result.count
+    }, '🔄 Invalidated response cache');
+
+    return result.count;
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '❌ Failed to invalidate response cache');
+    return 0;
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * Shop Policy Service
+ *
+ * Refund, shipping, privacy, terms of service and contact policies stored
+ * per shop in the database, so every app instance answers from the same
+ * text. Policies are fetched from the Admin GraphQL API (`shop.shopPolicies`)
+ * and stored as plain text with a SHA-256 content hash and fetch timestamp:
+ *
+ * - on the shop/update webhook
+ * - in the background when the stored copy is older than SHOP_POLICY_REFRESH_HOURS
+ * - when the merchant refreshes them from the Policies page
+ *
+ * Merchants can override the text of each policy; the override is used
+ * instead of the fetched body until it is cleared. A changed hash or
+ * override invalidates cached support answers.
+ *
+ * The privacy, terms and contact intents are answered from the same text
+ * (getPolicyAnswer), with a contact card when an email or phone is published.
+ */
+
+import { createHash } from 'crypto';
+import type { ShopPolicy } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { SHOP_POLICIES } from '../config/limits';
+import { htmlToText } from './knowledge-sync.service.server';
+import { invalidateResponseCache, SUPPORT_CACHE_INTENTS } from './response-cache.service.server';
+import type { PipelineAdminClient } from './chat-pipeline/types';
+
+const logger = createLogger({ service: 'ShopPolicyService' });
+
+export const SHOP_POLICY_TYPES = ['refund', 'shipping', 'privacy', 'terms', 'contact'] as const;
+export type ShopPolicyType = typeof SHOP_POLICY_TYPES[number];
+
+// Shopify ShopPolicyType values
+const SHOPIFY_POLICY_TYPES: Record<string, ShopPolicyType> = {
+  REFUND_POLICY: 'refund',
+  SHIPPING_POLICY: 'shipping',
+  PRIVACY_POLICY: 'privacy',
+  TERMS_OF_SERVICE: 'terms',
+  CONTACT_INFORMATION: 'contact',
+};
+
+// ShopPolicies format for passing to N8N context
+export interface ShopPolicies {
+  shopName?: string;
+  returns?: string | null;
+  shipping?: string | null;
+  privacy?: string | null;
+  termsOfService?: string | null;
+  // Contact information policy (address, email, phone)
+  contact?: string | null;
+  contactEmail?: string | null;
+}
+
+/**
+ * Ways to reach the store shown to shoppers (messageType "contact_card")
+ */
+export interface ContactCard {
+  email: string | null;
+  phone: string | null;
+}
+
+// Policy answers built by getPolicyAnswer (shipping and returns have their own templates)
+export type PolicyAnswerTopic = 'privacy' | 'terms' | 'contact';
+
+export interface FetchedShopPolicy {
+  type: ShopPolicyType;
+  title: string | null;
+  body: string | null;
+  url: string | null;
+}
+
+// Background refreshes in progress in this process
+const refreshing = new Map<string, Promise<ShopPolicyType[]>>();
+
+export function hashPolicyBody(body: string | null): string | null {
+  return body ? createHash('sha256').update(body).digest('hex') : null;
+}
+
+/**
+ * Fetch the shop's published policies from the Admin API, as plain text
+ *
+ * @throws When the request fails or times out
+ */
+export async function fetchPoliciesFromShopify(admin: PipelineAdminClient): Promise<FetchedShopPolicy[]> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Policy fetch timed out')), SHOP_POLICIES.FETCH_TIMEOUT_MS);
+  });
+
+  let data: any;
+  try {
+    const response = await Promise.race([
+      admin.graphql(`
+        #graphql
+        query shopPolicies {
+          shop {
+            shopPolicies { type title body url }
+          }
+        }
+      `),
+      timeoutPromise,
+    ]);
+    data = await response.json();
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+
+  if (data?.errors?.length) {
+    throw new Error(`Shopify GraphQL error: ${data.errors[0]?.message || 'unknown error'}`);
+  }
+
+  const fetched = new Map<ShopPolicyType, FetchedShopPolicy>();
+  for (const policy of data?.data?.shop?.shopPolicies || []) {
+    const type = SHOPIFY_POLICY_TYPES[policy.type];
+    if (!type) continue;
+    const body = htmlToText(policy.body || '');
+    fetched.set(type, { type, title: policy.title || null, body: body || null, url: policy.url || null });
+  }
+
+  // Policies the store has not published are stored empty
+  return SHOP_POLICY_TYPES.map((type) => fetched.get(type) ?? { type, title: null, body: null, url: null });
+}
+
+/**
+ * Fetch and store the shop's policies
+ *
+ * @returns The policy types whose text changed
+ */
+export async function refreshShopPolicies(shop: string, admin: PipelineAdminClient): Promise<ShopPolicyType[]> {
+  const fetched = await fetchPoliciesFromShopify(admin);
+  const existing = await db.shopPolicy.findMany({ where: { shop } });
+  const fetchedAt = new Date();
+  const changed: ShopPolicyType[] = [];
+
+  for (const policy of fetched) {
+    const contentHash = hashPolicyBody(policy.body);
+    const current = existing.find((row) => row.type === policy.type);
+    if (!current || current.contentHash !== contentHash) {
+      changed.push(policy.type);
+    }
+
+    await db.shopPolicy.upsert({
+      where: { shop_type: { shop, type: policy.type } },
+      create: { shop, ...policy, contentHash, fetchedAt },
+      update: { title: policy.title, body: policy.body, url: policy.url, contentHash, fetchedAt },
+    });
+  }
+
+  // Only the first fetch of a shop has nothing cached to invalidate
+  if (changed.length > 0 && existing.length > 0) {
+    await invalidateResponseCache(shop, { intents: SUPPORT_CACHE_INTENTS, reason: 'policies_updated' });
+  }
+
+  logger.info({ shop, changed }, '📜 Shop policies refreshed');
+  return changed;
+}
+
+/**
+ * Refresh in the background, at most once at a time per shop in this process
+ */
+function refreshInBackground(shop: string, admin: PipelineAdminClient): void {
+  if (refreshing.has(shop)) return;
+
+  const refresh = refreshShopPolicies(shop, admin)
+    .catch((error) => {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop
+      }, '⚠️ Background policy refresh failed (non-blocking)');
+      return [];
+    })
+    .finally(() => refreshing.delete(shop));
+  refreshing.set(shop, refresh);
+}
+
+export async function listShopPolicies(shop: string): Promise<ShopPolicy[]> {
+  return db.shopPolicy.findMany({ where: { shop } });
+}
+
+/**
+ * Whether the stored policies are missing or older than the refresh interval
+ */
+export function isPolicyRefreshDue(rows: ShopPolicy[], now = Date.now()): boolean {
+  if (rows.length === 0) return true;
+  const oldest = Math.min(...rows.map((row) => row.fetchedAt?.getTime() ?? 0));
+  return now - oldest >= SHOP_POLICIES.REFRESH_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Text the assistant uses for a policy: the merchant override, else the fetched body
+ */
+export function getEffectivePolicyText(row: Pick<ShopPolicy, 'body' | 'overrideBody'> | undefined): string | null {
+  return row?.overrideBody?.trim() || row?.body || null;
+}
+
+/**
+ * Convert stored policies to the ShopPolicies format for the N8N context
+ */
+export function toShopPolicies(shop: string, rows: ShopPolicy[]): ShopPolicies | null {
+  if (rows.length === 0) return null;
+
+  const text = (type: ShopPolicyType) => getEffectivePolicyText(rows.find((row) => row.type === type));
+  return {
+    shopName: shop.replace('.myshopify.com', ''),
+    returns: text('refund'),
+    shipping: text('shipping'),
+    privacy: text('privacy'),
+    termsOfService: text('terms'),
+    contact: text('contact'),
+  };
+}
+
+/**
+ * Policies for a chat message
+ *
+ * Read from the database; the first message of a shop fetches them from
+ * Shopify, later ones refresh stale copies in the background.
+ */
+export async function getShopPolicies(shop: string, admin?: PipelineAdminClient): Promise<ShopPolicies | null> {
+  let rows = await listShopPolicies(shop);
+
+  if (admin && isPolicyRefreshDue(rows)) {
+    if (rows.length === 0) {
+      try {
+        await refreshShopPolicies(shop, admin);
+        rows = await listShopPolicies(shop);
+      } catch (error) {
+        logger.warn({
+          error: error instanceof Error ? error.message : String(error),
+          shop
+        }, '⚠️ Policy fetch failed (non-blocking)');
+      }
+    } else {
+      refreshInBackground(shop, admin);
+    }
+  }
+
+  return toShopPolicies(shop, rows);
+}
+
+/**
+ * Set (or clear, with an empty text) the merchant's text for a policy
+ */
+export async function setShopPolicyOverride(
+  shop: string,
+  type: ShopPolicyType,
+  text: string | null
+): Promise<ShopPolicy> {
+  const overrideBody = text?.trim() ? text.trim().substring(0, SHOP_POLICIES.MAX_OVERRIDE_CHARS) : null;
+
+  const policy = await db.shopPolicy.upsert({
+    where: { shop_type: { shop, type } },
+    create: { shop, type, overrideBody },
+    update: { overrideBody },
+  });
+
+  await invalidateResponseCache(shop, { intents: SUPPORT_CACHE_INTENTS, reason: 'policy_override_updated' });
+  logger.info({ shop, type, overridden: !!overrideBody }, '📜 Shop policy override updated');
+  return policy;
+}
+
+/**
+ * Truncate policy text to a reasonable preview length
+ * Tries to cut at sentence boundaries for better readability
+ */
+export function truncatePolicyText(text: string, maxLength: number): string {
+  // Strip HTML tags if present
+  const cleanText = text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (cleanText.length <= maxLength) {
+    return cleanText;
+  }
+
+  // Try to cut at a sentence boundary
+  const truncated = cleanText.substring(0, maxLength);
+  const lastPeriod = truncated.lastIndexOf('.');
+  const lastExclaim = truncated.lastIndexOf('!');
+  const lastQuestion = truncated.lastIndexOf('?');
+
+  const lastSentenceEnd = Math.max(lastPeriod, lastExclaim, lastQuestion);
+
+  if (lastSentenceEnd > maxLength * 0.5) {
+    return truncated.substring(0, lastSentenceEnd + 1);
+  }
+
+  // Fall back to cutting at word boundary
+  const lastSpace = truncated.lastIndexOf(' ');
+  if (lastSpace > maxLength * 0.8) {
+    return truncated.substring(0, lastSpace) + '...';
+  }
+
+  return truncated + '...';
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/i;
+// A number after a phone label in any widget locale, else any +country number
+const LABELED_PHONE_PATTERN = /(?:phone|tel|téléphone|teléfono|telefon|telefono|telefone|電話|电话)[^\d+\n]{0,20}(\+?\d[\d\s().-]{5,}\d)/i;
+const INTERNATIONAL_PHONE_PATTERN = /\+\d[\d\s().-]{5,}\d/;
+
+/**
+ * Email and phone number from the contact information policy
+ *
+ * @returns null when the store has published neither
+ */
+export function extractContactCard(policies: ShopPolicies | null | undefined): ContactCard | null {
+  const text = policies?.contact || '';
+  const email = policies?.contactEmail || text.match(EMAIL_PATTERN)?.[0] || null;
+  const phone = text.match(LABELED_PHONE_PATTERN)?.[1] || text.match(INTERNATIONAL_PHONE_PATTERN)?.[0] || null;
+  const hasPhone = !!phone && phone.replace(/\D/g, '').length >= 6;
+
+  if (!email && !hasPhone) return null;
+  return { email, phone: hasPhone ? phone!.trim() : null };
+}
+
+const POLICY_ANSWER_INTROS: Record<PolicyAnswerTopic, Record<string, string>> = {
+  privacy: {
+    en: "Here's how we handle your personal data:",
+    fr: "Voici comment nous traitons vos données personnelles :",
+    es: "Así es como tratamos sus datos personales:",
+    de: "So gehen wir mit Ihren persönlichen Daten um:",
+    pt: "Veja como tratamos os seus dados pessoais:",
+    it: "Ecco come trattiamo i tuoi dati personali:",
+    ja: "個人情報の取り扱いについて:",
+    zh: "我们如何处理您的个人信息:"
+  },
+  terms: {
+    en: "Here are our terms of service:",
+    fr: "Voici nos conditions générales :",
+    es: "Estos son nuestros términos del servicio:",
+    de: "Hier sind unsere Allgemeinen Geschäftsbedingungen:",
+    pt: "Estes são os nossos termos de serviço:",
+    it: "Ecco i nostri termini di servizio:",
+    ja: "利用規約:",
+    zh: "这是我们的服务条款:"
+  },
+  contact: {
+    en: "Here's how to reach us:",
+    fr: "Voici comment nous contacter :",
+    es: "Así puede contactarnos:",
+    de: "So erreichen Sie uns:",
+    pt: "Veja como falar conosco:",
+    it: "Ecco come contattarci:",
+    ja: "お問い合わせ先:",
+    zh: "联系方式:"
+  }
+};
+
+/**
+ * Localized answer built from the shop's privacy, terms or contact policy,
+ * or the default message when the store has not published it
+ */
+export function getPolicyAnswer(
+  topic: PolicyAnswerTopic,
+  policies: ShopPolicies | null | undefined,
+  language: string,
+  maxLength = 400
+): string {
+  const langCode = language.toLowerCase().split('-')[0] || 'en';
+  const intro = POLICY_ANSWER_INTROS[topic][langCode] ?? POLICY_ANSWER_INTROS[topic]['en']!;
+  const text = topic === 'privacy'
+    ? policies?.privacy
+    : topic === 'terms' ? policies?.termsOfService : policies?.contact;
+
+  if (text?.trim()) {
+    return `${intro}\n\n${truncatePolicyText(text, maxLength)}`;
+  }
+
+  if (topic === 'contact' && policies?.contactEmail) {
+    return `${intro}\n\n📧 ${policies.contactEmail}`;
+  }
+
+  return getDefaultPolicyMessage(topic, langCode);
+}
+
+/**
+ * Generate fallback message for a specific policy type based on language
+ * Used when the shop has not configured their policies
+ */
+export function getDefaultPolicyMessage(
+  policyType: 'returns' | 'shipping' | 'privacy' | 'terms' | 'contact',
+  language: string
+): string {
+  const messages: Record<string, Record<string, string>> = {
+    returns: {
+      en: "Return policy information is not configured for this store. Please contact customer support for details about returns and refunds.",
+      fr: "La politique de retour n'est pas configurée pour cette boutique. Veuillez contacter le service client pour plus d'informations sur les retours et remboursements.",
+      es: "La política de devoluciones no está configurada para esta tienda. Contacte al servicio de atención al cliente para obtener más información.",
+      de: "Die Rückgaberichtlinie ist für diesen Shop nicht konfiguriert. Bitte kontaktieren Sie den Kundenservice für weitere Informationen.",
+      pt: "A política de devolução não está configurada para esta loja. Entre em contato com o suporte ao cliente para mais informações.",
+      it: "La politica di reso non è configurata per questo negozio. Contatta il servizio clienti per maggiori informazioni.",
+      ja: "このストアには返品ポリシーが設定されていません。返品・返金の詳細はカスタマーサポートまでお問い合わせください。",
+      zh: "本店尚未设置退货政策。有关退货和退款的详细信息，请联系客服。"
+    },
+    shipping: {
+      en: "Shipping policy information is not configured for this store. Please contact customer support for details about shipping options and delivery times.",
+      fr: "La politique de livraison n'est pas configurée pour cette boutique. Veuillez contacter le service client pour plus d'informations sur les options de livraison.",
+      es: "La política de envío no está configurada para esta tienda. Contacte al servicio de atención al cliente para obtener más información.",
+      de: "Die Versandrichtlinie ist für diesen Shop nicht konfiguriert. Bitte kontaktieren Sie den Kundenservice für weitere Informationen.",
+      pt: "A política de envio não está configurada para esta loja. Entre em contato com o suporte ao cliente para mais informações.",
+      it: "La politica di spedizione non è configurata per questo negozio. Contatta il servizio clienti per maggiori informazioni.",
+      ja: "このストアには配送ポリシーが設定されていません。配送方法やお届け日数はカスタマーサポートまでお問い合わせください。",
+      zh: "本店尚未设置配送政策。有关配送方式和送达时间，请联系客服。"
+    },
+    privacy: {
+      en: "Privacy policy information is not available. Please contact customer support for more details.",
+      fr: "La politique de confidentialité n'est pas disponible. Veuillez contacter le service client pour plus d'informations.",
+      es: "La política de privacidad no está disponible. Contacte al servicio de atención al cliente para más información.",
+      de: "Die Datenschutzrichtlinie ist nicht verfügbar. Bitte kontaktieren Sie den Kundenservice für weitere Informationen.",
+      pt: "A política de privacidade não está disponível. Entre em contato com o suporte ao cliente para mais informações.",
+      it: "La politica sulla privacy non è disponibile. Contatta il servizio clienti per maggiori informazioni.",
+      ja: "プライバシーポリシーは公開されていません。詳しくはカスタマーサポートまでお問い合わせください。",
+      zh: "暂无隐私政策信息。详情请联系客服。"
+    },
+    terms: {
+      en: "Terms of service are not published for this store. Please contact customer support if you have questions about our terms.",
+      fr: "Les conditions générales ne sont pas publiées pour cette boutique. Veuillez contacter le service client pour toute question.",
+      es: "Los términos del servicio no están publicados para esta tienda. Contacte al servicio de atención al cliente si tiene preguntas.",
+      de: "Für diesen Shop sind keine Allgemeinen Geschäftsbedingungen veröffentlicht. Bitte kontaktieren Sie den Kundenservice bei Fragen.",
+      pt: "Os termos de serviço não estão publicados para esta loja. Entre em contato com o suporte ao cliente se tiver dúvidas.",
+      it: "I termini di servizio non sono pubblicati per questo negozio. Contatta il servizio clienti per qualsiasi domanda.",
+      ja: "このストアの利用規約は公開されていません。ご質問はカスタマーサポートまでお問い合わせください。",
+      zh: "本店尚未发布服务条款。如有疑问，请联系客服。"
+    },
+    contact: {
+      en: "Contact details are not published for this store yet. I can still help with questions about products, shipping and returns.",
+      fr: "Les coordonnées de cette boutique ne sont pas encore publiées. Je peux tout de même vous aider pour les produits, la livraison et les retours.",
+      es: "Los datos de contacto de esta tienda aún no están publicados. Aun así puedo ayudarle con productos, envíos y devoluciones.",
+      de: "Die Kontaktdaten dieses Shops sind noch nicht veröffentlicht. Bei Fragen zu Produkten, Versand und Rückgaben helfe ich Ihnen gerne.",
+      pt: "Os dados de contato desta loja ainda não foram publicados. Ainda posso ajudar com produtos, envios e devoluções.",
+      it: "I recapiti di questo negozio non sono ancora pubblicati. Posso comunque aiutarti con prodotti, spedizioni e resi.",
+      ja: "このストアの連絡先はまだ公開されていません。商品・配送・返品についてのご質問にはお答えできます。",
+      zh: "本店尚未公布联系方式。不过我仍可以解答有关商品、配送和退货的问题。"
+    }
+  };
+
+  const langCode = language.toLowerCase().split('-')[0] || 'en';
+  const policyMessages = messages[policyType];
+  if (!policyMessages) return '';
+  return policyMessages[langCode] ?? policyMessages['en']!;
+}
@@ -0,0 +1,381 @@
+/**
+ * Transcript Service
+ *
+ * Emails chat transcripts (see lib/transcript.server) through the configured
+ * mail transport:
+ * - shopper_request: the shopper asks for a copy from the widget. Only the
+ *   email they left through lead capture is accepted, and copies are capped
+ *   per session, per shop and per recipient so the public endpoint cannot
+ *   relay mail to arbitrary addresses
+ * - escalation: a conversation queued for a human is forwarded to the
+ *   merchant's address (WidgetSettings.transcriptEmail)
+ *
+ * Every attempt, sent or failed, is recorded as a TranscriptDelivery on the
+ * chat session.
+ */
+
+import type { TranscriptDelivery } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { TRANSCRIPTS } from '../config/limits';
+import { unauthenticated } from '../shopify.server';
+import { normalizeLocale } from '../lib/language-id.server';
+import {
+  getShopDisplayName,
+  renderTranscript,
+  type Transcript,
+  type TranscriptProductCard,
+} from '../lib/transcript.server';
+import { resolveMailTransport } from './mail/index.server';
+import { mapProductNode, queryAdmin } from './chat-pipeline/products.server';
+import { toProductGid } from './chat-pipeline/verify-recommendations.server';
+import type { PipelineAdminClient } from './chat-pipeline/types';
+import type { HandoffReason } from './handoff.service.server';
+
+const logger = createLogger({ service: 'TranscriptService' });
+
+export const TRANSCRIPT_TRIGGERS = ['shopper_request', 'escalation'] as const;
+export type TranscriptTrigger = typeof TRANSCRIPT_TRIGGERS[number];
+
+export type TranscriptSendStatus =
+  | 'sent'
+  | 'failed'
+  | 'not_found'
+  | 'unverified_recipient'
+  | 'limit_reached'
+  | 'disabled';
+
+export interface TranscriptSendResult {
+  status: TranscriptSendStatus;
+  deliveryId?: string;
+}
+
+export interface SendTranscriptOptions {
+  shop: string;
+  chatSessionId: string;
+  to: string;
+  trigger: TranscriptTrigger;
+  // Widget language of the shopper (shopper copies only)
+  language?: string | null;
+  subject?: string;
+  note?: string;
+}
+
+const TRANSCRIPT_PRODUCTS_QUERY = `
+  #graphql
+  query transcriptProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+        handle
+        featuredImage { url }
+        variants(first: 1) {
+          edges {
+            node {
+              price
+              compareAtPrice
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+function parseProductIds(value: string | null): string[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function productUrl(shop: string, handle: string): string {
+  return `https://${shop}/products/${encodeURIComponent(handle)}`;
+}
+
+/**
+ * Product cards for the products shown in a conversation, keyed by gid
+ *
+ * Uses the Admin API (image and price); products it cannot return fall back
+ * to the synced catalog (title and link only).
+ */
+async function loadProductCards(shop: string, productIds: string[]): Promise<Map<string, TranscriptProductCard>> {
+  const cards = new Map<string, TranscriptProductCard>();
+  const gids = [...new Set(productIds.map(toProductGid).filter((gid): gid is string => !!gid))];
+  if (gids.length === 0) {
+    return cards;
+  }
+
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    const data = await queryAdmin(admin as unknown as PipelineAdminClient, TRANSCRIPT_PRODUCTS_QUERY, { ids: gids });
+    for (const node of data?.nodes || []) {
+      if (!node?.id || !node.handle) continue;
+      const product = mapProductNode(node);
+      cards.set(product.id, {
+        id: product.id,
+        title: product.title,
+        url: productUrl(shop, product.handle),
+        image: product.image || null,
+        price: product.price || null,
+      });
+    }
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Product lookup for transcript failed (non-blocking)');
+  }
+
+  const missing = gids.filter((gid) => !cards.has(gid));
+  if (missing.length > 0) {
+    const embeddings = await db.productEmbedding.findMany({
+      where: { shop, productId: { in: missing } },
+      select: { productId: true, title: true, productHandle: true }
+    });
+    for (const embedding of embeddings) {
+      cards.set(embedding.productId, {
+        id: embedding.productId,
+        title: embedding.title,
+        url: productUrl(shop, embedding.productHandle),
+      });
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Latest messages of one of the shop's sessions with their product cards
+ *
+ * @returns null when the session does not belong to the shop
+ */
+export async function loadTranscript(shop: string, chatSessionId: string): Promise<Transcript | null> {
+  const session = await db.chatSession.findFirst({
+    where: { id: chatSessionId, shop },
+    select: { id: true, createdAt: true }
+  });
+  if (!session) {
+    return null;
+  }
+
+  const messages = (await db.chatMessage.findMany({
+    where: { sessionId: chatSessionId },
+    orderBy: { timestamp: 'desc' },
+    take: TRANSCRIPTS.MAX_MESSAGES,
+    select: { role: true, content: true, timestamp: true, productsShown: true, metadata: true }
+  })).reverse();
+
+  const productIds = messages.map((message) => parseProductIds(message.productsShown));
+  const cards = await loadProductCards(shop, productIds.flat());
+
+  return {
+    shop,
+    chatSessionId,
+    startedAt: session.createdAt.toISOString(),
+    messages: messages.map((message, index) => {
+      let agentName: string | null = null;
+      if (message.role === 'agent') {
+        try {
+          agentName = JSON.parse(message.metadata || '{}').agentName ?? null;
+        } catch {
+          // Keep the message without a name
+        }
+      }
+
+      const products = (productIds[index] || [])
+        .map((id) => cards.get(toProductGid(id) || id))
+        .filter((card): card is TranscriptProductCard => !!card)
+        .slice(0, TRANSCRIPTS.MAX_PRODUCT_CARDS);
+
+      return {
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp.toISOString(),
+        agentName,
+        products
+      };
+    })
+  };
+}
+
+/**
+ * Gate a shopper's request for a copy
+ *
+ * The address must be a lead captured for the session's shopper profile.
+ *
+ * @returns the status to stop with, or null when the copy can be sent
+ */
+async function checkShopperRequest(
+  shop: string,
+  chatSessionId: string,
+  recipient: string
+): Promise<TranscriptSendStatus | null> {
+  const session = await db.chatSession.findFirst({
+    where: { id: chatSessionId, shop },
+    select: { userProfileId: true }
+  });
+  if (!session) {
+    return 'not_found';
+  }
+
+  const lead = await db.lead.findFirst({
+    where: { shop, email: recipient, userProfileId: session.userProfileId },
+    select: { id: true }
+  });
+  if (!lead) {
+    logger.info({ shop, chatSessionId }, '🚫 Transcript address does not match a captured lead');
+    return 'unverified_recipient';
+  }
+
+  const since = new Date(Date.now() - TRANSCRIPTS.SHOPPER_SEND_WINDOW_HOURS * 60 * 60 * 1000);
+  const sent = { trigger: 'shopper_request', status: 'sent' };
+  const [sessionSends, shopSends, recipientSends] = await Promise.all([
+    db.transcriptDelivery.count({ where: { ...sent, shop, chatSessionId } }),
+    db.transcriptDelivery.count({ where: { ...sent, shop, createdAt: { gte: since } } }),
+    db.transcriptDelivery.count({ where: { ...sent, recipient, createdAt: { gte: since } } })
+  ]);
+  if (
+    sessionSends >= TRANSCRIPTS.MAX_SHOPPER_SENDS_PER_SESSION ||
+    shopSends >= TRANSCRIPTS.MAX_SHOPPER_SENDS_PER_SHOP ||
+    recipientSends >= TRANSCRIPTS.MAX_SHOPPER_SENDS_PER_RECIPIENT
+  ) {
+    logger.warn({ shop, chatSessionId, sessionSends, shopSends, recipientSends }, '⚠️ Transcript send limit reached');
+    return 'limit_reached';
+  }
+
+  return null;
+}
+
+/**
+ * Render and email a session's transcript, recording the delivery on the session
+ */
+export async function sendTranscript(options: SendTranscriptOptions): Promise<TranscriptSendResult> {
+  const { shop, chatSessionId, trigger } = options;
+  // Leads are stored lowercased; shopper copies are matched and counted the same way
+  const to = trigger === 'shopper_request' ? options.to.toLowerCase() : options.to;
+
+  const transport = resolveMailTransport();
+  if (!transport) {
+    logger.warn({ shop, chatSessionId, trigger }, '⚠️ Email is not configured - transcript not sent');
+    return { status: 'disabled' };
+  }
+
+  if (trigger === 'shopper_request') {
+    const blocked = await checkShopperRequest(shop, chatSessionId, to);
+    if (blocked) {
+      return { status: blocked };
+    }
+  }
+
+  const transcript = await loadTranscript(shop, chatSessionId);
+  if (!transcript) {
+    return { status: 'not_found' };
+  }
+
+  const rendered = renderTranscript(transcript, {
+    language: trigger === 'shopper_request' ? normalizeLocale(options.language) ?? 'en' : 'en',
+    subject: options.subject,
+    note: options.note
+  });
+
+  let status: 'sent' | 'failed' = 'sent';
+  let messageId: string | null = null;
+  let errorMessage: string | null = null;
+  try {
+    const delivery = await transport.send({ to, subject: rendered.subject, html: rendered.html, text: rendered.text });
+    messageId = delivery.messageId || null;
+  } catch (error) {
+    status = 'failed';
+    errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn({ error: errorMessage, shop, chatSessionId, trigger }, '⚠️ Transcript email failed');
+  }
+
+  const record = await db.transcriptDelivery.create({
+    data: {
+      shop,
+      chatSessionId,
+      recipient: to,
+      trigger,
+      status,
+      transport: transport.name,
+      messageId,
+      error: errorMessage
+    }
+  });
+
+  if (status === 'sent') {
+    logger.info({ shop, chatSessionId, trigger, transport: transport.name, messages: transcript.messages.length }, '📧 Transcript sent');
+  }
+  return { status, deliveryId: record.id };
+}
+
+/**
+ * Forward an escalated conversation to the merchant
+ *
+ * @returns null when the shop has no forwarding address
+ */
+export async function forwardEscalationTranscript(
+  shop: string,
+  chatSessionId: string,
+  reason: HandoffReason
+): Promise<TranscriptSendResult | null> {
+  const to = await getTranscriptEmail(shop);
+  if (!to) {
+    return null;
+  }
+
+  return sendTranscript({
+    shop,
+    chatSessionId,
+    to,
+    trigger: 'escalation',
+    subject: `Conversation escalated on ${getShopDisplayName(shop)} (${reason.replace(/_/g, ' ')})`,
+    note: 'A shopper was handed over to your team. Open the Handoff queue in the app to take the conversation.'
+  });
+}
+
+export async function getTranscriptEmail(shop: string): Promise<string | null> {
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop },
+    select: { transcriptEmail: true }
+  });
+  return settings?.transcriptEmail || null;
+}
+
+export async function saveTranscriptEmail(shop: string, email: string | null): Promise<void> {
+  const transcriptEmail = email?.trim() || null;
+  await db.widgetSettings.upsert({
+    where: { shop },
+    update: { transcriptEmail },
+    create: { shop, transcriptEmail }
+  });
+  logger.info({ shop, forwarding: !!transcriptEmail }, '📧 Transcript forwarding address saved');
+}
+
+/**
+ * Latest deliveries per session, newest first
+ */
+export async function listTranscriptDeliveries(
+  shop: string,
+  chatSessionIds: string[]
+): Promise<Map<string, TranscriptDelivery[]>> {
+  const bySession = new Map<string, TranscriptDelivery[]>();
+  if (chatSessionIds.length === 0) {
+    return bySession;
+  }
+
+  const deliveries = await db.transcriptDelivery.findMany({
+    where: { shop, chatSessionId: { in: chatSessionIds } },
+    orderBy: { createdAt: 'desc' }
+  });
+  for (const delivery of deliveries) {
+    const list = bySession.get(delivery.chatSessionId) || [];
+    if (list.length < TRANSCRIPTS.HISTORY_LIMIT) list.push(delivery);
+    bySession.set(delivery.chatSessionId, list);
+  }
+  return bySession;
+}
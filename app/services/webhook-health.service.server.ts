@@ -0,0 +1,420 @@
+/**
+ * Webhook Health Service
+ *
+ * Circuit breaker and health record for N8N webhooks, one per shop and
+ * webhook URL. After N8N_RESILIENCE.FAILURE_THRESHOLD consecutive failures
+ * the circuit opens and messages go straight to local fallback processing
+ * instead of waiting for the webhook timeout. Once the open period has
+ * passed, a single probe request (half-open) decides whether it closes again.
+ *
+ * Circuit state is kept in memory and mirrored to the WebhookHealth table,
+ * together with last success, error rate and p95 latency over recent calls,
+ * so it survives cold starts and can be shown on the settings page.
+ */
+
+import { createHash } from 'crypto';
+import type { WebhookHealth } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { captureMessage } from '../lib/sentry.server';
+import { N8N_RESILIENCE } from '../config/limits';
+
+const logger = createLogger({ service: 'WebhookHealth' });
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type WebhookHealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+// Error rate (%) over recent calls above which a closed circuit shows as degraded
+const DEGRADED_ERROR_RATE = 20;
+
+// Failures worth retrying: the workflow never ran, or asked us to come back later.
+// Request timeouts (ECONNABORTED) are not retried - the workflow may still be running.
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ETIMEDOUT'];
+
+interface CallSample {
+  ok: boolean;
+  ms: number;
+  at: number;
+}
+
+interface Circuit {
+  shop: string;
+  webhookKey: string;
+  maskedUrl: string;
+  workflowType: 'custom' | 'default';
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  downSince: Date | null;
+  alertedAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  lastStatus: number | null;
+  recentCalls: CallSample[];
+  // Only one request is let through while half-open
+  probeInFlight: boolean;
+}
+
+export interface WebhookFailure {
+  status?: number;
+  code?: string;
+  message: string;
+  latencyMs: number;
+}
+
+export interface WebhookHealthSummary {
+  status: WebhookHealthStatus;
+  state: CircuitState;
+  workflowType: string;
+  maskedUrl: string;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  lastStatus: number | null;
+  downSince: string | null;
+  errorRate: number; // % of recent calls that failed
+  p95LatencyMs: number | null;
+  sampleSize: number;
+}
+
+const circuits = new Map<string, Circuit>();
+
+export function getWebhookKey(url: string): string {
+  return createHash('sha256').update(url).digest('hex');
+}
+
+/**
+ * Mask the webhook ID (last path segment) so the URL can be logged or shown
+ */
+export function maskWebhookUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/');
+
+    // Mask the webhook ID (last part of path)
+    if (pathParts.length > 0) {
+      const lastPart = pathParts[pathParts.length - 1];
+      if (lastPart.length > 8) {
+        pathParts[pathParts.length - 1] = lastPart.substring(0, 4) + '****' + lastPart.substring(lastPart.length - 4);
+      }
+    }
+
+    urlObj.pathname = pathParts.join('/');
+    return urlObj.toString();
+  } catch {
+    return '[INVALID URL FORMAT]';
+  }
+}
+
+/**
+ * Anything other than the plan workflows configured in the environment is a
+ * merchant's own workflow
+ */
+export function isCustomWebhookUrl(url: string): boolean {
+  return url !== process.env.N8N_WEBHOOK_URL && url !== process.env.N8N_WEBHOOK_BYOK;
+}
+
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (status) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+  return RETRYABLE_CODES.includes(error?.code);
+}
+
+/**
+ * Full-jitter exponential backoff for the given retry (0-based)
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const cap = Math.min(
+    N8N_RESILIENCE.RETRY_MAX_DELAY_MS,
+    N8N_RESILIENCE.RETRY_BASE_DELAY_MS * 2 ** attempt
+  );
+  return Math.round(Math.random() * cap);
+}
+
+function parseCalls(raw: string | null | undefined): CallSample[] {
+  try {
+    const parsed = JSON.parse(raw || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function loadCircuit(shop: string, url: string, maskedUrl: string): Promise<Circuit> {
+  const webhookKey = getWebhookKey(url);
+  const mapKey = `${shop}|${webhookKey}`;
+  const cached = circuits.get(mapKey);
+  if (cached) {
+    return cached;
+  }
+
+  const circuit: Circuit = {
+    shop,
+    webhookKey,
+    maskedUrl,
+    workflowType: isCustomWebhookUrl(url) ? 'custom' : 'default',
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    downSince: null,
+    alertedAt: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    lastStatus: null,
+    recentCalls: [],
+    probeInFlight: false
+  };
+
+  if (shop) {
+    try {
+      const record = await db.webhookHealth.findUnique({
+        where: { shop_webhookKey: { shop, webhookKey } }
+      });
+
+      if (record) {
+        Object.assign(circuit, {
+          state: record.state as CircuitState,
+          consecutiveFailures: record.consecutiveFailures,
+          openedAt: record.openedAt,
+          downSince: record.downSince,
+          alertedAt: record.alertedAt,
+          lastSuccessAt: record.lastSuccessAt,
+          lastFailureAt: record.lastFailureAt,
+          lastError: record.lastError,
+          lastStatus: record.lastStatus,
+          recentCalls: parseCalls(record.recentCalls)
+        });
+      }
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : String(error),
+        shop
+      }, '⚠️ Failed to load webhook health - starting with a closed circuit');
+    }
+  }
+
+  circuits.set(mapKey, circuit);
+  return circuit;
+}
+
+async function persistCircuit(circuit: Circuit): Promise<void> {
+  // Calls without a shop (e.g. connection tests) are only tracked in memory
+  if (!circuit.shop) {
+    return;
+  }
+
+  const data = {
+    maskedUrl: circuit.maskedUrl,
+    workflowType: circuit.workflowType,
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt,
+    downSince: circuit.downSince,
+    alertedAt: circuit.alertedAt,
+    lastSuccessAt: circuit.lastSuccessAt,
+    lastFailureAt: circuit.lastFailureAt,
+    lastError: circuit.lastError,
+    lastStatus: circuit.lastStatus,
+    recentCalls: JSON.stringify(circuit.recentCalls)
+  };
+
+  try {
+    await db.webhookHealth.upsert({
+      where: { shop_webhookKey: { shop: circuit.shop, webhookKey: circuit.webhookKey } },
+      update: data,
+      create: { shop: circuit.shop, webhookKey: circuit.webhookKey, ...data }
+    });
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop: circuit.shop
+    }, '⚠️ Failed to save webhook health (non-blocking)');
+  }
+}
+
+function addSample(circuit: Circuit, sample: CallSample): void {
+  circuit.recentCalls = [...circuit.recentCalls, sample].slice(-N8N_RESILIENCE.HEALTH_SAMPLE_SIZE);
+}
+
+/**
+ * Alert once when a merchant's custom workflow has been down for a while
+ */
+function maybeAlert(circuit: Circuit, now: Date): void {
+  if (
+    circuit.workflowType !== 'custom' ||
+    circuit.state === 'closed' ||
+    !circuit.downSince ||
+    circuit.alertedAt ||
+    now.getTime() - circuit.downSince.getTime() < N8N_RESILIENCE.ALERT_AFTER_MINUTES * 60 * 1000
+  ) {
+    return;
+  }
+
+  circuit.alertedAt = now;
+
+  const details = {
+    shop: circuit.shop,
+    maskedUrl: circuit.maskedUrl,
+    downSince: circuit.downSince.toISOString(),
+    lastError: circuit.lastError,
+    lastStatus: circuit.lastStatus
+  };
+
+  logger.error(details, '🚫 Custom N8N workflow is down - shoppers are getting fallback replies');
+  captureMessage('Custom N8N workflow down', 'error', details);
+}
+
+/**
+ * Check whether a request may be sent to the webhook
+ */
+export async function acquireWebhookCircuit(
+  shop: string,
+  url: string,
+  maskedUrl: string
+): Promise<{ allowed: boolean; state: CircuitState }> {
+  const circuit = await loadCircuit(shop, url, maskedUrl);
+
+  if (circuit.state === 'open') {
+    const openForMs = Date.now() - (circuit.openedAt?.getTime() ?? 0);
+    if (openForMs < N8N_RESILIENCE.OPEN_DURATION_SECONDS * 1000) {
+      return { allowed: false, state: 'open' };
+    }
+
+    circuit.state = 'half_open';
+    circuit.probeInFlight = false;
+  }
+
+  if (circuit.state === 'half_open') {
+    if (circuit.probeInFlight) {
+      return { allowed: false, state: 'half_open' };
+    }
+    circuit.probeInFlight = true;
+  }
+
+  return { allowed: true, state: circuit.state };
+}
+
+export async function recordWebhookSuccess(
+  shop: string,
+  url: string,
+  maskedUrl: string,
+  latencyMs: number
+): Promise<void> {
+  const circuit = await loadCircuit(shop, url, maskedUrl);
+  const now = new Date();
+
+  if (circuit.state !== 'closed') {
+    logger.info({
+      shop,
+      maskedUrl,
+      downSince: circuit.downSince?.toISOString()
+    }, '✅ Webhook recovered - circuit closed');
+  }
+
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.downSince = null;
+  circuit.alertedAt = null;
+  circuit.probeInFlight = false;
+  circuit.lastSuccessAt = now;
+  addSample(circuit, { ok: true, ms: latencyMs, at: now.getTime() });
+
+  await persistCircuit(circuit);
+}
+
+export async function recordWebhookFailure(
+  shop: string,
+  url: string,
+  maskedUrl: string,
+  failure: WebhookFailure
+): Promise<void> {
+  const circuit = await loadCircuit(shop, url, maskedUrl);
+  const now = new Date();
+
+  circuit.consecutiveFailures += 1;
+  circuit.downSince = circuit.downSince ?? now;
+  circuit.lastFailureAt = now;
+  circuit.lastError = (failure.code ? `${failure.code}: ` : '') + failure.message.substring(0, 200);
+  circuit.lastStatus = failure.status ?? null;
+  circuit.probeInFlight = false;
+  addSample(circuit, { ok: false, ms: failure.latencyMs, at: now.getTime() });
+
+  // A failed probe re-opens the circuit straight away
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= N8N_RESILIENCE.FAILURE_THRESHOLD) {
+    if (circuit.state === 'closed') {
+      logger.warn({
+        shop,
+        maskedUrl,
+        consecutiveFailures: circuit.consecutiveFailures,
+        lastError: circuit.lastError
+      }, '🚫 Webhook circuit opened - using fallback processing');
+    }
+
+    circuit.state = 'open';
+    circuit.openedAt = now;
+  }
+
+  maybeAlert(circuit, now);
+  await persistCircuit(circuit);
+}
+
+/**
+ * Health summary for a stored record (error rate and p95 over recent calls)
+ */
+export function summarizeWebhookHealth(record: WebhookHealth): WebhookHealthSummary {
+  const calls = parseCalls(record.recentCalls);
+  const failures = calls.filter((call) => !call.ok).length;
+  const latencies = calls.map((call) => call.ms).sort((a, b) => a - b);
+  const errorRate = calls.length > 0 ? Math.round((failures / calls.length) * 1000) / 10 : 0;
+  const state = record.state as CircuitState;
+
+  let status: WebhookHealthStatus;
+  if (state !== 'closed') {
+    status = 'down';
+  } else if (calls.length === 0) {
+    status = 'unknown';
+  } else {
+    status = errorRate >= DEGRADED_ERROR_RATE ? 'degraded' : 'healthy';
+  }
+
+  return {
+    status,
+    state,
+    workflowType: record.workflowType,
+    maskedUrl: record.maskedUrl,
+    lastSuccessAt: record.lastSuccessAt?.toISOString() ?? null,
+    lastFailureAt: record.lastFailureAt?.toISOString() ?? null,
+    lastError: record.lastError,
+    lastStatus: record.lastStatus,
+    downSince: record.downSince?.toISOString() ?? null,
+    errorRate,
+    p95LatencyMs: latencies.length > 0
+      ? latencies[Math.ceil(latencies.length * 0.95) - 1]!
+      : null,
+    sampleSize: calls.length
+  };
+}
+
+/**
+ * Stored health of a shop's webhook, or null when it has not been called yet
+ */
+export async function getWebhookHealth(shop: string, url: string): Promise<WebhookHealthSummary | null> {
+  try {
+    const record = await db.webhookHealth.findUnique({
+      where: { shop_webhookKey: { shop, webhookKey: getWebhookKey(url) } }
+    });
+    return record ? summarizeWebhookHealth(record) : null;
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop
+    }, '⚠️ Failed to load webhook health');
+    return null;
+  }
+}
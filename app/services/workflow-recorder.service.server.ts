@@ -0,0 +1,355 @@
+/**
+ * Workflow Recorder Service
+ *
+ * Opt-in recorder of N8N request/response pairs for debugging a merchant's
+ * workflow. Requests and responses are redacted before they are stored
+ * (API keys, customer identifiers, emails, phone numbers and credential
+ * formats), together with status, latency and response validation warnings.
+ *
+ * Recordings can be replayed from the admin console against the shop's
+ * current webhook or another URL. Replays are sent straight to the webhook:
+ * they never go through the chat pipeline, so they do not count toward
+ * conversation limits, analytics, the response cache or webhook health.
+ */
+
+import axios from 'axios';
+import type { WorkflowRecording } from '@prisma/client';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { REDACTED, checkOutput } from '../lib/guardrails.server';
+import { signWebhookPayload } from '../lib/webhook-signing.server';
+import { TIMEOUTS, WORKFLOW_RECORDER } from '../config/limits';
+import { parseN8NResponse, type N8NResponseWarning } from './n8n-response.server';
+import { maskWebhookUrl } from './webhook-health.service.server';
+import type { N8NRequest } from './n8n.service.server';
+
+const logger = createLogger({ service: 'WorkflowRecorder' });
+
+export const REPLAY_HEADER = 'X-Shopibot-Replay';
+
+// Fields removed wherever they appear in a payload
+const REDACTED_KEYS = new Set([
+  'openaiApiKey',
+  'apiKey',
+  'accessToken',
+  'customerId',
+  'customerEmail',
+  'email',
+  'phone',
+  'cartId',
+]);
+
+// Shopper-written text, where phone numbers are also redacted
+// (elsewhere digit runs are ids, prices and timestamps)
+const FREE_TEXT_KEYS = new Set(['userMessage', 'content', 'previousMessages', 'conversationSummary', 'message']);
+
+const EMAIL_PATTERN = /[^\s@"]+@[^\s@"]+\.[^\s@"]+/g;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+
+// Prune old recordings on roughly one write in this many
+const PRUNE_EVERY = 20;
+
+export interface WorkflowCall {
+  shop: string;
+  maskedUrl: string;
+  request: N8NRequest;
+  responseData?: unknown;
+  warnings?: N8NResponseWarning[];
+  status?: number;
+  latencyMs: number;
+  error?: string;
+  source?: 'live' | 'replay';
+  replayOf?: string;
+}
+
+// Row shown in the recorder console list
+export interface WorkflowRecordingSummary {
+  id: string;
+  source: string;
+  replayOf: string | null;
+  maskedUrl: string;
+  intent: string | null;
+  status: number | null;
+  latencyMs: number;
+  error: string | null;
+  warningCount: number;
+  userMessage: string;
+  createdAt: string;
+}
+
+export interface JsonDiffEntry {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Redact a string: credential formats and emails, plus phone numbers in free text
+ */
+function redactText(text: string, freeText = false): string {
+  const redacted = checkOutput(text).redacted.replace(EMAIL_PATTERN, REDACTED);
+  return freeText ? redacted.replace(PHONE_PATTERN, REDACTED) : redacted;
+}
+
+/**
+ * Deep copy of a payload with sensitive fields and values redacted
+ */
+export function redactPayload<T>(value: T): T {
+  const visit = (node: unknown, freeText = false): unknown => {
+    if (typeof node === 'string') {
+      const redacted = redactText(node, freeText);
+      return redacted.length > WORKFLOW_RECORDER.MAX_FIELD_CHARS
+        ? `${redacted.substring(0, WORKFLOW_RECORDER.MAX_FIELD_CHARS)}…`
+        : redacted;
+    }
+    if (Array.isArray(node)) {
+      return node.map((item) => visit(item, freeText));
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node as Record<string, unknown>).map(([key, child]) => [
+          key,
+          REDACTED_KEYS.has(key) && child !== undefined && child !== null
+            ? REDACTED
+            : visit(child, FREE_TEXT_KEYS.has(key)),
+        ])
+      );
+    }
+    return node;
+  };
+
+  return visit(value) as T;
+}
+
+/**
+ * Differences between two JSON values, keyed by path (e.g. "recommendations[0].price")
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonDiffEntry[] {
+  if (Object.is(before, after)) return [];
+
+  const isContainer = (value: unknown) => !!value && typeof value === 'object';
+  if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+    if (before === undefined) return [{ path: path || '$', kind: 'added', after }];
+    if (after === undefined) return [{ path: path || '$', kind: 'removed', before }];
+    return [{ path: path || '$', kind: 'changed', before, after }];
+  }
+
+  const entries: JsonDiffEntry[] = [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      entries.push(...diffJson(before[i], after[i], `${path}[${i}]`));
+    }
+    return entries;
+  }
+
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    entries.push(...diffJson(a[key], b[key], path ? `${path}.${key}` : key));
+  }
+  return entries;
+}
+
+/**
+ * Store one workflow call (non-blocking: a database failure never breaks the chat)
+ */
+export async function recordWorkflowCall(call: WorkflowCall): Promise<WorkflowRecording | null> {
+  if (!call.shop) return null;
+
+  try {
+    const request = redactPayload(call.request);
+    const recording = await db.workflowRecording.create({
+      data: {
+        shop: call.shop,
+        source: call.source ?? 'live',
+        replayOf: call.replayOf ?? null,
+        maskedUrl: call.maskedUrl,
+        intent: request.context?.supportCategory || request.context?.intent || null,
+        request: JSON.stringify(request),
+        response: call.responseData === undefined ? null : JSON.stringify(redactPayload(call.responseData)),
+        warnings: JSON.stringify(call.warnings ?? []),
+        status: call.status ?? null,
+        latencyMs: Math.round(call.latencyMs),
+        error: call.error ? redactText(call.error, true).substring(0, 500) : null,
+      }
+    });
+
+    if (Math.random() * PRUNE_EVERY < 1) {
+      await pruneWorkflowRecordings(call.shop);
+    }
+
+    return recording;
+  } catch (error) {
+    logger.warn({
+      error: error instanceof Error ? error.message : String(error),
+      shop: call.shop
+    }, '⚠️ Failed to store workflow recording (non-blocking)');
+    return null;
+  }
+}
+
+/**
+ * Delete recordings past the retention period or beyond the per-shop cap
+ */
+export async function pruneWorkflowRecordings(shop: string): Promise<number> {
+  const cutoff = new Date(Date.now() - WORKFLOW_RECORDER.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await db.workflowRecording.deleteMany({
+    where: { shop, createdAt: { lt: cutoff } }
+  });
+
+  const overflow = await db.workflowRecording.findMany({
+    where: { shop },
+    orderBy: { createdAt: 'desc' },
+    skip: WORKFLOW_RECORDER.MAX_RECORDINGS_PER_SHOP,
+    select: { id: true }
+  });
+
+  let removed = expired.count;
+  if (overflow.length > 0) {
+    const result = await db.workflowRecording.deleteMany({
+      where: { id: { in: overflow.map((row) => row.id) } }
+    });
+    removed += result.count;
+  }
+
+  if (removed > 0) {
+    logger.info({ shop, removed }, '🧹 Pruned workflow recordings');
+  }
+  return removed;
+}
+
+export async function isWorkflowRecorderEnabled(shop: string): Promise<boolean> {
+  const settings = await db.widgetSettings.findUnique({
+    where: { shop },
+    select: { workflowRecorderEnabled: true }
+  });
+  return !!settings?.workflowRecorderEnabled;
+}
+
+/**
+ * Turn recording on or off; turning it off deletes the shop's recordings
+ */
+export async function setWorkflowRecorderEnabled(shop: string, enabled: boolean): Promise<void> {
+  await db.widgetSettings.update({
+    where: { shop },
+    data: { workflowRecorderEnabled: enabled }
+  });
+
+  if (!enabled) {
+    await db.workflowRecording.deleteMany({ where: { shop } });
+  }
+
+  logger.info({ shop, enabled }, enabled ? '⏺️ Workflow recorder enabled' : '⏹️ Workflow recorder disabled');
+}
+
+export async function listWorkflowRecordings(shop: string, limit = 50): Promise<WorkflowRecording[]> {
+  return db.workflowRecording.findMany({
+    where: { shop },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
+
+export async function getWorkflowRecording(shop: string, id: string): Promise<WorkflowRecording | null> {
+  return db.workflowRecording.findFirst({ where: { id, shop } });
+}
+
+/**
+ * Parse a stored JSON column (invalid data yields null)
+ */
+export function parseRecordedJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function toRecordingSummary(recording: WorkflowRecording): WorkflowRecordingSummary {
+  const request = parseRecordedJson(recording.request) as Partial<N8NRequest> | null;
+  const warnings = parseRecordedJson(recording.warnings);
+
+  return {
+    id: recording.id,
+    source: recording.source,
+    replayOf: recording.replayOf,
+    maskedUrl: recording.maskedUrl,
+    intent: recording.intent,
+    status: recording.status,
+    latencyMs: recording.latencyMs,
+    error: recording.error,
+    warningCount: Array.isArray(warnings) ? warnings.length : 0,
+    userMessage: typeof request?.userMessage === 'string' ? request.userMessage.substring(0, 120) : '',
+    createdAt: recording.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Send a recorded request again and store the result as a replay
+ *
+ * The request is sent as recorded (redacted fields stay redacted), signed
+ * with the shop's secret and marked with the X-Shopibot-Replay header.
+ */
+export async function replayWorkflowRecording(
+  shop: string,
+  id: string,
+  options: { webhookUrl: string; signingSecret?: string | null }
+): Promise<WorkflowRecording | null> {
+  const original = await getWorkflowRecording(shop, id);
+  if (!original) return null;
+
+  const request = parseRecordedJson(original.request) as N8NRequest | null;
+  if (!request) {
+    throw new Error('Recorded request is not valid JSON');
+  }
+
+  const body = JSON.stringify(request);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [REPLAY_HEADER]: '1',
+    ...(options.signingSecret ? signWebhookPayload(options.signingSecret, body) : {}),
+  };
+
+  const maskedUrl = maskWebhookUrl(options.webhookUrl);
+  const startedAt = Date.now();
+
+  logger.info({ shop, recordingId: id, maskedUrl }, '🔁 Replaying workflow recording');
+
+  try {
+    const response = await axios.post(options.webhookUrl, body, {
+      headers,
+      timeout: TIMEOUTS.N8N_WEBHOOK_MS,
+      transformRequest: [() => body],
+    });
+    const parsed = parseN8NResponse(response.data);
+
+    return await recordWorkflowCall({
+      shop,
+      maskedUrl,
+      request,
+      responseData: response.data,
+      warnings: parsed.warnings,
+      status: response.status,
+      latencyMs: Date.now() - startedAt,
+      error: parsed.response ? undefined : 'Response missing message field',
+      source: 'replay',
+      replayOf: id,
+    });
+  } catch (error: any) {
+    return recordWorkflowCall({
+      shop,
+      maskedUrl,
+      request,
+      responseData: error?.response?.data,
+      status: error?.response?.status,
+      latencyMs: Date.now() - startedAt,
+      error: error?.message || 'Unknown error',
+      source: 'replay',
+      replayOf: id,
+    });
+  }
+}
@@ -12,6 +12,10 @@ let isOnline = navigator.onLine;
 let translations = null; // Store loaded translations
 let currentChatSessionId = null; // Track current chat session for rating
 let conversationId = null; // Unique ID per conversation for rating tracking (resets on chat open)
+let activeAgent = null; // Staff member who took the conversation over from the live inbox
+let agentPollTimer = null;
+let shopAvailable = true; // false outside the shop's business hours
+let leadEmail = null; // Email the shopper left through lead capture (transcripts only go there)
 
 // Track page load time for welcome popup timing
 const pageLoadTime = Date.now();
@@ -74,7 +78,42 @@ async function loadTranslations(lang) {
       returnsPrompt: 'What is your return policy?',
       trackOrderPrompt: 'How can I track my order?',
       bestSellersPrompt: 'Show me your popular products',
-      recommendedPrompt: 'Show me recommendations for me'
+      recommendedPrompt: 'Show me recommendations for me',
+      orderNumberLabel: 'Order number',
+      orderContactLabel: 'Email or phone on the order',
+      orderLookupSubmit: 'Find my order',
+      orderTrackingLabel: 'Tracking',
+      contactCardTitle: 'Contact us',
+      contactEmail: 'Email us',
+      contactCall: 'Call us',
+      handoffQueued: 'Thanks! Your conversation has been passed to our team. Someone will get back to you as soon as possible.',
+      handoffFailed: "We couldn't reach our team right now. You can still contact us from our contact page.",
+      agentJoined: '{name} from our team joined the chat',
+      agentLeft: 'Our team member left the chat. The assistant is back to help.',
+      agentStatus: 'Chatting with {name}',
+      agentFallbackName: 'A team member',
+      away: 'Away',
+      offlineFormIntro: "Our team is away right now. Leave your question and we'll reply by email.",
+      offlineName: 'Your name',
+      offlineEmail: 'Email',
+      offlineQuestion: 'Your question',
+      offlineSubmit: 'Send message',
+      offlineSent: "Thanks! We've got your message and will reply by email when we're back.",
+      offlineFailed: "Sorry, we couldn't send your message. Please try again.",
+      emailTranscript: 'Email this chat',
+      transcriptIntro: "Get a copy of this conversation, including the products we showed you.",
+      transcriptSubmit: 'Send copy',
+      transcriptSent: 'Done! A copy of this chat is on its way to {email}.',
+      transcriptFailed: "Sorry, we couldn't email this chat. Please try again later.",
+      transcriptUnverified: 'We can only send a copy to the email you shared with us in this chat.',
+      transcriptEmpty: 'Send a message first, then you can email yourself the conversation.',
+      leadIntro: 'Want to hear about new arrivals and offers? Leave your email.',
+      leadFirstName: 'First name (optional)',
+      leadConsent: 'Yes, send me news and offers by email. I can unsubscribe at any time.',
+      leadSubmit: 'Keep me posted',
+      leadDismiss: 'No thanks',
+      leadThanks: "Thanks! We've saved your email.",
+      leadFailed: "Sorry, we couldn't save your email. Please try again."
     };
     return translations;
   }
@@ -1066,10 +1105,15 @@ async function handleFileUpload(file) {
   }
 }
 
-async function sendMessageToServer(message) {
+function supportsStreaming() {
+  return typeof window.ReadableStream !== 'undefined' && typeof window.TextDecoder !== 'undefined';
+}
+
+async function sendMessageToServer(message, extraContext = {}) {
   showLoading(true);
   try {
     const contextData = {
+      ...extraContext,
       sessionId: sessionId, // ✅ FIX: Include sessionId to maintain conversation
       page: window.location.pathname,
       productId: getProductIdFromPage(),
@@ -1084,60 +1128,174 @@ async function sendMessageToServer(message) {
     const response = await fetchWithRetry(url, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        // Ask for a streamed reply; the server answers with plain JSON when it can't stream
+        'Accept': supportsStreaming() ? 'text/event-stream, application/json' : 'application/json'
       },
       body: JSON.stringify({ userMessage: message, products: [], context: contextData })
     });
 
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream') && response.body && response.body.getReader) {
+      await readStreamedResponse(message, response);
+      return;
+    }
+
     const data = await response.json();
     showLoading(false);
+    handleChatResponse(message, data);
+  } catch (error) {
+    showLoading(false);
+    addMessageToChat('assistant', 'Sorry, I encountered an error. Please try again.');
+    trackAnalytics(analyticsEvents.ERROR_OCCURRED, { errorMessage: error.message, errorType: error.name });
+  }
+}
 
-    if (data.response || data.message) {
-      const responseMessage = data.response || data.message;
-      addMessageToChat('assistant', responseMessage);
+// Consume `event:`/`data:` frames from the chat stream, rendering tokens as they arrive
+async function readStreamedResponse(message, response) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let streamedText = '';
+  let bubble = null;
+  let finalData = null;
+
+  const handleFrame = (frame) => {
+    let event = 'message';
+    let dataLine = '';
+    frame.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLine += line.slice(5).trim();
+    });
+    if (!dataLine) return; // heartbeat comment
 
-      // ✅ FIX: Capture chatSessionId for rating tracking
-      if (data.chatSessionId) {
-        currentChatSessionId = data.chatSessionId;
-      }
+    let data;
+    try { data = JSON.parse(dataLine); } catch (e) { return; }
 
-      // Show product recommendations when backend sends them
-      // Backend already filters when to send recommendations
-      if (data.recommendations?.length) {
-        displayProductRecommendations(data.recommendations);
+    if (event === 'token') {
+      if (!bubble) {
+        showLoading(false);
+        bubble = createStreamingMessage();
       }
+      streamedText += data.text || '';
+      bubble.update(streamedText);
+    } else if (event === 'chatSessionId' && data.chatSessionId) {
+      currentChatSessionId = data.chatSessionId;
+    } else if (event === 'done') {
+      finalData = data;
+    } else if (event === 'error') {
+      finalData = { ...data, success: false };
+    }
+  };
 
-      // Quick replies removed - no longer displaying quick action buttons
-
-      if (data.suggestedActions?.length) displaySuggestedActions(data.suggestedActions);
-      else displaySuggestedActions([]);
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      handleFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  if (buffer.trim()) handleFrame(buffer);
 
-      if (data.sentiment) {
-        applySentimentStyling(data.sentiment);
-      }
+  showLoading(false);
 
-      if (data.requiresHumanEscalation) displayHumanEscalationPrompt();
+  if (!finalData || finalData.success === false) {
+    if (bubble) bubble.remove();
+    addMessageToChat('assistant', (finalData && finalData.message) || 'Sorry, I encountered an error. Please try again.');
+    return;
+  }
 
-      conversationHistory.push(
-        { role: 'user', content: message },
-        { role: 'assistant', content: responseMessage }
-      );
-      if (conversationHistory.length > 10) conversationHistory = conversationHistory.slice(-10);
-      console.log('[Rating Debug] Conversation updated, length:', conversationHistory.length);
-      saveConversationHistory();
+  // The final text wins: the server may have changed what was streamed
+  if (bubble) bubble.update(finalData.response || finalData.message || streamedText);
+  handleChatResponse(message, finalData, !!bubble);
+}
 
-      trackAnalytics(analyticsEvents.MESSAGE_RECEIVED, {
-        responseLength: responseMessage.length,
-        hasRecommendations: !!data.recommendations?.length,
-        hasSuggestions: !!data.quickReplies?.length
+// Assistant bubble whose text is replaced as streamed tokens arrive
+function createStreamingMessage() {
+  addMessageToChat('assistant', ' ');
+  const messageDiv = elements.messagesContainer && elements.messagesContainer.lastElementChild;
+  const messageContent = messageDiv && messageDiv.querySelector('.message-content');
+
+  return {
+    update(text) {
+      if (!messageContent) return;
+      messageContent.textContent = '';
+      const lines = text.replace(/^\s+/, '').split('\n');
+      lines.forEach((line, index) => {
+        messageContent.appendChild(document.createTextNode(line));
+        if (index < lines.length - 1) messageContent.appendChild(document.createElement('br'));
       });
-    } else {
-      addMessageToChat('assistant', 'Sorry, I encountered an error. Please try again.');
+      scrollToBottom();
+    },
+    remove() {
+      if (messageDiv) messageDiv.remove();
     }
-  } catch (error) {
-    showLoading(false);
+  };
+}
+
+function handleChatResponse(message, data, alreadyRendered = false) {
+  // A staff member holds the conversation: no AI reply, their answer arrives by polling
+  if (data.messageType === 'agent_mode') {
+    if (data.chatSessionId) currentChatSessionId = data.chatSessionId;
+    setAgentPresence(data.agent);
+    conversationHistory.push({ role: 'user', content: message });
+    saveConversationHistory();
+    scheduleAgentPoll(1000);
+    return;
+  }
+
+  if (data.response || data.message) {
+    const responseMessage = data.response || data.message;
+    if (!alreadyRendered) addMessageToChat('assistant', responseMessage);
+
+    // ✅ FIX: Capture chatSessionId for rating tracking
+    if (data.chatSessionId) {
+      currentChatSessionId = data.chatSessionId;
+    }
+
+    // Show product recommendations when backend sends them
+    // Backend already filters when to send recommendations
+    if (data.recommendations?.length) {
+      displayProductRecommendations(data.recommendations);
+    }
+
+    if (data.orderStatus) displayOrderTimeline(data.orderStatus);
+    else if (data.messageType === 'order_lookup_request') displayOrderLookupForm();
+    if (data.contactCard) displayContactCard(data.contactCard);
+
+    // Quick replies removed - no longer displaying quick action buttons
+
+    if (data.suggestedActions?.length) displaySuggestedActions(data.suggestedActions);
+    else displaySuggestedActions([]);
+
+    if (data.sentiment) {
+      applySentimentStyling(data.sentiment);
+    }
+
+    if (data.availability) setShopAvailability(data.availability.open);
+    if (data.requiresHumanEscalation) displayHumanEscalationPrompt(data.escalationReason);
+    else if (data.messageType === 'lead_capture' && data.leadCapture) displayLeadCaptureForm(data.leadCapture);
+
+    conversationHistory.push(
+      { role: 'user', content: message },
+      { role: 'assistant', content: responseMessage }
+    );
+    if (conversationHistory.length > 10) conversationHistory = conversationHistory.slice(-10);
+    console.log('[Rating Debug] Conversation updated, length:', conversationHistory.length);
+    saveConversationHistory();
+
+    trackAnalytics(analyticsEvents.MESSAGE_RECEIVED, {
+      responseLength: responseMessage.length,
+      hasRecommendations: !!data.recommendations?.length,
+      hasSuggestions: !!data.quickReplies?.length,
+      streamed: alreadyRendered
+    });
+  } else {
     addMessageToChat('assistant', 'Sorry, I encountered an error. Please try again.');
-    trackAnalytics(analyticsEvents.ERROR_OCCURRED, { errorMessage: error.message, errorType: error.name });
   }
 }
 
@@ -1269,6 +1427,7 @@ function displaySuggestedActions(suggestedActions) {
     const icons = {
       'view_product': '👁️',
       'add_to_cart': '🛒',
+      'cart_link': '🛒',
       'compare': '⚖️',
       'custom': '✨'
     };
@@ -1314,7 +1473,7 @@ function displaySuggestedActions(suggestedActions) {
   }
 }
 
-function displayHumanEscalationPrompt() {
+function displayHumanEscalationPrompt(reason) {
   const messagesContainer = document.getElementById('ai-chat-messages');
   if (!messagesContainer) return;
   const existingPrompt = document.getElementById('escalation-prompt');
@@ -1372,9 +1531,21 @@ function displayHumanEscalationPrompt() {
     connectBtn.style.transform = 'translateY(0)';
     connectBtn.style.boxShadow = 'none';
   };
-  connectBtn.onclick = () => {
-    const safeUrl = sanitizeUrl('/pages/contact');
-    if (safeUrl) window.open(safeUrl, '_blank', 'noopener,noreferrer');
+  connectBtn.onclick = async () => {
+    connectBtn.disabled = true;
+    // Nobody to hand over to outside business hours: leave a message instead
+    const result = shopAvailable ? await requestHumanHandoff(reason) : 'offline';
+    escalationPrompt.remove();
+    if (result === 'queued') {
+      addMessageToChat('assistant', t('handoffQueued'));
+    } else if (result === 'offline') {
+      setShopAvailability(false);
+      displayOfflineMessageForm();
+    } else {
+      addMessageToChat('assistant', t('handoffFailed'));
+      const safeUrl = sanitizeUrl('/pages/contact');
+      if (safeUrl) window.open(safeUrl, '_blank', 'noopener,noreferrer');
+    }
   };
   buttonsContainer.appendChild(connectBtn);
   const continueBtn = document.createElement('button');
@@ -1411,6 +1582,755 @@ function displayHumanEscalationPrompt() {
   messagesContainer.scrollTop = messagesContainer.scrollHeight;
 }
 
+// Add the conversation to the shop's handoff queue ('queued', 'offline' or 'failed')
+async function requestHumanHandoff(reason) {
+  if (!currentChatSessionId) return 'failed';
+  try {
+    const response = await fetch('https://dermi.vercel.app/api/handoff', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        shop: widgetSettings.shopDomain,
+        chatSessionId: currentChatSessionId,
+        reason: reason || 'explicit_request'
+      })
+    });
+    const data = await response.json();
+    if (data.offline) return 'offline';
+    return data.success ? 'queued' : 'failed';
+  } catch (error) {
+    console.error('Error requesting a human:', error);
+    return 'failed';
+  }
+}
+
+// Name / email / question form shown instead of the handoff outside business hours
+function displayOfflineMessageForm() {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer) return;
+  const existingForm = document.getElementById('offline-message-form');
+  if (existingForm) existingForm.remove();
+
+  const form = document.createElement('form');
+  form.id = 'offline-message-form';
+  form.className = 'ai-message assistant-message';
+  form.style.cssText = `
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    background: #f8f9fa;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px;
+    margin: 8px 0;
+  `;
+  const inputStyle = `
+    padding: 10px 12px;
+    border: 1px solid #d1d5db;
+    border-radius: 8px;
+    font-size: 14px;
+    font-family: inherit;
+  `;
+
+  const intro = document.createElement('p');
+  intro.style.cssText = 'margin: 0 0 4px 0; font-size: 14px; line-height: 1.5;';
+  intro.textContent = t('offlineFormIntro');
+  form.appendChild(intro);
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.maxLength = 100;
+  nameInput.autocomplete = 'name';
+  nameInput.placeholder = t('offlineName');
+  nameInput.setAttribute('aria-label', t('offlineName'));
+  nameInput.style.cssText = inputStyle;
+  form.appendChild(nameInput);
+
+  const emailInput = document.createElement('input');
+  emailInput.type = 'email';
+  emailInput.required = true;
+  emailInput.maxLength = 254;
+  emailInput.autocomplete = 'email';
+  emailInput.placeholder = t('offlineEmail');
+  emailInput.setAttribute('aria-label', t('offlineEmail'));
+  emailInput.style.cssText = inputStyle;
+  form.appendChild(emailInput);
+
+  const questionInput = document.createElement('textarea');
+  questionInput.required = true;
+  questionInput.maxLength = 2000;
+  questionInput.rows = 3;
+  questionInput.placeholder = t('offlineQuestion');
+  questionInput.setAttribute('aria-label', t('offlineQuestion'));
+  questionInput.style.cssText = inputStyle + 'resize: vertical;';
+  // Prefill with the shopper's last message
+  const lastUserMessage = [...conversationHistory].reverse().find(entry => entry.role === 'user');
+  if (lastUserMessage) questionInput.value = lastUserMessage.content;
+  form.appendChild(questionInput);
+
+  const submitBtn = document.createElement('button');
+  submitBtn.type = 'submit';
+  submitBtn.textContent = `✉️ ${t('offlineSubmit')}`;
+  submitBtn.style.cssText = `
+    background: ${widgetSettings.primaryColor || '#ee5cee'};
+    color: white;
+    border: none;
+    padding: 10px 16px;
+    border-radius: 8px;
+    font-size: 14px;
+    font-weight: 600;
+    cursor: pointer;
+  `;
+  form.appendChild(submitBtn);
+
+  form.onsubmit = async (event) => {
+    event.preventDefault();
+    const email = emailInput.value.trim();
+    const question = questionInput.value.trim();
+    if (!email || !question) return;
+    submitBtn.disabled = true;
+    const sent = await submitOfflineMessage(nameInput.value.trim(), email, question);
+    if (sent) {
+      form.remove();
+      addMessageToChat('assistant', t('offlineSent'));
+    } else {
+      submitBtn.disabled = false;
+      showNotification(t('offlineFailed'), 'error');
+    }
+  };
+
+  messagesContainer.appendChild(form);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+  (lastUserMessage ? emailInput : questionInput).focus();
+}
+
+async function submitOfflineMessage(name, email, question) {
+  if (!currentChatSessionId) return false;
+  try {
+    const response = await fetch('https://dermi.vercel.app/api/offline-message', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        shop: widgetSettings.shopDomain,
+        chatSessionId: currentChatSessionId,
+        ...(name ? { name } : {}),
+        email,
+        question
+      })
+    });
+    const data = await response.json();
+    return !!data.success;
+  } catch (error) {
+    console.error('Error sending offline message:', error);
+    return false;
+  }
+}
+
+// "Email this chat": send the shopper a copy of the conversation
+function displayTranscriptForm() {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer) return;
+  if (!currentChatSessionId) {
+    showNotification(t('transcriptEmpty'), 'info');
+    return;
+  }
+  const existingForm = document.getElementById('transcript-form');
+  if (existingForm) {
+    existingForm.remove();
+    return;
+  }
+
+  const form = document.createElement('form');
+  form.id = 'transcript-form';
+  form.className = 'ai-message assistant-message';
+  form.style.cssText = `
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    background: #f8f9fa;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px;
+    margin: 8px 0;
+  `;
+
+  const intro = document.createElement('p');
+  intro.style.cssText = 'margin: 0 0 4px 0; font-size: 14px; line-height: 1.5;';
+  intro.textContent = t('transcriptIntro');
+  form.appendChild(intro);
+
+  const emailInput = document.createElement('input');
+  emailInput.type = 'email';
+  emailInput.required = true;
+  emailInput.maxLength = 254;
+  emailInput.autocomplete = 'email';
+  emailInput.placeholder = t('offlineEmail');
+  emailInput.setAttribute('aria-label', t('offlineEmail'));
+  if (leadEmail) emailInput.value = leadEmail;
+  emailInput.style.cssText = `
+    padding: 10px 12px;
+    border: 1px solid #d1d5db;
+    border-radius: 8px;
+    font-size: 14px;
+    font-family: inherit;
+  `;
+  form.appendChild(emailInput);
+
+  const submitBtn = document.createElement('button');
+  submitBtn.type = 'submit';
+  submitBtn.textContent = `✉️ ${t('transcriptSubmit')}`;
+  submitBtn.style.cssText = `
+    background: ${widgetSettings.primaryColor || '#ee5cee'};
+    color: white;
+    border: none;
+    padding: 10px 16px;
+    border-radius: 8px;
+    font-size: 14px;
+    font-weight: 600;
+    cursor: pointer;
+  `;
+  form.appendChild(submitBtn);
+
+  form.onsubmit = async (event) => {
+    event.preventDefault();
+    const email = emailInput.value.trim();
+    if (!email) return;
+    submitBtn.disabled = true;
+    const status = await requestTranscriptEmail(email);
+    if (status === 'sent') {
+      form.remove();
+      addMessageToChat('assistant', t('transcriptSent').replace('{email}', email));
+    } else {
+      submitBtn.disabled = false;
+      showNotification(t(status === 'unverified_recipient' ? 'transcriptUnverified' : 'transcriptFailed'), 'error');
+    }
+  };
+
+  messagesContainer.appendChild(form);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+  emailInput.focus();
+}
+
+async function requestTranscriptEmail(email) {
+  try {
+    const response = await fetch('https://dermi.vercel.app/api/transcript', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        shop: widgetSettings.shopDomain,
+        chatSessionId: currentChatSessionId,
+        email,
+        language: widgetSettings.interfaceLanguage || 'en'
+      })
+    });
+    const data = await response.json();
+    return data.status || 'failed';
+  } catch (error) {
+    console.error('Error emailing transcript:', error);
+    return 'failed';
+  }
+}
+
+// Email opt-in offered by the assistant or the shop's rule (once per conversation)
+function displayLeadCaptureForm(leadCapture) {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer || !currentChatSessionId) return;
+  const existingForm = document.getElementById('lead-capture-form');
+  if (existingForm) existingForm.remove();
+
+  const form = document.createElement('form');
+  form.id = 'lead-capture-form';
+  form.className = 'ai-message assistant-message';
+  form.style.cssText = `
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    background: #f8f9fa;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px;
+    margin: 8px 0;
+  `;
+  const inputStyle = `
+    padding: 10px 12px;
+    border: 1px solid #d1d5db;
+    border-radius: 8px;
+    font-size: 14px;
+    font-family: inherit;
+  `;
+
+  const intro = document.createElement('p');
+  intro.style.cssText = 'margin: 0 0 4px 0; font-size: 14px; line-height: 1.5;';
+  intro.textContent = t('leadIntro');
+  form.appendChild(intro);
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.maxLength = 100;
+  nameInput.autocomplete = 'given-name';
+  nameInput.placeholder = t('leadFirstName');
+  nameInput.setAttribute('aria-label', t('leadFirstName'));
+  nameInput.style.cssText = inputStyle;
+  form.appendChild(nameInput);
+
+  const emailInput = document.createElement('input');
+  emailInput.type = 'email';
+  emailInput.required = true;
+  emailInput.maxLength = 254;
+  emailInput.autocomplete = 'email';
+  emailInput.placeholder = t('offlineEmail');
+  emailInput.setAttribute('aria-label', t('offlineEmail'));
+  emailInput.style.cssText = inputStyle;
+  form.appendChild(emailInput);
+
+  // Marketing consent is opt-in: never pre-ticked
+  const consentLabel = document.createElement('label');
+  consentLabel.style.cssText = 'display: flex; gap: 8px; align-items: flex-start; font-size: 13px; line-height: 1.4; cursor: pointer;';
+  const consentInput = document.createElement('input');
+  consentInput.type = 'checkbox';
+  consentInput.checked = false;
+  consentInput.style.cssText = 'margin-top: 2px;';
+  const consentText = document.createElement('span');
+  consentText.textContent = t('leadConsent');
+  consentLabel.appendChild(consentInput);
+  consentLabel.appendChild(consentText);
+  form.appendChild(consentLabel);
+
+  const actions = document.createElement('div');
+  actions.style.cssText = 'display: flex; gap: 8px; align-items: center;';
+
+  const submitBtn = document.createElement('button');
+  submitBtn.type = 'submit';
+  submitBtn.textContent = `✉️ ${t('leadSubmit')}`;
+  submitBtn.style.cssText = `
+    background: ${widgetSettings.primaryColor || '#ee5cee'};
+    color: white;
+    border: none;
+    padding: 10px 16px;
+    border-radius: 8px;
+    font-size: 14px;
+    font-weight: 600;
+    cursor: pointer;
+  `;
+  actions.appendChild(submitBtn);
+
+  const dismissBtn = document.createElement('button');
+  dismissBtn.type = 'button';
+  dismissBtn.textContent = t('leadDismiss');
+  dismissBtn.style.cssText = `
+    background: none;
+    border: none;
+    color: #6b7280;
+    font-size: 14px;
+    cursor: pointer;
+    text-decoration: underline;
+  `;
+  dismissBtn.onclick = () => form.remove();
+  actions.appendChild(dismissBtn);
+  form.appendChild(actions);
+
+  form.onsubmit = async (event) => {
+    event.preventDefault();
+    const email = emailInput.value.trim();
+    if (!email) return;
+    submitBtn.disabled = true;
+    const saved = await submitLead({
+      email,
+      firstName: nameInput.value.trim(),
+      marketingConsent: consentInput.checked,
+      consentText: consentText.textContent,
+      trigger: leadCapture.trigger
+    });
+    if (saved) {
+      leadEmail = email;
+      form.remove();
+      addMessageToChat('assistant', t('leadThanks'));
+    } else {
+      submitBtn.disabled = false;
+      showNotification(t('leadFailed'), 'error');
+    }
+  };
+
+  messagesContainer.appendChild(form);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+}
+
+async function submitLead(lead) {
+  try {
+    const response = await fetch('https://dermi.vercel.app/api/lead', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        shop: widgetSettings.shopDomain,
+        chatSessionId: currentChatSessionId,
+        email: lead.email,
+        ...(lead.firstName ? { firstName: lead.firstName } : {}),
+        marketingConsent: lead.marketingConsent,
+        consentText: lead.consentText,
+        trigger: lead.trigger
+      })
+    });
+    const data = await response.json();
+    return !!data.success;
+  } catch (error) {
+    console.error('Error saving lead:', error);
+    return false;
+  }
+}
+
+// Online / Away from the shop's business hours
+async function refreshAvailability() {
+  try {
+    const response = await fetch(`https://dermi.vercel.app/api/availability?shop=${encodeURIComponent(widgetSettings.shopDomain)}`);
+    if (!response.ok) return;
+    const data = await response.json();
+    if (data.availability) setShopAvailability(data.availability.open);
+  } catch (error) {
+    console.error('Error loading availability:', error);
+  }
+}
+
+function setShopAvailability(open) {
+  shopAvailable = !!open;
+  updateHeaderStatus();
+}
+
+// Header status: staff member in the chat, away outside business hours, otherwise online
+function updateHeaderStatus() {
+  const statusText = document.querySelector('#ai-chat-window .status-text');
+  const headerStatus = document.querySelector('#ai-chat-window .header-status');
+  if (statusText) {
+    if (activeAgent) {
+      statusText.textContent = t('agentStatus').replace('{name}', activeAgent.name || t('agentFallbackName'));
+    } else if (!shopAvailable) {
+      statusText.textContent = t('away');
+    } else {
+      statusText.textContent = widgetSettings.statusText || t('online');
+    }
+  }
+  if (headerStatus) {
+    headerStatus.classList.toggle('agent-active', !!activeAgent);
+    headerStatus.classList.toggle('away', !activeAgent && !shopAvailable);
+  }
+}
+
+// ======================
+// Live Agent Messages
+// ======================
+
+function loadAgentCursor() {
+  try {
+    return localStorage.getItem('ai_assistant_agent_cursor');
+  } catch (e) {
+    return null;
+  }
+}
+
+function saveAgentCursor(cursor) {
+  try {
+    localStorage.setItem('ai_assistant_agent_cursor', cursor);
+  } catch (e) {
+    // Ignore if localStorage unavailable
+  }
+}
+
+function scheduleAgentPoll(delay) {
+  clearTimeout(agentPollTimer);
+  agentPollTimer = chatOpen ? setTimeout(pollAgentMessages, delay) : null;
+}
+
+function stopAgentPolling() {
+  clearTimeout(agentPollTimer);
+  agentPollTimer = null;
+}
+
+// Ask the server for staff replies sent since the last one shown
+async function pollAgentMessages() {
+  let nextDelay = 15000;
+  // Nothing to take over until the shopper has written
+  if (!currentChatSessionId && conversationHistory.length === 0) {
+    scheduleAgentPoll(nextDelay);
+    return;
+  }
+
+  let cursor = loadAgentCursor();
+  if (!cursor) {
+    cursor = new Date().toISOString();
+    saveAgentCursor(cursor);
+  }
+
+  try {
+    const params = new URLSearchParams({ shop: widgetSettings.shopDomain, sessionId: sessionId, after: cursor });
+    const response = await fetch(`https://dermi.vercel.app/api/agent-messages?${params.toString()}`);
+    if (response.ok) {
+      const data = await response.json();
+      if (data.chatSessionId) currentChatSessionId = data.chatSessionId;
+      setAgentPresence(data.agent);
+      (data.messages || []).forEach(agentMessage => {
+        addMessageToChat('agent', agentMessage.content);
+        conversationHistory.push({ role: 'assistant', content: agentMessage.content });
+        saveAgentCursor(agentMessage.timestamp);
+      });
+      if (data.messages?.length) saveConversationHistory();
+      if (data.pollAfterMs) nextDelay = data.pollAfterMs;
+    }
+  } catch (error) {
+    console.error('Error checking for staff messages:', error);
+  }
+  scheduleAgentPoll(nextDelay);
+}
+
+// "Human joined" indicator: notice in the conversation and header status
+function setAgentPresence(agent) {
+  const joined = !!agent;
+  if (joined === !!activeAgent && (!joined || agent.name === activeAgent.name)) return;
+  activeAgent = agent || null;
+
+  const name = (activeAgent && activeAgent.name) || t('agentFallbackName');
+  updateHeaderStatus();
+
+  const escalationPrompt = document.getElementById('escalation-prompt');
+  if (escalationPrompt && joined) escalationPrompt.remove();
+
+  if (!elements.messagesContainer) return;
+  const notice = document.createElement('div');
+  notice.className = 'ai-agent-notice';
+  notice.setAttribute('role', 'status');
+  notice.textContent = activeAgent ? t('agentJoined').replace('{name}', name) : t('agentLeft');
+  elements.messagesContainer.appendChild(notice);
+  scrollToBottom();
+}
+
+// Order number + email/phone form for the TRACK_ORDER lookup
+function displayOrderLookupForm() {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer) return;
+  const existingForm = document.getElementById('order-lookup-form');
+  if (existingForm) existingForm.remove();
+
+  const form = document.createElement('form');
+  form.id = 'order-lookup-form';
+  form.className = 'ai-message assistant-message';
+  form.style.cssText = `
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    background: #f8f9fa;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px;
+    margin: 8px 0;
+  `;
+  const inputStyle = `
+    padding: 10px 12px;
+    border: 1px solid #d1d5db;
+    border-radius: 8px;
+    font-size: 14px;
+  `;
+
+  const orderInput = document.createElement('input');
+  orderInput.type = 'text';
+  orderInput.required = true;
+  orderInput.maxLength = 40;
+  orderInput.placeholder = t('orderNumberLabel');
+  orderInput.setAttribute('aria-label', t('orderNumberLabel'));
+  orderInput.style.cssText = inputStyle;
+  form.appendChild(orderInput);
+
+  const contactInput = document.createElement('input');
+  contactInput.type = 'text';
+  contactInput.required = true;
+  contactInput.maxLength = 254;
+  contactInput.autocomplete = 'email';
+  contactInput.placeholder = t('orderContactLabel');
+  contactInput.setAttribute('aria-label', t('orderContactLabel'));
+  contactInput.style.cssText = inputStyle;
+  form.appendChild(contactInput);
+
+  const submitBtn = document.createElement('button');
+  submitBtn.type = 'submit';
+  submitBtn.textContent = `📦 ${t('orderLookupSubmit')}`;
+  submitBtn.style.cssText = `
+    background: ${widgetSettings.primaryColor || '#ee5cee'};
+    color: white;
+    border: none;
+    padding: 10px 16px;
+    border-radius: 8px;
+    font-size: 14px;
+    font-weight: 600;
+    cursor: pointer;
+  `;
+  form.appendChild(submitBtn);
+
+  form.onsubmit = (event) => {
+    event.preventDefault();
+    const orderNumber = orderInput.value.trim();
+    const contact = contactInput.value.trim();
+    if (!orderNumber || !contact) return;
+    form.remove();
+    // Only the order number is echoed into the transcript
+    const message = `${t('orderNumberLabel')}: ${orderNumber}`;
+    addMessageToChat('user', message);
+    sendMessageToServer(message, { orderLookup: { orderNumber, contact } });
+  };
+
+  messagesContainer.appendChild(form);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+  orderInput.focus();
+}
+
+// Verified order status rendered as a vertical timeline
+function displayOrderTimeline(orderStatus) {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer || !orderStatus || !Array.isArray(orderStatus.timeline)) return;
+
+  const card = document.createElement('div');
+  card.className = 'ai-message assistant-message order-timeline';
+  card.style.cssText = `
+    background: white;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px 16px;
+    margin: 8px 0;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.06);
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = 'font-weight: 700; font-size: 15px; margin-bottom: 10px;';
+  title.textContent = `📦 ${orderStatus.orderName}`;
+  card.appendChild(title);
+
+  const primary = widgetSettings.primaryColor || '#ee5cee';
+  orderStatus.timeline.forEach((step, index) => {
+    const row = document.createElement('div');
+    row.style.cssText = 'display: flex; gap: 10px; align-items: flex-start; position: relative; padding-bottom: 12px;';
+
+    const dot = document.createElement('span');
+    dot.style.cssText = `
+      width: 12px;
+      height: 12px;
+      margin-top: 3px;
+      border-radius: 50%;
+      flex-shrink: 0;
+      background: ${step.done ? primary : '#e5e7eb'};
+      border: 2px solid ${step.done ? primary : '#d1d5db'};
+    `;
+    row.appendChild(dot);
+
+    if (index < orderStatus.timeline.length - 1) {
+      const line = document.createElement('span');
+      line.style.cssText = `position: absolute; left: 6px; top: 17px; bottom: 0; width: 2px; background: ${step.done ? primary : '#e5e7eb'};`;
+      row.appendChild(line);
+    }
+
+    const text = document.createElement('div');
+    text.style.cssText = `font-size: 14px; color: ${step.done ? '#111827' : '#9ca3af'};`;
+    text.textContent = step.label;
+    if (step.date) {
+      const date = document.createElement('div');
+      date.style.cssText = 'font-size: 12px; color: #6b7280;';
+      date.textContent = new Date(step.date).toLocaleDateString();
+      text.appendChild(date);
+    }
+    row.appendChild(text);
+    card.appendChild(row);
+  });
+
+  (orderStatus.shipments || []).forEach((shipment) => {
+    (shipment.trackingNumbers || []).forEach((number, index) => {
+      const trackingRow = document.createElement('div');
+      trackingRow.style.cssText = 'font-size: 13px; margin-top: 4px; color: #374151;';
+      const label = `${t('orderTrackingLabel')}: ${shipment.carrier ? shipment.carrier + ' ' : ''}${number}`;
+      const url = sanitizeUrl(shipment.trackingUrls?.[index]);
+      if (url && /^https:\/\//.test(url)) {
+        const link = document.createElement('a');
+        link.href = url;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.style.color = primary;
+        link.textContent = label;
+        trackingRow.appendChild(link);
+      } else {
+        trackingRow.textContent = label;
+      }
+      card.appendChild(trackingRow);
+    });
+  });
+
+  messagesContainer.appendChild(card);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+}
+
+// Store contact details with mailto and phone actions
+function displayContactCard(contactCard) {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer || !contactCard || (!contactCard.email && !contactCard.phone)) return;
+
+  const primary = widgetSettings.primaryColor || '#ee5cee';
+  const card = document.createElement('div');
+  card.className = 'ai-message assistant-message contact-card';
+  card.style.cssText = `
+    background: white;
+    border: 1px solid #e5e7eb;
+    border-radius: 12px;
+    padding: 14px 16px;
+    margin: 8px 0;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.06);
+  `;
+
+  const title = document.createElement('div');
+  title.style.cssText = 'font-weight: 700; font-size: 15px; margin-bottom: 10px;';
+  title.textContent = `✉️ ${t('contactCardTitle')}`;
+  card.appendChild(title);
+
+  const actions = [];
+  if (contactCard.email && /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/.test(contactCard.email)) {
+    actions.push({ href: `mailto:${contactCard.email}`, label: t('contactEmail'), detail: contactCard.email, icon: '📧' });
+  }
+  const phoneDigits = String(contactCard.phone || '').replace(/[^\d+]/g, '');
+  if (/^\+?\d{6,15}$/.test(phoneDigits)) {
+    actions.push({ href: `tel:${phoneDigits}`, label: t('contactCall'), detail: contactCard.phone, icon: '📞' });
+  }
+  if (actions.length === 0) return;
+
+  actions.forEach((action) => {
+    const link = document.createElement('a');
+    link.href = action.href;
+    link.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 10px 12px;
+      margin-top: 6px;
+      border: 1px solid ${primary};
+      border-radius: 8px;
+      color: #111827;
+      text-decoration: none;
+      font-size: 14px;
+    `;
+
+    const icon = document.createElement('span');
+    icon.textContent = action.icon;
+    link.appendChild(icon);
+
+    const text = document.createElement('div');
+    const label = document.createElement('div');
+    label.style.cssText = `font-weight: 600; color: ${primary};`;
+    label.textContent = action.label;
+    text.appendChild(label);
+    const detail = document.createElement('div');
+    detail.style.cssText = 'font-size: 12px; color: #6b7280;';
+    detail.textContent = action.detail;
+    text.appendChild(detail);
+    link.appendChild(text);
+
+    card.appendChild(link);
+  });
+
+  messagesContainer.appendChild(card);
+  messagesContainer.scrollTop = messagesContainer.scrollHeight;
+}
+
 function applySentimentStyling(sentiment) {
   const chatHeader = document.querySelector('.ai-chat-header');
   const messagesContainer = document.getElementById('ai-chat-messages');
@@ -1814,10 +2734,27 @@ function handleSuggestedAction(action) {
         }
       }
       break;
+    case 'cart_link':
+      if (action.data) {
+        const safeUrl = sanitizeUrl(action.data);
+        if (safeUrl) {
+          window.location.href = safeUrl;
+        }
+      }
+      break;
     case 'compare':
       addMessageToChat('assistant', 'Product comparison feature coming soon! ⚖️');
       break;
     case 'custom':
+      // Merchant-defined link: store pages open in place, other sites in a new tab
+      if (action.data) {
+        const safeUrl = sanitizeUrl(action.data);
+        if (safeUrl.startsWith('/')) {
+          window.location.href = safeUrl;
+        } else if (safeUrl) {
+          window.open(safeUrl, '_blank', 'noopener,noreferrer');
+        }
+      }
       break;
     default:
   }
@@ -1866,6 +2803,8 @@ function toggleAIChat() {
       console.log('[Rating Debug] New conversation started, ID:', conversationId);
 
       elements.chatWindow.classList.add('ai-chat-open');
+      scheduleAgentPoll(0);
+      refreshAvailability();
       // Focus input after opening
       setTimeout(() => {
         elements.inputField?.focus();
@@ -1874,6 +2813,7 @@ function toggleAIChat() {
     } else {
       // Close chat window immediately
       elements.chatWindow.classList.remove('ai-chat-open');
+      stopAgentPolling();
 
       // Show rating modal popup (outside chat container)
       console.log('[Rating Debug] Chat closed, attempting to show rating modal');
@@ -1970,11 +2910,19 @@ function createWidget() {
                 <span class="status-text">${escapeHTML(widgetSettings.statusText || t('online'))}</span>
               </div>
             </div>
-            <button class="ai-chat-close" id="ai-chat-close-btn" aria-label="${escapeHTML(widgetSettings.closeButtonLabel || t('close'))}" title="Close chat (Esc)">
-              <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
-                <path d="M13.5 4.5L4.5 13.5M4.5 4.5L13.5 13.5" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
-              </svg>
-            </button>
+            <div class="header-actions">
+              <button class="ai-chat-email" id="ai-chat-email-btn" aria-label="${escapeHTML(t('emailTranscript'))}" title="${escapeHTML(t('emailTranscript'))}">
+                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+                  <rect x="3" y="5" width="18" height="14" rx="2" stroke="white" stroke-width="2"/>
+                  <path d="M3 7l9 6 9-6" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                </svg>
+              </button>
+              <button class="ai-chat-close" id="ai-chat-close-btn" aria-label="${escapeHTML(widgetSettings.closeButtonLabel || t('close'))}" title="Close chat (Esc)">
+                <svg width="18" height="18" viewBox="0 0 18 18" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+                  <path d="M13.5 4.5L4.5 13.5M4.5 4.5L13.5 13.5" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                </svg>
+              </button>
+            </div>
           </div>
           <svg class="header-curve" viewBox="0 0 400 40" preserveAspectRatio="none" xmlns="http://www.w3.org/2000/svg">
             <path d="M0,0 Q100,35 200,20 T400,0 L400,40 L0,40 Z" fill="white"/>
@@ -2044,6 +2992,7 @@ function createWidget() {
   // Cache DOM elements and attach event listeners
   cacheDOMElements();
   setupEventListeners();
+  refreshAvailability();
 
   // 🐛 DEBUG: Verify upload button exists and is visible
   setTimeout(() => {
@@ -2068,6 +3017,7 @@ function cacheDOMElements() {
   elements.toggleBtn = document.getElementById('ai-chat-toggle-btn');
   elements.chatWindow = document.getElementById('ai-chat-window');
   elements.closeBtn = document.getElementById('ai-chat-close-btn');
+  elements.emailBtn = document.getElementById('ai-chat-email-btn');
   elements.inputField = document.getElementById('ai-chat-input-field');
   elements.messagesContainer = document.getElementById('ai-chat-messages');
   elements.sendBtn = document.getElementById('ai-chat-send-btn');
@@ -2076,6 +3026,7 @@ function cacheDOMElements() {
 function setupEventListeners() {
   if (elements.toggleBtn) elements.toggleBtn.addEventListener('click', toggleAIChat);
   if (elements.closeBtn) elements.closeBtn.addEventListener('click', toggleAIChat);
+  if (elements.emailBtn) elements.emailBtn.addEventListener('click', displayTranscriptForm);
   if (elements.sendBtn) elements.sendBtn.addEventListener('click', sendAIMessage);
   if (elements.inputField) elements.inputField.addEventListener('keypress', handleChatKeyPress);
 
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "guardrailMode" TEXT NOT NULL DEFAULT 'rewrite',
+ADD COLUMN "guardrailBannedTerms" TEXT NOT NULL DEFAULT '[]',
+ADD COLUMN "guardrailAllowedDomains" TEXT NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "GuardrailViolation" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "direction" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "action" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuardrailViolation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GuardrailViolation_shop_createdAt_idx" ON "GuardrailViolation"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GuardrailViolation_shop_rule_idx" ON "GuardrailViolation"("shop", "rule");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChatAnalytics" ADD COLUMN "recommendationAccuracy" TEXT NOT NULL DEFAULT '{}';
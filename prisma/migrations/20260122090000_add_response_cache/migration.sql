@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "ChatAnalytics" ADD COLUMN "responseCache" TEXT NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "ResponseCache" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'shared',
+    "language" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "embedding" TEXT,
+    "response" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ResponseCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResponseCache_shop_cacheKey_key" ON "ResponseCache"("shop", "cacheKey");
+
+-- CreateIndex
+CREATE INDEX "ResponseCache_shop_language_intent_scope_idx" ON "ResponseCache"("shop", "language", "intent", "scope");
+
+-- CreateIndex
+CREATE INDEX "ResponseCache_shop_expiresAt_idx" ON "ResponseCache"("shop", "expiresAt");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "WebhookHealth" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "webhookKey" TEXT NOT NULL,
+    "maskedUrl" TEXT NOT NULL,
+    "workflowType" TEXT NOT NULL DEFAULT 'default',
+    "state" TEXT NOT NULL DEFAULT 'closed',
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "openedAt" TIMESTAMP(3),
+    "downSince" TIMESTAMP(3),
+    "alertedAt" TIMESTAMP(3),
+    "lastSuccessAt" TIMESTAMP(3),
+    "lastFailureAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "lastStatus" INTEGER,
+    "recentCalls" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookHealth_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookHealth_shop_webhookKey_key" ON "WebhookHealth"("shop", "webhookKey");
+
+-- CreateIndex
+CREATE INDEX "WebhookHealth_shop_idx" ON "WebhookHealth"("shop");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "webhookSigningSecret" TEXT;
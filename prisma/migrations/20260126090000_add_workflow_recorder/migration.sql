@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "workflowRecorderEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "WorkflowRecording" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'live',
+    "replayOf" TEXT,
+    "maskedUrl" TEXT NOT NULL,
+    "intent" TEXT,
+    "request" TEXT NOT NULL,
+    "response" TEXT,
+    "warnings" TEXT NOT NULL DEFAULT '[]',
+    "status" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowRecording_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowRecording_shop_createdAt_idx" ON "WorkflowRecording"("shop", "createdAt");
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "KnowledgeEntry" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'faq',
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "indexedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeEntry_shop_updatedAt_idx" ON "KnowledgeEntry"("shop", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_shop_idx" ON "KnowledgeChunk"("shop");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_entryId_idx" ON "KnowledgeChunk"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "KnowledgeEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "KnowledgeEntry" ADD COLUMN "externalId" TEXT,
+ADD COLUMN "url" TEXT,
+ADD COLUMN "externalUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "KnowledgeSync" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "sources" TEXT NOT NULL DEFAULT '["pages","articles"]',
+    "metafields" TEXT NOT NULL DEFAULT '[]',
+    "status" TEXT NOT NULL DEFAULT 'idle',
+    "cursors" TEXT NOT NULL DEFAULT '{}',
+    "pageCount" INTEGER NOT NULL DEFAULT 0,
+    "articleCount" INTEGER NOT NULL DEFAULT 0,
+    "metafieldCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeEntry_shop_externalId_key" ON "KnowledgeEntry"("shop", "externalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeSync_shop_key" ON "KnowledgeSync"("shop");
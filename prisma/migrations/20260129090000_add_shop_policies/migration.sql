@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ShopPolicy" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT,
+    "body" TEXT,
+    "url" TEXT,
+    "contentHash" TEXT,
+    "overrideBody" TEXT,
+    "fetchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopPolicy_shop_type_key" ON "ShopPolicy"("shop", "type");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "CustomIntent" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phrases" TEXT NOT NULL DEFAULT '[]',
+    "responseText" TEXT NOT NULL,
+    "quickReplies" TEXT NOT NULL DEFAULT '[]',
+    "suggestedActions" TEXT NOT NULL DEFAULT '[]',
+    "productQuery" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomIntent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomIntent_shop_key_key" ON "CustomIntent"("shop", "key");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "HandoffRequest" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "reason" TEXT NOT NULL,
+    "note" TEXT,
+    "transcript" TEXT NOT NULL DEFAULT '[]',
+    "assignedTo" TEXT,
+    "assignedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HandoffRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HandoffRequest_shop_status_createdAt_idx" ON "HandoffRequest"("shop", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "HandoffRequest_chatSessionId_idx" ON "HandoffRequest"("chatSessionId");
+
+-- AddForeignKey
+ALTER TABLE "HandoffRequest" ADD CONSTRAINT "HandoffRequest_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN "agentName" TEXT,
+ADD COLUMN "agentJoinedAt" TIMESTAMP(3);
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "businessHours" TEXT NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "OfflineMessage" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "name" TEXT,
+    "email" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OfflineMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OfflineMessage_shop_readAt_createdAt_idx" ON "OfflineMessage"("shop", "readAt", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OfflineMessage_chatSessionId_idx" ON "OfflineMessage"("chatSessionId");
+
+-- AddForeignKey
+ALTER TABLE "OfflineMessage" ADD CONSTRAINT "OfflineMessage_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "transcriptEmail" TEXT;
+
+-- CreateTable
+CREATE TABLE "TranscriptDelivery" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "messageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptDelivery_chatSessionId_createdAt_idx" ON "TranscriptDelivery"("chatSessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TranscriptDelivery_shop_createdAt_idx" ON "TranscriptDelivery"("shop", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptDelivery" ADD CONSTRAINT "TranscriptDelivery_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
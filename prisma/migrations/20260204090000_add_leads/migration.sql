@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "leadCapture" TEXT NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "Lead" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "userProfileId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "email" TEXT NOT NULL,
+    "firstName" TEXT,
+    "marketingConsent" BOOLEAN NOT NULL DEFAULT false,
+    "consentText" TEXT,
+    "consentedAt" TIMESTAMP(3),
+    "trigger" TEXT NOT NULL,
+    "shopifyCustomerId" TEXT,
+    "syncStatus" TEXT NOT NULL DEFAULT 'pending',
+    "syncError" TEXT,
+    "syncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Lead_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Lead_shop_email_key" ON "Lead"("shop", "email");
+
+-- CreateIndex
+CREATE INDEX "Lead_shop_createdAt_idx" ON "Lead"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Lead_userProfileId_idx" ON "Lead"("userProfileId");
+
+-- AddForeignKey
+ALTER TABLE "Lead" ADD CONSTRAINT "Lead_userProfileId_fkey" FOREIGN KEY ("userProfileId") REFERENCES "UserProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Lead" ADD CONSTRAINT "Lead_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "ChatSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
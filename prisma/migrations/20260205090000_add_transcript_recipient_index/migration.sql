@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "TranscriptDelivery_recipient_createdAt_idx" ON "TranscriptDelivery"("recipient", "createdAt");
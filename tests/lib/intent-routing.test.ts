@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseIntentRouting,
+  resolveIntentRoute,
+  toIntentRouteRows,
+  validateIntentRouting,
+} from '../../app/lib/intent-routing.server';
+
+const routing = JSON.stringify({
+  RETURNS: { target: 'custom', webhookUrl: 'https://support.example.com/hook' },
+  HELP_FAQ: { target: 'local' },
+  BESTSELLERS: { target: 'byok' },
+});
+
+describe('Intent routing', () => {
+  it('should drop unknown intents, unknown targets and custom routes without a URL', () => {
+    const parsed = parseIntentRouting(JSON.stringify({
+      RETURNS: { target: 'custom' },
+      HELP_FAQ: { target: 'local' },
+      ON_SALE: { target: 'default' },
+      SOMETHING_ELSE: { target: 'local' },
+      NEW_ARRIVALS: { target: 'elsewhere' },
+    }));
+
+    expect(parsed).toEqual({ HELP_FAQ: { target: 'local' } });
+    expect(parseIntentRouting('not json')).toEqual({});
+  });
+
+  it('should list every routable intent for the editor', () => {
+    const rows = toIntentRouteRows(parseIntentRouting(routing));
+
+    expect(rows).toHaveLength(19);
+    expect(rows.find((row) => row.intent === 'RETURNS')).toEqual({
+      intent: 'RETURNS',
+      target: 'custom',
+      webhookUrl: 'https://support.example.com/hook',
+    });
+    expect(rows.find((row) => row.intent === 'GENERAL_CHAT')?.target).toBe('default');
+  });
+
+  it('should validate submitted routes against the plan', () => {
+    expect(validateIntentRouting(routing, 'PROFESSIONAL', { hasOpenAIKey: true })).toEqual({
+      routing: JSON.parse(routing),
+      errors: [],
+    });
+
+    const starter = validateIntentRouting(routing, 'STARTER', { hasOpenAIKey: true });
+    expect(starter.routing).toEqual({});
+    expect(starter.errors).toContain('Per-intent routing is available on the Professional plan');
+
+    const invalid = validateIntentRouting(JSON.stringify({
+      RETURNS: { target: 'custom', webhookUrl: 'http://insecure.example.com' },
+      BESTSELLERS: { target: 'byok' },
+    }), 'PROFESSIONAL');
+    expect(invalid.errors).toHaveLength(2);
+  });
+
+  it('should ignore stored routes once the plan loses custom workflows', () => {
+    expect(resolveIntentRoute({ intentRouting: routing }, 'HELP_FAQ', 'PROFESSIONAL')).toEqual({ target: 'local' });
+    expect(resolveIntentRoute({ intentRouting: routing }, 'HELP_FAQ', 'STARTER')).toBeNull();
+    expect(resolveIntentRoute({ intentRouting: routing }, 'GENERAL_CHAT', 'PROFESSIONAL')).toBeNull();
+  });
+});
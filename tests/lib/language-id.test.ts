@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectMessageLanguage,
+  getLanguageName,
+  identifyLanguage,
+  normalizeLocale,
+} from '../../app/lib/language-id.server';
+
+describe('Language identification', () => {
+  it('should identify Latin-script languages from everyday sentences', () => {
+    const samples: Array<[string, string]> = [
+      ['Do you ship to Canada?', 'en'],
+      ['Avez-vous ces chaussures en rouge ?', 'fr'],
+      ['¿Tienen envío gratis a España?', 'es'],
+      ['Haben Sie diese Jacke auch in Schwarz?', 'de'],
+      ['Avete questa borsa in pelle marrone?', 'it'],
+      ['Vocês entregam no Brasil?', 'pt'],
+      ['quiero devolver mi pedido', 'es'],
+      ['quero devolver a minha encomenda', 'pt'],
+    ];
+
+    for (const [text, language] of samples) {
+      const detection = identifyLanguage(text);
+      expect(detection.language, text).toBe(language);
+      expect(detection.method).toBe('ngram');
+      expect(detection.confidence, text).toBeGreaterThan(0.9);
+    }
+  });
+
+  it('should tell Japanese from Chinese by script', () => {
+    expect(identifyLanguage('この商品の在庫はありますか')).toMatchObject({ language: 'ja', method: 'script' });
+    expect(identifyLanguage('返品について教えて')).toMatchObject({ language: 'ja', method: 'script' });
+    expect(identifyLanguage('这个有货吗')).toMatchObject({ language: 'zh', method: 'script' });
+    expect(identifyLanguage('iPhone 15 有货吗').language).toBe('zh');
+  });
+
+  it('should not be confident about very short or empty messages', () => {
+    expect(identifyLanguage('ok').confidence).toBeLessThan(0.4);
+    expect(identifyLanguage('👍 123', { fallback: 'fr' })).toEqual({ language: 'fr', confidence: 0, method: 'fallback' });
+    expect(detectMessageLanguage('ok', 'de')).toBe('de');
+    expect(detectMessageLanguage('merci')).toBe('fr');
+  });
+
+  it('should map locales to supported languages', () => {
+    expect(normalizeLocale('fr-FR')).toBe('fr');
+    expect(normalizeLocale('zh_TW')).toBe('zh');
+    expect(normalizeLocale('ja')).toBe('ja');
+    expect(normalizeLocale('ko-KR')).toBeNull();
+    expect(normalizeLocale(undefined)).toBeNull();
+    expect(getLanguageName('ja')).toBe('Japanese');
+    expect(getLanguageName('ko')).toBe('English');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeSSEFrame,
+  streamChatResponse,
+  wantsEventStream,
+} from '../../app/lib/sse.server';
+
+function parseFrames(body: string) {
+  return body
+    .split('\n\n')
+    .filter((frame) => frame.startsWith('event:'))
+    .map((frame) => {
+      const [eventLine = '', dataLine = ''] = frame.split('\n');
+      return {
+        event: eventLine.replace('event: ', ''),
+        data: JSON.parse(dataLine.replace('data: ', '')),
+      };
+    });
+}
+
+describe('Server-Sent Events', () => {
+  describe('wantsEventStream', () => {
+    it('should detect the event-stream Accept header', () => {
+      const request = new Request('https://app.test/api/widget-settings?shop=a.myshopify.com', {
+        headers: { Accept: 'text/event-stream, application/json' },
+      });
+      expect(wantsEventStream(request)).toBe(true);
+    });
+
+    it('should detect the stream query parameter', () => {
+      const request = new Request('https://app.test/api/widget-settings?stream=1');
+      expect(wantsEventStream(request)).toBe(true);
+    });
+
+    it('should default to JSON responses', () => {
+      const request = new Request('https://app.test/api/widget-settings', {
+        headers: { Accept: 'application/json' },
+      });
+      expect(wantsEventStream(request)).toBe(false);
+    });
+  });
+
+  describe('encodeSSEFrame', () => {
+    it('should JSON-encode multi-line data on a single data line', () => {
+      const frame = encodeSSEFrame('token', { text: 'line one\nline two' });
+      expect(frame).toBe('event: token\ndata: {"text":"line one\\nline two"}\n\n');
+    });
+  });
+
+  describe('streamChatResponse', () => {
+    it('should emit tokens as they are produced, before the structured frames', async () => {
+      const response = streamChatResponse(async (onToken) => {
+        onToken('Check ');
+        onToken('these out');
+        return new Response(JSON.stringify({
+          message: 'Check these out',
+          recommendations: [{ id: 'p1' }],
+          quickReplies: ['More'],
+          chatSessionId: 'cs_1',
+          sessionId: 's_1',
+          success: true,
+        }), { status: 200 });
+      });
+
+      expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+      const frames = parseFrames(await response.text());
+      const events = frames.map((f) => f.event);
+
+      expect(events).toEqual(['start', 'token', 'token', 'recommendations', 'quickReplies', 'chatSessionId', 'done']);
+      expect(frames.filter((f) => f.event === 'token').map((f) => f.data.text)).toEqual(['Check ', 'these out']);
+      expect(frames.find((f) => f.event === 'chatSessionId')?.data.chatSessionId).toBe('cs_1');
+    });
+
+    it('should deliver replies that were not streamed whole in the done frame', async () => {
+      const response = streamChatResponse(async () =>
+        new Response(JSON.stringify({ message: 'From the workflow', success: true }), { status: 200 })
+      );
+
+      const frames = parseFrames(await response.text());
+
+      expect(frames.some((f) => f.event === 'token')).toBe(false);
+      expect(frames.find((f) => f.event === 'done')?.data.message).toBe('From the workflow');
+    });
+
+    it('should emit an error frame for failed responses', async () => {
+      const response = streamChatResponse(async () =>
+        new Response(JSON.stringify({
+          error: 'conversation_limit_exceeded',
+          message: 'Limit reached',
+          success: false,
+        }), { status: 429 })
+      );
+
+      const frames = parseFrames(await response.text());
+      const errorFrame = frames.find((f) => f.event === 'error');
+
+      expect(errorFrame?.data.status).toBe(429);
+      expect(frames.some((f) => f.event === 'token')).toBe(false);
+    });
+  });
+});
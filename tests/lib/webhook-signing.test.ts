@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  getWebhookSigningSecret,
+  signWebhookPayload,
+  verifyWebhookRequestSignature,
+} from '../../app/lib/webhook-signing.server';
+
+const { mockPrisma } = vi.hoisted(() => {
+  // One WidgetSettings row; updateMany honours the null filter like the database
+  const stored: { webhookSigningSecret: string | null } = { webhookSigningSecret: null };
+  return {
+    stored,
+    mockPrisma: {
+      widgetSettings: {
+        findUnique: vi.fn(async () => ({ webhookSigningSecret: stored.webhookSigningSecret })),
+        updateMany: vi.fn(async ({ where, data }: { where: { webhookSigningSecret: null }; data: { webhookSigningSecret: string } }) => {
+          await Promise.resolve();
+          if (stored.webhookSigningSecret !== where.webhookSigningSecret) {
+            return { count: 0 };
+          }
+          stored.webhookSigningSecret = data.webhookSigningSecret;
+          return { count: 1 };
+        }),
+      },
+    },
+  };
+});
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ userMessage: 'Hello', products: [] });
+
+describe('Webhook signing', () => {
+  it('should sign timestamp and body', () => {
+    const headers = signWebhookPayload(secret, body, 1767261600);
+
+    expect(headers[TIMESTAMP_HEADER]).toBe('1767261600');
+    expect(headers[SIGNATURE_HEADER]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookRequestSignature(secret, body, headers[SIGNATURE_HEADER]!, '1767261600', 1767261700)).toBe(true);
+  });
+
+  it('should reject tampered bodies, other secrets and stale timestamps', () => {
+    const headers = signWebhookPayload(secret, body, 1767261600);
+    const signature = headers[SIGNATURE_HEADER]!;
+
+    expect(verifyWebhookRequestSignature(secret, body.replace('Hello', 'Bye'), signature, '1767261600', 1767261600)).toBe(false);
+    expect(verifyWebhookRequestSignature('whsec_other', body, signature, '1767261600', 1767261600)).toBe(false);
+    expect(verifyWebhookRequestSignature(secret, body, signature, '1767261600', 1767262600)).toBe(false);
+  });
+
+  describe('getWebhookSigningSecret', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should create one secret when first requests race', async () => {
+      vi.stubEnv('ENCRYPTION_KEY', 'a'.repeat(64));
+
+      const [first, second] = await Promise.all([
+        getWebhookSigningSecret('demo-store.myshopify.com'),
+        getWebhookSigningSecret('demo-store.myshopify.com'),
+      ]);
+
+      expect(first).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(second).toBe(first);
+      expect(mockPrisma.widgetSettings.updateMany).toHaveBeenCalledWith({
+        where: { shop: 'demo-store.myshopify.com', webhookSigningSecret: null },
+        data: { webhookSigningSecret: expect.any(String) },
+      });
+    });
+  });
+});
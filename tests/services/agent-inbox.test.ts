@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getAgentUpdates,
+  sendAgentMessage,
+  takeOverSession,
+} from '../../app/services/agent-inbox.service.server';
+import { agentTakeoverStage } from '../../app/services/chat-pipeline/agent.server';
+import { createPipelineState } from '../../app/services/chat-pipeline/index.server';
+
+const { mockPrisma, saveChatMessage } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatSession: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    chatMessage: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    handoffRequest: {
+      updateMany: vi.fn(),
+    },
+  },
+  saveChatMessage: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+
+vi.mock('../../app/services/personalization.service', () => ({
+  personalizationService: { saveChatMessage },
+}));
+
+const SHOP = 'test.myshopify.com';
+
+describe('Agent inbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should assign the open handoff to the staff member taking over', async () => {
+    mockPrisma.chatSession.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await takeOverSession(SHOP, 'cs_1', '  Sam ')).toBe(true);
+    expect(mockPrisma.chatSession.updateMany.mock.calls[0]![0].data.agentName).toBe('Sam');
+    expect(mockPrisma.handoffRequest.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { shop: SHOP, chatSessionId: 'cs_1', status: { in: ['waiting', 'assigned'] } },
+      data: expect.objectContaining({ status: 'assigned', assignedTo: 'Sam' }),
+    }));
+  });
+
+  it('should take the session over when sending the first reply', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'cs_1', agentJoinedAt: null });
+    mockPrisma.chatSession.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.chatMessage.create.mockImplementation(async ({ data }) => ({
+      id: 'msg_1',
+      timestamp: new Date('2026-02-01T10:00:00Z'),
+      ...data,
+    }));
+
+    const message = await sendAgentMessage(SHOP, 'cs_1', 'Sam', ' Hi! Happy to help. ');
+
+    expect(mockPrisma.chatSession.updateMany).toHaveBeenCalled();
+    expect(message).toEqual({
+      id: 'msg_1',
+      role: 'agent',
+      content: 'Hi! Happy to help.',
+      agentName: 'Sam',
+      timestamp: '2026-02-01T10:00:00.000Z',
+    });
+  });
+
+  it('should not send empty replies or write to another shop\'s session', async () => {
+    expect(await sendAgentMessage(SHOP, 'cs_1', 'Sam', '   ')).toBeNull();
+
+    mockPrisma.chatSession.findFirst.mockResolvedValue(null);
+    expect(await sendAgentMessage(SHOP, 'cs_other', 'Sam', 'Hello')).toBeNull();
+    expect(mockPrisma.chatMessage.create).not.toHaveBeenCalled();
+  });
+
+  it('should return staff messages newer than the widget cursor', async () => {
+    const after = new Date('2026-02-01T10:00:00Z');
+    mockPrisma.chatSession.findFirst.mockResolvedValue({
+      id: 'cs_1',
+      userProfileId: 'up_1',
+      agentName: 'Sam',
+      agentJoinedAt: new Date('2026-02-01T09:59:00Z'),
+    });
+    mockPrisma.chatMessage.findMany.mockResolvedValue([]);
+
+    const updates = await getAgentUpdates(SHOP, 'session_abc', after);
+
+    expect(updates.agent).toEqual({ name: 'Sam', joinedAt: '2026-02-01T09:59:00.000Z' });
+    expect(mockPrisma.chatSession.findFirst.mock.calls[0]![0].where.userProfile).toEqual({ sessionId: 'session_abc' });
+    expect(mockPrisma.chatMessage.findMany.mock.calls[0]![0].where).toEqual({
+      sessionId: 'cs_1',
+      role: 'agent',
+      timestamp: { gt: after },
+    });
+  });
+
+  describe('agentTakeover stage', () => {
+    const makeState = () => createPipelineState({
+      shop: SHOP,
+      message: 'Is it in stock?',
+      context: { sessionId: 'session_abc' },
+      source: 'widget',
+    });
+
+    it('should save the message and skip the AI reply while staff hold the session', async () => {
+      mockPrisma.chatSession.findFirst.mockResolvedValue({
+        id: 'cs_1',
+        userProfileId: 'up_1',
+        agentName: 'Sam',
+        agentJoinedAt: new Date('2026-02-01T09:59:00Z'),
+      });
+      const state = makeState();
+
+      await agentTakeoverStage(state);
+
+      expect(saveChatMessage).toHaveBeenCalledWith('cs_1', 'user', 'Is it in stock?', expect.any(Object));
+      expect(state.halt?.status).toBe(200);
+      expect(state.halt?.body).toMatchObject({ messageType: 'agent_mode', chatSessionId: 'cs_1', agent: { name: 'Sam' } });
+    });
+
+    it('should let the assistant answer when nobody took over', async () => {
+      mockPrisma.chatSession.findFirst.mockResolvedValue({
+        id: 'cs_1',
+        userProfileId: 'up_1',
+        agentName: null,
+        agentJoinedAt: null,
+      });
+      const state = makeState();
+
+      await agentTakeoverStage(state);
+
+      expect(state.halt).toBeUndefined();
+      expect(saveChatMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildSearchQuery, createAssistantTools, toVariantGid } from '../../app/services/chat-pipeline/tools.server';
+
+function productNode(id: number, price: string, compareAtPrice: string | null = null) {
+  return {
+    id: `gid://shopify/Product/${id}`,
+    title: `Product ${id}`,
+    handle: `product-${id}`,
+    description: 'A product',
+    totalInventory: 5,
+    tags: [],
+    variants: { edges: [{ node: { price, compareAtPrice } }] },
+  };
+}
+
+function createAdmin(data: unknown) {
+  return {
+    graphql: vi.fn().mockResolvedValue({ json: async () => ({ data }) } as Response),
+  };
+}
+
+function getTool(admin: ReturnType<typeof createAdmin>, name: string, policies = null) {
+  const tool = createAssistantTools({ admin, shopDomain: 'test-shop.myshopify.com', policies }).find(
+    (t) => t.definition.name === name
+  );
+  return tool!;
+}
+
+describe('Assistant tools', () => {
+  describe('buildSearchQuery', () => {
+    it('should combine keywords and filters and strip search syntax', () => {
+      expect(buildSearchQuery({ query: 'red (mug) OR*', vendor: 'Acme "Co"', inStockOnly: true })).toBe(
+        'status:active AND (red mug OR) AND vendor:"Acme Co" AND inventory_total:>0'
+      );
+    });
+  });
+
+  describe('toVariantGid', () => {
+    it('should accept numeric ids and variant GIDs only', () => {
+      expect(toVariantGid('123')).toBe('gid://shopify/ProductVariant/123');
+      expect(toVariantGid(456)).toBe('gid://shopify/ProductVariant/456');
+      expect(toVariantGid('gid://shopify/Product/1')).toBeNull();
+    });
+  });
+
+  describe('search_products', () => {
+    it('should apply price and sale filters and return the matching products', async () => {
+      const admin = createAdmin({
+        products: {
+          edges: [
+            { node: productNode(1, '10.00', '20.00') },
+            { node: productNode(2, '50.00', '60.00') },
+            { node: productNode(3, '15.00') },
+          ],
+        },
+      });
+
+      const output = await getTool(admin, 'search_products').execute({ query: 'mug', maxPrice: 30, onSaleOnly: true });
+
+      expect(output.products!.map((p) => p.id)).toEqual(['gid://shopify/Product/1']);
+      expect(admin.graphql.mock.calls[0]![1].variables).toMatchObject({ sortKey: 'RELEVANCE', query: 'status:active AND (mug)' });
+    });
+  });
+
+  describe('get_policy', () => {
+    it('should return policy text from the loaded shop policies', async () => {
+      const tool = createAssistantTools({
+        admin: createAdmin({}),
+        shopDomain: 'test-shop.myshopify.com',
+        policies: { returns: '30 day returns', shipping: null },
+      }).find((t) => t.definition.name === 'get_policy')!;
+
+      await expect(tool.execute({ type: 'returns' })).resolves.toEqual({
+        result: { type: 'returns', available: true, text: '30 day returns' },
+      });
+      expect((await tool.execute({ type: 'shipping' })).result).toMatchObject({ available: false });
+    });
+  });
+
+  describe('build_cart_link', () => {
+    it('should link only variants that exist and are for sale', async () => {
+      const admin = createAdmin({
+        nodes: [
+          { id: 'gid://shopify/ProductVariant/11', title: 'Large', availableForSale: true, product: { title: 'Mug' } },
+          { id: 'gid://shopify/ProductVariant/12', title: 'Small', availableForSale: false, product: { title: 'Mug' } },
+          null,
+        ],
+      });
+
+      const output = await getTool(admin, 'build_cart_link').execute({
+        items: [{ variantId: '11', quantity: 2 }, { variantId: '12' }, { variantId: '13' }],
+      });
+
+      expect(output.result).toMatchObject({
+        url: 'https://test-shop.myshopify.com/cart/11:2',
+        skipped: [
+          { variantId: '12', reason: 'unavailable' },
+          { variantId: '13', reason: 'not_found' },
+        ],
+      });
+      expect(output.suggestedActions).toEqual([{ label: 'View cart', action: 'cart_link', data: '/cart/11:2' }]);
+    });
+  });
+});
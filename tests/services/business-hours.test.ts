@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  getAvailability,
+  parseBusinessHours,
+  validateBusinessHours,
+  type BusinessHoursConfig,
+} from '../../app/lib/business-hours.server';
+import { createOfflineMessage } from '../../app/services/business-hours.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatSession: {
+      findFirst: vi.fn(),
+    },
+    offlineMessage: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+const PARIS_HOURS: BusinessHoursConfig = {
+  ...DEFAULT_BUSINESS_HOURS,
+  enabled: true,
+  timezone: 'Europe/Paris',
+  holidays: ['2026-12-25'],
+};
+
+describe('Business hours', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should be always open when business hours are disabled', () => {
+    const availability = getAvailability(DEFAULT_BUSINESS_HOURS, new Date('2026-02-01T03:00:00Z'));
+    expect(availability).toEqual({ open: true, status: 'always_open', timezone: 'UTC' });
+  });
+
+  it('should evaluate the schedule in the shop timezone', () => {
+    // Monday 2026-02-02: 08:30 UTC is 09:30 in Paris, 16:30 UTC is 17:30
+    expect(getAvailability(PARIS_HOURS, new Date('2026-02-02T08:30:00Z')).status).toBe('open');
+    expect(getAvailability(PARIS_HOURS, new Date('2026-02-02T16:30:00Z')).status).toBe('closed');
+    // Saturday is closed by default
+    expect(getAvailability(PARIS_HOURS, new Date('2026-02-07T10:00:00Z')).open).toBe(false);
+  });
+
+  it('should be closed all day on holidays', () => {
+    // Friday 2026-12-25 at 11:00 in Paris
+    const availability = getAvailability(PARIS_HOURS, new Date('2026-12-25T10:00:00Z'));
+    expect(availability).toEqual({ open: false, status: 'holiday', timezone: 'Europe/Paris' });
+  });
+
+  it('should report every invalid field when validating', () => {
+    const { errors } = validateBusinessHours(JSON.stringify({
+      enabled: true,
+      timezone: 'Mars/Olympus',
+      schedule: {
+        ...DEFAULT_BUSINESS_HOURS.schedule,
+        monday: { closed: false, open: '18:00', close: '09:00' },
+        tuesday: { closed: false, open: '9am', close: '17:00' },
+      },
+      holidays: ['2026-13-01'],
+    }));
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain('Mars/Olympus');
+    expect(errors.some((error) => error.startsWith('monday'))).toBe(true);
+    expect(errors.some((error) => error.startsWith('tuesday'))).toBe(true);
+    expect(errors.some((error) => error.includes('2026-13-01'))).toBe(true);
+  });
+
+  it('should sort and dedupe holidays and fall back to defaults on bad stored JSON', () => {
+    const { hours, errors } = validateBusinessHours({
+      ...PARIS_HOURS,
+      holidays: ['2026-12-31', '2026-12-25', '2026-12-31'],
+    });
+    expect(errors).toEqual([]);
+    expect(hours.holidays).toEqual(['2026-12-25', '2026-12-31']);
+
+    expect(parseBusinessHours('not json')).toEqual(DEFAULT_BUSINESS_HOURS);
+    expect(parseBusinessHours(JSON.stringify({ enabled: true, timezone: 'Nowhere/City' })).timezone).toBe('UTC');
+  });
+
+  it('should only store offline messages for sessions of the same shop', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue(null);
+
+    const message = await createOfflineMessage({
+      shop: 'shop.myshopify.com',
+      chatSessionId: 'session-from-another-shop',
+      email: 'shopper@example.com',
+      question: 'Do you ship to Canada?',
+    });
+
+    expect(message).toBeNull();
+    expect(mockPrisma.chatSession.findFirst).toHaveBeenCalledWith({
+      where: { id: 'session-from-another-shop', shop: 'shop.myshopify.com' },
+      select: { id: true },
+    });
+    expect(mockPrisma.offlineMessage.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ChatPipeline,
+  buildChatResponseBody,
+  createPipelineState,
+  type ChatPipelineState,
+} from '../../app/services/chat-pipeline/index.server';
+import { classifyStage, detectIntent } from '../../app/services/chat-pipeline/classify.server';
+import { buildProductQuery, mapProductNode } from '../../app/services/chat-pipeline/products.server';
+import { toConversationHistory } from '../../app/services/chat-pipeline/context.server';
+import { generateStage, selectWorkflow } from '../../app/services/chat-pipeline/generate.server';
+import { cacheStoreStage } from '../../app/services/chat-pipeline/response-cache.server';
+import { prisma } from '../../app/db.server';
+
+const processUserMessage = vi.fn();
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: {
+    widgetSettings: { findUnique: vi.fn() },
+    chatSession: { update: vi.fn() },
+    responseCache: { upsert: vi.fn() },
+  },
+}));
+
+vi.mock('../../app/services/personalization.service', () => ({
+  personalizationService: {
+    updateAnalytics: vi.fn(),
+    saveChatMessage: vi.fn(),
+  },
+}));
+
+vi.mock('../../app/services/n8n.service.server', () => ({
+  N8NService: class {
+    processUserMessage = processUserMessage;
+  },
+}));
+
+function makeState(message: string, context: Record<string, unknown> = {}): ChatPipelineState {
+  return createPipelineState({
+    shop: 'test-shop.myshopify.com',
+    message,
+    context,
+    source: 'widget',
+  });
+}
+
+describe('ChatPipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.N8N_WEBHOOK_BYOK;
+    process.env.N8N_WEBHOOK_URL = 'https://n8n.example.com/webhook/default';
+  });
+
+  describe('classify stage', () => {
+    it('should detect support intents without products', async () => {
+      const state = makeState('What is your return policy?');
+      await classifyStage(state);
+
+      expect(state.intent.type).toBe('RETURNS');
+      expect(state.isSupportIntent).toBe(true);
+      expect(state.isProductIntent).toBe(false);
+    });
+
+    it('should prefer the interface locale over message language', async () => {
+      const state = makeState('show me products', { locale: 'fr-FR' });
+      await classifyStage(state);
+
+      expect(state.language).toBe('fr');
+      expect(state.intent).toEqual({ type: 'PRODUCT_SEARCH', query: 'product' });
+    });
+
+    it('should detect the message language when the locale is missing or unsupported', async () => {
+      const japanese = makeState('返品ポリシーを教えてください');
+      await classifyStage(japanese);
+      expect(japanese.language).toBe('ja');
+
+      const german = makeState('Wie lange dauert der Versand nach Österreich?', { locale: 'ko-KR' });
+      await classifyStage(german);
+      expect(german.language).toBe('de');
+    });
+
+    it('should detect terms, privacy and contact questions in the widget locales', () => {
+      expect(detectIntent('Where can I read your terms of service?')).toEqual({ type: 'TERMS' });
+      expect(detectIntent('Quelles sont vos conditions générales de vente ?')).toEqual({ type: 'TERMS' });
+      expect(detectIntent('Wie verwenden Sie meine persönlichen Daten?')).toEqual({ type: 'PRIVACY' });
+      expect(detectIntent('個人情報の取り扱いについて')).toEqual({ type: 'PRIVACY' });
+      expect(detectIntent('How can I contact you?')).toEqual({ type: 'CONTACT' });
+      expect(detectIntent('¿Cuál es su número de teléfono?')).toEqual({ type: 'CONTACT' });
+      expect(detectIntent('怎么联系你们')).toEqual({ type: 'CONTACT' });
+      expect(detectIntent('I need help')).toEqual({ type: 'HELP_FAQ' });
+    });
+
+    it('should fall back to general chat', () => {
+      expect(detectIntent('hmm')).toEqual({ type: 'GENERAL_CHAT' });
+    });
+  });
+
+  describe('retrieve products stage helpers', () => {
+    it('should use a sort-key query for bestsellers', () => {
+      const { query, variables } = buildProductQuery({ type: 'BESTSELLERS' });
+      expect(query).toContain('sortKey: CREATED_AT');
+      expect(variables.query).toBeUndefined();
+    });
+
+    it('should map GraphQL product nodes', () => {
+      const product = mapProductNode({
+        id: 'gid://shopify/Product/1',
+        title: 'Shirt',
+        handle: 'shirt',
+        totalInventory: 4,
+        featuredImage: { url: 'https://cdn.example.com/shirt.png' },
+        variants: { edges: [{ node: { price: '19.99', compareAtPrice: '25.00' } }] },
+      });
+
+      expect(product.price).toBe('19.99');
+      expect(product.compareAtPrice).toBe('25.00');
+      expect(product.inventory).toBe(4);
+      expect(product.description).toBe('');
+    });
+  });
+
+  describe('build context stage helpers', () => {
+    it('should return history in chronological order', () => {
+      const history = toConversationHistory([
+        { role: 'assistant', content: 'second' },
+        { role: 'user', content: 'first' },
+      ]);
+      expect(history.map((m) => m.content)).toEqual(['first', 'second']);
+    });
+
+    it('should send staff replies to the workflow as assistant turns', () => {
+      const history = toConversationHistory([
+        { role: 'agent', content: 'Hi, this is Sam from the shop' },
+        { role: 'user', content: 'Can a person help me?' },
+      ]);
+      expect(history.map((m) => m.role)).toEqual(['user', 'assistant']);
+    });
+  });
+
+  describe('generate stage', () => {
+    it('should route to a valid custom webhook', () => {
+      const workflow = selectWorkflow(
+        { workflowType: 'CUSTOM', webhookUrl: 'https://merchant.example.com/hook' },
+        'STARTER'
+      );
+      expect(workflow.workflowType).toBe('custom');
+      expect(workflow.webhookUrl).toBe('https://merchant.example.com/hook');
+    });
+
+    it('should fall back to plan routing for an invalid custom URL', () => {
+      process.env.N8N_WEBHOOK_BYOK = 'https://n8n.example.com/webhook/byok';
+      const workflow = selectWorkflow({ workflowType: 'CUSTOM', webhookUrl: 'https://' }, 'BYOK');
+      expect(workflow.workflowType).toBe('default');
+      expect(workflow.webhookUrl).toBe('https://n8n.example.com/webhook/byok');
+    });
+
+    it('should send routed intents to their own workflow', () => {
+      process.env.N8N_WEBHOOK_BYOK = 'https://n8n.example.com/webhook/byok';
+      const settings = {
+        workflowType: 'CUSTOM' as const,
+        webhookUrl: 'https://merchant.example.com/hook',
+        intentRouting: JSON.stringify({
+          RETURNS: { target: 'custom', webhookUrl: 'https://support.example.com/hook' },
+          BESTSELLERS: { target: 'byok' },
+        }),
+      };
+
+      expect(selectWorkflow(settings, 'PROFESSIONAL', { intent: 'RETURNS' })).toMatchObject({
+        workflowType: 'custom',
+        webhookUrl: 'https://support.example.com/hook',
+        route: 'custom',
+      });
+      expect(selectWorkflow(settings, 'PROFESSIONAL', { intent: 'BESTSELLERS' })).toMatchObject({
+        workflowType: 'default',
+        webhookUrl: 'https://n8n.example.com/webhook/byok',
+        route: 'byok',
+      });
+      expect(selectWorkflow(settings, 'PROFESSIONAL', { intent: 'GENERAL_CHAT' }).webhookUrl)
+        .toBe('https://merchant.example.com/hook');
+    });
+
+    it('should answer locally routed intents without calling a workflow', async () => {
+      const state = makeState('return policy');
+      await classifyStage(state);
+      state.plan = 'PROFESSIONAL';
+      state.settings = { intentRouting: JSON.stringify({ RETURNS: { target: 'local' } }) } as ChatPipelineState['settings'];
+
+      await generateStage(state);
+
+      expect(processUserMessage).not.toHaveBeenCalled();
+      expect(state.workflow?.engine).toBe('local');
+      expect(state.response?.messageType).toBe('support');
+      expect(state.usedFallback).toBeFalsy();
+    });
+
+    it('should attach the contact card to contact answers', async () => {
+      processUserMessage.mockResolvedValueOnce({ message: 'You can email or call us.', messageType: 'support' });
+
+      const state = makeState('How can I contact you?');
+      await classifyStage(state);
+      state.policies = { contact: 'Phone: +1 555 010 2000\nEmail: hello@test-shop.com' };
+      state.contactCard = { email: 'hello@test-shop.com', phone: '+1 555 010 2000' };
+
+      await generateStage(state);
+
+      expect(state.response?.messageType).toBe('contact_card');
+      expect(buildChatResponseBody(state)).toMatchObject({
+        messageType: 'contact_card',
+        contactCard: { email: 'hello@test-shop.com', phone: '+1 555 010 2000' },
+      });
+    });
+
+    it('should use templated products when N8N fails for a product intent', async () => {
+      processUserMessage.mockRejectedValueOnce(new Error('timeout'));
+
+      const state = makeState('best sellers');
+      await classifyStage(state);
+      state.products = [mapProductNode({ id: 'p1', title: 'Mug', handle: 'mug' })];
+
+      await generateStage(state);
+
+      expect(state.response?.messageType).toBe('product_recommendation');
+      expect(state.recommendations).toHaveLength(1);
+    });
+
+    it('should answer from a matching merchant FAQ when the workflow fails', async () => {
+      processUserMessage.mockRejectedValueOnce(new Error('timeout'));
+
+      const state = makeState('Do you offer gift wrapping?');
+      await classifyStage(state);
+      state.knowledge = [{
+        id: 'faq-1',
+        type: 'faq',
+        title: 'Do you offer gift wrapping?',
+        content: 'Q: Do you offer gift wrapping?\nA: Yes, gift wrapping costs $5.',
+        score: 1
+      }];
+
+      await generateStage(state);
+
+      expect(state.response?.message).toBe('Yes, gift wrapping costs $5.');
+      expect(state.response?.sourceIds).toEqual(['faq-1']);
+      expect(state.usedFallback).toBe(true);
+    });
+
+    it('should not cache the reply when N8N answered with its local fallback', async () => {
+      processUserMessage.mockResolvedValueOnce({ message: 'Our standard shipping takes 3-5 days.', fallback: true });
+
+      const state = makeState('How long does shipping take?');
+      await classifyStage(state);
+      state.cache = { scope: 'shared', status: 'miss' } as ChatPipelineState['cache'];
+
+      await generateStage(state);
+      await cacheStoreStage(state);
+
+      expect(state.usedFallback).toBe(true);
+      expect(prisma.responseCache.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should never return product cards for support intents', async () => {
+      processUserMessage.mockResolvedValueOnce({
+        message: 'Returns are free within 30 days.',
+        recommendations: [{ id: 'p1', title: 'Mug', handle: 'mug', price: '5.00' }],
+      });
+
+      const state = makeState('return policy');
+      await classifyStage(state);
+      await generateStage(state);
+
+      expect(state.response?.message).toContain('30 days');
+      expect(state.recommendations).toEqual([]);
+      expect(processUserMessage.mock.calls[0]![0].products).toEqual([]);
+    });
+  });
+
+  describe('run', () => {
+    it('should stop at a halting stage', async () => {
+      const later = vi.fn();
+      const pipeline = new ChatPipeline([
+        {
+          name: 'authorize',
+          run: async (state) => {
+            state.halt = { status: 429, body: { error: 'conversation_limit_exceeded' } };
+          },
+        },
+        { name: 'classify', run: later },
+      ]);
+
+      const result = await pipeline.run({
+        shop: 'test-shop.myshopify.com',
+        message: 'hi',
+        context: {},
+        source: 'app_proxy',
+      });
+
+      expect(result.status).toBe(429);
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('should build the storefront response from the final state', async () => {
+      const pipeline = new ChatPipeline([
+        { name: 'classify', run: classifyStage },
+        {
+          name: 'generate',
+          run: async (state) => {
+            state.response = { message: 'Hello!', quickReplies: ['Browse'] };
+          },
+        },
+      ]);
+
+      const result = await pipeline.run({
+        shop: 'test-shop.myshopify.com',
+        message: 'hello',
+        context: { sessionId: 'session_1' },
+        source: 'widget',
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.body).toMatchObject({
+        message: 'Hello!',
+        quickReplies: ['Browse'],
+        sessionId: 'session_1',
+        chatSessionId: 'session_1',
+        success: true,
+      });
+    });
+  });
+});
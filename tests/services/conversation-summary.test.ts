@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildExtractiveSummary,
+  extractConversationFacts,
+  refreshConversationSummary,
+  summarizeStage,
+  updateConversationSummary,
+} from '../../app/services/chat-pipeline/summary.server';
+import { persistStage } from '../../app/services/chat-pipeline/persist.server';
+import type { LLMProvider } from '../../app/services/llm/index.server';
+import type { ChatPipelineState } from '../../app/services/chat-pipeline/types';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatMessage: { count: vi.fn(), findMany: vi.fn() },
+    chatSession: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+
+vi.mock('../../app/services/personalization.service', () => ({
+  personalizationService: {
+    saveChatMessage: vi.fn(),
+    trackInteraction: vi.fn(),
+    learnPreferences: vi.fn(),
+  },
+}));
+
+const olderMessages = [
+  { role: 'user', content: 'I need running shoes in blue, size 42, budget under 80€', intent: 'PRODUCT_SEARCH', metadata: '{}', timestamp: new Date('2026-10-01T10:00:00Z') },
+  { role: 'assistant', content: 'Here are some options', intent: 'PRODUCT_SEARCH', metadata: JSON.stringify({ productTitles: ['Trail Runner', 'Road Pro'] }), timestamp: new Date('2026-10-01T10:00:01Z') },
+  { role: 'user', content: 'What about returns for order #1042?', intent: 'RETURNS', metadata: '{}', timestamp: new Date('2026-10-01T10:01:00Z') },
+  { role: 'assistant', content: '30 days', intent: 'RETURNS', metadata: '{}', timestamp: new Date('2026-10-01T10:01:01Z') },
+];
+
+function createState(sessionContext: Record<string, unknown> = {}): ChatPipelineState {
+  return {
+    chatSessionId: 'chat-1',
+    plan: 'STARTER',
+    sessionContext,
+    n8nContext: {},
+  } as unknown as ChatPipelineState;
+}
+
+describe('Conversation summary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.LLM_PROVIDER;
+  });
+
+  describe('extractConversationFacts', () => {
+    it('should pull budget, sizes, colors, products, topics and order numbers', () => {
+      expect(extractConversationFacts(olderMessages)).toEqual({
+        budget: '80€',
+        sizes: ['42'],
+        colors: ['blue'],
+        products: ['Trail Runner', 'Road Pro'],
+        topics: ['PRODUCT_SEARCH', 'RETURNS'],
+        orderNumbers: ['#1042'],
+      });
+    });
+
+    it('should merge with previous facts and let the latest budget win', () => {
+      const facts = extractConversationFacts(
+        [{ role: 'user', content: 'Actually my budget is $120, taille M' }],
+        { budget: '80€', sizes: ['42'] }
+      );
+      expect(facts.budget).toBe('$120');
+      expect(facts.sizes).toEqual(['42', 'M']);
+    });
+  });
+
+  describe('buildExtractiveSummary', () => {
+    it('should render facts and keep the latest shopper quotes', () => {
+      const text = buildExtractiveSummary(extractConversationFacts(olderMessages), olderMessages);
+      expect(text).toContain('Budget: 80€');
+      expect(text).toContain('Products discussed: Trail Runner, Road Pro');
+      expect(text).toContain('Earlier shopper messages: "I need running shoes');
+    });
+  });
+
+  describe('updateConversationSummary', () => {
+    it('should use the LLM text when a provider is available', async () => {
+      const provider: LLMProvider = {
+        name: 'openai',
+        model: 'test',
+        supportsTools: false,
+        complete: vi.fn().mockResolvedValue({ text: 'Shopper wants blue trail shoes, size 42.', model: 'test' }),
+      };
+
+      const summary = await updateConversationSummary(null, olderMessages, provider);
+
+      expect(summary.method).toBe('llm');
+      expect(summary.text).toBe('Shopper wants blue trail shoes, size 42.');
+      expect(summary.facts.budget).toBe('80€');
+      expect(summary.coveredMessages).toBe(4);
+      expect(summary.coveredUntil).toBe('2026-10-01T10:01:01.000Z');
+    });
+
+    it('should fall back to the extractive summary when the LLM fails', async () => {
+      const provider: LLMProvider = {
+        name: 'openai',
+        model: 'test',
+        supportsTools: false,
+        complete: vi.fn().mockRejectedValue(new Error('timeout')),
+      };
+
+      const summary = await updateConversationSummary(null, olderMessages, provider);
+      expect(summary.method).toBe('extractive');
+      expect(summary.text).toContain('Sizes: 42');
+    });
+  });
+
+  describe('refreshConversationSummary', () => {
+    it('should wait until a full batch of older messages is available', async () => {
+      mockPrisma.chatMessage.count.mockResolvedValue(14);
+      await refreshConversationSummary(createState());
+
+      expect(mockPrisma.chatMessage.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should fold messages beyond the recent window into the stored session context', async () => {
+      mockPrisma.chatMessage.count.mockResolvedValue(16);
+      mockPrisma.chatMessage.findMany.mockResolvedValue(olderMessages);
+      // A later turn already stored its own context fields
+      mockPrisma.chatSession.findUnique.mockResolvedValue({ context: JSON.stringify({ intent: 'RETURNS', language: 'fr' }) });
+
+      await refreshConversationSummary(createState({ intent: 'PRODUCT_SEARCH' }));
+
+      expect(mockPrisma.chatMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 6 }));
+      const saved = JSON.parse(mockPrisma.chatSession.update.mock.calls[0]![0].data.context);
+      expect(saved).toMatchObject({ intent: 'RETURNS', language: 'fr' });
+      expect(saved.conversationSummary).toMatchObject({ method: 'extractive', coveredMessages: 4 });
+    });
+
+    it('should only fetch messages after the covered ones', async () => {
+      mockPrisma.chatMessage.count.mockResolvedValue(30);
+      mockPrisma.chatMessage.findMany.mockResolvedValue(olderMessages);
+      mockPrisma.chatSession.findUnique.mockResolvedValue({ context: '{}' });
+      const state = createState({
+        conversationSummary: {
+          text: 'Budget: 80€',
+          facts: {},
+          coveredMessages: 10,
+          coveredUntil: '2026-10-01T09:00:00.000Z',
+          method: 'extractive',
+          updatedAt: '2026-10-01T09:00:00.000Z',
+        },
+      });
+
+      await refreshConversationSummary(state);
+
+      expect(mockPrisma.chatMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { sessionId: 'chat-1', timestamp: { gt: new Date('2026-10-01T09:00:00.000Z') } },
+        take: 10,
+      }));
+      const saved = JSON.parse(mockPrisma.chatSession.update.mock.calls[0]![0].data.context);
+      expect(saved.conversationSummary.coveredMessages).toBe(14);
+    });
+  });
+
+  describe('summarizeStage', () => {
+    it('should finish the fold before the stage returns', async () => {
+      mockPrisma.chatMessage.count.mockResolvedValue(16);
+      mockPrisma.chatMessage.findMany.mockResolvedValue(olderMessages);
+      mockPrisma.chatSession.findUnique.mockResolvedValue({ context: '{}' });
+      const state = createState();
+
+      await summarizeStage(state);
+
+      expect(mockPrisma.chatSession.update).toHaveBeenCalledTimes(1);
+      expect(state.sessionContext.conversationSummary).toMatchObject({ coveredMessages: 4 });
+    });
+  });
+
+  describe('persistStage', () => {
+    it('should keep a newer summary stored by a concurrent request', async () => {
+      const newer = { text: 'Budget: 80€', facts: {}, coveredMessages: 12, coveredUntil: null, method: 'extractive', updatedAt: '2026-10-01T10:00:00.000Z' };
+      mockPrisma.chatSession.findUnique.mockResolvedValue({
+        context: JSON.stringify({ conversationSummary: newer, leadCapture: { productMessages: 2 } }),
+      });
+      const state = {
+        ...createState({ conversationSummary: { ...newer, coveredMessages: 6 } }),
+        input: { shop: 'test-shop.myshopify.com', message: 'Any blue mugs?', context: {}, source: 'widget' },
+        intent: { type: 'PRODUCT_SEARCH', confidence: 0.9 },
+        language: 'en',
+        recommendations: [],
+        response: { message: 'Here you go' },
+      } as unknown as ChatPipelineState;
+
+      await persistStage(state);
+
+      const saved = JSON.parse(mockPrisma.chatSession.update.mock.calls[0]![0].data.context);
+      expect(saved.conversationSummary.coveredMessages).toBe(12);
+      expect(saved.leadCapture).toEqual({ productMessages: 2 });
+    });
+  });
+});
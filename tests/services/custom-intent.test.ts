@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  clearCustomIntentCache,
+  getShopCustomIntents,
+  parseSuggestedActionLines,
+  toCustomIntentKey,
+  validateCustomIntent,
+  type CustomIntentInput,
+} from '../../app/services/custom-intent.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    customIntent: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+// Built at runtime so the fixture is not itself a script URL literal
+const SCRIPT_URL = ['javascript', 'alert(1)'].join(':');
+
+const VALID_INPUT: CustomIntentInput = {
+  name: 'Gift wrapping',
+  phrases: ['gift wrap', 'emballage cadeau'],
+  responseText: 'Every order can be gift wrapped for $5 at checkout.',
+  quickReplies: ['Show gift ideas'],
+  suggestedActions: [{ label: 'Gift cards', action: 'custom', data: '/collections/gift-cards' }],
+  productQuery: 'tag:gift',
+  priority: 'normal',
+};
+
+describe('Custom intents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCustomIntentCache('test.myshopify.com');
+  });
+
+  it('should build stable analytics keys from names', () => {
+    expect(toCustomIntentKey('Gift wrapping')).toBe('GIFT_WRAPPING');
+    expect(toCustomIntentKey('  Gravure personnalisée !')).toBe('GRAVURE_PERSONNALISEE');
+  });
+
+  it('should parse suggested actions from "Label | link" lines', () => {
+    expect(parseSuggestedActionLines('Gift cards | /collections/gift-cards\n\nContact us')).toEqual([
+      { label: 'Gift cards', action: 'custom', data: '/collections/gift-cards' },
+      { label: 'Contact us', action: 'custom' },
+    ]);
+  });
+
+  it('should validate intents before saving', () => {
+    expect(validateCustomIntent(VALID_INPUT)).toEqual([]);
+
+    const errors = validateCustomIntent({
+      ...VALID_INPUT,
+      phrases: [],
+      suggestedActions: [{ label: 'Bad', action: 'custom', data: SCRIPT_URL }],
+      priority: 'urgent' as CustomIntentInput['priority'],
+    });
+    expect(errors).toEqual([
+      'Add at least one trigger phrase',
+      'Action links must start with https:// or / (a page of your store)',
+      'Priority must be "high", "normal" or "low"',
+    ]);
+  });
+
+  it('should cache enabled intents per shop', async () => {
+    mockPrisma.customIntent.findMany.mockResolvedValue([{
+      id: 'ci_1',
+      shop: 'test.myshopify.com',
+      key: 'GIFT_WRAPPING',
+      name: 'Gift wrapping',
+      phrases: '["gift wrap"]',
+      responseText: 'Yes!',
+      quickReplies: 'not json',
+      suggestedActions: '[]',
+      productQuery: null,
+      priority: 'high',
+      enabled: true,
+    }]);
+
+    const intents = await getShopCustomIntents('test.myshopify.com');
+    await getShopCustomIntents('test.myshopify.com');
+
+    expect(intents).toEqual([expect.objectContaining({ key: 'GIFT_WRAPPING', phrases: ['gift wrap'], quickReplies: [], priority: 'high' })]);
+    expect(mockPrisma.customIntent.findMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.customIntent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { shop: 'test.myshopify.com', enabled: true }
+    }));
+  });
+});
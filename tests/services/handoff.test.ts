@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createHandoffRequest,
+  detectEscalationReason,
+  isHumanRequest,
+  type EscalationSignals,
+} from '../../app/services/handoff.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatSession: {
+      findFirst: vi.fn(),
+    },
+    chatMessage: {
+      findMany: vi.fn(),
+    },
+    handoffRequest: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+const CALM_REPLY: EscalationSignals = {
+  message: 'Do you have this in blue?',
+  sentiment: 'neutral',
+  confidence: 0.8,
+  isSupportIntent: false,
+  flagged: false,
+};
+
+describe('Handoff queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should recognise requests for a human in every widget language', () => {
+    [
+      'Can I talk to a human please?',
+      'Je voudrais parler à quelqu\'un',
+      'Quiero hablar con una persona',
+      'Ich möchte mit einem Mitarbeiter sprechen',
+      'Posso parlare con un operatore?',
+      'Quero falar com um atendente',
+      '担当者と話したいです',
+      '我要转人工',
+    ].forEach((message) => expect(isHumanRequest(message)).toBe(true));
+
+    expect(isHumanRequest('Is this jacket waterproof?')).toBe(false);
+  });
+
+  it('should not mistake ordinary words for a request for a human', () => {
+    [
+      'Is this safe for my travel agent?',
+      'Which cleaning agent works on leather?',
+      'Mensch, ist das teuer!',
+      'Does this wig use human hair?',
+      'Pouvez-vous me conseiller une veste ?',
+      'Ist das für Menschen mit Allergien geeignet?',
+      'Tienen un agente limpiador?',
+      '友人と話して、このジャケットに決めました',
+      '友人と話したいのでギフトを探しています',
+    ].forEach((message) => expect(isHumanRequest(message)).toBe(false));
+
+    expect(isHumanRequest('Can I get a live agent?')).toBe(true);
+    expect(isHumanRequest('Kann ich mit einem Menschen sprechen?')).toBe(true);
+    expect(isHumanRequest('スタッフと話せますか？')).toBe(true);
+  });
+
+  it('should pick the escalation reason from the reply signals', () => {
+    expect(detectEscalationReason(CALM_REPLY)).toBeNull();
+    expect(detectEscalationReason({ ...CALM_REPLY, message: 'Let me speak to a real person' })).toBe('explicit_request');
+    expect(detectEscalationReason({ ...CALM_REPLY, sentiment: 'negative', isSupportIntent: true })).toBe('negative_sentiment');
+    // Negative sentiment alone (e.g. "I hate this color") is not a support problem
+    expect(detectEscalationReason({ ...CALM_REPLY, sentiment: 'negative' })).toBeNull();
+    expect(detectEscalationReason({ ...CALM_REPLY, confidence: 0.2 })).toBe('low_confidence');
+    expect(detectEscalationReason({ ...CALM_REPLY, flagged: true })).toBe('low_confidence');
+  });
+
+  it('should queue a session with its transcript oldest first', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'cs_1' });
+    mockPrisma.handoffRequest.findFirst.mockResolvedValue(null);
+    mockPrisma.chatMessage.findMany.mockResolvedValue([
+      { role: 'assistant', content: 'Sorry to hear that.', timestamp: new Date('2026-01-31T10:01:00Z'), productsShown: '["p_1"]' },
+      { role: 'user', content: 'My order is broken', timestamp: new Date('2026-01-31T10:00:00Z'), productsShown: null },
+    ]);
+    mockPrisma.handoffRequest.create.mockImplementation(async ({ data }) => ({ id: 'ho_1', status: 'waiting', ...data }));
+
+    const result = await createHandoffRequest('test.myshopify.com', 'cs_1', 'negative_sentiment', '  Please call me  ');
+
+    expect(result?.created).toBe(true);
+    const { data } = mockPrisma.handoffRequest.create.mock.calls[0]![0];
+    expect(data.note).toBe('Please call me');
+    expect(JSON.parse(data.transcript)).toEqual([
+      { role: 'user', content: 'My order is broken', timestamp: '2026-01-31T10:00:00.000Z', productsShown: [] },
+      { role: 'assistant', content: 'Sorry to hear that.', timestamp: '2026-01-31T10:01:00.000Z', productsShown: ['p_1'] },
+    ]);
+  });
+
+  it('should return the open request instead of queueing twice', async () => {
+    const open = { id: 'ho_1', status: 'assigned' };
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'cs_1' });
+    mockPrisma.handoffRequest.findFirst.mockResolvedValue(open);
+
+    const result = await createHandoffRequest('test.myshopify.com', 'cs_1', 'explicit_request');
+
+    expect(result).toEqual({ handoff: open, created: false });
+    expect(mockPrisma.handoffRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('should ignore sessions from another shop', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue(null);
+
+    expect(await createHandoffRequest('test.myshopify.com', 'cs_other', 'explicit_request')).toBeNull();
+    expect(mockPrisma.chatSession.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'cs_other', shop: 'test.myshopify.com' } })
+    );
+  });
+});
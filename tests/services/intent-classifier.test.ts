@@ -0,0 +1,264 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  INTENT_TYPES,
+  classifyIntent,
+  classifyIntentByRules,
+  getIntentAnalyticsName,
+  normalizeIntentName,
+  scoreCustomIntent,
+  type CustomIntentDefinition,
+  type IntentType,
+} from '../../app/services/intent-classifier.service.server';
+import type { LLMProvider } from '../../app/services/llm/index.server';
+
+// Labeled shopper messages in the widget languages (EN, FR, ES, DE, IT, PT, JA, ZH)
+const LABELED_MESSAGES: Array<[string, IntentType]> = [
+  ['How long does shipping take to Canada?', 'SHIPPING_INFO'],
+  ['Quels sont les délais de livraison ?', 'SHIPPING_INFO'],
+  ['¿Cuánto tarda el envío?', 'SHIPPING_INFO'],
+  ['Wie lange dauert der Versand?', 'SHIPPING_INFO'],
+  ['Quanto costa la spedizione in Italia?', 'SHIPPING_INFO'],
+  ['Qual é o prazo de entrega?', 'SHIPPING_INFO'],
+  ['配送にはどのくらいかかりますか', 'SHIPPING_INFO'],
+  ['多久发货', 'SHIPPING_INFO'],
+
+  ['What is your return policy?', 'RETURNS'],
+  ['Je voudrais un remboursement', 'RETURNS'],
+  ['¿Cómo funcionan las devoluciones?', 'RETURNS'],
+  ['Kann ich einen Umtausch machen?', 'RETURNS'],
+  ['Come funziona il rimborso?', 'RETURNS'],
+  ['Como faço uma troca?', 'RETURNS'],
+  ['返品できますか', 'RETURNS'],
+  ['怎么退货', 'RETURNS'],
+
+  ['Where is my order?', 'TRACK_ORDER'],
+  ['Je veux suivre ma commande', 'TRACK_ORDER'],
+  ['¿Dónde está mi pedido?', 'TRACK_ORDER'],
+  ['Wo ist meine Bestellung?', 'TRACK_ORDER'],
+  ['Qual è lo stato del mio ordine?', 'TRACK_ORDER'],
+  ['Quero rastrear minha encomenda', 'TRACK_ORDER'],
+  ['注文状況を確認したい', 'TRACK_ORDER'],
+  ['查询我的订单状态', 'TRACK_ORDER'],
+
+  ['Where can I read your terms of service?', 'TERMS'],
+  ['Quelles sont vos conditions générales de vente ?', 'TERMS'],
+  ['Wo finde ich Ihre AGB?', 'TERMS'],
+  ['利用規約はどこですか', 'TERMS'],
+
+  ['How do you use my personal data?', 'PRIVACY'],
+  ['Que faites-vous de mes données personnelles ?', 'PRIVACY'],
+  ['¿Cuál es su política de privacidad?', 'PRIVACY'],
+  ['个人信息会被分享吗', 'PRIVACY'],
+
+  ['How can I contact you?', 'CONTACT'],
+  ['Comment vous contacter ?', 'CONTACT'],
+  ['Wie lautet Ihre Telefonnummer?', 'CONTACT'],
+  ['怎么联系你们', 'CONTACT'],
+
+  ['I need help', 'HELP_FAQ'],
+  ["J'ai besoin d'aide", 'HELP_FAQ'],
+  ['Necesito ayuda', 'HELP_FAQ'],
+  ['Ich brauche Hilfe', 'HELP_FAQ'],
+  ['Ho bisogno di aiuto', 'HELP_FAQ'],
+  ['Preciso de ajuda', 'HELP_FAQ'],
+  ['サポートをお願いします', 'HELP_FAQ'],
+  ['我需要帮助', 'HELP_FAQ'],
+
+  ['What are your best sellers?', 'BESTSELLERS'],
+  ['Quels sont les produits les plus vendus ?', 'BESTSELLERS'],
+  ['¿Cuáles son los más vendidos?', 'BESTSELLERS'],
+  ['Was sind Ihre Bestseller?', 'BESTSELLERS'],
+  ['人気商品を見せて', 'BESTSELLERS'],
+  ['热门商品有哪些', 'BESTSELLERS'],
+
+  ['Show me new arrivals', 'NEW_ARRIVALS'],
+  ['Quelles sont les nouveautés ?', 'NEW_ARRIVALS'],
+  ['¿Qué novedades tienen?', 'NEW_ARRIVALS'],
+  ['Zeig mir die Neuheiten', 'NEW_ARRIVALS'],
+  ['新商品はありますか', 'NEW_ARRIVALS'],
+
+  ['What products are on sale?', 'ON_SALE'],
+  ['Avez-vous des promotions ?', 'ON_SALE'],
+  ['¿Tienen descuentos?', 'ON_SALE'],
+  ['Gibt es einen Rabatt?', 'ON_SALE'],
+  ['Ci sono offerte?', 'ON_SALE'],
+  ['セール中の商品は？', 'ON_SALE'],
+
+  ['Show me recommendations for me', 'RECOMMENDATIONS'],
+  ['Des recommandations pour moi ?', 'RECOMMENDATIONS'],
+  ['Haben Sie Empfehlungen?', 'RECOMMENDATIONS'],
+  ['おすすめは何ですか', 'RECOMMENDATIONS'],
+  ['有什么推荐吗', 'RECOMMENDATIONS'],
+
+  ['Show me your products', 'PRODUCT_SEARCH'],
+  ['I am looking for a leather bag', 'PRODUCT_SEARCH'],
+  ['Je cherche une veste en cuir', 'PRODUCT_SEARCH'],
+  ['Busco una mochila', 'PRODUCT_SEARCH'],
+  ['Cerco una borsa', 'PRODUCT_SEARCH'],
+  ['Do you have white sneakers?', 'PRODUCT_SEARCH'],
+
+  ['How much is the leather bag?', 'PRICE_INQUIRY'],
+  ['Combien coûte cette veste ?', 'PRICE_INQUIRY'],
+  ['¿Cuánto cuesta esta chaqueta?', 'PRICE_INQUIRY'],
+  ['Wie viel kostet das?', 'PRICE_INQUIRY'],
+  ['Qual è il prezzo di questa borsa?', 'PRICE_INQUIRY'],
+  ['Quanto custa este casaco?', 'PRICE_INQUIRY'],
+  ['このバッグはいくらですか', 'PRICE_INQUIRY'],
+  ['这个多少钱', 'PRICE_INQUIRY'],
+
+  ['What is the difference between the two jackets?', 'COMPARISON'],
+  ['Which one is better?', 'COMPARISON'],
+  ['Quelle est la différence entre ces deux modèles ?', 'COMPARISON'],
+  ['¿Cuál es mejor?', 'COMPARISON'],
+  ['Was ist der Unterschied zwischen diesen Jacken?', 'COMPARISON'],
+  ['Qual è la differenza tra questi due?', 'COMPARISON'],
+  ['2つの違いは何ですか', 'COMPARISON'],
+  ['这两个有什么区别', 'COMPARISON'],
+
+  ['Is this jacket in stock?', 'AVAILABILITY'],
+  ['Est-ce que ce sac est disponible ?', 'AVAILABILITY'],
+  ['¿Está agotado?', 'AVAILABILITY'],
+  ['Ist das auf Lager?', 'AVAILABILITY'],
+  ['È disponibile?', 'AVAILABILITY'],
+  ['Está disponível?', 'AVAILABILITY'],
+  ['在庫はありますか', 'AVAILABILITY'],
+  ['这个有货吗', 'AVAILABILITY'],
+
+  ['What size should I take?', 'SIZE_FIT'],
+  ['Quelle taille me conseillez-vous ?', 'SIZE_FIT'],
+  ['¿Qué talla debo elegir?', 'SIZE_FIT'],
+  ['Welche Größe passt mir?', 'SIZE_FIT'],
+  ['Che taglia devo prendere?', 'SIZE_FIT'],
+  ['Qual tamanho devo escolher?', 'SIZE_FIT'],
+  ['サイズはどれがいいですか', 'SIZE_FIT'],
+  ['尺码怎么选', 'SIZE_FIT'],
+
+  ['Hello', 'GREETING'],
+  ['Bonjour', 'GREETING'],
+  ['Hola', 'GREETING'],
+  ['Guten Tag', 'GREETING'],
+  ['Buongiorno', 'GREETING'],
+  ['Olá', 'GREETING'],
+  ['こんにちは', 'GREETING'],
+  ['你好', 'GREETING'],
+
+  ['Thank you!', 'THANKS'],
+  ['Merci beaucoup', 'THANKS'],
+  ['Muchas gracias', 'THANKS'],
+  ['Danke schön', 'THANKS'],
+  ['Grazie mille', 'THANKS'],
+  ['Muito obrigado', 'THANKS'],
+  ['ありがとうございます', 'THANKS'],
+  ['谢谢', 'THANKS'],
+
+  ['hmm', 'GENERAL_CHAT'],
+  ['Are you a robot?', 'GENERAL_CHAT'],
+  ['Tu es un robot ?', 'GENERAL_CHAT'],
+];
+
+describe('Intent classifier', () => {
+  describe('rules', () => {
+    it('should classify the labeled multilingual set', () => {
+      const misclassified = LABELED_MESSAGES
+        .map(([text, expected]) => ({ text, expected, actual: classifyIntentByRules(text).intent.type }))
+        .filter(({ expected, actual }) => expected !== actual);
+
+      expect(misclassified).toEqual([]);
+    });
+
+    it('should cover every intent in the labeled set', () => {
+      const labeled = new Set(LABELED_MESSAGES.map(([, intent]) => intent));
+      expect(INTENT_TYPES.filter((intent) => !labeled.has(intent))).toEqual([]);
+    });
+
+    it('should score every matching intent and prefer the specific one', () => {
+      const result = classifyIntentByRules('Hi, how much does shipping cost?');
+
+      expect(result.intent).toEqual({ type: 'SHIPPING_INFO' });
+      expect(result.confidence).toBe(0.9);
+      expect(result.scores).toMatchObject({ SHIPPING_INFO: 0.9, PRICE_INQUIRY: 0.75, GREETING: 0.55 });
+    });
+
+    it('should keep the product search hint', () => {
+      expect(classifyIntentByRules('show me t-shirts').intent).toEqual({ type: 'PRODUCT_SEARCH', query: 't-shirt' });
+      expect(classifyIntentByRules('hmm')).toMatchObject({ intent: { type: 'GENERAL_CHAT' }, confidence: 0 });
+    });
+  });
+
+  describe('model tier', () => {
+    function fakeProvider(text: string): LLMProvider {
+      return {
+        name: 'openai',
+        model: 'test-model',
+        supportsTools: false,
+        complete: vi.fn(async () => ({ text, model: 'test-model' })),
+      };
+    }
+
+    it('should ask the LLM only when the rules are unsure', async () => {
+      const provider = fakeProvider('{"intent": "RECOMMENDATIONS", "confidence": 0.8}');
+
+      const unsure = await classifyIntent('Something nice for my mum?', { modelTier: 'llm', llmProvider: provider });
+      expect(unsure).toMatchObject({ intent: { type: 'RECOMMENDATIONS' }, confidence: 0.8, tier: 'llm' });
+
+      const sure = await classifyIntent('What is your return policy?', { modelTier: 'llm', llmProvider: provider });
+      expect(sure.tier).toBe('rules');
+      expect(provider.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the rule result when the model answer is unusable', async () => {
+      const provider = fakeProvider('I think this is about gifts');
+
+      const result = await classifyIntent('Something nice for my mum?', { modelTier: 'llm', llmProvider: provider });
+      expect(result).toMatchObject({ intent: { type: 'GENERAL_CHAT' }, tier: 'rules' });
+    });
+  });
+
+  describe('custom intents', () => {
+    const giftWrap: CustomIntentDefinition = {
+      key: 'GIFT_WRAPPING',
+      name: 'Gift wrapping',
+      phrases: ['gift wrap', 'emballage cadeau', 'ギフト包装'],
+      priority: 'normal',
+    };
+
+    it('should match phrases across languages', () => {
+      expect(scoreCustomIntent('Do you offer gift wrap?', giftWrap)).toBe(0.9);
+      expect(scoreCustomIntent("Proposez-vous l'emballage cadeau ?", giftWrap)).toBe(0.9);
+      expect(scoreCustomIntent('ギフト包装はできますか', giftWrap)).toBe(0.9);
+      expect(scoreCustomIntent('Can you wrap it as a gift?', giftWrap)).toBe(0.8);
+      expect(scoreCustomIntent('Is this a good gift?', giftWrap)).toBe(0);
+    });
+
+    it('should compete with built-in intents by priority', () => {
+      const message = 'How much is gift wrap?';
+
+      const normal = classifyIntentByRules(message, [giftWrap]);
+      expect(normal.intent).toEqual({ type: 'CUSTOM', key: 'GIFT_WRAPPING', name: 'Gift wrapping' });
+      expect(normal.scores).toMatchObject({ 'CUSTOM:GIFT_WRAPPING': 0.9, PRICE_INQUIRY: 0.75 });
+
+      const low = classifyIntentByRules(message, [{ ...giftWrap, priority: 'low' }]);
+      expect(low.intent.type).toBe('PRICE_INQUIRY');
+      expect(classifyIntentByRules('gift wrap', [{ ...giftWrap, priority: 'low' }]).intent.type).toBe('CUSTOM');
+
+      // Partial match (0.8) loses to a specific support intent (0.9) unless the priority is high
+      const shipping = 'What does shipping cost if you wrap it as a gift?';
+      expect(classifyIntentByRules(shipping, [giftWrap]).intent.type).toBe('SHIPPING_INFO');
+      expect(classifyIntentByRules(shipping, [{ ...giftWrap, priority: 'high' }]).intent.type).toBe('CUSTOM');
+    });
+
+    it('should count each custom intent as its own analytics row', () => {
+      const { intent } = classifyIntentByRules('gift wrap please', [giftWrap]);
+      expect(getIntentAnalyticsName(intent)).toBe('CUSTOM:GIFT_WRAPPING');
+      expect(getIntentAnalyticsName({ type: 'RETURNS' })).toBe('RETURNS');
+    });
+  });
+
+  it('should map legacy intent names to the shared taxonomy', () => {
+    expect(normalizeIntentName('SHIPPING')).toBe('SHIPPING_INFO');
+    expect(normalizeIntentName('SUPPORT')).toBe('HELP_FAQ');
+    expect(normalizeIntentName('OTHER')).toBe('GENERAL_CHAT');
+    expect(normalizeIntentName('price_inquiry')).toBe('PRICE_INQUIRY');
+    expect(normalizeIntentName('IMAGE_ANALYSIS')).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildEntryChunks,
+  chunkText,
+  keywordScore,
+  parseKnowledgeImport,
+  resolveKnowledgeSources,
+  retrieveKnowledge,
+  type KnowledgeSnippet,
+} from '../../app/services/knowledge-base.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    knowledgeChunk: {
+      findMany: vi.fn(),
+    },
+    responseCache: {
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/services/embedding.service', () => ({
+  isEmbeddingServiceAvailable: vi.fn(() => false),
+  getEmbeddingService: vi.fn(),
+}));
+
+function chunkRow(entryId: string, title: string, answer: string) {
+  return {
+    entryId,
+    content: `Q: ${title}\nA: ${answer}`,
+    embedding: null,
+    entry: { type: 'faq', title },
+  };
+}
+
+describe('KnowledgeBase', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('chunkText', () => {
+    it('should keep short text in one chunk', () => {
+      expect(chunkText('  Free shipping over $50.  ')).toEqual(['Free shipping over $50.']);
+    });
+
+    it('should split long text on sentences with overlap', () => {
+      const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} talks about delivery times.`);
+      const chunks = chunkText(sentences.join(' '), 200, 50);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every((chunk) => chunk.length <= 200)).toBe(true);
+      // The end of each chunk is repeated at the start of the next
+      expect(chunks[1]!.startsWith('Sentence number 3')).toBe(true);
+      expect(chunks[0]!.endsWith('Sentence number 3 talks about delivery times.')).toBe(true);
+      expect(chunks.join(' ')).toContain('Sentence number 11');
+    });
+
+    it('should prefix FAQ chunks with the question', () => {
+      expect(buildEntryChunks({ type: 'faq', title: 'Do you ship abroad?', content: 'Yes.' }))
+        .toEqual(['Q: Do you ship abroad?\nA: Yes.']);
+    });
+  });
+
+  describe('parseKnowledgeImport', () => {
+    it('should read CSV with quoted fields', () => {
+      const result = parseKnowledgeImport(
+        'question,answer\n"Do you ship abroad?","Yes, to 40 countries.\nSee ""Shipping"" page."\nMissing answer,\n'
+      );
+
+      expect(result.entries).toEqual([
+        { type: 'faq', title: 'Do you ship abroad?', content: 'Yes, to 40 countries.\nSee "Shipping" page.' },
+      ]);
+      expect(result.errors).toEqual(['Line 3: Answer is required']);
+    });
+
+    it('should read JSON FAQs and articles', () => {
+      const result = parseKnowledgeImport(JSON.stringify([
+        { question: 'Gift wrapping?', answer: 'Yes, for $5.' },
+        { title: 'Care guide', content: 'Wash cold.' },
+      ]));
+
+      expect(result.entries.map((entry) => entry.type)).toEqual(['faq', 'article']);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject CSV without a known header', () => {
+      expect(parseKnowledgeImport('foo,bar\n1,2').errors).toHaveLength(1);
+    });
+  });
+
+  describe('retrieveKnowledge', () => {
+    it('should match chunks on keywords when embeddings are unavailable', async () => {
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValueOnce([
+        chunkRow('faq-1', 'Do you offer gift wrapping?', 'Yes, gift wrapping costs $5.'),
+        chunkRow('faq-2', 'Do you ship abroad?', 'We ship to 40 countries.'),
+      ]);
+
+      const results = await retrieveKnowledge('kw-shop.myshopify.com', 'Can you ship my order abroad?');
+
+      expect(results.map((snippet) => snippet.id)).toEqual(['faq-2']);
+      expect(keywordScore('gift wrapping', 'Gift-wrapping available')).toBe(1);
+    });
+
+    it('should return nothing for a shop without entries', async () => {
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValueOnce([]);
+      expect(await retrieveKnowledge('empty-shop.myshopify.com', 'anything')).toEqual([]);
+    });
+  });
+
+  describe('resolveKnowledgeSources', () => {
+    const snippets: KnowledgeSnippet[] = [
+      { id: 'faq-1', type: 'faq', title: 'Gift wrapping?', content: 'Q: Gift wrapping?\nA: Gift wrapping costs $5 and includes a handwritten card.', score: 0.8 },
+      { id: 'faq-2', type: 'faq', title: 'Ship abroad?', content: 'Q: Ship abroad?\nA: We ship to 40 countries.', score: 0.5 },
+    ];
+
+    it('should use the ids reported by the workflow', () => {
+      expect(resolveKnowledgeSources(snippets, { message: 'Sure!', sourceIds: ['faq-2', 'unknown'] }))
+        .toEqual([{ id: 'faq-2', type: 'faq', title: 'Ship abroad?' }]);
+    });
+
+    it('should detect entries reused in the answer', () => {
+      const sources = resolveKnowledgeSources(snippets, {
+        message: 'Gift wrapping costs $5 and includes a handwritten card with your message.',
+      });
+      expect(sources.map((source) => source.id)).toEqual(['faq-1']);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  htmlToText,
+  metafieldToText,
+  parseMetafieldSelector,
+  syncKnowledge,
+} from '../../app/services/knowledge-sync.service.server';
+import {
+  deleteSyncedKnowledgeEntries,
+  onKnowledgeChanged,
+  upsertSyncedKnowledgeEntry,
+} from '../../app/services/knowledge-base.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    knowledgeSync: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    knowledgeEntry: {
+      count: vi.fn(),
+      deleteMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/services/knowledge-base.service.server', () => ({
+  upsertSyncedKnowledgeEntry: vi.fn(),
+  deleteSyncedKnowledgeEntries: vi.fn(),
+  onKnowledgeChanged: vi.fn(),
+}));
+
+const SHOP = 'test-shop.myshopify.com';
+
+function syncRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sync-1',
+    shop: SHOP,
+    sources: '["pages"]',
+    metafields: '[]',
+    status: 'running',
+    cursors: '{}',
+    pageCount: 0,
+    articleCount: 0,
+    metafieldCount: 0,
+    error: null,
+    startedAt: new Date(),
+    finishedAt: null,
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Admin client answering each query by its operation name
+ */
+function mockAdmin(responses: Record<string, unknown>) {
+  return {
+    graphql: vi.fn(async (query: string, _options?: { variables?: Record<string, unknown> }) => {
+      const name = query.match(/query (\w+)/)?.[1] || '';
+      return { json: async () => ({ data: responses[name] }) } as Response;
+    }),
+  };
+}
+
+describe('KnowledgeSync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.knowledgeSync.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.knowledgeEntry.count.mockResolvedValue(0);
+    mockPrisma.knowledgeEntry.groupBy.mockResolvedValue([{ source: 'shopify_page', _count: { _all: 1 } }]);
+    vi.mocked(upsertSyncedKnowledgeEntry).mockResolvedValue('created');
+    vi.mocked(deleteSyncedKnowledgeEntries).mockResolvedValue(1);
+  });
+
+  describe('htmlToText', () => {
+    it('should keep text and structure without markup', () => {
+      const html = '<h2>Returns</h2><p>Send items back within <strong>30&nbsp;days</strong>.</p>' +
+        '<ul><li>Unworn</li><li>With tags &amp; receipt</li></ul><script>track()</script>';
+
+      expect(htmlToText(html)).toBe('Returns\n\nSend items back within 30 days.\n\n- Unworn\n- With tags & receipt');
+    });
+
+    it('should decode numeric entities', () => {
+      expect(htmlToText('It&#39;s &#x2714; done')).toBe("It's ✔ done");
+    });
+  });
+
+  describe('metafieldToText', () => {
+    it('should read rich text and lists', () => {
+      const richText = JSON.stringify({
+        type: 'root',
+        children: [
+          { type: 'paragraph', children: [{ type: 'text', value: 'Machine wash cold.' }] },
+          { type: 'list', children: [
+            { type: 'list-item', children: [{ type: 'text', value: 'No bleach' }] },
+            { type: 'list-item', children: [{ type: 'text', value: 'Dry flat' }] },
+          ] },
+        ],
+      });
+
+      expect(metafieldToText('rich_text_field', richText)).toBe('Machine wash cold.\n\n- No bleach\n- Dry flat');
+      expect(metafieldToText('list.single_line_text_field', '["S","M"]')).toBe('S\nM');
+      expect(metafieldToText('number_integer', '42')).toBe('');
+    });
+  });
+
+  describe('parseMetafieldSelector', () => {
+    it('should parse owner, namespace and key', () => {
+      expect(parseMetafieldSelector('product:custom.care_guide')).toEqual({
+        owner: 'product',
+        namespace: 'custom',
+        key: 'care_guide',
+      });
+      expect(parseMetafieldSelector('order:custom.notes')).toBeNull();
+      expect(parseMetafieldSelector('custom.care_guide')).toBeNull();
+    });
+  });
+
+  describe('syncKnowledge', () => {
+    it('should only fetch pages updated since the cursor and prune unpublished ones', async () => {
+      mockPrisma.knowledgeSync.upsert.mockResolvedValue(
+        syncRow({ cursors: '{"pages":"2026-01-01T00:00:00Z"}' })
+      );
+      const admin = mockAdmin({
+        knowledgeSyncShop: { shop: { primaryDomain: { url: 'https://example.com' } } },
+        knowledgeSyncPages: {
+          pages: {
+            nodes: [{
+              id: 'gid://shopify/Page/1',
+              title: 'Shipping',
+              handle: 'shipping',
+              body: '<p>We ship worldwide.</p>',
+              updatedAt: '2026-01-05T10:00:00Z',
+            }],
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        },
+        knowledgeSyncPagesIds: {
+          pages: { nodes: [{ id: 'gid://shopify/Page/1' }], pageInfo: { hasNextPage: false, endCursor: null } },
+        },
+      });
+
+      const result = await syncKnowledge(SHOP, admin);
+
+      const pagesCall = admin.graphql.mock.calls.find(([query]) => query.includes('knowledgeSyncPages('));
+      expect(pagesCall?.[1]?.variables?.query).toBe("published_status:published AND updated_at:>='2026-01-01T00:00:00Z'");
+
+      expect(upsertSyncedKnowledgeEntry).toHaveBeenCalledWith(SHOP, expect.objectContaining({
+        source: 'shopify_page',
+        externalId: 'gid://shopify/Page/1',
+        content: 'We ship worldwide.',
+        url: 'https://example.com/pages/shipping',
+      }), { allowCreate: true });
+      expect(deleteSyncedKnowledgeEntries).toHaveBeenCalledWith(SHOP, 'shopify_page', ['gid://shopify/Page/1']);
+
+      expect(result).toEqual({ created: 1, updated: 0, deleted: 1, skipped: 0 });
+      expect(mockPrisma.knowledgeSync.update).toHaveBeenCalledWith({
+        where: { shop: SHOP },
+        data: expect.objectContaining({
+          status: 'succeeded',
+          cursors: '{"pages":"2026-01-05T10:00:00Z"}',
+          pageCount: 1,
+        }),
+      });
+      expect(onKnowledgeChanged).toHaveBeenCalledWith(SHOP, 'knowledge_synced');
+    });
+
+    it('should not run while another sync holds the lock', async () => {
+      mockPrisma.knowledgeSync.upsert.mockResolvedValue(syncRow());
+      mockPrisma.knowledgeSync.updateMany.mockResolvedValue({ count: 0 });
+      const admin = mockAdmin({});
+
+      expect(await syncKnowledge(SHOP, admin)).toBeNull();
+      expect(admin.graphql).not.toHaveBeenCalled();
+    });
+
+    it('should store the error when Shopify rejects the query', async () => {
+      mockPrisma.knowledgeSync.upsert.mockResolvedValue(syncRow());
+      const admin = {
+        graphql: vi.fn(async () => ({
+          json: async () => ({ errors: [{ message: 'Access denied for pages field.' }] }),
+        }) as Response),
+      };
+
+      await expect(syncKnowledge(SHOP, admin)).rejects.toThrow('Access denied');
+      expect(mockPrisma.knowledgeSync.update).toHaveBeenCalledWith({
+        where: { shop: SHOP },
+        data: expect.objectContaining({ status: 'failed', error: expect.stringContaining('Access denied') }),
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  parseLeadCaptureConfig,
+  shouldOfferLeadCapture,
+  type LeadCaptureConfig,
+} from '../../app/lib/lead-capture.server';
+import { captureLead } from '../../app/services/lead.service.server';
+import { leadCaptureStage } from '../../app/services/chat-pipeline/lead-capture.server';
+import type { ChatPipelineState } from '../../app/services/chat-pipeline/types';
+
+const { mockPrisma, mockAdmin } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatSession: {
+      findFirst: vi.fn(),
+    },
+    lead: {
+      upsert: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    userProfile: {
+      updateMany: vi.fn(),
+    },
+  },
+  mockAdmin: {
+    graphql: vi.fn(),
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn(async () => ({ admin: mockAdmin })) },
+}));
+
+const SHOP = 'demo-store.myshopify.com';
+
+const ENABLED: LeadCaptureConfig = { enabled: true, afterProductMessages: 3 };
+
+const INPUT = {
+  shop: SHOP,
+  chatSessionId: 'session-1',
+  email: 'Ana@Example.com',
+  firstName: 'Ana',
+  marketingConsent: true,
+  consentText: 'Yes, send me news and offers by email. I can unsubscribe at any time.',
+  trigger: 'rule' as const,
+};
+
+function graphqlResponse(data: unknown) {
+  return { json: async () => ({ data }) } as unknown as Response;
+}
+
+function pipelineState(overrides: Partial<ChatPipelineState> = {}): ChatPipelineState {
+  return {
+    input: { shop: SHOP, message: 'Any blue mugs?', context: {}, source: 'widget' },
+    settings: { leadCapture: JSON.stringify(ENABLED) },
+    chatSessionId: 'session-1',
+    userProfileId: 'profile-1',
+    isProductIntent: true,
+    sessionContext: {},
+    response: { message: 'Here are our blue mugs.', messageType: 'product_recommendation' },
+    ...overrides,
+  } as unknown as ChatPipelineState;
+}
+
+describe('Lead capture', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'session-1', userProfileId: 'profile-1' });
+    mockPrisma.lead.upsert.mockImplementation(async ({ create }) => ({
+      id: 'lead-1',
+      syncStatus: 'pending',
+      consentedAt: null,
+      marketingConsent: false,
+      ...create,
+    }));
+    mockPrisma.lead.update.mockImplementation(async ({ data }) => ({ id: 'lead-1', ...data }));
+    mockPrisma.lead.count.mockResolvedValue(0);
+  });
+
+  it('should parse the stored configuration with safe defaults', () => {
+    expect(parseLeadCaptureConfig(null)).toEqual({ enabled: false, afterProductMessages: 3 });
+    expect(parseLeadCaptureConfig('not json')).toEqual({ enabled: false, afterProductMessages: 3 });
+    expect(parseLeadCaptureConfig('{"enabled":true,"afterProductMessages":99}')).toEqual({
+      enabled: true,
+      afterProductMessages: 20,
+    });
+  });
+
+  it('should offer the form once, when the assistant asks or the rule is met', () => {
+    expect(shouldOfferLeadCapture(ENABLED, { productMessages: 2 }, false)).toBeNull();
+    expect(shouldOfferLeadCapture(ENABLED, { productMessages: 3 }, false)).toBe('rule');
+    expect(shouldOfferLeadCapture(ENABLED, { productMessages: 0 }, true)).toBe('assistant');
+    expect(shouldOfferLeadCapture(ENABLED, { productMessages: 5, offeredAt: '2026-02-04T10:00:00Z' }, true)).toBeNull();
+    expect(shouldOfferLeadCapture({ enabled: true, afterProductMessages: 0 }, { productMessages: 9 }, false)).toBeNull();
+    expect(shouldOfferLeadCapture({ ...ENABLED, enabled: false }, { productMessages: 9 }, true)).toBeNull();
+  });
+
+  it('should attach the form to the third product reply in the pipeline', async () => {
+    const state = pipelineState({ sessionContext: { leadCapture: { productMessages: 2 } } });
+
+    await leadCaptureStage(state);
+
+    expect(state.response?.messageType).toBe('lead_capture');
+    expect(state.leadCapture).toEqual({ trigger: 'rule' });
+    expect(state.sessionContext.leadCapture).toMatchObject({ productMessages: 3, offeredAt: expect.any(String) });
+  });
+
+  it('should not offer the form to shoppers who already left their email', async () => {
+    mockPrisma.lead.count.mockResolvedValue(1);
+    const state = pipelineState({
+      response: { message: 'Sure!', messageType: 'general', requestLeadCapture: true } as ChatPipelineState['response'],
+    });
+
+    await leadCaptureStage(state);
+
+    expect(state.response?.messageType).toBe('general');
+    expect(state.leadCapture).toBeUndefined();
+  });
+
+  it('should create a subscribed Shopify customer when the shopper consented', async () => {
+    mockAdmin.graphql
+      .mockResolvedValueOnce(graphqlResponse({ customers: { nodes: [] } }))
+      .mockResolvedValueOnce(graphqlResponse({
+        customerCreate: { customer: { id: 'gid://shopify/Customer/42' }, userErrors: [] },
+      }));
+
+    const lead = await captureLead(INPUT);
+
+    const upsert = mockPrisma.lead.upsert.mock.calls[0]![0];
+    expect(upsert.where).toEqual({ shop_email: { shop: SHOP, email: 'ana@example.com' } });
+    expect(upsert.create).toMatchObject({ userProfileId: 'profile-1', marketingConsent: true, consentText: INPUT.consentText });
+
+    const createInput = mockAdmin.graphql.mock.calls[1]![1].variables.input;
+    expect(createInput).toMatchObject({
+      email: 'ana@example.com',
+      firstName: 'Ana',
+      tags: ['chat-lead'],
+      emailMarketingConsent: { marketingState: 'SUBSCRIBED', marketingOptInLevel: 'SINGLE_OPT_IN' },
+    });
+    expect(mockPrisma.userProfile.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'profile-1', shop: SHOP, customerId: null },
+      data: { customerId: '42' },
+    }));
+    expect(lead).toMatchObject({ shopifyCustomerId: 'gid://shopify/Customer/42', syncStatus: 'synced' });
+  });
+
+  it('should subscribe an existing customer who consented', async () => {
+    mockAdmin.graphql
+      .mockResolvedValueOnce(graphqlResponse({
+        customers: { nodes: [{ id: 'gid://shopify/Customer/7', emailMarketingConsent: { marketingState: 'NOT_SUBSCRIBED' } }] },
+      }))
+      .mockResolvedValueOnce(graphqlResponse({
+        customerEmailMarketingConsentUpdate: { customer: { id: 'gid://shopify/Customer/7' }, userErrors: [] },
+      }));
+
+    const lead = await captureLead(INPUT);
+
+    expect(mockAdmin.graphql).toHaveBeenCalledTimes(2);
+    expect(mockAdmin.graphql.mock.calls[1]![1].variables.input).toMatchObject({
+      customerId: 'gid://shopify/Customer/7',
+      emailMarketingConsent: { marketingState: 'SUBSCRIBED' },
+    });
+    expect(lead).toMatchObject({ shopifyCustomerId: 'gid://shopify/Customer/7', syncStatus: 'synced' });
+  });
+
+  it('should leave marketing untouched without consent', async () => {
+    mockAdmin.graphql
+      .mockResolvedValueOnce(graphqlResponse({ customers: { nodes: [] } }))
+      .mockResolvedValueOnce(graphqlResponse({
+        customerCreate: { customer: { id: 'gid://shopify/Customer/43' }, userErrors: [] },
+      }));
+
+    await captureLead({ ...INPUT, marketingConsent: false, consentText: undefined });
+
+    const upsert = mockPrisma.lead.upsert.mock.calls[0]![0];
+    expect(upsert.update).not.toHaveProperty('marketingConsent');
+    expect(mockAdmin.graphql.mock.calls[1]![1].variables.input).not.toHaveProperty('emailMarketingConsent');
+  });
+
+  it('should keep the lead and record the error when Shopify rejects it', async () => {
+    mockAdmin.graphql
+      .mockResolvedValueOnce(graphqlResponse({ customers: { nodes: [] } }))
+      .mockResolvedValueOnce(graphqlResponse({
+        customerCreate: { customer: null, userErrors: [{ field: ['email'], message: 'Email is invalid' }] },
+      }));
+
+    const lead = await captureLead(INPUT);
+
+    expect(lead).toMatchObject({ syncStatus: 'failed', syncError: 'customerCreate failed: Email is invalid' });
+  });
+
+  it('should ignore sessions from another shop', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue(null);
+
+    expect(await captureLead(INPUT)).toBeNull();
+    expect(mockPrisma.lead.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,356 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'node:stream';
+import axios from 'axios';
+import { LLMChatService, resolveLLMProvider, type LLMProvider } from '../../app/services/llm/index.server';
+import { AnthropicProvider } from '../../app/services/llm/anthropic.provider.server';
+import {
+  buildMessages,
+  buildSystemPrompt,
+  createMessageStreamParser,
+  parseLLMReply,
+} from '../../app/services/llm/prompt.server';
+import type { N8NRequest } from '../../app/services/n8n.service.server';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const request: N8NRequest = {
+  userMessage: 'Do you have a blue mug?',
+  products: [
+    { id: 'gid://shopify/Product/1', title: 'Blue Mug', handle: 'blue-mug', price: '12.00', compareAtPrice: '15.00', inventory: 3 },
+    { id: 'gid://shopify/Product/2', title: 'Red Mug', handle: 'red-mug', price: '12.00', inventory: 0 },
+  ],
+  context: {
+    shopDomain: 'test-shop.myshopify.com',
+    locale: 'fr',
+    languageInstruction: 'Respond ONLY in French.',
+    isFirstMessage: false,
+    conversationHistory: [
+      { role: 'user', content: 'Bonjour' },
+      { role: 'assistant', content: 'Bonjour ! Comment puis-je vous aider ?' },
+    ],
+    shopPolicies: { shopName: 'Test Shop', returns: '30 day returns', shipping: null, privacy: null },
+  },
+};
+
+describe('LLM provider layer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.LLM_PROVIDER;
+  });
+
+  describe('buildSystemPrompt', () => {
+    it('should include catalog, policies and the language instruction', () => {
+      const prompt = buildSystemPrompt(request);
+
+      expect(prompt).toContain('Respond ONLY in French.');
+      expect(prompt).toContain('id=gid://shopify/Product/1');
+      expect(prompt).toContain('Returns: 30 day returns');
+      expect(prompt).toContain('do not greet the shopper again');
+    });
+
+    it('should place history between the system prompt and the current message', () => {
+      const messages = buildMessages(request);
+
+      expect(messages[0]!.role).toBe('system');
+      expect(messages.slice(1).map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(messages[messages.length - 1]!.content).toBe('Do you have a blue mug?');
+    });
+  });
+
+  describe('parseLLMReply', () => {
+    it('should resolve recommended ids against the catalog and drop unknown ids', () => {
+      const reply = parseLLMReply(
+        '```json\n{"message": "Oui !", "recommendedProductIds": ["gid://shopify/Product/1", "gid://shopify/Product/99"], "confidence": 0.9}\n```',
+        request
+      );
+
+      expect(reply.message).toBe('Oui !');
+      expect(reply.recommendations).toHaveLength(1);
+      expect(reply.recommendations![0]).toMatchObject({
+        id: 'gid://shopify/Product/1',
+        url: 'https://test-shop.myshopify.com/products/blue-mug',
+        discountPercent: 20,
+        isAvailable: true,
+      });
+      expect(reply.confidence).toBe(0.9);
+    });
+
+    it('should use plain text when the model ignores the JSON contract', () => {
+      const reply = parseLLMReply('We have a blue mug in stock.', request);
+      expect(reply.message).toBe('We have a blue mug in stock.');
+      expect(reply.recommendations).toEqual([]);
+    });
+  });
+
+  describe('createMessageStreamParser', () => {
+    function feed(chunks: string[]): string[] {
+      const received: string[] = [];
+      const push = createMessageStreamParser((text) => received.push(text));
+      chunks.forEach(push);
+      return received;
+    }
+
+    it('should pass on only the message field, decoding escapes split across chunks', () => {
+      const received = feed([
+        '```json\n{"quickReplies": ["message"], "mess',
+        'age": "Oui, \\"Blue',
+        ' Mug\\" \\u00e0 12',
+        '€\\nEn stock", "confidence": 0.9, "message": "ignored"}',
+      ]);
+
+      expect(received.join('')).toBe('Oui, "Blue Mug" à 12€\nEn stock');
+      expect(received.length).toBeGreaterThan(1);
+    });
+
+    it('should ignore nested message keys and replies that are not JSON', () => {
+      expect(feed(['{"meta": {"message": "no"}, "message": "yes"}'])).toEqual(['yes']);
+      expect(feed(['We have a blue mug in stock.'])).toEqual([]);
+    });
+  });
+
+  describe('LLMChatService', () => {
+    it('should return an N8N-compatible response', async () => {
+      const provider: LLMProvider = {
+        name: 'local',
+        model: 'test-model',
+        supportsTools: false,
+        complete: vi.fn().mockResolvedValue({
+          text: '{"message": "Voici", "recommendedProductIds": ["gid://shopify/Product/2"], "quickReplies": ["Autre"]}',
+          model: 'test-model',
+        }),
+      };
+
+      const response = await new LLMChatService(provider).processUserMessage(request);
+
+      expect(response.message).toBe('Voici');
+      expect(response.quickReplies).toEqual(['Autre']);
+      expect(response.recommendations![0]!.isAvailable).toBe(false);
+      expect(provider.complete).toHaveBeenCalledWith(expect.any(Array), { json: true });
+    });
+
+    it('should stream the message text of the final answer', async () => {
+      const provider: LLMProvider = {
+        name: 'openai',
+        model: 'test-model',
+        supportsTools: false,
+        complete: vi.fn(async (_messages, options) => {
+          options?.onText?.('{"message": "Voi');
+          options?.onText?.('ci", "recommendedProductIds": []}');
+          return { text: '{"message": "Voici", "recommendedProductIds": []}', model: 'test-model' };
+        }),
+      };
+      const onText = vi.fn();
+
+      const response = await new LLMChatService(provider, { onText }).processUserMessage(request);
+
+      expect(onText.mock.calls.map(([text]) => text)).toEqual(['Voi', 'ci']);
+      expect(response.message).toBe('Voici');
+    });
+
+    it('should throw on an empty completion so callers can fall back', async () => {
+      const provider: LLMProvider = {
+        name: 'openai',
+        model: 'test-model',
+        supportsTools: false,
+        complete: vi.fn().mockResolvedValue({ text: '  ', model: 'test-model' }),
+      };
+
+      await expect(new LLMChatService(provider).processUserMessage(request)).rejects.toThrow();
+    });
+
+    it('should run tool calls, recommend tool products and record the calls', async () => {
+      const complete = vi.fn()
+        .mockResolvedValueOnce({
+          text: '',
+          model: 'test-model',
+          toolCalls: [{ id: 'call_1', name: 'search_products', arguments: { query: 'green mug' } }],
+        })
+        .mockResolvedValueOnce({
+          text: '{"message": "Try this one", "recommendedProductIds": ["gid://shopify/Product/3"]}',
+          model: 'test-model',
+        });
+      const provider: LLMProvider = { name: 'openai', model: 'test-model', supportsTools: true, complete };
+      const searchProducts = {
+        definition: { name: 'search_products', description: 'search', parameters: { type: 'object' } },
+        execute: vi.fn().mockResolvedValue({
+          result: { count: 1 },
+          products: [{ id: 'gid://shopify/Product/3', title: 'Green Mug', handle: 'green-mug', price: '10.00', inventory: 2 }],
+        }),
+      };
+
+      const response = await new LLMChatService(provider, { tools: [searchProducts] }).processUserMessage(request);
+
+      expect(searchProducts.execute).toHaveBeenCalledWith({ query: 'green mug' });
+      expect(response.recommendations!.map((r) => r.id)).toEqual(['gid://shopify/Product/3']);
+      expect(response.toolCalls).toEqual([
+        expect.objectContaining({ name: 'search_products', productIds: ['gid://shopify/Product/3'] }),
+      ]);
+
+      const followUp = complete.mock.calls[1]![0];
+      expect(followUp.slice(-2).map((m: any) => m.role)).toEqual(['assistant', 'tool']);
+      expect(followUp[followUp.length - 1].toolCallId).toBe('call_1');
+    });
+
+    it('should report unknown and failing tools back to the model', async () => {
+      const complete = vi.fn()
+        .mockResolvedValueOnce({
+          text: '',
+          model: 'test-model',
+          toolCalls: [
+            { id: 'call_1', name: 'delete_store', arguments: {} },
+            { id: 'call_2', name: 'get_policy', arguments: { type: 'returns' } },
+          ],
+        })
+        .mockResolvedValueOnce({ text: '{"message": "Sorry"}', model: 'test-model' });
+      const provider: LLMProvider = { name: 'anthropic', model: 'test-model', supportsTools: true, complete };
+      const getPolicy = {
+        definition: { name: 'get_policy', description: 'policy', parameters: { type: 'object' } },
+        execute: vi.fn().mockRejectedValue(new Error('boom')),
+      };
+
+      const response = await new LLMChatService(provider, { tools: [getPolicy] }).processUserMessage(request);
+
+      expect(response.message).toBe('Sorry');
+      expect(response.toolCalls!.map((c) => c.error)).toEqual(['Unknown tool', 'boom']);
+    });
+
+    it('should withdraw tools on the last round when the model keeps calling them', async () => {
+      const toolCall = {
+        text: '',
+        model: 'test-model',
+        toolCalls: [{ id: 'call_1', name: 'search_products', arguments: { query: 'mug' } }],
+      };
+      const complete = vi.fn(async (_messages: unknown, options?: { tools?: unknown[] }) =>
+        options?.tools ? toolCall : { text: '{"message": "Here is what I found"}', model: 'test-model' }
+      );
+      const provider: LLMProvider = { name: 'openai', model: 'test-model', supportsTools: true, complete };
+      const searchProducts = {
+        definition: { name: 'search_products', description: 'search', parameters: { type: 'object' } },
+        execute: vi.fn().mockResolvedValue({ result: { count: 0 } }),
+      };
+
+      const response = await new LLMChatService(provider, { tools: [searchProducts] }).processUserMessage(request);
+
+      expect(response.message).toBe('Here is what I found');
+      expect(complete).toHaveBeenCalledTimes(5);
+      expect(complete.mock.calls[3]![1]?.tools).toHaveLength(1);
+      expect(complete.mock.calls[4]![1]?.tools).toBeUndefined();
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should send the system prompt separately and merge consecutive turns', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { content: [{ type: 'text', text: '{"message":"hi"}' }], usage: { input_tokens: 10, output_tokens: 5 } },
+      });
+
+      const provider = new AnthropicProvider({ apiKey: 'test-key', model: 'test-model' });
+      const completion = await provider.complete([
+        { role: 'system', content: 'system prompt' },
+        { role: 'user', content: 'one' },
+        { role: 'user', content: 'two' },
+      ]);
+
+      const [url, body, config] = mockedAxios.post.mock.calls[0]!;
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect((body as any).system).toBe('system prompt');
+      expect((body as any).messages).toEqual([{ role: 'user', content: 'one\n\ntwo' }]);
+      expect((config as any).headers['x-api-key']).toBe('test-key');
+      expect(completion.usage?.totalTokens).toBe(15);
+    });
+
+    it('should send tool results as tool_result blocks and parse tool_use replies', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { content: [{ type: 'tool_use', id: 'toolu_2', name: 'get_product', input: { handle: 'blue-mug' } }] },
+      });
+
+      const provider = new AnthropicProvider({ apiKey: 'test-key' });
+      const completion = await provider.complete([
+        { role: 'user', content: 'blue mug?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'toolu_1', name: 'search_products', arguments: { query: 'mug' } }] },
+        { role: 'tool', toolCallId: 'toolu_1', content: '{"count":1}' },
+      ], {
+        tools: [{ name: 'get_product', description: 'details', parameters: { type: 'object' } }],
+      });
+
+      const body = mockedAxios.post.mock.calls[0]![1] as any;
+      expect(body.tools[0]).toMatchObject({ name: 'get_product', input_schema: { type: 'object' } });
+      expect(body.messages[1].content[0]).toMatchObject({ type: 'tool_use', id: 'toolu_1' });
+      expect(body.messages[2]).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"count":1}' }],
+      });
+      expect(completion.toolCalls).toEqual([{ id: 'toolu_2', name: 'get_product', arguments: { handle: 'blue-mug' } }]);
+    });
+
+    it('should send earlier tool calls as text when no tools are offered', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { content: [{ type: 'text', text: '{"message":"ok"}' }] } });
+
+      const provider = new AnthropicProvider({ apiKey: 'test-key' });
+      await provider.complete([
+        { role: 'user', content: 'blue mug?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'toolu_1', name: 'search_products', arguments: { query: 'mug' } }] },
+        { role: 'tool', toolCallId: 'toolu_1', content: '{"count":1}' },
+      ]);
+
+      const body = mockedAxios.post.mock.calls[0]![1] as any;
+      expect(body.tools).toBeUndefined();
+      expect(body.messages).toEqual([
+        { role: 'user', content: 'blue mug?' },
+        { role: 'assistant', content: 'Called tools: search_products({"query":"mug"})' },
+        { role: 'user', content: 'Tool result: {"count":1}' },
+      ]);
+    });
+
+    it('should stream text deltas and assemble tool inputs from a streamed reply', async () => {
+      const events = [
+        { type: 'message_start', message: { model: 'test-model', usage: { input_tokens: 10 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '{"message":' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '"hi"}' } },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_product' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"handle":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"blue-mug"}' } },
+        { type: 'message_delta', usage: { output_tokens: 5 } },
+        { type: 'message_stop' },
+      ];
+      const body = events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+      // Split mid-frame like a real network stream
+      mockedAxios.post.mockResolvedValueOnce({ data: Readable.from([body.slice(0, 150), body.slice(150)]) });
+      const onText = vi.fn();
+
+      const provider = new AnthropicProvider({ apiKey: 'test-key' });
+      const completion = await provider.complete([{ role: 'user', content: 'blue mug?' }], { onText });
+
+      const [, requestBody, config] = mockedAxios.post.mock.calls[0]!;
+      expect((requestBody as any).stream).toBe(true);
+      expect((config as any).responseType).toBe('stream');
+      expect(onText.mock.calls.map(([text]) => text)).toEqual(['{"message":', '"hi"}']);
+      expect(completion).toMatchObject({
+        text: '{"message":"hi"}',
+        model: 'test-model',
+        toolCalls: [{ id: 'toolu_1', name: 'get_product', arguments: { handle: 'blue-mug' } }],
+        usage: { totalTokens: 15 },
+      });
+    });
+  });
+
+  describe('resolveLLMProvider', () => {
+    it('should be disabled without configuration', () => {
+      expect(resolveLLMProvider()).toBeNull();
+    });
+
+    it('should prefer a BYOK key', () => {
+      process.env.LLM_PROVIDER = 'local';
+      const provider = resolveLLMProvider({ byokKey: 'sk-test' });
+      expect(provider?.name).toBe('openai');
+    });
+
+    it('should build the configured local provider', () => {
+      process.env.LLM_PROVIDER = 'local';
+      expect(resolveLLMProvider()?.name).toBe('local');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseN8NResponse } from '../../app/services/n8n-response.server';
+
+describe('parseN8NResponse', () => {
+  it('should keep a well-formed response unchanged', () => {
+    const data = {
+      message: 'Here you go',
+      messageType: 'product_recommendation',
+      recommendations: [{ id: 'gid://shopify/Product/1', title: 'Hat', handle: 'hat', price: '19.00' }],
+      quickReplies: ['Show more'],
+      suggestedActions: [{ label: 'View', action: 'view_product', data: 'gid://shopify/Product/1' }],
+      confidence: 0.9,
+    };
+
+    const result = parseN8NResponse(data);
+
+    expect(result.response).toEqual(data);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should coerce fixable fields', () => {
+    const result = parseN8NResponse({
+      message: 'Hi',
+      confidence: '85',
+      requiresHumanEscalation: 'false',
+      recommendations: [{ id: 42, title: 'Hat', handle: 'hat', price: 19, inventory: '3' }],
+      quickReplies: [7, 'Shipping'],
+    });
+
+    expect(result.response).toMatchObject({
+      confidence: 0.85,
+      requiresHumanEscalation: false,
+      recommendations: [{ id: '42', price: '19', inventory: 3 }],
+      quickReplies: ['7', 'Shipping'],
+    });
+    expect(result.warnings.every((w) => w.issue === 'coerced')).toBe(true);
+    expect(result.warnings.map((w) => w.field)).toContain('recommendations[0].price');
+  });
+
+  it('should drop invalid items and fields with warnings', () => {
+    const result = parseN8NResponse({
+      message: 'Hi',
+      sentiment: 'ecstatic',
+      recommendations: [{ title: 'No id' }, { id: '1', title: 'Hat', image: { src: 'x' } }, 'junk'],
+      suggestedActions: [{ label: 'Hack', action: 'eval' }],
+      quickReplies: 'Shipping',
+    });
+
+    expect(result.response?.sentiment).toBeUndefined();
+    expect(result.response?.recommendations).toEqual([{ id: '1', title: 'Hat', handle: '', price: '' }]);
+    expect(result.response?.suggestedActions).toEqual([]);
+    expect(result.response?.quickReplies).toBeUndefined();
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'response.sentiment', issue: 'dropped' }),
+      expect.objectContaining({ field: 'recommendations[0]', issue: 'dropped' }),
+      expect.objectContaining({ field: 'recommendations[1].image', issue: 'dropped' }),
+      expect.objectContaining({ field: 'recommendations[2]', issue: 'dropped' }),
+      expect.objectContaining({ field: 'suggestedActions[0]', issue: 'dropped' }),
+      expect.objectContaining({ field: 'quickReplies', issue: 'dropped' }),
+    ]));
+  });
+
+  it('should reject a response without a message', () => {
+    expect(parseN8NResponse({ message: '   ' }).response).toBeNull();
+    expect(parseN8NResponse('<html>Bad gateway</html>').response).toBeNull();
+  });
+});
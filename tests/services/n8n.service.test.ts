@@ -67,6 +67,7 @@ describe('N8NService', () => {
       expect(result.message).toBe('Here are some product recommendations');
       expect(result.recommendations).toHaveLength(1);
       expect(result.confidence).toBe(0.85);
+      expect(result.fallback).toBeUndefined();
       expect(mockedAxios.post).toHaveBeenCalledWith(
         'https://example.com/webhook',
         expect.objectContaining({
@@ -88,6 +89,7 @@ describe('N8NService', () => {
 
       expect(result.message).toBeDefined();
       expect(result.confidence).toBeDefined();
+      expect(result.fallback).toBe(true);
     });
 
     it('should handle network timeout', async () => {
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildOrderTimeline,
+  contactMatchesOrder,
+  extractOrderLookup,
+  normalizeOrderNumber,
+  trackOrderStage,
+} from '../../app/services/chat-pipeline/order-tracking.server';
+import { createPipelineState } from '../../app/services/chat-pipeline/index.server';
+import { cleanupRateLimits, resetRateLimit } from '../../app/lib/rate-limit.server';
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: {},
+  default: {},
+}));
+
+const order = {
+  id: 'gid://shopify/Order/1',
+  name: '#1001',
+  email: 'Jane@Example.com',
+  phone: null,
+  createdAt: '2026-10-01T10:00:00Z',
+  cancelledAt: null,
+  displayFulfillmentStatus: 'FULFILLED',
+  displayFinancialStatus: 'PAID',
+  customer: { email: 'jane@example.com', phone: '+33 6 12 34 56 78' },
+  shippingAddress: { phone: null },
+  billingAddress: null,
+  fulfillments: [
+    {
+      status: 'SUCCESS',
+      displayStatus: 'IN_TRANSIT',
+      createdAt: '2026-10-02T09:00:00Z',
+      inTransitAt: '2026-10-03T09:00:00Z',
+      deliveredAt: null,
+      estimatedDeliveryAt: '2026-10-06T00:00:00Z',
+      trackingInfo: [{ company: 'UPS', number: '1Z999', url: 'https://ups.com/track?1Z999' }],
+    },
+  ],
+};
+
+function createAdmin(orders: unknown[]) {
+  return {
+    graphql: vi.fn().mockResolvedValue({
+      json: async () => ({ data: { orders: { edges: orders.map((node) => ({ node })) } } }),
+    } as Response),
+  };
+}
+
+function createState(message: string, admin?: ReturnType<typeof createAdmin>, context: Record<string, any> = {}) {
+  const state = createPipelineState({
+    shop: 'test-shop.myshopify.com',
+    message,
+    context: { sessionId: 'session-1', ...context },
+    source: 'widget',
+    clientIp: 'ip:1.2.3.4',
+  });
+  state.intent = { type: 'TRACK_ORDER' };
+  state.admin = admin;
+  return state;
+}
+
+describe('Order tracking', () => {
+  beforeEach(() => {
+    for (const [namespace, identifier] of [
+      ['order-lookup:session', 'test-shop.myshopify.com:session-1'],
+      ['order-lookup:order', 'test-shop.myshopify.com:1001'],
+      ['order-lookup:ip', 'test-shop.myshopify.com:ip:1.2.3.4'],
+    ]) {
+      resetRateLimit(identifier!, namespace);
+    }
+    cleanupRateLimits();
+  });
+
+  describe('extractOrderLookup', () => {
+    it('should read order number and email from a typed message', () => {
+      expect(extractOrderLookup('Where is order #1001? my email is jane@example.com', {})).toEqual({
+        orderNumber: '1001',
+        contact: 'jane@example.com',
+        fromForm: false,
+      });
+    });
+
+    it('should separate the order number from a phone number', () => {
+      const details = extractOrderLookup('commande 1001, tel +33 6 12 34 56 78', {});
+      expect(details.orderNumber).toBe('1001');
+      expect(details.contact).toBe('+33 6 12 34 56 78');
+    });
+
+    it('should accept a bare number only while a lookup is pending', () => {
+      expect(extractOrderLookup('1001 jane@example.com', {}).orderNumber).toBeUndefined();
+      expect(extractOrderLookup('1001 jane@example.com', {}, { pending: true }).orderNumber).toBe('1001');
+    });
+
+    it('should prefer the widget form fields', () => {
+      expect(extractOrderLookup('Order number: 1001', { orderLookup: { orderNumber: '#1001', contact: '0612345678' } }))
+        .toEqual({ orderNumber: '#1001', contact: '0612345678', fromForm: true });
+    });
+  });
+
+  describe('verification', () => {
+    it('should normalize order numbers', () => {
+      expect(normalizeOrderNumber(' #1001 ')).toBe('1001');
+      expect(normalizeOrderNumber('name:1001 OR')).toBeNull();
+    });
+
+    it('should match email case-insensitively and phones on their last digits', () => {
+      expect(contactMatchesOrder(order, 'jane@example.com')).toBe(true);
+      expect(contactMatchesOrder(order, '06 12 34 56 78')).toBe(true);
+      expect(contactMatchesOrder(order, 'other@example.com')).toBe(false);
+      expect(contactMatchesOrder(order, '5678')).toBe(false);
+    });
+  });
+
+  describe('buildOrderTimeline', () => {
+    it('should mark steps done up to the current fulfillment status', () => {
+      const timeline = buildOrderTimeline(order, 'en');
+      expect(timeline.map((s) => [s.key, s.done])).toEqual([
+        ['ordered', true],
+        ['shipped', true],
+        ['in_transit', true],
+        ['out_for_delivery', false],
+        ['delivered', false],
+      ]);
+    });
+
+    it('should end with cancelled for cancelled orders', () => {
+      const timeline = buildOrderTimeline({ ...order, cancelledAt: '2026-10-02T00:00:00Z' }, 'fr');
+      expect(timeline.map((s) => s.label)).toEqual(['Commande passée', 'Annulée']);
+    });
+  });
+
+  describe('trackOrderStage', () => {
+    it('should ask for details when they are missing', async () => {
+      const state = createState('Where is my order?', createAdmin([]));
+      await trackOrderStage(state);
+
+      expect(state.response?.messageType).toBe('order_lookup_request');
+      expect(state.sessionContext.orderLookup).toEqual({ pending: true });
+    });
+
+    it('should return a structured status for a verified order', async () => {
+      const admin = createAdmin([order]);
+      const state = createState('Order #1001 jane@example.com', admin);
+      await trackOrderStage(state);
+
+      expect(state.response?.messageType).toBe('order_status');
+      expect(state.orderStatus).toMatchObject({
+        orderName: '#1001',
+        shipments: [{ carrier: 'UPS', trackingNumbers: ['1Z999'], estimatedDeliveryAt: '2026-10-06T00:00:00Z' }],
+      });
+      expect(state.response?.message).toContain('In transit');
+      expect(state.sessionContext.orderLookup).toEqual({ pending: false });
+    });
+
+    it('should continue a pending lookup even without the TRACK_ORDER intent', async () => {
+      const state = createState('1001 jane@example.com', createAdmin([order]));
+      state.intent = { type: 'GENERAL_CHAT' };
+      state.sessionContext = { orderLookup: { pending: true } };
+      await trackOrderStage(state);
+
+      expect(state.intent.type).toBe('TRACK_ORDER');
+      expect(state.orderStatus?.orderName).toBe('#1001');
+    });
+
+    it('should not reveal whether the order exists when the contact is wrong', async () => {
+      const state = createState('Order #1001 someone@else.com', createAdmin([order]));
+      await trackOrderStage(state);
+
+      expect(state.orderStatus).toBeUndefined();
+      expect(state.response?.message).toContain("couldn't find an order");
+    });
+
+    it('should block lookups after too many failures', async () => {
+      const admin = createAdmin([order]);
+      for (let i = 0; i < 5; i++) {
+        await trackOrderStage(createState('Order #1001 wrong@example.com', admin));
+      }
+
+      const state = createState('Order #1001 jane@example.com', admin);
+      await trackOrderStage(state);
+
+      expect(state.orderStatus).toBeUndefined();
+      expect(state.response?.message).toContain('Too many unsuccessful lookups');
+      expect(admin.graphql).toHaveBeenCalledTimes(5);
+    });
+
+    it('should leave other intents alone', async () => {
+      const state = createState('Show me shoes', createAdmin([]));
+      state.intent = { type: 'PRODUCT_SEARCH', query: 'shoe' };
+      await trackOrderStage(state);
+
+      expect(state.response).toBeUndefined();
+    });
+  });
+});
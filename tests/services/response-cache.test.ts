@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildCacheKey,
+  getCacheScope,
+  invalidateResponseCache,
+  lookupCachedResponse,
+  normalizeCacheMessage,
+  type ResponseCacheRequest,
+} from '../../app/services/response-cache.service.server';
+import { cacheLookupStage, cacheStoreStage } from '../../app/services/chat-pipeline/response-cache.server';
+import type { ChatPipelineState } from '../../app/services/chat-pipeline/types';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    responseCache: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+const shop = 'test-shop.myshopify.com';
+
+function request(overrides: Partial<ResponseCacheRequest> = {}): ResponseCacheRequest {
+  return { shop, message: 'How long does shipping take?', language: 'en', intent: 'SHIPPING_INFO', ...overrides };
+}
+
+function createState(overrides: Record<string, unknown> = {}): ChatPipelineState {
+  return {
+    input: { shop, message: 'How long does shipping take?', context: {}, source: 'widget' },
+    sessionId: 'session-1',
+    language: 'en',
+    intent: { type: 'SHIPPING_INFO', confidence: 0.9 },
+    workflow: { workflowType: 'DEFAULT', engine: 'n8n' },
+    recommendations: [],
+    ...overrides,
+  } as unknown as ChatPipelineState;
+}
+
+function cachedRow(response: string, expiresInMs = 60_000) {
+  return {
+    id: 'entry-1',
+    response: JSON.stringify({ response: { message: response }, recommendations: [] }),
+    expiresAt: new Date(Date.now() + expiresInMs),
+  };
+}
+
+describe('Response cache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.RESPONSE_CACHE_SEMANTIC;
+    mockPrisma.responseCache.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('should normalize case, punctuation and spacing', () => {
+    expect(normalizeCacheMessage('  How long does SHIPPING take?? 🚚 ')).toBe('how long does shipping take');
+    expect(buildCacheKey(request({ message: 'how long does shipping take' }), 'shared'))
+      .toBe(buildCacheKey(request(), 'shared'));
+  });
+
+  it('should scope personalized answers to the shopper and skip personal data', () => {
+    expect(getCacheScope(request())).toBe('shared');
+    expect(getCacheScope(request({ intent: 'RECOMMENDATIONS', shopperId: 'c-1' }))).toBe('shopper:c-1');
+    expect(getCacheScope(request({ intent: 'RECOMMENDATIONS' }))).toBeNull();
+    expect(getCacheScope(request({ intent: 'PRODUCT_SEARCH' }))).toBeNull();
+    expect(getCacheScope(request({ message: 'Where is order #12345?' }))).toBeNull();
+    expect(getCacheScope(request({ message: 'Email me at jane@example.com' }))).toBeNull();
+
+    const recommendation = request({ intent: 'RECOMMENDATIONS' });
+    expect(buildCacheKey(recommendation, 'shopper:a')).not.toBe(buildCacheKey(recommendation, 'shopper:b'));
+  });
+
+  it('should ignore expired entries', async () => {
+    mockPrisma.responseCache.findUnique.mockResolvedValue(cachedRow('Old answer', -1000));
+
+    const result = await lookupCachedResponse(request(), 'shared');
+
+    expect(result.entry).toBeNull();
+    expect(mockPrisma.responseCache.update).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate only the given intents', async () => {
+    mockPrisma.responseCache.deleteMany.mockResolvedValue({ count: 3 });
+
+    await expect(invalidateResponseCache(shop, { intents: ['RETURNS'] })).resolves.toBe(3);
+    expect(mockPrisma.responseCache.deleteMany).toHaveBeenCalledWith({
+      where: { shop, intent: { in: ['RETURNS'] } },
+    });
+  });
+
+  describe('pipeline stages', () => {
+    it('should answer from the cache on a hit', async () => {
+      mockPrisma.responseCache.findUnique.mockResolvedValue(cachedRow('Ships in 2-3 days'));
+      const state = createState();
+
+      await cacheLookupStage(state);
+
+      expect(state.cache).toMatchObject({ scope: 'shared', status: 'hit', match: 'exact' });
+      expect(state.response?.message).toBe('Ships in 2-3 days');
+      expect(mockPrisma.responseCache.update).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+        data: { hits: { increment: 1 } },
+      });
+    });
+
+    it('should store clean workflow replies after a miss', async () => {
+      mockPrisma.responseCache.findUnique.mockResolvedValue(null);
+      const state = createState();
+
+      await cacheLookupStage(state);
+      state.response = { message: 'Ships in 2-3 days', messageType: 'general' };
+      await cacheStoreStage(state);
+
+      expect(state.cache?.status).toBe('miss');
+      expect(mockPrisma.responseCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ shop, scope: 'shared', intent: 'SHIPPING_INFO' }),
+      }));
+    });
+
+    it('should not store fallback or guardrail-flagged replies', async () => {
+      const cache = { scope: 'shared', status: 'miss' };
+
+      await cacheStoreStage(createState({ cache, usedFallback: true, response: { message: 'Sorry' } }));
+      await cacheStoreStage(createState({
+        cache,
+        guardrailViolations: [{ rule: 'external_url', score: 1 }],
+        response: { message: 'See elsewhere' },
+      }));
+
+      expect(mockPrisma.responseCache.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
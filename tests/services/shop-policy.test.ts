@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  extractContactCard,
+  getPolicyAnswer,
+  getShopPolicies,
+  hashPolicyBody,
+  refreshShopPolicies,
+  toShopPolicies,
+} from '../../app/services/shop-policy.service.server';
+import { invalidateResponseCache } from '../../app/services/response-cache.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    shopPolicy: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/services/response-cache.service.server', () => ({
+  invalidateResponseCache: vi.fn(),
+  SUPPORT_CACHE_INTENTS: ['RETURNS', 'SHIPPING_INFO'],
+}));
+
+const SHOP = 'test-shop.myshopify.com';
+
+function policyRow(type: string, body: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `policy-${type}`,
+    shop: SHOP,
+    type,
+    title: null,
+    body,
+    url: null,
+    contentHash: hashPolicyBody(body),
+    overrideBody: null,
+    fetchedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function mockAdmin(shopPolicies: Array<{ type: string; title: string; body: string; url: string }>) {
+  return {
+    graphql: vi.fn(async () => ({
+      json: async () => ({ data: { shop: { shopPolicies } } }),
+    }) as Response),
+  };
+}
+
+describe('ShopPolicyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('refreshShopPolicies', () => {
+    it('should store plain text with a hash and only invalidate answers when the text changed', async () => {
+      mockPrisma.shopPolicy.findMany.mockResolvedValue([
+        policyRow('refund', 'Returns within 30 days.'),
+        policyRow('shipping', 'Ships in 2 days.'),
+      ]);
+      const admin = mockAdmin([
+        { type: 'REFUND_POLICY', title: 'Refund policy', body: '<p>Returns within 30 days.</p>', url: 'https://shop/policies/refund' },
+        { type: 'SHIPPING_POLICY', title: 'Shipping policy', body: '<p>Ships in <b>24 hours</b>.</p>', url: 'https://shop/policies/shipping' },
+      ]);
+
+      const changed = await refreshShopPolicies(SHOP, admin);
+
+      // Shipping text changed; privacy, terms and contact were never stored
+      expect(changed).toEqual(['shipping', 'privacy', 'terms', 'contact']);
+      expect(mockPrisma.shopPolicy.upsert).toHaveBeenCalledTimes(5);
+      expect(mockPrisma.shopPolicy.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { shop_type: { shop: SHOP, type: 'shipping' } },
+        update: expect.objectContaining({
+          body: 'Ships in 24 hours.',
+          contentHash: hashPolicyBody('Ships in 24 hours.'),
+        }),
+      }));
+      expect(invalidateResponseCache).toHaveBeenCalledWith(SHOP, expect.objectContaining({ reason: 'policies_updated' }));
+    });
+
+    it('should not invalidate answers when nothing changed', async () => {
+      mockPrisma.shopPolicy.findMany.mockResolvedValue(
+        ['refund', 'shipping', 'privacy', 'terms', 'contact'].map((type) =>
+          policyRow(type, type === 'refund' ? 'Returns within 30 days.' : null)
+        )
+      );
+      const admin = mockAdmin([
+        { type: 'REFUND_POLICY', title: 'Refund policy', body: 'Returns within 30 days.', url: '' },
+      ]);
+
+      expect(await refreshShopPolicies(SHOP, admin)).toEqual([]);
+      expect(invalidateResponseCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toShopPolicies', () => {
+    it('should prefer the merchant override over the fetched text', () => {
+      const policies = toShopPolicies(SHOP, [
+        policyRow('refund', 'Shopify refund text', { overrideBody: 'Free returns for 60 days.' }),
+        policyRow('terms', 'Terms text'),
+      ]);
+
+      expect(policies).toMatchObject({
+        shopName: 'test-shop',
+        returns: 'Free returns for 60 days.',
+        termsOfService: 'Terms text',
+        shipping: null,
+      });
+      expect(toShopPolicies(SHOP, [])).toBeNull();
+    });
+  });
+
+  describe('extractContactCard', () => {
+    it('should read the email and labeled phone number from the contact information', () => {
+      const contact = 'Trade name: Test Shop\nPhone number: +33 1 23 45 67 89\nEmail: hello@test-shop.com\nVAT number: FR12345678901';
+
+      expect(extractContactCard({ contact })).toEqual({ email: 'hello@test-shop.com', phone: '+33 1 23 45 67 89' });
+      expect(extractContactCard({ contact: null, contactEmail: 'help@test-shop.com' }))
+        .toEqual({ email: 'help@test-shop.com', phone: null });
+      expect(extractContactCard({ contact: 'Registered in 2019, company number 12345678' })).toBeNull();
+    });
+  });
+
+  describe('getPolicyAnswer', () => {
+    it('should answer from the policy text in the shopper language', () => {
+      expect(getPolicyAnswer('terms', { termsOfService: 'By ordering you accept these terms.' }, 'ja'))
+        .toBe('利用規約:\n\nBy ordering you accept these terms.');
+      expect(getPolicyAnswer('privacy', null, 'de-DE')).toContain('Datenschutzrichtlinie');
+      expect(getPolicyAnswer('contact', { contact: null, contactEmail: 'hello@test-shop.com' }, 'zh'))
+        .toBe('联系方式:\n\n📧 hello@test-shop.com');
+    });
+  });
+
+  describe('getShopPolicies', () => {
+    it('should use stored policies without calling Shopify while they are fresh', async () => {
+      mockPrisma.shopPolicy.findMany.mockResolvedValue([policyRow('shipping', 'Ships in 2 days.')]);
+      const admin = mockAdmin([]);
+
+      const policies = await getShopPolicies(SHOP, admin);
+
+      expect(policies?.shipping).toBe('Ships in 2 days.');
+      expect(admin.graphql).not.toHaveBeenCalled();
+    });
+
+    it('should fetch policies on first use', async () => {
+      mockPrisma.shopPolicy.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([policyRow('refund', 'Returns within 30 days.')]);
+      const admin = mockAdmin([
+        { type: 'REFUND_POLICY', title: 'Refund policy', body: 'Returns within 30 days.', url: '' },
+      ]);
+
+      const policies = await getShopPolicies(SHOP, admin);
+
+      expect(admin.graphql).toHaveBeenCalledTimes(1);
+      expect(policies?.returns).toBe('Returns within 30 days.');
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderTranscript, type Transcript } from '../../app/lib/transcript.server';
+import { createMailTransport, getMailConfigFromEnv } from '../../app/services/mail/index.server';
+import { forwardEscalationTranscript, sendTranscript } from '../../app/services/transcript.service.server';
+import type * as MailIndex from '../../app/services/mail/index.server';
+
+const { mockPrisma, mockAdmin, mockTransport } = vi.hoisted(() => ({
+  mockPrisma: {
+    chatSession: {
+      findFirst: vi.fn(),
+    },
+    chatMessage: {
+      findMany: vi.fn(),
+    },
+    productEmbedding: {
+      findMany: vi.fn(),
+    },
+    transcriptDelivery: {
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    lead: {
+      findFirst: vi.fn(),
+    },
+    widgetSettings: {
+      findUnique: vi.fn(),
+    },
+  },
+  mockAdmin: {
+    graphql: vi.fn(),
+  },
+  mockTransport: {
+    name: 'smtp' as const,
+    send: vi.fn(),
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('../../app/shopify.server', () => ({
+  unauthenticated: { admin: vi.fn(async () => ({ admin: mockAdmin })) },
+}));
+
+vi.mock('../../app/services/mail/index.server', async (importOriginal) => ({
+  ...(await importOriginal<typeof MailIndex>()),
+  resolveMailTransport: vi.fn(() => mockTransport),
+}));
+
+const SHOP = 'demo-store.myshopify.com';
+
+// Built at runtime so the fixture is not itself a script URL literal
+const SCRIPT_SCHEME = ['javascript', ''].join(':');
+
+const TRANSCRIPT: Transcript = {
+  shop: SHOP,
+  chatSessionId: 'session-1',
+  startedAt: '2026-02-03T10:00:00.000Z',
+  messages: [
+    { role: 'user', content: 'Any <b>waterproof</b> jackets?', timestamp: '2026-02-03T10:00:00.000Z', products: [] },
+    {
+      role: 'assistant',
+      content: 'Here is our best one.',
+      timestamp: '2026-02-03T10:00:05.000Z',
+      products: [{
+        id: 'gid://shopify/Product/1',
+        title: 'Storm Jacket',
+        url: `https://${SHOP}/products/storm-jacket`,
+        image: `${SCRIPT_SCHEME}alert(1)`,
+        price: '129.00',
+      }],
+    },
+    { role: 'agent', content: 'Happy to help with sizing.', timestamp: '2026-02-03T10:01:00.000Z', agentName: 'Sam', products: [] },
+  ],
+};
+
+function graphqlResponse(data: unknown) {
+  return { json: async () => ({ data }) } as unknown as Response;
+}
+
+describe('Chat transcripts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.transcriptDelivery.count.mockResolvedValue(0);
+    mockPrisma.transcriptDelivery.create.mockImplementation(async ({ data }) => ({ id: 'delivery-1', ...data }));
+    mockPrisma.productEmbedding.findMany.mockResolvedValue([]);
+    mockPrisma.lead.findFirst.mockResolvedValue({ id: 'lead-1' });
+  });
+
+  it('should render escaped HTML with product cards and a plain-text version', () => {
+    const { subject, html, text } = renderTranscript(TRANSCRIPT);
+
+    expect(subject).toBe('Your conversation with demo-store');
+    expect(html).toContain('Any &lt;b&gt;waterproof&lt;/b&gt; jackets?');
+    expect(html).toContain('Storm Jacket');
+    expect(html).toContain(`href="https://${SHOP}/products/storm-jacket"`);
+    expect(html).not.toContain(SCRIPT_SCHEME);
+    expect(html).toContain('Sam');
+
+    expect(text).toContain('You:\nAny <b>waterproof</b> jackets?');
+    expect(text).toContain(`  - Storm Jacket (129.00): https://${SHOP}/products/storm-jacket`);
+  });
+
+  it('should use the shopper language for labels', () => {
+    const { subject, text } = renderTranscript(TRANSCRIPT, { language: 'fr' });
+    expect(subject).toBe('Votre conversation avec demo-store');
+    expect(text).toContain('Vous:');
+  });
+
+  it('should pick the mail transport from the environment', () => {
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    vi.stubEnv('SMTP_HOST', 'smtp.example.com');
+    vi.stubEnv('SMTP_PORT', '465');
+    expect(getMailConfigFromEnv()).toMatchObject({ transport: 'smtp', smtp: { host: 'smtp.example.com', port: 465, secure: true } });
+
+    vi.stubEnv('SMTP_HOST', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(getMailConfigFromEnv()).toBeNull();
+
+    expect(createMailTransport({ transport: 'file', from: 'a@example.com', directory: 'tmp/mail' }).name).toBe('file');
+    expect(() => createMailTransport({ transport: 'smtp', from: 'a@example.com' })).toThrow('SMTP_HOST');
+    vi.unstubAllEnvs();
+  });
+
+  it('should email the transcript with product cards and record the delivery', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'session-1', userProfileId: 'profile-1', createdAt: new Date('2026-02-03T10:00:00Z') });
+    mockPrisma.chatMessage.findMany.mockResolvedValue([
+      { role: 'assistant', content: 'Try this one', timestamp: new Date('2026-02-03T10:00:05Z'), productsShown: '["gid://shopify/Product/1"]', metadata: '{}' },
+      { role: 'user', content: 'Any jackets?', timestamp: new Date('2026-02-03T10:00:00Z'), productsShown: '[]', metadata: '{}' },
+    ]);
+    mockAdmin.graphql.mockResolvedValue(graphqlResponse({
+      nodes: [{
+        id: 'gid://shopify/Product/1',
+        title: 'Storm Jacket',
+        handle: 'storm-jacket',
+        featuredImage: { url: 'https://cdn.shopify.com/storm.jpg' },
+        variants: { edges: [{ node: { price: '129.00', compareAtPrice: null } }] },
+      }],
+    }));
+    mockTransport.send.mockResolvedValue({ transport: 'smtp', messageId: '<abc@example.com>' });
+
+    const result = await sendTranscript({
+      shop: SHOP,
+      chatSessionId: 'session-1',
+      to: 'shopper@example.com',
+      trigger: 'shopper_request',
+      language: 'de-DE',
+    });
+
+    expect(result).toEqual({ status: 'sent', deliveryId: 'delivery-1' });
+    const message = mockTransport.send.mock.calls[0]![0];
+    expect(message.to).toBe('shopper@example.com');
+    expect(message.subject).toBe('Ihr Gespräch mit demo-store');
+    expect(message.html).toContain('https://cdn.shopify.com/storm.jpg');
+    expect(message.text.indexOf('Any jackets?')).toBeLessThan(message.text.indexOf('Try this one'));
+    expect(mockPrisma.transcriptDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ recipient: 'shopper@example.com', status: 'sent', transport: 'smtp', messageId: '<abc@example.com>' }),
+    });
+  });
+
+  it('should record failed sends and cap shopper copies per session', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'session-1', userProfileId: 'profile-1', createdAt: new Date() });
+    mockPrisma.chatMessage.findMany.mockResolvedValue([]);
+    mockTransport.send.mockRejectedValue(new Error('Connection refused'));
+
+    const failed = await sendTranscript({ shop: SHOP, chatSessionId: 'session-1', to: 'shopper@example.com', trigger: 'shopper_request' });
+    expect(failed.status).toBe('failed');
+    expect(mockPrisma.transcriptDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'failed', error: 'Connection refused' }),
+    });
+
+    mockPrisma.transcriptDelivery.count.mockResolvedValue(3);
+    const capped = await sendTranscript({ shop: SHOP, chatSessionId: 'session-1', to: 'shopper@example.com', trigger: 'shopper_request' });
+    expect(capped.status).toBe('limit_reached');
+    expect(mockTransport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only send shopper copies to the lead email left on the session', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'session-1', userProfileId: 'profile-1', createdAt: new Date() });
+    mockPrisma.lead.findFirst.mockResolvedValue(null);
+
+    const result = await sendTranscript({ shop: SHOP, chatSessionId: 'session-1', to: 'Victim@Example.com', trigger: 'shopper_request' });
+
+    expect(result.status).toBe('unverified_recipient');
+    expect(mockPrisma.lead.findFirst).toHaveBeenCalledWith({
+      where: { shop: SHOP, email: 'victim@example.com', userProfileId: 'profile-1' },
+      select: { id: true },
+    });
+    expect(mockTransport.send).not.toHaveBeenCalled();
+    expect(mockPrisma.transcriptDelivery.create).not.toHaveBeenCalled();
+  });
+
+  it('should cap shopper copies per shop and per recipient', async () => {
+    mockPrisma.chatSession.findFirst.mockResolvedValue({ id: 'session-1', userProfileId: 'profile-1', createdAt: new Date() });
+    // Per session, per shop, per recipient
+    mockPrisma.transcriptDelivery.count
+      .mockResolvedValueOnce(0).mockResolvedValueOnce(0).mockResolvedValueOnce(5)
+      .mockResolvedValueOnce(0).mockResolvedValueOnce(200).mockResolvedValueOnce(0);
+
+    const perRecipient = await sendTranscript({ shop: SHOP, chatSessionId: 'session-1', to: 'shopper@example.com', trigger: 'shopper_request' });
+    const perShop = await sendTranscript({ shop: SHOP, chatSessionId: 'session-1', to: 'shopper@example.com', trigger: 'shopper_request' });
+
+    expect(perRecipient.status).toBe('limit_reached');
+    expect(perShop.status).toBe('limit_reached');
+    expect(mockPrisma.transcriptDelivery.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ recipient: 'shopper@example.com', trigger: 'shopper_request', status: 'sent' }),
+    });
+    expect(mockTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should only forward escalations when the shop set an address', async () => {
+    mockPrisma.widgetSettings.findUnique.mockResolvedValue({ transcriptEmail: null });
+    expect(await forwardEscalationTranscript(SHOP, 'session-1', 'negative_sentiment')).toBeNull();
+    expect(mockTransport.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  toProductGid,
+  verifyRecommendations,
+  verifyRecommendationsStage,
+} from '../../app/services/chat-pipeline/verify-recommendations.server';
+import type { ChatPipelineState, PipelineProduct } from '../../app/services/chat-pipeline/types';
+
+vi.mock('../../app/db.server', () => ({
+  prisma: {},
+  default: {},
+}));
+
+const shop = 'test-shop.myshopify.com';
+
+const trailRunner: PipelineProduct = {
+  id: 'gid://shopify/Product/1',
+  title: 'Trail Runner',
+  handle: 'trail-runner',
+  description: 'Grippy trail shoe',
+  image: 'https://cdn.shopify.com/trail.jpg',
+  price: '89.00',
+  compareAtPrice: '120.00',
+  inventory: 3,
+  tags: [],
+  rating: null,
+  reviewCount: 0,
+};
+
+const roadPro: PipelineProduct = {
+  ...trailRunner,
+  id: 'gid://shopify/Product/2',
+  title: 'Road Pro',
+  handle: 'road-pro',
+  image: 'https://cdn.shopify.com/road.jpg',
+  price: '60.00',
+  compareAtPrice: null,
+  inventory: 0,
+};
+
+function createAdmin(nodes: unknown[]) {
+  return {
+    graphql: vi.fn().mockResolvedValue({
+      json: async () => ({ data: { nodes, products: { edges: [] } } }),
+    } as Response),
+  };
+}
+
+function createState(recommendations: any[], admin?: ReturnType<typeof createAdmin>): ChatPipelineState {
+  return {
+    input: { shop, message: 'shoes', context: {}, source: 'widget' },
+    products: [trailRunner],
+    recommendations,
+    response: { message: 'Here you go', recommendations },
+    admin,
+  } as unknown as ChatPipelineState;
+}
+
+describe('Recommendation verification', () => {
+  it('should normalize product ids to gids', () => {
+    expect(toProductGid('42')).toBe('gid://shopify/Product/42');
+    expect(toProductGid('gid://shopify/ProductVariant/42')).toBeNull();
+  });
+
+  it('should drop unknown products and correct invented details', () => {
+    const result = verifyRecommendations([
+      { id: '1', title: 'Trail Runner X', handle: 'trail-runner', price: '49.99', url: 'https://elsewhere.com/products/fake', image: 'https://img.example/fake.jpg' },
+      { id: 'gid://shopify/Product/999', title: 'Magic Shoes', handle: 'magic-shoes', price: '10.00' },
+    ], [trailRunner], shop);
+
+    expect(result.recommendations).toHaveLength(1);
+    expect(result.recommendations[0]).toMatchObject({
+      id: 'gid://shopify/Product/1',
+      title: 'Trail Runner',
+      price: '89.00',
+      url: `https://${shop}/products/trail-runner`,
+      image: 'https://cdn.shopify.com/trail.jpg',
+      isAvailable: true,
+      inventory: 3,
+      isLowStock: true,
+      originalPrice: '120.00',
+    });
+    expect(result.corrections.map((c) => [c.field, c.action])).toEqual([
+      ['title', 'corrected'],
+      ['price', 'corrected'],
+      ['url', 'corrected'],
+      ['image', 'corrected'],
+      ['product', 'dropped'],
+    ]);
+  });
+
+  it('should fill stock silently and only record values the workflow got wrong', () => {
+    const result = verifyRecommendations([
+      { id: 'gid://shopify/Product/2', title: 'Road Pro', handle: 'road-pro', price: '$60', url: '/products/road-pro' },
+    ], [roadPro], shop);
+
+    expect(result.recommendations[0]).toMatchObject({ isAvailable: false, inventory: 0 });
+    expect(result.corrections).toEqual([]);
+  });
+
+  it('should match by handle and deduplicate', () => {
+    const result = verifyRecommendations([
+      { id: 'made-up-id', handle: 'trail-runner' },
+      { id: 'gid://shopify/Product/1' },
+    ], [trailRunner], shop);
+
+    expect(result.recommendations).toHaveLength(1);
+    expect(result.corrections).toEqual([expect.objectContaining({ field: 'id', from: 'made-up-id' })]);
+  });
+
+  describe('verifyRecommendationsStage', () => {
+    it('should look up products missing from the fetched catalog', async () => {
+      const admin = createAdmin([
+        { id: 'gid://shopify/Product/2', status: 'ACTIVE', title: 'Road Pro', handle: 'road-pro', totalInventory: 0, variants: { edges: [{ node: { price: '60.00' } }] } },
+        { id: 'gid://shopify/Product/3', status: 'DRAFT', title: 'Hidden', handle: 'hidden', variants: { edges: [] } },
+      ]);
+      const state = createState([
+        { id: 'gid://shopify/Product/1' },
+        { id: 'gid://shopify/Product/2', title: 'Road Pro', price: '60.00' },
+        { id: 'gid://shopify/Product/3', title: 'Hidden' },
+      ], admin);
+
+      await verifyRecommendationsStage(state);
+
+      expect(admin.graphql).toHaveBeenCalledTimes(1);
+      expect(admin.graphql.mock.calls[0]![1].variables.ids).toEqual(['gid://shopify/Product/2', 'gid://shopify/Product/3']);
+      expect(state.recommendations.map((r) => r.id)).toEqual(['gid://shopify/Product/1', 'gid://shopify/Product/2']);
+      expect(state.response?.recommendations).toBe(state.recommendations);
+      expect(state.recommendationCorrections).toEqual([
+        expect.objectContaining({ productId: 'gid://shopify/Product/3', action: 'dropped' }),
+      ]);
+    });
+
+    it('should drop unverifiable products when the lookup fails', async () => {
+      const admin = { graphql: vi.fn().mockRejectedValue(new Error('Throttled')) };
+      const state = createState([{ id: 'gid://shopify/Product/2' }], admin as any);
+
+      await verifyRecommendationsStage(state);
+
+      expect(state.recommendations).toEqual([]);
+      expect(state.recommendationCorrections).toHaveLength(1);
+    });
+
+    it('should skip replies without product cards', async () => {
+      const state = createState([]);
+      await verifyRecommendationsStage(state);
+
+      expect(state.recommendationCorrections).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import type { WebhookHealth } from '@prisma/client';
+import { N8NService } from '../../app/services/n8n.service.server';
+import {
+  isRetryableError,
+  summarizeWebhookHealth,
+} from '../../app/services/webhook-health.service.server';
+import { captureMessage } from '../../app/lib/sentry.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    webhookHealth: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+vi.mock('../../app/lib/sentry.server', () => ({
+  captureMessage: vi.fn(),
+}));
+
+vi.mock('../../app/services/embedding.service', () => ({
+  isEmbeddingServiceAvailable: vi.fn(() => false),
+  getEmbeddingService: vi.fn(),
+}));
+
+vi.mock('../../app/services/personalization.service', () => ({
+  personalizationService: {
+    classifyIntent: vi.fn(() => Promise.resolve('PRODUCT_SEARCH')),
+    analyzeSentiment: vi.fn(() => Promise.resolve('positive')),
+  },
+}));
+
+const shopDomain = 'test-shop.myshopify.com';
+
+function httpError(status: number) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+}
+
+function send(service: N8NService) {
+  return service.processUserMessage({ userMessage: 'Hello', products: [], context: { shopDomain } });
+}
+
+function healthRecord(overrides: Partial<WebhookHealth> = {}): WebhookHealth {
+  return {
+    id: 'health-1',
+    shop: shopDomain,
+    webhookKey: 'key',
+    maskedUrl: 'https://n8n.example.com/webhook/abcd****wxyz',
+    workflowType: 'custom',
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    downSince: null,
+    alertedAt: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    lastStatus: null,
+    recentCalls: '[]',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Webhook health', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    mockPrisma.webhookHealth.findUnique.mockResolvedValue(null);
+    mockPrisma.webhookHealth.upsert.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should only retry failures that are safe to repeat', () => {
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError(httpError(500))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' }))).toBe(false);
+  });
+
+  it('should summarize error rate and p95 latency from recent calls', () => {
+    const calls = Array.from({ length: 20 }, (_, i) => ({ ok: i >= 5, ms: (i + 1) * 100, at: i }));
+    const summary = summarizeWebhookHealth(healthRecord({ recentCalls: JSON.stringify(calls) }));
+
+    expect(summary).toMatchObject({ status: 'degraded', errorRate: 25, p95LatencyMs: 1900, sampleSize: 20 });
+    expect(summarizeWebhookHealth(healthRecord()).status).toBe('unknown');
+    expect(summarizeWebhookHealth(healthRecord({ state: 'open' })).status).toBe('down');
+  });
+
+  it('should retry a 503 and record the success', async () => {
+    mockedAxios.post
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ status: 200, data: { message: 'Hi there!' } });
+
+    const result = await send(new N8NService('https://n8n.example.com/webhook/retry-ok'));
+
+    expect(result.message).toBe('Hi there!');
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.webhookHealth.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ state: 'closed', consecutiveFailures: 0 }),
+    }));
+  });
+
+  it('should not retry a 404', async () => {
+    mockedAxios.post.mockRejectedValueOnce(httpError(404));
+
+    await send(new N8NService('https://n8n.example.com/webhook/not-found'));
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.webhookHealth.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ consecutiveFailures: 1, lastStatus: 404 }),
+    }));
+  });
+
+  it('should open the circuit, skip the webhook, then probe after the open period', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+    mockedAxios.post.mockRejectedValue(httpError(500));
+    const service = new N8NService('https://n8n.example.com/webhook/always-500');
+
+    for (let i = 0; i < 5; i++) {
+      await send(service);
+    }
+    expect(mockedAxios.post).toHaveBeenCalledTimes(5);
+
+    // Open: answered locally without calling the webhook
+    const result = await send(service);
+    expect(result.message).toBeDefined();
+    expect(mockedAxios.post).toHaveBeenCalledTimes(5);
+
+    // Half-open: one probe, which closes the circuit on success
+    vi.setSystemTime(new Date('2026-01-01T10:01:01Z'));
+    mockedAxios.post.mockResolvedValueOnce({ status: 200, data: { message: 'Back online' } });
+    expect((await send(service)).message).toBe('Back online');
+    expect(mockedAxios.post).toHaveBeenCalledTimes(6);
+    expect(mockPrisma.webhookHealth.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ state: 'closed', downSince: null }),
+    }));
+  });
+
+  it('should alert once when a custom workflow stays down', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T10:31:00Z'));
+    mockPrisma.webhookHealth.findUnique.mockResolvedValue(healthRecord({
+      state: 'open',
+      consecutiveFailures: 12,
+      openedAt: new Date('2026-01-01T10:29:00Z'),
+      downSince: new Date('2026-01-01T10:00:00Z'),
+    }));
+    mockedAxios.post.mockRejectedValue(httpError(404));
+    const service = new N8NService('https://n8n.example.com/webhook/custom-down');
+
+    await send(service);
+    vi.setSystemTime(new Date('2026-01-01T10:33:00Z'));
+    await send(service);
+
+    expect(captureMessage).toHaveBeenCalledTimes(1);
+    expect(captureMessage).toHaveBeenCalledWith('Custom N8N workflow down', 'error', expect.objectContaining({ shop: shopDomain }));
+  });
+});
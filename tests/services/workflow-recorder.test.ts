@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import {
+  REPLAY_HEADER,
+  diffJson,
+  recordWorkflowCall,
+  redactPayload,
+  replayWorkflowRecording,
+} from '../../app/services/workflow-recorder.service.server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    workflowRecording: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const shop = 'test-shop.myshopify.com';
+
+const request = {
+  userMessage: 'Call me on +33 6 12 34 56 78 or jane@example.com',
+  products: [{ id: 'gid://shopify/Product/1234567890', title: 'Mug', handle: 'mug', price: '19.99' }],
+  context: {
+    shopDomain: shop,
+    customerId: 'gid://shopify/Customer/456',
+    customerEmail: 'jane@example.com',
+    timestamp: '2026-01-26T10:30:00.000Z',
+    intent: 'PRODUCT_SEARCH',
+  },
+};
+
+describe('WorkflowRecorder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.workflowRecording.create.mockImplementation(({ data }) => Promise.resolve({ id: 'rec-2', ...data }));
+  });
+
+  describe('redactPayload', () => {
+    it('should redact identifiers, emails and free-text phone numbers', () => {
+      const redacted = redactPayload(request);
+
+      expect(redacted.context.customerId).toBe('[redacted]');
+      expect(redacted.context.customerEmail).toBe('[redacted]');
+      expect(redacted.userMessage).not.toContain('jane@example.com');
+      expect(redacted.userMessage).not.toContain('12 34 56 78');
+    });
+
+    it('should keep ids, prices and timestamps', () => {
+      const redacted = redactPayload(request);
+
+      expect(redacted.products[0]).toEqual(request.products[0]);
+      expect(redacted.context.timestamp).toBe(request.context.timestamp);
+      expect(request.context.customerId).toBe('gid://shopify/Customer/456');
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should list changes by path', () => {
+      const diff = diffJson(
+        { message: 'Hi', recommendations: [{ price: '10' }], confidence: 0.9 },
+        { message: 'Hi', recommendations: [{ price: '12' }, { price: '5' }], success: true }
+      );
+
+      expect(diff).toEqual([
+        { path: 'recommendations[0].price', kind: 'changed', before: '10', after: '12' },
+        { path: 'recommendations[1]', kind: 'added', after: { price: '5' } },
+        { path: 'confidence', kind: 'removed', before: 0.9 },
+        { path: 'success', kind: 'added', after: true },
+      ]);
+    });
+  });
+
+  describe('recordWorkflowCall', () => {
+    it('should store a redacted request with status and latency', async () => {
+      await recordWorkflowCall({
+        shop,
+        maskedUrl: 'https://n8n.example.com/webhook/abcd****wxyz',
+        request,
+        responseData: { message: 'Sure!' },
+        status: 200,
+        latencyMs: 412.6,
+      });
+
+      const { data } = mockPrisma.workflowRecording.create.mock.calls[0]![0];
+      expect(data).toMatchObject({ shop, source: 'live', intent: 'PRODUCT_SEARCH', status: 200, latencyMs: 413 });
+      expect(data.request).not.toContain('jane@example.com');
+      expect(JSON.parse(data.response)).toEqual({ message: 'Sure!' });
+    });
+
+    it('should not throw when the database fails', async () => {
+      mockPrisma.workflowRecording.create.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(recordWorkflowCall({ shop, maskedUrl: 'https://x', request, latencyMs: 1 }))
+        .resolves.toBeNull();
+    });
+  });
+
+  describe('replayWorkflowRecording', () => {
+    it('should send the recorded body and store the result as a replay', async () => {
+      const recorded = JSON.stringify(redactPayload(request));
+      mockPrisma.workflowRecording.findFirst.mockResolvedValueOnce({ id: 'rec-1', shop, request: recorded });
+      mockedAxios.post.mockResolvedValueOnce({ status: 200, data: { message: 'Replayed' } });
+
+      const replay = await replayWorkflowRecording(shop, 'rec-1', {
+        webhookUrl: 'https://staging.example.com/hook',
+        signingSecret: 'secret',
+      });
+
+      const [url, body, config] = mockedAxios.post.mock.calls[0]!;
+      expect(url).toBe('https://staging.example.com/hook');
+      expect(body).toBe(recorded);
+      expect(config?.headers).toMatchObject({ [REPLAY_HEADER]: '1' });
+      expect(config?.headers).toHaveProperty('X-Shopibot-Signature');
+      expect(replay).toMatchObject({ source: 'replay', replayOf: 'rec-1', status: 200 });
+    });
+
+    it('should return null for a recording of another shop', async () => {
+      mockPrisma.workflowRecording.findFirst.mockResolvedValueOnce(null);
+
+      expect(await replayWorkflowRecording(shop, 'rec-9', { webhookUrl: 'https://x.example.com' })).toBeNull();
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+  });
+});